@@ -7,6 +7,7 @@ module.exports = {
     '^.+\\.ts$': 'ts-jest'
   },
   moduleNameMapper: {
+    '\\.css$': '<rootDir>/tests/__mocks__/style.js',
     '^@core/(.*)$': '<rootDir>/src/core/$1',
     '^@plugins/(.*)$': '<rootDir>/src/plugins/$1',
     '^@ui/(.*)$': '<rootDir>/src/ui/$1',
@@ -0,0 +1,184 @@
+import { AutoSaveDraft, AutoSaveDraftMetadata, AutoSaveStorage } from '../types';
+
+export const DRAFT_FORMAT = '1.0';
+// Drafts kept per document; the oldest go first
+const MAX_DRAFTS = 5;
+// Older drafts are dropped instead of offered back
+const MAX_AGE = 24 * 60 * 60 * 1000;
+
+export function createDraftId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+}
+
+export function countWords(html: string): number {
+  const text = html.replace(/<[^>]*>/g, '').replace(/&[^;]+;/g, ' ');
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+export function generateChecksum(content: string): string {
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return hash.toString(16);
+}
+
+/**
+ * Auto-saved drafts of one document. Each editor session saves its own
+ * draft, so when several tabs were lost every one of them can be offered
+ * back. An index under `<key>-drafts` lists them with their checksums and
+ * the content of each lives under `<key>-draft-<id>`.
+ */
+export class DraftStore {
+  private storage: AutoSaveStorage;
+  private key: string;
+  private legacyKeys: string[];
+  // Changes to the index run one at a time so none of them is lost
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // `legacyKeys` held a single draft in earlier releases, most specific first
+  constructor(storage: AutoSaveStorage, key: string, legacyKeys: string[] = []) {
+    this.storage = storage;
+    this.key = key;
+    this.legacyKeys = legacyKeys;
+  }
+
+  save(id: string, content: string): Promise<AutoSaveDraftMetadata> {
+    return this.enqueue(() => this.write(id, content));
+  }
+
+  // Newest first, each checked against its checksum
+  loadAll(): Promise<AutoSaveDraft[]> {
+    return this.enqueue(() => this.read());
+  }
+
+  delete(id: string): Promise<void> {
+    return this.enqueue(() => this.remove([id]));
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async write(id: string, content: string): Promise<AutoSaveDraftMetadata> {
+    const metadata: AutoSaveDraftMetadata = {
+      id,
+      timestamp: Date.now(),
+      version: DRAFT_FORMAT,
+      wordCount: countWords(content),
+      checksum: generateChecksum(content)
+    };
+
+    await this.storage.save(this.contentKey(id), content);
+    await this.addToIndex(metadata);
+    return metadata;
+  }
+
+  private async read(): Promise<AutoSaveDraft[]> {
+    await this.migrate();
+
+    const drafts: AutoSaveDraft[] = [];
+    const missing: string[] = [];
+    for (const entry of await this.loadIndex()) {
+      const content = Date.now() - entry.timestamp > MAX_AGE
+        ? null
+        : await this.storage.load(this.contentKey(entry.id));
+      if (content === null) {
+        missing.push(entry.id);
+        continue;
+      }
+      drafts.push({ ...entry, content, corrupted: generateChecksum(content) !== entry.checksum });
+    }
+
+    if (missing.length > 0) {
+      await this.remove(missing);
+    }
+    return drafts;
+  }
+
+  private get indexKey(): string {
+    return `${this.key}-drafts`;
+  }
+
+  private contentKey(id: string): string {
+    return `${this.key}-draft-${id}`;
+  }
+
+  private async loadIndex(): Promise<AutoSaveDraftMetadata[]> {
+    const data = await this.storage.load(this.indexKey);
+    if (!data) return [];
+
+    try {
+      const index = JSON.parse(data);
+      return Array.isArray(index) ? index : [];
+    } catch {
+      // An unreadable index loses the list, not the drafts of later sessions
+      return [];
+    }
+  }
+
+  private async saveIndex(index: AutoSaveDraftMetadata[]): Promise<void> {
+    if (index.length === 0) {
+      await this.storage.delete(this.indexKey);
+    } else {
+      await this.storage.save(this.indexKey, JSON.stringify(index));
+    }
+  }
+
+  private async addToIndex(metadata: AutoSaveDraftMetadata): Promise<void> {
+    const index = (await this.loadIndex()).filter(entry => entry.id !== metadata.id);
+    index.push(metadata);
+    index.sort((a, b) => b.timestamp - a.timestamp);
+
+    const dropped = index.splice(MAX_DRAFTS);
+    await this.saveIndex(index);
+    for (const entry of dropped) {
+      await this.storage.delete(this.contentKey(entry.id));
+    }
+  }
+
+  private async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      await this.storage.delete(this.contentKey(id));
+    }
+    const index = await this.loadIndex();
+    await this.saveIndex(index.filter(entry => !ids.includes(entry.id)));
+  }
+
+  /**
+   * Takes over the first single draft left under a legacy key. Only keys
+   * with metadata next to them count: the autosave plugin saves under the
+   * same keys without it.
+   */
+  private async migrate(): Promise<void> {
+    for (const key of this.legacyKeys) {
+      const meta = await this.storage.load(`${key}-meta`);
+      const content = meta === null ? null : await this.storage.load(key);
+      if (content === null) continue;
+
+      let metadata: Partial<AutoSaveDraftMetadata> = {};
+      try {
+        metadata = JSON.parse(meta!);
+      } catch {
+        // Checked against a fresh checksum below
+      }
+
+      const id = createDraftId();
+      await this.storage.save(this.contentKey(id), content);
+      await this.addToIndex({
+        id,
+        timestamp: metadata.timestamp || Date.now(),
+        version: metadata.version || DRAFT_FORMAT,
+        wordCount: metadata.wordCount ?? countWords(content),
+        checksum: metadata.checksum || generateChecksum(content)
+      });
+      await this.storage.delete(key);
+      await this.storage.delete(`${key}-meta`);
+      return;
+    }
+  }
+}
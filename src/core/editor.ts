@@ -6,54 +6,101 @@ import {
   CommandManager, 
   PluginManager, 
   HistoryManager, 
-  EventEmitter 
+  EventEmitter,
+  DocumentJSON,
+  DocAttrs,
+  DocMark,
+  PluginDefinition,
+  I18n,
+  MessageParams,
+  TextDirection,
+  BlockDirection,
+  PastePipeline,
+  InputRules,
+  ContentOptions,
+  SanitizeSchema,
+  AutoSaveDraft
 } from '../types';
 import { createElement, setAttributes } from '../utils/dom';
 import { EventEmitterImpl, debounce } from '../utils/events';
-import { sanitizeHTML } from '../utils/sanitize';
+import { CORE_SCHEMA, mergeSchemas, sanitizeHTMLWithReport } from '../utils/sanitize';
+import { isRTLLanguage } from '../utils/bidi';
 import { optimizeContent } from '../utils/performance';
+import { createAutoSaveStorage } from '../utils/autosave-storage';
+import { isQuotaError } from '../utils/indexeddb';
 import { errorHandler, withErrorHandling } from '../utils/error-handler';
 import { SelectionManager } from './selection';
 import { CommandManagerImpl } from './command-manager';
 import { PluginManagerImpl } from './plugin-manager';
 import { HistoryManagerImpl } from './history-manager';
+import { PastePipelineImpl } from './paste';
+import { InputRulesImpl } from './input-rules';
+import { DraftStore, createDraftId, generateChecksum } from './drafts';
+import { parseHTML, serializeHTML, validateDocument } from './model';
+import { ModelView } from './model-view';
+import {
+  ModelPosition,
+  ModelRange,
+  changeIndent,
+  cloneDocument,
+  deleteRange,
+  insertText,
+  isCollapsed,
+  isInList,
+  marksAt,
+  rangeHasMark,
+  replaceRange,
+  setAlign,
+  setBlockType,
+  setDirection,
+  setMark,
+  textBlocks,
+  toggleList
+} from './transforms';
 import { ToolbarImpl } from '../ui/toolbar';
-import { 
-  ImagePlugin,
-  ListsPlugin,
-  LinkPlugin,
-  ColorPlugin,
-  FontPlugin,
-  CodeBlockPlugin,
-  FullscreenPlugin,
-  SourcePlugin,
-  TablePlugin,
-  FindReplacePlugin,
-  VideoPlugin,
-  ChecklistPlugin,
-  ImageCaptionPlugin,
-  StatisticsPlugin,
-  ResizePlugin,
-  MarkdownPlugin,
-  InlineToolbarPlugin,
-  EmojiPlugin,
-  SpecialCharsPlugin,
-  CharLimitPlugin,
-  FileManagerPlugin,
-  QuickInsertPlugin,
-  FormElementsPlugin,
-  PrintPreviewPlugin,
-  AutoSavePlugin,
-  VersionHistoryPlugin,
-  CommentsPlugin,
-  TrackChangesPlugin,
-  MobileOptimizationPlugin,
-  SettingsPlugin,
-  IconsPlugin
-} from '../plugins';
+import { RecoveryPanel } from '../ui/recovery-panel';
+import { mergeDocuments } from '../plugins/version-history/diff';
+import { markdownToHTML } from '../plugins/markdown/parser';
+import { resolveExportOptions, serializeMarkdown } from '../plugins/markdown/serializer';
+import { pluginRegistry } from './plugin-registry';
+import { I18nImpl } from '../i18n';
 import { KeyboardManager } from './keyboard';
 import { AccessibilityManager } from '../utils/accessibility';
 
+// Where auto-saved content was kept before each document got its own key
+const LEGACY_AUTOSAVE_KEY = 'xeditor-autosave';
+
+// Marks the inline formatting commands toggle
+const FORMAT_MARKS: Record<string, DocMark> = {
+  bold: { type: 'bold' },
+  italic: { type: 'italic' },
+  underline: { type: 'underline' },
+  strikethrough: { type: 'strike' }
+};
+
+// Block types formatBlock accepts, by tag name
+const BLOCK_TYPES: Record<string, { type: string; attrs?: DocAttrs }> = {
+  p: { type: 'paragraph' },
+  h1: { type: 'heading', attrs: { level: 1 } },
+  h2: { type: 'heading', attrs: { level: 2 } },
+  h3: { type: 'heading', attrs: { level: 3 } },
+  h4: { type: 'heading', attrs: { level: 4 } },
+  h5: { type: 'heading', attrs: { level: 5 } },
+  h6: { type: 'heading', attrs: { level: 6 } },
+  blockquote: { type: 'blockquote' },
+  pre: { type: 'code_block' },
+  div: { type: 'division' }
+};
+
+const ALIGN_COMMANDS: Record<string, string> = {
+  justifyLeft: 'left',
+  justifyCenter: 'center',
+  justifyRight: 'right',
+  justifyFull: 'justify'
+};
+
+const INDENT_STEP = 40;
+
 export class xEditor implements Editor {
   config: EditorConfig;
   container: HTMLElement;
@@ -65,26 +112,46 @@ export class xEditor implements Editor {
   plugins: PluginManager;
   history: HistoryManager;
   events: EventEmitter;
+  i18n: I18n;
+  paste: PastePipeline;
+  inputRules: InputRules;
   keyboard: KeyboardManager;
   accessibility: AccessibilityManager;
   // private _initialized: boolean = false;
   private autoSaveTimer?: ReturnType<typeof setTimeout>;
+  private recoveryPanel: RecoveryPanel | null = null;
+  private view: ModelView;
+  // Marks a formatting command set at a collapsed caret, for the text typed there next
+  private storedMarks: { marks: DocMark[]; position: ModelPosition } | null = null;
+  // Set by Ctrl+Shift+V so the paste event that follows drops formatting
+  private pasteAsPlainText: boolean = false;
+
+  // Makes a plugin available by name in the `plugins` option of every editor
+  static registerPlugin(definition: PluginDefinition): void {
+    pluginRegistry.define(definition);
+  }
 
   constructor(config: EditorConfig) {
     try {
       this.config = this.normalizeConfig(config);
       this.container = this.resolveContainer(this.config.container);
       this.events = new EventEmitterImpl();
+      this.i18n = new I18nImpl(this.config.language, this.config.locales, (key, locale) => {
+        this.events.emit('i18n:missing', { key, locale });
+      });
       
       this.wrapper = this.createWrapper();
       this.contentElement = this.createContentElement();
       this.wrapper.appendChild(this.contentElement);
       
+      this.view = new ModelView(this.contentElement);
       this.selection = new SelectionManager(this.contentElement);
       this.commands = new CommandManagerImpl();
       this.plugins = new PluginManagerImpl(this);
-      this.history = new HistoryManagerImpl(this.contentElement);
+      this.history = new HistoryManagerImpl(this.contentElement, this.events);
+      this.paste = new PastePipelineImpl(this);
       this.keyboard = new KeyboardManager(this);
+      this.inputRules = new InputRulesImpl(this);
       this.accessibility = new AccessibilityManager();
       
       this.init();
@@ -125,7 +192,9 @@ export class xEditor implements Editor {
     
     setAttributes(wrapper, {
       'data-theme': this.config.theme!,
-      'data-language': this.config.language!
+      'data-language': this.config.language!,
+      lang: this.config.language!,
+      dir: this.getDirection()
     });
     
     if (typeof this.config.width === 'string') {
@@ -196,24 +265,12 @@ export class xEditor implements Editor {
   }
 
   private registerDefaultCommands(): void {
-    this.commands.register('bold', {
-      execute: () => document.execCommand('bold', false),
-      queryState: () => document.queryCommandState('bold')
-    });
-    
-    this.commands.register('italic', {
-      execute: () => document.execCommand('italic', false),
-      queryState: () => document.queryCommandState('italic')
-    });
-    
-    this.commands.register('underline', {
-      execute: () => document.execCommand('underline', false),
-      queryState: () => document.queryCommandState('underline')
-    });
-    
-    this.commands.register('strikethrough', {
-      execute: () => document.execCommand('strikethrough', false),
-      queryState: () => document.queryCommandState('strikethrough')
+    // Formatting commands edit the document model and render the result
+    Object.entries(FORMAT_MARKS).forEach(([name, mark]) => {
+      this.commands.register(name, {
+        execute: () => this.toggleMark(mark),
+        queryState: () => this.hasMark(mark.type)
+      });
     });
     
     this.commands.register('undo', {
@@ -229,30 +286,44 @@ export class xEditor implements Editor {
     // Paragraph and heading commands
     this.commands.register('formatBlock', {
       execute: (value: string) => {
-        if (value.startsWith('<') && value.endsWith('>')) {
-          document.execCommand('formatBlock', false, value);
-        } else {
-          document.execCommand('formatBlock', false, `<${value}>`);
+        const block = BLOCK_TYPES[value.replace(/^<|>$/g, '').toLowerCase()];
+        if (block) {
+          this.transform((doc, range) => setBlockType(doc, range, block.type, block.attrs));
         }
       }
     });
     
-    // List commands - these are handled by the lists plugin
+    // List commands - the lists plugin replaces these with its own
     this.commands.register('insertOrderedList', {
-      execute: () => document.execCommand('insertOrderedList', false),
-      queryState: () => document.queryCommandState('insertOrderedList')
+      execute: () => this.transform((doc, range) => toggleList(doc, range, 'ordered_list')),
+      queryState: () => this.queryModel((doc, range) => isInList(doc, range, 'ordered_list'))
     });
     
     this.commands.register('insertUnorderedList', {
-      execute: () => document.execCommand('insertUnorderedList', false),
-      queryState: () => document.queryCommandState('insertUnorderedList')
+      execute: () => this.transform((doc, range) => toggleList(doc, range, 'bullet_list')),
+      queryState: () => this.queryModel((doc, range) => isInList(doc, range, 'bullet_list'))
     });
     
-    // Link command
+    // Link command; without a selection the link is inserted with its URL as text
     this.commands.register('createLink', {
       execute: (url: string) => {
-        if (url) {
-          document.execCommand('createLink', false, url);
+        if (!url) return;
+        const link: DocMark = { type: 'link', attrs: { href: url } };
+        this.transform((doc, range) => {
+          if (!isCollapsed(range)) {
+            setMark(doc, range, 'link', link);
+            return range;
+          }
+          return replaceRange(doc, range, [{ type: 'text', text: url, marks: [link] }]);
+        });
+      }
+    });
+    
+    // Inserted text takes the marks of the text around it
+    this.commands.register('insertText', {
+      execute: (text: string) => {
+        if (text) {
+          this.transform((doc, range) => insertText(doc, deleteRange(doc, range), text));
         }
       }
     });
@@ -261,56 +332,58 @@ export class xEditor implements Editor {
     this.commands.register('insertImage', {
       execute: (src: string) => {
         if (src) {
-          document.execCommand('insertImage', false, src);
+          this.transform((doc, range) => replaceRange(doc, range, [{ type: 'image', attrs: { src } }]));
         }
       }
     });
     
-    // Indent/Outdent commands - improved implementation
     this.commands.register('indent', {
-      execute: () => this.performIndent()
+      execute: () => this.transform((doc, range) => changeIndent(doc, range, INDENT_STEP))
     });
     
     this.commands.register('outdent', {
-      execute: () => this.performOutdent()
+      execute: () => this.transform((doc, range) => changeIndent(doc, range, -INDENT_STEP))
     });
     
-    // Alignment commands
-    this.commands.register('justifyLeft', {
-      execute: () => {
-        this.focus();
-        document.execCommand('justifyLeft', false);
-      },
-      queryState: () => document.queryCommandState('justifyLeft')
+    // Paste commands read the system clipboard
+    this.commands.register('pasteAsPlainText', {
+      execute: () => this.paste.pasteFromClipboard(true)
+        .catch(error => errorHandler.handle(error, 'Failed to read the clipboard'))
     });
     
-    this.commands.register('justifyCenter', {
-      execute: () => {
-        this.focus();
-        document.execCommand('justifyCenter', false);
-      },
-      queryState: () => document.queryCommandState('justifyCenter')
+    this.commands.register('pasteWithFormatting', {
+      execute: () => this.paste.pasteFromClipboard(false)
+        .catch(error => errorHandler.handle(error, 'Failed to read the clipboard'))
     });
     
-    this.commands.register('justifyRight', {
-      execute: () => {
-        this.focus();
-        document.execCommand('justifyRight', false);
-      },
-      queryState: () => document.queryCommandState('justifyRight')
+    // Block direction commands
+    this.commands.register('setBlockDirection', {
+      execute: (dir: BlockDirection) => this.transform((doc, range) => setDirection(doc, range, dir))
     });
     
-    this.commands.register('justifyFull', {
-      execute: () => {
-        this.focus();
-        document.execCommand('justifyFull', false);
-      },
-      queryState: () => document.queryCommandState('justifyFull')
+    const directionCommands: Record<string, BlockDirection> = {
+      directionLTR: 'ltr',
+      directionRTL: 'rtl',
+      directionAuto: 'auto'
+    };
+    Object.entries(directionCommands).forEach(([name, dir]) => {
+      this.commands.register(name, {
+        execute: () => this.transform((doc, range) => setDirection(doc, range, dir, true)),
+        queryState: () => this.queryBlocks(node => node.attrs?.dir === dir)
+      });
+    });
+    
+    // Alignment commands
+    Object.entries(ALIGN_COMMANDS).forEach(([name, align]) => {
+      this.commands.register(name, {
+        execute: () => this.transform((doc, range) => setAlign(doc, range, align)),
+        queryState: () => this.queryBlocks(node => (node.attrs?.align || 'left') === align)
+      });
     });
     
     // Horizontal rule command
     this.commands.register('insertHorizontalRule', {
-      execute: () => document.execCommand('insertHorizontalRule', false)
+      execute: () => this.transform((doc, range) => replaceRange(doc, range, [{ type: 'horizontal_rule' }]))
     });
     
     // Print command
@@ -319,17 +392,20 @@ export class xEditor implements Editor {
     });
   }
 
+  private notifyChange = debounce(() => {
+    const content = this.getContent();
+    this.events.emit('change', content);
+    this.events.emit('contentChange', content);
+    if (this.config.onChange) {
+      this.config.onChange(content);
+    }
+  }, 300);
+
   private setupEventListeners(): void {
-    const handleInput = debounce(() => {
-      this.history.record();
-      this.events.emit('change', this.getContent());
-      this.events.emit('contentChange', this.getContent());
-      if (this.config.onChange) {
-        this.config.onChange(this.getContent());
-      }
-    }, 300);
-    
-    this.contentElement.addEventListener('input', handleInput);
+    this.contentElement.addEventListener('input', (e) => {
+      this.applyStoredMarks(e as InputEvent);
+      this.notifyChange();
+    });
     
     // Listen for restored event from history manager
     this.contentElement.addEventListener('restored', () => {
@@ -353,17 +429,25 @@ export class xEditor implements Editor {
     });
     
     this.contentElement.addEventListener('paste', withErrorHandling((e) => {
-      e.preventDefault();
-      const text = e.clipboardData?.getData('text/html') || 
-                  e.clipboardData?.getData('text/plain') || '';
+      const plainText = this.pasteAsPlainText;
+      this.pasteAsPlainText = false;
+      // Listeners can take over the paste by calling preventDefault()
+      this.events.emit('paste', e);
+      if (e.defaultPrevented) return;
       
-      const sanitized = this.config.sanitize ? sanitizeHTML(text) : text;
-      const optimized = optimizeContent(sanitized);
-      document.execCommand('insertHTML', false, optimized);
+      const html = e.clipboardData?.getData('text/html') || '';
+      const text = e.clipboardData?.getData('text/plain') || '';
+      // Leave file-only pastes to plugins such as image
+      if (!html && !text) return;
+      
+      e.preventDefault();
+      this.paste.insert({ html, text }, plainText || undefined);
     }, 'Failed to handle paste'));
     
     this.contentElement.addEventListener('keydown', (e) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'v') {
+        this.pasteAsPlainText = true;
+      } else if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
         e.preventDefault();
         this.execCommand('undo');
       } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
@@ -395,262 +479,255 @@ export class xEditor implements Editor {
   }
 
   private loadPlugins(): void {
-    // Always load image plugin with configuration
-    const imagePlugin = new ImagePlugin(this.config.image || {});
-    this.plugins.register(imagePlugin);
-    
-    // Always load lists plugin
-    const listsPlugin = new ListsPlugin();
-    this.plugins.register(listsPlugin);
-    
-    // Always load link plugin
-    const linkPlugin = new LinkPlugin();
-    this.plugins.register(linkPlugin);
-    
-    // Always load color plugin
-    const colorPlugin = new ColorPlugin();
-    this.plugins.register(colorPlugin);
-    
-    // Always load font plugin
-    const fontPlugin = new FontPlugin();
-    this.plugins.register(fontPlugin);
-    
-    // Always load code block plugin
-    const codeBlockPlugin = new CodeBlockPlugin();
-    this.plugins.register(codeBlockPlugin);
-    
-    // Always load fullscreen plugin
-    const fullscreenPlugin = new FullscreenPlugin();
-    this.plugins.register(fullscreenPlugin);
-    
-    // Always load source plugin
-    const sourcePlugin = new SourcePlugin();
-    this.plugins.register(sourcePlugin);
-    
-    // Load table plugin
-    const tablePlugin = new TablePlugin();
-    this.plugins.register(tablePlugin);
-    
-    // Load find/replace plugin
-    const findReplacePlugin = new FindReplacePlugin();
-    this.plugins.register(findReplacePlugin);
-    
-    // Load video plugin
-    const videoPlugin = new VideoPlugin();
-    this.plugins.register(videoPlugin);
-    
-    // Load checklist plugin
-    const checklistPlugin = new ChecklistPlugin();
-    this.plugins.register(checklistPlugin);
-    
-    // Load image caption plugin
-    const imageCaptionPlugin = new ImageCaptionPlugin();
-    this.plugins.register(imageCaptionPlugin);
-    
-    // Load statistics plugin
-    const statisticsPlugin = new StatisticsPlugin();
-    this.plugins.register(statisticsPlugin);
-    
-    // Load resize plugin
-    const resizePlugin = new ResizePlugin();
-    this.plugins.register(resizePlugin);
-    
-    // Load markdown plugin
-    const markdownPlugin = new MarkdownPlugin();
-    this.plugins.register(markdownPlugin);
-    
-    // Load inline toolbar plugin (optional based on config)
-    if (this.config.inlineToolbar !== false) {
-      const inlineToolbarPlugin = new InlineToolbarPlugin(this.config.inlineToolbar || {});
-      this.plugins.register(inlineToolbarPlugin);
-    }
-    
-    // Load emoji plugin
-    const emojiPlugin = new EmojiPlugin();
-    this.plugins.register(emojiPlugin);
-    
-    // Load special chars plugin
-    const specialCharsPlugin = new SpecialCharsPlugin();
-    this.plugins.register(specialCharsPlugin);
-    
-    // Load char limit plugin (optional based on config)
-    if (this.config.charLimit) {
-      const charLimitPlugin = new CharLimitPlugin(this.config.charLimit);
-      this.plugins.register(charLimitPlugin);
-    }
-    
-    // Load file manager plugin (optional based on config)
-    if (this.config.fileManager) {
-      const fileManagerPlugin = new FileManagerPlugin(this.config.fileManager);
-      this.plugins.register(fileManagerPlugin);
-    }
-    
-    // Load quick insert plugin
-    const quickInsertPlugin = new QuickInsertPlugin(this.config.quickInsert || {});
-    this.plugins.register(quickInsertPlugin);
-    
-    // Load form elements plugin
-    const formElementsPlugin = new FormElementsPlugin(this.config.formElements || {});
-    this.plugins.register(formElementsPlugin);
-    
-    // Load print preview plugin
-    const printPreviewPlugin = new PrintPreviewPlugin(this.config.printPreview || {});
-    this.plugins.register(printPreviewPlugin);
-    
-    // Load autosave plugin (optional based on config)
-    if (this.config.autoSave) {
-      const autoSavePlugin = new AutoSavePlugin(this.config.autoSave);
-      this.plugins.register(autoSavePlugin);
-    }
-    
-    // Load version history plugin (optional based on config)
-    if (this.config.versionHistory) {
-      const versionHistoryPlugin = new VersionHistoryPlugin(this.config.versionHistory);
-      this.plugins.register(versionHistoryPlugin);
-    }
-    
-    // Load comments plugin (optional based on config)
-    if (this.config.comments) {
-      const commentsPlugin = new CommentsPlugin(this.config.comments);
-      this.plugins.register(commentsPlugin);
-    }
-    
-    // Load track changes plugin (optional based on config)
-    if (this.config.trackChanges) {
-      const trackChangesPlugin = new TrackChangesPlugin(this.config.trackChanges);
-      this.plugins.register(trackChangesPlugin);
-    }
-    
-    // Always register mobile optimization plugin
-    this.plugins.register(new MobileOptimizationPlugin());
-    
-    // Always register settings plugin
-    this.plugins.register(new SettingsPlugin());
-    
-    // Always register icons plugin (should be loaded early)
-    this.plugins.register(new IconsPlugin());
-    
-    if (this.config.plugins) {
-      // Additional plugin loading will be implemented
-    }
+    const { plugins, deferred, pending } = pluginRegistry.resolve(this);
+
+    plugins.forEach(plugin => this.plugins.register(plugin));
+    deferred.forEach(entry => this.plugins.registerLazy(entry.name, entry.load, entry.options));
+    deferred.filter(entry => entry.immediate).forEach(entry => this.plugins.load(entry.name));
+    pending.forEach(plugin => this.plugins.registerAsync(plugin));
   }
 
   private setupAutoSave(): void {
     const interval = this.config.autoSave?.interval || 30000;
-    const key = 'xeditor-autosave';
-    const metaKey = `${key}-meta`;
+    const storage = this.config.autoSave?.storageBackend || createAutoSaveStorage();
+    const containerId = typeof this.config.container === 'string'
+      ? this.config.container
+      : this.container.id || 'default';
+    // One key per document so editors on the same page keep their own drafts
+    const documentId = this.config.autoSave?.documentId || containerId;
+    const key = `xeditor-drafts-${documentId}`;
+    const drafts = new DraftStore(storage, key, [
+      `xeditor-autosave-${documentId}`,
+      LEGACY_AUTOSAVE_KEY
+    ]);
+    const draftId = createDraftId();
     
-    // Save with metadata
     this.autoSaveTimer = setInterval(() => {
-      const content = this.getContent();
-      const metadata = {
-        timestamp: Date.now(),
-        version: '1.0',
-        wordCount: this.getWordCount(content),
-        checksum: this.generateChecksum(content)
-      };
+      const content = this.getContent({ format: 'html' });
       
-      try {
-        localStorage.setItem(key, content);
-        localStorage.setItem(metaKey, JSON.stringify(metadata));
-        this.events.emit('autosave', { content, metadata });
-      } catch (error) {
-        // AutoSave failed
-        this.events.emit('autosave:error', error);
-      }
+      drafts.save(draftId, content)
+        .then(metadata => this.events.emit('autosave', { content, metadata }))
+        .catch(error => {
+          if (isQuotaError(error)) {
+            this.events.emit('autosave:quota-exceeded', { key, error });
+          }
+          this.events.emit('autosave:error', error);
+        });
     }, interval);
     
     // Check for saved content
-    this.checkAutoSaveRecovery(key, metaKey);
+    this.checkAutoSaveRecovery(drafts);
   }
   
-  private checkAutoSaveRecovery(key: string, metaKey: string): void {
+  private async checkAutoSaveRecovery(drafts: DraftStore): Promise<void> {
     try {
-      const saved = localStorage.getItem(key);
-      const metaStr = localStorage.getItem(metaKey);
-      
-      if (!saved) return;
-      
-      const metadata = metaStr ? JSON.parse(metaStr) : null;
-      const currentContent = this.getContent();
-      
-      // Don't restore if current content is not empty
-      if (currentContent.replace(/<[^>]*>/g, '').trim()) {
-        return;
-      }
+      const checksum = generateChecksum(this.getContent({ format: 'html' }));
+      const pending: AutoSaveDraft[] = [];
       
-      // Check if saved content is recent (within 24 hours)
-      if (metadata && metadata.timestamp) {
-        const age = Date.now() - metadata.timestamp;
-        const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-        
-        if (age > maxAge) {
-          // Clear old autosave
-          localStorage.removeItem(key);
-          localStorage.removeItem(metaKey);
-          return;
+      for (const draft of await drafts.loadAll()) {
+        if (draft.corrupted) {
+          this.events.emit('autosave:corrupted', draft);
+        } else if (draft.checksum === checksum) {
+          // Nothing in it the editor does not show already
+          await drafts.delete(draft.id);
+          continue;
         }
+        pending.push(draft);
       }
       
-      // Show recovery dialog
-      this.showRecoveryDialog(saved, metadata);
+      if (pending.length > 0) {
+        this.showRecoveryPanel(drafts, pending);
+      }
     } catch (error) {
-      // Failed to check autosave
-    }
-  }
-  
-  private showRecoveryDialog(content: string, metadata: { timestamp?: number; wordCount?: number }): void {
-    const shouldRecover = confirm(
-      `Found autosaved content from ${metadata?.timestamp ? new Date(metadata.timestamp).toLocaleString() : 'previous session'}.\n\n` +
-      `Words: ${metadata?.wordCount || 'unknown'}\n\n` +
-      `Would you like to restore it?`
-    );
-    
-    if (shouldRecover) {
-      this.setContent(content);
-      this.events.emit('autosave:recovered', { content, metadata });
-    } else {
-      // Clear autosave if user declines
-      const key = 'xeditor-autosave';
-      localStorage.removeItem(key);
-      localStorage.removeItem(`${key}-meta`);
+      errorHandler.handle(error as Error, 'Failed to check auto-saved drafts');
     }
   }
   
-  private getWordCount(html: string): number {
-    const text = html.replace(/<[^>]*>/g, '').replace(/&[^;]+;/g, ' ');
-    return text.split(/\s+/).filter(word => word.length > 0).length;
-  }
-  
-  private generateChecksum(content: string): string {
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString(16);
+  private showRecoveryPanel(drafts: DraftStore, pending: AutoSaveDraft[]): void {
+    const discard = (draft: AutoSaveDraft) => {
+      drafts.delete(draft.id).catch(() => {});
+    };
+    
+    this.recoveryPanel?.destroy();
+    this.recoveryPanel = new RecoveryPanel(this, pending, {
+      restore: draft => {
+        this.setContent(draft.content);
+        discard(draft);
+        this.events.emit('autosave:recovered', { content: draft.content, metadata: draft });
+      },
+      merge: draft => {
+        this.setJSON(mergeDocuments(this.getJSON(), parseHTML(this.sanitize(draft.content))));
+        discard(draft);
+        this.events.emit('autosave:merged', { content: this.getContent({ format: 'html' }), metadata: draft });
+      },
+      discard: draft => {
+        discard(draft);
+        this.events.emit('autosave:discarded', draft);
+      }
+    });
+    this.wrapper.insertBefore(this.recoveryPanel.element, this.contentElement);
   }
 
-  getContent(): string {
-    return this.contentElement.innerHTML;
+  getContent(options: ContentOptions = {}): string {
+    const format = options.format || this.config.outputFormat || 'html';
+    if (format === 'markdown') {
+      return serializeMarkdown(this.view.getDocument(), resolveExportOptions(this.config.markdown?.exportOptions));
+    }
+    return serializeHTML(this.view.getDocument());
   }
 
-  setContent(content: string): void {
+  setContent(content: string, options: ContentOptions = {}): void {
     try {
-      const sanitized = this.config.sanitize ? sanitizeHTML(content) : content;
+      const html = options.format === 'markdown' ? markdownToHTML(content) : content;
+      const sanitized = this.sanitize(html);
       const optimized = optimizeContent(sanitized);
-      this.contentElement.innerHTML = optimized;
-      this.history.record();
-      this.events.emit('change', optimized);
+      this.history.transact('setContent', () => {
+        this.view.render(parseHTML(optimized));
+      });
+      this.events.emit('change', this.getContent());
     } catch (error) {
       errorHandler.handle(error as Error, 'Failed to set content');
     }
   }
 
+  getJSON(): DocumentJSON {
+    return cloneDocument(this.view.getDocument());
+  }
+
+  setJSON(json: DocumentJSON): void {
+    const errors = validateDocument(json);
+    if (errors.length > 0) {
+      const first = errors[0];
+      errorHandler.handle(
+        new Error(`Invalid document at [${first.path.join(', ')}]: ${first.message}`),
+        'Failed to set content'
+      );
+      return;
+    }
+    this.setContent(serializeHTML(json));
+  }
+
+  /**
+   * Applies `edit` to a copy of the model at the current selection and
+   * renders the result. The edit returns where the selection ends up, if it
+   * moved.
+   */
+  private transform(edit: (doc: DocumentJSON, range: ModelRange) => ModelRange | ModelPosition | void): void {
+    const range = this.view.getSelection();
+    if (!range) return;
+
+    const doc = cloneDocument(this.view.getDocument());
+    const result = edit(doc, range);
+    const selection = !result ? range : ('block' in result ? { from: result, to: result } : result);
+    this.focus();
+    this.view.render(doc, selection);
+    this.storedMarks = null;
+    this.notifyChange();
+  }
+
+  private queryModel(query: (doc: DocumentJSON, range: ModelRange) => boolean): boolean {
+    const range = this.view.getSelection();
+    return !!range && query(this.view.getDocument(), range);
+  }
+
+  // Whether every block the selection touches matches
+  private queryBlocks(test: (node: DocumentJSON['content'][number]) => boolean): boolean {
+    return this.queryModel((doc, range) => textBlocks(doc)
+      .slice(range.from.block, range.to.block + 1)
+      .every(block => test(block.parent)));
+  }
+
+  private toggleMark(mark: DocMark): void {
+    const range = this.view.getSelection();
+    if (!range) return;
+
+    const active = isCollapsed(range)
+      ? this.currentMarks(range.from).some(other => other.type === mark.type)
+      : rangeHasMark(this.view.getDocument(), range, mark.type);
+    this.setMark(mark.type, active ? null : mark);
+  }
+
+  private hasMark(type: string): boolean {
+    return this.queryModel((doc, range) => isCollapsed(range)
+      ? this.currentMarks(range.from).some(mark => mark.type === type)
+      : rangeHasMark(doc, range, type));
+  }
+
+  private currentMarks(position: ModelPosition): DocMark[] {
+    const stored = this.storedMarks;
+    if (stored && stored.position.block === position.block && stored.position.offset === position.offset) {
+      return stored.marks;
+    }
+    return marksAt(this.view.getDocument(), position);
+  }
+
+  // Gives text typed right after a formatting command at the caret its marks
+  private applyStoredMarks(e: InputEvent): void {
+    const stored = this.storedMarks;
+    if (!stored || e.inputType !== 'insertText' || !e.data) return;
+    this.storedMarks = null;
+
+    const range = this.view.getSelection();
+    if (!range || !isCollapsed(range) || range.from.block !== stored.position.block) return;
+    if (range.from.offset - e.data.length !== stored.position.offset) return;
+
+    const typed: ModelRange = { from: stored.position, to: range.from };
+    const doc = cloneDocument(this.view.getDocument());
+    const current = marksAt(doc, range.from);
+    current.filter(mark => !stored.marks.some(other => other.type === mark.type))
+      .forEach(mark => setMark(doc, typed, mark.type, null));
+    stored.marks.forEach(mark => setMark(doc, typed, mark.type, mark));
+
+    this.history.transact('typing', () => {
+      this.view.render(doc, range);
+    });
+  }
+
   insertContent(content: string): void {
-    const sanitized = this.config.sanitize ? sanitizeHTML(content) : content;
-    this.execCommand('insertHTML', sanitized);
+    this.execCommand('insertHTML', this.sanitize(content));
+  }
+
+  /**
+   * Sets `mark` on the selected text, replacing marks of its type, or removes
+   * marks of `type` when `mark` is null. At a collapsed caret it applies to
+   * the text typed next.
+   */
+  setMark(type: string, mark: DocMark | null): void {
+    const range = this.view.getSelection();
+    if (!range) return;
+
+    if (isCollapsed(range)) {
+      const marks = this.currentMarks(range.from).filter(other => other.type !== type);
+      this.storedMarks = { marks: mark ? [...marks, mark] : marks, position: range.from };
+      return;
+    }
+
+    this.transform(doc => setMark(doc, range, type, mark));
+  }
+
+  /**
+   * Sanitizes HTML against the schema from getSanitizeSchema() and emits
+   * `sanitize:removed` with whatever had to be stripped.
+   */
+  sanitize(html: string): string {
+    if (!this.config.sanitize) return html;
+
+    const schema = this.getSanitizeSchema();
+    const { html: sanitized, removed } = sanitizeHTMLWithReport(html, {
+      allowedTags: schema.tags,
+      allowedAttributes: schema.attributes,
+      iframeHosts: schema.iframeHosts
+    });
+
+    if (removed.length > 0) {
+      this.events.emit('sanitize:removed', removed);
+    }
+    return sanitized;
+  }
+
+  // Core markup plus the schemas of the enabled plugins and `sanitizeSchema`
+  getSanitizeSchema(): Required<SanitizeSchema> {
+    return mergeSchemas(CORE_SCHEMA, ...this.plugins.getSchemas(), this.config.sanitizeSchema);
   }
 
   focus(): void {
@@ -665,6 +742,11 @@ export class xEditor implements Editor {
     if (this.autoSaveTimer) {
       clearInterval(this.autoSaveTimer);
     }
+    this.recoveryPanel?.destroy();
+    
+    this.view.destroy();
+    (this.history as HistoryManagerImpl).destroy();
+    (this.inputRules as InputRulesImpl).destroy();
     
     this.plugins.getAll().forEach(plugin => {
       this.plugins.unregister(plugin.name);
@@ -681,34 +763,38 @@ export class xEditor implements Editor {
     const executeCommand = withErrorHandling(() => {
       this.selection.save();
       
-      // Record state before command for better undo/redo
-      if (command !== 'undo' && command !== 'redo') {
-        // Recording state before command
-        (this.history as HistoryManagerImpl).recordImmediate();
-      }
+      const run = () => {
+        if (command === 'insertHTML') {
+          const nodes = parseHTML(value as string).content;
+          this.transform((doc, range) => replaceRange(doc, range, nodes));
+        } else {
+          this.commands.execute(command, value);
+        }
+      };
       
-      if (command === 'insertHTML') {
-        document.execCommand('insertHTML', false, value as string);
+      // Everything the command changes is undone as one step
+      if (command === 'undo' || command === 'redo') {
+        run();
+        this.selection.restore();
       } else {
-        this.commands.execute(command, value);
+        this.history.transact(`command:${command}`, () => {
+          this.events.emit('command:before', command, value);
+          run();
+          // Commands that select something themselves keep their selection
+          if (!this.selection.hasChanged()) {
+            this.selection.restore();
+          }
+          // Listeners may adjust the result within the same undo step
+          this.events.emit('command:after', command, value);
+        });
       }
       
-      this.selection.restore();
-      
       if (this.toolbar) {
         this.toolbar.updateState();
       }
       
       // Emit command executed event for accessibility
       this.events.emit('commandExecuted', command);
-      
-      // Record state after command
-      if (command !== 'undo' && command !== 'redo') {
-        setTimeout(() => {
-          // Recording state after command
-          (this.history as HistoryManagerImpl).recordImmediate();
-        }, 100);
-      }
     }, `Failed to execute command: ${command}`);
     
     executeCommand();
@@ -729,74 +815,48 @@ export class xEditor implements Editor {
   emit(event: string, ...args: unknown[]): void {
     this.events.emit(event, ...args);
   }
-  
-  // Custom indent/outdent implementation
-  private performIndent(): void {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    const range = selection.getRangeAt(0);
-    const container = range.commonAncestorContainer;
-    
-    // Find the closest block element
-    let blockElement = container.nodeType === Node.TEXT_NODE ? 
-      container.parentElement : container as Element;
-    
-    while (blockElement && !this.isBlockElement(blockElement)) {
-      blockElement = blockElement.parentElement;
-    }
-    
-    if (blockElement) {
-      const currentStyle = window.getComputedStyle(blockElement);
-      const currentMargin = parseInt(currentStyle.marginLeft) || 0;
-      (blockElement as HTMLElement).style.marginLeft = `${currentMargin + 40}px`;
-    }
+
+  t(key: string, params?: MessageParams): string {
+    return this.i18n.t(key, params);
   }
-  
-  private performOutdent(): void {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    const range = selection.getRangeAt(0);
-    const container = range.commonAncestorContainer;
-    
-    // Find the closest block element
-    let blockElement = container.nodeType === Node.TEXT_NODE ? 
-      container.parentElement : container as Element;
-    
-    while (blockElement && !this.isBlockElement(blockElement)) {
-      blockElement = blockElement.parentElement;
-    }
-    
-    if (blockElement) {
-      const currentStyle = window.getComputedStyle(blockElement);
-      const currentMargin = parseInt(currentStyle.marginLeft) || 0;
-      const newMargin = Math.max(0, currentMargin - 40);
-      (blockElement as HTMLElement).style.marginLeft = newMargin > 0 ? `${newMargin}px` : '';
-    }
+
+  setLanguage(language: string): void {
+    this.config.language = language;
+    this.i18n.setLocale(language);
+    setAttributes(this.wrapper, {
+      'data-language': language,
+      lang: language,
+      dir: this.getDirection()
+    });
+    this.events.emit('language:change', language);
   }
-  
-  private isBlockElement(element: Element): boolean {
-    const blockElements = ['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'UL', 'OL', 'BLOCKQUOTE'];
-    return blockElements.includes(element.tagName);
+
+  getDirection(): TextDirection {
+    return this.config.dir || (isRTLLanguage(this.config.language!) ? 'rtl' : 'ltr');
+  }
+
+  setDirection(dir: TextDirection): void {
+    this.config.dir = dir;
+    this.wrapper.setAttribute('dir', dir);
+    this.events.emit('direction:change', dir);
   }
 
   print(): void {
     // Create a print-friendly window
     const printWindow = window.open('', '_blank', 'width=800,height=600');
     if (!printWindow) {
-      alert('Please allow pop-ups to print the content.');
+      alert(this.t('print.popupBlocked'));
       return;
     }
     
     // Get the content
-    const content = this.getContent();
+    const content = this.getContent({ format: 'html' });
     const theme = this.wrapper.getAttribute('data-theme') || 'light';
     
     // Create print document
     const printDoc = `
       <!DOCTYPE html>
-      <html>
+      <html lang="${this.config.language}" dir="${this.getDirection()}">
       <head>
         <meta charset="UTF-8">
         <title>Print Preview</title>
@@ -833,7 +893,7 @@ export class xEditor implements Editor {
           ul, ol {
             margin-top: 0;
             margin-bottom: 1em;
-            padding-left: 2em;
+            padding-inline-start: 2em;
           }
           
           li {
@@ -842,8 +902,8 @@ export class xEditor implements Editor {
           
           blockquote {
             margin: 0 0 1em 0;
-            padding-left: 1em;
-            border-left: 4px solid #dee2e6;
+            padding-inline-start: 1em;
+            border-inline-start: 4px solid #dee2e6;
             color: #6c757d;
           }
           
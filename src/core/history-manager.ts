@@ -1,240 +1,438 @@
-import { HistoryManager } from '../types';
-import { debounce } from '../utils/events';
-
-interface HistoryState {
-  content: string;
-  selection: {
-    start: number;
-    end: number;
-  };
-  timestamp: number;
-}
+import {
+  HistoryManager,
+  HistoryStep,
+  HistoryTransaction,
+  SelectionOffsets,
+  EventEmitter
+} from '../types';
+
+// Typing within this window of the previous keystroke is undone together
+const TYPING_GROUP_DELAY = 1000;
 
 export class HistoryManagerImpl implements HistoryManager {
-  private history: HistoryState[] = [];
-  private currentIndex: number = -1;
+  private undoStack: HistoryTransaction[] = [];
+  private redoStack: HistoryTransaction[] = [];
   private maxSize: number = 100;
   private editor: HTMLElement;
-  private isRestoring: boolean = false;
-  private lastRecordTime: number = 0;
-  private minRecordInterval: number = 500; // Minimum time between records
-  private recordTimer: ReturnType<typeof setTimeout> | null = null;
-  private lastContent: string = '';
+  private events: EventEmitter | null;
+  private observer: MutationObserver;
+  private pendingRecords: MutationRecord[] = [];
+  private transactionDepth: number = 0;
+  private transactionOrigin: string | null = null;
+  private inputType: string = '';
+  private selectionBefore: SelectionOffsets | null = null;
+  private lastSelection: SelectionOffsets | null = null;
+  private nextId: number = 1;
 
-  constructor(editor: HTMLElement, maxSize: number = 100) {
+  constructor(editor: HTMLElement, events?: EventEmitter, maxSize: number = 100) {
     this.editor = editor;
+    this.events = events || null;
     this.maxSize = maxSize;
-    // Initial state will be recorded after a delay
-    setTimeout(() => this.recordImmediate(), 100);
+
+    this.observer = new MutationObserver(records => {
+      const content = records.filter(this.isContentRecord);
+      if (content.length === 0) return;
+      this.pendingRecords.push(...content);
+      // Mutations outside of user input or an explicit transaction come from plugins
+      if (this.transactionDepth === 0 && !this.inputType) {
+        this.commit('plugin');
+      }
+    });
+    this.observer.observe(this.editor, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      characterDataOldValue: true,
+      attributes: true,
+      attributeOldValue: true
+    });
+
+    this.editor.addEventListener('beforeinput', this.handleBeforeInput);
+    this.editor.addEventListener('input', this.handleInput);
+    document.addEventListener('selectionchange', this.handleSelectionChange);
   }
 
   undo(): void {
-    if (!this.canUndo()) {
+    this.commit('plugin');
+    const transaction = this.undoStack.pop();
+    if (!transaction) {
       // Cannot undo - no history available
       return;
     }
-    
-    // Undo operation
-    this.currentIndex--;
-    this.restore(this.history[this.currentIndex]);
+
+    this.apply(transaction, 'undo');
+    this.redoStack.push(transaction);
+    this.events?.emit('history:undo', transaction);
   }
 
   redo(): void {
-    if (!this.canRedo()) {
+    this.commit('plugin');
+    const transaction = this.redoStack.pop();
+    if (!transaction) {
       // Cannot redo - no future history
       return;
     }
-    
-    // Redo operation
-    this.currentIndex++;
-    this.restore(this.history[this.currentIndex]);
+
+    this.apply(transaction, 'redo');
+    this.undoStack.push(transaction);
+    this.events?.emit('history:redo', transaction);
   }
 
   canUndo(): boolean {
-    return this.currentIndex > 0;
+    return this.undoStack.length > 0 || this.pendingRecords.length > 0;
   }
 
   canRedo(): boolean {
-    return this.currentIndex < this.history.length - 1;
+    return this.redoStack.length > 0;
   }
 
-  record = debounce((): void => {
-    if (this.isRestoring) {
-      // Skip record - currently restoring
-      return;
-    }
-    
-    const now = Date.now();
-    if (now - this.lastRecordTime < this.minRecordInterval) {
-      // Skip record - too soon after last record
-      return;
+  /**
+   * Close the current change as its own undo step. Plugins call this after
+   * mutating the DOM directly; the origin tags the resulting transaction.
+   */
+  record(origin: string = 'plugin'): void {
+    if (this.transactionDepth > 0) return;
+    this.commit(origin);
+  }
+
+  /**
+   * Run `fn` and record every DOM change it makes as a single transaction.
+   * Nested calls join the outermost transaction.
+   */
+  transact(origin: string, fn: () => void): void {
+    if (this.transactionDepth === 0) {
+      this.commit('plugin');
+      this.transactionOrigin = origin;
+      this.selectionBefore = this.captureSelection();
     }
-    
-    const state = this.captureState();
-    
-    // Check if content actually changed
-    if (this.currentIndex >= 0) {
-      const lastState = this.history[this.currentIndex];
-      if (lastState.content === state.content) {
-        // Skip record - content unchanged
-        return;
+
+    this.transactionDepth++;
+    try {
+      fn();
+    } finally {
+      this.transactionDepth--;
+      if (this.transactionDepth === 0) {
+        const transactionOrigin = this.transactionOrigin || origin;
+        this.transactionOrigin = null;
+        this.commit(transactionOrigin);
+        // Input a listener took over with preventDefault() never fires `input`
+        this.inputType = '';
       }
     }
-    
-    // Remove any redo history when new changes are made
-    if (this.currentIndex < this.history.length - 1) {
-      this.history = this.history.slice(0, this.currentIndex + 1);
-      // Removed redo history
-    }
-    
-    this.history.push(state);
-    this.lastRecordTime = now;
-    
-    if (this.history.length > this.maxSize) {
-      this.history.shift();
-      // Removed oldest entry - max size reached
+  }
+
+  /**
+   * Run `fn` without recording its DOM changes, for transient UI such as
+   * upload placeholders that should never be undone or redone.
+   */
+  ignore(fn: () => void): void {
+    if (this.transactionDepth === 0) {
+      this.commit('plugin');
     } else {
-      this.currentIndex++;
+      this.pendingRecords.push(...this.observer.takeRecords().filter(this.isContentRecord));
     }
-    
-    // Recorded state
-  }, 500);
 
-  clear(): void {
-    this.history = [];
-    this.currentIndex = -1;
-    this.lastRecordTime = 0;
-    this.lastContent = '';
-    if (this.recordTimer) {
-      clearTimeout(this.recordTimer);
-      this.recordTimer = null;
+    try {
+      fn();
+    } finally {
+      this.observer.takeRecords();
     }
+  }
+
+  clear(): void {
+    this.observer.takeRecords();
+    this.pendingRecords = [];
+    this.undoStack = [];
+    this.redoStack = [];
+    this.selectionBefore = null;
+    this.inputType = '';
     // Cleared history
-    setTimeout(() => this.recordImmediate(), 100);
   }
-  
-  // Force immediate record without debounce
-  recordImmediate(): void {
-    if (this.isRestoring) {
-      // Skip immediate record - currently restoring
+
+  destroy(): void {
+    this.observer.disconnect();
+    this.editor.removeEventListener('beforeinput', this.handleBeforeInput);
+    this.editor.removeEventListener('input', this.handleInput);
+    document.removeEventListener('selectionchange', this.handleSelectionChange);
+  }
+
+  getHistory(): readonly HistoryTransaction[] {
+    return this.undoStack;
+  }
+
+  private handleBeforeInput = (e: InputEvent): void => {
+    if (e.inputType === 'historyUndo' || e.inputType === 'historyRedo') {
+      e.preventDefault();
+      if (e.inputType === 'historyUndo') {
+        this.undo();
+      } else {
+        this.redo();
+      }
       return;
     }
-    
-    const state = this.captureState();
-    
-    // Check if content changed
-    if (state.content === this.lastContent) {
-      // Skip immediate record - content unchanged
-      return;
+
+    if (this.transactionDepth > 0) return;
+
+    // Anything that changed the DOM before this input is a separate step
+    this.commit('plugin');
+    this.inputType = e.inputType;
+    this.selectionBefore = this.captureSelection();
+  };
+
+  private handleInput = (e: Event): void => {
+    if (this.transactionDepth > 0) return;
+
+    const inputType = (e as InputEvent).inputType || this.inputType;
+    this.inputType = inputType;
+    this.commit(this.getInputOrigin(inputType));
+    this.inputType = '';
+  };
+
+  private handleSelectionChange = (): void => {
+    const selection = this.captureSelection();
+    if (selection) {
+      this.lastSelection = selection;
     }
-    
-    if (this.currentIndex >= 0) {
-      const lastState = this.history[this.currentIndex];
-      if (lastState.content === state.content) {
-        // Skip immediate record - same as current state
-        return;
-      }
+  };
+
+  private getInputOrigin(inputType: string): string {
+    if (inputType.startsWith('insertFromPaste')) return 'paste';
+    if (inputType === 'insertFromDrop' || inputType === 'deleteByDrag') return 'drop';
+    if (inputType.startsWith('format')) return 'format';
+    return 'typing';
+  }
+
+  // Attributes of the content element itself, such as drop-target classes, are not content
+  private isContentRecord = (record: MutationRecord): boolean => {
+    return record.type !== 'attributes' || record.target !== this.editor;
+  };
+
+  private commit(origin: string): void {
+    const records = [...this.pendingRecords, ...this.observer.takeRecords().filter(this.isContentRecord)];
+    this.pendingRecords = [];
+    if (records.length === 0) return;
+
+    const transaction: HistoryTransaction = {
+      id: this.nextId++,
+      origin,
+      steps: this.toSteps(records),
+      selectionBefore: this.selectionBefore || this.lastSelection,
+      selectionAfter: this.captureSelection(),
+      timestamp: Date.now()
+    };
+    if (origin === 'typing' && this.inputType) {
+      transaction.inputType = this.inputType;
     }
-    
-    if (this.currentIndex < this.history.length - 1) {
-      this.history = this.history.slice(0, this.currentIndex + 1);
-      // Removed redo history (immediate)
+    this.selectionBefore = null;
+    this.lastSelection = transaction.selectionAfter;
+
+    // Changes made by other collaborators are not undone by the local user
+    if (origin === 'remote') {
+      this.events?.emit('history:transaction', transaction);
+      return;
     }
-    
-    this.history.push(state);
-    this.lastRecordTime = Date.now();
-    this.lastContent = state.content;
-    
-    if (this.history.length > this.maxSize) {
-      this.history.shift();
-      // Removed oldest entry (immediate) - max size reached
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && this.canMerge(last, transaction)) {
+      last.steps.push(...transaction.steps);
+      last.selectionAfter = transaction.selectionAfter;
+      last.timestamp = transaction.timestamp;
+      last.inputType = transaction.inputType;
     } else {
-      this.currentIndex++;
+      this.undoStack.push(transaction);
+      if (this.undoStack.length > this.maxSize) {
+        this.undoStack.shift();
+        // Removed oldest entry - max size reached
+      }
     }
-    
-    // Immediate record complete
+    this.redoStack = [];
+
+    this.events?.emit('history:transaction', transaction);
   }
 
-  getHistory(): readonly HistoryState[] {
-    return this.history;
+  // Consecutive keystrokes of the same kind become one undo step until the
+  // user pauses, moves the caret, or starts a new paragraph
+  private canMerge(last: HistoryTransaction, next: HistoryTransaction): boolean {
+    if (last.origin !== 'typing' || next.origin !== 'typing') return false;
+    if (next.timestamp - last.timestamp > TYPING_GROUP_DELAY) return false;
+
+    const lastType = last.inputType || '';
+    const nextType = next.inputType || '';
+    if (lastType.startsWith('delete') !== nextType.startsWith('delete')) return false;
+    if (['insertParagraph', 'insertLineBreak'].includes(lastType)) return false;
+    if (['insertParagraph', 'insertLineBreak'].includes(nextType)) return false;
+
+    if (last.selectionAfter && next.selectionBefore) {
+      return last.selectionAfter.start === next.selectionBefore.start &&
+        last.selectionAfter.end === next.selectionBefore.end;
+    }
+    return true;
   }
 
-  private captureState(): HistoryState {
-    const content = this.editor.innerHTML;
-    const selection = window.getSelection();
-    let start = 0;
-    let end = 0;
-    
-    if (selection && selection.rangeCount > 0) {
-      const range = selection.getRangeAt(0);
-      const preRange = range.cloneRange();
-      preRange.selectNodeContents(this.editor);
-      preRange.setEnd(range.startContainer, range.startOffset);
-      start = preRange.toString().length;
-      
-      preRange.setEnd(range.endContainer, range.endOffset);
-      end = preRange.toString().length;
+  private toSteps(records: MutationRecord[]): HistoryStep[] {
+    const steps: HistoryStep[] = records.map(record => {
+      if (record.type === 'characterData') {
+        return {
+          type: 'text',
+          target: record.target as CharacterData,
+          oldValue: record.oldValue || '',
+          newValue: ''
+        };
+      }
+      if (record.type === 'attributes') {
+        return {
+          type: 'attribute',
+          target: record.target as Element,
+          name: record.attributeName || '',
+          oldValue: record.oldValue,
+          newValue: null
+        };
+      }
+      return {
+        type: 'childList',
+        target: record.target,
+        added: Array.from(record.addedNodes),
+        removed: Array.from(record.removedNodes),
+        previousSibling: record.previousSibling,
+        nextSibling: record.nextSibling
+      };
+    });
+
+    // Records only carry the old value; the new one is whatever the next
+    // record on the same target saw as old, or the current DOM value
+    const latestText = new Map<Node, string>();
+    const latestAttributes = new Map<Element, Map<string, string | null>>();
+    for (let i = steps.length - 1; i >= 0; i--) {
+      const step = steps[i];
+      if (step.type === 'text') {
+        step.newValue = latestText.has(step.target) ? latestText.get(step.target)! : step.target.data;
+        latestText.set(step.target, step.oldValue);
+      } else if (step.type === 'attribute') {
+        let attributes = latestAttributes.get(step.target);
+        if (!attributes) {
+          attributes = new Map();
+          latestAttributes.set(step.target, attributes);
+        }
+        step.newValue = attributes.has(step.name)
+          ? attributes.get(step.name)!
+          : step.target.getAttribute(step.name);
+        attributes.set(step.name, step.oldValue);
+      }
     }
-    
-    return {
-      content,
-      selection: { start, end },
-      timestamp: Date.now()
-    };
+
+    return steps;
   }
 
-  private restore(state: HistoryState): void {
-    this.isRestoring = true;
-    console.log(`[History] Restoring state from timestamp: ${new Date(state.timestamp).toISOString()}`);
-    
-    this.editor.innerHTML = state.content;
-    this.lastContent = state.content;
-    
-    this.restoreSelection(state.selection);
-    
-    // Don't trigger input event during restore to avoid recording
+  private apply(transaction: HistoryTransaction, direction: 'undo' | 'redo'): void {
+    const steps = direction === 'undo' ? [...transaction.steps].reverse() : transaction.steps;
+
+    steps.forEach(step => {
+      switch (step.type) {
+        case 'text':
+          step.target.data = direction === 'undo' ? step.oldValue : step.newValue;
+          break;
+        case 'attribute': {
+          const value = direction === 'undo' ? step.oldValue : step.newValue;
+          if (value === null) {
+            step.target.removeAttribute(step.name);
+          } else {
+            step.target.setAttribute(step.name, value);
+          }
+          break;
+        }
+        case 'childList': {
+          const toRemove = direction === 'undo' ? step.added : step.removed;
+          const toInsert = direction === 'undo' ? step.removed : step.added;
+          toRemove.forEach(node => {
+            if (node.parentNode === step.target) {
+              step.target.removeChild(node);
+            }
+          });
+          const reference = this.findReference(step);
+          toInsert.forEach(node => {
+            step.target.insertBefore(node, reference);
+          });
+          break;
+        }
+      }
+    });
+
+    // Our own mutations must not be recorded as a new transaction
+    this.observer.takeRecords();
+
+    const selection = direction === 'undo' ? transaction.selectionBefore : transaction.selectionAfter;
+    if (selection) {
+      this.restoreSelection(selection);
+      this.lastSelection = selection;
+    }
+
     this.editor.dispatchEvent(new Event('restored', { bubbles: true }));
-    
-    setTimeout(() => {
-      this.isRestoring = false;
-      console.log('[History] Restore completed');
-    }, 150);
   }
 
-  private restoreSelection(selection: { start: number; end: number }): void {
+  private findReference(step: Extract<HistoryStep, { type: 'childList' }>): Node | null {
+    if (step.nextSibling && step.nextSibling.parentNode === step.target) {
+      return step.nextSibling;
+    }
+    if (step.previousSibling && step.previousSibling.parentNode === step.target) {
+      return step.previousSibling.nextSibling;
+    }
+    return step.previousSibling === null ? step.target.firstChild : null;
+  }
+
+  private captureSelection(): SelectionOffsets | null {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+
+    const range = selection.getRangeAt(0);
+    if (!this.editor.contains(range.startContainer) || !this.editor.contains(range.endContainer)) {
+      return null;
+    }
+
+    const preRange = range.cloneRange();
+    preRange.selectNodeContents(this.editor);
+    preRange.setEnd(range.startContainer, range.startOffset);
+    const start = preRange.toString().length;
+
+    preRange.setEnd(range.endContainer, range.endOffset);
+    const end = preRange.toString().length;
+
+    return { start, end };
+  }
+
+  private restoreSelection(selection: SelectionOffsets): void {
     const range = document.createRange();
     const textNodes = this.getTextNodes(this.editor);
-    
+
     let currentOffset = 0;
     let startNode: Node | null = null;
     let startOffset = 0;
     let endNode: Node | null = null;
     let endOffset = 0;
-    
+
     for (const node of textNodes) {
       const nodeLength = node.textContent?.length || 0;
       const nodeEndOffset = currentOffset + nodeLength;
-      
+
       if (!startNode && selection.start >= currentOffset && selection.start <= nodeEndOffset) {
         startNode = node;
         startOffset = selection.start - currentOffset;
       }
-      
+
       if (!endNode && selection.end >= currentOffset && selection.end <= nodeEndOffset) {
         endNode = node;
         endOffset = selection.end - currentOffset;
       }
-      
+
       if (startNode && endNode) break;
-      
+
       currentOffset = nodeEndOffset;
     }
-    
+
     if (startNode && endNode) {
       try {
         range.setStart(startNode, startOffset);
         range.setEnd(endNode, endOffset);
-        
+
         const sel = window.getSelection();
         if (sel) {
           sel.removeAllRanges();
@@ -253,12 +451,12 @@ export class HistoryManagerImpl implements HistoryManager {
       NodeFilter.SHOW_TEXT,
       null
     );
-    
+
     let currentNode: Node | null;
     while ((currentNode = walker.nextNode()) !== null) {
       textNodes.push(currentNode as Text);
     }
-    
+
     return textNodes;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,211 @@
+import { Editor, HistoryTransaction, InputRule, InputRules } from '../types';
+import { errorHandler } from '../utils/error-handler';
+
+const HISTORY_ORIGIN = 'input-rule';
+
+// Elements whose text rules are matched against; the innermost one around the caret wins
+const TEXT_BLOCK = /^(P|H[1-6]|LI|BLOCKQUOTE|DIV|TD|TH|CAPTION|FIGCAPTION|DT|DD)$/;
+const CHECKLIST_TEXT_CLASS = 'xeditor-checklist-text';
+// What ends a bare line of text in the content element
+const LINE_BOUNDARY = /^(BR|P|H[1-6]|UL|OL|LI|BLOCKQUOTE|DIV|PRE|TABLE|FIGURE|HR)$/;
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+/**
+ * Turns text into formatting as it is typed, such as "## " into a heading.
+ * A conversion is its own undo step after the keystroke that triggered it,
+ * so undo, or Backspace right after it, brings back the text as typed.
+ */
+export class InputRulesImpl implements InputRules {
+  private editor: Editor;
+  private rules: InputRule[] = [];
+  // Set after a conversion until anything else happens
+  private undoable: boolean = false;
+
+  constructor(editor: Editor) {
+    this.editor = editor;
+    editor.contentElement.addEventListener('input', this.handleInput);
+    editor.contentElement.addEventListener('compositionend', this.handleCompositionEnd);
+    editor.contentElement.addEventListener('keydown', this.handleKeyDown);
+    editor.contentElement.addEventListener('mousedown', this.reset);
+    editor.on('history:transaction', this.handleTransaction);
+    editor.on('history:undo', this.reset);
+    editor.on('history:redo', this.reset);
+  }
+
+  register(rule: InputRule): void {
+    this.unregister(rule.name);
+    this.rules.push(rule);
+  }
+
+  unregister(name: string): void {
+    this.rules = this.rules.filter(rule => rule.name !== name);
+  }
+
+  undoInputRule(): boolean {
+    if (!this.undoable) return false;
+    this.undoable = false;
+    this.editor.history.undo();
+    return true;
+  }
+
+  destroy(): void {
+    this.editor.contentElement.removeEventListener('input', this.handleInput);
+    this.editor.contentElement.removeEventListener('compositionend', this.handleCompositionEnd);
+    this.editor.contentElement.removeEventListener('keydown', this.handleKeyDown);
+    this.editor.contentElement.removeEventListener('mousedown', this.reset);
+    this.editor.off('history:transaction', this.handleTransaction);
+    this.editor.off('history:undo', this.reset);
+    this.editor.off('history:redo', this.reset);
+  }
+
+  private handleInput = (e: Event): void => {
+    const event = e as InputEvent;
+    if (event.isComposing || event.inputType !== 'insertText' || !event.data) return;
+    this.run('');
+  };
+
+  // Text composed with an IME is only final once the composition ends
+  private handleCompositionEnd = (): void => {
+    this.run('');
+  };
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.isComposing || e.ctrlKey || e.metaKey || e.altKey) {
+      this.undoable = false;
+      return;
+    }
+
+    if (e.key === 'Backspace' && this.undoInputRule()) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      return;
+    }
+    if (e.key === 'Enter' && !e.shiftKey && this.run('\n')) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      return;
+    }
+    if (!MODIFIER_KEYS.includes(e.key)) {
+      this.undoable = false;
+    }
+  };
+
+  private handleTransaction = (transaction: HistoryTransaction): void => {
+    if (transaction.origin !== HISTORY_ORIGIN) {
+      this.undoable = false;
+    }
+  };
+
+  private reset = (): void => {
+    this.undoable = false;
+  };
+
+  /**
+   * Tries the rules against the text before the caret, followed by
+   * `pending` for input that is not in the document yet. Returns whether a
+   * rule converted it.
+   */
+  private run(pending: string): boolean {
+    if (this.rules.length === 0) return false;
+
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return false;
+    const caret = selection.getRangeAt(0);
+    const root = this.editor.contentElement;
+    if (!root.contains(caret.startContainer)) return false;
+
+    const block = this.findBlock(caret.startContainer);
+    if (!block) return false;
+
+    const lineStart = this.findLineStart(block, caret.startContainer);
+    const before = document.createRange();
+    before.setStart(lineStart.node, lineStart.offset);
+    before.setEnd(caret.startContainer, caret.startOffset);
+    const typed = before.toString();
+    const text = typed + pending;
+
+    for (const rule of this.rules) {
+      rule.pattern.lastIndex = 0;
+      const match = rule.pattern.exec(text);
+      if (!match || match.index + match[0].length !== text.length || match.index > typed.length) continue;
+
+      const range = document.createRange();
+      const start = this.positionAt(before, match.index);
+      range.setStart(start.node, start.offset);
+      range.setEnd(caret.startContainer, caret.startOffset);
+
+      let handled = false;
+      try {
+        this.editor.history.transact(HISTORY_ORIGIN, () => {
+          handled = rule.handler({ match, block, range }) !== false;
+        });
+      } catch (error) {
+        errorHandler.handle(error as Error, `Input rule "${rule.name}" failed`);
+      }
+      if (handled) {
+        this.undoable = true;
+        this.editor.emit('inputrule', { name: rule.name, match });
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // No rules apply within code, where text is meant literally
+  private findBlock(node: Node): HTMLElement | null {
+    const root = this.editor.contentElement;
+    for (let current: Node | null = node; current && current !== root; current = current.parentNode) {
+      if (current.nodeType !== Node.ELEMENT_NODE) continue;
+      const element = current as HTMLElement;
+      if (element.tagName === 'PRE' || element.tagName === 'CODE') return null;
+      if (TEXT_BLOCK.test(element.tagName) || element.classList.contains(CHECKLIST_TEXT_CLASS)) {
+        return element;
+      }
+    }
+    return root;
+  }
+
+  // Where the caret's line starts: the block itself, or the first node after a break in a bare line
+  private findLineStart(block: HTMLElement, node: Node): { node: Node; offset: number } {
+    if (block !== this.editor.contentElement) {
+      return { node: block, offset: 0 };
+    }
+
+    let top = node;
+    while (top.parentNode && top.parentNode !== block) {
+      top = top.parentNode;
+    }
+    let first = top;
+    while (first.previousSibling && !this.isLineBoundary(first.previousSibling)) {
+      first = first.previousSibling;
+    }
+    let offset = 0;
+    for (let sibling = first.previousSibling; sibling; sibling = sibling.previousSibling) {
+      offset++;
+    }
+    return { node: block, offset };
+  }
+
+  private isLineBoundary(node: Node): boolean {
+    return node.nodeType === Node.ELEMENT_NODE && LINE_BOUNDARY.test((node as Element).tagName);
+  }
+
+  // DOM position `offset` characters into a range, counted like Range.toString()
+  private positionAt(range: Range, offset: number): { node: Node; offset: number } {
+    const walker = document.createTreeWalker(range.commonAncestorContainer, NodeFilter.SHOW_TEXT);
+    let remaining = offset;
+    let node: Node | null;
+    while ((node = walker.nextNode()) !== null) {
+      if (!range.intersectsNode(node)) continue;
+      const text = node as Text;
+      const start = node === range.startContainer ? range.startOffset : 0;
+      const end = node === range.endContainer ? range.endOffset : text.length;
+      if (remaining <= end - start) {
+        return { node, offset: start + remaining };
+      }
+      remaining -= end - start;
+    }
+    return { node: range.endContainer, offset: range.endOffset };
+  }
+}
@@ -7,6 +7,8 @@ export interface ShortcutHandler {
   shift?: boolean;
   alt?: boolean;
   description: string;
+  // Translation key for the description shown in the shortcut help
+  descriptionKey?: string;
   handler: () => void;
 }
 
@@ -101,6 +103,7 @@ export class KeyboardManager {
       key: 'b',
       ctrl: true,
       description: 'Bold',
+      descriptionKey: 'shortcuts.bold',
       handler: () => this.editor.execCommand('bold')
     });
 
@@ -108,6 +111,7 @@ export class KeyboardManager {
       key: 'i',
       ctrl: true,
       description: 'Italic',
+      descriptionKey: 'shortcuts.italic',
       handler: () => this.editor.execCommand('italic')
     });
 
@@ -115,6 +119,7 @@ export class KeyboardManager {
       key: 'u',
       ctrl: true,
       description: 'Underline',
+      descriptionKey: 'shortcuts.underline',
       handler: () => this.editor.execCommand('underline')
     });
 
@@ -124,6 +129,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Bullet List',
+      descriptionKey: 'shortcuts.bulletList',
       handler: () => this.editor.execCommand('insertUnorderedList')
     });
 
@@ -132,6 +138,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Numbered List',
+      descriptionKey: 'shortcuts.numberedList',
       handler: () => this.editor.execCommand('insertOrderedList')
     });
 
@@ -141,6 +148,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Heading 1',
+      descriptionKey: 'shortcuts.heading1',
       handler: () => this.editor.execCommand('formatBlock', 'h1')
     });
 
@@ -149,6 +157,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Heading 2',
+      descriptionKey: 'shortcuts.heading2',
       handler: () => this.editor.execCommand('formatBlock', 'h2')
     });
 
@@ -157,6 +166,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Heading 3',
+      descriptionKey: 'shortcuts.heading3',
       handler: () => this.editor.execCommand('formatBlock', 'h3')
     });
 
@@ -165,6 +175,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Normal Text',
+      descriptionKey: 'shortcuts.normalText',
       handler: () => this.editor.execCommand('formatBlock', 'p')
     });
 
@@ -173,6 +184,7 @@ export class KeyboardManager {
       key: 'k',
       ctrl: true,
       description: 'Insert Link',
+      descriptionKey: 'shortcuts.insertLink',
       handler: () => {
         const linkPlugin = this.editor.plugins.get('link');
         if (linkPlugin && typeof (linkPlugin as any).showLinkDialog === 'function') {
@@ -187,6 +199,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Align Left',
+      descriptionKey: 'shortcuts.alignLeft',
       handler: () => this.editor.execCommand('justifyLeft')
     });
 
@@ -195,6 +208,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Align Center',
+      descriptionKey: 'shortcuts.alignCenter',
       handler: () => this.editor.execCommand('justifyCenter')
     });
 
@@ -203,6 +217,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Align Right',
+      descriptionKey: 'shortcuts.alignRight',
       handler: () => this.editor.execCommand('justifyRight')
     });
 
@@ -211,6 +226,7 @@ export class KeyboardManager {
       ctrl: true,
       alt: true,
       description: 'Justify',
+      descriptionKey: 'shortcuts.justify',
       handler: () => this.editor.execCommand('justifyFull')
     });
 
@@ -219,6 +235,7 @@ export class KeyboardManager {
       key: ']',
       ctrl: true,
       description: 'Indent',
+      descriptionKey: 'shortcuts.indent',
       handler: () => this.editor.execCommand('indent')
     });
 
@@ -226,6 +243,7 @@ export class KeyboardManager {
       key: '[',
       ctrl: true,
       description: 'Outdent',
+      descriptionKey: 'shortcuts.outdent',
       handler: () => this.editor.execCommand('outdent')
     });
 
@@ -235,6 +253,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Quote',
+      descriptionKey: 'shortcuts.quote',
       handler: () => this.editor.execCommand('formatBlock', 'blockquote')
     });
 
@@ -243,6 +262,7 @@ export class KeyboardManager {
       key: '\\',
       ctrl: true,
       description: 'Clear Formatting',
+      descriptionKey: 'shortcuts.clearFormatting',
       handler: () => this.editor.execCommand('removeFormat')
     });
 
@@ -251,6 +271,7 @@ export class KeyboardManager {
       key: 's',
       ctrl: true,
       description: 'Save',
+      descriptionKey: 'shortcuts.save',
       handler: () => {
         this.editor.emit('save', this.editor.getContent());
       }
@@ -261,6 +282,7 @@ export class KeyboardManager {
       key: 'a',
       ctrl: true,
       description: 'Select All',
+      descriptionKey: 'shortcuts.selectAll',
       handler: () => this.editor.execCommand('selectAll')
     });
 
@@ -270,6 +292,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Toggle Fullscreen',
+      descriptionKey: 'shortcuts.toggleFullscreen',
       handler: () => {
         const fullscreenPlugin = this.editor.plugins.get('fullscreen');
         if (fullscreenPlugin && typeof (fullscreenPlugin as any).toggleFullscreen === 'function') {
@@ -284,6 +307,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Toggle HTML Source',
+      descriptionKey: 'shortcuts.toggleSource',
       handler: () => {
         const sourcePlugin = this.editor.plugins.get('source');
         if (sourcePlugin && typeof (sourcePlugin as any).toggleSource === 'function') {
@@ -298,6 +322,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Print',
+      descriptionKey: 'shortcuts.print',
       handler: () => this.editor.execCommand('print')
     });
 
@@ -307,6 +332,7 @@ export class KeyboardManager {
       ctrl: true,
       shift: true,
       description: 'Insert Table',
+      descriptionKey: 'shortcuts.insertTable',
       handler: () => {
         const tablePlugin = this.editor.plugins.get('table');
         if (tablePlugin && typeof (tablePlugin as any).showTableDialog === 'function') {
@@ -335,8 +361,12 @@ export class KeyboardManager {
     const shortcuts = this.getShortcuts();
     const isMac = navigator.platform.indexOf('Mac') > -1;
     
+    const locale = this.editor.i18n.getLocale();
+    const describe = (shortcut: ShortcutHandler) =>
+      shortcut.descriptionKey ? this.editor.t(shortcut.descriptionKey) : shortcut.description;
+    
     const helpContent = shortcuts
-      .sort((a, b) => a.description.localeCompare(b.description))
+      .sort((a, b) => describe(a).localeCompare(describe(b), locale))
       .map(s => {
         const keys: string[] = [];
         if (s.ctrl) keys.push(isMac ? 'Cmd' : 'Ctrl');
@@ -345,10 +375,10 @@ export class KeyboardManager {
         if (s.shift) keys.push('Shift');
         keys.push(s.key.toUpperCase());
         
-        return `${s.description}: ${keys.join('+')}`;
+        return `${describe(s)}: ${keys.join('+')}`;
       })
       .join('\n');
     
-    alert('Keyboard Shortcuts:\n\n' + helpContent);
+    alert(`${this.editor.t('shortcuts.title')}:\n\n${helpContent}`);
   }
 }
\ No newline at end of file
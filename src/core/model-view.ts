@@ -0,0 +1,343 @@
+import { DocumentJSON, DocNode } from '../types';
+import { nodeSpecs, normalizeContent, parseDOM, renderNodes } from './model';
+import { ModelPosition, ModelRange, cloneDocument, insertText, isCollapsed, textBlocks } from './transforms';
+
+// Private-use characters that stand in for the ends of the selection while
+// it is carried between the DOM and the model
+const FROM_MARKER = '\uE000';
+const TO_MARKER = '\uE001';
+const MARKERS = new RegExp(`[${FROM_MARKER}${TO_MARKER}]`, 'g');
+
+// Elements the caret cannot be inside of
+const ATOMIC_TAGS = ['IMG', 'BR', 'HR', 'INPUT'];
+
+interface DOMPoint {
+  node: Node;
+  offset: number;
+}
+
+interface DOMRangePoints {
+  startContainer: Node;
+  startOffset: number;
+  endContainer: Node;
+  endOffset: number;
+}
+
+/**
+ * Keeps the content element and the document model in step. The model is
+ * re-parsed after the DOM changes, and rendering a new model only replaces
+ * the top-level blocks that differ from the current one, so the rest of the
+ * DOM, and whatever plugins attached to it, stays in place.
+ */
+export class ModelView {
+  private root: HTMLElement;
+  private observer: MutationObserver;
+  private doc: DocumentJSON;
+  private stale: boolean = true;
+  // The DOM selection getSelection() last resolved, and where it is in the
+  // model, reused until the content or the selection changes
+  private selected: { points: DOMRangePoints; range: ModelRange | null } | null = null;
+
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.doc = parseDOM(root);
+    this.observer = new MutationObserver(() => {
+      this.invalidate();
+    });
+    this.observer.observe(root, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true
+    });
+    this.stale = false;
+  }
+
+  // The model of the content, re-parsed if the DOM changed since it was built
+  getDocument(): DocumentJSON {
+    if (this.observer.takeRecords().length > 0) {
+      this.invalidate();
+    }
+    if (this.stale) {
+      this.doc = parseDOM(this.root);
+      this.stale = false;
+    }
+    return this.doc;
+  }
+
+  /**
+   * Where the DOM selection is in the model, or null when it is not in the
+   * content. The content is parsed with markers at the selection, so the
+   * positions always match the model getDocument() returns afterwards.
+   * The content is only parsed again once it or the selection changed.
+   */
+  getSelection(): ModelRange | null {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+
+    const range = selection.getRangeAt(0);
+    if (!this.root.contains(range.startContainer) || !this.root.contains(range.endContainer)) {
+      return null;
+    }
+
+    if (this.observer.takeRecords().length > 0) {
+      this.invalidate();
+    }
+    if (!this.stale && this.selected && samePoints(this.selected.points, range)) {
+      return this.selected.range;
+    }
+
+    const clone = this.root.cloneNode(true) as HTMLElement;
+    // The end goes in first so it cannot shift the start
+    if (!range.collapsed) {
+      this.placeMarker(clone, range.endContainer, range.endOffset, TO_MARKER);
+    }
+    this.placeMarker(clone, range.startContainer, range.startOffset, FROM_MARKER);
+
+    const marked = parseDOM(clone);
+    const positions = findMarkers(marked);
+    this.doc = { ...marked, content: normalizeContent(stripMarkers(marked.content)) };
+    this.stale = false;
+
+    const from = positions.get(FROM_MARKER) || positions.get(TO_MARKER);
+    const result = from ? { from, to: range.collapsed ? from : positions.get(TO_MARKER) || from } : null;
+    const { startContainer, startOffset, endContainer, endOffset } = range;
+    this.selected = { points: { startContainer, startOffset, endContainer, endOffset }, range: result };
+    return result;
+  }
+
+  /**
+   * Renders `doc` in place of the current content and selects `selection`
+   * in it.
+   */
+  render(doc: DocumentJSON, selection: ModelRange | null = null): void {
+    const current = this.getDocument();
+    const marked = cloneDocument(doc);
+    if (selection) {
+      const blocks = textBlocks(marked).length;
+      const clamp = (position: ModelPosition): ModelPosition => position.block < blocks
+        ? position
+        : { block: blocks - 1, offset: Number.MAX_SAFE_INTEGER };
+      if (!isCollapsed(selection)) {
+        insertText(marked, clamp(selection.to), TO_MARKER);
+      }
+      insertText(marked, clamp(selection.from), FROM_MARKER);
+    }
+
+    this.replaceChanged(current.content, marked.content);
+
+    if (selection) {
+      const from = this.takeMarker(FROM_MARKER);
+      const to = isCollapsed(selection) ? from : this.takeMarker(TO_MARKER);
+      if (from && to) {
+        const range = document.createRange();
+        range.setStart(from.node, from.offset);
+        range.setEnd(to.node, to.offset);
+        const domSelection = window.getSelection();
+        domSelection?.removeAllRanges();
+        domSelection?.addRange(range);
+      }
+    }
+
+    this.observer.takeRecords();
+    this.doc = doc;
+    this.stale = false;
+    this.selected = null;
+  }
+
+  destroy(): void {
+    this.observer.disconnect();
+  }
+
+  // The content changed, so neither the model nor the selection in it hold
+  private invalidate(): void {
+    this.stale = true;
+    this.selected = null;
+  }
+
+  private placeMarker(clone: HTMLElement, container: Node, offset: number, marker: string): void {
+    const point = this.normalizePoint({ node: container, offset });
+    const target = resolvePath(clone, pathOf(this.root, point.node));
+    if (!target) return;
+
+    if (target.nodeType === Node.TEXT_NODE) {
+      (target as Text).insertData(point.offset, marker);
+    } else {
+      target.insertBefore(document.createTextNode(marker), target.childNodes[point.offset] || null);
+    }
+  }
+
+  // Moves a point between elements into the nearest one it can be inside of
+  private normalizePoint(point: DOMPoint): DOMPoint {
+    let { node, offset } = point;
+    while (node.nodeType === Node.ELEMENT_NODE) {
+      const after = node.childNodes[offset];
+      const before = node.childNodes[offset - 1];
+      if (after && (after as Element).tagName === 'INPUT') {
+        offset++;
+      } else if (after && canContainCaret(after)) {
+        node = after;
+        offset = 0;
+      } else if (before && canContainCaret(before)) {
+        node = before;
+        offset = before.childNodes.length;
+      } else {
+        break;
+      }
+    }
+    return { node, offset };
+  }
+
+  // Replaces the top-level DOM nodes of blocks that changed
+  private replaceChanged(current: DocNode[], next: DocNode[]): void {
+    const children = Array.from(this.root.childNodes).filter(child =>
+      child.nodeType === Node.ELEMENT_NODE ||
+      (child.nodeType === Node.TEXT_NODE && (child.textContent || '').trim() !== '')
+    );
+    // Each top-level block renders as exactly one element; inline content does not
+    const mapped = children.length === current.length &&
+      children.every(child => child.nodeType === Node.ELEMENT_NODE) &&
+      current.every(node => nodeSpecs[node.type]?.group !== 'inline' || node.type === 'html');
+
+    if (!mapped) {
+      this.root.innerHTML = '';
+      this.root.appendChild(renderNodes(next));
+      return;
+    }
+
+    let prefix = 0;
+    while (prefix < current.length && prefix < next.length && sameNode(current[prefix], next[prefix])) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < current.length - prefix && suffix < next.length - prefix &&
+      sameNode(current[current.length - 1 - suffix], next[next.length - 1 - suffix])
+    ) {
+      suffix++;
+    }
+
+    const end = children[current.length - suffix] || null;
+    const start = children[prefix] || end;
+    let node: Node | null = start;
+    while (node && node !== end) {
+      const following: Node | null = node.nextSibling;
+      this.root.removeChild(node);
+      node = following;
+    }
+    this.root.insertBefore(renderNodes(next.slice(prefix, next.length - suffix)), end);
+  }
+
+  // Removes a marker from the rendered content and returns where it was
+  private takeMarker(marker: string): DOMPoint | null {
+    const walker = document.createTreeWalker(this.root, NodeFilter.SHOW_TEXT);
+    let text: Text | null;
+    while ((text = walker.nextNode() as Text | null)) {
+      const index = text.data.indexOf(marker);
+      if (index === -1) continue;
+
+      text.deleteData(index, 1);
+      if (text.data) {
+        return { node: text, offset: index };
+      }
+      const parent = text.parentNode!;
+      const offset = Array.prototype.indexOf.call(parent.childNodes, text);
+      parent.removeChild(text);
+      return { node: parent, offset };
+    }
+    return null;
+  }
+}
+
+function canContainCaret(node: Node): boolean {
+  if (node.nodeType !== Node.ELEMENT_NODE) return false;
+  const element = node as Element;
+  return !ATOMIC_TAGS.includes(element.tagName) && element.getAttribute('contenteditable') !== 'false';
+}
+
+function samePoints(a: DOMRangePoints, b: DOMRangePoints): boolean {
+  return a.startContainer === b.startContainer && a.startOffset === b.startOffset &&
+    a.endContainer === b.endContainer && a.endOffset === b.endOffset;
+}
+
+function sameNode(a: DocNode, b: DocNode): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function pathOf(root: Node, node: Node): number[] {
+  const path: number[] = [];
+  let current: Node = node;
+  while (current !== root && current.parentNode) {
+    path.unshift(Array.prototype.indexOf.call(current.parentNode.childNodes, current));
+    current = current.parentNode;
+  }
+  return path;
+}
+
+function resolvePath(root: Node, path: number[]): Node | null {
+  let node: Node | null = root;
+  for (const index of path) {
+    node = node?.childNodes[index] || null;
+  }
+  return node;
+}
+
+/**
+ * Positions of the markers in a document parsed with them. Runs of inline
+ * content made up of nothing but a marker disappear once it is removed, so
+ * positions after them move up a block.
+ */
+function findMarkers(doc: DocumentJSON): Map<string, ModelPosition> {
+  const positions = new Map<string, ModelPosition>();
+  let removedBlocks = 0;
+
+  textBlocks(doc).forEach((block, index) => {
+    const content = block.parent.content || [];
+    const run = content.slice(block.start, block.end);
+    const blockIndex = index - removedBlocks;
+    let offset = 0;
+
+    run.forEach(node => {
+      if (node.type !== 'text') {
+        offset++;
+        return;
+      }
+      for (const char of node.text || '') {
+        if (char === FROM_MARKER || char === TO_MARKER) {
+          positions.set(char, { block: blockIndex, offset });
+        } else {
+          offset++;
+        }
+      }
+    });
+
+    const onlyMarkers = run.length > 0 && run.every(node =>
+      node.type === 'text' && (node.text || '').replace(MARKERS, '') === ''
+    );
+    if (onlyMarkers && run.length < content.length) {
+      removedBlocks++;
+    }
+  });
+
+  // A marker in a removed last block ends up past the end of the document
+  const count = textBlocks(doc).length - removedBlocks;
+  positions.forEach((position, marker) => {
+    if (position.block >= count) {
+      positions.set(marker, { block: Math.max(0, count - 1), offset: 0 });
+    }
+  });
+  return positions;
+}
+
+function stripMarkers(nodes: DocNode[]): DocNode[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'text') {
+      const text = (node.text || '').replace(MARKERS, '');
+      return text ? [{ ...node, text }] : [];
+    }
+    if (node.type === 'html' && typeof node.attrs?.html === 'string') {
+      return [{ ...node, attrs: { ...node.attrs, html: node.attrs.html.replace(MARKERS, '') } }];
+    }
+    return [node.content ? { ...node, content: stripMarkers(node.content) } : node];
+  });
+}
@@ -0,0 +1,1138 @@
+import {
+  DocumentJSON,
+  DocNode,
+  DocMark,
+  DocAttrs,
+  DocAttrValue,
+  DocValidationError
+} from '../types';
+
+export const MODEL_VERSION = 1;
+
+type ContentRule = 'block' | 'inline' | 'flow' | 'text' | string[];
+
+interface NodeSpec {
+  group: 'block' | 'inline' | 'structure';
+  content?: ContentRule;
+  attrs: string[];
+  toDOM(node: DocNode): { dom: HTMLElement; contentDOM?: HTMLElement };
+  renderContent?(content: DocNode[], dom: HTMLElement): void;
+}
+
+interface MarkSpec {
+  attrs: string[];
+  toDOM(mark: DocMark): HTMLElement;
+}
+
+// `attributes` holds any other HTML attribute, verbatim, so markup the schema
+// does not interpret still round-trips
+const BLOCK_ATTRS = ['align', 'indent', 'dir', 'className', 'id', 'style', 'data', 'attributes'];
+
+// Attributes every mark can carry besides its own
+const MARK_ATTRS = ['className', 'id', 'style', 'data', 'attributes'];
+
+// HTML attributes stored in dedicated node attrs rather than in `attributes`
+const BLOCK_HTML_ATTRS = ['class', 'id', 'style', 'dir', 'align'];
+const MARK_HTML_ATTRS = ['class', 'id', 'style'];
+
+// Attributes particular elements render from their node or mark attrs
+const ELEMENT_HTML_ATTRS: Record<string, string[]> = {
+  OL: ['start'],
+  TD: ['colspan', 'rowspan'],
+  TH: ['colspan', 'rowspan', 'scope'],
+  IMG: ['src', 'alt', 'title', 'width', 'height'],
+  FIGURE: ['contenteditable'],
+  FIGCAPTION: ['contenteditable'],
+  A: ['href', 'target', 'title'],
+  FONT: ['face', 'color']
+};
+
+// data-* attributes a node spec renders from its own attrs
+const RESERVED_DATA = ['language'];
+
+// Attributes of the <ins>/<del> elements that carry tracked changes
+const CHANGE_ATTRS: Record<string, string> = {
+  id: 'data-change-id',
+  author: 'data-author',
+  timestamp: 'data-timestamp'
+};
+
+const CHANGE_DATA = Object.values(CHANGE_ATTRS).map(name => name.slice(5));
+
+// Links that open in a new tab never hand the new page a reference back
+const LINK_REL = 'noopener noreferrer';
+
+const CHECKLIST_CLASS = 'xeditor-checklist';
+const CHECKLIST_ITEM_CLASS = 'xeditor-checklist-item';
+const CHECKLIST_TEXT_CLASS = 'xeditor-checklist-text';
+
+// Elements with this class are UI shown inside the content, such as upload
+// placeholders. They are left out of the model and so out of the output.
+export const TRANSIENT_CLASS = 'xeditor-transient';
+
+/**
+ * Node types of the document schema. Every node the editor can hold maps to
+ * exactly one of these; markup the schema does not know about is kept as an
+ * opaque `html` node so it survives a round trip without being interpreted.
+ */
+export const nodeSpecs: Record<string, NodeSpec> = {
+  paragraph: {
+    group: 'block',
+    content: 'inline',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('p', node)
+  },
+  heading: {
+    group: 'block',
+    content: 'inline',
+    attrs: ['level', ...BLOCK_ATTRS],
+    toDOM: node => blockElement(`h${clampLevel(node.attrs?.level)}`, node)
+  },
+  blockquote: {
+    group: 'block',
+    content: 'flow',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('blockquote', node)
+  },
+  division: {
+    group: 'block',
+    content: 'flow',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('div', node)
+  },
+  code_block: {
+    group: 'block',
+    content: 'text',
+    attrs: ['language', ...BLOCK_ATTRS],
+    toDOM: node => {
+      const language = stringAttr(node, 'language');
+      const { dom } = blockElement('pre', node);
+      if (language) {
+        dom.setAttribute('data-language', language);
+      }
+      const code = document.createElement('code');
+      if (language) {
+        code.className = `language-${language}`;
+      }
+      code.setAttribute('spellcheck', 'false');
+      dom.appendChild(code);
+      return { dom, contentDOM: code };
+    }
+  },
+  bullet_list: {
+    group: 'block',
+    content: ['list_item'],
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('ul', node)
+  },
+  ordered_list: {
+    group: 'block',
+    content: ['list_item'],
+    attrs: ['start', ...BLOCK_ATTRS],
+    toDOM: node => {
+      const result = blockElement('ol', node);
+      const start = node.attrs?.start;
+      if (typeof start === 'number' && start !== 1) {
+        result.dom.setAttribute('start', String(start));
+      }
+      return result;
+    }
+  },
+  list_item: {
+    group: 'structure',
+    content: 'flow',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('li', node)
+  },
+  task_list: {
+    group: 'block',
+    content: ['task_item'],
+    attrs: BLOCK_ATTRS,
+    toDOM: node => {
+      const result = blockElement('ul', node);
+      result.dom.classList.add(CHECKLIST_CLASS);
+      return result;
+    }
+  },
+  task_item: {
+    group: 'structure',
+    content: 'inline',
+    attrs: ['checked', ...BLOCK_ATTRS],
+    toDOM: node => {
+      const { dom } = blockElement('li', node);
+      dom.classList.add(CHECKLIST_ITEM_CLASS);
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.className = 'xeditor-checklist-checkbox';
+      checkbox.setAttribute('contenteditable', 'false');
+      if (node.attrs?.checked === true) {
+        checkbox.setAttribute('checked', '');
+        checkbox.checked = true;
+      }
+      const text = document.createElement('span');
+      text.className = CHECKLIST_TEXT_CLASS;
+      text.setAttribute('contenteditable', 'true');
+      dom.appendChild(checkbox);
+      dom.appendChild(text);
+      return { dom, contentDOM: text };
+    }
+  },
+  table: {
+    group: 'block',
+    content: ['table_caption', 'table_row'],
+    // `widths` lists column widths in pixels, comma separated; empty entries are automatic
+    attrs: ['widths', ...BLOCK_ATTRS],
+    toDOM: node => {
+      const result = blockElement('table', node);
+      const widths = parseWidths(node.attrs?.widths);
+      if (widths.length > 0) {
+        const colgroup = document.createElement('colgroup');
+        widths.forEach(width => {
+          const col = document.createElement('col');
+          if (width) {
+            col.style.width = `${width}px`;
+          }
+          colgroup.appendChild(col);
+        });
+        result.dom.appendChild(colgroup);
+        // Resized tables are as wide as their columns
+        if (widths.every(width => width > 0)) {
+          result.dom.style.width = `${widths.reduce((sum, width) => sum + width, 0)}px`;
+        }
+      }
+      return result;
+    },
+    renderContent: (content, table) => {
+      // The caption has to come before the column group
+      const caption = content.find(child => child.type === 'table_caption');
+      if (caption) {
+        table.insertBefore(renderNode(caption), table.firstChild);
+      }
+      const rows = content.filter(child => child.type === 'table_row');
+      ['head', 'body', 'foot'].forEach(section => {
+        const sectionRows = rows.filter(row => (row.attrs?.section || 'body') === section);
+        if (sectionRows.length === 0) return;
+        const sectionElement = document.createElement(`t${section}`);
+        renderChildren(sectionRows, sectionElement);
+        table.appendChild(sectionElement);
+      });
+    }
+  },
+  table_caption: {
+    group: 'structure',
+    content: 'inline',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('caption', node)
+  },
+  table_row: {
+    group: 'structure',
+    content: ['table_cell'],
+    attrs: ['section', ...BLOCK_ATTRS],
+    toDOM: node => blockElement('tr', node)
+  },
+  table_cell: {
+    group: 'structure',
+    content: 'flow',
+    attrs: ['header', 'scope', 'colspan', 'rowspan', 'background', ...BLOCK_ATTRS],
+    toDOM: node => {
+      const result = blockElement(node.attrs?.header ? 'th' : 'td', node);
+      const { scope, colspan, rowspan, background } = node.attrs || {};
+      if (node.attrs?.header && (scope === 'col' || scope === 'row')) {
+        result.dom.setAttribute('scope', scope);
+      }
+      if (typeof colspan === 'number' && colspan > 1) {
+        result.dom.setAttribute('colspan', String(colspan));
+      }
+      if (typeof rowspan === 'number' && rowspan > 1) {
+        result.dom.setAttribute('rowspan', String(rowspan));
+      }
+      if (typeof background === 'string' && background) {
+        result.dom.style.backgroundColor = background;
+      }
+      return result;
+    }
+  },
+  figure: {
+    group: 'block',
+    content: ['image', 'figcaption', 'html'],
+    attrs: BLOCK_ATTRS,
+    toDOM: node => {
+      const result = blockElement('figure', node);
+      result.dom.setAttribute('contenteditable', 'false');
+      return result;
+    }
+  },
+  figcaption: {
+    group: 'structure',
+    content: 'inline',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => {
+      const result = blockElement('figcaption', node);
+      result.dom.setAttribute('contenteditable', 'true');
+      return result;
+    }
+  },
+  horizontal_rule: {
+    group: 'block',
+    attrs: BLOCK_ATTRS,
+    toDOM: node => blockElement('hr', node)
+  },
+  image: {
+    group: 'inline',
+    attrs: ['src', 'alt', 'title', 'width', 'height', ...BLOCK_ATTRS],
+    toDOM: node => {
+      const img = document.createElement('img');
+      ['src', 'alt', 'title', 'width', 'height'].forEach(name => {
+        const value = node.attrs?.[name];
+        if (value !== undefined && value !== null && value !== '') {
+          img.setAttribute(name, String(value));
+        }
+      });
+      applyCommonAttrs(img, node.attrs);
+      return { dom: img };
+    }
+  },
+  hard_break: {
+    group: 'inline',
+    attrs: [],
+    toDOM: () => ({ dom: document.createElement('br') })
+  },
+  text: {
+    group: 'inline',
+    attrs: [],
+    toDOM: () => {
+      throw new Error('Text nodes are rendered directly');
+    }
+  },
+  html: {
+    group: 'inline',
+    attrs: ['html'],
+    toDOM: () => {
+      throw new Error('HTML nodes are rendered directly');
+    }
+  }
+};
+
+/**
+ * Inline marks, listed in the order they nest when rendered. A text node's
+ * marks are always kept sorted in this order so equal formatting compares
+ * equal.
+ */
+export const markSpecs: Record<string, MarkSpec> = {
+  insertion: {
+    attrs: ['id', 'author', 'timestamp', ...MARK_ATTRS],
+    toDOM: mark => changeElement('ins', mark)
+  },
+  deletion: {
+    attrs: ['id', 'author', 'timestamp', ...MARK_ATTRS],
+    toDOM: mark => changeElement('del', mark)
+  },
+  link: {
+    attrs: ['href', 'target', 'title', ...MARK_ATTRS],
+    toDOM: mark => {
+      const a = document.createElement('a');
+      ['href', 'target', 'title'].forEach(name => {
+        const value = mark.attrs?.[name];
+        if (typeof value === 'string' && value) {
+          a.setAttribute(name, value);
+        }
+      });
+      if (mark.attrs?.target === '_blank') {
+        a.setAttribute('rel', LINK_REL);
+      }
+      return a;
+    }
+  },
+  bold: { attrs: MARK_ATTRS, toDOM: () => document.createElement('strong') },
+  italic: { attrs: MARK_ATTRS, toDOM: () => document.createElement('em') },
+  underline: { attrs: MARK_ATTRS, toDOM: () => document.createElement('u') },
+  strike: { attrs: MARK_ATTRS, toDOM: () => document.createElement('s') },
+  code: { attrs: MARK_ATTRS, toDOM: () => document.createElement('code') },
+  subscript: { attrs: MARK_ATTRS, toDOM: () => document.createElement('sub') },
+  superscript: { attrs: MARK_ATTRS, toDOM: () => document.createElement('sup') },
+  color: {
+    attrs: ['color', ...MARK_ATTRS],
+    toDOM: mark => styledSpan('color', mark.attrs?.color)
+  },
+  highlight: {
+    attrs: ['color', ...MARK_ATTRS],
+    toDOM: mark => styledSpan('background-color', mark.attrs?.color)
+  },
+  font: {
+    attrs: ['family', ...MARK_ATTRS],
+    toDOM: mark => styledSpan('font-family', mark.attrs?.family)
+  },
+  fontSize: {
+    attrs: ['size', ...MARK_ATTRS],
+    toDOM: mark => styledSpan('font-size', mark.attrs?.size)
+  },
+  annotation: {
+    attrs: MARK_ATTRS,
+    toDOM: () => document.createElement('span')
+  }
+};
+
+const MARK_ORDER = Object.keys(markSpecs);
+
+// ---------------------------------------------------------------------------
+// DOM -> model
+
+export function parseDOM(root: Node): DocumentJSON {
+  return {
+    type: 'doc',
+    version: MODEL_VERSION,
+    content: normalizeContent(parseChildren(root, []))
+  };
+}
+
+export function parseHTML(html: string): DocumentJSON {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return parseDOM(template.content);
+}
+
+function parseChildren(parent: Node, marks: DocMark[]): DocNode[] {
+  return dropLayoutWhitespace(collectChildren(parent, marks));
+}
+
+function collectChildren(parent: Node, marks: DocMark[]): DocNode[] {
+  const nodes: DocNode[] = [];
+  parent.childNodes.forEach(child => {
+    nodes.push(...parseNode(child, marks));
+  });
+  return nodes;
+}
+
+/**
+ * Whitespace that only lays out the source, with a line break in it, is not
+ * content when it sits next to a block or at the edge of its container.
+ * Between two inline nodes it separates words and is kept.
+ */
+function dropLayoutWhitespace(nodes: DocNode[]): DocNode[] {
+  const isLayout = (node: DocNode) =>
+    node.type === 'text' && /^\s*$/.test(node.text || '') && (node.text || '').includes('\n');
+  const isInline = (node: DocNode | undefined) =>
+    !!node && (nodeSpecs[node.type]?.group === 'inline') && !isLayout(node);
+
+  return nodes.filter((node, index) =>
+    !isLayout(node) || (isInline(nodes[index - 1]) && isInline(nodes[index + 1]))
+  );
+}
+
+function parseNode(node: Node, marks: DocMark[]): DocNode[] {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = node.textContent || '';
+    return text ? [textNode(text, marks)] : [];
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return [];
+  }
+
+  const element = node as HTMLElement;
+  const tag = element.tagName;
+  if (element.classList.contains(TRANSIENT_CLASS)) {
+    return [];
+  }
+
+  switch (tag) {
+    case 'BR':
+      return [{ type: 'hard_break' }];
+    case 'IMG':
+      return [parseImage(element, marks)];
+    case 'P':
+      return [block('paragraph', element, {}, parseChildren(element, []))];
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+      return [block('heading', element, { level: Number(tag[1]) }, parseChildren(element, []))];
+    case 'BLOCKQUOTE':
+      return [block('blockquote', element, {}, parseChildren(element, []))];
+    case 'DIV':
+      return [block('division', element, {}, parseChildren(element, []))];
+    case 'PRE':
+      return [parseCodeBlock(element)];
+    case 'UL':
+      if (element.classList.contains(CHECKLIST_CLASS)) {
+        return [block('task_list', element, {}, parseListItems(element, true), [CHECKLIST_CLASS])];
+      }
+      return [block('bullet_list', element, {}, parseListItems(element, false))];
+    case 'OL': {
+      const start = parseInt(element.getAttribute('start') || '1', 10);
+      return [block('ordered_list', element, { start: isNaN(start) ? 1 : start }, parseListItems(element, false))];
+    }
+    case 'LI':
+      return [parseListItem(element, element.classList.contains(CHECKLIST_ITEM_CLASS))];
+    case 'TABLE':
+      return [parseTable(element)];
+    case 'FIGURE':
+      return [block('figure', element, {}, parseChildren(element, []))];
+    case 'FIGCAPTION':
+      return [block('figcaption', element, {}, parseChildren(element, []))];
+    case 'HR':
+      return [block('horizontal_rule', element, {}, undefined)];
+  }
+
+  const elementMarks = parseMarks(element);
+  if (elementMarks) {
+    // Mark content is inline; its whitespace is judged with its siblings'
+    return collectChildren(element, addMarks(marks, elementMarks));
+  }
+
+  return [{ type: 'html', attrs: { html: element.outerHTML } }];
+}
+
+function parseImage(element: HTMLElement, marks: DocMark[]): DocNode {
+  const attrs: DocAttrs = {};
+  ['src', 'alt', 'title', 'width', 'height'].forEach(name => {
+    const value = element.getAttribute(name);
+    if (value !== null) {
+      attrs[name] = value;
+    }
+  });
+  Object.assign(attrs, commonAttrs(element, []));
+  const node: DocNode = { type: 'image', attrs };
+  if (marks.length > 0) {
+    node.marks = sortMarks(marks);
+  }
+  return node;
+}
+
+function parseCodeBlock(element: HTMLElement): DocNode {
+  const code = element.querySelector('code');
+  let language = element.getAttribute('data-language') || '';
+  if (!language && code) {
+    const match = code.className.match(/language-([\w-]+)/);
+    language = match ? match[1] : '';
+  }
+  const text = element.textContent || '';
+  return block(
+    'code_block',
+    element,
+    { language: language || null },
+    text ? [{ type: 'text', text }] : []
+  );
+}
+
+function parseListItems(list: HTMLElement, checklist: boolean): DocNode[] {
+  const items: DocNode[] = [];
+  list.childNodes.forEach(child => {
+    if (child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === 'LI') {
+      items.push(parseListItem(child as HTMLElement, checklist));
+    } else if (child.nodeType === Node.ELEMENT_NODE && ['UL', 'OL'].includes((child as Element).tagName)) {
+      // Nested lists placed directly in a list belong to the previous item
+      const nested = parseNode(child, []);
+      if (items.length > 0) {
+        items[items.length - 1].content = [...(items[items.length - 1].content || []), ...nested];
+      } else {
+        items.push({ type: checklist ? 'task_item' : 'list_item', content: nested });
+      }
+    }
+  });
+  return items;
+}
+
+function parseListItem(element: HTMLElement, checklist: boolean): DocNode {
+  if (!checklist) {
+    return block('list_item', element, {}, parseChildren(element, []));
+  }
+
+  const checkbox = element.querySelector('input[type="checkbox"]') as HTMLInputElement | null;
+  const textElement = element.querySelector(`.${CHECKLIST_TEXT_CLASS}`);
+  const content: DocNode[] = [];
+  if (textElement) {
+    content.push(...parseChildren(textElement, []));
+  } else {
+    element.childNodes.forEach(child => {
+      if (child !== checkbox) {
+        content.push(...parseNode(child, []));
+      }
+    });
+    content.splice(0, content.length, ...dropLayoutWhitespace(content));
+  }
+
+  return block(
+    'task_item',
+    element,
+    { checked: !!checkbox && (checkbox.checked || checkbox.hasAttribute('checked')) },
+    content,
+    [CHECKLIST_ITEM_CLASS]
+  );
+}
+
+function parseTable(element: HTMLElement): DocNode {
+  const content: DocNode[] = [];
+  const caption = Array.from(element.children).find(child => child.tagName === 'CAPTION');
+  if (caption) {
+    content.push(block('table_caption', caption as HTMLElement, {}, parseChildren(caption, [])));
+  }
+  content.push(...parseTableRows(element));
+
+  const widths = Array.from(element.querySelectorAll(':scope > colgroup > col')).map(col => {
+    const width = (col as HTMLElement).style.width || col.getAttribute('width') || '';
+    return /^\d+(\.\d+)?(px)?$/.test(width) ? String(Math.round(parseFloat(width))) : '';
+  });
+  // The table width follows from its columns once they all have one
+  const sized = widths.length > 0 && widths.every(width => width);
+  return block(
+    'table',
+    element,
+    { widths: widths.some(width => width) ? widths.join(',') : null },
+    content,
+    [],
+    sized ? ['width'] : []
+  );
+}
+
+// The table plugin highlights selected cells with it; it is not content
+const SELECTED_CELL_CLASS = 'xeditor-table-cell-selected';
+
+function parseTableRows(table: HTMLElement): DocNode[] {
+  const rows: DocNode[] = [];
+  Array.from(table.querySelectorAll('tr')).forEach(row => {
+    if (row.closest('table') !== table) return;
+    const parentTag = row.parentElement?.tagName;
+    const section = parentTag === 'THEAD' ? 'head' : parentTag === 'TFOOT' ? 'foot' : null;
+    const cells: DocNode[] = [];
+    Array.from(row.children).forEach(cell => {
+      if (cell.tagName !== 'TD' && cell.tagName !== 'TH') return;
+      const cellElement = cell as HTMLTableCellElement;
+      const background = cellElement.style.backgroundColor;
+      const scope = cell.tagName === 'TH' ? cell.getAttribute('scope') : null;
+      cells.push(block('table_cell', cellElement, {
+        header: cell.tagName === 'TH' || null,
+        scope: scope === 'col' || scope === 'row' ? scope : null,
+        colspan: cellElement.colSpan > 1 ? cellElement.colSpan : null,
+        rowspan: cellElement.rowSpan > 1 ? cellElement.rowSpan : null,
+        background: background || null
+      }, parseChildren(cellElement, []), [SELECTED_CELL_CLASS], ['background-color']));
+    });
+    rows.push(block('table_row', row, { section }, cells));
+  });
+  return rows;
+}
+
+/**
+ * Marks an inline element applies to its content, or null when the element
+ * is not an inline mark. Attributes the marks do not interpret stay on the
+ * element's own mark so the element renders back the same.
+ */
+export function parseMarks(element: HTMLElement): DocMark[] | null {
+  switch (element.tagName) {
+    case 'INS':
+      return elementMarks({ type: 'insertion', attrs: changeAttrs(element) }, element);
+    case 'DEL':
+      return elementMarks({ type: 'deletion', attrs: changeAttrs(element) }, element);
+    case 'STRONG':
+    case 'B':
+      return elementMarks({ type: 'bold' }, element);
+    case 'EM':
+    case 'I':
+      return elementMarks({ type: 'italic' }, element);
+    case 'U':
+      return elementMarks({ type: 'underline' }, element);
+    case 'S':
+    case 'STRIKE':
+      return elementMarks({ type: 'strike' }, element);
+    case 'CODE':
+      return elementMarks({ type: 'code' }, element);
+    case 'SUB':
+      return elementMarks({ type: 'subscript' }, element);
+    case 'SUP':
+      return elementMarks({ type: 'superscript' }, element);
+    case 'MARK':
+      return elementMarks({ type: 'highlight', attrs: { color: element.style.backgroundColor || 'yellow' } }, element);
+    case 'A': {
+      const attrs: DocAttrs = { href: element.getAttribute('href') || '' };
+      const target = element.getAttribute('target');
+      const title = element.getAttribute('title');
+      if (target) attrs.target = target;
+      if (title) attrs.title = title;
+      // The rel links opening a new tab get anyway is not worth keeping
+      const rel = element.getAttribute('rel');
+      const implicit = target === '_blank' && rel === LINK_REL ? ['rel'] : [];
+      return elementMarks({ type: 'link', attrs }, element, implicit);
+    }
+    case 'FONT': {
+      const { marks, residual } = readStyleMarks(element);
+      const face = element.getAttribute('face');
+      const color = element.getAttribute('color');
+      if (face) marks.push({ type: 'font', attrs: { family: face } });
+      if (color) marks.push({ type: 'color', attrs: { color } });
+      return [...marks, ...annotation(element, residual)];
+    }
+    case 'SPAN': {
+      const { marks, residual } = readStyleMarks(element);
+      return [...marks, ...annotation(element, residual)];
+    }
+  }
+  return null;
+}
+
+function changeAttrs(element: HTMLElement): DocAttrs {
+  const attrs: DocAttrs = {};
+  Object.entries(CHANGE_ATTRS).forEach(([attr, name]) => {
+    const value = element.getAttribute(name);
+    if (value) attrs[attr] = value;
+  });
+  return attrs;
+}
+
+const STYLE_MARKS: Record<string, (value: string) => DocMark | null> = {
+  'color': value => ({ type: 'color', attrs: { color: value } }),
+  'background-color': value => ({ type: 'highlight', attrs: { color: value } }),
+  'font-family': value => ({ type: 'font', attrs: { family: value } }),
+  'font-size': value => ({ type: 'fontSize', attrs: { size: value } }),
+  'font-weight': value => (value === 'bold' || parseInt(value, 10) >= 600 ? { type: 'bold' } : null),
+  'font-style': value => (value === 'italic' ? { type: 'italic' } : null),
+  'text-decoration': value => {
+    if (value.includes('underline')) return { type: 'underline' };
+    if (value.includes('line-through')) return { type: 'strike' };
+    return null;
+  },
+  'vertical-align': value => {
+    if (value === 'sub') return { type: 'subscript' };
+    if (value === 'super') return { type: 'superscript' };
+    return null;
+  }
+};
+
+// Marks expressed by inline styles, and the declarations that are not marks
+function readStyleMarks(element: HTMLElement): { marks: DocMark[]; residual: string[] } {
+  const marks: DocMark[] = [];
+  const residual: string[] = [];
+
+  for (let i = 0; i < element.style.length; i++) {
+    const property = element.style[i];
+    const value = element.style.getPropertyValue(property);
+    const factory = STYLE_MARKS[property];
+    const mark = factory ? factory(value) : null;
+    if (mark) {
+      marks.push(mark);
+    } else {
+      residual.push(`${property}: ${value}`);
+    }
+  }
+
+  return { marks, residual };
+}
+
+// The element's own mark, carrying its leftover attributes, followed by its style marks
+function elementMarks(own: DocMark, element: HTMLElement, implicitAttrs: string[] = []): DocMark[] {
+  const { marks, residual } = readStyleMarks(element);
+  const attrs = compactAttrs({ ...own.attrs, ...markAttrs(element, residual, implicitAttrs) });
+  const mark: DocMark = { type: own.type };
+  if (attrs) mark.attrs = attrs;
+  return [mark, ...marks.filter(other => other.type !== own.type)];
+}
+
+// Spans and <font> keep what is not a mark on a generic annotation mark
+function annotation(element: HTMLElement, residual: string[]): DocMark[] {
+  const attrs = compactAttrs(markAttrs(element, residual));
+  return attrs ? [{ type: 'annotation', attrs }] : [];
+}
+
+function markAttrs(element: HTMLElement, residualStyle: string[], implicitAttrs: string[] = []): DocAttrs {
+  const change = ['INS', 'DEL'].includes(element.tagName);
+  const data = dataAttrs(element, change ? CHANGE_DATA : []);
+  // Change marks use `id` for the change, so an element id is kept verbatim
+  const handled = change ? MARK_HTML_ATTRS.filter(name => name !== 'id') : MARK_HTML_ATTRS;
+  const attributes = otherAttrs(element, [...handled, ...implicitAttrs]);
+  const attrs: DocAttrs = {};
+  if (element.className) attrs.className = element.className;
+  if (element.id && !change) attrs.id = element.id;
+  if (residualStyle.length > 0) attrs.style = residualStyle.join('; ');
+  if (Object.keys(data).length > 0) attrs.data = data;
+  if (Object.keys(attributes).length > 0) attrs.attributes = attributes;
+  return attrs;
+}
+
+// Attributes that are not data-* and not in `handled`, verbatim
+function otherAttrs(element: HTMLElement, handled: string[]): { [key: string]: string } {
+  const attributes: { [key: string]: string } = {};
+  const elementHandled = ELEMENT_HTML_ATTRS[element.tagName] || [];
+  Array.from(element.attributes).forEach(attr => {
+    if (!attr.name.startsWith('data-') && !handled.includes(attr.name) && !elementHandled.includes(attr.name)) {
+      attributes[attr.name] = attr.value;
+    }
+  });
+  return attributes;
+}
+
+function dataAttrs(element: HTMLElement, reserved: string[] = []): { [key: string]: string } {
+  const data: { [key: string]: string } = {};
+  Array.from(element.attributes).forEach(attr => {
+    if (attr.name.startsWith('data-') && !reserved.includes(attr.name.slice(5))) {
+      data[attr.name.slice(5)] = attr.value;
+    }
+  });
+  return data;
+}
+
+function block(
+  type: string,
+  element: HTMLElement,
+  attrs: DocAttrs,
+  content: DocNode[] | undefined,
+  implicitClasses: string[] = [],
+  consumedStyles: string[] = []
+): DocNode {
+  const node: DocNode = { type };
+  const allAttrs = { ...attrs, ...commonAttrs(element, implicitClasses, consumedStyles) };
+  const cleaned = compactAttrs(allAttrs);
+  if (cleaned) {
+    node.attrs = cleaned;
+  }
+  if (content !== undefined) {
+    node.content = content;
+  }
+  return node;
+}
+
+function commonAttrs(element: HTMLElement, implicitClasses: string[], consumedStyles: string[] = []): DocAttrs {
+  const attrs: DocAttrs = {};
+  const classes = Array.from(element.classList).filter(name => !implicitClasses.includes(name));
+  if (classes.length > 0) attrs.className = classes.join(' ');
+  if (element.id) attrs.id = element.id;
+  const data = dataAttrs(element, RESERVED_DATA);
+  if (Object.keys(data).length > 0) attrs.data = data;
+
+  const dir = element.getAttribute('dir');
+  if (dir === 'ltr' || dir === 'rtl' || dir === 'auto') attrs.dir = dir;
+  // RTL blocks are indented from the right
+  const indentProperty = dir === 'rtl' ? 'margin-right' : 'margin-left';
+
+  const residual: string[] = [];
+  for (let i = 0; i < element.style.length; i++) {
+    const property = element.style[i];
+    const value = element.style.getPropertyValue(property);
+    if (property === 'text-align') {
+      attrs.align = value;
+    } else if (property === indentProperty && /^\d+px$/.test(value)) {
+      attrs.indent = parseInt(value, 10);
+    } else if (!consumedStyles.includes(property)) {
+      residual.push(`${property}: ${value}`);
+    }
+  }
+  const legacyAlign = element.getAttribute('align');
+  if (legacyAlign && !attrs.align) attrs.align = legacyAlign;
+  if (residual.length > 0) attrs.style = residual.join('; ');
+
+  const attributes = otherAttrs(element, BLOCK_HTML_ATTRS);
+  if (Object.keys(attributes).length > 0) attrs.attributes = attributes;
+
+  return attrs;
+}
+
+function compactAttrs(attrs: DocAttrs): DocAttrs | undefined {
+  const result: DocAttrs = {};
+  Object.entries(attrs).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') {
+      result[key] = value;
+    }
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function textNode(text: string, marks: DocMark[]): DocNode {
+  const node: DocNode = { type: 'text', text };
+  if (marks.length > 0) {
+    node.marks = sortMarks(marks);
+  }
+  return node;
+}
+
+function addMarks(current: DocMark[], added: DocMark[]): DocMark[] {
+  const result = current.filter(mark => !added.some(other => other.type === mark.type));
+  return [...result, ...added];
+}
+
+export function sortMarks(marks: DocMark[]): DocMark[] {
+  return [...marks].sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+}
+
+// Merges adjacent text with the same marks
+export function normalizeContent(nodes: DocNode[]): DocNode[] {
+  const result: DocNode[] = [];
+  nodes.forEach(node => {
+    if (node.content) {
+      node.content = normalizeContent(node.content);
+    }
+    const previous = result[result.length - 1];
+    if (
+      previous && node.type === 'text' && previous.type === 'text' &&
+      sameMarks(previous.marks, node.marks)
+    ) {
+      previous.text = (previous.text || '') + (node.text || '');
+    } else {
+      result.push(node);
+    }
+  });
+  return result;
+}
+
+export function sameMarks(a: DocMark[] = [], b: DocMark[] = []): boolean {
+  if (a.length !== b.length) return false;
+  return a.every((mark, i) => mark.type === b[i].type && sameAttrs(mark.attrs, b[i].attrs));
+}
+
+function sameAttrs(a: DocAttrs = {}, b: DocAttrs = {}): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ---------------------------------------------------------------------------
+// Model -> DOM
+
+export function renderDOM(doc: DocumentJSON): DocumentFragment {
+  return renderNodes(doc.content);
+}
+
+// Renders a run of sibling nodes, as they would be inside their parent
+export function renderNodes(nodes: DocNode[]): DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  renderChildren(nodes, fragment);
+  return fragment;
+}
+
+export function serializeHTML(doc: DocumentJSON): string {
+  const container = document.createElement('div');
+  container.appendChild(renderDOM(doc));
+  return container.innerHTML;
+}
+
+function renderChildren(nodes: DocNode[], parent: Node): void {
+  let i = 0;
+  while (i < nodes.length) {
+    const mark = nodes[i].marks?.[0];
+    if (!mark) {
+      parent.appendChild(renderNode(nodes[i]));
+      i++;
+      continue;
+    }
+
+    // Siblings sharing the same outermost mark are rendered inside one element
+    let j = i + 1;
+    while (j < nodes.length && nodes[j].marks?.[0] && sameMarks([nodes[j].marks![0]], [mark])) {
+      j++;
+    }
+    const inner = nodes.slice(i, j).map(node => ({ ...node, marks: node.marks!.slice(1) }));
+    const spec = markSpecs[mark.type];
+    if (spec) {
+      const wrapper = spec.toDOM(mark);
+      // A tracked change's `id` is its change id, rendered by the spec
+      applyCommonAttrs(wrapper, isChange(mark) ? { ...mark.attrs, id: null } : mark.attrs);
+      renderChildren(inner, wrapper);
+      parent.appendChild(wrapper);
+    } else {
+      renderChildren(inner, parent);
+    }
+    i = j;
+  }
+}
+
+function renderNode(node: DocNode): Node {
+  if (node.type === 'text') {
+    return document.createTextNode(node.text || '');
+  }
+
+  if (node.type === 'html') {
+    const template = document.createElement('template');
+    template.innerHTML = String(node.attrs?.html || '');
+    return template.content;
+  }
+
+  const spec = nodeSpecs[node.type];
+  if (!spec) {
+    throw new Error(`Unknown node type "${node.type}"`);
+  }
+
+  const { dom, contentDOM } = spec.toDOM(node);
+  if (node.content) {
+    if (spec.renderContent) {
+      spec.renderContent(node.content, contentDOM || dom);
+    } else {
+      renderChildren(node.content, contentDOM || dom);
+    }
+  }
+
+  return dom;
+}
+
+function blockElement(tag: string, node: DocNode): { dom: HTMLElement; contentDOM?: HTMLElement } {
+  const dom = document.createElement(tag);
+  applyCommonAttrs(dom, node.attrs);
+  return { dom };
+}
+
+function applyCommonAttrs(element: HTMLElement, attrs?: DocAttrs): void {
+  if (!attrs) return;
+  if (typeof attrs.style === 'string' && attrs.style) {
+    // Styled spans already have the style their mark stands for
+    const current = element.getAttribute('style');
+    element.setAttribute('style', current ? `${current} ${attrs.style}` : attrs.style);
+  }
+  if (typeof attrs.className === 'string' && attrs.className) {
+    element.className = attrs.className;
+  }
+  if (typeof attrs.id === 'string' && attrs.id) {
+    element.id = attrs.id;
+  }
+  if (typeof attrs.align === 'string' && attrs.align) {
+    element.style.textAlign = attrs.align;
+  }
+  if (typeof attrs.dir === 'string' && attrs.dir) {
+    element.setAttribute('dir', attrs.dir);
+  }
+  if (typeof attrs.indent === 'number' && attrs.indent > 0) {
+    element.style[attrs.dir === 'rtl' ? 'marginRight' : 'marginLeft'] = `${attrs.indent}px`;
+  }
+  if (attrs.data && typeof attrs.data === 'object') {
+    Object.entries(attrs.data).forEach(([key, value]) => {
+      element.setAttribute(`data-${key}`, value);
+    });
+  }
+  if (attrs.attributes && typeof attrs.attributes === 'object') {
+    Object.entries(attrs.attributes).forEach(([name, value]) => {
+      element.setAttribute(name, value);
+    });
+  }
+}
+
+function isChange(mark: DocMark): boolean {
+  return mark.type === 'insertion' || mark.type === 'deletion';
+}
+
+// <ins>/<del> of a tracked change
+function changeElement(tag: string, mark: DocMark): HTMLElement {
+  const element = document.createElement(tag);
+  Object.entries(CHANGE_ATTRS).forEach(([attr, name]) => {
+    const value = mark.attrs?.[attr];
+    if (typeof value === 'string' && value) {
+      element.setAttribute(name, value);
+    }
+  });
+  return element;
+}
+
+function styledSpan(property: string, value: DocAttrValue | undefined): HTMLElement {
+  const span = document.createElement('span');
+  if (typeof value === 'string' && value) {
+    span.style.setProperty(property, value);
+  }
+  return span;
+}
+
+function stringAttr(node: DocNode, name: string): string {
+  const value = node.attrs?.[name];
+  return typeof value === 'string' ? value : '';
+}
+
+function parseWidths(widths: DocAttrValue | undefined): number[] {
+  if (typeof widths !== 'string' || !widths) return [];
+  return widths.split(',').map(width => parseInt(width, 10) || 0);
+}
+
+function clampLevel(level: DocAttrValue | undefined): number {
+  const value = typeof level === 'number' ? level : 1;
+  return Math.min(6, Math.max(1, Math.round(value)));
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+
+export function validateDocument(doc: unknown): DocValidationError[] {
+  const errors: DocValidationError[] = [];
+  if (!doc || typeof doc !== 'object' || (doc as DocumentJSON).type !== 'doc') {
+    errors.push({ path: [], message: 'Root node must be of type "doc"' });
+    return errors;
+  }
+  const content = (doc as DocumentJSON).content;
+  if (!Array.isArray(content)) {
+    errors.push({ path: [], message: 'Document content must be an array' });
+    return errors;
+  }
+  content.forEach((node, index) => validateNode(node, 'flow', [index], errors));
+  return errors;
+}
+
+function validateNode(node: DocNode, rule: ContentRule, path: number[], errors: DocValidationError[]): void {
+  const spec = node && typeof node === 'object' ? nodeSpecs[node.type] : undefined;
+  if (!spec) {
+    errors.push({ path, message: `Unknown node type "${node && node.type}"` });
+    return;
+  }
+
+  if (!allowedBy(rule, node.type, spec)) {
+    errors.push({ path, message: `Node "${node.type}" is not allowed here` });
+  }
+
+  if (node.type === 'text' && (typeof node.text !== 'string' || node.text.length === 0)) {
+    errors.push({ path, message: 'Text nodes must have non-empty text' });
+  }
+
+  if (node.attrs) {
+    Object.keys(node.attrs).forEach(name => {
+      if (!spec.attrs.includes(name)) {
+        errors.push({ path, message: `Unknown attribute "${name}" on "${node.type}"` });
+      }
+    });
+    validateAttributes(node.attrs, `"${node.type}"`, path, errors);
+  }
+
+  if (node.marks) {
+    if (spec.group !== 'inline') {
+      errors.push({ path, message: `Block node "${node.type}" cannot carry marks` });
+    }
+    node.marks.forEach(mark => {
+      const markSpec = markSpecs[mark.type];
+      if (!markSpec) {
+        errors.push({ path, message: `Unknown mark type "${mark.type}"` });
+        return;
+      }
+      Object.keys(mark.attrs || {}).forEach(name => {
+        if (!markSpec.attrs.includes(name)) {
+          errors.push({ path, message: `Unknown attribute "${name}" on mark "${mark.type}"` });
+        }
+      });
+      validateAttributes(mark.attrs || {}, `mark "${mark.type}"`, path, errors);
+    });
+  }
+
+  if (node.content) {
+    if (!spec.content) {
+      errors.push({ path, message: `Node "${node.type}" cannot have content` });
+      return;
+    }
+    node.content.forEach((child, index) => validateNode(child, spec.content!, [...path, index], errors));
+  }
+}
+
+// Verbatim HTML attributes have to be something an element can carry
+function validateAttributes(attrs: DocAttrs, owner: string, path: number[], errors: DocValidationError[]): void {
+  const attributes = attrs.attributes;
+  if (attributes === undefined) return;
+  const valid = !!attributes && typeof attributes === 'object' && Object.entries(attributes).every(
+    ([name, value]) => /^[a-z_:][-\w:.]*$/i.test(name) && typeof value === 'string'
+  );
+  if (!valid) {
+    errors.push({ path, message: `Invalid "attributes" on ${owner}` });
+  }
+}
+
+function allowedBy(rule: ContentRule, type: string, spec: NodeSpec): boolean {
+  if (Array.isArray(rule)) return rule.includes(type);
+  switch (rule) {
+    case 'text':
+      return type === 'text';
+    case 'inline':
+      return spec.group === 'inline';
+    case 'block':
+      return spec.group === 'block';
+    case 'flow':
+      return spec.group === 'inline' || spec.group === 'block';
+  }
+  return false;
+}
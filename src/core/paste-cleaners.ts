@@ -0,0 +1,302 @@
+import { PasteSource, PasteTransformer } from '../types';
+import { escapeHTML } from '../utils/sanitize';
+
+const BLOCK_TAGS = ['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE', 'TD', 'TH'];
+
+const NEUTRAL_STYLE_VALUES: Record<string, string[]> = {
+  color: ['black', '#000', '#000000', 'rgb(0, 0, 0)', 'windowtext', 'inherit', 'initial', 'auto'],
+  'background-color': ['transparent', 'rgba(0, 0, 0, 0)', 'inherit', 'initial'],
+  'text-align': ['start', 'inherit', 'initial']
+};
+
+// Built-in cleaners only run on HTML; plain text is already clean
+const HTML_SOURCES: PasteSource[] = ['word', 'google-docs', 'web'];
+
+export const DEFAULT_KEEP_STYLES = ['color', 'background-color', 'text-align'];
+
+export function detectSource(html: string): PasteSource {
+  if (/urn:schemas-microsoft-com:office|<meta[^>]+Word\.Document|class="?Mso/i.test(html)) {
+    return 'word';
+  }
+  if (/id="docs-internal-guid-/.test(html)) {
+    return 'google-docs';
+  }
+  return 'web';
+}
+
+/**
+ * Plain text to HTML: blank lines separate paragraphs and single line breaks
+ * become <br>. A single line is returned inline so it joins the current block.
+ */
+export function textToHTML(text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/^\n+|\n+$/g, '');
+  if (!normalized) return '';
+
+  const paragraphs = normalized.split(/\n\s*\n/);
+  if (paragraphs.length === 1 && !normalized.includes('\n')) {
+    return escapeHTML(normalized);
+  }
+
+  return paragraphs
+    .map(paragraph => `<p>${paragraph.split('\n').map(line => escapeHTML(line)).join('<br>')}</p>`)
+    .join('');
+}
+
+function unwrap(element: Element): void {
+  const parent = element.parentNode;
+  if (!parent) return;
+  while (element.firstChild) {
+    parent.insertBefore(element.firstChild, element);
+  }
+  parent.removeChild(element);
+}
+
+function removeComments(root: Node): void {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) {
+    comments.push(walker.currentNode);
+  }
+  comments.forEach(comment => comment.parentNode?.removeChild(comment));
+}
+
+// Drops markup that never carries content: scripts, styles, metadata, comments
+const cleanMarkup: PasteTransformer = {
+  name: 'clean-markup',
+  sources: HTML_SOURCES,
+  priority: 5,
+  transform: root => {
+    root.querySelectorAll('script, style, meta, link, title, noscript, template, xml').forEach(el => el.remove());
+    removeComments(root);
+  }
+};
+
+function isWordListParagraph(element: Element): boolean {
+  const style = element.getAttribute('style') || '';
+  return element.tagName === 'P' && /mso-list:\s*l\d/i.test(style);
+}
+
+function getWordListLevel(element: Element): number {
+  const match = (element.getAttribute('style') || '').match(/level(\d+)/i);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+// Word renders list markers as text inside a `mso-list:Ignore` span
+function takeWordListMarker(element: Element): string {
+  const markers = Array.from(element.querySelectorAll('[style*="mso-list"]'))
+    .filter(marker => /mso-list:\s*Ignore/i.test(marker.getAttribute('style') || ''));
+  const text = markers.map(marker => marker.textContent || '').join('').replace(/\u00a0/g, ' ').trim();
+
+  markers.forEach(marker => {
+    // The marker is often wrapped in a font span of its own
+    const parent = marker.parentElement;
+    marker.remove();
+    if (parent && parent !== element && !parent.textContent?.trim()) {
+      parent.remove();
+    }
+  });
+  return text;
+}
+
+function convertWordLists(root: HTMLElement): void {
+  const processed = new Set<Element>();
+
+  Array.from(root.querySelectorAll('p')).filter(isWordListParagraph).forEach(first => {
+    if (processed.has(first)) return;
+
+    // Consecutive list paragraphs form one (possibly nested) list
+    const items: Element[] = [];
+    let node: Node | null = first;
+    while (node) {
+      if (node.nodeType === Node.ELEMENT_NODE && isWordListParagraph(node as Element)) {
+        items.push(node as Element);
+      } else if (node.nodeType !== Node.TEXT_NODE || node.textContent?.trim()) {
+        break;
+      }
+      node = node.nextSibling;
+    }
+
+    const stack: { level: number; list: HTMLElement }[] = [];
+    items.forEach(item => {
+      processed.add(item);
+      const level = getWordListLevel(item);
+      const ordered = /^(\d+|[a-z]{1,3}|[ivxlc]+)[.)]$/i.test(takeWordListMarker(item));
+
+      while (stack.length > 0 && stack[stack.length - 1].level > level) {
+        stack.pop();
+      }
+
+      let top = stack[stack.length - 1];
+      if (!top || top.level < level) {
+        const list = document.createElement(ordered ? 'ol' : 'ul');
+        if (top) {
+          let parentItem = top.list.lastElementChild;
+          if (!parentItem) {
+            parentItem = document.createElement('li');
+            top.list.appendChild(parentItem);
+          }
+          parentItem.appendChild(list);
+        } else {
+          item.parentNode?.insertBefore(list, item);
+        }
+        top = { level, list };
+        stack.push(top);
+      }
+
+      const li = document.createElement('li');
+      while (item.firstChild) {
+        li.appendChild(item.firstChild);
+      }
+      top.list.appendChild(li);
+      item.remove();
+    });
+  });
+}
+
+const wordCleaner: PasteTransformer = {
+  name: 'word',
+  sources: ['word'],
+  priority: 10,
+  transform: root => {
+    convertWordLists(root);
+
+    // Office namespaced elements: <o:p> holds paragraph text, the rest is drawing data
+    Array.from(root.querySelectorAll('*'))
+      .filter(el => el.tagName.includes(':'))
+      .forEach(el => {
+        if (el.tagName.toLowerCase() === 'o:p') {
+          unwrap(el);
+        } else {
+          el.remove();
+        }
+      });
+
+    root.querySelectorAll('[class]').forEach(el => {
+      const classes = Array.from(el.classList).filter(name => !/^Mso/i.test(name));
+      el.className = classes.join(' ');
+    });
+  }
+};
+
+const googleDocsCleaner: PasteTransformer = {
+  name: 'google-docs',
+  sources: ['google-docs'],
+  priority: 10,
+  transform: root => {
+    // The whole clipboard is wrapped in a non-bold <b>
+    root.querySelectorAll('b[id^="docs-internal-guid-"]').forEach(unwrap);
+    root.querySelectorAll('br.Apple-interchange-newline').forEach(el => el.remove());
+    root.querySelectorAll('li > p').forEach(unwrap);
+  }
+};
+
+function hasBlockChildren(element: Element): boolean {
+  return Array.from(element.children).some(child => BLOCK_TAGS.includes(child.tagName) || /^(UL|OL|TABLE)$/.test(child.tagName));
+}
+
+function wrapChildren(element: Element, tagName: string): void {
+  const wrapper = document.createElement(tagName);
+  while (element.firstChild) {
+    wrapper.appendChild(element.firstChild);
+  }
+  element.appendChild(wrapper);
+}
+
+/**
+ * Turns inline formatting styles into the elements the editor produces
+ * itself, and drops every style that is not in `keepStyles`.
+ */
+export function createStyleMapper(keepStyles: string[]): PasteTransformer {
+  return {
+    name: 'map-styles',
+    sources: HTML_SOURCES,
+    priority: 50,
+    transform: root => {
+      root.querySelectorAll<HTMLElement>('[style]').forEach(element => {
+        const style = element.style;
+        const tag = element.tagName;
+        const wrappers: string[] = [];
+
+        const weight = style.fontWeight;
+        const isBoldTag = tag === 'B' || tag === 'STRONG';
+        if (isBoldTag && (weight === 'normal' || weight === '400')) {
+          element.removeAttribute('style');
+          unwrap(element);
+          return;
+        }
+
+        if (!hasBlockChildren(element)) {
+          if ((weight === 'bold' || parseInt(weight, 10) >= 600) && !isBoldTag && !/^H[1-6]$/.test(tag)) {
+            wrappers.push('strong');
+          }
+          if (style.fontStyle === 'italic' && tag !== 'I' && tag !== 'EM') {
+            wrappers.push('em');
+          }
+          const decoration = `${style.textDecorationLine || ''} ${style.textDecoration || ''}`;
+          if (decoration.includes('underline') && tag !== 'U') {
+            wrappers.push('u');
+          }
+          if (decoration.includes('line-through') && tag !== 'S' && tag !== 'STRIKE') {
+            wrappers.push('s');
+          }
+          if (style.verticalAlign === 'super' && tag !== 'SUP') {
+            wrappers.push('sup');
+          } else if (style.verticalAlign === 'sub' && tag !== 'SUB') {
+            wrappers.push('sub');
+          }
+        }
+
+        const kept = keepStyles
+          .filter(property => property !== 'text-align' || BLOCK_TAGS.includes(tag))
+          .map(property => [property, style.getPropertyValue(property).trim()])
+          .filter(([property, value]) => value && !(NEUTRAL_STYLE_VALUES[property] || []).includes(value.toLowerCase()));
+
+        element.removeAttribute('style');
+        kept.forEach(([property, value]) => element.style.setProperty(property, value));
+
+        wrappers.forEach(wrapper => wrapChildren(element, wrapper));
+      });
+    }
+  };
+}
+
+const EQUIVALENT_TAGS: Record<string, string> = { b: 'strong', i: 'em', strike: 's' };
+
+// Removes attributes and wrappers that mean nothing outside the source page
+const tidy: PasteTransformer = {
+  name: 'tidy',
+  sources: HTML_SOURCES,
+  priority: 90,
+  transform: root => {
+    root.querySelectorAll('[class], [id]').forEach(element => {
+      const classes = Array.from(element.classList).filter(name => name.startsWith('xeditor-'));
+      if (classes.length > 0) {
+        element.className = classes.join(' ');
+      } else {
+        element.removeAttribute('class');
+      }
+      element.removeAttribute('id');
+    });
+
+    // Same formatting, in the elements the editor itself produces
+    Object.entries(EQUIVALENT_TAGS).forEach(([from, to]) => {
+      root.querySelectorAll(from).forEach(element => {
+        const replacement = document.createElement(to);
+        while (element.firstChild) {
+          replacement.appendChild(element.firstChild);
+        }
+        element.parentNode?.replaceChild(replacement, element);
+      });
+    });
+
+    root.querySelectorAll('span, font').forEach(element => {
+      if (element.attributes.length === 0 || element.tagName === 'FONT') {
+        unwrap(element);
+      }
+    });
+  }
+};
+
+export function createBuiltinTransformers(keepStyles: string[]): PasteTransformer[] {
+  return [cleanMarkup, wordCleaner, googleDocsCleaner, createStyleMapper(keepStyles), tidy];
+}
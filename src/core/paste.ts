@@ -0,0 +1,115 @@
+import { Editor, PasteContext, PastePipeline, PasteTransformer } from '../types';
+import { optimizeContent } from '../utils/performance';
+import { errorHandler } from '../utils/error-handler';
+import { DEFAULT_KEEP_STYLES, createBuiltinTransformers, detectSource, textToHTML } from './paste-cleaners';
+
+const DEFAULT_PRIORITY = 100;
+
+interface ClipboardContents {
+  html?: string;
+  text?: string;
+}
+
+/**
+ * Turns clipboard contents into editor HTML: detects where the HTML came
+ * from, runs the transformers registered for that source in priority order,
+ * then sanitizes the result like any other content.
+ */
+export class PastePipelineImpl implements PastePipeline {
+  private editor: Editor;
+  private transformers: PasteTransformer[] = [];
+
+  constructor(editor: Editor) {
+    this.editor = editor;
+    const keepStyles = editor.config.paste?.keepStyles || DEFAULT_KEEP_STYLES;
+    createBuiltinTransformers(keepStyles).forEach(transformer => this.register(transformer));
+  }
+
+  register(transformer: PasteTransformer): void {
+    this.unregister(transformer.name);
+    this.transformers.push(transformer);
+    // Stable sort keeps registration order within a priority
+    this.transformers.sort((a, b) => (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY));
+  }
+
+  unregister(name: string): void {
+    this.transformers = this.transformers.filter(transformer => transformer.name !== name);
+  }
+
+  process(data: ClipboardContents, plainText: boolean = !!this.editor.config.paste?.plainText): string {
+    const html = data.html || '';
+    const text = data.text || (html ? this.htmlToText(html) : '');
+    const usePlainText = plainText || !html;
+
+    const context: PasteContext = {
+      source: usePlainText ? 'plain' : detectSource(html),
+      html,
+      text,
+      plainText: usePlainText
+    };
+
+    const root = usePlainText
+      ? this.createRoot(textToHTML(text))
+      : new DOMParser().parseFromString(html, 'text/html').body;
+
+    this.transformers
+      .filter(transformer => !transformer.sources || transformer.sources.includes(context.source))
+      .forEach(transformer => {
+        try {
+          transformer.transform(root, context);
+        } catch (error) {
+          errorHandler.handle(error as Error, `Paste transformer "${transformer.name}" failed`);
+        }
+      });
+
+    return optimizeContent(this.editor.sanitize(root.innerHTML));
+  }
+
+  insert(data: ClipboardContents, plainText?: boolean): void {
+    const html = this.process(data, plainText);
+    if (!html) return;
+
+    this.editor.history.transact('paste', () => {
+      this.editor.execCommand('insertHTML', html);
+    });
+  }
+
+  async pasteFromClipboard(plainText: boolean): Promise<void> {
+    const clipboard = navigator.clipboard;
+    if (!clipboard) {
+      throw new Error('Clipboard access is not available in this browser');
+    }
+
+    // Reading the clipboard is async; keep the caret where the command was run
+    this.editor.selection.save();
+
+    const contents: ClipboardContents = {};
+    if (!plainText && typeof clipboard.read === 'function') {
+      const items = await clipboard.read();
+      for (const item of items) {
+        if (!contents.html && item.types.includes('text/html')) {
+          contents.html = await (await item.getType('text/html')).text();
+        }
+        if (!contents.text && item.types.includes('text/plain')) {
+          contents.text = await (await item.getType('text/plain')).text();
+        }
+      }
+    } else {
+      contents.text = await clipboard.readText();
+    }
+
+    this.editor.focus();
+    this.editor.selection.restore();
+    this.insert(contents, plainText);
+  }
+
+  private createRoot(html: string): HTMLElement {
+    const root = document.createElement('div');
+    root.innerHTML = html;
+    return root;
+  }
+
+  private htmlToText(html: string): string {
+    return new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+  }
+}
@@ -1,7 +1,17 @@
-import { PluginManager, Plugin, Editor } from '../types';
+import { PluginManager, Plugin, Editor, LazyPluginOptions, PluginLoadState, SanitizeSchema } from '../types';
+import { errorHandler } from '../utils/error-handler';
+
+interface LazyPlugin {
+  load: () => Promise<Plugin>;
+  options: LazyPluginOptions;
+  promise: Promise<Plugin | undefined> | null;
+  failed: boolean;
+  cleanup: (() => void) | null;
+}
 
 export class PluginManagerImpl implements PluginManager {
   private plugins: Map<string, Plugin> = new Map();
+  private lazyPlugins: Map<string, LazyPlugin> = new Map();
   private editor: Editor;
 
   constructor(editor: Editor) {
@@ -10,7 +20,7 @@ export class PluginManagerImpl implements PluginManager {
 
   register(plugin: Plugin): void {
     if (this.plugins.has(plugin.name)) {
-      console.warn(`Plugin "${plugin.name}" is already registered. Skipping...`);
+      errorHandler.warn(`Plugin "${plugin.name}" is already registered. Skipping...`);
       return;
     }
 
@@ -38,14 +48,119 @@ export class PluginManagerImpl implements PluginManager {
 
       this.editor.events.emit('plugin:registered', plugin);
     } catch (error) {
-      console.error(`Failed to register plugin "${plugin.name}":`, error);
+      errorHandler.handle(error as Error, `Failed to register plugin "${plugin.name}"`);
+    }
+  }
+
+  /**
+   * Registers a plugin whose implementation is fetched on first use: when one
+   * of its commands runs, its toolbar item is clicked, the content contains
+   * its selector, or load() is called.
+   */
+  registerLazy(name: string, load: () => Promise<Plugin>, options: LazyPluginOptions = {}): void {
+    if (this.plugins.has(name) || this.lazyPlugins.has(name)) {
+      errorHandler.warn(`Plugin "${name}" is already registered. Skipping...`);
+      return;
+    }
+
+    const lazy: LazyPlugin = { load, options, promise: null, failed: false, cleanup: null };
+    this.lazyPlugins.set(name, lazy);
+
+    // Placeholder commands load the plugin and then run its real command
+    (options.commands || []).forEach(command => {
+      this.editor.commands.register(command, {
+        execute: (value?: unknown) => {
+          this.load(name).then(plugin => {
+            if (plugin && this.editor.commands.canExecute(command)) {
+              this.editor.execCommand(command, value);
+            }
+          });
+        }
+      });
+    });
+
+    if (options.selector) {
+      const selector = options.selector;
+      const check = () => {
+        if (this.editor.contentElement.querySelector(selector)) {
+          this.load(name);
+        }
+      };
+      this.editor.on('change', check);
+      lazy.cleanup = () => this.editor.off('change', check);
+      check();
+    }
+  }
+
+  // Registers a plugin produced by an async factory once it resolves
+  async registerAsync(pending: Promise<Plugin>): Promise<Plugin | undefined> {
+    try {
+      const plugin = await pending;
+      await this.loadDependencies(plugin);
+      this.register(plugin);
+      this.editor.events.emit('plugin:ready', plugin);
+      return plugin;
+    } catch (error) {
+      errorHandler.handle(error as Error, 'Failed to load plugin');
+      return undefined;
     }
   }
 
+  load(name: string): Promise<Plugin | undefined> {
+    const registered = this.plugins.get(name);
+    if (registered) return Promise.resolve(registered);
+
+    const lazy = this.lazyPlugins.get(name);
+    if (!lazy) return Promise.resolve(undefined);
+    if (lazy.promise) return lazy.promise;
+
+    if (lazy.cleanup) {
+      lazy.cleanup();
+      lazy.cleanup = null;
+    }
+
+    lazy.failed = false;
+    this.editor.events.emit('plugin:loading', name);
+
+    lazy.promise = (async () => {
+      try {
+        await Promise.all((lazy.options.dependencies || []).map(dependency => this.load(dependency)));
+        const plugin = await lazy.load();
+        await this.loadDependencies(plugin);
+
+        // Drop the placeholders so the plugin can register the real commands
+        (lazy.options.commands || []).forEach(command => this.editor.commands.unregister(command));
+
+        this.lazyPlugins.delete(name);
+        this.register(plugin);
+        this.editor.events.emit('plugin:ready', plugin);
+        return plugin;
+      } catch (error) {
+        lazy.failed = true;
+        // Forget the attempt so that the next load() tries again
+        lazy.promise = null;
+        errorHandler.handle(error as Error, `Failed to load plugin "${name}"`);
+        this.editor.events.emit('plugin:error', name);
+        return undefined;
+      }
+    })();
+
+    return lazy.promise;
+  }
+
+  getLoadState(name: string): PluginLoadState {
+    if (this.plugins.has(name)) return 'registered';
+
+    const lazy = this.lazyPlugins.get(name);
+    if (!lazy) return 'unknown';
+    if (lazy.failed) return 'failed';
+    return lazy.promise ? 'loading' : 'pending';
+  }
+
   unregister(name: string): void {
     const plugin = this.plugins.get(name);
     if (!plugin) {
-      console.warn(`Plugin "${name}" not found`);
+      errorHandler.warn(`Plugin "${name}" not found`);
       return;
     }
 
@@ -69,7 +184,7 @@ export class PluginManagerImpl implements PluginManager {
       this.plugins.delete(name);
       this.editor.events.emit('plugin:unregistered', plugin);
     } catch (error) {
-      console.error(`Failed to unregister plugin "${name}":`, error);
+      errorHandler.handle(error as Error, `Failed to unregister plugin "${name}"`);
     }
   }
 
@@ -81,6 +196,17 @@ export class PluginManagerImpl implements PluginManager {
     return Array.from(this.plugins.values());
   }
 
+  getSchemas(): SanitizeSchema[] {
+    return [
+      ...Array.from(this.plugins.values()).map(plugin => plugin.schema),
+      ...Array.from(this.lazyPlugins.values()).map(lazy => lazy.options.schema)
+    ].filter((schema): schema is SanitizeSchema => !!schema);
+  }
+
+  private async loadDependencies(plugin: Plugin): Promise<void> {
+    await Promise.all((plugin.dependencies || []).map(dependency => this.load(dependency)));
+  }
+
   private registerShortcut(key: string, handler: string | (() => void)): void {
     const normalizedKey = this.normalizeShortcut(key);
     
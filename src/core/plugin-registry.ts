@@ -0,0 +1,230 @@
+import { Editor, Plugin, PluginDefinition, PluginEntry, LazyPluginOptions } from '../types';
+import { errorHandler } from '../utils/error-handler';
+import { builtinPlugins } from '../plugins/builtin';
+
+const DEFAULTS_ENTRY = 'defaults';
+
+// Plugins that are registered later, through PluginManager.registerLazy()
+export interface DeferredPlugin {
+  name: string;
+  load: () => Promise<Plugin>;
+  options: LazyPluginOptions;
+  // Start loading right away instead of waiting for first use
+  immediate: boolean;
+}
+
+export interface ResolvedPlugins {
+  plugins: Plugin[];
+  deferred: DeferredPlugin[];
+  // Results of anonymous async factories from the `plugins` option
+  pending: Promise<Plugin>[];
+}
+
+type VisitResult = 'ready' | 'deferred' | 'failed';
+
+function isPromise<T>(value: T | Promise<T>): value is Promise<T> {
+  return !!value && typeof (value as Promise<T>).then === 'function';
+}
+
+export class PluginRegistry {
+  private definitions: Map<string, PluginDefinition> = new Map();
+
+  define(definition: PluginDefinition): void {
+    if (definition.name === DEFAULTS_ENTRY) {
+      throw new Error(`"${DEFAULTS_ENTRY}" is reserved and cannot be used as a plugin name`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Turns the editor's `plugins` / `excludePlugins` configuration into plugin
+   * instances ordered so that every plugin comes after its dependencies.
+   * Missing dependencies are pulled in from the registry when possible.
+   * Lazy and async plugins, and plugins depending on them, are deferred.
+   */
+  resolve(editor: Editor): ResolvedPlugins {
+    const config = editor.config;
+    const excluded = new Set(config.excludePlugins || []);
+    const plugins: Map<string, Plugin> = new Map();
+    const deferred: Map<string, DeferredPlugin> = new Map();
+    const pending: Promise<Plugin>[] = [];
+
+    const isListed = (name: string): boolean => plugins.has(name) || deferred.has(name);
+
+    const add = (plugin: Plugin): void => {
+      if (excluded.has(plugin.name)) return;
+      if (isListed(plugin.name)) {
+        errorHandler.warn(`Plugin "${plugin.name}" is listed more than once. Skipping...`);
+        return;
+      }
+      // Instances of registered plugins get what their definition declares
+      const definition = this.definitions.get(plugin.name);
+      plugins.set(plugin.name, definition ? this.withDefinition(plugin, definition) : plugin);
+    };
+
+    const addDefinition = (name: string): void => {
+      const definition = this.definitions.get(name);
+      if (!definition) {
+        errorHandler.warn(`Unknown plugin "${name}". Skipping...`);
+        return;
+      }
+      if (excluded.has(name) || isListed(name)) return;
+
+      const options: LazyPluginOptions = {
+        dependencies: definition.dependencies,
+        commands: definition.commands,
+        selector: definition.selector,
+        schema: definition.schema
+      };
+
+      if (definition.lazy) {
+        deferred.set(name, {
+          name,
+          load: async () => this.withDefinition(await definition.create(editor), definition),
+          options,
+          immediate: false
+        });
+        return;
+      }
+
+      try {
+        const created = definition.create(editor);
+        if (isPromise(created)) {
+          deferred.set(name, {
+            name,
+            load: async () => this.withDefinition(await created, definition),
+            options,
+            immediate: true
+          });
+        } else {
+          add(this.withDefinition(created, definition));
+        }
+      } catch (error) {
+        errorHandler.handle(error as Error, `Failed to create plugin "${name}"`);
+      }
+    };
+
+    (config.plugins || [DEFAULTS_ENTRY]).forEach((entry: PluginEntry) => {
+      if (entry === DEFAULTS_ENTRY) {
+        this.definitions.forEach(definition => {
+          if (!definition.isDefault || definition.isDefault(config)) {
+            addDefinition(definition.name);
+          }
+        });
+      } else if (typeof entry === 'string') {
+        addDefinition(entry);
+      } else if (typeof entry === 'function') {
+        try {
+          const created = entry(editor);
+          if (isPromise(created)) {
+            pending.push(created);
+          } else {
+            add(created);
+          }
+        } catch (error) {
+          errorHandler.handle(error as Error, 'Failed to create plugin');
+        }
+      } else {
+        add(entry);
+      }
+    });
+
+    this.addDependencies(plugins, deferred, excluded, addDefinition);
+    const ordered = this.sort(plugins, deferred);
+
+    return { plugins: ordered, deferred: Array.from(deferred.values()), pending };
+  }
+
+  private withDefinition(plugin: Plugin, definition: PluginDefinition): Plugin {
+    if (definition.dependencies && !plugin.dependencies) {
+      plugin.dependencies = definition.dependencies;
+    }
+    if (definition.schema && !plugin.schema) {
+      plugin.schema = definition.schema;
+    }
+    return plugin;
+  }
+
+  private addDependencies(
+    plugins: Map<string, Plugin>,
+    deferred: Map<string, DeferredPlugin>,
+    excluded: Set<string>,
+    addDefinition: (name: string) => void
+  ): void {
+    const required = (names: string[] = []) => names.filter(name =>
+      !plugins.has(name) && !deferred.has(name) && !excluded.has(name) && this.definitions.has(name)
+    );
+
+    let missing: string[];
+    do {
+      missing = [
+        ...Array.from(plugins.values()).flatMap(plugin => required(plugin.dependencies)),
+        ...Array.from(deferred.values()).flatMap(entry => required(entry.options.dependencies))
+      ];
+      missing.forEach(addDefinition);
+    } while (missing.some(name => plugins.has(name) || deferred.has(name)));
+  }
+
+  // Depth-first topological sort that otherwise keeps the configured order
+  private sort(plugins: Map<string, Plugin>, deferred: Map<string, DeferredPlugin>): Plugin[] {
+    const ordered: Plugin[] = [];
+    const state: Map<string, VisitResult | 'visiting'> = new Map();
+
+    const visit = (plugin: Plugin, path: string[]): VisitResult => {
+      const current = state.get(plugin.name);
+      if (current === 'visiting') {
+        errorHandler.warn(`Circular plugin dependency: ${[...path, plugin.name].join(' -> ')}`);
+        return 'failed';
+      }
+      if (current) return current;
+
+      state.set(plugin.name, 'visiting');
+      let result: VisitResult = 'ready';
+
+      for (const name of plugin.dependencies || []) {
+        const dependency = plugins.get(name);
+        const dependencyResult = dependency
+          ? visit(dependency, [...path, plugin.name])
+          : (deferred.has(name) ? 'deferred' : 'failed');
+
+        if (dependencyResult === 'failed') {
+          errorHandler.warn(`Plugin "${plugin.name}" requires "${name}", which is not available. Skipping...`);
+          result = 'failed';
+          break;
+        }
+        if (dependencyResult === 'deferred') {
+          result = 'deferred';
+        }
+      }
+
+      state.set(plugin.name, result);
+      if (result === 'ready') {
+        ordered.push(plugin);
+      } else if (result === 'deferred') {
+        // Registered once the lazy plugins it depends on have loaded
+        deferred.set(plugin.name, {
+          name: plugin.name,
+          load: () => Promise.resolve(plugin),
+          options: { dependencies: plugin.dependencies, schema: plugin.schema },
+          immediate: true
+        });
+      }
+      return result;
+    };
+
+    plugins.forEach(plugin => visit(plugin, []));
+    return ordered;
+  }
+}
+
+export const pluginRegistry = new PluginRegistry();
+
+builtinPlugins.forEach(definition => pluginRegistry.define(definition));
@@ -48,6 +48,21 @@ export class SelectionManager implements Selection {
     }
   }
 
+  // Whether the selection moved since save(), e.g. because a command placed it
+  hasChanged(): boolean {
+    const selection = window.getSelection();
+    if (!this.savedRange || !selection || selection.rangeCount === 0) return false;
+
+    const range = selection.getRangeAt(0);
+    try {
+      return range.compareBoundaryPoints(Range.START_TO_START, this.savedRange) !== 0 ||
+        range.compareBoundaryPoints(Range.END_TO_END, this.savedRange) !== 0;
+    } catch {
+      // The saved range lies in a detached tree
+      return true;
+    }
+  }
+
   clear(): void {
     const selection = window.getSelection();
     if (selection) {
@@ -0,0 +1,797 @@
+import { DocumentJSON, DocNode, DocMark, DocAttrs, BlockDirection } from '../types';
+import { nodeSpecs, normalizeContent, sortMarks } from './model';
+
+/**
+ * A point in the document: a text block and an offset into its inline
+ * content, where text counts its characters and every other inline node
+ * counts one.
+ */
+export interface ModelPosition {
+  block: number;
+  offset: number;
+}
+
+export interface ModelRange {
+  from: ModelPosition;
+  to: ModelPosition;
+}
+
+/**
+ * A run of inline nodes that text is typed into: the content of a
+ * paragraph, heading or other inline container, or a run of inline nodes
+ * directly inside a container that also holds blocks. Empty containers of
+ * either kind are one empty text block.
+ */
+export interface TextBlock {
+  parent: DocNode;
+  // Path of `parent` from the document, as child indices
+  path: number[];
+  start: number;
+  end: number;
+}
+
+// Where an edit leaves the caret: inside an inline node, or in an empty container
+interface Anchor {
+  node: DocNode;
+  offset: number;
+}
+
+export type ListType = 'bullet_list' | 'ordered_list';
+
+// Blocks whose whole content is one text block
+const TEXTBLOCK_TYPES = ['paragraph', 'heading', 'code_block'];
+
+// Attributes that only make sense on one block type
+const TYPE_ATTRS = ['level', 'language'];
+
+// Marks that record review state rather than formatting
+const REVIEW_MARKS = ['insertion', 'deletion'];
+
+export function cloneDocument(doc: DocumentJSON): DocumentJSON {
+  return JSON.parse(JSON.stringify(doc));
+}
+
+export function isCollapsed(range: ModelRange): boolean {
+  return range.from.block === range.to.block && range.from.offset === range.to.offset;
+}
+
+export function comparePositions(a: ModelPosition, b: ModelPosition): number {
+  return a.block - b.block || a.offset - b.offset;
+}
+
+function isInline(node: DocNode): boolean {
+  return nodeSpecs[node.type]?.group === 'inline';
+}
+
+function inlineSize(node: DocNode): number {
+  return node.type === 'text' ? (node.text || '').length : 1;
+}
+
+function contentRule(node: DocNode) {
+  return node.type === 'doc' ? 'flow' : nodeSpecs[node.type]?.content;
+}
+
+// The text blocks of a document, in document order
+export function textBlocks(doc: DocumentJSON): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  const visit = (parent: DocNode, path: number[]): void => {
+    const rule = contentRule(parent);
+    const content = parent.content || [];
+    if (!rule) return;
+
+    if (rule === 'inline' || rule === 'text') {
+      blocks.push({ parent, path, start: 0, end: content.length });
+      return;
+    }
+    if (Array.isArray(rule)) {
+      content.forEach((child, index) => visit(child, [...path, index]));
+      return;
+    }
+    if (content.length === 0) {
+      blocks.push({ parent, path, start: 0, end: 0 });
+      return;
+    }
+
+    let i = 0;
+    while (i < content.length) {
+      if (isInline(content[i])) {
+        const start = i;
+        while (i < content.length && isInline(content[i])) i++;
+        blocks.push({ parent, path, start, end: i });
+      } else {
+        visit(content[i], [...path, i]);
+        i++;
+      }
+    }
+  };
+
+  visit(doc as DocNode, []);
+  return blocks;
+}
+
+export function blockLength(block: TextBlock): number {
+  const content = block.parent.content || [];
+  let length = 0;
+  for (let i = block.start; i < block.end; i++) {
+    length += inlineSize(content[i]);
+  }
+  return length;
+}
+
+export function nodeAt(doc: DocumentJSON, path: number[]): DocNode {
+  return path.reduce<DocNode>((node, index) => node.content![index], doc as DocNode);
+}
+
+// Index in the parent's content where `offset` falls, splitting text there
+function splitAt(block: TextBlock, offset: number): number {
+  const content = block.parent.content || (block.parent.content = []);
+  let position = 0;
+  for (let i = block.start; i < block.end; i++) {
+    if (offset <= position) return i;
+    const size = inlineSize(content[i]);
+    if (offset < position + size) {
+      const node = content[i];
+      const cut = offset - position;
+      content.splice(i, 1, { ...node, text: node.text!.slice(0, cut) }, { ...node, text: node.text!.slice(cut) });
+      block.end++;
+      return i + 1;
+    }
+    position += size;
+  }
+  return block.end;
+}
+
+// Calls `fn` on every inline node inside the range, splitting text at its ends
+function eachInline(doc: DocumentJSON, range: ModelRange, fn: (node: DocNode) => void): void {
+  const blocks = textBlocks(doc);
+  // From the end, so splitting never moves a block still to be visited
+  for (let index = range.to.block; index >= range.from.block; index--) {
+    const block = blocks[index];
+    const from = index === range.from.block ? range.from.offset : 0;
+    const to = index === range.to.block ? range.to.offset : blockLength(block);
+    if (from >= to) continue;
+
+    const end = splitAt(block, to);
+    const before = block.end;
+    const start = splitAt(block, from);
+    const shiftedEnd = end + (block.end - before);
+    block.parent.content!.slice(start, shiftedEnd).forEach(fn);
+  }
+}
+
+// The inline node the caret sits after, or before at the start of a block
+function inlineAtCaret(doc: DocumentJSON, position: ModelPosition): DocNode | null {
+  const block = textBlocks(doc)[position.block];
+  if (!block) return null;
+  const content = block.parent.content || [];
+  let offset = 0;
+  for (let i = block.start; i < block.end; i++) {
+    offset += inlineSize(content[i]);
+    if (offset >= position.offset) return content[i];
+  }
+  return null;
+}
+
+export function marksAt(doc: DocumentJSON, position: ModelPosition): DocMark[] {
+  const node = inlineAtCaret(doc, position);
+  return (node?.marks || []).filter(mark => !REVIEW_MARKS.includes(mark.type));
+}
+
+// ---------------------------------------------------------------------------
+// Marks
+
+// Whether all text in the range has the mark
+export function rangeHasMark(doc: DocumentJSON, range: ModelRange, type: string): boolean {
+  const copy = cloneDocument(doc);
+  let found = false;
+  let missing = false;
+  eachInline(copy, range, node => {
+    if (node.type !== 'text') return;
+    if (node.marks?.some(mark => mark.type === type)) {
+      found = true;
+    } else {
+      missing = true;
+    }
+  });
+  return found && !missing;
+}
+
+/**
+ * Adds `mark` to everything in the range, replacing marks of its type, or
+ * removes marks of `type` when `mark` is null.
+ */
+export function setMark(doc: DocumentJSON, range: ModelRange, type: string, mark: DocMark | null): void {
+  eachInline(doc, range, node => {
+    const marks = (node.marks || []).filter(other => other.type !== type);
+    if (mark) {
+      marks.push(mark);
+    }
+    if (marks.length > 0) {
+      node.marks = sortMarks(marks);
+    } else {
+      delete node.marks;
+    }
+  });
+  doc.content = normalizeContent(doc.content);
+}
+
+/**
+ * Inserts text at a position. Without `marks` it takes the marks of the text
+ * it joins, so typing continues the formatting around the caret.
+ */
+export function insertText(doc: DocumentJSON, position: ModelPosition, text: string, marks?: DocMark[]): ModelPosition {
+  const block = textBlocks(doc)[position.block];
+  if (!block || !text) return position;
+
+  const offset = Math.min(position.offset, blockLength(block));
+  const index = splitAt(block, offset);
+  const content = block.parent.content!;
+  const neighbour = [content[index - 1], content[index]]
+    .find((node, i) => node?.type === 'text' && (i === 0 ? index > block.start : index < block.end));
+  const node: DocNode = { type: 'text', text };
+  const nodeMarks = marks || neighbour?.marks;
+  if (nodeMarks && nodeMarks.length > 0) {
+    node.marks = sortMarks(nodeMarks);
+  }
+  content.splice(index, 0, node);
+  block.parent.content = normalizeContent(content);
+  return { block: position.block, offset: offset + text.length };
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+
+function convertContent(content: DocNode[], type: string): DocNode[] {
+  if (type === 'code_block') {
+    const text = content.map(node => {
+      if (node.type === 'text') return node.text || '';
+      return node.type === 'hard_break' ? '\n' : '';
+    }).join('');
+    return text ? [{ type: 'text', text }] : [];
+  }
+
+  // Code turns back into text with line breaks
+  const result: DocNode[] = [];
+  content.forEach(node => {
+    if (node.type !== 'text' || !(node.text || '').includes('\n') || node.marks) {
+      result.push(node);
+      return;
+    }
+    (node.text || '').split('\n').forEach((line, index) => {
+      if (index > 0) result.push({ type: 'hard_break' });
+      if (line) result.push({ type: 'text', text: line });
+    });
+  });
+  return result;
+}
+
+function withTypeAttrs(attrs: DocAttrs | undefined, typeAttrs: DocAttrs): DocAttrs | undefined {
+  const result: DocAttrs = {};
+  Object.entries(attrs || {}).forEach(([name, value]) => {
+    if (!TYPE_ATTRS.includes(name)) result[name] = value;
+  });
+  Object.assign(result, typeAttrs);
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function retype(node: DocNode, type: string, attrs: DocAttrs): void {
+  const from = node.type;
+  node.type = type;
+  const merged = withTypeAttrs(node.attrs, attrs);
+  if (merged) {
+    node.attrs = merged;
+  } else {
+    delete node.attrs;
+  }
+  if (from === 'code_block' || type === 'code_block') {
+    node.content = convertContent(node.content || [], type);
+  }
+}
+
+/**
+ * Turns the text blocks in the range into blocks of `type`. Inline content
+ * sitting directly in a container is wrapped in a new block instead.
+ */
+export function setBlockType(doc: DocumentJSON, range: ModelRange, type: string, attrs: DocAttrs = {}): void {
+  const blocks = textBlocks(doc);
+  for (let index = range.to.block; index >= range.from.block; index--) {
+    const block = blocks[index];
+    const parent = block.parent;
+    const content = parent.content || [];
+    const whole = block.start === 0 && block.end === content.length && block.path.length > 0;
+
+    if (TEXTBLOCK_TYPES.includes(parent.type) || (whole && ['blockquote', 'division'].includes(parent.type))) {
+      retype(parent, type, attrs);
+    } else if (contentRule(parent) === 'flow') {
+      const wrapped: DocNode = { type, content: convertContent(content.slice(block.start, block.end), type) };
+      if (Object.keys(attrs).length > 0) wrapped.attrs = { ...attrs };
+      parent.content = [...content.slice(0, block.start), wrapped, ...content.slice(block.end)];
+    }
+  }
+}
+
+/**
+ * The blocks that own the text blocks in the range, for block attributes
+ * such as alignment. Inline content at the top level is wrapped in a
+ * paragraph first.
+ */
+export function ownerBlocks(doc: DocumentJSON, range: ModelRange): DocNode[] {
+  const owners: DocNode[] = [];
+  const blocks = textBlocks(doc);
+  for (let index = range.to.block; index >= range.from.block; index--) {
+    const block = blocks[index];
+    let owner = block.parent;
+    if (block.path.length === 0) {
+      owner = { type: 'paragraph', content: doc.content.slice(block.start, block.end) };
+      doc.content.splice(block.start, block.end - block.start, owner);
+    }
+    if (!owners.includes(owner)) {
+      owners.unshift(owner);
+    }
+  }
+  return owners;
+}
+
+function setAttr(node: DocNode, name: string, value: DocAttrs[string] | undefined): void {
+  const attrs = { ...node.attrs };
+  if (value === undefined || value === null || value === '') {
+    delete attrs[name];
+  } else {
+    attrs[name] = value;
+  }
+  if (Object.keys(attrs).length > 0) {
+    node.attrs = attrs;
+  } else {
+    delete node.attrs;
+  }
+}
+
+export function setAlign(doc: DocumentJSON, range: ModelRange, align: string): void {
+  ownerBlocks(doc, range).forEach(node => setAttr(node, 'align', align));
+}
+
+// Changes the indent of the blocks by `delta` pixels, never below zero
+export function changeIndent(doc: DocumentJSON, range: ModelRange, delta: number): void {
+  ownerBlocks(doc, range).forEach(node => {
+    const current = typeof node.attrs?.indent === 'number' ? node.attrs.indent : 0;
+    const indent = Math.max(0, current + delta);
+    setAttr(node, 'indent', indent > 0 ? indent : undefined);
+  });
+}
+
+// With `toggle`, blocks that all have the direction go back to inheriting it
+export function setDirection(doc: DocumentJSON, range: ModelRange, dir: BlockDirection, toggle: boolean = false): void {
+  const owners = ownerBlocks(doc, range);
+  const remove = toggle && owners.every(node => node.attrs?.dir === dir);
+  owners.forEach(node => setAttr(node, 'dir', remove ? undefined : dir));
+}
+
+// ---------------------------------------------------------------------------
+// Lists
+
+interface ListItemRef {
+  listPath: number[];
+  index: number;
+}
+
+// The list item a text block is in, if any
+function listItemOf(doc: DocumentJSON, block: TextBlock): ListItemRef | null {
+  for (let depth = block.path.length; depth >= 2; depth--) {
+    const path = block.path.slice(0, depth);
+    const list = nodeAt(doc, path.slice(0, -1));
+    if (nodeAt(doc, path).type === 'list_item' && (list.type === 'bullet_list' || list.type === 'ordered_list')) {
+      return { listPath: path.slice(0, -1), index: path[path.length - 1] };
+    }
+  }
+  return null;
+}
+
+function comparePaths(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+export function isInList(doc: DocumentJSON, range: ModelRange, type: ListType): boolean {
+  const blocks = textBlocks(doc).slice(range.from.block, range.to.block + 1);
+  return blocks.length > 0 && blocks.every(block => {
+    const item = listItemOf(doc, block);
+    return !!item && nodeAt(doc, item.listPath).type === type;
+  });
+}
+
+// Inline runs of a lifted list item become paragraphs
+function liftItem(item: DocNode): DocNode[] {
+  const result: DocNode[] = [];
+  let run: DocNode[] = [];
+  const flush = () => {
+    if (run.length === 0) return;
+    const paragraph: DocNode = { type: 'paragraph', content: run };
+    ['align', 'dir'].forEach(name => {
+      if (item.attrs?.[name] !== undefined) setAttr(paragraph, name, item.attrs[name]);
+    });
+    result.push(paragraph);
+    run = [];
+  };
+  (item.content || []).forEach(child => {
+    if (isInline(child)) {
+      run.push(child);
+    } else {
+      flush();
+      result.push(child);
+    }
+  });
+  flush();
+  return result.length > 0 ? result : [{ type: 'paragraph', content: [] }];
+}
+
+function unwrapItem(doc: DocumentJSON, ref: ListItemRef): void {
+  const list = nodeAt(doc, ref.listPath);
+  const container = nodeAt(doc, ref.listPath.slice(0, -1));
+  const listIndex = ref.listPath[ref.listPath.length - 1];
+  const items = list.content || [];
+  const replacement: DocNode[] = [];
+
+  if (ref.index > 0) {
+    replacement.push({ ...list, content: items.slice(0, ref.index) });
+  }
+  replacement.push(...liftItem(items[ref.index]));
+  if (ref.index < items.length - 1) {
+    const rest: DocNode = { ...list, content: items.slice(ref.index + 1) };
+    if (list.type === 'ordered_list') {
+      const start = typeof list.attrs?.start === 'number' ? list.attrs.start : 1;
+      setAttr(rest, 'start', start + ref.index + 1);
+    }
+    replacement.push(rest);
+  }
+  container.content!.splice(listIndex, 1, ...replacement);
+}
+
+function retypeList(list: DocNode, type: ListType): void {
+  list.type = type;
+  setAttr(list, 'start', undefined);
+}
+
+// A list item holding what a text block's owner holds
+function toListItem(node: DocNode): DocNode {
+  if (node.type !== 'paragraph') {
+    return { type: 'list_item', content: [node] };
+  }
+  const item: DocNode = { type: 'list_item', content: node.content || [] };
+  ['align', 'dir'].forEach(name => {
+    if (node.attrs?.[name] !== undefined) setAttr(item, name, node.attrs[name]);
+  });
+  return item;
+}
+
+interface WrapTarget {
+  path: number[];
+  start: number;
+  end: number;
+  // Inline nodes directly in the container, rather than a block
+  inline: boolean;
+}
+
+/**
+ * Toggles a list of `type` over the text blocks in the range: blocks already
+ * in such a list leave it, lists of the other type change type, and other
+ * blocks are wrapped in a new list joined with lists of the same type next
+ * to it.
+ */
+export function toggleList(doc: DocumentJSON, range: ModelRange, type: ListType): void {
+  const blocks = textBlocks(doc).slice(range.from.block, range.to.block + 1);
+
+  if (isInList(doc, range, type)) {
+    const refs: ListItemRef[] = [];
+    blocks.forEach(block => {
+      const ref = listItemOf(doc, block)!;
+      if (!refs.some(other => comparePaths([...other.listPath, other.index], [...ref.listPath, ref.index]) === 0)) {
+        refs.push(ref);
+      }
+    });
+    refs
+      .sort((a, b) => comparePaths([...b.listPath, b.index], [...a.listPath, a.index]))
+      .forEach(ref => unwrapItem(doc, ref));
+    return;
+  }
+
+  const targets: WrapTarget[] = [];
+  blocks.forEach(block => {
+    const item = listItemOf(doc, block);
+    if (item) {
+      const list = nodeAt(doc, item.listPath);
+      if (list.type !== type) retypeList(list, type);
+      return;
+    }
+    if (TEXTBLOCK_TYPES.includes(block.parent.type) && block.path.length > 0) {
+      const index = block.path[block.path.length - 1];
+      targets.push({ path: block.path.slice(0, -1), start: index, end: index + 1, inline: false });
+    } else if (contentRule(block.parent) === 'flow') {
+      targets.push({ path: block.path, start: block.start, end: block.end, inline: true });
+    }
+  });
+
+  // Neighbouring targets in one container share a list
+  const groups: WrapTarget[][] = [];
+  targets.forEach(target => {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+    if (last && comparePaths(last.path, target.path) === 0 && last.end === target.start) {
+      group.push(target);
+    } else {
+      groups.push([target]);
+    }
+  });
+
+  groups.reverse().forEach(group => {
+    const container = nodeAt(doc, group[0].path);
+    const content = container.content!;
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const items = group.map(target => target.inline
+      ? { type: 'list_item', content: content.slice(target.start, target.end) }
+      : toListItem(content[target.start]));
+
+    let list: DocNode = { type, content: items };
+    let from = start;
+    let to = end;
+    const previous = content[start - 1];
+    const next = content[end];
+    if (previous?.type === type) {
+      list = { ...previous, content: [...(previous.content || []), ...items] };
+      from--;
+    }
+    if (next?.type === type) {
+      list = { ...list, content: [...(list.content || []), ...(next.content || [])] };
+      to++;
+    }
+    content.splice(from, to - from, list);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Replacing content
+
+function nearestCell(block: TextBlock, doc: DocumentJSON): string {
+  for (let depth = block.path.length; depth > 0; depth--) {
+    if (nodeAt(doc, block.path.slice(0, depth)).type === 'table_cell') {
+      return block.path.slice(0, depth).join(',');
+    }
+  }
+  return '';
+}
+
+/**
+ * Deletes the range and joins the text blocks at its ends. A range running
+ * out of a table cell is cut at the end of the cell so the table keeps its
+ * shape.
+ */
+export function deleteRange(doc: DocumentJSON, range: ModelRange): ModelPosition {
+  const blocks = textBlocks(doc);
+  const from = range.from;
+  let to = range.to;
+  if (isCollapsed(range)) return from;
+
+  const cell = nearestCell(blocks[from.block], doc);
+  if (nearestCell(blocks[to.block], doc) !== cell) {
+    let last = from.block;
+    for (let index = from.block + 1; index < to.block; index++) {
+      if (nearestCell(blocks[index], doc) === cell) last = index;
+    }
+    to = { block: last, offset: blockLength(blocks[last]) };
+  }
+
+  const first = blocks[from.block];
+  if (from.block === to.block) {
+    const end = splitAt(first, to.offset);
+    const before = first.end;
+    const start = splitAt(first, from.offset);
+    first.parent.content!.splice(start, end + (first.end - before) - start);
+    doc.content = normalizeContent(doc.content);
+    return from;
+  }
+
+  // Cut the tail off the last block, then everything after the caret up to it
+  const last = blocks[to.block];
+  const tailStart = splitAt(last, to.offset);
+  const tail = last.parent.content!.splice(last.start, last.end - last.start).slice(tailStart - last.start);
+  const cut = splitAt(first, from.offset);
+  first.parent.content!.splice(cut, first.end - cut);
+
+  removeBetween(doc, { path: first.path, index: cut }, { path: last.path, index: last.start });
+  first.parent.content!.splice(cut, 0, ...tail);
+  doc.content = normalizeContent(doc.content);
+  return from;
+}
+
+interface Point {
+  path: number[];
+  index: number;
+}
+
+// Removes everything between two points, then containers the end point left empty
+function removeBetween(doc: DocumentJSON, from: Point, to: Point): void {
+  let common = 0;
+  while (common < from.path.length && common < to.path.length && from.path[common] === to.path[common]) {
+    common++;
+  }
+  const ancestor = nodeAt(doc, from.path.slice(0, common));
+
+  if (common === from.path.length && common === to.path.length) {
+    ancestor.content!.splice(from.index, to.index - from.index);
+    return;
+  }
+
+  // Everything before the end point, inside its branch
+  for (let depth = to.path.length; depth > common; depth--) {
+    const container = nodeAt(doc, to.path.slice(0, depth));
+    const cut = depth === to.path.length ? to.index : to.path[depth];
+    container.content!.splice(0, cut);
+  }
+  // Everything after the start point, inside its branch
+  for (let depth = from.path.length; depth > common; depth--) {
+    const container = nodeAt(doc, from.path.slice(0, depth));
+    const cut = depth === from.path.length ? from.index : from.path[depth] + 1;
+    container.content!.splice(cut);
+  }
+
+  const start = common === from.path.length ? from.index : from.path[common] + 1;
+  const end = common === to.path.length ? to.index : to.path[common];
+  ancestor.content!.splice(start, end - start);
+
+  // The end point's branch now starts right after the start point's
+  if (common < to.path.length) {
+    const branch = [...from.path.slice(0, common), start, ...to.path.slice(common + 1).map(() => 0)];
+    for (let depth = branch.length; depth > common; depth--) {
+      const path = branch.slice(0, depth);
+      const node = nodeAt(doc, path);
+      if ((node.content || []).length > 0) break;
+      nodeAt(doc, path.slice(0, -1)).content!.splice(path[path.length - 1], 1);
+    }
+  }
+}
+
+function inlineOf(node: DocNode): DocNode[] {
+  if (node.type === 'code_block') return convertContent(node.content || [], 'paragraph');
+  if (isInline(node)) return [node];
+  const content = node.content || [];
+  if (content.every(isInline)) return content;
+  // Blocks in a block are flattened onto lines
+  return content.flatMap((child, index) => [
+    ...(index > 0 ? [{ type: 'hard_break' }] : []),
+    ...inlineOf(child)
+  ]);
+}
+
+function flatten(nodes: DocNode[]): DocNode[] {
+  const result: DocNode[] = [];
+  nodes.forEach((node, index) => {
+    if (index > 0 && !isInline(node)) result.push({ type: 'hard_break' });
+    result.push(...inlineOf(node));
+  });
+  return result;
+}
+
+function emptyParagraph(): DocNode {
+  // A line break keeps an empty paragraph tall enough to hold the caret
+  return { type: 'paragraph', content: [{ type: 'hard_break' }] };
+}
+
+// Inserts nodes at a position; returns where the inserted content ends
+function insertAt(doc: DocumentJSON, position: ModelPosition, nodes: DocNode[]): Anchor {
+  const block = textBlocks(doc)[position.block];
+  const parent = block.parent;
+  const rule = contentRule(parent);
+
+  let inserted = nodes;
+  if (rule === 'text') {
+    inserted = convertContent(flatten(nodes), 'code_block');
+  } else if ((rule === 'inline' && !TEXTBLOCK_TYPES.includes(parent.type)) || nodes.every(isInline)) {
+    inserted = flatten(nodes);
+  }
+
+  const index = splitAt(block, position.offset);
+  const content = parent.content!;
+
+  if (inserted.every(isInline)) {
+    content.splice(index, 0, ...inserted);
+    const last = inserted[inserted.length - 1];
+    return last ? { node: last, offset: inlineSize(last) } : { node: content[index] || parent, offset: 0 };
+  }
+
+  const before = content.slice(block.start, index);
+  const after = content.slice(index, block.end);
+  const blocks = [...inserted];
+
+  // Paragraphs at the edges join the text around the caret
+  let leading: DocNode[] = [];
+  let trailing: DocNode[] = [];
+  if (blocks[0]?.type === 'paragraph' && before.length > 0) {
+    leading = blocks.shift()!.content || [];
+  }
+  if (blocks.length > 0 && blocks[blocks.length - 1].type === 'paragraph' && after.length > 0) {
+    trailing = blocks.pop()!.content || [];
+  }
+
+  let anchor: Anchor;
+  const lastBlock = blocks[blocks.length - 1];
+  const lastInline = (lastBlock?.content || []).filter(isInline);
+
+  if (TEXTBLOCK_TYPES.includes(parent.type) && block.path.length > 0) {
+    const grandparent = nodeAt(doc, block.path.slice(0, -1));
+    const head: DocNode = { ...parent, content: [...before, ...leading] };
+    const tail: DocNode = { ...parent, content: [...trailing, ...after] };
+    if ((tail.content || []).length === 0 && !(lastBlock && TEXTBLOCK_TYPES.includes(lastBlock.type))) {
+      tail.type = 'paragraph';
+      delete tail.attrs;
+      tail.content = emptyParagraph().content;
+    }
+    const replacement = [
+      ...((head.content || []).length > 0 ? [head] : []),
+      ...blocks,
+      ...((tail.content || []).length > 0 ? [tail] : [])
+    ];
+    grandparent.content!.splice(block.path[block.path.length - 1], 1, ...replacement);
+
+    if (trailing.length > 0) {
+      anchor = { node: trailing[trailing.length - 1], offset: inlineSize(trailing[trailing.length - 1]) };
+    } else if (lastInline.length > 0) {
+      anchor = { node: lastInline[lastInline.length - 1], offset: inlineSize(lastInline[lastInline.length - 1]) };
+    } else {
+      const first = tail.content![0];
+      anchor = first ? { node: first, offset: 0 } : { node: tail, offset: 0 };
+    }
+  } else {
+    content.splice(block.start, block.end - block.start, ...before, ...leading, ...blocks, ...trailing, ...after);
+    if (trailing.length > 0) {
+      anchor = { node: trailing[trailing.length - 1], offset: inlineSize(trailing[trailing.length - 1]) };
+    } else if (lastInline.length > 0) {
+      anchor = { node: lastInline[lastInline.length - 1], offset: inlineSize(lastInline[lastInline.length - 1]) };
+    } else if (after.length > 0) {
+      anchor = { node: after[0], offset: 0 };
+    } else {
+      const paragraph = emptyParagraph();
+      content.splice(block.start + before.length + leading.length + blocks.length, 0, paragraph);
+      anchor = { node: paragraph.content![0], offset: 0 };
+    }
+  }
+
+  return anchor;
+}
+
+// Where an anchor ended up once the edit is complete
+function resolveAnchor(doc: DocumentJSON, anchor: Anchor): ModelPosition {
+  const blocks = textBlocks(doc);
+  for (let index = 0; index < blocks.length; index++) {
+    const block = blocks[index];
+    const content = block.parent.content || [];
+    let offset = 0;
+    for (let i = block.start; i < block.end; i++) {
+      if (content[i] === anchor.node) {
+        return { block: index, offset: offset + anchor.offset };
+      }
+      offset += inlineSize(content[i]);
+    }
+    if (block.parent === anchor.node) {
+      return { block: index, offset: 0 };
+    }
+  }
+  return { block: Math.max(0, blocks.length - 1), offset: 0 };
+}
+
+/**
+ * Replaces the range with `nodes`. Inline nodes go in at the caret; blocks
+ * split the text block around it. Returns the position after the inserted
+ * content.
+ */
+export function replaceRange(doc: DocumentJSON, range: ModelRange, nodes: DocNode[]): ModelPosition {
+  const position = deleteRange(doc, range);
+  if (nodes.length === 0) return position;
+
+  // Resolved before text merges while normalizing and the anchor node is gone
+  const resolved = resolveAnchor(doc, insertAt(doc, position, nodes));
+  doc.content = normalizeContent(doc.content);
+  return resolved;
+}
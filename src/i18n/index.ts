@@ -0,0 +1,103 @@
+import { I18n, LocaleBundles, Message, MessageParams, Messages } from '../types';
+import { en } from './locales/en';
+import { de } from './locales/de';
+import { ja } from './locales/ja';
+import { ar } from './locales/ar';
+
+export const DEFAULT_LOCALE = 'en';
+
+export const coreMessages: LocaleBundles = { en, de, ja, ar };
+
+export type MissingMessageHandler = (key: string, locale: string) => void;
+
+/**
+ * Looks up UI messages for the current locale, falling back from a regional
+ * locale to its language ("de-AT" -> "de") and then to English. Messages from
+ * the editor configuration take precedence over those registered by the core
+ * and plugins, so apps can override any built-in string. Keys missing from
+ * every locale are returned as-is and reported to `onMissing`.
+ */
+export class I18nImpl implements I18n {
+  private locale: string;
+  private defaults: Map<string, Messages> = new Map();
+  private overrides: Map<string, Messages> = new Map();
+  private pluralRules: Map<string, Intl.PluralRules> = new Map();
+  private onMissing?: MissingMessageHandler;
+
+  constructor(locale: string = DEFAULT_LOCALE, overrides?: LocaleBundles, onMissing?: MissingMessageHandler) {
+    this.locale = locale;
+    this.onMissing = onMissing;
+    this.merge(this.defaults, coreMessages);
+    if (overrides) {
+      this.merge(this.overrides, overrides);
+    }
+  }
+
+  register(bundles: LocaleBundles): void {
+    this.merge(this.defaults, bundles);
+  }
+
+  setLocale(locale: string): void {
+    this.locale = locale;
+  }
+
+  getLocale(): string {
+    return this.locale;
+  }
+
+  t(key: string, params: MessageParams = {}): string {
+    for (const locale of this.getFallbackChain()) {
+      const message = this.overrides.get(locale)?.[key] ?? this.defaults.get(locale)?.[key];
+      if (message !== undefined) {
+        return this.format(message, params, locale);
+      }
+    }
+
+    this.onMissing?.(key, this.locale);
+    return key;
+  }
+
+  private format(message: Message, params: MessageParams, locale: string): string {
+    let text: string;
+    if (typeof message === 'string') {
+      text = message;
+    } else {
+      const count = Number(params.count ?? 0);
+      const category = this.getPluralRules(locale).select(count) as keyof typeof message;
+      text = message[category] ?? message.other;
+    }
+
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? value.toLocaleString(locale) : value;
+    });
+  }
+
+  private getPluralRules(locale: string): Intl.PluralRules {
+    let rules = this.pluralRules.get(locale);
+    if (!rules) {
+      rules = new Intl.PluralRules(locale);
+      this.pluralRules.set(locale, rules);
+    }
+    return rules;
+  }
+
+  private getFallbackChain(): string[] {
+    const chain = [this.locale];
+    const language = this.locale.split('-')[0];
+    if (language !== this.locale) {
+      chain.push(language);
+    }
+    if (!chain.includes(DEFAULT_LOCALE)) {
+      chain.push(DEFAULT_LOCALE);
+    }
+    return chain;
+  }
+
+  private merge(target: Map<string, Messages>, bundles: LocaleBundles): void {
+    Object.entries(bundles).forEach(([locale, messages]) => {
+      target.set(locale, { ...target.get(locale), ...messages });
+    });
+  }
+}
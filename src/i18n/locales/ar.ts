@@ -0,0 +1,109 @@
+import { Messages } from '../../types';
+
+export const ar: Messages = {
+  'common.cancel': 'إلغاء',
+  'common.insert': 'إدراج',
+  'common.update': 'تحديث',
+  'common.close': 'إغلاق',
+
+  'toolbar.label': 'شريط أدوات المحرر',
+  'toolbar.bold': 'عريض (Ctrl+B)',
+  'toolbar.italic': 'مائل (Ctrl+I)',
+  'toolbar.underline': 'تسطير (Ctrl+U)',
+  'toolbar.strikethrough': 'يتوسطه خط',
+  'toolbar.heading': 'عنوان',
+  'toolbar.headingLevel': 'عنوان {level}',
+  'toolbar.paragraph': 'فقرة',
+  'toolbar.orderedList': 'قائمة مرقمة',
+  'toolbar.unorderedList': 'قائمة نقطية',
+  'toolbar.link': 'إدراج رابط',
+  'toolbar.linkPrompt': 'أدخل عنوان URL:',
+  'toolbar.image': 'إدراج صورة',
+  'toolbar.code': 'كتلة برمجية',
+  'toolbar.blockquote': 'اقتباس',
+  'toolbar.fontFamily': 'نوع الخط',
+  'toolbar.fontFamilyText': 'الخط',
+  'toolbar.fontSize': 'حجم الخط',
+  'toolbar.textColor': 'لون النص',
+  'toolbar.backgroundColor': 'لون الخلفية',
+  'toolbar.undo': 'تراجع (Ctrl+Z)',
+  'toolbar.redo': 'إعادة (Ctrl+Y)',
+  'toolbar.alignLeft': 'محاذاة لليسار',
+  'toolbar.alignCenter': 'توسيط',
+  'toolbar.alignRight': 'محاذاة لليمين',
+  'toolbar.alignJustify': 'ضبط',
+  'toolbar.indent': 'زيادة المسافة البادئة',
+  'toolbar.outdent': 'إنقاص المسافة البادئة',
+  'toolbar.directionLTR': 'نص من اليسار إلى اليمين',
+  'toolbar.directionRTL': 'نص من اليمين إلى اليسار',
+  'toolbar.horizontalRule': 'إدراج خط أفقي',
+  'toolbar.fullscreen': 'ملء الشاشة',
+  'toolbar.print': 'طباعة',
+  'toolbar.exportDocx': 'تصدير إلى Word',
+  'toolbar.sourceCode': 'شيفرة HTML المصدرية',
+  'toolbar.table': 'إدراج جدول',
+  'toolbar.findReplace': 'بحث واستبدال (Ctrl+F)',
+  'toolbar.video': 'إدراج فيديو',
+  'toolbar.checklist': 'قائمة مهام',
+  'toolbar.statistics': 'إحصائيات المستند',
+  'toolbar.markdown': 'استيراد/تصدير Markdown',
+  'toolbar.markdownExport': 'تصدير بصيغة Markdown',
+  'toolbar.markdownImport': 'استيراد من Markdown',
+  'toolbar.markdownMode': 'وضع تحرير Markdown',
+  'toolbar.emoji': 'إدراج رمز تعبيري',
+  'toolbar.specialChars': 'إدراج رمز خاص',
+  'toolbar.fileManager': 'مدير الملفات',
+  'toolbar.formElements': 'إدراج عنصر نموذج',
+  'toolbar.settings': 'الإعدادات',
+
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.bold': 'عريض',
+  'shortcuts.italic': 'مائل',
+  'shortcuts.underline': 'تسطير',
+  'shortcuts.bulletList': 'قائمة نقطية',
+  'shortcuts.numberedList': 'قائمة مرقمة',
+  'shortcuts.heading1': 'عنوان 1',
+  'shortcuts.heading2': 'عنوان 2',
+  'shortcuts.heading3': 'عنوان 3',
+  'shortcuts.normalText': 'نص عادي',
+  'shortcuts.insertLink': 'إدراج رابط',
+  'shortcuts.alignLeft': 'محاذاة لليسار',
+  'shortcuts.alignCenter': 'توسيط',
+  'shortcuts.alignRight': 'محاذاة لليمين',
+  'shortcuts.justify': 'ضبط',
+  'shortcuts.indent': 'زيادة المسافة البادئة',
+  'shortcuts.outdent': 'إنقاص المسافة البادئة',
+  'shortcuts.quote': 'اقتباس',
+  'shortcuts.clearFormatting': 'مسح التنسيق',
+  'shortcuts.save': 'حفظ',
+  'shortcuts.selectAll': 'تحديد الكل',
+  'shortcuts.toggleFullscreen': 'تبديل ملء الشاشة',
+  'shortcuts.toggleSource': 'تبديل شيفرة HTML',
+  'shortcuts.print': 'طباعة',
+  'shortcuts.insertTable': 'إدراج جدول',
+
+  'print.popupBlocked': 'يُرجى السماح بالنوافذ المنبثقة لطباعة المحتوى.',
+
+  'recovery.title': 'المسودات المستعادة',
+  'recovery.draft': 'مسودة من {date} ({words})',
+  'recovery.damaged': 'تالفة',
+  'recovery.corrupted': 'لا تطابق هذه المسودة المجموع الاختباري المحفوظ معها وقد تكون ناقصة. راجعها قبل استعادتها.',
+  'recovery.changes': 'التغييرات',
+  'recovery.preview': 'معاينة',
+  'recovery.summary': 'مقارنة بالمحتوى الحالي: {added} مضاف، {removed} محذوف، {modified} معدّل',
+  'recovery.noChanges': 'نص المسودة مطابق للمحتوى الحالي.',
+  'recovery.restore': 'استعادة',
+  'recovery.restoreTitle': 'استبدال المحتوى الحالي بهذه المسودة',
+  'recovery.merge': 'دمج',
+  'recovery.mergeTitle': 'الإبقاء على المحتوى الحالي وإضافة ما غيّرته هذه المسودة',
+  'recovery.discard': 'تجاهل',
+  'recovery.discardTitle': 'حذف هذه المسودة',
+  'recovery.words': {
+    zero: 'لا كلمات',
+    one: 'كلمة واحدة',
+    two: 'كلمتان',
+    few: '{count} كلمات',
+    many: '{count} كلمة',
+    other: '{count} كلمة'
+  }
+};
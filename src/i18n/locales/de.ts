@@ -0,0 +1,102 @@
+import { Messages } from '../../types';
+
+export const de: Messages = {
+  'common.cancel': 'Abbrechen',
+  'common.insert': 'Einfügen',
+  'common.update': 'Aktualisieren',
+  'common.close': 'Schließen',
+
+  'toolbar.label': 'Editor-Werkzeugleiste',
+  'toolbar.bold': 'Fett (Strg+B)',
+  'toolbar.italic': 'Kursiv (Strg+I)',
+  'toolbar.underline': 'Unterstrichen (Strg+U)',
+  'toolbar.strikethrough': 'Durchgestrichen',
+  'toolbar.heading': 'Überschrift',
+  'toolbar.headingLevel': 'Überschrift {level}',
+  'toolbar.paragraph': 'Absatz',
+  'toolbar.orderedList': 'Nummerierte Liste',
+  'toolbar.unorderedList': 'Aufzählung',
+  'toolbar.link': 'Link einfügen',
+  'toolbar.linkPrompt': 'URL eingeben:',
+  'toolbar.image': 'Bild einfügen',
+  'toolbar.code': 'Codeblock',
+  'toolbar.blockquote': 'Zitat',
+  'toolbar.fontFamily': 'Schriftart',
+  'toolbar.fontFamilyText': 'Schrift',
+  'toolbar.fontSize': 'Schriftgröße',
+  'toolbar.textColor': 'Textfarbe',
+  'toolbar.backgroundColor': 'Hintergrundfarbe',
+  'toolbar.undo': 'Rückgängig (Strg+Z)',
+  'toolbar.redo': 'Wiederholen (Strg+Y)',
+  'toolbar.alignLeft': 'Linksbündig',
+  'toolbar.alignCenter': 'Zentriert',
+  'toolbar.alignRight': 'Rechtsbündig',
+  'toolbar.alignJustify': 'Blocksatz',
+  'toolbar.indent': 'Einzug vergrößern',
+  'toolbar.outdent': 'Einzug verkleinern',
+  'toolbar.directionLTR': 'Text von links nach rechts',
+  'toolbar.directionRTL': 'Text von rechts nach links',
+  'toolbar.horizontalRule': 'Horizontale Linie einfügen',
+  'toolbar.fullscreen': 'Vollbild',
+  'toolbar.print': 'Drucken',
+  'toolbar.exportDocx': 'Als Word-Dokument exportieren',
+  'toolbar.sourceCode': 'HTML-Quellcode',
+  'toolbar.table': 'Tabelle einfügen',
+  'toolbar.findReplace': 'Suchen & Ersetzen (Strg+F)',
+  'toolbar.video': 'Video einfügen',
+  'toolbar.checklist': 'Checkliste',
+  'toolbar.statistics': 'Dokumentstatistik',
+  'toolbar.markdown': 'Markdown importieren/exportieren',
+  'toolbar.markdownExport': 'Als Markdown exportieren',
+  'toolbar.markdownImport': 'Aus Markdown importieren',
+  'toolbar.markdownMode': 'Markdown-Bearbeitungsmodus',
+  'toolbar.emoji': 'Emoji einfügen',
+  'toolbar.specialChars': 'Sonderzeichen einfügen',
+  'toolbar.fileManager': 'Dateimanager',
+  'toolbar.formElements': 'Formularelement einfügen',
+  'toolbar.settings': 'Einstellungen',
+
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.bold': 'Fett',
+  'shortcuts.italic': 'Kursiv',
+  'shortcuts.underline': 'Unterstrichen',
+  'shortcuts.bulletList': 'Aufzählung',
+  'shortcuts.numberedList': 'Nummerierte Liste',
+  'shortcuts.heading1': 'Überschrift 1',
+  'shortcuts.heading2': 'Überschrift 2',
+  'shortcuts.heading3': 'Überschrift 3',
+  'shortcuts.normalText': 'Normaler Text',
+  'shortcuts.insertLink': 'Link einfügen',
+  'shortcuts.alignLeft': 'Linksbündig',
+  'shortcuts.alignCenter': 'Zentriert',
+  'shortcuts.alignRight': 'Rechtsbündig',
+  'shortcuts.justify': 'Blocksatz',
+  'shortcuts.indent': 'Einzug vergrößern',
+  'shortcuts.outdent': 'Einzug verkleinern',
+  'shortcuts.quote': 'Zitat',
+  'shortcuts.clearFormatting': 'Formatierung entfernen',
+  'shortcuts.save': 'Speichern',
+  'shortcuts.selectAll': 'Alles auswählen',
+  'shortcuts.toggleFullscreen': 'Vollbild umschalten',
+  'shortcuts.toggleSource': 'HTML-Quellcode umschalten',
+  'shortcuts.print': 'Drucken',
+  'shortcuts.insertTable': 'Tabelle einfügen',
+
+  'print.popupBlocked': 'Bitte erlauben Sie Pop-ups, um den Inhalt zu drucken.',
+
+  'recovery.title': 'Wiederhergestellte Entwürfe',
+  'recovery.draft': 'Entwurf vom {date} ({words})',
+  'recovery.damaged': 'Beschädigt',
+  'recovery.corrupted': 'Dieser Entwurf stimmt nicht mit seiner gespeicherten Prüfsumme überein und ist möglicherweise unvollständig. Prüfen Sie ihn vor dem Wiederherstellen.',
+  'recovery.changes': 'Änderungen',
+  'recovery.preview': 'Vorschau',
+  'recovery.summary': 'Im Vergleich zum aktuellen Inhalt: {added} hinzugefügt, {removed} entfernt, {modified} geändert',
+  'recovery.noChanges': 'Der Entwurf hat denselben Text wie der aktuelle Inhalt.',
+  'recovery.restore': 'Wiederherstellen',
+  'recovery.restoreTitle': 'Aktuellen Inhalt durch diesen Entwurf ersetzen',
+  'recovery.merge': 'Zusammenführen',
+  'recovery.mergeTitle': 'Aktuellen Inhalt behalten und die Änderungen dieses Entwurfs hinzufügen',
+  'recovery.discard': 'Verwerfen',
+  'recovery.discardTitle': 'Diesen Entwurf löschen',
+  'recovery.words': { one: '{count} Wort', other: '{count} Wörter' }
+};
@@ -0,0 +1,102 @@
+import { Messages } from '../../types';
+
+export const en: Messages = {
+  'common.cancel': 'Cancel',
+  'common.insert': 'Insert',
+  'common.update': 'Update',
+  'common.close': 'Close',
+
+  'toolbar.label': 'Editor toolbar',
+  'toolbar.bold': 'Bold (Ctrl+B)',
+  'toolbar.italic': 'Italic (Ctrl+I)',
+  'toolbar.underline': 'Underline (Ctrl+U)',
+  'toolbar.strikethrough': 'Strikethrough',
+  'toolbar.heading': 'Heading',
+  'toolbar.headingLevel': 'Heading {level}',
+  'toolbar.paragraph': 'Paragraph',
+  'toolbar.orderedList': 'Ordered List',
+  'toolbar.unorderedList': 'Unordered List',
+  'toolbar.link': 'Insert Link',
+  'toolbar.linkPrompt': 'Enter URL:',
+  'toolbar.image': 'Insert Image',
+  'toolbar.code': 'Code Block',
+  'toolbar.blockquote': 'Blockquote',
+  'toolbar.fontFamily': 'Font Family',
+  'toolbar.fontFamilyText': 'Font',
+  'toolbar.fontSize': 'Font Size',
+  'toolbar.textColor': 'Text Color',
+  'toolbar.backgroundColor': 'Background Color',
+  'toolbar.undo': 'Undo (Ctrl+Z)',
+  'toolbar.redo': 'Redo (Ctrl+Y)',
+  'toolbar.alignLeft': 'Align Left',
+  'toolbar.alignCenter': 'Align Center',
+  'toolbar.alignRight': 'Align Right',
+  'toolbar.alignJustify': 'Justify',
+  'toolbar.indent': 'Indent',
+  'toolbar.outdent': 'Outdent',
+  'toolbar.directionLTR': 'Left-to-right text',
+  'toolbar.directionRTL': 'Right-to-left text',
+  'toolbar.horizontalRule': 'Insert Horizontal Line',
+  'toolbar.fullscreen': 'Fullscreen',
+  'toolbar.print': 'Print',
+  'toolbar.exportDocx': 'Export to Word',
+  'toolbar.sourceCode': 'HTML Source Code',
+  'toolbar.table': 'Insert Table',
+  'toolbar.findReplace': 'Find & Replace (Ctrl+F)',
+  'toolbar.video': 'Insert Video',
+  'toolbar.checklist': 'Checklist',
+  'toolbar.statistics': 'Document Statistics',
+  'toolbar.markdown': 'Markdown Import/Export',
+  'toolbar.markdownExport': 'Export as Markdown',
+  'toolbar.markdownImport': 'Import from Markdown',
+  'toolbar.markdownMode': 'Markdown Editing Mode',
+  'toolbar.emoji': 'Insert Emoji',
+  'toolbar.specialChars': 'Insert Special Character',
+  'toolbar.fileManager': 'File Manager',
+  'toolbar.formElements': 'Insert Form Element',
+  'toolbar.settings': 'Settings',
+
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.bold': 'Bold',
+  'shortcuts.italic': 'Italic',
+  'shortcuts.underline': 'Underline',
+  'shortcuts.bulletList': 'Bullet List',
+  'shortcuts.numberedList': 'Numbered List',
+  'shortcuts.heading1': 'Heading 1',
+  'shortcuts.heading2': 'Heading 2',
+  'shortcuts.heading3': 'Heading 3',
+  'shortcuts.normalText': 'Normal Text',
+  'shortcuts.insertLink': 'Insert Link',
+  'shortcuts.alignLeft': 'Align Left',
+  'shortcuts.alignCenter': 'Align Center',
+  'shortcuts.alignRight': 'Align Right',
+  'shortcuts.justify': 'Justify',
+  'shortcuts.indent': 'Indent',
+  'shortcuts.outdent': 'Outdent',
+  'shortcuts.quote': 'Quote',
+  'shortcuts.clearFormatting': 'Clear Formatting',
+  'shortcuts.save': 'Save',
+  'shortcuts.selectAll': 'Select All',
+  'shortcuts.toggleFullscreen': 'Toggle Fullscreen',
+  'shortcuts.toggleSource': 'Toggle HTML Source',
+  'shortcuts.print': 'Print',
+  'shortcuts.insertTable': 'Insert Table',
+
+  'print.popupBlocked': 'Please allow pop-ups to print the content.',
+
+  'recovery.title': 'Recovered drafts',
+  'recovery.draft': 'Draft from {date} ({words})',
+  'recovery.damaged': 'Damaged',
+  'recovery.corrupted': 'This draft does not match the checksum saved with it and may be incomplete. Check it before restoring.',
+  'recovery.changes': 'Changes',
+  'recovery.preview': 'Preview',
+  'recovery.summary': 'Compared with the current content: {added} added, {removed} removed, {modified} changed',
+  'recovery.noChanges': 'The draft has the same text as the current content.',
+  'recovery.restore': 'Restore',
+  'recovery.restoreTitle': 'Replace the current content with this draft',
+  'recovery.merge': 'Merge',
+  'recovery.mergeTitle': 'Keep the current content and add what this draft changed',
+  'recovery.discard': 'Discard',
+  'recovery.discardTitle': 'Delete this draft',
+  'recovery.words': { one: '{count} word', other: '{count} words' }
+};
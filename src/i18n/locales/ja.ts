@@ -0,0 +1,102 @@
+import { Messages } from '../../types';
+
+export const ja: Messages = {
+  'common.cancel': 'キャンセル',
+  'common.insert': '挿入',
+  'common.update': '更新',
+  'common.close': '閉じる',
+
+  'toolbar.label': 'エディターツールバー',
+  'toolbar.bold': '太字 (Ctrl+B)',
+  'toolbar.italic': '斜体 (Ctrl+I)',
+  'toolbar.underline': '下線 (Ctrl+U)',
+  'toolbar.strikethrough': '取り消し線',
+  'toolbar.heading': '見出し',
+  'toolbar.headingLevel': '見出し {level}',
+  'toolbar.paragraph': '段落',
+  'toolbar.orderedList': '番号付きリスト',
+  'toolbar.unorderedList': '箇条書き',
+  'toolbar.link': 'リンクを挿入',
+  'toolbar.linkPrompt': 'URLを入力してください:',
+  'toolbar.image': '画像を挿入',
+  'toolbar.code': 'コードブロック',
+  'toolbar.blockquote': '引用',
+  'toolbar.fontFamily': 'フォント',
+  'toolbar.fontFamilyText': 'フォント',
+  'toolbar.fontSize': 'フォントサイズ',
+  'toolbar.textColor': '文字色',
+  'toolbar.backgroundColor': '背景色',
+  'toolbar.undo': '元に戻す (Ctrl+Z)',
+  'toolbar.redo': 'やり直し (Ctrl+Y)',
+  'toolbar.alignLeft': '左揃え',
+  'toolbar.alignCenter': '中央揃え',
+  'toolbar.alignRight': '右揃え',
+  'toolbar.alignJustify': '両端揃え',
+  'toolbar.indent': 'インデントを増やす',
+  'toolbar.outdent': 'インデントを減らす',
+  'toolbar.directionLTR': '左から右へのテキスト',
+  'toolbar.directionRTL': '右から左へのテキスト',
+  'toolbar.horizontalRule': '水平線を挿入',
+  'toolbar.fullscreen': '全画面表示',
+  'toolbar.print': '印刷',
+  'toolbar.exportDocx': 'Wordに書き出し',
+  'toolbar.sourceCode': 'HTMLソース',
+  'toolbar.table': '表を挿入',
+  'toolbar.findReplace': '検索と置換 (Ctrl+F)',
+  'toolbar.video': '動画を挿入',
+  'toolbar.checklist': 'チェックリスト',
+  'toolbar.statistics': '文書の統計',
+  'toolbar.markdown': 'Markdownのインポート/エクスポート',
+  'toolbar.markdownExport': 'Markdownとしてエクスポート',
+  'toolbar.markdownImport': 'Markdownからインポート',
+  'toolbar.markdownMode': 'Markdown編集モード',
+  'toolbar.emoji': '絵文字を挿入',
+  'toolbar.specialChars': '特殊文字を挿入',
+  'toolbar.fileManager': 'ファイルマネージャー',
+  'toolbar.formElements': 'フォーム要素を挿入',
+  'toolbar.settings': '設定',
+
+  'shortcuts.title': 'キーボードショートカット',
+  'shortcuts.bold': '太字',
+  'shortcuts.italic': '斜体',
+  'shortcuts.underline': '下線',
+  'shortcuts.bulletList': '箇条書き',
+  'shortcuts.numberedList': '番号付きリスト',
+  'shortcuts.heading1': '見出し 1',
+  'shortcuts.heading2': '見出し 2',
+  'shortcuts.heading3': '見出し 3',
+  'shortcuts.normalText': '標準テキスト',
+  'shortcuts.insertLink': 'リンクを挿入',
+  'shortcuts.alignLeft': '左揃え',
+  'shortcuts.alignCenter': '中央揃え',
+  'shortcuts.alignRight': '右揃え',
+  'shortcuts.justify': '両端揃え',
+  'shortcuts.indent': 'インデントを増やす',
+  'shortcuts.outdent': 'インデントを減らす',
+  'shortcuts.quote': '引用',
+  'shortcuts.clearFormatting': '書式をクリア',
+  'shortcuts.save': '保存',
+  'shortcuts.selectAll': 'すべて選択',
+  'shortcuts.toggleFullscreen': '全画面表示の切り替え',
+  'shortcuts.toggleSource': 'HTMLソースの切り替え',
+  'shortcuts.print': '印刷',
+  'shortcuts.insertTable': '表を挿入',
+
+  'print.popupBlocked': '印刷するにはポップアップを許可してください。',
+
+  'recovery.title': '復元された下書き',
+  'recovery.draft': '{date}の下書き（{words}）',
+  'recovery.damaged': '破損',
+  'recovery.corrupted': 'この下書きは保存時のチェックサムと一致せず、一部が失われている可能性があります。復元する前に内容を確認してください。',
+  'recovery.changes': '変更点',
+  'recovery.preview': 'プレビュー',
+  'recovery.summary': '現在の内容との比較: 追加 {added}、削除 {removed}、変更 {modified}',
+  'recovery.noChanges': '下書きの本文は現在の内容と同じです。',
+  'recovery.restore': '復元',
+  'recovery.restoreTitle': '現在の内容をこの下書きで置き換えます',
+  'recovery.merge': '統合',
+  'recovery.mergeTitle': '現在の内容を残したまま、この下書きの変更を加えます',
+  'recovery.discard': '破棄',
+  'recovery.discardTitle': 'この下書きを削除します',
+  'recovery.words': { other: '{count}語' }
+};
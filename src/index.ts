@@ -6,6 +6,11 @@ export default xEditor;
 export { xEditor, EditorConfig };
 
 export * from './types';
+export { pluginRegistry } from './core/plugin-registry';
+export { parseHTML, serializeHTML, validateDocument } from './core/model';
+export { InMemoryHub, BroadcastChannelTransport, WebSocketTransport } from './plugins/collaboration/transports';
+export { IndexedDBAutoSaveStorage, LocalStorageAutoSaveStorage, HttpAutoSaveStorage } from './utils/autosave-storage';
+export { IndexedDBVersionHistoryStorage, LocalStorageVersionHistory } from './plugins/version-history/storage';
 
 if (typeof window !== 'undefined') {
   (window as any).xEditor = xEditor;
@@ -1,31 +1,26 @@
-import { Plugin, Editor, AutoSaveConfig, AutoSaveStorage, AutoSaveStatus } from '../../types';
-
-// Default localStorage implementation
-class LocalStorageBackend implements AutoSaveStorage {
-  async save(key: string, content: string): Promise<void> {
-    try {
-      localStorage.setItem(key, content);
-    } catch (error) {
-      throw new Error(`Failed to save to localStorage: ${error}`);
-    }
-  }
-
-  async load(key: string): Promise<string | null> {
-    try {
-      return localStorage.getItem(key);
-    } catch (error) {
-      console.error('Failed to load from localStorage:', error);
-      return null;
-    }
-  }
-
-  async delete(key: string): Promise<void> {
-    try {
-      localStorage.removeItem(key);
-    } catch (error) {
-      throw new Error(`Failed to delete from localStorage: ${error}`);
-    }
-  }
+import {
+  Plugin,
+  Editor,
+  AutoSaveConfig,
+  AutoSaveDraft,
+  AutoSaveStorage,
+  AutoSaveStatus,
+  AutoSaveConflict,
+  RemoteAutoSaveStorage,
+  RemoteDocument
+} from '../../types';
+import { createAutoSaveStorage } from '../../utils/autosave-storage';
+import { errorHandler } from '../../utils/error-handler';
+import { isQuotaError } from '../../utils/indexeddb';
+import { DRAFT_FORMAT, countWords, generateChecksum } from '../../core/drafts';
+import { parseHTML } from '../../core/model';
+import { RecoveryPanel } from '../../ui/recovery-panel';
+import { mergeDocuments } from '../version-history/diff';
+import { messages } from './messages';
+
+// The comparison dialog of the version history plugin
+interface VersionComparison extends Plugin {
+  compareWith(content: string, description: string): void;
 }
 
 class AutoSavePluginImpl implements Plugin {
@@ -44,30 +39,47 @@ class AutoSavePluginImpl implements Plugin {
   private lastSaveTimeElement: HTMLElement | null = null;
   private storageKey: string = 'xeditor-autosave';
   private isDirty: boolean = false;
+  // Counts changes, so a save only marks the content clean if none came in while it ran
+  private changeCount = 0;
+  private remote: RemoteAutoSaveStorage | null;
+  // Server revision the content is based on
+  private revision: string | null = null;
+  private conflict: AutoSaveConflict | null = null;
+  private retryTimer: number | null = null;
+  private retryAttempt = 0;
+  private recoveryPanel: RecoveryPanel | null = null;
 
   constructor(config?: Partial<AutoSaveConfig>) {
     this.config = {
       enabled: true,
       interval: 30000, // 30 seconds
+      retryDelay: 2000,
+      maxRetryDelay: 60000,
       showStatus: true,
       showLastSaveTime: true,
       ...config
     };
     
-    this.storage = this.config.storageBackend || new LocalStorageBackend();
+    this.storage = this.config.storageBackend || createAutoSaveStorage();
+    this.remote = this.config.remoteStorage || null;
   }
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Set storage key based on editor container ID or generate one
     const containerId = typeof editor.config.container === 'string' 
       ? editor.config.container 
       : editor.container.id || 'default';
-    this.storageKey = `xeditor-autosave-${containerId}`;
+    this.storageKey = `xeditor-autosave-${this.config.documentId || containerId}`;
 
     // Load saved content on init
     this.loadContent();
+    if (this.remote) {
+      this.loadRevision();
+      window.addEventListener('online', this.handleOnline);
+    }
 
     // Start auto-save if enabled
     if (this.config.enabled) {
@@ -77,11 +89,12 @@ class AutoSavePluginImpl implements Plugin {
     // Track content changes
     editor.on('change', () => {
       this.isDirty = true;
+      this.changeCount++;
     });
 
     // Save on blur
     editor.on('blur', () => {
-      if (this.isDirty && this.config.enabled) {
+      if (this.isDirty && this.config.enabled && !this.retryTimer) {
         this.save();
       }
     });
@@ -95,6 +108,9 @@ class AutoSavePluginImpl implements Plugin {
 
   destroy(): void {
     this.stopAutoSave();
+    this.cancelRetry();
+    window.removeEventListener('online', this.handleOnline);
+    this.recoveryPanel?.destroy();
     if (this.statusElement) {
       this.statusElement.remove();
     }
@@ -103,6 +119,48 @@ class AutoSavePluginImpl implements Plugin {
     }
   }
 
+  /** The unresolved conflict with the server copy, if any. Saving waits for it. */
+  getConflict(): AutoSaveConflict | null {
+    return this.conflict;
+  }
+
+  /**
+   * Settles a conflict: 'mine' overwrites the server copy with the editor
+   * content, 'theirs' replaces the editor content with the server copy.
+   */
+  async resolveConflict(choice: 'mine' | 'theirs'): Promise<void> {
+    if (!this.editor || !this.conflict) return;
+
+    const { remote } = this.conflict;
+    this.conflict = null;
+    this.revision = remote.revision;
+
+    if (choice === 'mine') {
+      this.isDirty = true;
+      await this.save();
+    } else {
+      this.editor.setContent(remote.content);
+      this.isDirty = false;
+      this.updateStatus({ state: 'saved', lastSaveTime: new Date() });
+    }
+    this.editor.emit('autosave:resolved', { choice, remote });
+  }
+
+  /** Opens the version comparison between the server copy and the editor. */
+  compareConflict(): void {
+    const history = this.getVersionComparison();
+    if (!this.editor || !this.conflict || !history) return;
+
+    history.compareWith(this.conflict.remote.content, this.editor.t('autosave.serverVersion'));
+  }
+
+  private getVersionComparison(): VersionComparison | null {
+    const history = this.editor?.plugins.get('version-history');
+    return history && typeof (history as VersionComparison).compareWith === 'function'
+      ? history as VersionComparison
+      : null;
+  }
+
   private addToolbarItems(): void {
     if (!this.editor || !this.editor.toolbar) return;
 
@@ -110,7 +168,7 @@ class AutoSavePluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'save',
       icon: this.getSaveIcon(),
-      tooltip: 'Save (Ctrl+S)',
+      tooltip: this.editor.t('autosave.save'),
       onClick: () => this.save()
     });
 
@@ -118,7 +176,7 @@ class AutoSavePluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'autosave-toggle',
       icon: this.getAutoSaveIcon(),
-      tooltip: this.config.enabled ? 'Disable auto-save' : 'Enable auto-save',
+      tooltip: this.editor.t(this.config.enabled ? 'autosave.disable' : 'autosave.enable'),
       active: () => this.config.enabled,
       onClick: () => this.toggleAutoSave()
     });
@@ -169,62 +227,127 @@ class AutoSavePluginImpl implements Plugin {
     if (this.statusElement) {
       switch (status.state) {
         case 'saving':
-          this.statusElement.textContent = 'Saving...';
+          this.statusElement.textContent = this.editor!.t('autosave.saving');
           this.statusElement.style.background = 'rgba(33, 150, 243, 0.8)';
           this.statusElement.style.display = 'block';
           break;
         case 'saved':
-          this.statusElement.textContent = 'Saved';
+          this.statusElement.textContent = this.editor!.t('autosave.saved');
           this.statusElement.style.background = 'rgba(76, 175, 80, 0.8)';
           this.statusElement.style.display = 'block';
           setTimeout(() => {
-            if (this.statusElement) {
+            if (this.statusElement && this._status === status) {
               this.statusElement.style.display = 'none';
             }
           }, 2000);
           break;
         case 'error':
-          this.statusElement.textContent = `Error: ${status.error?.message || 'Unknown error'}`;
+          this.statusElement.textContent = this.editor!.t('autosave.error', {
+            message: status.error?.message || this.editor!.t('autosave.unknownError')
+          });
           this.statusElement.style.background = 'rgba(244, 67, 54, 0.8)';
           this.statusElement.style.display = 'block';
           break;
+        case 'offline': {
+          const seconds = status.nextRetry
+            ? Math.max(1, Math.round((status.nextRetry.getTime() - Date.now()) / 1000))
+            : 0;
+          this.statusElement.textContent = seconds
+            ? this.editor!.t('autosave.offlineRetrying', { count: seconds })
+            : this.editor!.t('autosave.offline');
+          this.statusElement.style.background = 'rgba(255, 152, 0, 0.8)';
+          this.statusElement.style.display = 'block';
+          break;
+        }
+        case 'conflict':
+          this.showConflictStatus();
+          break;
         default:
           this.statusElement.style.display = 'none';
       }
     }
 
     if (this.lastSaveTimeElement && status.lastSaveTime) {
-      this.lastSaveTimeElement.textContent = `Last saved: ${this.formatTime(status.lastSaveTime)}`;
+      this.lastSaveTimeElement.textContent = this.editor!.t('autosave.lastSaved', {
+        time: this.formatTime(status.lastSaveTime)
+      });
+    }
+  }
+
+  // The status area offers the ways out of a conflict
+  private showConflictStatus(): void {
+    if (!this.editor || !this.statusElement) return;
+    const editor = this.editor;
+
+    this.statusElement.textContent = '';
+    this.statusElement.style.background = 'rgba(244, 67, 54, 0.9)';
+    this.statusElement.style.display = 'block';
+
+    const message = document.createElement('span');
+    message.textContent = editor.t('autosave.conflict');
+    this.statusElement.appendChild(message);
+
+    const actions: Array<[string, () => void]> = [
+      [editor.t('autosave.keepMine'), () => this.resolveConflict('mine')],
+      [editor.t('autosave.takeTheirs'), () => this.resolveConflict('theirs')]
+    ];
+    if (this.getVersionComparison()) {
+      actions.push([editor.t('autosave.compare'), () => this.compareConflict()]);
     }
+
+    actions.forEach(([label, action]) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = label;
+      button.style.cssText = `
+        margin-left: 6px;
+        padding: 2px 8px;
+        border: 1px solid white;
+        border-radius: 3px;
+        background: transparent;
+        color: white;
+        font-size: 12px;
+        cursor: pointer;
+      `;
+      button.addEventListener('click', action);
+      this.statusElement!.appendChild(button);
+    });
   }
 
   private formatTime(date: Date): string {
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
+    const editor = this.editor!;
+    const diff = Date.now() - date.getTime();
     
     if (diff < 60000) { // Less than 1 minute
-      return 'just now';
+      return editor.t('autosave.justNow');
     } else if (diff < 3600000) { // Less than 1 hour
-      const minutes = Math.floor(diff / 60000);
-      return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
+      return editor.t('autosave.minutesAgo', { count: Math.floor(diff / 60000) });
     } else if (diff < 86400000) { // Less than 1 day
-      const hours = Math.floor(diff / 3600000);
-      return `${hours} hour${hours > 1 ? 's' : ''} ago`;
+      return editor.t('autosave.hoursAgo', { count: Math.floor(diff / 3600000) });
     } else {
-      return date.toLocaleString();
+      return date.toLocaleString(editor.i18n.getLocale());
     }
   }
 
   private async save(): Promise<void> {
-    if (!this.editor || !this.isDirty) return;
+    // Nothing is saved over the server copy until a conflict is settled
+    if (!this.editor || !this.isDirty || this.conflict) return;
 
     this.updateStatus({ state: 'saving' });
+    const content = this.editor.getContent({ format: 'html' });
+    const changeCount = this.changeCount;
 
     try {
-      const content = this.editor.getContent();
-      await this.storage.save(this.storageKey, content);
+      if (this.remote) {
+        const saved = await this.saveRemote(content);
+        if (!saved) return;
+      } else {
+        await this.saveLocal(content);
+      }
       
-      this.isDirty = false;
+      if (this.changeCount === changeCount) {
+        this.isDirty = false;
+      }
       this.updateStatus({
         state: 'saved',
         lastSaveTime: new Date()
@@ -232,37 +355,172 @@ class AutoSavePluginImpl implements Plugin {
       
       this.editor.emit('autosave', { content, timestamp: new Date() });
     } catch (error) {
+      if (this.remote && !isQuotaError(error)) {
+        this.queueRetry(content, error);
+        return;
+      }
+
+      const quotaExceeded = isQuotaError(error);
       this.updateStatus({
         state: 'error',
-        error: error instanceof Error ? error : new Error('Unknown error')
+        error: quotaExceeded
+          ? new Error('Storage is full')
+          : error instanceof Error ? error : new Error('Unknown error')
       });
       
+      if (quotaExceeded) {
+        this.editor.emit('autosave:quota-exceeded', { key: this.storageKey, error });
+      }
       this.editor.emit('autosave:error', error);
     }
   }
 
+  // Returns false when the server refused the save because of a conflict
+  private async saveRemote(content: string): Promise<boolean> {
+    const result = await this.remote!.save(this.storageKey, content, this.revision);
+
+    if (result.status === 'conflict') {
+      this.cancelRetry();
+      this.showConflict(content, result.remote);
+      return false;
+    }
+
+    this.revision = result.revision;
+    if (this.retryAttempt > 0) {
+      // The copy kept while offline has been delivered
+      this.cancelRetry();
+      await this.deleteLocal();
+    }
+    return true;
+  }
+
+  private showConflict(local: string, remote: RemoteDocument): void {
+    this.conflict = {
+      key: this.storageKey,
+      local,
+      remote,
+      baseRevision: this.revision
+    };
+
+    this.updateStatus({ state: 'conflict', conflict: this.conflict });
+    this.config.onConflict?.(this.conflict);
+    this.editor?.emit('autosave:conflict', this.conflict);
+  }
+
+  /**
+   * Keeps content the server could not be reached for: it is saved locally
+   * so it survives a reload, and sent again with exponential backoff or as
+   * soon as the browser is back online.
+   */
+  private queueRetry(content: string, error: unknown): void {
+    this.saveLocal(content).catch(() => {});
+
+    const delay = Math.min(this.config.retryDelay! * 2 ** this.retryAttempt, this.config.maxRetryDelay!);
+    const nextRetry = new Date(Date.now() + delay);
+    this.retryAttempt++;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.save();
+    }, delay);
+
+    this.updateStatus({
+      state: 'offline',
+      nextRetry,
+      error: error instanceof Error ? error : new Error('Unknown error')
+    });
+    this.editor?.emit('autosave:offline', { content, error, nextRetry });
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.retryAttempt = 0;
+  }
+
+  private handleOnline = (): void => {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+      this.save();
+    }
+  };
+
+  // The content is taken to match the server copy the page was loaded from
+  private async loadRevision(): Promise<void> {
+    try {
+      const remote = await this.remote!.load(this.storageKey);
+      this.revision = remote ? remote.revision : null;
+    } catch (error) {
+      errorHandler.handle(error as Error, 'Failed to load the server revision');
+    }
+  }
+
+  // Content saved here that the editor does not show is offered back
   private async loadContent(): Promise<void> {
     if (!this.editor) return;
 
     try {
       const content = await this.storage.load(this.storageKey);
-      if (content !== null && content !== this.editor.getContent()) {
-        const shouldLoad = confirm('Found auto-saved content. Do you want to restore it?');
-        if (shouldLoad) {
-          this.editor.setContent(content);
-          this.editor.emit('autosave:restore', { content });
-        }
-      }
+      if (content === null || content === this.editor.getContent({ format: 'html' })) return;
+
+      const savedAt = Number(await this.storage.load(`${this.storageKey}-saved`));
+      this.showRecoveryPanel({
+        id: this.storageKey,
+        timestamp: savedAt || Date.now(),
+        version: DRAFT_FORMAT,
+        wordCount: countWords(content),
+        checksum: generateChecksum(content),
+        content,
+        corrupted: false
+      });
     } catch (error) {
-      console.error('Failed to load auto-saved content:', error);
+      errorHandler.handle(error as Error, 'Failed to load auto-saved content');
     }
   }
 
+  private showRecoveryPanel(draft: AutoSaveDraft): void {
+    const editor = this.editor!;
+
+    this.recoveryPanel?.destroy();
+    this.recoveryPanel = new RecoveryPanel(editor, [draft], {
+      restore: () => {
+        editor.setContent(draft.content);
+        editor.emit('autosave:restore', { content: draft.content });
+      },
+      merge: () => {
+        editor.setJSON(mergeDocuments(editor.getJSON(), parseHTML(editor.sanitize(draft.content))));
+        editor.emit('autosave:restore', { content: editor.getContent({ format: 'html' }) });
+      },
+      discard: () => {
+        this.deleteLocal();
+      }
+    });
+    editor.wrapper.insertBefore(this.recoveryPanel.element, editor.contentElement);
+  }
+
+  // The time of the save is kept next to the content to show when it is offered back
+  private async saveLocal(content: string): Promise<void> {
+    await this.storage.save(this.storageKey, content);
+    await this.storage.save(`${this.storageKey}-saved`, String(Date.now()));
+  }
+
+  private async deleteLocal(): Promise<void> {
+    await this.storage.delete(this.storageKey).catch(() => {});
+    await this.storage.delete(`${this.storageKey}-saved`).catch(() => {});
+  }
+
   private startAutoSave(): void {
     if (this.autoSaveInterval) return;
 
     this.autoSaveInterval = window.setInterval(() => {
-      if (this.isDirty) {
+      // A failed save is already scheduled to be tried again
+      if (this.isDirty && !this.retryTimer) {
         this.save();
       }
     }, this.config.interval);
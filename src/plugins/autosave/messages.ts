@@ -0,0 +1,123 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'autosave.offline': 'Offline - saved locally',
+    'autosave.offlineRetrying': {
+      one: 'Offline - saved locally, retrying in {count} second',
+      other: 'Offline - saved locally, retrying in {count} seconds'
+    },
+    'autosave.conflict': 'Someone else saved this document. Keep your changes or take theirs?',
+    'autosave.keepMine': 'Keep mine',
+    'autosave.takeTheirs': 'Take theirs',
+    'autosave.compare': 'Compare',
+    'autosave.serverVersion': 'Server version',
+    'autosave.save': 'Save (Ctrl+S)',
+    'autosave.enable': 'Enable auto-save',
+    'autosave.disable': 'Disable auto-save',
+    'autosave.saving': 'Saving...',
+    'autosave.saved': 'Saved',
+    'autosave.error': 'Error: {message}',
+    'autosave.unknownError': 'Unknown error',
+    'autosave.lastSaved': 'Last saved: {time}',
+    'autosave.justNow': 'just now',
+    'autosave.minutesAgo': {
+      one: '{count} minute ago',
+      other: '{count} minutes ago'
+    },
+    'autosave.hoursAgo': {
+      one: '{count} hour ago',
+      other: '{count} hours ago'
+    }
+  },
+  de: {
+    'autosave.offline': 'Offline – lokal gespeichert',
+    'autosave.offlineRetrying': {
+      one: 'Offline – lokal gespeichert, neuer Versuch in {count} Sekunde',
+      other: 'Offline – lokal gespeichert, neuer Versuch in {count} Sekunden'
+    },
+    'autosave.conflict': 'Jemand anderes hat dieses Dokument gespeichert. Ihre Änderungen behalten oder die andere Fassung übernehmen?',
+    'autosave.keepMine': 'Meine behalten',
+    'autosave.takeTheirs': 'Andere übernehmen',
+    'autosave.compare': 'Vergleichen',
+    'autosave.serverVersion': 'Version auf dem Server',
+    'autosave.save': 'Speichern (Strg+S)',
+    'autosave.enable': 'Automatisches Speichern aktivieren',
+    'autosave.disable': 'Automatisches Speichern deaktivieren',
+    'autosave.saving': 'Wird gespeichert...',
+    'autosave.saved': 'Gespeichert',
+    'autosave.error': 'Fehler: {message}',
+    'autosave.unknownError': 'Unbekannter Fehler',
+    'autosave.lastSaved': 'Zuletzt gespeichert: {time}',
+    'autosave.justNow': 'gerade eben',
+    'autosave.minutesAgo': {
+      one: 'vor {count} Minute',
+      other: 'vor {count} Minuten'
+    },
+    'autosave.hoursAgo': {
+      one: 'vor {count} Stunde',
+      other: 'vor {count} Stunden'
+    }
+  },
+  ja: {
+    'autosave.offline': 'オフライン - ローカルに保存しました',
+    'autosave.offlineRetrying': { other: 'オフライン - ローカルに保存しました。{count} 秒後に再試行します' },
+    'autosave.conflict': '他のユーザーがこの文書を保存しました。自分の変更を残しますか、相手の変更を取り込みますか？',
+    'autosave.keepMine': '自分の変更を残す',
+    'autosave.takeTheirs': '相手の変更を取り込む',
+    'autosave.compare': '比較',
+    'autosave.serverVersion': 'サーバーのバージョン',
+    'autosave.save': '保存 (Ctrl+S)',
+    'autosave.enable': '自動保存を有効にする',
+    'autosave.disable': '自動保存を無効にする',
+    'autosave.saving': '保存中...',
+    'autosave.saved': '保存しました',
+    'autosave.error': 'エラー: {message}',
+    'autosave.unknownError': '不明なエラー',
+    'autosave.lastSaved': '最終保存: {time}',
+    'autosave.justNow': 'たった今',
+    'autosave.minutesAgo': { other: '{count} 分前' },
+    'autosave.hoursAgo': { other: '{count} 時間前' }
+  },
+  ar: {
+    'autosave.offline': 'غير متصل - حُفظ محليًا',
+    'autosave.offlineRetrying': {
+      zero: 'غير متصل - حُفظ محليًا، ستُعاد المحاولة الآن',
+      one: 'غير متصل - حُفظ محليًا، ستُعاد المحاولة بعد ثانية واحدة',
+      two: 'غير متصل - حُفظ محليًا، ستُعاد المحاولة بعد ثانيتين',
+      few: 'غير متصل - حُفظ محليًا، ستُعاد المحاولة بعد {count} ثوانٍ',
+      many: 'غير متصل - حُفظ محليًا، ستُعاد المحاولة بعد {count} ثانية',
+      other: 'غير متصل - حُفظ محليًا، ستُعاد المحاولة بعد {count} ثانية'
+    },
+    'autosave.conflict': 'حفظ شخص آخر هذا المستند. هل تريد الاحتفاظ بتغييراتك أم أخذ تغييراته؟',
+    'autosave.keepMine': 'الاحتفاظ بتغييراتي',
+    'autosave.takeTheirs': 'أخذ تغييراته',
+    'autosave.compare': 'مقارنة',
+    'autosave.serverVersion': 'الإصدار على الخادم',
+    'autosave.save': 'حفظ (Ctrl+S)',
+    'autosave.enable': 'تفعيل الحفظ التلقائي',
+    'autosave.disable': 'إيقاف الحفظ التلقائي',
+    'autosave.saving': 'جارٍ الحفظ...',
+    'autosave.saved': 'تم الحفظ',
+    'autosave.error': 'خطأ: {message}',
+    'autosave.unknownError': 'خطأ غير معروف',
+    'autosave.lastSaved': 'آخر حفظ: {time}',
+    'autosave.justNow': 'الآن',
+    'autosave.minutesAgo': {
+      zero: 'الآن',
+      one: 'منذ دقيقة واحدة',
+      two: 'منذ دقيقتين',
+      few: 'منذ {count} دقائق',
+      many: 'منذ {count} دقيقة',
+      other: 'منذ {count} دقيقة'
+    },
+    'autosave.hoursAgo': {
+      zero: 'الآن',
+      one: 'منذ ساعة واحدة',
+      two: 'منذ ساعتين',
+      few: 'منذ {count} ساعات',
+      many: 'منذ {count} ساعة',
+      other: 'منذ {count} ساعة'
+    }
+  }
+};
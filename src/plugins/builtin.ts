@@ -0,0 +1,220 @@
+import { PluginDefinition } from '../types';
+import { DEFAULT_IFRAME_HOSTS } from '../utils/sanitize';
+import { ImagePlugin } from './image';
+import { ListsPlugin } from './lists';
+import { LinkPlugin } from './link';
+import { ColorPlugin } from './color';
+import { FontPlugin } from './font';
+import { FullscreenPlugin } from './fullscreen';
+import { SourcePlugin } from './source';
+import { FindReplacePlugin } from './findreplace';
+import { VideoPlugin } from './video';
+import { ChecklistPlugin } from './checklist';
+import { ImageCaptionPlugin } from './imagecaption';
+import { StatisticsPlugin } from './statistics';
+import { ResizePlugin } from './resize';
+import { MarkdownPlugin } from './markdown';
+import { InlineToolbarPlugin } from './inline-toolbar';
+import { CharLimitPlugin } from './char-limit';
+import { FileManagerPlugin } from './file-manager';
+import { QuickInsertPlugin } from './quick-insert';
+import { FormElementsPlugin } from './form-elements';
+import { PrintPreviewPlugin } from './print-preview';
+import { AutoSavePlugin } from './autosave';
+import { VersionHistoryPlugin } from './version-history';
+import { CommentsPlugin } from './comments';
+import { TrackChangesPlugin } from './track-changes';
+import { CollaborationPlugin } from './collaboration';
+import { MobileOptimizationPlugin } from './mobile-optimization';
+import { SettingsPlugin } from './settings';
+import { IconsPlugin } from './icons';
+
+/**
+ * Plugins shipped with the editor, in their default load order. Plugins that
+ * need configuration are only part of the defaults when it is provided.
+ * Lazy plugins live in their own chunks and are imported on first use.
+ */
+export const builtinPlugins: PluginDefinition[] = [
+  {
+    name: 'image',
+    create: editor => new ImagePlugin(editor.config.image || {}),
+    schema: {
+      tags: ['img'],
+      attributes: { img: ['src', 'alt', 'title', 'width', 'height'] }
+    }
+  },
+  { name: 'lists', create: () => new ListsPlugin() },
+  { name: 'link', create: () => new LinkPlugin() },
+  { name: 'color', create: () => new ColorPlugin() },
+  { name: 'font', create: () => new FontPlugin() },
+  {
+    name: 'codeblock',
+    create: () => import(/* webpackChunkName: "plugin-codeblock" */ './codeblock').then(m => new m.CodeBlockPlugin()),
+    lazy: true,
+    commands: ['insertCodeBlock'],
+    selector: 'pre.xeditor-codeblock'
+  },
+  { name: 'fullscreen', create: () => new FullscreenPlugin() },
+  { name: 'source', create: () => new SourcePlugin() },
+  {
+    name: 'table',
+    create: () => import(/* webpackChunkName: "plugin-table" */ './table').then(m => new m.TablePlugin()),
+    lazy: true,
+    commands: [
+      'insertTable', 'addRowAbove', 'addRowBelow', 'addColumnLeft', 'addColumnRight',
+      'deleteRow', 'deleteColumn', 'deleteTable', 'mergeCells', 'splitCell',
+      'alignTable', 'setCellBackground', 'toggleHeaderRow', 'toggleHeaderColumn', 'toggleFooterRow',
+      'toggleTableCaption', 'sortTableColumn', 'setColumnWidth'
+    ],
+    selector: 'table',
+    schema: {
+      tags: ['table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td'],
+      attributes: {
+        col: ['span', 'width'],
+        th: ['colspan', 'rowspan', 'scope'],
+        td: ['colspan', 'rowspan']
+      }
+    }
+  },
+  { name: 'findreplace', create: () => new FindReplacePlugin() },
+  {
+    name: 'video',
+    create: () => new VideoPlugin(),
+    schema: {
+      tags: ['iframe', 'video'],
+      attributes: {
+        iframe: ['src', 'width', 'height', 'frameborder', 'allow', 'allowfullscreen'],
+        video: ['src', 'controls', 'width', 'height', 'poster']
+      },
+      iframeHosts: DEFAULT_IFRAME_HOSTS
+    }
+  },
+  {
+    name: 'checklist',
+    create: () => new ChecklistPlugin(),
+    schema: {
+      tags: ['input'],
+      attributes: { input: ['type', 'checked', 'contenteditable'], span: ['contenteditable'] }
+    }
+  },
+  {
+    name: 'imagecaption',
+    create: () => new ImageCaptionPlugin(),
+    dependencies: ['image'],
+    schema: { tags: ['figure', 'figcaption'] }
+  },
+  { name: 'statistics', create: () => new StatisticsPlugin() },
+  { name: 'resize', create: () => new ResizePlugin() },
+  {
+    name: 'markdown',
+    create: editor => new MarkdownPlugin(editor.config.markdown || {}),
+    schema: {
+      tags: ['img', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'input'],
+      attributes: {
+        img: ['src', 'alt', 'title'],
+        ol: ['start'],
+        th: ['scope'],
+        input: ['type', 'checked', 'disabled']
+      }
+    }
+  },
+  {
+    name: 'inline-toolbar',
+    create: editor => new InlineToolbarPlugin(editor.config.inlineToolbar || {}),
+    isDefault: config => config.inlineToolbar !== false
+  },
+  {
+    name: 'emoji',
+    create: () => import(/* webpackChunkName: "plugin-emoji" */ './emoji').then(m => new m.EmojiPlugin()),
+    lazy: true,
+    commands: ['insertEmoji']
+  },
+  {
+    name: 'special-chars',
+    create: () => import(/* webpackChunkName: "plugin-special-chars" */ './special-chars').then(m => new m.SpecialCharsPlugin()),
+    lazy: true,
+    commands: ['insertSpecialChar']
+  },
+  {
+    name: 'char-limit',
+    create: editor => new CharLimitPlugin(editor.config.charLimit || {}),
+    isDefault: config => !!config.charLimit
+  },
+  {
+    name: 'file-manager',
+    create: editor => {
+      if (!editor.config.fileManager) {
+        throw new Error('The file-manager plugin requires the fileManager option');
+      }
+      return new FileManagerPlugin(editor.config.fileManager);
+    },
+    isDefault: config => !!config.fileManager,
+    schema: {
+      tags: ['img', 'video'],
+      attributes: { a: ['download'], video: ['src', 'controls'] }
+    }
+  },
+  { name: 'quick-insert', create: editor => new QuickInsertPlugin(editor.config.quickInsert || {}) },
+  {
+    name: 'form-elements',
+    create: editor => new FormElementsPlugin(editor.config.formElements || {}),
+    schema: {
+      tags: ['input', 'select', 'option', 'textarea', 'label', 'button'],
+      attributes: {
+        input: [
+          'type', 'name', 'value', 'checked', 'placeholder', 'required',
+          'min', 'max', 'step', 'accept', 'multiple'
+        ],
+        select: ['name', 'multiple'],
+        option: ['value', 'selected'],
+        textarea: ['name', 'placeholder', 'rows', 'cols'],
+        label: ['for'],
+        button: ['type']
+      }
+    }
+  },
+  { name: 'print-preview', create: editor => new PrintPreviewPlugin(editor.config.printPreview || {}) },
+  {
+    name: 'docx',
+    create: () => import(/* webpackChunkName: "plugin-docx" */ './docx').then(m => new m.DocxPlugin()),
+    lazy: true,
+    commands: ['exportDocx']
+  },
+  {
+    name: 'autosave',
+    create: editor => new AutoSavePlugin(editor.config.autoSave),
+    isDefault: config => !!config.autoSave
+  },
+  {
+    name: 'version-history',
+    create: editor => new VersionHistoryPlugin(editor.config.versionHistory),
+    isDefault: config => !!config.versionHistory
+  },
+  {
+    name: 'comments',
+    create: editor => new CommentsPlugin(editor.config.comments),
+    isDefault: config => !!config.comments
+  },
+  {
+    name: 'trackChanges',
+    create: editor => new TrackChangesPlugin(editor.config.trackChanges),
+    isDefault: config => !!config.trackChanges,
+    schema: {
+      tags: ['ins', 'del'],
+      attributes: { ins: ['datetime', 'cite'], del: ['datetime', 'cite'] }
+    }
+  },
+  {
+    name: 'collaboration',
+    create: editor => {
+      if (!editor.config.collaboration) {
+        throw new Error('The collaboration plugin requires the collaboration option');
+      }
+      return new CollaborationPlugin(editor.config.collaboration);
+    },
+    isDefault: config => !!config.collaboration
+  },
+  { name: 'mobile-optimization', create: () => new MobileOptimizationPlugin() },
+  { name: 'settings', create: () => new SettingsPlugin() },
+  { name: 'icons', create: () => new IconsPlugin() }
+];
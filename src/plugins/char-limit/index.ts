@@ -103,7 +103,7 @@ export class CharLimitPlugin implements Plugin {
               this.trimToWordCount(pasteText, allowedCount) :
               this.trimToCharCount(pasteText, allowedCount);
             
-            document.execCommand('insertText', false, trimmedText);
+            this.editor.execCommand('insertText', trimmedText);
           }
           
           this.showLimitWarning();
@@ -161,7 +161,7 @@ export class CharLimitPlugin implements Plugin {
   }
 
   private getPlainText(): string {
-    const content = this.editor.getContent();
+    const content = this.editor.getContent({ format: 'html' });
     const div = document.createElement('div');
     div.innerHTML = content;
     return div.textContent || '';
@@ -1,24 +1,9 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement } from '../../utils/dom';
 import Prism from 'prismjs';
+import { isLanguageLoaded, loadLanguage } from './languages';
 
-// Import Prism theme and languages
 import 'prismjs/themes/prism-tomorrow.css';
-import 'prismjs/components/prism-javascript';
-import 'prismjs/components/prism-typescript';
-import 'prismjs/components/prism-css';
-import 'prismjs/components/prism-markup';
-import 'prismjs/components/prism-json';
-import 'prismjs/components/prism-python';
-import 'prismjs/components/prism-java';
-import 'prismjs/components/prism-csharp';
-import 'prismjs/components/prism-php';
-import 'prismjs/components/prism-ruby';
-import 'prismjs/components/prism-go';
-import 'prismjs/components/prism-rust';
-import 'prismjs/components/prism-sql';
-import 'prismjs/components/prism-bash';
-import 'prismjs/components/prism-yaml';
 
 interface CodeBlockOptions {
   languages?: { name: string; value: string }[];
@@ -131,13 +116,26 @@ export class CodeBlockPlugin implements Plugin {
     // Store the original text
     const text = codeElement.textContent || '';
     
-    // Apply syntax highlighting
-    if (language !== 'plaintext' && Prism.languages[language]) {
-      const highlighted = Prism.highlight(text, Prism.languages[language], language);
-      codeElement.innerHTML = highlighted;
-      codeElement.setAttribute('data-highlighted', 'true');
+    if (language === 'plaintext') return;
+
+    // Apply syntax highlighting, fetching the grammar first if needed
+    if (isLanguageLoaded(language)) {
+      this.applyHighlighting(codeElement, text, language);
+    } else {
+      loadLanguage(language).then(loaded => {
+        // The block may have been edited or removed while loading
+        if (loaded && codeElement.isConnected && codeElement.textContent === text) {
+          this.applyHighlighting(codeElement, text, language);
+        }
+      });
     }
   }
+
+  private applyHighlighting(codeElement: HTMLElement, text: string, language: string): void {
+    const highlighted = Prism.highlight(text, Prism.languages[language], language);
+    codeElement.innerHTML = highlighted;
+    codeElement.setAttribute('data-highlighted', 'true');
+  }
   
   private showCodeBlockDialog(): void {
     const dialog = this.createDialog();
@@ -312,7 +310,7 @@ export class CodeBlockPlugin implements Plugin {
         e.preventDefault();
         
         // Insert tab character
-        document.execCommand('insertText', false, '\t');
+        this.editor.execCommand('insertText', '\t');
       }
     }
   };
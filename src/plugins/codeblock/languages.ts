@@ -0,0 +1,55 @@
+import Prism from 'prismjs';
+import { errorHandler } from '../../utils/error-handler';
+
+type GrammarLoader = () => Promise<unknown>;
+
+// Prism's core already includes markup (html, xml), css, clike and
+// javascript. Other grammars are split into their own chunks and fetched the
+// first time a code block uses them.
+const loaders: Record<string, GrammarLoader> = {
+  typescript: () => import(/* webpackChunkName: "prism-typescript" */ 'prismjs/components/prism-typescript'),
+  json: () => import(/* webpackChunkName: "prism-json" */ 'prismjs/components/prism-json'),
+  python: () => import(/* webpackChunkName: "prism-python" */ 'prismjs/components/prism-python'),
+  java: () => import(/* webpackChunkName: "prism-java" */ 'prismjs/components/prism-java'),
+  csharp: () => import(/* webpackChunkName: "prism-csharp" */ 'prismjs/components/prism-csharp'),
+  cpp: () => import(/* webpackChunkName: "prism-c" */ 'prismjs/components/prism-c')
+    .then(() => import(/* webpackChunkName: "prism-cpp" */ 'prismjs/components/prism-cpp')),
+  php: () => import(/* webpackChunkName: "prism-markup-templating" */ 'prismjs/components/prism-markup-templating')
+    .then(() => import(/* webpackChunkName: "prism-php" */ 'prismjs/components/prism-php')),
+  ruby: () => import(/* webpackChunkName: "prism-ruby" */ 'prismjs/components/prism-ruby'),
+  go: () => import(/* webpackChunkName: "prism-go" */ 'prismjs/components/prism-go'),
+  rust: () => import(/* webpackChunkName: "prism-rust" */ 'prismjs/components/prism-rust'),
+  sql: () => import(/* webpackChunkName: "prism-sql" */ 'prismjs/components/prism-sql'),
+  bash: () => import(/* webpackChunkName: "prism-bash" */ 'prismjs/components/prism-bash'),
+  yaml: () => import(/* webpackChunkName: "prism-yaml" */ 'prismjs/components/prism-yaml')
+};
+
+const loading: Map<string, Promise<boolean>> = new Map();
+
+export function isLanguageLoaded(language: string): boolean {
+  return !!Prism.languages[language];
+}
+
+/**
+ * Makes sure the Prism grammar for `language` is available. Resolves to false
+ * for languages Prism doesn't know about or whose chunk failed to load.
+ */
+export function loadLanguage(language: string): Promise<boolean> {
+  if (isLanguageLoaded(language)) return Promise.resolve(true);
+
+  const loader = loaders[language];
+  if (!loader) return Promise.resolve(false);
+
+  let promise = loading.get(language);
+  if (!promise) {
+    promise = loader()
+      .then(() => isLanguageLoaded(language))
+      .catch(error => {
+        errorHandler.handle(error as Error, `Failed to load syntax highlighting for "${language}"`);
+        loading.delete(language);
+        return false;
+      });
+    loading.set(language, promise);
+  }
+  return promise;
+}
@@ -0,0 +1,940 @@
+import {
+  Plugin,
+  Editor,
+  CollaborationConfig,
+  CollaborationMessage,
+  CollaborationUser,
+  HistoryTransaction
+} from '../../types';
+import { createElement } from '../../utils/dom';
+import { throttle } from '../../utils/events';
+import { getAuthorColor } from '../../utils/author-colors';
+import { generateChecksum } from '../../core/drafts';
+
+export { InMemoryHub, BroadcastChannelTransport, WebSocketTransport } from './transports';
+
+/**
+ * The document is replicated as a sequence of top-level blocks, and each
+ * block's markup as a sequence of characters, both RGA sequence CRDTs.
+ * Concurrent edits merge character by character, so two people typing in
+ * the same paragraph both keep what they typed.
+ */
+interface CharEntry {
+  id: string;
+  // Character this one was inserted after (null = start of the block)
+  after: string | null;
+  clock: number;
+  client: string;
+  value: string;
+  deleted: boolean;
+}
+
+interface BlockEntry {
+  id: string;
+  // Block this one was inserted after (null = start of document)
+  after: string | null;
+  clock: number;
+  client: string;
+  chars: CharEntry[];
+  deleted: boolean;
+}
+
+type CharOp = Omit<CharEntry, 'deleted'>;
+
+type BlockOp =
+  | { type: 'insert'; id: string; after: string | null; clock: number; client: string; content: string }
+  | { type: 'text'; id: string; inserts: CharOp[]; deletes: string[] }
+  | { type: 'delete'; id: string };
+
+interface BlockPosition {
+  blockId: string;
+  offset: number;
+}
+
+interface RemoteSelection {
+  anchor: BlockPosition;
+  focus: BlockPosition;
+}
+
+interface Peer {
+  user: CollaborationUser;
+  color: string;
+  selection: RemoteSelection | null;
+  lastSeen: number;
+}
+
+// Author of blocks loaded as a whole document rather than typed by anyone
+const LOAD_CLIENT = 'load';
+
+const HEARTBEAT_INTERVAL = 15000;
+const PEER_TIMEOUT = 45000;
+
+// Payloads come from other clients, so their shape is checked before use
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isId(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+function isCharOp(value: unknown): value is CharOp {
+  return isObject(value) && typeof value.id === 'string' && isId(value.after) &&
+    typeof value.clock === 'number' && typeof value.client === 'string' && typeof value.value === 'string';
+}
+
+function isBlockOp(value: unknown): value is BlockOp {
+  if (!isObject(value) || typeof value.id !== 'string') return false;
+  switch (value.type) {
+    case 'insert':
+      return isId(value.after) && typeof value.clock === 'number' &&
+        typeof value.client === 'string' && typeof value.content === 'string';
+    case 'text':
+      return Array.isArray(value.inserts) && value.inserts.every(isCharOp) &&
+        Array.isArray(value.deletes) && value.deletes.every(id => typeof id === 'string');
+    case 'delete':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function isBlockEntry(value: unknown): value is BlockEntry {
+  return isObject(value) && typeof value.id === 'string' && isId(value.after) &&
+    typeof value.clock === 'number' && typeof value.client === 'string' && typeof value.deleted === 'boolean' &&
+    Array.isArray(value.chars) && value.chars.every(char => isCharOp(char) && typeof (char as CharEntry).deleted === 'boolean');
+}
+
+function isBlockPosition(value: unknown): value is BlockPosition {
+  return isObject(value) && typeof value.blockId === 'string' && typeof value.offset === 'number';
+}
+
+function isRemoteSelection(value: unknown): value is RemoteSelection {
+  return isObject(value) && isBlockPosition(value.anchor) && isBlockPosition(value.focus);
+}
+
+class CollaborationPluginImpl implements Plugin {
+  name = 'collaboration';
+  private editor: Editor | null = null;
+  private config: CollaborationConfig;
+  private clientId: string;
+  private clock = 0;
+  private counter = 0;
+  private blocks: BlockEntry[] = [];
+  private index: Map<string, BlockEntry> = new Map();
+  private charIndex: Map<string, CharEntry> = new Map();
+  private pendingOps: BlockOp[] = [];
+  private nodeIds: WeakMap<Node, string> = new WeakMap();
+  // A block is usually one node, but markup can parse into several
+  private nodes: Map<string, Node[]> = new Map();
+  private peers: Map<string, Peer> = new Map();
+  private overlay: HTMLElement | null = null;
+  private presenceList: HTMLElement | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private heartbeatTimer: number | null = null;
+  private applyingRemote = false;
+
+  constructor(config: CollaborationConfig) {
+    this.config = {
+      enabled: true,
+      showRemoteCursors: true,
+      ...config
+    };
+    this.clientId = `${this.config.user.id}-${Math.random().toString(36).substring(2, 10)}`;
+  }
+
+  init(editor: Editor): void {
+    this.editor = editor;
+    if (!this.config.enabled) return;
+
+    this.buildInitialState();
+
+    editor.on('history:transaction', this.handleTransaction);
+    document.addEventListener('selectionchange', this.handleSelectionChange);
+    editor.contentElement.addEventListener('scroll', this.renderCursors);
+    window.addEventListener('resize', this.renderCursors);
+
+    this.unsubscribe = this.config.transport.onMessage(message => this.handleMessage(message));
+    this.send('hello');
+
+    this.heartbeatTimer = window.setInterval(() => {
+      this.sendPresence();
+      this.pruneStalePeers();
+    }, HEARTBEAT_INTERVAL);
+
+    this.createOverlay();
+    this.addStyles();
+  }
+
+  destroy(): void {
+    if (!this.editor) return;
+
+    this.send('leave');
+    this.editor.off('history:transaction', this.handleTransaction);
+    document.removeEventListener('selectionchange', this.handleSelectionChange);
+    this.editor.contentElement.removeEventListener('scroll', this.renderCursors);
+    window.removeEventListener('resize', this.renderCursors);
+
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.overlay?.remove();
+    this.presenceList?.remove();
+  }
+
+  getPeers(): CollaborationUser[] {
+    return Array.from(this.peers.values()).map(peer => peer.user);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Local changes
+
+  private buildInitialState(): void {
+    this.loadDocument();
+  }
+
+  /**
+   * Replaces the sequence with the blocks in the DOM as a loaded document.
+   * Their ids are derived from the content, so clients that load the same
+   * document end up with the same blocks instead of one copy each.
+   */
+  private loadDocument(): BlockOp[] | null {
+    const nodes = this.getBlockNodes();
+    const contents = nodes.map(node => this.serializeNodes([node]));
+    const checksum = generateChecksum(contents.join('\n'));
+    const ids = contents.map((_content, i) => `${LOAD_CLIENT}:${checksum}:${i}`);
+    // Loaded and then deleted before; the blocks are new content this time
+    if (ids.some(id => this.index.has(id))) return null;
+
+    const ops: BlockOp[] = [];
+    this.blocks.forEach(entry => {
+      if (!entry.deleted) {
+        entry.deleted = true;
+        this.nodes.delete(entry.id);
+        ops.push({ type: 'delete', id: entry.id });
+      }
+    });
+
+    nodes.forEach((node, i) => {
+      const op: BlockOp = {
+        type: 'insert',
+        id: ids[i],
+        after: i === 0 ? null : ids[i - 1],
+        clock: 0,
+        client: LOAD_CLIENT,
+        content: contents[i]
+      };
+      this.integrate(op);
+      this.bindNodes(op.id, [node]);
+      ops.push(op);
+    });
+    return ops;
+  }
+
+  private handleTransaction = (transaction: HistoryTransaction): void => {
+    if (transaction.origin === 'remote' || this.applyingRemote) return;
+
+    const ops = (transaction.origin === 'setContent' && this.loadDocument()) || this.collectLocalOps();
+    if (ops.length > 0) {
+      this.send('ops', ops);
+    }
+  };
+
+  // Compare the DOM with the replicated sequence and turn differences into ops
+  private collectLocalOps(): BlockOp[] {
+    const ops: BlockOp[] = [];
+    const seen = new Set<string>();
+    const visibleOrder = new Map<string, number>();
+    this.blocks.filter(entry => !entry.deleted).forEach((entry, i) => visibleOrder.set(entry.id, i));
+
+    let previousId: string | null = null;
+    let previousIndex = -1;
+
+    this.groupBlockNodes().forEach(nodes => {
+      let id = this.nodeIds.get(nodes[0]);
+      const known = id ? this.index.get(id) : undefined;
+      const position = id !== undefined ? visibleOrder.get(id) : undefined;
+
+      // Blocks that moved are replicated as a delete plus a fresh insert
+      if (!known || known.deleted || seen.has(id!) || position === undefined || position < previousIndex) {
+        id = undefined;
+      }
+
+      const content = this.serializeNodes(nodes);
+
+      if (!id) {
+        const clock = ++this.clock;
+        const op: BlockOp = {
+          type: 'insert',
+          id: `${this.clientId}:${++this.counter}`,
+          after: previousId,
+          clock,
+          client: this.clientId,
+          content
+        };
+        this.integrate(op);
+        this.bindNodes(op.id, nodes);
+        ops.push(op);
+        id = op.id;
+      } else {
+        previousIndex = position!;
+        this.bindNodes(id, nodes);
+        const op = this.diffText(known!, content);
+        if (op) {
+          ops.push(op);
+        }
+      }
+
+      seen.add(id);
+      previousId = id;
+    });
+
+    this.blocks.forEach(entry => {
+      if (!entry.deleted && !seen.has(entry.id)) {
+        entry.deleted = true;
+        this.nodes.delete(entry.id);
+        ops.push({ type: 'delete', id: entry.id });
+      }
+    });
+
+    return ops;
+  }
+
+  /**
+   * The characters to insert and delete to turn a block's replicated text
+   * into `content`: whatever lies between the common start and end.
+   */
+  private diffText(entry: BlockEntry, content: string): BlockOp | null {
+    const visible = entry.chars.filter(char => !char.deleted);
+    const next = Array.from(content);
+
+    let prefix = 0;
+    while (prefix < visible.length && prefix < next.length && visible[prefix].value === next[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < visible.length - prefix &&
+      suffix < next.length - prefix &&
+      visible[visible.length - 1 - suffix].value === next[next.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const deletes = visible.slice(prefix, visible.length - suffix).map(char => char.id);
+    const inserts: CharOp[] = [];
+    let after = prefix > 0 ? visible[prefix - 1].id : null;
+    next.slice(prefix, next.length - suffix).forEach(value => {
+      const char: CharOp = { id: `${this.clientId}:${++this.counter}`, after, clock: ++this.clock, client: this.clientId, value };
+      inserts.push(char);
+      after = char.id;
+    });
+    if (deletes.length === 0 && inserts.length === 0) return null;
+
+    const op: BlockOp = { type: 'text', id: entry.id, inserts, deletes };
+    this.applyOp(op);
+    return op;
+  }
+
+  // ---------------------------------------------------------------------------
+  // CRDT
+
+  private integrate(op: Extract<BlockOp, { type: 'insert' }>): void {
+    const entry: BlockEntry = {
+      id: op.id,
+      after: op.after,
+      clock: op.clock,
+      client: op.client,
+      chars: [],
+      deleted: false
+    };
+
+    let position = op.after === null ? 0 : this.blocks.findIndex(block => block.id === op.after) + 1;
+
+    // Concurrent inserts at the same spot are ordered by (clock, client),
+    // skipping past newer siblings and everything inserted after them
+    while (position < this.blocks.length && this.isNewer(this.blocks[position], entry)) {
+      position++;
+    }
+
+    this.blocks.splice(position, 0, entry);
+    this.index.set(entry.id, entry);
+
+    // Ids every client derives alike, so later edits can refer to the characters
+    let after: string | null = null;
+    Array.from(op.content).forEach((value, i) => {
+      const id = `${op.id}#${i}`;
+      this.integrateChar(entry, { id, after, clock: op.clock, client: op.client, value, deleted: false });
+      after = id;
+    });
+  }
+
+  // Same ordering as blocks, within the characters of one block
+  private integrateChar(block: BlockEntry, char: CharEntry): void {
+    let position = char.after === null ? 0 : block.chars.findIndex(other => other.id === char.after) + 1;
+    while (position < block.chars.length && this.isNewer(block.chars[position], char)) {
+      position++;
+    }
+    block.chars.splice(position, 0, char);
+    this.charIndex.set(char.id, char);
+  }
+
+  private isNewer(a: { clock: number; client: string }, b: { clock: number; client: string }): boolean {
+    return a.clock > b.clock || (a.clock === b.clock && a.client > b.client);
+  }
+
+  private contentOf(entry: BlockEntry): string {
+    return entry.chars.filter(char => !char.deleted).map(char => char.value).join('');
+  }
+
+  /**
+   * Applies an op, returning false while it refers to a block or character
+   * that has not arrived yet. Applying an op again changes nothing, so one
+   * that was partly applied can simply be retried.
+   */
+  private applyOp(op: BlockOp): boolean {
+    if (op.type === 'insert') {
+      if (this.index.has(op.id)) return true;
+      if (op.after !== null && !this.index.has(op.after)) return false;
+      this.clock = Math.max(this.clock, op.clock);
+      this.integrate(op);
+      return true;
+    }
+
+    const entry = this.index.get(op.id);
+    if (!entry) return false;
+
+    if (op.type === 'delete') {
+      entry.deleted = true;
+      return true;
+    }
+
+    let complete = true;
+    op.inserts.forEach(char => {
+      if (this.charIndex.has(char.id)) return;
+      if (char.after !== null && !this.charIndex.has(char.after)) {
+        complete = false;
+        return;
+      }
+      this.clock = Math.max(this.clock, char.clock);
+      this.integrateChar(entry, { ...char, deleted: false });
+    });
+    op.deletes.forEach(id => {
+      const char = this.charIndex.get(id);
+      if (char) {
+        char.deleted = true;
+      } else {
+        complete = false;
+      }
+    });
+    return complete;
+  }
+
+  private applyRemoteOps(ops: BlockOp[]): void {
+    // Ops can arrive before the block they refer to; retry them until no
+    // more progress is made
+    let queue = [...this.pendingOps, ...ops];
+    let progress = true;
+    while (progress && queue.length > 0) {
+      progress = false;
+      const remaining: BlockOp[] = [];
+      queue.forEach(op => {
+        if (this.applyOp(op)) {
+          progress = true;
+        } else {
+          remaining.push(op);
+        }
+      });
+      queue = remaining;
+    }
+    this.pendingOps = queue;
+  }
+
+  // Entries come in sequence order, so a block or character always follows the one it was inserted after
+  private mergeState(entries: BlockEntry[]): void {
+    entries.forEach(remote => {
+      if (!this.applyOp({
+        type: 'insert',
+        id: remote.id,
+        after: remote.after,
+        clock: remote.clock,
+        client: remote.client,
+        content: ''
+      })) return;
+
+      const local = this.index.get(remote.id)!;
+      remote.chars.forEach(char => {
+        const known = this.charIndex.get(char.id);
+        if (known) {
+          known.deleted = known.deleted || char.deleted;
+        } else if (char.after === null || this.charIndex.has(char.after)) {
+          this.clock = Math.max(this.clock, char.clock);
+          this.integrateChar(local, { ...char });
+        }
+      });
+      local.deleted = local.deleted || remote.deleted;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Remote changes
+
+  private handleMessage(message: CollaborationMessage): void {
+    if (!this.editor || message.clientId === this.clientId) return;
+
+    if (message.user) {
+      this.touchPeer(message.clientId, message.user);
+    }
+
+    switch (message.type) {
+      case 'hello':
+        this.send('state', this.blocks);
+        this.sendPresence();
+        break;
+      case 'state': {
+        const entries = message.payload;
+        if (!Array.isArray(entries) || !entries.every(isBlockEntry)) return;
+        this.applyRemote(() => this.mergeState(entries));
+        break;
+      }
+      case 'ops': {
+        const ops = message.payload;
+        if (!Array.isArray(ops) || !ops.every(isBlockOp)) return;
+        this.applyRemote(() => this.applyRemoteOps(ops));
+        this.editor.emit('collaboration:remote-change', { user: message.user });
+        break;
+      }
+      case 'presence': {
+        const peer = this.peers.get(message.clientId);
+        if (peer) {
+          peer.selection = isRemoteSelection(message.payload) ? message.payload : null;
+        }
+        this.renderCursors();
+        break;
+      }
+      case 'leave':
+        this.removePeer(message.clientId);
+        break;
+    }
+  }
+
+  private applyRemote(update: () => void): void {
+    if (!this.editor) return;
+
+    // Unsent local edits must be part of the sequence before merging
+    const localOps = this.collectLocalOps();
+    if (localOps.length > 0) {
+      this.send('ops', localOps);
+    }
+
+    update();
+
+    const selection = this.captureSelection();
+    this.applyingRemote = true;
+    try {
+      this.editor.history.transact('remote', () => this.reconcileDOM());
+    } finally {
+      this.applyingRemote = false;
+    }
+    if (selection) {
+      this.restoreSelection(selection);
+    }
+    this.renderCursors();
+  }
+
+  private reconcileDOM(): void {
+    if (!this.editor) return;
+    const content = this.editor.contentElement;
+
+    const desired = this.blocks.filter(entry => !entry.deleted).flatMap(entry => {
+      const content = this.contentOf(entry);
+      const nodes = this.nodes.get(entry.id);
+      if (nodes && this.serializeNodes(nodes) === content) {
+        return nodes;
+      }
+      const fresh = this.createNodes(content);
+      this.bindNodes(entry.id, fresh);
+      return fresh;
+    });
+
+    let cursor: Node | null = content.firstChild;
+    desired.forEach(node => {
+      if (node === cursor) {
+        cursor = cursor.nextSibling;
+      } else {
+        content.insertBefore(node, cursor);
+      }
+    });
+
+    while (cursor) {
+      const next: Node | null = cursor.nextSibling;
+      content.removeChild(cursor);
+      cursor = next;
+    }
+
+    this.blocks.forEach(entry => {
+      if (entry.deleted) {
+        this.nodes.delete(entry.id);
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Presence
+
+  private handleSelectionChange = throttle(() => {
+    this.sendPresence();
+  }, 100);
+
+  private sendPresence(): void {
+    this.send('presence', this.captureSelection());
+  }
+
+  private touchPeer(clientId: string, user: CollaborationUser): void {
+    const existing = this.peers.get(clientId);
+    if (existing) {
+      existing.lastSeen = Date.now();
+      return;
+    }
+
+    const authorColors = this.config.authorColors || this.editor?.config.trackChanges?.authorColors;
+    this.peers.set(clientId, {
+      user,
+      color: user.color || getAuthorColor(user.name, authorColors),
+      selection: null,
+      lastSeen: Date.now()
+    });
+    this.editor?.emit('collaboration:peer-join', user);
+    this.updatePresenceList();
+  }
+
+  private removePeer(clientId: string): void {
+    const peer = this.peers.get(clientId);
+    if (!peer) return;
+
+    this.peers.delete(clientId);
+    this.editor?.emit('collaboration:peer-leave', peer.user);
+    this.updatePresenceList();
+    this.renderCursors();
+  }
+
+  private pruneStalePeers(): void {
+    const now = Date.now();
+    this.peers.forEach((peer, clientId) => {
+      if (now - peer.lastSeen > PEER_TIMEOUT) {
+        this.removePeer(clientId);
+      }
+    });
+  }
+
+  private createOverlay(): void {
+    if (!this.editor) return;
+
+    this.overlay = createElement('div', {
+      className: 'xeditor-collab-overlay'
+    });
+    this.editor.wrapper.appendChild(this.overlay);
+  }
+
+  private updatePresenceList(): void {
+    // The toolbar is built after plugins are initialized, so the list is
+    // mounted into its status area on first use
+    if (!this.presenceList && this.editor) {
+      const statusArea = this.editor.wrapper.querySelector('.xeditor-toolbar__status');
+      if (statusArea) {
+        this.presenceList = createElement('div', {
+          className: 'xeditor-collab-presence'
+        });
+        statusArea.appendChild(this.presenceList);
+      }
+    }
+
+    if (this.presenceList) {
+      this.presenceList.innerHTML = '';
+      this.peers.forEach(peer => {
+        const badge = createElement('span', {
+          className: 'xeditor-collab-badge',
+          title: peer.user.name
+        }, [peer.user.name.charAt(0).toUpperCase()]);
+        badge.style.backgroundColor = peer.color;
+        this.presenceList!.appendChild(badge);
+      });
+    }
+
+    if (this.config.onPeersChange) {
+      this.config.onPeersChange(this.getPeers());
+    }
+  }
+
+  private renderCursors = (): void => {
+    if (!this.editor || !this.overlay) return;
+
+    this.overlay.innerHTML = '';
+    if (!this.config.showRemoteCursors) return;
+
+    const wrapperRect = this.editor.wrapper.getBoundingClientRect();
+    const contentRect = this.editor.contentElement.getBoundingClientRect();
+
+    this.peers.forEach(peer => {
+      if (!peer.selection) return;
+      const anchor = this.resolvePosition(peer.selection.anchor);
+      const focus = this.resolvePosition(peer.selection.focus);
+      if (!anchor || !focus) return;
+
+      const range = document.createRange();
+      range.setStart(anchor.node, anchor.offset);
+      range.setEnd(anchor.node, anchor.offset);
+      if (range.comparePoint(focus.node, focus.offset) >= 0) {
+        range.setEnd(focus.node, focus.offset);
+      } else {
+        range.setStart(focus.node, focus.offset);
+      }
+
+      Array.from(range.getClientRects()).forEach(rect => {
+        if (!this.isVisible(rect, contentRect)) return;
+        const highlight = createElement('div', { className: 'xeditor-collab-selection' });
+        highlight.style.cssText = `
+          left: ${rect.left - wrapperRect.left}px;
+          top: ${rect.top - wrapperRect.top}px;
+          width: ${rect.width}px;
+          height: ${rect.height}px;
+          background-color: ${peer.color}33;
+        `;
+        this.overlay!.appendChild(highlight);
+      });
+
+      const caretRange = document.createRange();
+      caretRange.setStart(focus.node, focus.offset);
+      caretRange.collapse(true);
+      const caretRect = caretRange.getClientRects()[0] ||
+        (focus.node.nodeType === Node.ELEMENT_NODE ? (focus.node as Element).getBoundingClientRect() : null);
+      if (!caretRect || !this.isVisible(caretRect, contentRect)) return;
+
+      const caret = createElement('div', { className: 'xeditor-collab-caret' });
+      caret.style.cssText = `
+        left: ${caretRect.left - wrapperRect.left}px;
+        top: ${caretRect.top - wrapperRect.top}px;
+        height: ${caretRect.height || 16}px;
+        border-color: ${peer.color};
+      `;
+      const label = createElement('span', { className: 'xeditor-collab-label' }, [peer.user.name]);
+      label.style.backgroundColor = peer.color;
+      caret.appendChild(label);
+      this.overlay!.appendChild(caret);
+    });
+  };
+
+  private isVisible(rect: DOMRect, container: DOMRect): boolean {
+    return rect.bottom >= container.top && rect.top <= container.bottom;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+
+  private send(type: CollaborationMessage['type'], payload?: unknown): void {
+    this.config.transport.send({
+      type,
+      clientId: this.clientId,
+      user: this.config.user,
+      payload
+    });
+  }
+
+  private getBlockNodes(): Node[] {
+    if (!this.editor) return [];
+    return Array.from(this.editor.contentElement.childNodes).filter(node =>
+      node.nodeType === Node.ELEMENT_NODE ||
+      (node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim() !== '')
+    );
+  }
+
+  // Block nodes, with the nodes one block's markup parsed into kept together
+  private groupBlockNodes(): Node[][] {
+    const groups: Node[][] = [];
+    let previousId: string | undefined;
+    this.getBlockNodes().forEach(node => {
+      const id = this.nodeIds.get(node);
+      const group = groups[groups.length - 1];
+      if (id !== undefined && id === previousId && this.nodes.get(id)?.includes(node)) {
+        group.push(node);
+      } else {
+        groups.push([node]);
+      }
+      previousId = id;
+    });
+    return groups;
+  }
+
+  private bindNodes(id: string, nodes: Node[]): void {
+    nodes.forEach(node => this.nodeIds.set(node, id));
+    this.nodes.set(id, nodes);
+  }
+
+  private serializeNodes(nodes: Node[]): string {
+    return nodes.map(node => {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        return (node as Element).outerHTML;
+      }
+      const div = document.createElement('div');
+      div.textContent = node.textContent || '';
+      return div.innerHTML;
+    }).join('');
+  }
+
+  // Remote content is untrusted; it goes through the same sanitizer as pasted HTML
+  private createNodes(content: string): Node[] {
+    const template = document.createElement('template');
+    template.innerHTML = this.editor ? this.editor.sanitize(content) : '';
+    const nodes = Array.from(template.content.childNodes);
+    return nodes.length > 0 ? nodes : [document.createTextNode('')];
+  }
+
+  private getBlockOf(node: Node): Node | null {
+    if (!this.editor) return null;
+    let current: Node | null = node;
+    while (current && current.parentNode !== this.editor.contentElement) {
+      current = current.parentNode;
+    }
+    return current;
+  }
+
+  // Offsets count the text of every node of the block
+  private toBlockPosition(node: Node, offset: number): BlockPosition | null {
+    const block = this.getBlockOf(node);
+    const blockId = block ? this.nodeIds.get(block) : undefined;
+    const nodes = blockId ? this.nodes.get(blockId) : undefined;
+    if (!block || !blockId || !nodes) return null;
+
+    const range = document.createRange();
+    range.setStartBefore(nodes[0]);
+    range.setEnd(node, offset);
+    return { blockId, offset: range.toString().length };
+  }
+
+  private resolvePosition(position: BlockPosition): { node: Node; offset: number } | null {
+    const nodes = this.nodes.get(position.blockId);
+    if (!nodes || !nodes[0].parentNode) return null;
+
+    const texts = nodes.flatMap(node => {
+      if (node.nodeType === Node.TEXT_NODE) return [node];
+      const found: Node[] = [];
+      const walker = document.createTreeWalker(node, NodeFilter.SHOW_TEXT, null);
+      let current: Node | null;
+      while ((current = walker.nextNode()) !== null) {
+        found.push(current);
+      }
+      return found;
+    });
+
+    let remaining = position.offset;
+    for (const text of texts) {
+      const length = (text.textContent || '').length;
+      if (remaining <= length) {
+        return { node: text, offset: remaining };
+      }
+      remaining -= length;
+    }
+
+    const last = texts[texts.length - 1];
+    return last
+      ? { node: last, offset: (last.textContent || '').length }
+      : { node: nodes[0], offset: 0 };
+  }
+
+  private captureSelection(): RemoteSelection | null {
+    const selection = window.getSelection();
+    if (!this.editor || !selection || selection.rangeCount === 0 || !selection.anchorNode || !selection.focusNode) {
+      return null;
+    }
+    if (!this.editor.contentElement.contains(selection.anchorNode)) return null;
+
+    const anchor = this.toBlockPosition(selection.anchorNode, selection.anchorOffset);
+    const focus = this.toBlockPosition(selection.focusNode, selection.focusOffset);
+    return anchor && focus ? { anchor, focus } : null;
+  }
+
+  private restoreSelection(selection: RemoteSelection): void {
+    const anchor = this.resolvePosition(selection.anchor);
+    const focus = this.resolvePosition(selection.focus);
+    const domSelection = window.getSelection();
+    if (!anchor || !focus || !domSelection) return;
+
+    try {
+      domSelection.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+    } catch (error) {
+      // The block was removed remotely; leave the selection alone
+    }
+  }
+
+  private addStyles(): void {
+    if (document.getElementById('xeditor-collaboration-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'xeditor-collaboration-styles';
+    style.textContent = `
+      .xeditor-collab-overlay {
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        pointer-events: none;
+        overflow: hidden;
+        z-index: 5;
+      }
+
+      .xeditor-collab-selection {
+        position: absolute;
+      }
+
+      .xeditor-collab-caret {
+        position: absolute;
+        width: 0;
+        border-left: 2px solid;
+      }
+
+      .xeditor-collab-label {
+        position: absolute;
+        top: -16px;
+        left: -2px;
+        padding: 0 4px;
+        font-size: 10px;
+        line-height: 16px;
+        color: white;
+        white-space: nowrap;
+        border-radius: 3px 3px 3px 0;
+      }
+
+      .xeditor-collab-presence {
+        display: flex;
+        gap: 4px;
+      }
+
+      .xeditor-collab-badge {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        width: 22px;
+        height: 22px;
+        border-radius: 50%;
+        color: white;
+        font-size: 11px;
+        font-weight: bold;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
+
+// Export the class directly for the plugins index
+export class CollaborationPlugin extends CollaborationPluginImpl {}
+
+// Export factory function
+export default function createCollaborationPlugin(config: CollaborationConfig): Plugin {
+  return new CollaborationPlugin(config);
+}
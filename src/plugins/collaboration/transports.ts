@@ -0,0 +1,136 @@
+import { CollaborationMessage, CollaborationTransport } from '../../types';
+import { errorHandler } from '../../utils/error-handler';
+
+type MessageHandler = (message: CollaborationMessage) => void;
+
+/**
+ * Connects editors living in the same page. Mostly useful for tests and
+ * demos: every transport created from one hub receives the messages sent by
+ * the others, asynchronously, like a real network would deliver them.
+ */
+export class InMemoryHub {
+  private transports: Set<InMemoryTransport> = new Set();
+
+  createTransport(): CollaborationTransport {
+    const transport = new InMemoryTransport(this);
+    this.transports.add(transport);
+    return transport;
+  }
+
+  broadcast(sender: InMemoryTransport, message: CollaborationMessage): void {
+    const copy = JSON.stringify(message);
+    this.transports.forEach(transport => {
+      if (transport !== sender) {
+        setTimeout(() => transport.deliver(JSON.parse(copy)), 0);
+      }
+    });
+  }
+
+  remove(transport: InMemoryTransport): void {
+    this.transports.delete(transport);
+  }
+}
+
+class InMemoryTransport implements CollaborationTransport {
+  private handlers: Set<MessageHandler> = new Set();
+  private hub: InMemoryHub;
+
+  constructor(hub: InMemoryHub) {
+    this.hub = hub;
+  }
+
+  send(message: CollaborationMessage): void {
+    this.hub.broadcast(this, message);
+  }
+
+  onMessage(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  deliver(message: CollaborationMessage): void {
+    this.handlers.forEach(handler => handler(message));
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.hub.remove(this);
+  }
+}
+
+// Syncs editors across tabs and windows of the same origin
+export class BroadcastChannelTransport implements CollaborationTransport {
+  private channel: BroadcastChannel;
+  private handlers: Set<MessageHandler> = new Set();
+
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.onmessage = (event: MessageEvent) => {
+      this.handlers.forEach(handler => handler(event.data as CollaborationMessage));
+    };
+  }
+
+  send(message: CollaborationMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  onMessage(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.channel.close();
+  }
+}
+
+/**
+ * Relays messages through a WebSocket server that forwards every message to
+ * the other clients of the same document. Messages sent before the socket is
+ * open are queued.
+ */
+export class WebSocketTransport implements CollaborationTransport {
+  private socket: WebSocket;
+  private handlers: Set<MessageHandler> = new Set();
+  private queue: string[] = [];
+
+  constructor(urlOrSocket: string | WebSocket) {
+    this.socket = typeof urlOrSocket === 'string' ? new WebSocket(urlOrSocket) : urlOrSocket;
+
+    this.socket.addEventListener('open', () => {
+      this.queue.forEach(data => this.socket.send(data));
+      this.queue = [];
+    });
+
+    this.socket.addEventListener('message', (event: MessageEvent) => {
+      let message: CollaborationMessage;
+      try {
+        message = JSON.parse(event.data) as CollaborationMessage;
+      } catch (error) {
+        errorHandler.handle(error as Error, 'Received an invalid collaboration message');
+        return;
+      }
+      this.handlers.forEach(handler => handler(message));
+    });
+  }
+
+  send(message: CollaborationMessage): void {
+    const data = JSON.stringify(message);
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else {
+      this.queue.push(data);
+    }
+  }
+
+  onMessage(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  close(): void {
+    this.handlers.clear();
+    this.socket.close();
+  }
+}
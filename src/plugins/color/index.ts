@@ -224,49 +224,9 @@ export class ColorPlugin implements Plugin {
   }
   
   private setColor(type: 'foreColor' | 'backColor', color: string): void {
-    this.editor.selection.save();
-    
-    if (type === 'foreColor') {
-      if (color === 'inherit') {
-        // Remove color
-        const selection = window.getSelection();
-        if (selection && selection.rangeCount > 0) {
-          const range = selection.getRangeAt(0);
-          const span = document.createElement('span');
-          span.style.color = '';
-          
-          try {
-            range.surroundContents(span);
-          } catch (e) {
-            // If surroundContents fails, use execCommand
-            document.execCommand('removeFormat', false);
-          }
-        }
-      } else {
-        document.execCommand('foreColor', false, color);
-      }
-    } else {
-      if (color === 'inherit') {
-        // Remove background color
-        const selection = window.getSelection();
-        if (selection && selection.rangeCount > 0) {
-          const range = selection.getRangeAt(0);
-          const span = document.createElement('span');
-          span.style.backgroundColor = '';
-          
-          try {
-            range.surroundContents(span);
-          } catch (e) {
-            // If surroundContents fails, try alternative method
-            document.execCommand('removeFormat', false);
-          }
-        }
-      } else {
-        document.execCommand('backColor', false, color);
-      }
-    }
-    
-    this.editor.selection.restore();
+    // Text color and background color are the color and highlight marks
+    const markType = type === 'foreColor' ? 'color' : 'highlight';
+    this.editor.setMark(markType, color === 'inherit' ? null : { type: markType, attrs: { color } });
     this.editor.history.record();
   }
   
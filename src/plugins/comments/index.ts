@@ -1,5 +1,49 @@
-import { Plugin, Editor, Comment, CommentThread, CommentsConfig } from '../../types';
+import {
+  Plugin,
+  Editor,
+  Comment,
+  CommentThread,
+  CommentUser,
+  CommentsConfig,
+  CommentsFilter,
+  CommentsStorage,
+  HistoryTransaction
+} from '../../types';
 import { createElement } from '../../utils/dom';
+import { errorHandler } from '../../utils/error-handler';
+import { createAnchor, createAnchorFromRange, findAnchor, getTextContent, getTextOffset, splitTextRange } from '../../utils/text-anchor';
+import { MentionInput, UserPicker, getMentionedIds, renderCommentText } from './mentions';
+import { messages } from './messages';
+
+const UNASSIGNED = '__unassigned__';
+
+// Default localStorage implementation
+class LocalStorageCommentsStorage implements CommentsStorage {
+  async save(key: string, threads: CommentThread[]): Promise<void> {
+    try {
+      localStorage.setItem(key, JSON.stringify(threads));
+    } catch (error) {
+      throw new Error(`Failed to save comments: ${error}`);
+    }
+  }
+
+  async load(key: string): Promise<CommentThread[] | null> {
+    try {
+      const data = localStorage.getItem(key);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      throw new Error(`Failed to load comments: ${error}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      throw new Error(`Failed to delete comments: ${error}`);
+    }
+  }
+}
 
 class CommentsPluginImpl implements Plugin {
   name = 'comments';
@@ -11,6 +55,9 @@ class CommentsPluginImpl implements Plugin {
   private highlightClass = 'xeditor-comment-highlight';
   private activeThreadId: string | null = null;
   private commentDialog: HTMLElement | null = null;
+  private storage: CommentsStorage;
+  private storageKey = 'xeditor-comments';
+  private filter: CommentsFilter = { status: 'all' };
 
   constructor(config?: Partial<CommentsConfig>) {
     this.config = {
@@ -22,10 +69,18 @@ class CommentsPluginImpl implements Plugin {
       allowDelete: true,
       ...config
     };
+
+    this.storage = this.config.storageBackend || new LocalStorageCommentsStorage();
   }
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
+
+    const containerId = typeof editor.config.container === 'string'
+      ? editor.config.container
+      : editor.container.id || 'default';
+    this.storageKey = `xeditor-comments-${this.config.documentId || containerId}`;
 
     if (this.config.sidePanel) {
       this.createSidePanel();
@@ -34,9 +89,18 @@ class CommentsPluginImpl implements Plugin {
     this.setupEventListeners();
     this.addToolbarItems();
     this.addStyles();
+
+    this.storage.load(this.storageKey)
+      .then(threads => {
+        if (threads) this.loadThreads(threads);
+      })
+      .catch(error => errorHandler.handle(error as Error, 'Failed to load comments'));
   }
 
   destroy(): void {
+    this.editor?.off('history:transaction', this.handleTransaction);
+    this.editor?.off('history:undo', this.handleUndoRedo);
+    this.editor?.off('history:redo', this.handleUndoRedo);
     if (this.sidePanel) {
       this.sidePanel.remove();
     }
@@ -52,7 +116,7 @@ class CommentsPluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'comments',
       icon: this.getCommentIcon(),
-      tooltip: 'Add Comment',
+      tooltip: this.editor.t('comments.add'),
       enabled: () => {
         const selection = window.getSelection();
         return selection !== null && selection.toString().trim().length > 0;
@@ -63,7 +127,7 @@ class CommentsPluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'comments-toggle',
       icon: this.getCommentToggleIcon(),
-      tooltip: 'Toggle Comments Panel',
+      tooltip: this.editor.t('comments.togglePanel'),
       active: () => this.sidePanel?.style.display === 'block',
       onClick: () => this.toggleSidePanel()
     });
@@ -79,6 +143,10 @@ class CommentsPluginImpl implements Plugin {
       }
     });
 
+    this.editor.on('history:transaction', this.handleTransaction);
+    this.editor.on('history:undo', this.handleUndoRedo);
+    this.editor.on('history:redo', this.handleUndoRedo);
+
     // Listen for clicks on comment highlights
     this.editor.contentElement.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
@@ -129,12 +197,44 @@ class CommentsPluginImpl implements Plugin {
       <button class="xeditor-comments-close" style="background: none; border: none; cursor: pointer; font-size: 20px;">&times;</button>
     `;
 
+    const filters = createElement('div', {
+      className: 'xeditor-comments-filters'
+    });
+    filters.style.cssText = 'display: flex; gap: 8px; padding: 10px 15px; border-bottom: 1px solid #ddd;';
+
+    const statusSelect = createElement('select', {
+      className: 'xeditor-comments-filter-status',
+      'aria-label': 'Status'
+    }) as HTMLSelectElement;
+    [['all', 'All'], ['open', 'Open'], ['resolved', 'Resolved']].forEach(([value, label]) => {
+      statusSelect.appendChild(createElement('option', { value }, [label]));
+    });
+    statusSelect.addEventListener('change', () => {
+      this.setFilter({ ...this.filter, status: statusSelect.value as CommentsFilter['status'] });
+    });
+
+    const assigneeSelect = createElement('select', {
+      className: 'xeditor-comments-filter-assignee',
+      'aria-label': 'Assignee'
+    }) as HTMLSelectElement;
+    assigneeSelect.addEventListener('change', () => {
+      const value = assigneeSelect.value;
+      this.setFilter({
+        ...this.filter,
+        assignee: value === '' ? undefined : (value === UNASSIGNED ? null : value)
+      });
+    });
+
+    filters.appendChild(statusSelect);
+    filters.appendChild(assigneeSelect);
+
     const content = createElement('div', {
       className: 'xeditor-comments-content'
     });
     content.style.cssText = 'padding: 15px;';
 
     this.sidePanel.appendChild(header);
+    this.sidePanel.appendChild(filters);
     this.sidePanel.appendChild(content);
 
     this.editor.wrapper.appendChild(this.sidePanel);
@@ -146,6 +246,7 @@ class CommentsPluginImpl implements Plugin {
   }
 
   private showCommentDialog(): void {
+    const editor = this.editor!;
     const selection = window.getSelection();
     if (!selection || selection.toString().trim().length === 0) return;
 
@@ -175,7 +276,7 @@ class CommentsPluginImpl implements Plugin {
 
     const textarea = createElement('textarea', {
       className: 'xeditor-comment-input',
-      placeholder: 'Add a comment...'
+      placeholder: editor.t('comments.placeholder')
     }) as HTMLTextAreaElement;
     textarea.style.cssText = `
       width: 100%;
@@ -191,7 +292,7 @@ class CommentsPluginImpl implements Plugin {
     const buttons = createElement('div');
     buttons.style.cssText = 'margin-top: 10px; text-align: right;';
 
-    const cancelBtn = createElement('button', {}, ['Cancel']) as HTMLButtonElement;
+    const cancelBtn = createElement('button', {}, [editor.t('common.cancel')]) as HTMLButtonElement;
     cancelBtn.style.cssText = `
       background: none;
       border: 1px solid #ddd;
@@ -201,7 +302,7 @@ class CommentsPluginImpl implements Plugin {
       cursor: pointer;
     `;
 
-    const addBtn = createElement('button', {}, ['Add Comment']) as HTMLButtonElement;
+    const addBtn = createElement('button', {}, [editor.t('comments.add')]) as HTMLButtonElement;
     addBtn.style.cssText = `
       background: #007bff;
       color: white;
@@ -216,6 +317,7 @@ class CommentsPluginImpl implements Plugin {
 
     this.commentDialog.appendChild(textarea);
     this.commentDialog.appendChild(buttons);
+    const input = this.createCommentInput(textarea);
 
     document.body.appendChild(this.commentDialog);
 
@@ -229,7 +331,7 @@ class CommentsPluginImpl implements Plugin {
     });
 
     addBtn.addEventListener('click', () => {
-      const text = textarea.value.trim();
+      const text = input.getValue();
       if (text) {
         this.addComment(text, range);
         this.commentDialog?.remove();
@@ -252,12 +354,14 @@ class CommentsPluginImpl implements Plugin {
   };
 
   private addComment(text: string, range: Range): void {
+    if (!this.editor) return;
+
     const comment: Comment = {
       id: this.generateId(),
       text,
       author: this.config.currentUser || 'Anonymous',
       timestamp: new Date(),
-      range: this.serializeRange(range),
+      mentions: getMentionedIds(text),
       resolved: false
     };
 
@@ -268,91 +372,220 @@ class CommentsPluginImpl implements Plugin {
       thread = {
         id: this.generateId(),
         comments: [comment],
-        range: comment.range,
+        anchor: createAnchorFromRange(this.editor.contentElement, range),
         resolved: false
       };
       this.threads.set(thread.id, thread);
+      const { start, end } = thread.anchor;
+      const threadId = thread.id;
+      this.editor.history.ignore(() => this.highlightText(start, end, threadId));
     } else {
       thread.comments.push(comment);
     }
 
     this.comments.set(comment.id, comment);
-    this.highlightRange(range, thread.id);
     this.updateSidePanel();
+    this.persist();
 
     if (this.config.onCommentAdd) {
       this.config.onCommentAdd(comment);
     }
 
     this.editor?.emit('comment:add', comment);
+    this.notifyMentions(comment, thread);
   }
 
-  private highlightRange(range: Range, threadId: string): void {
-    const span = createElement('span', {
-      className: this.highlightClass,
-      'data-thread-id': threadId
-    });
-    
-    span.style.cssText = `
-      background-color: rgba(255, 235, 59, 0.4);
-      cursor: pointer;
-      position: relative;
-    `;
+  private createCommentInput(textarea: HTMLTextAreaElement): { getValue(): string } {
+    if (this.config.userDirectory) {
+      return new MentionInput(textarea, this.config.userDirectory);
+    }
+    return { getValue: () => textarea.value.trim() };
+  }
 
-    try {
-      range.surroundContents(span);
-    } catch (e) {
-      // If surroundContents fails, use alternative method
-      const contents = range.extractContents();
-      span.appendChild(contents);
-      range.insertNode(span);
+  // Reports users mentioned in a comment who were not mentioned in it before
+  private notifyMentions(comment: Comment, thread: CommentThread, previous: string[] = []): void {
+    const userIds = (comment.mentions || []).filter(id => !previous.includes(id));
+    if (userIds.length === 0) return;
+
+    if (this.config.onMention) {
+      this.config.onMention(userIds, comment, thread);
     }
+
+    this.editor?.emit('comment:mention', { userIds, comment, thread });
   }
 
-  private removeAllHighlights(): void {
+  // Wraps each text node in the range on its own so the highlight never spans blocks
+  private highlightText(start: number, end: number, threadId: string): void {
     if (!this.editor) return;
-    
-    const highlights = this.editor.contentElement.querySelectorAll(`.${this.highlightClass}`);
-    highlights.forEach(highlight => {
-      const parent = highlight.parentNode;
-      while (highlight.firstChild) {
-        parent?.insertBefore(highlight.firstChild, highlight);
-      }
-      parent?.removeChild(highlight);
-    });
+
+    splitTextRange(this.editor.contentElement, start, end)
+      .filter(node => node.data.trim().length > 0)
+      .forEach(node => {
+        const span = createElement('span', {
+          className: this.highlightClass,
+          'data-thread-id': threadId
+        });
+        node.parentNode?.insertBefore(span, node);
+        span.appendChild(node);
+      });
   }
 
-  private findThreadAtRange(_range: Range): CommentThread | null {
-    // Simple implementation - in production, would need more sophisticated range comparison
-    return null;
+  private getHighlights(threadId?: string): HTMLElement[] {
+    if (!this.editor) return [];
+
+    const selector = threadId
+      ? `.${this.highlightClass}[data-thread-id="${threadId}"]`
+      : `.${this.highlightClass}`;
+    return Array.from(this.editor.contentElement.querySelectorAll<HTMLElement>(selector));
   }
 
-  private serializeRange(range: Range): Comment['range'] {
-    const startPath = this.getNodePath(range.startContainer);
-    const endPath = this.getNodePath(range.endContainer);
-    
-    return {
-      startOffset: range.startOffset,
-      endOffset: range.endOffset,
-      startPath,
-      endPath
-    };
+  private removeHighlights(threadId?: string): void {
+    this.getHighlights(threadId).forEach(highlight => this.unwrapHighlight(highlight));
   }
 
-  private getNodePath(node: Node): number[] {
-    const path: number[] = [];
-    let current = node;
-    
-    while (current && current !== this.editor?.contentElement) {
-      const parent = current.parentNode;
-      if (parent) {
-        const index = Array.from(parent.childNodes).indexOf(current as ChildNode);
-        path.unshift(index);
-      }
-      current = parent as Node;
+  private unwrapHighlight(highlight: HTMLElement): void {
+    const parent = highlight.parentNode;
+    while (highlight.firstChild) {
+      parent?.insertBefore(highlight.firstChild, highlight);
     }
-    
-    return path;
+    parent?.removeChild(highlight);
+  }
+
+  private removeAllHighlights(): void {
+    this.removeHighlights();
+  }
+
+  // Current anchor of a thread, read from its highlights in the content
+  private getCurrentAnchor(thread: CommentThread): CommentThread['anchor'] {
+    const highlights = this.getHighlights(thread.id);
+    if (!this.editor || highlights.length === 0) return thread.anchor;
+
+    const root = this.editor.contentElement;
+    const last = highlights[highlights.length - 1];
+    return createAnchor(
+      root,
+      getTextOffset(root, highlights[0], 0),
+      getTextOffset(root, last, last.childNodes.length)
+    );
+  }
+
+  /**
+   * Attaches a thread to the content: its existing highlight if the content
+   * still has one, otherwise wherever its quoted text is found now.
+   * Returns false when the text cannot be found.
+   */
+  private attachThread(thread: CommentThread): boolean {
+    if (!this.editor) return false;
+    if (this.getHighlights(thread.id).length > 0) return true;
+
+    const position = findAnchor(getTextContent(this.editor.contentElement), thread.anchor);
+    if (!position) return false;
+
+    // Restoring a highlight is not an edit the user should be able to undo
+    this.editor.history.ignore(() => this.highlightText(position.start, position.end, thread.id));
+    thread.anchor = this.getCurrentAnchor(thread);
+    return true;
+  }
+
+  private setOrphaned(thread: CommentThread, orphaned: boolean): boolean {
+    if (!!thread.orphaned === orphaned) return false;
+
+    thread.orphaned = orphaned;
+    this.editor?.emit(orphaned ? 'comment:orphaned' : 'comment:reattached', thread);
+    return true;
+  }
+
+  /**
+   * Content set from outside may have lost the highlights, so threads are
+   * re-attached by their quote. Other edits only move highlights around:
+   * a thread whose highlights were all deleted is orphaned, and one whose
+   * highlights came back (undo) is restored.
+   */
+  private handleTransaction = (transaction: HistoryTransaction): void => {
+    this.updateAttachment(transaction.origin === 'setContent');
+  };
+
+  private handleUndoRedo = (): void => {
+    this.updateAttachment(false);
+  };
+
+  private updateAttachment(reattach: boolean): void {
+    let changed = false;
+
+    this.threads.forEach(thread => {
+      const attached = reattach
+        ? this.attachThread(thread)
+        : this.getHighlights(thread.id).length > 0;
+      changed = this.setOrphaned(thread, !attached) || changed;
+    });
+
+    if (changed) {
+      this.updateSidePanel();
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    this.storage.save(this.storageKey, this.getThreads())
+      .catch(error => errorHandler.handle(error as Error, 'Failed to save comments'));
+  }
+
+  /**
+   * All threads with their anchors updated to the current content. The
+   * result is plain data that can be stored and passed to loadThreads().
+   */
+  getThreads(): CommentThread[] {
+    return Array.from(this.threads.values()).map(thread => ({
+      ...thread,
+      anchor: this.getCurrentAnchor(thread),
+      comments: thread.comments.map(comment => ({ ...comment }))
+    }));
+  }
+
+  /**
+   * Replaces all threads, e.g. with ones loaded from a server. Dates may be
+   * ISO strings. Threads whose text cannot be found are marked orphaned.
+   */
+  loadThreads(threads: CommentThread[]): void {
+    const reviveComment = (comment: Comment): Comment => ({
+      ...comment,
+      timestamp: new Date(comment.timestamp),
+      ...(comment.edited && { edited: new Date(comment.edited) })
+    });
+
+    this.threads.clear();
+    this.comments.clear();
+    threads.forEach(data => {
+      const thread: CommentThread = { ...data, comments: data.comments.map(reviveComment) };
+      this.threads.set(thread.id, thread);
+      thread.comments.forEach(comment => this.comments.set(comment.id, comment));
+    });
+
+    // Highlights of threads that are not part of the new set
+    const stale = this.getHighlights()
+      .filter(highlight => !this.threads.has(highlight.getAttribute('data-thread-id') || ''));
+    this.editor?.history.ignore(() => stale.forEach(highlight => this.unwrapHighlight(highlight)));
+
+    this.threads.forEach(thread => {
+      thread.orphaned = !this.attachThread(thread);
+    });
+
+    this.updateSidePanel();
+    this.editor?.emit('comments:load', this.getThreads());
+  }
+
+  exportThreads(): string {
+    return JSON.stringify(this.getThreads());
+  }
+
+  importThreads(json: string): void {
+    this.loadThreads(JSON.parse(json));
+    this.persist();
+  }
+
+  private findThreadAtRange(_range: Range): CommentThread | null {
+    // Simple implementation - in production, would need more sophisticated range comparison
+    return null;
   }
 
   private showThread(threadId: string): void {
@@ -374,14 +607,94 @@ class CommentsPluginImpl implements Plugin {
     if (!content) return;
 
     content.innerHTML = '';
+    this.updateAssigneeFilter();
+
+    Array.from(this.threads.values())
+      .filter(thread => this.matchesFilter(thread))
+      .forEach(thread => {
+        const threadEl = this.createThreadElement(thread);
+        content.appendChild(threadEl);
+      });
+  }
+
+  private matchesFilter(thread: CommentThread): boolean {
+    const { status = 'all', assignee } = this.filter;
+
+    if (status === 'open' && thread.resolved) return false;
+    if (status === 'resolved' && !thread.resolved) return false;
+    if (assignee === null) return !thread.assignee;
+    if (assignee !== undefined) return thread.assignee?.id === assignee;
+    return true;
+  }
+
+  // The assignee filter offers everyone who has a thread assigned
+  private updateAssigneeFilter(): void {
+    const select = this.sidePanel?.querySelector<HTMLSelectElement>('.xeditor-comments-filter-assignee');
+    if (!select || !this.editor) return;
 
+    const assignees = new Map<string, CommentUser>();
     this.threads.forEach(thread => {
-      const threadEl = this.createThreadElement(thread);
-      content.appendChild(threadEl);
+      if (thread.assignee) assignees.set(thread.assignee.id, thread.assignee);
+    });
+    if (this.filter.assignee && !assignees.has(this.filter.assignee)) {
+      assignees.set(this.filter.assignee, { id: this.filter.assignee, name: this.filter.assignee });
+    }
+
+    select.innerHTML = '';
+    select.appendChild(createElement('option', { value: '' }, [this.editor.t('comments.anyone')]));
+    select.appendChild(createElement('option', { value: UNASSIGNED }, [this.editor.t('comments.unassigned')]));
+    assignees.forEach(user => {
+      select.appendChild(createElement('option', { value: user.id }, [user.name]));
     });
+
+    const { assignee } = this.filter;
+    select.value = assignee === undefined ? '' : (assignee === null ? UNASSIGNED : assignee);
+
+    const status = this.sidePanel?.querySelector<HTMLSelectElement>('.xeditor-comments-filter-status');
+    if (status) status.value = this.filter.status || 'all';
+  }
+
+  setFilter(filter: CommentsFilter): void {
+    this.filter = { ...filter };
+    this.updateSidePanel();
+  }
+
+  getFilter(): CommentsFilter {
+    return { ...this.filter };
+  }
+
+  assignThread(threadId: string, user: CommentUser | null): void {
+    const thread = this.threads.get(threadId);
+    if (!thread) return;
+
+    if (user) {
+      thread.assignee = { ...user };
+    } else {
+      delete thread.assignee;
+    }
+    this.updateSidePanel();
+    this.persist();
+
+    if (this.config.onAssign) {
+      this.config.onAssign(thread);
+    }
+
+    this.editor?.emit('comment:assign', thread);
+  }
+
+  resolveThread(threadId: string, resolved: boolean = true): void {
+    const thread = this.threads.get(threadId);
+    if (!thread || thread.resolved === resolved) return;
+
+    thread.resolved = resolved;
+    this.updateSidePanel();
+    this.persist();
+
+    this.editor?.emit(resolved ? 'comment:resolve' : 'comment:reopen', thread);
   }
 
   private createThreadElement(thread: CommentThread): HTMLElement {
+    const editor = this.editor!;
     const container = createElement('div', {
       className: 'xeditor-comment-thread'
     });
@@ -393,8 +706,20 @@ class CommentsPluginImpl implements Plugin {
       padding: 10px;
       margin-bottom: 10px;
       ${thread.id === this.activeThreadId ? 'border-color: #007bff;' : ''}
+      ${thread.orphaned ? 'opacity: 0.7; border-style: dashed;' : ''}
     `;
 
+    if (thread.orphaned) {
+      container.classList.add('xeditor-comment-thread--orphaned');
+      const notice = createElement('div', {
+        className: 'xeditor-comment-orphaned'
+      }, [editor.t('comments.orphaned', { text: thread.anchor.exact })]);
+      notice.style.cssText = 'color: #666; font-size: 12px; font-style: italic; margin-bottom: 8px;';
+      container.appendChild(notice);
+    }
+
+    container.appendChild(this.createThreadMeta(thread, container));
+
     thread.comments.forEach((comment, index) => {
       const commentEl = this.createCommentElement(comment, thread.id, index > 0);
       container.appendChild(commentEl);
@@ -403,7 +728,7 @@ class CommentsPluginImpl implements Plugin {
     if (this.config.allowReplies && !thread.resolved) {
       const replyBtn = createElement('button', {
         className: 'xeditor-comment-reply'
-      }, ['Reply']) as HTMLButtonElement;
+      }, [editor.t('comments.reply')]) as HTMLButtonElement;
       
       replyBtn.style.cssText = `
         background: none;
@@ -424,7 +749,70 @@ class CommentsPluginImpl implements Plugin {
     return container;
   }
 
+  // Assignee and resolve state, with the actions that change them
+  private createThreadMeta(thread: CommentThread, container: HTMLElement): HTMLElement {
+    // The panel only exists once the plugin is initialized
+    const editor = this.editor!;
+    const meta = createElement('div', {
+      className: 'xeditor-comment-thread-meta'
+    });
+    meta.style.cssText = 'display: flex; align-items: center; gap: 10px; font-size: 12px; margin-bottom: 8px;';
+
+    const linkStyle = 'background: none; border: none; color: #007bff; cursor: pointer; font-size: 12px; padding: 0;';
+
+    const assignee = createElement('span', {
+      className: 'xeditor-comment-assignee'
+    }, [thread.assignee
+      ? editor.t('comments.assignedTo', { name: thread.assignee.name })
+      : editor.t('comments.unassigned')]);
+    assignee.style.cssText = 'color: #666; margin-right: auto;';
+    meta.appendChild(assignee);
+
+    const directory = this.config.userDirectory;
+    if (directory) {
+      const assignBtn = createElement('button', {
+        type: 'button'
+      }, [editor.t(thread.assignee ? 'comments.reassign' : 'comments.assign')]) as HTMLButtonElement;
+      assignBtn.style.cssText = linkStyle;
+      assignBtn.addEventListener('click', () => {
+        if (container.querySelector('.xeditor-comment-assign-input')) return;
+
+        const input = createElement('input', {
+          type: 'text',
+          className: 'xeditor-comment-assign-input',
+          placeholder: editor.t('comments.searchUsers')
+        }) as HTMLInputElement;
+        input.style.cssText = 'width: 100%; box-sizing: border-box; padding: 4px 8px; margin-bottom: 8px;';
+        meta.after(input);
+
+        const picker = new UserPicker(input, directory, user => {
+          picker.destroy();
+          this.assignThread(thread.id, user);
+        });
+        input.focus();
+      });
+      meta.appendChild(assignBtn);
+
+      if (thread.assignee) {
+        const unassignBtn = createElement('button', { type: 'button' }, [editor.t('comments.unassign')]) as HTMLButtonElement;
+        unassignBtn.style.cssText = linkStyle;
+        unassignBtn.addEventListener('click', () => this.assignThread(thread.id, null));
+        meta.appendChild(unassignBtn);
+      }
+    }
+
+    const resolveBtn = createElement('button', {
+      type: 'button'
+    }, [editor.t(thread.resolved ? 'comments.reopen' : 'comments.resolve')]) as HTMLButtonElement;
+    resolveBtn.style.cssText = linkStyle;
+    resolveBtn.addEventListener('click', () => this.resolveThread(thread.id, !thread.resolved));
+    meta.appendChild(resolveBtn);
+
+    return meta;
+  }
+
   private createCommentElement(comment: Comment, threadId: string, isReply: boolean = false): HTMLElement {
+    const editor = this.editor!;
     const container = createElement('div', {
       className: 'xeditor-comment'
     });
@@ -445,13 +833,13 @@ class CommentsPluginImpl implements Plugin {
 
     const text = createElement('div');
     text.style.cssText = 'font-size: 14px; line-height: 1.4;';
-    text.textContent = comment.text;
+    renderCommentText(comment.text, text);
 
     const actions = createElement('div');
     actions.style.cssText = 'margin-top: 5px;';
 
     if (this.config.allowEdit && comment.author === this.config.currentUser) {
-      const editBtn = createElement('button', {}, ['Edit']) as HTMLButtonElement;
+      const editBtn = createElement('button', {}, [editor.t('comments.edit')]) as HTMLButtonElement;
       editBtn.style.cssText = `
         background: none;
         border: none;
@@ -465,7 +853,7 @@ class CommentsPluginImpl implements Plugin {
     }
 
     if (this.config.allowDelete && comment.author === this.config.currentUser) {
-      const deleteBtn = createElement('button', {}, ['Delete']) as HTMLButtonElement;
+      const deleteBtn = createElement('button', {}, [editor.t('comments.delete')]) as HTMLButtonElement;
       deleteBtn.style.cssText = `
         background: none;
         border: none;
@@ -485,6 +873,7 @@ class CommentsPluginImpl implements Plugin {
   }
 
   private showReplyInput(threadId: string, container: HTMLElement): void {
+    const editor = this.editor!;
     const existing = container.querySelector('.xeditor-comment-reply-input');
     if (existing) return;
 
@@ -494,7 +883,7 @@ class CommentsPluginImpl implements Plugin {
     replyContainer.style.cssText = 'margin-top: 10px;';
 
     const textarea = createElement('textarea', {
-      placeholder: 'Write a reply...'
+      placeholder: editor.t('comments.replyPlaceholder')
     }) as HTMLTextAreaElement;
     textarea.style.cssText = `
       width: 100%;
@@ -510,7 +899,7 @@ class CommentsPluginImpl implements Plugin {
     const buttons = createElement('div');
     buttons.style.cssText = 'margin-top: 5px; text-align: right;';
 
-    const cancelBtn = createElement('button', {}, ['Cancel']) as HTMLButtonElement;
+    const cancelBtn = createElement('button', {}, [editor.t('common.cancel')]) as HTMLButtonElement;
     cancelBtn.style.cssText = `
       background: none;
       border: 1px solid #ddd;
@@ -521,7 +910,7 @@ class CommentsPluginImpl implements Plugin {
       font-size: 12px;
     `;
 
-    const postBtn = createElement('button', {}, ['Post']) as HTMLButtonElement;
+    const postBtn = createElement('button', {}, [editor.t('comments.post')]) as HTMLButtonElement;
     postBtn.style.cssText = `
       background: #007bff;
       color: white;
@@ -537,6 +926,7 @@ class CommentsPluginImpl implements Plugin {
 
     replyContainer.appendChild(textarea);
     replyContainer.appendChild(buttons);
+    const input = this.createCommentInput(textarea);
 
     const replyBtn = container.querySelector('.xeditor-comment-reply');
     container.insertBefore(replyContainer, replyBtn);
@@ -548,7 +938,7 @@ class CommentsPluginImpl implements Plugin {
     });
 
     postBtn.addEventListener('click', () => {
-      const text = textarea.value.trim();
+      const text = input.getValue();
       if (text) {
         this.addReply(threadId, text);
         replyContainer.remove();
@@ -565,7 +955,7 @@ class CommentsPluginImpl implements Plugin {
       text,
       author: this.config.currentUser || 'Anonymous',
       timestamp: new Date(),
-      range: thread.range,
+      mentions: getMentionedIds(text),
       resolved: false,
       parentId: thread.comments[0].id
     };
@@ -573,36 +963,46 @@ class CommentsPluginImpl implements Plugin {
     thread.comments.push(reply);
     this.comments.set(reply.id, reply);
     this.updateSidePanel();
+    this.persist();
 
     if (this.config.onCommentAdd) {
       this.config.onCommentAdd(reply);
     }
 
     this.editor?.emit('comment:add', reply);
+    this.notifyMentions(reply, thread);
   }
 
   private editComment(commentId: string): void {
     // Implementation for editing comments
     const comment = this.comments.get(commentId);
-    if (!comment) return;
+    if (!comment || !this.editor) return;
 
     // Show edit dialog
-    const newText = prompt('Edit comment:', comment.text);
+    const newText = prompt(this.editor.t('comments.editPrompt'), comment.text);
     if (newText && newText !== comment.text) {
+      const previousMentions = comment.mentions || [];
       comment.text = newText;
+      comment.mentions = getMentionedIds(newText);
       comment.edited = new Date();
       this.updateSidePanel();
+      this.persist();
 
       if (this.config.onCommentUpdate) {
         this.config.onCommentUpdate(comment);
       }
 
       this.editor?.emit('comment:update', comment);
+
+      const thread = Array.from(this.threads.values()).find(t => t.comments.includes(comment));
+      if (thread) {
+        this.notifyMentions(comment, thread, previousMentions);
+      }
     }
   }
 
   private deleteComment(commentId: string, threadId: string): void {
-    if (!confirm('Delete this comment?')) return;
+    if (!this.editor || !confirm(this.editor.t('comments.deleteConfirm'))) return;
 
     const thread = this.threads.get(threadId);
     if (!thread) return;
@@ -612,20 +1012,11 @@ class CommentsPluginImpl implements Plugin {
 
     if (thread.comments.length === 0) {
       this.threads.delete(threadId);
-      // Remove highlight
-      const highlight = this.editor?.contentElement.querySelector(
-        `.${this.highlightClass}[data-thread-id="${threadId}"]`
-      );
-      if (highlight) {
-        const parent = highlight.parentNode;
-        while (highlight.firstChild) {
-          parent?.insertBefore(highlight.firstChild, highlight);
-        }
-        parent?.removeChild(highlight);
-      }
+      this.removeHighlights(threadId);
     }
 
     this.updateSidePanel();
+    this.persist();
 
     if (this.config.onCommentDelete) {
       this.config.onCommentDelete(commentId);
@@ -669,6 +1060,12 @@ class CommentsPluginImpl implements Plugin {
   private addStyles(): void {
     const style = createElement('style');
     style.textContent = `
+      .${this.highlightClass} {
+        background-color: rgba(255, 235, 59, 0.4);
+        cursor: pointer;
+        position: relative;
+      }
+      
       .${this.highlightClass}:hover {
         background-color: rgba(255, 235, 59, 0.6) !important;
       }
@@ -689,6 +1086,55 @@ class CommentsPluginImpl implements Plugin {
       .xeditor-comment-thread:hover {
         box-shadow: 0 2px 5px rgba(0,0,0,0.1);
       }
+      
+      .xeditor-mention {
+        display: inline-block;
+        padding: 0 6px;
+        border-radius: 10px;
+        background: #e7f1ff;
+        color: #0056b3;
+        font-weight: 500;
+      }
+      
+      .xeditor-mention-field {
+        position: relative;
+      }
+      
+      .xeditor-mention-list {
+        position: absolute;
+        left: 0;
+        right: 0;
+        top: 100%;
+        margin: 2px 0 0;
+        padding: 4px 0;
+        list-style: none;
+        background: white;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+        max-height: 200px;
+        overflow-y: auto;
+        z-index: 2001;
+      }
+      
+      .xeditor-mention-option {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 6px 10px;
+        cursor: pointer;
+        font-size: 14px;
+      }
+      
+      .xeditor-mention-option img {
+        width: 20px;
+        height: 20px;
+        border-radius: 50%;
+      }
+      
+      .xeditor-mention-option--active {
+        background: #f0f0f0;
+      }
     `;
     document.head.appendChild(style);
   }
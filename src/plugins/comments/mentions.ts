@@ -0,0 +1,235 @@
+import { CommentUser } from '../../types';
+import { createElement } from '../../utils/dom';
+import { errorHandler } from '../../utils/error-handler';
+
+export type UserDirectory = (query: string) => CommentUser[] | Promise<CommentUser[]>;
+
+// Mentions are stored in the comment text as @[Name](id)
+const MENTION_TOKEN = /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+// The `@query` being typed right before the caret
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/;
+const MAX_SUGGESTIONS = 8;
+
+export function formatMention(user: CommentUser): string {
+  return `@[${user.name}](${user.id})`;
+}
+
+// Ids of the users mentioned in a comment, without duplicates
+export function getMentionedIds(text: string): string[] {
+  const ids = Array.from(text.matchAll(MENTION_TOKEN), match => match[2]);
+  return Array.from(new Set(ids));
+}
+
+// Renders comment text with mentions as chips; everything else stays text
+export function renderCommentText(text: string, container: HTMLElement): void {
+  let last = 0;
+  for (const match of text.matchAll(MENTION_TOKEN)) {
+    const index = match.index || 0;
+    if (index > last) {
+      container.appendChild(document.createTextNode(text.slice(last, index)));
+    }
+    container.appendChild(createElement('span', {
+      className: 'xeditor-mention',
+      'data-user-id': match[2]
+    }, [`@${match[1]}`]));
+    last = index + match[0].length;
+  }
+  if (last < text.length) {
+    container.appendChild(document.createTextNode(text.slice(last)));
+  }
+}
+
+/**
+ * Suggestion list of users from the directory, shown below a text field
+ * and driven by the keyboard. Subclasses decide what is looked up and what
+ * picking a user does.
+ */
+abstract class UserSuggestions<T extends HTMLInputElement | HTMLTextAreaElement> {
+  protected field: T;
+  private directory: UserDirectory;
+  private list: HTMLElement;
+  private suggestions: CommentUser[] = [];
+  private activeIndex = 0;
+  private requestId = 0;
+
+  constructor(field: T, directory: UserDirectory) {
+    this.field = field;
+    this.directory = directory;
+
+    const wrapper = createElement('div', { className: 'xeditor-mention-field' });
+    field.parentNode?.insertBefore(wrapper, field);
+    wrapper.appendChild(field);
+
+    this.list = createElement('ul', {
+      className: 'xeditor-mention-list',
+      role: 'listbox'
+    });
+    this.list.style.display = 'none';
+    wrapper.appendChild(this.list);
+
+    const element: HTMLElement = field;
+    element.addEventListener('input', this.handleInput);
+    element.addEventListener('keydown', this.handleKeyDown);
+    element.addEventListener('blur', this.handleBlur);
+  }
+
+  destroy(): void {
+    const element: HTMLElement = this.field;
+    element.removeEventListener('input', this.handleInput);
+    element.removeEventListener('keydown', this.handleKeyDown);
+    element.removeEventListener('blur', this.handleBlur);
+    this.list.remove();
+  }
+
+  // What to look up, or null when no suggestions should be shown
+  protected abstract getQuery(): string | null;
+
+  protected abstract pick(user: CommentUser): void;
+
+  protected close(): void {
+    this.suggestions = [];
+    this.list.style.display = 'none';
+  }
+
+  private handleInput = async (): Promise<void> => {
+    const query = this.getQuery();
+    if (query === null) {
+      this.close();
+      return;
+    }
+
+    const requestId = ++this.requestId;
+    try {
+      const users = await this.directory(query);
+      // A newer keystroke has started another lookup
+      if (requestId !== this.requestId) return;
+      this.open(users.slice(0, MAX_SUGGESTIONS));
+    } catch (error) {
+      errorHandler.handle(error as Error, 'Failed to look up users');
+      this.close();
+    }
+  };
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (this.suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        this.setActive((this.activeIndex + 1) % this.suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        this.setActive((this.activeIndex - 1 + this.suggestions.length) % this.suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        this.pick(this.suggestions[this.activeIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        this.close();
+        break;
+    }
+  };
+
+  private handleBlur = (): void => {
+    // Let a click on a suggestion land first
+    setTimeout(() => this.close(), 150);
+  };
+
+  private open(users: CommentUser[]): void {
+    this.suggestions = users;
+    this.list.innerHTML = '';
+
+    if (users.length === 0) {
+      this.close();
+      return;
+    }
+
+    users.forEach((user, index) => {
+      const item = createElement('li', {
+        className: 'xeditor-mention-option',
+        role: 'option'
+      });
+      if (user.avatar) {
+        item.appendChild(createElement('img', { src: user.avatar, alt: '' }));
+      }
+      item.appendChild(document.createTextNode(user.name));
+
+      item.addEventListener('mousedown', e => {
+        // Keep focus in the field
+        e.preventDefault();
+        this.pick(user);
+      });
+      item.addEventListener('mouseenter', () => this.setActive(index));
+      this.list.appendChild(item);
+    });
+
+    this.list.style.display = 'block';
+    this.setActive(0);
+  }
+
+  private setActive(index: number): void {
+    this.activeIndex = index;
+    Array.from(this.list.children).forEach((item, i) => {
+      item.classList.toggle('xeditor-mention-option--active', i === index);
+      item.setAttribute('aria-selected', String(i === index));
+    });
+  }
+}
+
+/**
+ * `@` autocomplete for a comment textarea. Picked users are written as
+ * `@Name` while typing; getValue() turns them into mention tokens.
+ */
+export class MentionInput extends UserSuggestions<HTMLTextAreaElement> {
+  private picked: Map<string, CommentUser> = new Map();
+
+  // The text with picked users as mention tokens
+  getValue(): string {
+    let text = this.field.value.trim();
+    this.picked.forEach((user, name) => {
+      text = text.split(`@${name}`).join(formatMention(user));
+    });
+    return text;
+  }
+
+  protected getQuery(): string | null {
+    const beforeCaret = this.field.value.slice(0, this.field.selectionStart);
+    const match = beforeCaret.match(MENTION_QUERY);
+    return match ? match[1] : null;
+  }
+
+  protected pick(user: CommentUser): void {
+    const caret = this.field.selectionStart;
+    const beforeCaret = this.field.value.slice(0, caret).replace(/@[^\s@]*$/, `@${user.name} `);
+
+    this.field.value = beforeCaret + this.field.value.slice(caret);
+    this.field.setSelectionRange(beforeCaret.length, beforeCaret.length);
+    this.picked.set(user.name, user);
+    this.close();
+    this.field.focus();
+  }
+}
+
+// Search field that hands the chosen user to a callback
+export class UserPicker extends UserSuggestions<HTMLInputElement> {
+  private onPick: (user: CommentUser) => void;
+
+  constructor(field: HTMLInputElement, directory: UserDirectory, onPick: (user: CommentUser) => void) {
+    super(field, directory);
+    this.onPick = onPick;
+  }
+
+  protected getQuery(): string {
+    return this.field.value.trim();
+  }
+
+  protected pick(user: CommentUser): void {
+    this.close();
+    this.onPick(user);
+  }
+}
@@ -0,0 +1,92 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'comments.editPrompt': 'Edit comment:',
+    'comments.deleteConfirm': 'Delete this comment?',
+    'comments.anyone': 'Anyone',
+    'comments.unassigned': 'Unassigned',
+    'comments.assignedTo': 'Assigned to {name}',
+    'comments.assign': 'Assign',
+    'comments.reassign': 'Reassign',
+    'comments.unassign': 'Unassign',
+    'comments.searchUsers': 'Search users...',
+    'comments.resolve': 'Resolve',
+    'comments.reopen': 'Reopen',
+    'comments.placeholder': 'Add a comment...',
+    'comments.add': 'Add Comment',
+    'comments.togglePanel': 'Toggle Comments Panel',
+    'comments.orphaned': 'The commented text "{text}" was deleted',
+    'comments.reply': 'Reply',
+    'comments.replyPlaceholder': 'Write a reply...',
+    'comments.post': 'Post',
+    'comments.edit': 'Edit',
+    'comments.delete': 'Delete'
+  },
+  de: {
+    'comments.editPrompt': 'Kommentar bearbeiten:',
+    'comments.deleteConfirm': 'Diesen Kommentar löschen?',
+    'comments.anyone': 'Alle',
+    'comments.unassigned': 'Nicht zugewiesen',
+    'comments.assignedTo': 'Zugewiesen an {name}',
+    'comments.assign': 'Zuweisen',
+    'comments.reassign': 'Neu zuweisen',
+    'comments.unassign': 'Zuweisung aufheben',
+    'comments.searchUsers': 'Benutzer suchen...',
+    'comments.resolve': 'Erledigen',
+    'comments.reopen': 'Wieder öffnen',
+    'comments.placeholder': 'Kommentar hinzufügen...',
+    'comments.add': 'Kommentar hinzufügen',
+    'comments.togglePanel': 'Kommentarbereich ein-/ausblenden',
+    'comments.orphaned': 'Der kommentierte Text „{text}“ wurde gelöscht',
+    'comments.reply': 'Antworten',
+    'comments.replyPlaceholder': 'Antwort schreiben...',
+    'comments.post': 'Senden',
+    'comments.edit': 'Bearbeiten',
+    'comments.delete': 'Löschen'
+  },
+  ja: {
+    'comments.editPrompt': 'コメントを編集:',
+    'comments.deleteConfirm': 'このコメントを削除しますか？',
+    'comments.anyone': 'すべて',
+    'comments.unassigned': '未割り当て',
+    'comments.assignedTo': '担当: {name}',
+    'comments.assign': '割り当て',
+    'comments.reassign': '再割り当て',
+    'comments.unassign': '割り当て解除',
+    'comments.searchUsers': 'ユーザーを検索...',
+    'comments.resolve': '解決',
+    'comments.reopen': '再開',
+    'comments.placeholder': 'コメントを追加...',
+    'comments.add': 'コメントを追加',
+    'comments.togglePanel': 'コメントパネルの表示切り替え',
+    'comments.orphaned': 'コメント対象のテキスト「{text}」は削除されました',
+    'comments.reply': '返信',
+    'comments.replyPlaceholder': '返信を入力...',
+    'comments.post': '投稿',
+    'comments.edit': '編集',
+    'comments.delete': '削除'
+  },
+  ar: {
+    'comments.editPrompt': 'تعديل التعليق:',
+    'comments.deleteConfirm': 'هل تريد حذف هذا التعليق؟',
+    'comments.anyone': 'أي شخص',
+    'comments.unassigned': 'غير معيّن',
+    'comments.assignedTo': 'معيّن إلى {name}',
+    'comments.assign': 'تعيين',
+    'comments.reassign': 'إعادة تعيين',
+    'comments.unassign': 'إلغاء التعيين',
+    'comments.searchUsers': 'البحث عن مستخدمين...',
+    'comments.resolve': 'حل',
+    'comments.reopen': 'إعادة فتح',
+    'comments.placeholder': 'أضف تعليقًا...',
+    'comments.add': 'إضافة تعليق',
+    'comments.togglePanel': 'إظهار لوحة التعليقات أو إخفاؤها',
+    'comments.orphaned': 'حُذف النص المعلَّق عليه "{text}"',
+    'comments.reply': 'رد',
+    'comments.replyPlaceholder': 'اكتب ردًا...',
+    'comments.post': 'نشر',
+    'comments.edit': 'تعديل',
+    'comments.delete': 'حذف'
+  }
+};
@@ -0,0 +1,137 @@
+export type DocxImageType = 'png' | 'jpeg' | 'gif' | 'bmp';
+
+/**
+ * An image ready to embed. Images that could not be fetched, from another
+ * origin without CORS for instance, have no data and are linked to instead.
+ */
+export interface DocxImage {
+  data: Uint8Array | null;
+  type: DocxImageType;
+  // Pixel size read from the file, 0 when unknown
+  width: number;
+  height: number;
+}
+
+export const IMAGE_CONTENT_TYPES: Record<DocxImageType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp'
+};
+
+function startsWith(data: Uint8Array, bytes: number[]): boolean {
+  return bytes.every((byte, index) => data[index] === byte);
+}
+
+// The format and pixel size of image data, from its header; null for formats Word cannot show
+function sniff(data: Uint8Array): { type: DocxImageType; width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47]) && data.length >= 24) {
+    return { type: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (startsWith(data, [0x47, 0x49, 0x46, 0x38]) && data.length >= 10) {
+    return { type: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (startsWith(data, [0x42, 0x4d]) && data.length >= 26) {
+    return { type: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+  }
+  if (startsWith(data, [0xff, 0xd8])) {
+    // The size is in the first start-of-frame segment
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { type: 'jpeg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return { type: 'jpeg', width: 0, height: 0 };
+  }
+  return null;
+}
+
+function decodeDataURI(src: string): Uint8Array | null {
+  const match = src.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (!match) return null;
+  if (!match[1]) {
+    return new TextEncoder().encode(decodeURIComponent(match[2]));
+  }
+  const binary = atob(match[2].replace(/\s/g, ''));
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return data;
+}
+
+async function fetchData(src: string): Promise<Uint8Array | null> {
+  if (src.startsWith('data:')) {
+    return decodeDataURI(src);
+  }
+  const response = await fetch(src);
+  if (!response.ok) return null;
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Formats Word cannot show, such as WebP or SVG, drawn onto a canvas and saved as PNG
+function convertToPNG(data: Uint8Array): Promise<Uint8Array | null> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(new Blob([data]));
+    const img = new Image();
+    const done = (result: Uint8Array | null) => {
+      URL.revokeObjectURL(url);
+      resolve(result);
+    };
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const context = canvas.getContext('2d');
+      if (!context || canvas.width === 0) {
+        done(null);
+        return;
+      }
+      context.drawImage(img, 0, 0);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          done(null);
+          return;
+        }
+        blob.arrayBuffer().then(buffer => done(new Uint8Array(buffer)), () => done(null));
+      }, 'image/png');
+    };
+    img.onerror = () => done(null);
+    img.src = url;
+  });
+}
+
+async function loadImage(src: string): Promise<DocxImage | null> {
+  let data: Uint8Array | null = null;
+  try {
+    data = await fetchData(src);
+  } catch {
+    data = null;
+  }
+
+  if (!data) {
+    return /^https?:/i.test(src) ? { data: null, type: 'png', width: 0, height: 0 } : null;
+  }
+
+  let info = sniff(data);
+  if (!info) {
+    const converted = await convertToPNG(data);
+    info = converted ? sniff(converted) : null;
+    data = converted;
+  }
+  return info && data ? { data, ...info } : null;
+}
+
+/**
+ * Fetches every image once. Sources that are neither readable nor linkable
+ * map to null and are left out of the document.
+ */
+export async function loadImages(sources: string[]): Promise<Map<string, DocxImage | null>> {
+  const unique = Array.from(new Set(sources.filter(Boolean)));
+  const images = await Promise.all(unique.map(loadImage));
+  return new Map(unique.map((src, index) => [src, images[index]]));
+}
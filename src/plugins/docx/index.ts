@@ -0,0 +1,64 @@
+import { Plugin, Editor, DocNode } from '../../types';
+import { errorHandler } from '../../utils/error-handler';
+import { loadImages } from './images';
+import { messages } from './messages';
+import { DOCX_MIME_TYPE, buildDocx } from './package';
+import { resolvePage } from './page';
+
+const DEFAULT_FILE_NAME = 'document.docx';
+
+function collectImageSources(nodes: DocNode[], sources: string[] = []): string[] {
+  nodes.forEach(node => {
+    const src = node.attrs?.src;
+    if (node.type === 'image' && typeof src === 'string') {
+      sources.push(src);
+    }
+    collectImageSources(node.content || [], sources);
+  });
+  return sources;
+}
+
+/**
+ * Exports the content as a Word document, built entirely in the browser.
+ * Page size, margins, header and footer come from the `printPreview`
+ * settings, so the file pages the way the print preview does.
+ */
+export class DocxPlugin implements Plugin {
+  name = 'docx';
+  private editor!: Editor;
+
+  init(editor: Editor): void {
+    this.editor = editor;
+    editor.i18n.register(messages);
+
+    editor.commands.register('exportDocx', {
+      execute: (fileName?: string) => {
+        this.downloadDocx(fileName).catch(error => {
+          errorHandler.handle(error as Error, this.editor.t('docx.exportFailed'));
+        });
+      }
+    });
+  }
+
+  async exportDocx(): Promise<Blob> {
+    const doc = this.editor.getJSON();
+    const images = await loadImages(collectImageSources(doc.content));
+    const data = buildDocx(doc, {
+      page: resolvePage(this.editor.config.printPreview),
+      images,
+      pageNumber: this.editor.t('docx.pageNumber')
+    });
+    return new Blob([data], { type: DOCX_MIME_TYPE });
+  }
+
+  async downloadDocx(fileName: string = DEFAULT_FILE_NAME): Promise<void> {
+    const blob = await this.exportDocx();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName.endsWith('.docx') ? fileName : `${fileName}.docx`;
+    a.click();
+    URL.revokeObjectURL(url);
+    this.editor.emit('docx:exported', blob);
+  }
+}
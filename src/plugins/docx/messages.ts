@@ -0,0 +1,20 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'docx.pageNumber': 'Page {page} of {pages}',
+    'docx.exportFailed': 'The document could not be exported to Word.'
+  },
+  de: {
+    'docx.pageNumber': 'Seite {page} von {pages}',
+    'docx.exportFailed': 'Das Dokument konnte nicht nach Word exportiert werden.'
+  },
+  ja: {
+    'docx.pageNumber': '{page} / {pages} ページ',
+    'docx.exportFailed': 'ドキュメントをWord形式で書き出せませんでした。'
+  },
+  ar: {
+    'docx.pageNumber': 'الصفحة {page} من {pages}',
+    'docx.exportFailed': 'تعذّر تصدير المستند إلى Word.'
+  }
+};
@@ -0,0 +1,206 @@
+import { DocumentJSON } from '../../types';
+import { DocxImage, DocxImageType, IMAGE_CONTENT_TYPES } from './images';
+import { DocxPage, contentWidth } from './page';
+import { DocumentWriter, RELATIONSHIP_TYPES, escapeXML } from './writer';
+import { ZipEntry, createZip } from './zip';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"'
+].join(' ');
+
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+export const DOCX_MIME_TYPE = `${CONTENT_TYPE}.document`;
+
+// Heading sizes in half-points, as the editor shows them relative to 12pt text
+const HEADING_SIZES = [48, 36, 28, 24, 20, 16];
+
+const BULLETS = ['•', '◦', '▪'];
+
+export interface DocxOptions {
+  page: DocxPage;
+  images: Map<string, DocxImage | null>;
+  // Footer page number text, with {page} and {pages} where the numbers go
+  pageNumber: string;
+}
+
+function paragraphStyle(id: string, name: string, pPr: string, rPr: string, extra: string = ''): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>` +
+    `<w:next w:val="Normal"/>${extra}<w:qFormat/>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+}
+
+function stylesXML(): string {
+  const headings = HEADING_SIZES.map((size, index) => paragraphStyle(
+    `Heading${index + 1}`,
+    `heading ${index + 1}`,
+    `<w:keepNext/><w:keepLines/><w:spacing w:before="240" w:after="120" w:line="288" w:lineRule="auto"/><w:outlineLvl w:val="${index}"/>`,
+    `<w:b/><w:bCs/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`
+  )).join('');
+
+  return `${XML_DECLARATION}<w:styles ${NAMESPACES}>` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:eastAsia="Arial" w:cs="Arial"/>' +
+    '<w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="384" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>' +
+    '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:semiHidden/>' +
+    '<w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/>' +
+    '<w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+    headings +
+    paragraphStyle('Quote', 'Quote',
+      '<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="DDDDDD"/></w:pBdr>',
+      '<w:color w:val="555555"/>') +
+    paragraphStyle('Code', 'Code',
+      '<w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:contextualSpacing/>',
+      '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:eastAsia="Consolas" w:cs="Consolas"/><w:sz w:val="20"/><w:szCs w:val="20"/>') +
+    paragraphStyle('ListParagraph', 'List Paragraph', '<w:contextualSpacing/>', '') +
+    paragraphStyle('Caption', 'caption', '<w:spacing w:after="200"/>',
+      '<w:color w:val="666666"/><w:sz w:val="20"/><w:szCs w:val="20"/>') +
+    paragraphStyle('Header', 'header',
+      '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="4" w:color="EEEEEE"/></w:pBdr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/>',
+      '<w:color w:val="666666"/><w:sz w:val="18"/><w:szCs w:val="18"/>') +
+    paragraphStyle('Footer', 'footer',
+      '<w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="EEEEEE"/></w:pBdr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/>',
+      '<w:color w:val="666666"/><w:sz w:val="18"/><w:szCs w:val="18"/>') +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/>' +
+    '<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/>' +
+    '<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:tblPr><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+      .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="DDDDDD"/>`).join('') +
+    '</w:tblBorders></w:tblPr></w:style>' +
+    '</w:styles>';
+}
+
+// Bullets cycle through three symbols; numbers stay decimal at every level, as HTML lists do
+function numberingXML(writer: DocumentWriter): string {
+  const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) => {
+    const format = ordered
+      ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>`
+      : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${BULLETS[level % BULLETS.length]}"/>`;
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+
+  const abstracts = [false, true].map((ordered, index) =>
+    `<w:abstractNum w:abstractNumId="${index}"><w:multiLevelType w:val="hybridMultilevel"/>${levels(ordered)}</w:abstractNum>`);
+  // Every list restarts its numbering
+  const lists = writer.lists.map((list, index) => {
+    const override = list.ordered
+      ? `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride>`
+      : '';
+    return `<w:num w:numId="${index + 1}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>${override}</w:num>`;
+  });
+
+  return `${XML_DECLARATION}<w:numbering ${NAMESPACES}>${abstracts.join('')}${lists.join('')}</w:numbering>`;
+}
+
+function textRun(text: string): string {
+  return text ? `<w:r><w:t xml:space="preserve">${escapeXML(text)}</w:t></w:r>` : '';
+}
+
+function headerXML(page: DocxPage): string {
+  return `${XML_DECLARATION}<w:hdr ${NAMESPACES}><w:p><w:pPr><w:pStyle w:val="Header"/><w:jc w:val="center"/></w:pPr>` +
+    `${textRun(page.header)}</w:p></w:hdr>`;
+}
+
+// The footer text on the left and the page number on the right, as in the print preview
+function footerXML(page: DocxPage, pageNumber: string): string {
+  let runs = textRun(page.footer);
+  if (page.pageNumbers) {
+    runs += '<w:r><w:tab/></w:r>';
+    runs += pageNumber.split(/(\{pages?\})/).map(part => {
+      if (part === '{page}' || part === '{pages}') {
+        const field = part === '{page}' ? 'PAGE' : 'NUMPAGES';
+        return `<w:fldSimple w:instr=" ${field} "><w:r><w:t>1</w:t></w:r></w:fldSimple>`;
+      }
+      return textRun(part);
+    }).join('');
+  }
+  return `${XML_DECLARATION}<w:ftr ${NAMESPACES}><w:p><w:pPr><w:pStyle w:val="Footer"/>` +
+    `<w:tabs><w:tab w:val="right" w:pos="${contentWidth(page)}"/></w:tabs></w:pPr>${runs}</w:p></w:ftr>`;
+}
+
+function sectionXML(page: DocxPage, header: string | null, footer: string | null): string {
+  const { top, right, bottom, left } = page.margins;
+  // Header and footer sit halfway into the margin, or at Word's usual distance
+  const headerDistance = Math.min(708, Math.round(top / 2));
+  const footerDistance = Math.min(708, Math.round(bottom / 2));
+  return '<w:sectPr>' +
+    (header ? `<w:headerReference w:type="default" r:id="${header}"/>` : '') +
+    (footer ? `<w:footerReference w:type="default" r:id="${footer}"/>` : '') +
+    `<w:pgSz w:w="${page.width}" w:h="${page.height}"${page.landscape ? ' w:orient="landscape"' : ''}/>` +
+    `<w:pgMar w:top="${top}" w:right="${right}" w:bottom="${bottom}" w:left="${left}" ` +
+    `w:header="${headerDistance}" w:footer="${footerDistance}" w:gutter="0"/>` +
+    '</w:sectPr>';
+}
+
+function relationshipsXML(relationships: { id: string; type: string; target: string; external?: boolean }[]): string {
+  const items = relationships.map(({ id, type, target, external }) =>
+    `<Relationship Id="${id}" Type="${type}" Target="${escapeXML(target)}"${external ? ' TargetMode="External"' : ''}/>`);
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items.join('')}</Relationships>`;
+}
+
+/**
+ * Packages the document as a .docx file: the body, its styles and list
+ * numbering, a header and footer from the page settings, and the images.
+ */
+export function buildDocx(doc: DocumentJSON, options: DocxOptions): Uint8Array {
+  const { page } = options;
+  const writer = new DocumentWriter(options.images);
+  writer.relate(RELATIONSHIP_TYPES.styles, 'styles.xml');
+  writer.relate(RELATIONSHIP_TYPES.numbering, 'numbering.xml');
+  const header = page.header ? writer.relate(RELATIONSHIP_TYPES.header, 'header1.xml') : null;
+  const footer = page.footer || page.pageNumbers ? writer.relate(RELATIONSHIP_TYPES.footer, 'footer1.xml') : null;
+
+  const body = writer.write(doc, contentWidth(page));
+  const documentXML = `${XML_DECLARATION}<w:document ${NAMESPACES}><w:body>${body}${sectionXML(page, header, footer)}</w:body></w:document>`;
+
+  const parts: ZipEntry[] = [
+    { name: 'word/document.xml', data: documentXML },
+    { name: 'word/styles.xml', data: stylesXML() },
+    { name: 'word/numbering.xml', data: numberingXML(writer) }
+  ];
+  const overrides = [
+    ['/word/document.xml', `${CONTENT_TYPE}.document.main+xml`],
+    ['/word/styles.xml', `${CONTENT_TYPE}.styles+xml`],
+    ['/word/numbering.xml', `${CONTENT_TYPE}.numbering+xml`]
+  ];
+  if (header) {
+    parts.push({ name: 'word/header1.xml', data: headerXML(page) });
+    overrides.push(['/word/header1.xml', `${CONTENT_TYPE}.header+xml`]);
+  }
+  if (footer) {
+    parts.push({ name: 'word/footer1.xml', data: footerXML(page, options.pageNumber) });
+    overrides.push(['/word/footer1.xml', `${CONTENT_TYPE}.footer+xml`]);
+  }
+  writer.media.forEach(media => parts.push({ name: `word/${media.name}`, data: media.data }));
+
+  const imageTypes = Array.from(new Set(writer.media.map(media => media.name.split('.').pop() as DocxImageType)));
+  const contentTypes = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    imageTypes.map(type => `<Default Extension="${type}" ContentType="${IMAGE_CONTENT_TYPES[type]}"/>`).join('') +
+    overrides.map(([name, type]) => `<Override PartName="${name}" ContentType="${type}"/>`).join('') +
+    '</Types>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    {
+      name: '_rels/.rels',
+      data: relationshipsXML([{
+        id: 'rId1',
+        type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+        target: 'word/document.xml'
+      }])
+    },
+    { name: 'word/_rels/document.xml.rels', data: relationshipsXML(writer.relationships) },
+    ...parts
+  ]);
+}
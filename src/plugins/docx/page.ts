@@ -0,0 +1,66 @@
+import { PrintPreviewConfig } from '../../types';
+
+// Word measures pages in twentieths of a point
+const TWIPS_PER_UNIT: Record<string, number> = {
+  in: 1440,
+  cm: 1440 / 2.54,
+  mm: 1440 / 25.4,
+  pt: 20,
+  pc: 240,
+  px: 15
+};
+
+// Portrait sizes in twips
+const PAGE_SIZES: Record<string, [number, number]> = {
+  A4: [11906, 16838],
+  Letter: [12240, 15840],
+  Legal: [12240, 20160]
+};
+
+const DEFAULT_MARGIN = '2cm';
+
+export interface DocxPage {
+  width: number;
+  height: number;
+  landscape: boolean;
+  margins: { top: number; right: number; bottom: number; left: number };
+  header: string;
+  footer: string;
+  pageNumbers: boolean;
+}
+
+/**
+ * A CSS length in twips. Unitless numbers are taken as pixels, like the
+ * print preview does; anything else unreadable is `fallback`.
+ */
+export function toTwips(length: string | number | undefined, fallback: number): number {
+  if (typeof length === 'number') {
+    return Math.round(length * TWIPS_PER_UNIT.px);
+  }
+  const match = (length || '').trim().match(/^(\d*\.?\d+)\s*(in|cm|mm|pt|pc|px)?$/i);
+  if (!match) return fallback;
+  return Math.round(parseFloat(match[1]) * TWIPS_PER_UNIT[(match[2] || 'px').toLowerCase()]);
+}
+
+// The print preview settings with its defaults filled in, as Word page geometry
+export function resolvePage(config: PrintPreviewConfig = {}): DocxPage {
+  const [width, height] = PAGE_SIZES[config.pageSize || 'A4'] || PAGE_SIZES.A4;
+  const landscape = config.orientation === 'landscape';
+  const fallback = toTwips(DEFAULT_MARGIN, 0);
+  const margin = (side: 'top' | 'right' | 'bottom' | 'left') => toTwips(config.margins?.[side] || DEFAULT_MARGIN, fallback);
+
+  return {
+    width: landscape ? height : width,
+    height: landscape ? width : height,
+    landscape,
+    margins: { top: margin('top'), right: margin('right'), bottom: margin('bottom'), left: margin('left') },
+    header: config.showHeaders !== false ? (config.headerText || document.title) : '',
+    footer: config.footerText || '',
+    pageNumbers: config.showPageNumbers !== false
+  };
+}
+
+// Width between the margins, in twips
+export function contentWidth(page: DocxPage): number {
+  return Math.max(1440, page.width - page.margins.left - page.margins.right);
+}
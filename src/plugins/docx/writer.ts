@@ -0,0 +1,744 @@
+import { DocumentJSON, DocNode, DocMark, DocAttrs } from '../../types';
+import { DocxImage } from './images';
+
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const RELATIONSHIP_TYPES = {
+  styles: `${REL_TYPE}/styles`,
+  numbering: `${REL_TYPE}/numbering`,
+  header: `${REL_TYPE}/header`,
+  footer: `${REL_TYPE}/footer`,
+  hyperlink: `${REL_TYPE}/hyperlink`,
+  image: `${REL_TYPE}/image`
+};
+
+// English Metric Units, which drawings are measured in
+const EMU_PER_PX = 9525;
+const TWIPS_PER_PX = 15;
+// How far each list, quote or indent level moves its paragraphs in
+const LEVEL_INDENT = 720;
+const HANGING_INDENT = 360;
+// Default left plus right cell margin of a table cell
+const CELL_MARGINS = 216;
+const DEFAULT_IMAGE_SIZE: [number, number] = [400, 300];
+
+const ALIGNMENTS: Record<string, string> = {
+  left: 'left',
+  start: 'left',
+  center: 'center',
+  right: 'right',
+  end: 'right',
+  justify: 'both'
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF',
+  yellow: 'FFFF00', orange: 'FFA500', purple: '800080', gray: '808080', grey: '808080',
+  silver: 'C0C0C0', maroon: '800000', navy: '000080', teal: '008080', olive: '808000',
+  lime: '00FF00', aqua: '00FFFF', cyan: '00FFFF', fuchsia: 'FF00FF', magenta: 'FF00FF'
+};
+
+// Keyword font sizes in pixels
+const FONT_SIZES: Record<string, number> = {
+  'xx-small': 9, 'x-small': 10, small: 13, medium: 16, large: 18, 'x-large': 24, 'xx-large': 32
+};
+
+const GENERIC_FONTS: Record<string, string> = {
+  serif: 'Times New Roman',
+  'sans-serif': 'Arial',
+  monospace: 'Courier New',
+  'system-ui': 'Arial'
+};
+
+const CODE_FONT = 'Consolas';
+const CHECKBOX_FONT = 'Segoe UI Symbol';
+
+export function escapeXML(text: string): string {
+  return text
+    .replace(/\p{Cc}/gu, char => (char === '\t' || char === '\n' || char === '\r' ? char : ''))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A CSS color as the hex Word uses; null for transparent or unreadable colors
+export function toHexColor(color: string): string | null {
+  const value = color.trim().toLowerCase();
+  if (NAMED_COLORS[value]) return NAMED_COLORS[value];
+
+  const hex = value.match(/^#([\da-f]{3,8})$/);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      return digits.slice(0, 3).split('').map(digit => digit + digit).join('').toUpperCase();
+    }
+    return digits.length >= 6 ? digits.slice(0, 6).toUpperCase() : null;
+  }
+
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+    return rgb.slice(1, 4)
+      .map(channel => Math.min(255, Math.round(parseFloat(channel))).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+  return null;
+}
+
+// A CSS font size in half-points, taking relative sizes against the 16px body text
+function toHalfPoints(size: string): number | null {
+  const value = size.trim().toLowerCase();
+  if (FONT_SIZES[value]) return FONT_SIZES[value] * 1.5;
+  const match = value.match(/^(\d*\.?\d+)(px|pt|em|rem|%)?$/);
+  if (!match) return null;
+  const number = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'pt':
+      return Math.round(number * 2);
+    case 'em':
+    case 'rem':
+      return Math.round(number * 24);
+    case '%':
+      return Math.round(number * 0.24);
+    default:
+      return Math.round(number * 1.5);
+  }
+}
+
+// The first family of a CSS font-family list
+function toFontName(family: string): string | null {
+  const first = family.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  if (!first) return null;
+  return GENERIC_FONTS[first.toLowerCase()] || first;
+}
+
+function attr(attrs: DocAttrs | undefined, name: string): string {
+  const value = attrs?.[name];
+  return typeof value === 'string' ? value : '';
+}
+
+function numberAttr(attrs: DocAttrs | undefined, name: string): number {
+  const value = attrs?.[name];
+  return typeof value === 'number' ? value : 0;
+}
+
+function sameMark(a: DocMark | null, b: DocMark | null): boolean {
+  if (!a || !b) return a === b;
+  return a.type === b.type && JSON.stringify(a.attrs || {}) === JSON.stringify(b.attrs || {});
+}
+
+function isInline(node: DocNode): boolean {
+  return ['text', 'image', 'hard_break', 'html'].includes(node.type);
+}
+
+// Text the way HTML renders it, with runs of whitespace shown as one space
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\n\r\f]+/g, ' ');
+}
+
+function htmlText(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content.textContent || '';
+}
+
+interface RunProps {
+  style?: string;
+  font?: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  color?: string;
+  size?: number;
+  underline?: boolean;
+  shading?: string;
+  vertAlign?: 'superscript' | 'subscript';
+}
+
+// Run properties in the order the schema requires them
+function runPropsXML(props: RunProps): string {
+  let xml = '';
+  if (props.style) xml += `<w:rStyle w:val="${props.style}"/>`;
+  if (props.font) {
+    const font = escapeXML(props.font);
+    xml += `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>`;
+  }
+  if (props.bold) xml += '<w:b/><w:bCs/>';
+  if (props.italic) xml += '<w:i/><w:iCs/>';
+  if (props.strike) xml += '<w:strike/>';
+  if (props.color) xml += `<w:color w:val="${props.color}"/>`;
+  if (props.size) xml += `<w:sz w:val="${props.size}"/><w:szCs w:val="${props.size}"/>`;
+  if (props.underline) xml += '<w:u w:val="single"/>';
+  if (props.shading) xml += `<w:shd w:val="clear" w:color="auto" w:fill="${props.shading}"/>`;
+  if (props.vertAlign) xml += `<w:vertAlign w:val="${props.vertAlign}"/>`;
+  return xml ? `<w:rPr>${xml}</w:rPr>` : '';
+}
+
+function markProps(marks: DocMark[], base: RunProps): RunProps {
+  const props: RunProps = { ...base };
+  marks.forEach(mark => {
+    const value = (name: string) => attr(mark.attrs, name);
+    switch (mark.type) {
+      case 'link':
+        props.style = 'Hyperlink';
+        break;
+      case 'bold':
+        props.bold = true;
+        break;
+      case 'italic':
+        props.italic = true;
+        break;
+      case 'underline':
+        props.underline = true;
+        break;
+      case 'strike':
+        props.strike = true;
+        break;
+      case 'code':
+        props.font = CODE_FONT;
+        break;
+      case 'subscript':
+        props.vertAlign = 'subscript';
+        break;
+      case 'superscript':
+        props.vertAlign = 'superscript';
+        break;
+      case 'color':
+        props.color = toHexColor(value('color')) || props.color;
+        break;
+      case 'highlight':
+        props.shading = toHexColor(value('color')) || props.shading;
+        break;
+      case 'font':
+        props.font = toFontName(value('family')) || props.font;
+        break;
+      case 'fontSize':
+        props.size = toHalfPoints(value('size')) || props.size;
+        break;
+    }
+  });
+  return props;
+}
+
+interface ParagraphProps {
+  style?: string;
+  keepNext?: boolean;
+  numbering?: { id: number; level: number };
+  border?: boolean;
+  bidi?: boolean;
+  indent?: number;
+  hanging?: number;
+  align?: string;
+}
+
+function paragraphPropsXML(props: ParagraphProps): string {
+  let xml = '';
+  if (props.style) xml += `<w:pStyle w:val="${props.style}"/>`;
+  if (props.keepNext) xml += '<w:keepNext/>';
+  if (props.numbering) {
+    xml += `<w:numPr><w:ilvl w:val="${props.numbering.level}"/><w:numId w:val="${props.numbering.id}"/></w:numPr>`;
+  }
+  if (props.border) {
+    xml += '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>';
+  }
+  if (props.bidi) xml += '<w:bidi/>';
+  if (props.indent || props.hanging) {
+    xml += `<w:ind w:left="${props.indent || 0}"${props.hanging ? ` w:hanging="${props.hanging}"` : ''}/>`;
+  }
+  const align = props.align && ALIGNMENTS[props.align];
+  if (align) xml += `<w:jc w:val="${align}"/>`;
+  return xml ? `<w:pPr>${xml}</w:pPr>` : '';
+}
+
+// Where blocks are being written and what they inherit from their parents
+interface BlockContext {
+  // Paragraph style for plain paragraphs, as inside a quote
+  style?: string;
+  // Left indent in twips
+  indent: number;
+  // Room for the content in twips, before the indent
+  width: number;
+  align?: string;
+  run: RunProps;
+  listLevel: number;
+}
+
+interface ListDefinition {
+  ordered: boolean;
+  level: number;
+  start: number;
+}
+
+interface CellPlacement {
+  cell: DocNode;
+  row: number;
+  col: number;
+  colspan: number;
+  rowspan: number;
+}
+
+export interface DocxRelationship {
+  id: string;
+  type: string;
+  target: string;
+  external?: boolean;
+}
+
+export interface DocxMedia {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Writes the document model as WordprocessingML body content, collecting
+ * the relationships, media and list definitions the body refers to.
+ */
+export class DocumentWriter {
+  relationships: DocxRelationship[] = [];
+  media: DocxMedia[] = [];
+  lists: ListDefinition[] = [];
+  private images: Map<string, DocxImage | null>;
+  private imageRelations = new Map<string, string>();
+  private nextId = 1;
+  // The number of the list item whose first paragraph is being written
+  private pendingNumber: { id: number; level: number } | null = null;
+
+  constructor(images: Map<string, DocxImage | null>) {
+    this.images = images;
+  }
+
+  relate(type: string, target: string, external: boolean = false): string {
+    const id = `rId${this.relationships.length + 1}`;
+    this.relationships.push({ id, type, target, external });
+    return id;
+  }
+
+  write(doc: DocumentJSON, width: number): string {
+    const body = this.blocks(doc.content, { indent: 0, width, run: {}, listLevel: 0 });
+    return body || '<w:p/>';
+  }
+
+  private blocks(nodes: DocNode[], ctx: BlockContext): string {
+    let xml = '';
+    let inline: DocNode[] = [];
+    const flushInline = () => {
+      // Whitespace between blocks does not render
+      const blank = inline.every(node => node.type === 'text' && !(node.text || '').trim());
+      if (!blank) {
+        xml += this.paragraph({ type: 'paragraph', content: inline }, ctx);
+      }
+      inline = [];
+    };
+
+    nodes.forEach(node => {
+      if (isInline(node)) {
+        inline.push(node);
+        return;
+      }
+      flushInline();
+      const block = this.block(node, ctx);
+      // Word joins tables that follow each other into one
+      if (block.startsWith('<w:tbl>') && xml.endsWith('</w:tbl>')) {
+        xml += '<w:p/>';
+      }
+      xml += block;
+    });
+    flushInline();
+    return xml;
+  }
+
+  private block(node: DocNode, ctx: BlockContext): string {
+    switch (node.type) {
+      case 'paragraph':
+        return this.paragraph(node, ctx);
+      case 'heading':
+        return this.paragraph(node, { ...ctx, style: `Heading${Math.min(6, Math.max(1, numberAttr(node.attrs, 'level') || 1))}` });
+      case 'blockquote':
+        return this.blocks(node.content || [], {
+          ...this.nested(node, ctx),
+          style: 'Quote',
+          indent: ctx.indent + LEVEL_INDENT
+        });
+      case 'division':
+        return this.blocks(node.content || [], this.nested(node, ctx));
+      case 'code_block':
+        return this.codeBlock(node, ctx);
+      case 'bullet_list':
+      case 'ordered_list':
+        return this.list(node, ctx);
+      case 'task_list':
+        return this.taskList(node, ctx);
+      case 'table':
+        return this.table(node, ctx);
+      case 'figure':
+        return this.figure(node, ctx);
+      case 'horizontal_rule':
+        return `<w:p>${paragraphPropsXML({ border: true, indent: ctx.indent })}</w:p>`;
+      default:
+        return node.content ? this.blocks(node.content, ctx) : '';
+    }
+  }
+
+  // Context for the children of a container block, which inherit its alignment and indent
+  private nested(node: DocNode, ctx: BlockContext): BlockContext {
+    return {
+      ...ctx,
+      align: attr(node.attrs, 'align') || ctx.align,
+      indent: ctx.indent + numberAttr(node.attrs, 'indent') * TWIPS_PER_PX
+    };
+  }
+
+  private paragraphProps(node: DocNode, ctx: BlockContext, props: ParagraphProps = {}): ParagraphProps {
+    const result: ParagraphProps = {
+      style: ctx.style,
+      bidi: attr(node.attrs, 'dir') === 'rtl',
+      indent: ctx.indent + numberAttr(node.attrs, 'indent') * TWIPS_PER_PX,
+      align: attr(node.attrs, 'align') || ctx.align,
+      ...props
+    };
+    if (this.pendingNumber) {
+      result.numbering = this.pendingNumber;
+      result.hanging = HANGING_INDENT;
+      this.pendingNumber = null;
+    }
+    return result;
+  }
+
+  private paragraph(node: DocNode, ctx: BlockContext, props: ParagraphProps = {}, prefix: string = ''): string {
+    const id = attr(node.attrs, 'id');
+    let runs = prefix + this.inline(node.content || [], ctx);
+    // Internal links point at elements by id
+    if (id) {
+      const bookmark = this.nextId++;
+      runs = `<w:bookmarkStart w:id="${bookmark}" w:name="${escapeXML(id)}"/>${runs}<w:bookmarkEnd w:id="${bookmark}"/>`;
+    }
+    return `<w:p>${paragraphPropsXML(this.paragraphProps(node, ctx, props))}${runs}</w:p>`;
+  }
+
+  private codeBlock(node: DocNode, ctx: BlockContext): string {
+    const text = (node.content || []).map(child => child.text || '').join('').replace(/\n$/, '');
+    const props = paragraphPropsXML(this.paragraphProps(node, ctx, { style: 'Code' }));
+    return text.split('\n').map(line => {
+      const runs = line.split('\t').map(part => part ? `<w:r><w:t xml:space="preserve">${escapeXML(part)}</w:t></w:r>` : '');
+      return `<w:p>${props}${runs.join('<w:r><w:tab/></w:r>')}</w:p>`;
+    }).join('');
+  }
+
+  private list(node: DocNode, ctx: BlockContext): string {
+    const ordered = node.type === 'ordered_list';
+    const level = Math.min(8, ctx.listLevel);
+    this.lists.push({ ordered, level, start: numberAttr(node.attrs, 'start') || 1 });
+    const id = this.lists.length;
+
+    const itemContext: BlockContext = {
+      ...this.nested(node, ctx),
+      style: ctx.style === 'Quote' ? ctx.style : 'ListParagraph',
+      indent: ctx.indent + numberAttr(node.attrs, 'indent') * TWIPS_PER_PX + LEVEL_INDENT,
+      listLevel: ctx.listLevel + 1
+    };
+
+    return (node.content || []).map(item => {
+      const content = item.content || [];
+      this.pendingNumber = { id, level };
+      let xml = '';
+      // The number goes on the first paragraph, or on one of its own before a nested list or table
+      const first = content[0];
+      if (!first || !(isInline(first) || first.type === 'paragraph' || first.type === 'heading')) {
+        xml += this.paragraph({ type: 'paragraph' }, itemContext);
+      }
+      xml += this.blocks(content, itemContext);
+      this.pendingNumber = null;
+      return xml;
+    }).join('');
+  }
+
+  private taskList(node: DocNode, ctx: BlockContext): string {
+    const itemContext: BlockContext = {
+      ...this.nested(node, ctx),
+      style: ctx.style === 'Quote' ? ctx.style : 'ListParagraph',
+      indent: ctx.indent + numberAttr(node.attrs, 'indent') * TWIPS_PER_PX + LEVEL_INDENT
+    };
+    return (node.content || []).map(item => {
+      const box = item.attrs?.checked === true ? '☒' : '☐';
+      const prefix = `<w:r>${runPropsXML({ font: CHECKBOX_FONT })}<w:t>${box}</w:t></w:r><w:r><w:tab/></w:r>`;
+      return this.paragraph(item, itemContext, { hanging: HANGING_INDENT }, prefix);
+    }).join('');
+  }
+
+  private figure(node: DocNode, ctx: BlockContext): string {
+    const figureContext: BlockContext = { ...this.nested(node, ctx), align: attr(node.attrs, 'align') || 'center' };
+    return (node.content || []).map(child => {
+      if (child.type === 'figcaption') {
+        return this.paragraph(child, { ...figureContext, style: 'Caption' });
+      }
+      return this.paragraph({ type: 'paragraph', content: [child] }, figureContext, { keepNext: true });
+    }).join('');
+  }
+
+  private table(node: DocNode, ctx: BlockContext): string {
+    const content = node.content || [];
+    let xml = '';
+
+    const caption = content.find(child => child.type === 'table_caption');
+    if (caption) {
+      xml += this.paragraph(caption, { ...ctx, style: 'Caption', align: attr(caption.attrs, 'align') || 'center' }, { keepNext: true });
+    }
+
+    // Rows in the order they are shown: header, body, footer
+    const rows = ['head', 'body', 'foot'].flatMap(section =>
+      content.filter(child => child.type === 'table_row' && (attr(child.attrs, 'section') || 'body') === section));
+    if (rows.length === 0) return xml;
+
+    // Lay the cells out on the grid, so merged cells know which columns and rows they cover
+    const grid: (CellPlacement | undefined)[][] = rows.map(() => []);
+    let columns = 0;
+    rows.forEach((row, rowIndex) => {
+      let col = 0;
+      (row.content || []).forEach(cell => {
+        while (grid[rowIndex][col]) col++;
+        const placement: CellPlacement = {
+          cell,
+          row: rowIndex,
+          col,
+          colspan: Math.max(1, numberAttr(cell.attrs, 'colspan')),
+          rowspan: Math.min(rows.length - rowIndex, Math.max(1, numberAttr(cell.attrs, 'rowspan')))
+        };
+        for (let r = rowIndex; r < rowIndex + placement.rowspan; r++) {
+          for (let c = col; c < col + placement.colspan; c++) {
+            grid[r][c] = placement;
+          }
+        }
+        col += placement.colspan;
+        columns = Math.max(columns, col);
+      });
+    });
+
+    const widths = this.columnWidths(node, columns, ctx.width - ctx.indent);
+    const total = widths.reduce((sum, width) => sum + width, 0);
+    const spanWidth = (placement: CellPlacement) =>
+      widths.slice(placement.col, placement.col + placement.colspan).reduce((sum, width) => sum + width, 0);
+
+    const align = ALIGNMENTS[attr(node.attrs, 'align')];
+    let properties = `<w:tblStyle w:val="TableGrid"/><w:tblW w:w="${total}" w:type="dxa"/>`;
+    if (align) properties += `<w:jc w:val="${align}"/>`;
+    if (ctx.indent && !align) properties += `<w:tblInd w:w="${ctx.indent}" w:type="dxa"/>`;
+    properties += '<w:tblLayout w:type="fixed"/><w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="1" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/>';
+
+    xml += `<w:tbl><w:tblPr>${properties}</w:tblPr><w:tblGrid>`;
+    xml += widths.map(width => `<w:gridCol w:w="${width}"/>`).join('');
+    xml += '</w:tblGrid>';
+
+    rows.forEach((row, rowIndex) => {
+      xml += '<w:tr>';
+      if (attr(row.attrs, 'section') === 'head') {
+        // Header rows repeat on every page the table runs across
+        xml += '<w:trPr><w:tblHeader/></w:trPr>';
+      }
+      let col = 0;
+      while (col < columns) {
+        const placement = grid[rowIndex][col];
+        if (!placement) {
+          xml += `<w:tc><w:tcPr><w:tcW w:w="${widths[col]}" w:type="dxa"/></w:tcPr><w:p/></w:tc>`;
+          col++;
+          continue;
+        }
+        const width = spanWidth(placement);
+        let cellProps = `<w:tcW w:w="${width}" w:type="dxa"/>`;
+        if (placement.colspan > 1) cellProps += `<w:gridSpan w:val="${placement.colspan}"/>`;
+        if (placement.row === rowIndex) {
+          if (placement.rowspan > 1) cellProps += '<w:vMerge w:val="restart"/>';
+          const background = toHexColor(attr(placement.cell.attrs, 'background'));
+          if (background) cellProps += `<w:shd w:val="clear" w:color="auto" w:fill="${background}"/>`;
+          xml += `<w:tc><w:tcPr>${cellProps}</w:tcPr>${this.cell(placement.cell, ctx, width)}</w:tc>`;
+        } else {
+          // A row the cell above is merged down into
+          xml += `<w:tc><w:tcPr>${cellProps}<w:vMerge/></w:tcPr><w:p/></w:tc>`;
+        }
+        col += placement.colspan;
+      }
+      xml += '</w:tr>';
+    });
+
+    return `${xml}</w:tbl>`;
+  }
+
+  private cell(cell: DocNode, ctx: BlockContext, width: number): string {
+    const header = cell.attrs?.header === true;
+    const content = this.blocks(cell.content || [], {
+      indent: 0,
+      width: width - CELL_MARGINS,
+      align: attr(cell.attrs, 'align') || undefined,
+      run: header ? { ...ctx.run, bold: true } : ctx.run,
+      listLevel: 0
+    });
+    // A cell has to end with a paragraph
+    return content && !content.endsWith('</w:tbl>') ? content : `${content}<w:p/>`;
+  }
+
+  // Column widths in twips: resized columns keep their width and the rest share what is left
+  private columnWidths(node: DocNode, columns: number, available: number): number[] {
+    const given = attr(node.attrs, 'widths').split(',').map(width => (parseInt(width, 10) || 0) * TWIPS_PER_PX);
+    const widths = Array.from({ length: columns }, (_, index) => given[index] || 0);
+    const fixed = widths.reduce((sum, width) => sum + width, 0);
+    const open = widths.filter(width => !width).length;
+    const share = open > 0 ? Math.max(LEVEL_INDENT, Math.floor((available - fixed) / open)) : 0;
+    const result = widths.map(width => width || share);
+    const total = result.reduce((sum, width) => sum + width, 0);
+    return total > available ? result.map(width => Math.floor(width * available / total)) : result;
+  }
+
+  private inline(nodes: DocNode[], ctx: BlockContext): string {
+    let xml = '';
+    let link: DocMark | null = null;
+    let change: DocMark | null = null;
+
+    const closeChange = () => {
+      if (change) xml += change.type === 'insertion' ? '</w:ins>' : '</w:del>';
+      change = null;
+    };
+    const closeLink = () => {
+      if (link) xml += '</w:hyperlink>';
+      link = null;
+    };
+
+    nodes.forEach(node => {
+      const marks = node.marks || [];
+      const nodeLink = marks.find(mark => mark.type === 'link') || null;
+      const nodeChange = marks.find(mark => mark.type === 'insertion' || mark.type === 'deletion') || null;
+
+      if (!sameMark(link, nodeLink)) {
+        closeChange();
+        closeLink();
+        if (nodeLink) {
+          xml += this.openHyperlink(nodeLink);
+          link = nodeLink;
+        }
+      }
+      if (!sameMark(change, nodeChange)) {
+        closeChange();
+        if (nodeChange) {
+          xml += this.openChange(nodeChange);
+          change = nodeChange;
+        }
+      }
+      xml += this.inlineNode(node, markProps(marks, ctx.run), nodeChange?.type === 'deletion', ctx.width - ctx.indent);
+    });
+    closeChange();
+    closeLink();
+    return xml;
+  }
+
+  private openHyperlink(mark: DocMark): string {
+    const href = attr(mark.attrs, 'href');
+    const tooltip = attr(mark.attrs, 'title') ? ` w:tooltip="${escapeXML(attr(mark.attrs, 'title'))}"` : '';
+    if (href.startsWith('#')) {
+      return `<w:hyperlink w:anchor="${escapeXML(href.slice(1))}"${tooltip}>`;
+    }
+    const id = this.relate(RELATIONSHIP_TYPES.hyperlink, href, true);
+    return `<w:hyperlink r:id="${id}" w:history="1"${tooltip}>`;
+  }
+
+  // Tracked changes stay tracked, for Word to accept or reject
+  private openChange(mark: DocMark): string {
+    const tag = mark.type === 'insertion' ? 'w:ins' : 'w:del';
+    const author = attr(mark.attrs, 'author');
+    const timestamp = mark.attrs?.timestamp;
+    const date = new Date(typeof timestamp === 'string' && /^\d+$/.test(timestamp) ? Number(timestamp) : timestamp as string | number);
+    let xml = `<${tag} w:id="${this.nextId++}" w:author="${escapeXML(author || 'Unknown')}"`;
+    if (timestamp !== undefined && !isNaN(date.getTime())) {
+      xml += ` w:date="${date.toISOString().replace(/\.\d+Z$/, 'Z')}"`;
+    }
+    return `${xml}>`;
+  }
+
+  private inlineNode(node: DocNode, props: RunProps, deleted: boolean, maxWidth: number): string {
+    const rPr = runPropsXML(props);
+    switch (node.type) {
+      case 'text':
+        return this.textRun(collapseWhitespace(node.text || ''), rPr, deleted);
+      case 'hard_break':
+        return `<w:r>${rPr}<w:br/></w:r>`;
+      case 'image':
+        return this.image(node, rPr, maxWidth);
+      case 'html':
+        return this.textRun(collapseWhitespace(htmlText(attr(node.attrs, 'html'))), rPr, deleted);
+    }
+    return '';
+  }
+
+  private textRun(text: string, rPr: string, deleted: boolean): string {
+    if (!text) return '';
+    const tag = deleted ? 'w:delText' : 'w:t';
+    return `<w:r>${rPr}<${tag} xml:space="preserve">${escapeXML(text)}</${tag}></w:r>`;
+  }
+
+  private image(node: DocNode, rPr: string, maxWidth: number): string {
+    const src = attr(node.attrs, 'src');
+    const image = this.images.get(src);
+    if (!image) {
+      const alt = attr(node.attrs, 'alt');
+      return alt ? this.textRun(`[${alt}]`, rPr, false) : '';
+    }
+
+    let relation = this.imageRelations.get(src);
+    if (!relation) {
+      if (image.data) {
+        const name = `media/image${this.media.length + 1}.${image.type}`;
+        this.media.push({ name, data: image.data });
+        relation = this.relate(RELATIONSHIP_TYPES.image, name);
+      } else {
+        relation = this.relate(RELATIONSHIP_TYPES.image, src, true);
+      }
+      this.imageRelations.set(src, relation);
+    }
+
+    const [width, height] = this.imageSize(node, image, maxWidth / TWIPS_PER_PX);
+    const cx = Math.round(width * EMU_PER_PX);
+    const cy = Math.round(height * EMU_PER_PX);
+    const id = this.nextId++;
+    const alt = escapeXML(attr(node.attrs, 'alt'));
+    const title = escapeXML(attr(node.attrs, 'title'));
+    const blip = image.data ? `r:embed="${relation}"` : `r:link="${relation}"`;
+
+    return `<w:r>${rPr}<w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+      `<wp:extent cx="${cx}" cy="${cy}"/>` +
+      `<wp:docPr id="${id}" name="Picture ${id}" descr="${alt}"${title ? ` title="${title}"` : ''}/>` +
+      '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+      '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+      `<pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="Picture ${id}" descr="${alt}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip ${blip}/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+  }
+
+  // Size in pixels from the width and height attributes, the image itself, and the room there is
+  private imageSize(node: DocNode, image: DocxImage, maxWidth: number): [number, number] {
+    const dimension = (name: string, relativeTo: number): number => {
+      const value = String(node.attrs?.[name] ?? '').trim();
+      const number = parseFloat(value);
+      if (!(number > 0)) return 0;
+      return value.endsWith('%') ? relativeTo * number / 100 : number;
+    };
+    const naturalWidth = image.width || DEFAULT_IMAGE_SIZE[0];
+    const naturalHeight = image.height || DEFAULT_IMAGE_SIZE[1];
+    let width = dimension('width', maxWidth);
+    let height = dimension('height', naturalHeight);
+
+    if (width && !height) {
+      height = width * naturalHeight / naturalWidth;
+    } else if (height && !width) {
+      width = height * naturalWidth / naturalHeight;
+    } else if (!width && !height) {
+      width = naturalWidth;
+      height = naturalHeight;
+    }
+
+    if (width > maxWidth) {
+      height = height * maxWidth / width;
+      width = maxWidth;
+    }
+    return [width, height];
+  }
+}
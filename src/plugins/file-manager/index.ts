@@ -1,5 +1,6 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement } from '../../utils/dom';
+import { messages } from './messages';
 
 interface FileItem {
   id: string;
@@ -52,6 +53,7 @@ export class FileManagerPlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make method available
     (this as any).showFileManager = this.showFileManager.bind(this);
@@ -568,12 +570,15 @@ export class FileManagerPlugin implements Plugin {
   private async uploadFile(file: File): Promise<void> {
     // Check file size
     if (this.config.maxFileSize && file.size > this.config.maxFileSize) {
-      alert(`File "${file.name}" exceeds maximum size limit of ${this.formatFileSize(this.config.maxFileSize)}`);
+      alert(this.editor.t('fileManager.tooLarge', {
+        name: file.name,
+        size: this.formatFileSize(this.config.maxFileSize)
+      }));
       return;
     }
 
     if (!this.config.uploadFile) {
-      alert('Upload functionality is not configured');
+      alert(this.editor.t('fileManager.uploadNotConfigured'));
       return;
     }
 
@@ -591,7 +596,7 @@ export class FileManagerPlugin implements Plugin {
       // Select uploaded file
       this.selectFile(uploadedFile);
     } catch (error) {
-      alert(`Failed to upload ${file.name}`);
+      alert(this.editor.t('fileManager.uploadFailed', { name: file.name }));
     }
   }
 
@@ -614,14 +619,14 @@ export class FileManagerPlugin implements Plugin {
   }
 
   private async createNewFolder(): Promise<void> {
-    const name = prompt('Enter folder name:');
+    const name = prompt(this.editor.t('fileManager.folderPrompt'));
     if (!name || !this.config.createFolder) return;
 
     try {
       await this.config.createFolder(name, this.getCurrentPath());
       await this.navigateToPath(this.currentPath);
     } catch (error) {
-      alert('Failed to create folder');
+      alert(this.editor.t('fileManager.folderFailed'));
     }
   }
 
@@ -653,12 +658,12 @@ export class FileManagerPlugin implements Plugin {
       }, ['Delete']);
       
       deleteOption.addEventListener('click', async () => {
-        if (confirm(`Delete "${file.name}"?`)) {
+        if (confirm(this.editor.t('fileManager.deleteConfirm', { name: file.name }))) {
           try {
             await this.config.deleteFile!(file.id);
             await this.navigateToPath(this.currentPath);
           } catch (error) {
-            alert('Failed to delete file');
+            alert(this.editor.t('fileManager.deleteFailed'));
           }
         }
         menu.remove();
@@ -0,0 +1,40 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'fileManager.tooLarge': 'File "{name}" exceeds maximum size limit of {size}',
+    'fileManager.uploadNotConfigured': 'Upload functionality is not configured',
+    'fileManager.uploadFailed': 'Failed to upload {name}',
+    'fileManager.folderPrompt': 'Enter folder name:',
+    'fileManager.folderFailed': 'Failed to create folder',
+    'fileManager.deleteConfirm': 'Delete "{name}"?',
+    'fileManager.deleteFailed': 'Failed to delete file'
+  },
+  de: {
+    'fileManager.tooLarge': 'Die Datei „{name}“ überschreitet die maximale Größe von {size}',
+    'fileManager.uploadNotConfigured': 'Hochladen ist nicht eingerichtet',
+    'fileManager.uploadFailed': '{name} konnte nicht hochgeladen werden',
+    'fileManager.folderPrompt': 'Ordnernamen eingeben:',
+    'fileManager.folderFailed': 'Ordner konnte nicht erstellt werden',
+    'fileManager.deleteConfirm': '„{name}“ löschen?',
+    'fileManager.deleteFailed': 'Datei konnte nicht gelöscht werden'
+  },
+  ja: {
+    'fileManager.tooLarge': 'ファイル「{name}」は最大サイズ {size} を超えています',
+    'fileManager.uploadNotConfigured': 'アップロード機能が設定されていません',
+    'fileManager.uploadFailed': '{name} をアップロードできませんでした',
+    'fileManager.folderPrompt': 'フォルダー名を入力してください:',
+    'fileManager.folderFailed': 'フォルダーを作成できませんでした',
+    'fileManager.deleteConfirm': '「{name}」を削除しますか？',
+    'fileManager.deleteFailed': 'ファイルを削除できませんでした'
+  },
+  ar: {
+    'fileManager.tooLarge': 'الملف "{name}" يتجاوز الحد الأقصى للحجم {size}',
+    'fileManager.uploadNotConfigured': 'لم يتم إعداد وظيفة الرفع',
+    'fileManager.uploadFailed': 'تعذر رفع {name}',
+    'fileManager.folderPrompt': 'أدخل اسم المجلد:',
+    'fileManager.folderFailed': 'تعذر إنشاء المجلد',
+    'fileManager.deleteConfirm': 'حذف "{name}"؟',
+    'fileManager.deleteFailed': 'تعذر حذف الملف'
+  }
+};
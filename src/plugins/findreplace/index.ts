@@ -1,5 +1,6 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement, addClass, removeClass } from '../../utils/dom';
+import { messages } from './messages';
 
 interface FindReplaceOptions {
   caseSensitive?: boolean;
@@ -23,6 +24,7 @@ export class FindReplacePlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make methods available
     (this as any).showFindReplaceDialog = this.showFindReplaceDialog.bind(this);
@@ -84,21 +86,21 @@ export class FindReplacePlugin implements Plugin {
     const findInput = createElement('input', {
       type: 'text',
       className: 'xeditor-find-input',
-      placeholder: 'Find...'
+      placeholder: this.editor.t('findReplace.findPlaceholder')
     }) as HTMLInputElement;
 
     const matchInfo = createElement('span', {
       className: 'xeditor-match-info'
-    }, ['0 of 0']);
+    }, [this.editor.t('findReplace.matchInfo', { current: 0, total: 0 })]);
 
     const prevBtn = createElement('button', {
       className: 'xeditor-find-btn',
-      title: 'Previous match'
+      title: this.editor.t('findReplace.previous')
     }, ['◀']);
 
     const nextBtn = createElement('button', {
       className: 'xeditor-find-btn',
-      title: 'Next match'
+      title: this.editor.t('findReplace.next')
     }, ['▶']);
 
     findSection.appendChild(findInput);
@@ -115,16 +117,16 @@ export class FindReplacePlugin implements Plugin {
     const replaceInput = createElement('input', {
       type: 'text',
       className: 'xeditor-replace-input',
-      placeholder: 'Replace with...'
+      placeholder: this.editor.t('findReplace.replacePlaceholder')
     }) as HTMLInputElement;
 
     const replaceBtn = createElement('button', {
       className: 'xeditor-replace-btn'
-    }, ['Replace']);
+    }, [this.editor.t('findReplace.replace')]);
 
     const replaceAllBtn = createElement('button', {
       className: 'xeditor-replace-all-btn'
-    }, ['Replace All']);
+    }, [this.editor.t('findReplace.replaceAll')]);
 
     replaceSection.appendChild(replaceInput);
     replaceSection.appendChild(replaceBtn);
@@ -135,9 +137,9 @@ export class FindReplacePlugin implements Plugin {
       className: 'xeditor-find-options'
     });
 
-    const caseSensitive = this.createCheckbox('Case sensitive', 'caseSensitive');
-    const wholeWord = this.createCheckbox('Whole word', 'wholeWord');
-    const useRegex = this.createCheckbox('Use regex', 'useRegex');
+    const caseSensitive = this.createCheckbox(this.editor.t('findReplace.caseSensitive'), 'caseSensitive');
+    const wholeWord = this.createCheckbox(this.editor.t('findReplace.wholeWord'), 'wholeWord');
+    const useRegex = this.createCheckbox(this.editor.t('findReplace.useRegex'), 'useRegex');
 
     optionsSection.appendChild(caseSensitive);
     optionsSection.appendChild(wholeWord);
@@ -146,12 +148,13 @@ export class FindReplacePlugin implements Plugin {
     // Toggle button
     const toggleBtn = createElement('button', {
       className: 'xeditor-toggle-replace',
-      title: showReplace ? 'Hide replace' : 'Show replace'
+      title: this.editor.t(showReplace ? 'findReplace.hideReplace' : 'findReplace.showReplace')
     }, [showReplace ? '−' : '+']);
 
     // Close button
     const closeBtn = createElement('button', {
-      className: 'xeditor-find-close'
+      className: 'xeditor-find-close',
+      title: this.editor.t('common.close')
     }, ['×']);
 
     // Event handlers
@@ -178,7 +181,7 @@ export class FindReplacePlugin implements Plugin {
 
     replaceAllBtn.addEventListener('click', () => {
       const count = this.replaceAll(findInput.value, replaceInput.value);
-      alert(`Replaced ${count} occurrences`);
+      alert(this.editor.t('findReplace.replaced', { count }));
       this.closeDialog();
     });
 
@@ -186,6 +189,7 @@ export class FindReplacePlugin implements Plugin {
       const isVisible = replaceSection.style.display !== 'none';
       replaceSection.style.display = isVisible ? 'none' : 'flex';
       toggleBtn.textContent = isVisible ? '+' : '−';
+      toggleBtn.title = this.editor.t(isVisible ? 'findReplace.showReplace' : 'findReplace.hideReplace');
     });
 
     closeBtn.addEventListener('click', () => {
@@ -406,9 +410,12 @@ export class FindReplacePlugin implements Plugin {
 
   private updateMatchInfo(element: HTMLElement): void {
     if (this.matches.length === 0) {
-      element.textContent = '0 of 0';
+      element.textContent = this.editor.t('findReplace.matchInfo', { current: 0, total: 0 });
     } else {
-      element.textContent = `${this.currentMatch + 1} of ${this.matches.length}`;
+      element.textContent = this.editor.t('findReplace.matchInfo', {
+        current: this.currentMatch + 1,
+        total: this.matches.length
+      });
     }
   }
 
@@ -494,6 +501,11 @@ export class FindReplacePlugin implements Plugin {
         cursor: pointer;
       }
       
+      [dir="rtl"] .xeditor-toggle-replace {
+        left: auto;
+        right: -30px;
+      }
+      
       .xeditor-find-close {
         position: absolute;
         right: 8px;
@@ -505,6 +517,11 @@ export class FindReplacePlugin implements Plugin {
         color: #666;
       }
       
+      [dir="rtl"] .xeditor-find-close {
+        right: auto;
+        left: 8px;
+      }
+      
       .xeditor-find-options {
         display: flex;
         gap: 20px;
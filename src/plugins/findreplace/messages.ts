@@ -0,0 +1,79 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'findReplace.findPlaceholder': 'Find...',
+    'findReplace.replacePlaceholder': 'Replace with...',
+    'findReplace.previous': 'Previous match',
+    'findReplace.next': 'Next match',
+    'findReplace.matchInfo': '{current} of {total}',
+    'findReplace.replace': 'Replace',
+    'findReplace.replaceAll': 'Replace All',
+    'findReplace.caseSensitive': 'Case sensitive',
+    'findReplace.wholeWord': 'Whole word',
+    'findReplace.useRegex': 'Use regex',
+    'findReplace.showReplace': 'Show replace',
+    'findReplace.hideReplace': 'Hide replace',
+    'findReplace.replaced': {
+      one: 'Replaced {count} occurrence',
+      other: 'Replaced {count} occurrences'
+    }
+  },
+  de: {
+    'findReplace.findPlaceholder': 'Suchen...',
+    'findReplace.replacePlaceholder': 'Ersetzen durch...',
+    'findReplace.previous': 'Vorheriger Treffer',
+    'findReplace.next': 'Nächster Treffer',
+    'findReplace.matchInfo': '{current} von {total}',
+    'findReplace.replace': 'Ersetzen',
+    'findReplace.replaceAll': 'Alle ersetzen',
+    'findReplace.caseSensitive': 'Groß-/Kleinschreibung beachten',
+    'findReplace.wholeWord': 'Ganzes Wort',
+    'findReplace.useRegex': 'Regulärer Ausdruck',
+    'findReplace.showReplace': 'Ersetzen anzeigen',
+    'findReplace.hideReplace': 'Ersetzen ausblenden',
+    'findReplace.replaced': {
+      one: '{count} Vorkommen ersetzt',
+      other: '{count} Vorkommen ersetzt'
+    }
+  },
+  ja: {
+    'findReplace.findPlaceholder': '検索...',
+    'findReplace.replacePlaceholder': '置換後の文字列...',
+    'findReplace.previous': '前の一致',
+    'findReplace.next': '次の一致',
+    'findReplace.matchInfo': '{current} / {total}',
+    'findReplace.replace': '置換',
+    'findReplace.replaceAll': 'すべて置換',
+    'findReplace.caseSensitive': '大文字と小文字を区別',
+    'findReplace.wholeWord': '単語単位',
+    'findReplace.useRegex': '正規表現を使用',
+    'findReplace.showReplace': '置換を表示',
+    'findReplace.hideReplace': '置換を隠す',
+    'findReplace.replaced': {
+      other: '{count}件を置換しました'
+    }
+  },
+  ar: {
+    'findReplace.findPlaceholder': 'بحث...',
+    'findReplace.replacePlaceholder': 'استبدال بـ...',
+    'findReplace.previous': 'التطابق السابق',
+    'findReplace.next': 'التطابق التالي',
+    'findReplace.matchInfo': '{current} من {total}',
+    'findReplace.replace': 'استبدال',
+    'findReplace.replaceAll': 'استبدال الكل',
+    'findReplace.caseSensitive': 'مطابقة حالة الأحرف',
+    'findReplace.wholeWord': 'الكلمة كاملة',
+    'findReplace.useRegex': 'استخدام تعبير نمطي',
+    'findReplace.showReplace': 'إظهار الاستبدال',
+    'findReplace.hideReplace': 'إخفاء الاستبدال',
+    'findReplace.replaced': {
+      zero: 'لم يتم استبدال أي تطابق',
+      one: 'تم استبدال تطابق واحد',
+      two: 'تم استبدال تطابقين',
+      few: 'تم استبدال {count} تطابقات',
+      many: 'تم استبدال {count} تطابقًا',
+      other: 'تم استبدال {count} تطابق'
+    }
+  }
+};
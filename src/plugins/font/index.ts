@@ -90,118 +90,15 @@ export class FontPlugin implements Plugin {
   }
   
   private setFontFamily(font: string): void {
-    this.editor.selection.save();
-    
-    if (font === 'inherit') {
-      // Remove font family
-      this.removeFormatting('font-family');
-    } else {
-      // Apply font family
-      this.applyFormatting('font-family', font);
-    }
-    
-    this.editor.selection.restore();
+    this.editor.setMark('font', font === 'inherit' ? null : { type: 'font', attrs: { family: font } });
     this.editor.history.record();
   }
   
   private setFontSize(size: string): void {
-    this.editor.selection.save();
-    
-    // Apply font size
-    this.applyFormatting('font-size', size);
-    
-    this.editor.selection.restore();
+    this.editor.setMark('fontSize', size === 'inherit' ? null : { type: 'fontSize', attrs: { size } });
     this.editor.history.record();
   }
   
-  private applyFormatting(property: string, value: string): void {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    const range = selection.getRangeAt(0);
-    
-    // If selection is collapsed, we need to insert a new element
-    if (range.collapsed) {
-      const span = document.createElement('span');
-      span.style.setProperty(property, value);
-      span.innerHTML = '&#8203;'; // Zero-width space
-      range.insertNode(span);
-      
-      // Move cursor inside the span
-      range.selectNodeContents(span);
-      range.collapse(false);
-    } else {
-      // For selected text, wrap in span
-      try {
-        const span = document.createElement('span');
-        span.style.setProperty(property, value);
-        
-        // Extract contents and wrap
-        const contents = range.extractContents();
-        span.appendChild(contents);
-        range.insertNode(span);
-        
-        // Select the newly inserted span
-        range.selectNodeContents(span);
-      } catch (e) {
-        // Fallback: use document.execCommand with a temporary wrapper
-        const tempId = 'temp-' + Date.now();
-        document.execCommand('insertHTML', false, `<span id="${tempId}">${selection.toString()}</span>`);
-        
-        const tempSpan = document.getElementById(tempId);
-        if (tempSpan) {
-          tempSpan.style.setProperty(property, value);
-          tempSpan.removeAttribute('id');
-        }
-      }
-    }
-    
-    selection.removeAllRanges();
-    selection.addRange(range);
-  }
-  
-  private removeFormatting(property: string): void {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    const range = selection.getRangeAt(0);
-    const container = range.commonAncestorContainer;
-    
-    // Find all spans within the selection
-    const walker = document.createTreeWalker(
-      container.nodeType === Node.TEXT_NODE ? container.parentNode! : container,
-      NodeFilter.SHOW_ELEMENT,
-      {
-        acceptNode: (node) => {
-          if (node.nodeName === 'SPAN' && (node as HTMLElement).style.getPropertyValue(property)) {
-            return NodeFilter.FILTER_ACCEPT;
-          }
-          return NodeFilter.FILTER_SKIP;
-        }
-      }
-    );
-    
-    const spans: HTMLElement[] = [];
-    let node;
-    while (node = walker.nextNode()) {
-      spans.push(node as HTMLElement);
-    }
-    
-    // Remove the property from found spans
-    spans.forEach(span => {
-      span.style.removeProperty(property);
-      
-      // If span has no more styles, unwrap it
-      if (!span.getAttribute('style') || span.style.length === 0) {
-        const parent = span.parentNode;
-        while (span.firstChild) {
-          parent?.insertBefore(span.firstChild, span);
-        }
-        parent?.removeChild(span);
-      }
-    });
-  }
-  
   getCurrentFont(): string {
     const selection = window.getSelection();
     if (!selection || selection.rangeCount === 0) return 'inherit';
@@ -1,5 +1,7 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement, addClass, removeClass } from '../../utils/dom';
+import { TRANSIENT_CLASS } from '../../core/model';
+import { messages } from './messages';
 
 interface ImageOptions {
   maxSize?: number; // MB
@@ -8,14 +10,19 @@ interface ImageOptions {
   allowedTypes?: string[];
   quality?: number;
   autoResize?: boolean;
-  onUpload?: (file: File) => Promise<string>;
+  onUpload?: (file: File, onProgress?: (percent: number) => void) => Promise<string>;
   onError?: (error: Error) => void;
+  // Names used by EditorConfig.image
+  resizeBeforeUpload?: boolean;
+  upload?: (file: File, onProgress?: (percent: number) => void) => Promise<string>;
+  dataUriFallback?: boolean;
 }
 
 export class ImagePlugin implements Plugin {
   name = 'image';
   private editor!: Editor;
   private options: ImageOptions;
+  private uploadCount = 0;
 
   toolbar: ToolbarItem[] = [];
 
@@ -26,14 +33,17 @@ export class ImagePlugin implements Plugin {
       maxHeight: options.maxHeight || 1200,
       allowedTypes: options.allowedTypes || ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
       quality: options.quality || 0.9,
-      autoResize: options.autoResize !== false,
       onError: options.onError || ((error) => alert(error.message)),
-      ...options
+      ...options,
+      autoResize: (options.autoResize ?? options.resizeBeforeUpload) !== false,
+      onUpload: options.onUpload || options.upload,
+      dataUriFallback: options.dataUriFallback !== false
     };
   }
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make methods available
     (this as any).showImageDialog = this.showImageDialog.bind(this);
@@ -43,15 +53,21 @@ export class ImagePlugin implements Plugin {
       execute: (src: string) => this.insertImage(src)
     });
     
-    // Add paste handler
-    this.editor.contentElement.addEventListener('paste', this.handlePaste);
+    // Image files pasted or dropped into the content
+    this.editor.on('paste', this.handlePaste);
+    this.editor.contentElement.addEventListener('dragover', this.handleDragOver);
+    this.editor.contentElement.addEventListener('dragleave', this.handleDragLeave);
+    this.editor.contentElement.addEventListener('drop', this.handleDrop);
     
     // Add styles
     this.addStyles();
   }
 
   destroy(): void {
-    this.editor.contentElement.removeEventListener('paste', this.handlePaste);
+    this.editor.off('paste', this.handlePaste);
+    this.editor.contentElement.removeEventListener('dragover', this.handleDragOver);
+    this.editor.contentElement.removeEventListener('dragleave', this.handleDragLeave);
+    this.editor.contentElement.removeEventListener('drop', this.handleDrop);
   }
 
   private showImageDialog(): void {
@@ -319,10 +335,9 @@ export class ImagePlugin implements Plugin {
       const files = Array.from(e.dataTransfer?.files || []);
       const imageFile = files.find(file => file.type.startsWith('image/'));
       
+      // validateFile() reports a rejected file through onError
       if (imageFile && this.validateFile(imageFile)) {
         handleFile(imageFile);
-      } else if (imageFile) {
-        alert('Invalid file type or size. Please check the requirements.');
       }
     });
 
@@ -446,13 +461,13 @@ export class ImagePlugin implements Plugin {
 
   private validateFile(file: File): boolean {
     if (!this.options.allowedTypes!.includes(file.type)) {
-      this.options.onError!(new Error(`File type ${file.type} is not allowed`));
+      this.options.onError!(new Error(this.editor.t('image.typeNotAllowed', { type: file.type })));
       return false;
     }
 
     const maxSizeBytes = this.options.maxSize! * 1024 * 1024;
     if (file.size > maxSizeBytes) {
-      this.options.onError!(new Error(`File size exceeds ${this.options.maxSize}MB limit`));
+      this.options.onError!(new Error(this.editor.t('image.tooLarge', { size: this.options.maxSize! })));
       return false;
     }
 
@@ -461,19 +476,7 @@ export class ImagePlugin implements Plugin {
 
   private async uploadAndInsert(file: File, alt: string = ''): Promise<void> {
     try {
-      let src: string;
-      
-      if (this.options.onUpload) {
-        src = await this.options.onUpload(file);
-      } else {
-        // Convert to data URL
-        src = await new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(file);
-        });
-      }
+      const src = await this.getImageSource(file);
       
       this.insertImage(src, alt);
       
@@ -484,6 +487,127 @@ export class ImagePlugin implements Plugin {
     }
   }
 
+  // Uploads through the configured callback, falling back to a data URI
+  private async getImageSource(file: File, onProgress?: (percent: number) => void): Promise<string> {
+    if (this.options.onUpload) {
+      try {
+        return await this.options.onUpload(file, onProgress);
+      } catch (error) {
+        if (!this.options.dataUriFallback) throw error;
+        this.editor.events.emit('image:upload-fallback', { file, error });
+      }
+    } else if (!this.options.dataUriFallback) {
+      throw new Error('No image upload handler is configured');
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.onerror = () => reject(new Error('Failed to read file'));
+      reader.readAsDataURL(file);
+    });
+  }
+
+  private getImageFiles(data: DataTransfer): File[] {
+    const files = Array.from(data.items || [])
+      .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+      .map(item => item.getAsFile())
+      .filter((file): file is File => !!file);
+
+    return files.length > 0
+      ? files
+      : Array.from(data.files || []).filter(file => file.type.startsWith('image/'));
+  }
+
+  private insertFiles(files: File[]): void {
+    files.filter(file => this.validateFile(file)).forEach(file => {
+      const placeholder = this.insertPlaceholder(file);
+      this.uploadPlaceholder(file, placeholder);
+    });
+  }
+
+  // Inline preview with a progress bar, shown until the upload finishes
+  private insertPlaceholder(file: File): HTMLElement {
+    const placeholder = createElement('span', {
+      className: `xeditor-image-upload xeditor-image-upload--indeterminate ${TRANSIENT_CLASS}`,
+      contentEditable: 'false',
+      'data-upload-id': String(++this.uploadCount)
+    });
+
+    const preview = createElement('img', {
+      className: 'xeditor-image-upload__preview',
+      src: URL.createObjectURL(file),
+      alt: file.name
+    });
+
+    const progress = createElement('span', {
+      className: 'xeditor-image-upload__progress'
+    }, [createElement('span', { className: 'xeditor-image-upload__bar' })]);
+
+    placeholder.appendChild(preview);
+    placeholder.appendChild(progress);
+
+    const selection = window.getSelection();
+    const selected = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    const range = selected && this.editor.contentElement.contains(selected.commonAncestorContainer)
+      ? selected
+      : document.createRange();
+    if (range !== selected) {
+      range.selectNodeContents(this.editor.contentElement);
+      range.collapse(false);
+    }
+
+    // Content the image replaces is an edit of its own, which undo brings back
+    if (!range.collapsed) {
+      this.editor.history.transact('upload', () => range.deleteContents());
+    }
+
+    // The placeholder is not part of the history; only the final image is
+    this.editor.history.ignore(() => {
+      range.insertNode(placeholder);
+      range.setStartAfter(placeholder);
+      range.collapse(true);
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    });
+
+    return placeholder;
+  }
+
+  private async uploadPlaceholder(file: File, placeholder: HTMLElement): Promise<void> {
+    const preview = placeholder.querySelector('img') as HTMLImageElement;
+    const bar = placeholder.querySelector('.xeditor-image-upload__bar') as HTMLElement;
+
+    try {
+      const resized = await this.resizeImage(file);
+      const src = await this.getImageSource(resized, percent => {
+        this.editor.history.ignore(() => {
+          removeClass(placeholder, 'xeditor-image-upload--indeterminate');
+          bar.style.width = `${Math.max(0, Math.min(100, percent))}%`;
+        });
+      });
+
+      // The user may have deleted the placeholder while it was uploading
+      if (!placeholder.isConnected) return;
+
+      const img = this.createImageElement(src, '');
+      const parent = placeholder.parentNode!;
+      const next = placeholder.nextSibling;
+      this.editor.history.ignore(() => placeholder.remove());
+      this.editor.history.transact('upload', () => {
+        parent.insertBefore(img, next);
+      });
+      this.editor.events.emit('imageInserted', img);
+    } catch (error) {
+      if (placeholder.isConnected) {
+        this.editor.history.ignore(() => placeholder.remove());
+      }
+      this.options.onError!(error as Error);
+    } finally {
+      URL.revokeObjectURL(preview.src);
+    }
+  }
+
   private async resizeImage(file: File): Promise<File> {
     if (!this.options.autoResize) return file;
 
@@ -557,7 +681,7 @@ export class ImagePlugin implements Plugin {
     });
   }
 
-  private insertImage(src: string, alt: string = ''): void {
+  private createImageElement(src: string, alt: string): HTMLImageElement {
     const img = createElement('img', {
       src,
       alt,
@@ -570,6 +694,12 @@ export class ImagePlugin implements Plugin {
       img.style.height = 'auto';
     }
 
+    return img;
+  }
+
+  private insertImage(src: string, alt: string = ''): void {
+    const img = this.createImageElement(src, alt);
+
     this.editor.focus();
     this.editor.execCommand('insertHTML', img.outerHTML);
     
@@ -583,20 +713,61 @@ export class ImagePlugin implements Plugin {
   }
 
   private handlePaste = (e: ClipboardEvent): void => {
-    const items = e.clipboardData?.items;
-    if (!items) return;
-
-    for (const item of items) {
-      if (item.type.startsWith('image/')) {
-        e.preventDefault();
-        const file = item.getAsFile();
-        if (file && this.validateFile(file)) {
-          this.uploadAndInsert(file);
-        }
-        break;
+    const data = e.clipboardData;
+    // Copied documents carry their text along with images; those go through
+    // the paste pipeline. Screenshots and copied images have no text.
+    if (!data || data.getData('text/plain')) return;
+
+    const files = this.getImageFiles(data);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    this.insertFiles(files);
+  };
+
+  private handleDragOver = (e: DragEvent): void => {
+    if (!e.dataTransfer || !Array.from(e.dataTransfer.types).includes('Files')) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    addClass(this.editor.contentElement, 'xeditor-content--drop-target');
+  };
+
+  private handleDragLeave = (): void => {
+    removeClass(this.editor.contentElement, 'xeditor-content--drop-target');
+  };
+
+  private handleDrop = (e: DragEvent): void => {
+    removeClass(this.editor.contentElement, 'xeditor-content--drop-target');
+
+    const files = e.dataTransfer ? this.getImageFiles(e.dataTransfer) : [];
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    this.placeCaretAt(e.clientX, e.clientY);
+    this.insertFiles(files);
+  };
+
+  private placeCaretAt(x: number, y: number): void {
+    let range: Range | null = null;
+
+    if (typeof document.caretPositionFromPoint === 'function') {
+      const position = document.caretPositionFromPoint(x, y);
+      if (position) {
+        range = document.createRange();
+        range.setStart(position.offsetNode, position.offset);
       }
+    } else if (typeof document.caretRangeFromPoint === 'function') {
+      range = document.caretRangeFromPoint(x, y);
     }
-  };
+
+    if (!range || !this.editor.contentElement.contains(range.startContainer)) return;
+
+    range.collapse(true);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }
 
   private addStyles(): void {
     const style = createElement('style');
@@ -893,6 +1064,55 @@ export class ImagePlugin implements Plugin {
         background-color: #e5e7eb;
       }
       
+      /* Pasted and dropped images while uploading */
+      .xeditor-image-upload {
+        position: relative;
+        display: inline-block;
+        max-width: 100%;
+        vertical-align: bottom;
+      }
+      
+      .xeditor-image-upload__preview {
+        display: block;
+        max-width: 100%;
+        max-height: 300px;
+        opacity: 0.5;
+      }
+      
+      .xeditor-image-upload__progress {
+        position: absolute;
+        left: 10%;
+        right: 10%;
+        bottom: 12px;
+        height: 6px;
+        overflow: hidden;
+        background-color: rgba(255, 255, 255, 0.8);
+        border-radius: 3px;
+      }
+      
+      .xeditor-image-upload__bar {
+        display: block;
+        width: 0;
+        height: 100%;
+        background-color: #3b82f6;
+        transition: width 0.2s;
+      }
+      
+      .xeditor-image-upload--indeterminate .xeditor-image-upload__bar {
+        width: 30%;
+        animation: xeditor-image-upload-progress 1.2s ease-in-out infinite;
+      }
+      
+      @keyframes xeditor-image-upload-progress {
+        from { transform: translateX(-100%); }
+        to { transform: translateX(340%); }
+      }
+      
+      .xeditor-content--drop-target {
+        outline: 2px dashed #3b82f6;
+        outline-offset: -4px;
+      }
+      
       /* Dark theme */
       [data-theme="dark"] .xeditor-image-dialog {
         background-color: #1f2937;
@@ -0,0 +1,20 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'image.typeNotAllowed': 'File type {type} is not allowed',
+    'image.tooLarge': 'File size exceeds {size}MB limit'
+  },
+  de: {
+    'image.typeNotAllowed': 'Dateityp {type} ist nicht erlaubt',
+    'image.tooLarge': 'Die Datei ist größer als {size} MB'
+  },
+  ja: {
+    'image.typeNotAllowed': 'ファイル形式 {type} は許可されていません',
+    'image.tooLarge': 'ファイルサイズが上限の {size}MB を超えています'
+  },
+  ar: {
+    'image.typeNotAllowed': 'نوع الملف {type} غير مسموح به',
+    'image.tooLarge': 'حجم الملف يتجاوز الحد الأقصى {size} ميغابايت'
+  }
+};
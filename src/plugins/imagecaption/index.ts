@@ -1,5 +1,6 @@
 import { Plugin, Editor } from '../../types';
 import { createElement, addClass, removeClass, findParentElement } from '../../utils/dom';
+import { messages } from './messages';
 
 interface ImageCaptionConfig {
   defaultCaption?: string;
@@ -9,6 +10,7 @@ interface ImageCaptionConfig {
 
 export class ImageCaptionPlugin implements Plugin {
   name = 'imagecaption';
+  dependencies = ['image'];
   private editor!: Editor;
   private config: ImageCaptionConfig;
   private selectedImage: HTMLImageElement | null = null;
@@ -23,6 +25,7 @@ export class ImageCaptionPlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Add styles
     this.addStyles();
@@ -190,7 +193,7 @@ export class ImageCaptionPlugin implements Plugin {
     }
     
     if (!this.selectedImage) {
-      alert('Please select an image first');
+      alert(this.editor.t('imageCaption.selectImage'));
       return;
     }
     
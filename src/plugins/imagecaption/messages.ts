@@ -0,0 +1,16 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'imageCaption.selectImage': 'Please select an image first'
+  },
+  de: {
+    'imageCaption.selectImage': 'Bitte wählen Sie zuerst ein Bild aus'
+  },
+  ja: {
+    'imageCaption.selectImage': '先に画像を選択してください'
+  },
+  ar: {
+    'imageCaption.selectImage': 'يُرجى تحديد صورة أولًا'
+  }
+};
@@ -22,10 +22,12 @@ export { FileManagerPlugin } from './file-manager';
 export { QuickInsertPlugin } from './quick-insert';
 export { FormElementsPlugin } from './form-elements';
 export { PrintPreviewPlugin } from './print-preview';
+export { DocxPlugin } from './docx';
 export { AutoSavePlugin } from './autosave';
 export { VersionHistoryPlugin } from './version-history';
 export { CommentsPlugin } from './comments';
 export { TrackChangesPlugin } from './track-changes';
+export { CollaborationPlugin } from './collaboration';
 export { MobileOptimizationPlugin } from './mobile-optimization';
 export { SettingsPlugin } from './settings';
 export { IconsPlugin } from './icons';
\ No newline at end of file
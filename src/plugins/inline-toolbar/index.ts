@@ -1,6 +1,7 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement } from '../../utils/dom';
 import { icons } from '../../ui/icons';
+import { getDirection } from '../../utils/bidi';
 
 interface InlineToolbarConfig {
   items?: string[];
@@ -140,7 +141,7 @@ export class InlineToolbarPlugin implements Plugin {
         icon: icons.link,
         tooltip: 'Insert Link',
         onClick: () => {
-          const url = prompt('Enter URL:', 'https://');
+          const url = prompt(this.editor.t('toolbar.linkPrompt'), 'https://');
           if (url) {
             this.editor.execCommand('createLink', url);
           }
@@ -291,11 +292,21 @@ export class InlineToolbarPlugin implements Plugin {
     if (!selection || selection.rangeCount === 0) return;
 
     const range = selection.getRangeAt(0);
-    const rect = range.getBoundingClientRect();
+    const anchor = range.startContainer.nodeType === Node.ELEMENT_NODE
+      ? range.startContainer as Element
+      : range.startContainer.parentElement;
+    const dir = anchor ? getDirection(anchor) : this.editor.getDirection();
+    this.toolbarElement.setAttribute('dir', dir);
+    
+    // Anchor to the first line of the selection; the bounding rect of a
+    // multi-line selection spans the whole block, which is wrong for RTL
+    const lineRects = range.getClientRects();
+    const rect = lineRects.length > 0 ? lineRects[0] : range.getBoundingClientRect();
     
     // Calculate position
     const toolbarRect = this.toolbarElement.getBoundingClientRect();
-    const left = rect.left + (rect.width - toolbarRect.width) / 2 + window.scrollX;
+    const offsetX = dir === 'rtl' ? -this.config.offset!.x : this.config.offset!.x;
+    const left = rect.left + (rect.width - toolbarRect.width) / 2 + window.scrollX + offsetX;
     const top = rect.top - toolbarRect.height + window.scrollY + this.config.offset!.y;
     
     // Keep toolbar within viewport
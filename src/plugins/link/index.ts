@@ -1,6 +1,7 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement } from '../../utils/dom';
 import { sanitizeURL } from '../../utils/sanitize';
+import { messages } from './messages';
 
 export class LinkPlugin implements Plugin {
   name = 'link';
@@ -11,6 +12,7 @@ export class LinkPlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make showLinkDialog available globally on the plugin instance
     (this as any).showLinkDialog = this.showLinkDialog.bind(this);
@@ -43,25 +45,26 @@ export class LinkPlugin implements Plugin {
   
   private createDialog(): HTMLElement {
     const overlay = createElement('div', {
-      className: 'xeditor-link-dialog-overlay'
+      className: 'xeditor-link-dialog-overlay',
+      dir: this.editor.getDirection()
     });
     
     const dialog = createElement('div', {
       className: 'xeditor-link-dialog'
     });
     
-    const title = createElement('h3', {}, [this.currentLink ? 'Edit Link' : 'Insert Link']);
+    const title = createElement('h3', {}, [this.editor.t(this.currentLink ? 'link.editTitle' : 'link.insertTitle')]);
     
     const urlInput = createElement('input', {
       type: 'url',
-      placeholder: 'Enter URL',
+      placeholder: this.editor.t('link.urlPlaceholder'),
       className: 'xeditor-link-url-input',
       value: this.currentLink ? this.currentLink.href : ''
     }) as HTMLInputElement;
     
     const textInput = createElement('input', {
       type: 'text',
-      placeholder: 'Link text',
+      placeholder: this.editor.t('link.textPlaceholder'),
       className: 'xeditor-link-text-input',
       value: this.currentLink ? this.currentLink.textContent || '' : this.getSelectedText()
     }) as HTMLInputElement;
@@ -79,7 +82,7 @@ export class LinkPlugin implements Plugin {
     }
     
     targetCheckbox.appendChild(checkbox);
-    targetCheckbox.appendChild(document.createTextNode(' Open in new tab'));
+    targetCheckbox.appendChild(document.createTextNode(` ${this.editor.t('link.openInNewTab')}`));
     
     const buttonContainer = createElement('div', {
       className: 'xeditor-link-buttons'
@@ -88,18 +91,18 @@ export class LinkPlugin implements Plugin {
     const cancelBtn = createElement('button', {
       className: 'xeditor-link-cancel-btn',
       type: 'button'
-    }, ['Cancel']);
+    }, [this.editor.t('common.cancel')]);
     
     const insertBtn = createElement('button', {
       className: 'xeditor-link-insert-btn',
       type: 'button'
-    }, [this.currentLink ? 'Update' : 'Insert']);
+    }, [this.editor.t(this.currentLink ? 'common.update' : 'common.insert')]);
     
     if (this.currentLink) {
       const removeBtn = createElement('button', {
         className: 'xeditor-link-remove-btn',
         type: 'button'
-      }, ['Remove Link']);
+      }, [this.editor.t('link.remove')]);
       
       removeBtn.addEventListener('click', () => {
         this.unlink();
@@ -114,7 +117,8 @@ export class LinkPlugin implements Plugin {
     
     const closeBtn = createElement('button', {
       className: 'xeditor-link-dialog-close',
-      type: 'button'
+      type: 'button',
+      'aria-label': this.editor.t('common.close')
     }, ['×']);
     
     // Event listeners
@@ -230,8 +234,14 @@ export class LinkPlugin implements Plugin {
       this.currentLink.parentNode?.replaceChild(text, this.currentLink);
       this.currentLink = null;
     } else {
-      // Use browser's unlink command
-      document.execCommand('unlink', false);
+      // At a caret the whole link around it is removed
+      const selection = window.getSelection();
+      const node = selection?.isCollapsed ? selection.anchorNode : null;
+      const link = (node instanceof Element ? node : node?.parentElement)?.closest('a');
+      if (link && this.editor.contentElement.contains(link)) {
+        selection!.selectAllChildren(link);
+      }
+      this.editor.setMark('link', null);
     }
     
     this.editor.history.record();
@@ -307,6 +317,11 @@ export class LinkPlugin implements Plugin {
         color: #666;
       }
       
+      [dir="rtl"] .xeditor-link-dialog-close {
+        right: auto;
+        left: 10px;
+      }
+      
       .xeditor-link-url-input,
       .xeditor-link-text-input {
         width: 100%;
@@ -330,6 +345,11 @@ export class LinkPlugin implements Plugin {
         margin-right: 8px;
       }
       
+      [dir="rtl"] .xeditor-link-target-label input {
+        margin-right: 0;
+        margin-left: 8px;
+      }
+      
       .xeditor-link-buttons {
         display: flex;
         gap: 10px;
@@ -362,6 +382,11 @@ export class LinkPlugin implements Plugin {
         margin-right: auto;
       }
       
+      [dir="rtl"] .xeditor-link-remove-btn {
+        margin-right: 0;
+        margin-left: auto;
+      }
+      
       .xeditor-link-cancel-btn:hover {
         background-color: #e0e0e0;
       }
@@ -0,0 +1,36 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'link.insertTitle': 'Insert Link',
+    'link.editTitle': 'Edit Link',
+    'link.urlPlaceholder': 'Enter URL',
+    'link.textPlaceholder': 'Link text',
+    'link.openInNewTab': 'Open in new tab',
+    'link.remove': 'Remove Link'
+  },
+  de: {
+    'link.insertTitle': 'Link einfügen',
+    'link.editTitle': 'Link bearbeiten',
+    'link.urlPlaceholder': 'URL eingeben',
+    'link.textPlaceholder': 'Linktext',
+    'link.openInNewTab': 'In neuem Tab öffnen',
+    'link.remove': 'Link entfernen'
+  },
+  ja: {
+    'link.insertTitle': 'リンクを挿入',
+    'link.editTitle': 'リンクを編集',
+    'link.urlPlaceholder': 'URLを入力',
+    'link.textPlaceholder': 'リンクテキスト',
+    'link.openInNewTab': '新しいタブで開く',
+    'link.remove': 'リンクを削除'
+  },
+  ar: {
+    'link.insertTitle': 'إدراج رابط',
+    'link.editTitle': 'تعديل الرابط',
+    'link.urlPlaceholder': 'أدخل عنوان URL',
+    'link.textPlaceholder': 'نص الرابط',
+    'link.openInNewTab': 'فتح في علامة تبويب جديدة',
+    'link.remove': 'إزالة الرابط'
+  }
+};
@@ -1,5 +1,6 @@
 import { Plugin, Editor } from '../../types';
 import { findParentElement } from '../../utils/dom';
+import { getStartSide } from '../../utils/bidi';
 
 export class ListsPlugin implements Plugin {
   name = 'lists';
@@ -362,7 +363,7 @@ export class ListsPlugin implements Plugin {
     if (!block) return false;
     
     const blockElement = block as HTMLElement;
-    const currentPadding = parseInt(window.getComputedStyle(blockElement).paddingLeft || '0', 10);
+    const currentPadding = parseInt(window.getComputedStyle(blockElement)[this.getPaddingProperty(blockElement)] || '0', 10);
     return currentPadding > 0;
   }
   
@@ -497,13 +498,13 @@ export class ListsPlugin implements Plugin {
       const text = range.toString();
       wrapper.textContent = text;
       
-      if (direction > 0) {
-        wrapper.style.paddingLeft = '20px';
-      }
-      
       range.deleteContents();
       range.insertNode(wrapper);
       
+      if (direction > 0) {
+        wrapper.style[this.getPaddingProperty(wrapper)] = '20px';
+      }
+      
       // Update selection
       const newRange = document.createRange();
       newRange.selectNodeContents(wrapper);
@@ -518,20 +519,21 @@ export class ListsPlugin implements Plugin {
     }
     
     const blockElement = block as HTMLElement;
+    const property = this.getPaddingProperty(blockElement);
     
     if (direction > 0) {
-      // Indent: add padding-left instead of margin-left for better compatibility
-      const currentPadding = parseInt(window.getComputedStyle(blockElement).paddingLeft || '0', 10);
+      // Indent: add padding instead of margin for better compatibility
+      const currentPadding = parseInt(window.getComputedStyle(blockElement)[property] || '0', 10);
       const newPadding = currentPadding + 20;
-      blockElement.style.paddingLeft = `${newPadding}px`;
+      blockElement.style[property] = `${newPadding}px`;
       
       // Force update
       blockElement.setAttribute('data-indent-level', String((parseInt(blockElement.getAttribute('data-indent-level') || '0') + 1)));
     } else {
-      // Outdent: reduce padding-left
-      const currentPadding = parseInt(window.getComputedStyle(blockElement).paddingLeft || '0', 10);
+      // Outdent: reduce padding
+      const currentPadding = parseInt(window.getComputedStyle(blockElement)[property] || '0', 10);
       const newPadding = Math.max(0, currentPadding - 20);
-      blockElement.style.paddingLeft = newPadding > 0 ? `${newPadding}px` : '';
+      blockElement.style[property] = newPadding > 0 ? `${newPadding}px` : '';
       
       // Force update
       const indentLevel = parseInt(blockElement.getAttribute('data-indent-level') || '0');
@@ -540,6 +542,11 @@ export class ListsPlugin implements Plugin {
     
   }
 
+  // Text is indented from the right in RTL blocks
+  private getPaddingProperty(element: HTMLElement): 'paddingLeft' | 'paddingRight' {
+    return getStartSide(element) === 'right' ? 'paddingRight' : 'paddingLeft';
+  }
+
   private isBlockElement(element: Element): boolean {
     const blockTags = ['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 
                       'BLOCKQUOTE', 'PRE', 'UL', 'OL', 'LI'];
@@ -1,32 +1,25 @@
-import { Plugin, Editor, ToolbarItem } from '../../types';
-import { createElement } from '../../utils/dom';
-
-interface MarkdownOptions {
-  exportOptions?: {
-    headingStyle?: 'atx' | 'setext';
-    bulletListMarker?: '-' | '*' | '+';
-    codeBlockStyle?: 'fenced' | 'indented';
-    linkStyle?: 'inline' | 'reference';
-  };
-}
+import { Plugin, Editor, ToolbarItem, MarkdownConfig, InputRule } from '../../types';
+import { createElement, addClass, removeClass } from '../../utils/dom';
+import { errorHandler } from '../../utils/error-handler';
+import { createMarkdownInputRules } from './input-rules';
+import { MarkdownExportOptions, resolveExportOptions, serializeMarkdown } from './serializer';
+import { MarkdownSplitView } from './split-view';
 
 export class MarkdownPlugin implements Plugin {
   name = 'markdown';
   private editor!: Editor;
-  private options: MarkdownOptions;
+  private exportOptions: MarkdownExportOptions;
+  private useInputRules: boolean;
+  private inputRules: InputRule[] = [];
+  private splitView: MarkdownSplitView | null = null;
+  // What the split view started with, to leave the document alone if it was not edited
+  private originalMarkdown: string = '';
 
   toolbar: ToolbarItem[] = [];
 
-  constructor(options: MarkdownOptions = {}) {
-    this.options = {
-      exportOptions: {
-        headingStyle: options.exportOptions?.headingStyle || 'atx',
-        bulletListMarker: options.exportOptions?.bulletListMarker || '-',
-        codeBlockStyle: options.exportOptions?.codeBlockStyle || 'fenced',
-        linkStyle: options.exportOptions?.linkStyle || 'inline',
-        ...options.exportOptions
-      }
-    };
+  constructor(options: MarkdownConfig = {}) {
+    this.exportOptions = resolveExportOptions(options.exportOptions);
+    this.useInputRules = options.inputRules !== false;
   }
 
   init(editor: Editor): void {
@@ -40,19 +33,31 @@ export class MarkdownPlugin implements Plugin {
     this.editor.commands.register('importMarkdown', {
       execute: (markdown: string) => this.importMarkdown(markdown)
     });
+
+    this.editor.commands.register('toggleMarkdownMode', {
+      execute: () => this.toggleMarkdownMode(),
+      queryState: () => this.isMarkdownMode()
+    });
+    // Commands refresh the toolbar state when they finish, which would enable it again
+    this.editor.on('commandExecuted', this.handleCommandExecuted);
+
+    if (this.useInputRules) {
+      this.inputRules = createMarkdownInputRules(editor);
+      this.inputRules.forEach(rule => editor.inputRules.register(rule));
+    }
     
     // Add toolbar items
     this.toolbar = [
       {
         name: 'exportMarkdown',
         icon: '⬇ MD',
-        tooltip: 'Export as Markdown',
+        tooltip: editor.t('toolbar.markdownExport'),
         onClick: () => this.showExportDialog()
       },
       {
         name: 'importMarkdown',
         icon: '⬆ MD',
-        tooltip: 'Import from Markdown',
+        tooltip: editor.t('toolbar.markdownImport'),
         onClick: () => this.showImportDialog()
       }
     ];
@@ -62,277 +67,110 @@ export class MarkdownPlugin implements Plugin {
   }
 
   destroy(): void {
-    // Cleanup if needed
+    if (this.splitView) {
+      this.exitMarkdownMode();
+    }
+    this.editor.off('commandExecuted', this.handleCommandExecuted);
+    this.inputRules.forEach(rule => this.editor.inputRules.unregister(rule.name));
+    this.inputRules = [];
   }
 
-  private exportMarkdown(): string {
-    const html = this.editor.getContent();
-    return this.htmlToMarkdown(html);
+  exportMarkdown(): string {
+    return serializeMarkdown(this.editor.getJSON(), this.exportOptions);
   }
 
-  private importMarkdown(markdown: string): void {
-    const html = this.markdownToHtml(markdown);
-    this.editor.setContent(html);
+  importMarkdown(markdown: string): void {
+    this.editor.setContent(markdown, { format: 'markdown' });
   }
 
-  private htmlToMarkdown(html: string): string {
-    const div = document.createElement('div');
-    div.innerHTML = html;
-    
-    let markdown = '';
-    const processNode = (node: Node, listLevel: number = 0): string => {
-      let result = '';
-      
-      if (node.nodeType === Node.TEXT_NODE) {
-        return this.escapeMarkdown(node.textContent || '');
-      }
-      
-      if (node.nodeType === Node.ELEMENT_NODE) {
-        const element = node as HTMLElement;
-        const tagName = element.tagName.toLowerCase();
-        
-        switch (tagName) {
-          case 'h1':
-          case 'h2':
-          case 'h3':
-          case 'h4':
-          case 'h5':
-          case 'h6':
-            const level = parseInt(tagName[1]);
-            if (this.options.exportOptions?.headingStyle === 'setext' && level <= 2) {
-              result += element.textContent + '\n';
-              result += (level === 1 ? '=' : '-').repeat(element.textContent?.length || 0) + '\n\n';
-            } else {
-              result += '#'.repeat(level) + ' ' + element.textContent + '\n\n';
-            }
-            break;
-            
-          case 'p':
-            result += Array.from(element.childNodes).map(child => processNode(child, listLevel)).join('') + '\n\n';
-            break;
-            
-          case 'strong':
-          case 'b':
-            result += '**' + Array.from(element.childNodes).map(child => processNode(child, listLevel)).join('') + '**';
-            break;
-            
-          case 'em':
-          case 'i':
-            result += '*' + Array.from(element.childNodes).map(child => processNode(child, listLevel)).join('') + '*';
-            break;
-            
-          case 'u':
-            result += '<u>' + Array.from(element.childNodes).map(child => processNode(child, listLevel)).join('') + '</u>';
-            break;
-            
-          case 's':
-          case 'strike':
-          case 'del':
-            result += '~~' + Array.from(element.childNodes).map(child => processNode(child, listLevel)).join('') + '~~';
-            break;
-            
-          case 'code':
-            result += '`' + element.textContent + '`';
-            break;
-            
-          case 'pre':
-            const codeBlock = element.querySelector('code');
-            const language = codeBlock?.className.match(/language-(\w+)/)?.[1] || '';
-            if (this.options.exportOptions?.codeBlockStyle === 'fenced') {
-              result += '```' + language + '\n';
-              result += (codeBlock?.textContent || element.textContent || '') + '\n';
-              result += '```\n\n';
-            } else {
-              const lines = (codeBlock?.textContent || element.textContent || '').split('\n');
-              result += lines.map(line => '    ' + line).join('\n') + '\n\n';
-            }
-            break;
-            
-          case 'blockquote':
-            const quoteLines = Array.from(element.childNodes)
-              .map(child => processNode(child, listLevel))
-              .join('')
-              .split('\n');
-            result += quoteLines.map(line => '> ' + line).join('\n') + '\n\n';
-            break;
-            
-          case 'ul':
-          case 'ol':
-            const items = Array.from(element.children);
-            items.forEach((item, index) => {
-              if (item.tagName.toLowerCase() === 'li') {
-                const indent = '  '.repeat(listLevel);
-                const marker = tagName === 'ul' 
-                  ? this.options.exportOptions?.bulletListMarker || '-'
-                  : `${index + 1}.`;
-                  
-                result += indent + marker + ' ';
-                result += Array.from(item.childNodes)
-                  .map(child => processNode(child, listLevel + 1))
-                  .join('')
-                  .trim() + '\n';
-              }
-            });
-            result += '\n';
-            break;
-            
-          case 'a':
-            const href = element.getAttribute('href') || '';
-            const text = element.textContent || '';
-            if (this.options.exportOptions?.linkStyle === 'inline') {
-              result += `[${text}](${href})`;
-            } else {
-              result += `[${text}][${text}]`;
-              // In a real implementation, you'd collect references and output them at the end
-            }
-            break;
-            
-          case 'img':
-            const src = element.getAttribute('src') || '';
-            const alt = element.getAttribute('alt') || '';
-            result += `![${alt}](${src})`;
-            break;
-            
-          case 'table':
-            const rows = Array.from(element.querySelectorAll('tr'));
-            if (rows.length > 0) {
-              rows.forEach((row, rowIndex) => {
-                const cells = Array.from(row.querySelectorAll('td, th'));
-                result += '| ' + cells.map(cell => cell.textContent?.trim() || '').join(' | ') + ' |\n';
-                
-                // Add separator after header row
-                if (rowIndex === 0) {
-                  result += '| ' + cells.map(() => '---').join(' | ') + ' |\n';
-                }
-              });
-              result += '\n';
-            }
-            break;
-            
-          case 'hr':
-            result += '---\n\n';
-            break;
-            
-          case 'br':
-            result += '  \n';
-            break;
-            
-          default:
-            // Process children for other elements
-            Array.from(element.childNodes).forEach(child => {
-              result += processNode(child, listLevel);
-            });
-        }
-      }
-      
-      return result;
-    };
-    
-    Array.from(div.childNodes).forEach(child => {
-      markdown += processNode(child);
-    });
-    
-    return markdown.trim();
+  isMarkdownMode(): boolean {
+    return this.splitView !== null;
   }
 
-  private markdownToHtml(markdown: string): string {
-    let html = markdown;
-    
-    // Escape HTML
-    html = html.replace(/&/g, '&amp;')
-               .replace(/</g, '&lt;')
-               .replace(/>/g, '&gt;');
-    
-    // Headers (setext style)
-    html = html.replace(/^(.+)\n={3,}$/gm, '<h1>$1</h1>');
-    html = html.replace(/^(.+)\n-{3,}$/gm, '<h2>$1</h2>');
-    
-    // Headers (atx style)
-    html = html.replace(/^#{6}\s+(.+)$/gm, '<h6>$1</h6>');
-    html = html.replace(/^#{5}\s+(.+)$/gm, '<h5>$1</h5>');
-    html = html.replace(/^#{4}\s+(.+)$/gm, '<h4>$1</h4>');
-    html = html.replace(/^#{3}\s+(.+)$/gm, '<h3>$1</h3>');
-    html = html.replace(/^#{2}\s+(.+)$/gm, '<h2>$1</h2>');
-    html = html.replace(/^#{1}\s+(.+)$/gm, '<h1>$1</h1>');
-    
-    // Code blocks (fenced)
-    html = html.replace(/```(\w*)\n([\s\S]*?)```/g, (_match, lang, code) => {
-      const escaped = code.replace(/&/g, '&amp;')
-                         .replace(/</g, '&lt;')
-                         .replace(/>/g, '&gt;');
-      return `<pre><code class="language-${lang}">${escaped}</code></pre>`;
-    });
-    
-    // Code blocks (indented)
-    html = html.replace(/^(?: {4}|\t)(.+)$/gm, '<pre><code>$1</code></pre>');
-    
-    // Merge consecutive code blocks
-    html = html.replace(/<\/pre>\n<pre><code>/g, '\n');
-    
-    // Horizontal rules
-    html = html.replace(/^[-*_]{3,}$/gm, '<hr>');
-    
-    // Blockquotes
-    html = html.replace(/^>\s+(.+)$/gm, '<blockquote>$1</blockquote>');
-    
-    // Merge consecutive blockquotes
-    html = html.replace(/<\/blockquote>\n<blockquote>/g, '\n');
-    
-    // Lists
-    // Unordered lists
-    html = html.replace(/^[-*+]\s+(.+)$/gm, '<li>$1</li>');
-    html = html.replace(/(<li>.*<\/li>\n?)+/g, (matchedList) => {
-      return '<ul>' + matchedList + '</ul>';
-    });
-    
-    // Ordered lists
-    html = html.replace(/^\d+\.\s+(.+)$/gm, '<li>$1</li>');
-    
-    // Bold
-    html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
-    html = html.replace(/__(.+?)__/g, '<strong>$1</strong>');
-    
-    // Italic
-    html = html.replace(/\*(.+?)\*/g, '<em>$1</em>');
-    html = html.replace(/_(.+?)_/g, '<em>$1</em>');
-    
-    // Strikethrough
-    html = html.replace(/~~(.+?)~~/g, '<del>$1</del>');
-    
-    // Inline code
-    html = html.replace(/`(.+?)`/g, '<code>$1</code>');
-    
-    // Links
-    html = html.replace(/\[(.+?)\]\((.+?)\)/g, '<a href="$2">$1</a>');
-    
-    // Images
-    html = html.replace(/!\[(.+?)\]\((.+?)\)/g, '<img src="$2" alt="$1">');
-    
-    // Line breaks
-    html = html.replace(/ {2}\n/g, '<br>\n');
-    
-    // Paragraphs
-    html = html.replace(/\n\n/g, '</p><p>');
-    html = '<p>' + html + '</p>';
-    
-    // Clean up empty paragraphs
-    html = html.replace(/<p><\/p>/g, '');
-    html = html.replace(/<p>(<h[1-6]>)/g, '$1');
-    html = html.replace(/(<\/h[1-6]>)<\/p>/g, '$1');
-    html = html.replace(/<p>(<pre>)/g, '$1');
-    html = html.replace(/(<\/pre>)<\/p>/g, '$1');
-    html = html.replace(/<p>(<blockquote>)/g, '$1');
-    html = html.replace(/(<\/blockquote>)<\/p>/g, '$1');
-    html = html.replace(/<p>(<ul>|<ol>)/g, '$1');
-    html = html.replace(/(<\/ul>|<\/ol>)<\/p>/g, '$1');
-    html = html.replace(/<p>(<hr>)/g, '$1');
-    html = html.replace(/(<hr>)<\/p>/g, '$1');
-    
-    return html;
+  /**
+   * Switches between the WYSIWYG view and raw Markdown with a live preview.
+   * Switching back imports the Markdown, like the import dialog does.
+   */
+  toggleMarkdownMode(): void {
+    if (this.splitView) {
+      this.exitMarkdownMode();
+    } else {
+      this.enterMarkdownMode();
+    }
+  }
+
+  private enterMarkdownMode(): void {
+    this.originalMarkdown = this.exportMarkdown();
+    this.splitView = new MarkdownSplitView(this.editor, this.originalMarkdown);
+    this.splitView.textarea.addEventListener('keydown', this.handleKeyDown);
+
+    this.editor.contentElement.style.display = 'none';
+    this.editor.contentElement.parentNode?.insertBefore(
+      this.splitView.element,
+      this.editor.contentElement.nextSibling
+    );
+
+    this.updateToolbar(true);
+    this.splitView.textarea.focus();
+    this.editor.emit('markdownenter');
   }
 
-  private escapeMarkdown(text: string): string {
-    return text.replace(/([\\`*_{}[\]()#+\-.!])/g, '\\$1');
+  private exitMarkdownMode(): void {
+    if (!this.splitView) return;
+
+    const markdown = this.splitView.value;
+    this.splitView.textarea.removeEventListener('keydown', this.handleKeyDown);
+    this.splitView.destroy();
+    this.splitView = null;
+
+    this.editor.contentElement.style.display = '';
+    if (markdown !== this.originalMarkdown) {
+      this.importMarkdown(markdown);
+    }
+
+    this.updateToolbar(false);
+    this.editor.focus();
+    this.editor.emit('markdownexit');
+  }
+
+  private handleCommandExecuted = (): void => {
+    if (this.splitView) {
+      this.updateToolbar(true);
+    }
+  };
+
+  // Ctrl/Cmd + Enter goes back to the WYSIWYG view, as in the HTML source view
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+      e.preventDefault();
+      this.exitMarkdownMode();
+    }
+  };
+
+  // Only the button that leaves Markdown mode stays enabled
+  private updateToolbar(markdownMode: boolean): void {
+    const toolbar = this.editor.toolbar;
+    if (!toolbar) return;
+
+    const label = this.editor.t('toolbar.markdownMode');
+    toolbar.element.querySelectorAll('.xeditor-toolbar__item').forEach(item => {
+      const button = item as HTMLElement;
+      if (button.getAttribute('title') === label || button.getAttribute('aria-label') === label) {
+        if (markdownMode) {
+          addClass(button, 'xeditor-toolbar__item--active');
+        } else {
+          removeClass(button, 'xeditor-toolbar__item--active');
+        }
+        button.removeAttribute('disabled');
+        removeClass(button, 'xeditor-toolbar__item--disabled');
+      } else if (markdownMode) {
+        button.setAttribute('disabled', 'true');
+        addClass(button, 'xeditor-toolbar__item--disabled');
+      } else {
+        button.removeAttribute('disabled');
+        removeClass(button, 'xeditor-toolbar__item--disabled');
+      }
+    });
   }
 
   private showExportDialog(): void {
@@ -375,12 +213,16 @@ export class MarkdownPlugin implements Plugin {
     }, ['Close']);
     
     copyBtn.addEventListener('click', () => {
-      textarea.select();
-      document.execCommand('copy');
-      copyBtn.textContent = 'Copied!';
-      setTimeout(() => {
-        copyBtn.textContent = 'Copy to Clipboard';
-      }, 2000);
+      if (!navigator.clipboard) {
+        errorHandler.handle(new Error('Clipboard access is not available in this browser'), 'Failed to copy Markdown');
+        return;
+      }
+      navigator.clipboard.writeText(markdown).then(() => {
+        copyBtn.textContent = 'Copied!';
+        setTimeout(() => {
+          copyBtn.textContent = 'Copy to Clipboard';
+        }, 2000);
+      }).catch(error => errorHandler.handle(error, 'Failed to copy Markdown'));
     });
     
     downloadBtn.addEventListener('click', () => {
@@ -553,6 +395,45 @@ export class MarkdownPlugin implements Plugin {
         background-color: #dee2e6;
       }
       
+      .xeditor-markdown-split {
+        display: flex;
+        height: var(--content-height, 400px);
+        border-top: 1px solid #ddd;
+      }
+      
+      .xeditor-markdown-split__source,
+      .xeditor-markdown-split__preview {
+        flex: 1;
+        min-width: 0;
+        height: 100%;
+        padding: 16px;
+        overflow: auto;
+        box-sizing: border-box;
+      }
+      
+      .xeditor-markdown-split__source {
+        border: none;
+        border-right: 1px solid #ddd;
+        background-color: #f6f8fa;
+        color: #24292e;
+        font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+        font-size: 14px;
+        line-height: 20px;
+        white-space: pre;
+        resize: none;
+        outline: none;
+      }
+      
+      /* Blocks are measured against the preview for synchronized scrolling */
+      .xeditor-markdown-split__preview {
+        position: relative;
+        line-height: 1.6;
+      }
+      
+      .xeditor-fullscreen .xeditor-markdown-split {
+        height: calc(100vh - 60px);
+      }
+      
       /* Dark theme support */
       [data-theme="dark"] .xeditor-markdown-dialog {
         background-color: #343a40;
@@ -565,6 +446,12 @@ export class MarkdownPlugin implements Plugin {
         border-color: #6c757d;
       }
       
+      [data-theme="dark"] .xeditor-markdown-split__source {
+        background-color: #2d333b;
+        color: #adbac7;
+        border-color: #444c56;
+      }
+      
       [data-theme="dark"] .xeditor-markdown-cancel-btn,
       [data-theme="dark"] .xeditor-markdown-close-btn {
         background-color: #6c757d;
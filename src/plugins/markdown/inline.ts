@@ -0,0 +1,767 @@
+import { escapeHTML } from '../../utils/sanitize';
+
+/**
+ * Inline half of the Markdown parser: turns the text of a paragraph,
+ * heading or table cell into HTML following CommonMark, with the GitHub
+ * extensions for strikethrough and bare links.
+ */
+
+export interface LinkReference {
+  href: string;
+  title: string;
+}
+
+export type ReferenceMap = Record<string, LinkReference>;
+
+interface InlineNode {
+  type: 'text' | 'softbreak' | 'hardbreak' | 'code' | 'html' | 'emph' | 'strong' | 'strike' | 'link' | 'image';
+  value?: string;
+  children?: InlineNode[];
+  href?: string;
+  title?: string;
+}
+
+interface Delimiter {
+  node: InlineNode;
+  char: string;
+  count: number;
+  originalCount: number;
+  canOpen: boolean;
+  canClose: boolean;
+  previous: Delimiter | null;
+  next: Delimiter | null;
+}
+
+interface Bracket {
+  node: InlineNode;
+  // Where the bracketed text starts in the source
+  index: number;
+  image: boolean;
+  active: boolean;
+  bracketAfter: boolean;
+  previous: Bracket | null;
+  previousDelimiter: Delimiter | null;
+}
+
+const ESCAPABLE = '[!"#$%&\'()*+,./:;<=>?@[\\\\\\]^_`{|}~-]';
+const TAG_NAME = '[A-Za-z][A-Za-z0-9-]*';
+const ATTRIBUTE = '(?:\\s+[a-zA-Z_:][a-zA-Z0-9:._-]*(?:\\s*=\\s*(?:[^"\'=<>`\\x00-\\x20]+|\'[^\']*\'|"[^"]*"))?)';
+export const OPEN_TAG = `<${TAG_NAME}${ATTRIBUTE}*\\s*/?>`;
+export const CLOSE_TAG = `</${TAG_NAME}\\s*[>]`;
+const HTML_TAG = new RegExp(
+  `^(?:${OPEN_TAG}|${CLOSE_TAG}|<!-->|<!--->|<!--[\\s\\S]*?-->|[<][?][\\s\\S]*?[?][>]|<![A-Za-z]+[^>]*>|<!\\[CDATA\\[[\\s\\S]*?\\]\\]>)`
+);
+
+const RE_ESCAPABLE = new RegExp(`^${ESCAPABLE}`);
+const RE_BACKSLASH_OR_ENTITY = new RegExp(`\\\\${ESCAPABLE}|&(?:#x[a-f0-9]{1,6}|#[0-9]{1,7}|[a-z][a-z0-9]{1,31});`, 'gi');
+const RE_ENTITY = /^&(?:#x[a-f0-9]{1,6}|#[0-9]{1,7}|[a-z][a-z0-9]{1,31});/i;
+const RE_AUTOLINK = /^<[A-Za-z][A-Za-z0-9.+-]{1,31}:[^<> \p{Cc}]*>/u;
+const RE_EMAIL_AUTOLINK = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const RE_LINK_TITLE = new RegExp(`^(?:"(\\\\${ESCAPABLE}|\\\\[^\\\\]|[^\\\\"\\x00])*"|'(\\\\${ESCAPABLE}|\\\\[^\\\\]|[^\\\\'\\x00])*'|\\((\\\\${ESCAPABLE}|\\\\[^\\\\]|[^\\\\()\\x00])*\\))`);
+const RE_LINK_DESTINATION_BRACES = /^(?:<(?:[^<>\n\\]|\\.)*>)/;
+const RE_LINK_LABEL = /^\[(?:[^\\[\]]|\\.){0,1000}\]/s;
+const RE_SPECIAL = /[\n\\`*_~[\]!<&]/;
+const RE_WHITESPACE = /^\s/;
+const RE_PUNCTUATION = /^[\p{P}\p{S}]/u;
+const RE_SPNL = /^ *(?:\n *)?/;
+const RE_FINAL_SPACE = / *$/;
+// Bare links GitHub recognizes in text, with what may follow their domain
+const RE_EXTENDED_AUTOLINK = /(?:https?:\/\/|www\.)[^\s<]*|[a-zA-Z0-9._+-]+@[a-zA-Z0-9_-]+(?:\.[a-zA-Z0-9_-]+)+/g;
+
+let decoder: HTMLTextAreaElement | null = null;
+
+// Entities are looked up by the browser, which knows all of HTML's
+function decodeEntity(entity: string): string {
+  if (/^&#x/i.test(entity)) return codePoint(parseInt(entity.slice(3, -1), 16));
+  if (/^&#/.test(entity)) return codePoint(parseInt(entity.slice(2, -1), 10));
+  decoder = decoder || document.createElement('textarea');
+  decoder.innerHTML = entity;
+  return decoder.value;
+}
+
+function codePoint(code: number): string {
+  return code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff) ? '\ufffd' : String.fromCodePoint(code);
+}
+
+export function unescapeString(text: string): string {
+  return text.replace(RE_BACKSLASH_OR_ENTITY, match => match[0] === '\\' ? match[1] : decodeEntity(match));
+}
+
+// Link labels match case-insensitively and regardless of whitespace
+export function normalizeLabel(label: string): string {
+  return label.slice(1, -1).trim().replace(/[ \t\r\n]+/g, ' ').toLowerCase().toUpperCase();
+}
+
+export function escapeAttribute(value: string): string {
+  return escapeHTML(value).replace(/"/g, '&quot;');
+}
+
+export function normalizeURI(uri: string): string {
+  return uri.replace(/%(?![0-9a-f]{2})|[^\w\-.~:/?#@!$&'()*+,;=%]/giu, char => {
+    try {
+      return encodeURIComponent(char);
+    } catch {
+      return char;
+    }
+  });
+}
+
+class InlineParser {
+  private source = '';
+  private pos = 0;
+  private nodes: InlineNode[] = [];
+  private delimiters: Delimiter | null = null;
+  private brackets: Bracket | null = null;
+  private references: ReferenceMap;
+
+  constructor(references: ReferenceMap) {
+    this.references = references;
+  }
+
+  parse(source: string): InlineNode[] {
+    this.source = source.trim();
+    this.pos = 0;
+    this.nodes = [];
+    this.delimiters = null;
+    this.brackets = null;
+
+    while (this.pos < this.source.length) {
+      this.parseInline();
+    }
+    this.processEmphasis(null);
+    return linkBareURLs(mergeText(this.nodes));
+  }
+
+  /**
+   * Reads a link reference definition from the start of `source`, adding it
+   * to the references unless one with its label came first. Returns the
+   * number of characters it took up, or 0 when there is none.
+   */
+  parseReference(source: string): number {
+    this.source = source;
+    this.pos = 0;
+
+    const labelLength = this.parseLinkLabel();
+    if (labelLength === 0) return 0;
+    const label = this.source.slice(0, labelLength);
+    if (this.peek() !== ':') return 0;
+    this.pos++;
+
+    this.spnl();
+    const href = this.parseLinkDestination();
+    if (href === null) return 0;
+
+    const beforeTitle = this.pos;
+    this.spnl();
+    let title: string | null = null;
+    if (this.pos !== beforeTitle) {
+      title = this.parseLinkTitle();
+    }
+    if (title === null) {
+      title = '';
+      this.pos = beforeTitle;
+    }
+
+    // The definition has to end its line, or at least its destination must
+    let atLineEnd = this.match(/^[ \t]*(?:\n|$)/) !== null;
+    if (!atLineEnd && title !== '') {
+      title = '';
+      this.pos = beforeTitle;
+      atLineEnd = this.match(/^[ \t]*(?:\n|$)/) !== null;
+    }
+    if (!atLineEnd) return 0;
+
+    const key = normalizeLabel(label);
+    if (!key) return 0;
+    if (!this.references[key]) {
+      this.references[key] = { href, title };
+    }
+    return this.pos;
+  }
+
+  private peek(): string {
+    return this.source.charAt(this.pos);
+  }
+
+  private match(pattern: RegExp): string | null {
+    const match = pattern.exec(this.source.slice(this.pos));
+    if (!match) return null;
+    this.pos += match.index + match[0].length;
+    return match[0];
+  }
+
+  private spnl(): void {
+    this.match(RE_SPNL);
+  }
+
+  private text(value: string): InlineNode {
+    const node: InlineNode = { type: 'text', value };
+    this.nodes.push(node);
+    return node;
+  }
+
+  private parseInline(): void {
+    const char = this.peek();
+    switch (char) {
+      case '\n':
+        this.parseNewline();
+        return;
+      case '\\':
+        this.parseBackslash();
+        return;
+      case '`':
+        this.parseBackticks();
+        return;
+      case '*':
+      case '_':
+      case '~':
+        this.parseDelimiters(char);
+        return;
+      case '[':
+        this.pos++;
+        this.pushBracket(this.text('['), this.pos, false);
+        return;
+      case '!':
+        this.pos++;
+        if (this.peek() === '[') {
+          this.pos++;
+          this.pushBracket(this.text('!['), this.pos, true);
+        } else {
+          this.text('!');
+        }
+        return;
+      case ']':
+        this.parseCloseBracket();
+        return;
+      case '<':
+        if (!this.parseAutolink() && !this.parseHTMLTag()) {
+          this.pos++;
+          this.text('<');
+        }
+        return;
+      case '&': {
+        const entity = this.match(RE_ENTITY);
+        if (entity) {
+          this.text(decodeEntity(entity));
+        } else {
+          this.pos++;
+          this.text('&');
+        }
+        return;
+      }
+    }
+
+    const rest = this.source.slice(this.pos);
+    const next = rest.slice(1).search(RE_SPECIAL);
+    const end = next === -1 ? rest.length : next + 1;
+    this.text(rest.slice(0, end));
+    this.pos += end;
+  }
+
+  private parseNewline(): void {
+    this.pos++;
+    const last = this.nodes[this.nodes.length - 1];
+    if (last && last.type === 'text' && last.value!.endsWith(' ')) {
+      const hard = last.value!.endsWith('  ');
+      last.value = last.value!.replace(RE_FINAL_SPACE, '');
+      this.nodes.push({ type: hard ? 'hardbreak' : 'softbreak' });
+    } else {
+      this.nodes.push({ type: 'softbreak' });
+    }
+    // Spaces starting the next line are not content
+    this.match(/^ */);
+  }
+
+  private parseBackslash(): void {
+    this.pos++;
+    if (this.peek() === '\n') {
+      this.pos++;
+      this.nodes.push({ type: 'hardbreak' });
+      this.match(/^ */);
+    } else if (RE_ESCAPABLE.test(this.source.slice(this.pos))) {
+      this.text(this.peek());
+      this.pos++;
+    } else {
+      this.text('\\');
+    }
+  }
+
+  private parseBackticks(): void {
+    const ticks = this.match(/^`+/)!;
+    const afterOpen = this.pos;
+    const closing = /`+/g;
+    closing.lastIndex = afterOpen;
+
+    let match: RegExpExecArray | null;
+    while ((match = closing.exec(this.source)) !== null) {
+      if (match[0].length === ticks.length) {
+        let code = this.source.slice(afterOpen, match.index).replace(/\n/g, ' ');
+        // One space each side is padding, unless the span is only spaces
+        if (code.length > 2 && code[0] === ' ' && code[code.length - 1] === ' ' && /[^ ]/.test(code)) {
+          code = code.slice(1, -1);
+        }
+        this.nodes.push({ type: 'code', value: code });
+        this.pos = match.index + match[0].length;
+        return;
+      }
+    }
+    // No closing run of the same length: the backticks are text
+    this.text(ticks);
+  }
+
+  private parseDelimiters(char: string): void {
+    const start = this.pos;
+    const run = this.match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)!;
+    const before = start === 0 ? '\n' : this.source.charAt(start - 1);
+    const after = this.pos < this.source.length ? this.source.charAt(this.pos) : '\n';
+    const node = this.text(run);
+
+    // Strikethrough takes one or two tildes, never more
+    if (char === '~' && run.length > 2) return;
+
+    const afterSpace = RE_WHITESPACE.test(after);
+    const afterPunctuation = RE_PUNCTUATION.test(after);
+    const beforeSpace = RE_WHITESPACE.test(before);
+    const beforePunctuation = RE_PUNCTUATION.test(before);
+    const leftFlanking = !afterSpace && (!afterPunctuation || beforeSpace || beforePunctuation);
+    const rightFlanking = !beforeSpace && (!beforePunctuation || afterSpace || afterPunctuation);
+
+    let canOpen = leftFlanking;
+    let canClose = rightFlanking;
+    // Underscores inside words stay text
+    if (char === '_') {
+      canOpen = leftFlanking && (!rightFlanking || beforePunctuation);
+      canClose = rightFlanking && (!leftFlanking || afterPunctuation);
+    }
+    if (!canOpen && !canClose) return;
+
+    this.delimiters = {
+      node,
+      char,
+      count: run.length,
+      originalCount: run.length,
+      canOpen,
+      canClose,
+      previous: this.delimiters,
+      next: null
+    };
+    if (this.delimiters.previous) {
+      this.delimiters.previous.next = this.delimiters;
+    }
+  }
+
+  private removeDelimiter(delimiter: Delimiter): void {
+    if (delimiter.previous) {
+      delimiter.previous.next = delimiter.next;
+    }
+    if (delimiter.next) {
+      delimiter.next.previous = delimiter.previous;
+    } else {
+      this.delimiters = delimiter.previous;
+    }
+  }
+
+  private removeNode(node: InlineNode): void {
+    const index = this.nodes.indexOf(node);
+    if (index !== -1) this.nodes.splice(index, 1);
+  }
+
+  // Pairs up emphasis delimiters above `bottom` and wraps what they enclose
+  private processEmphasis(bottom: Delimiter | null): void {
+    const openersBottom: Record<string, Delimiter | null> = {};
+
+    let closer = this.delimiters;
+    while (closer !== null && closer.previous !== bottom) {
+      closer = closer.previous;
+    }
+
+    while (closer !== null) {
+      if (!closer.canClose) {
+        closer = closer.next;
+        continue;
+      }
+
+      const key = `${closer.char}${closer.canOpen ? 1 : 0}${closer.originalCount % 3}`;
+      let opener = closer.previous;
+      let found = false;
+      while (opener !== null && opener !== bottom && opener !== openersBottom[key]) {
+        if (opener.char === closer.char && opener.canOpen) {
+          const oddMatch = closer.char !== '~' && (closer.canOpen || opener.canClose) &&
+            closer.originalCount % 3 !== 0 && (opener.originalCount + closer.originalCount) % 3 === 0;
+          const sameLength = closer.char !== '~' || opener.count === closer.count;
+          if (!oddMatch && sameLength) {
+            found = true;
+            break;
+          }
+        }
+        opener = opener.previous;
+      }
+
+      if (!found || !opener) {
+        openersBottom[key] = closer.previous;
+        const next = closer.next;
+        if (!closer.canOpen) {
+          this.removeDelimiter(closer);
+        }
+        closer = next;
+        continue;
+      }
+
+      const used = closer.char === '~' ? closer.count : closer.count >= 2 && opener.count >= 2 ? 2 : 1;
+      opener.count -= used;
+      closer.count -= used;
+      opener.node.value = opener.node.value!.slice(0, opener.count);
+      closer.node.value = closer.node.value!.slice(0, closer.count);
+
+      const start = this.nodes.indexOf(opener.node);
+      const end = this.nodes.indexOf(closer.node);
+      const wrapper: InlineNode = {
+        type: closer.char === '~' ? 'strike' : used === 2 ? 'strong' : 'emph',
+        children: this.nodes.splice(start + 1, end - start - 1)
+      };
+      this.nodes.splice(start + 1, 0, wrapper);
+
+      // Delimiters between the two are inside the wrapper now, and plain text
+      let between = closer.previous;
+      while (between !== null && between !== opener) {
+        const previous: Delimiter | null = between.previous;
+        this.removeDelimiter(between);
+        between = previous;
+      }
+
+      if (opener.count === 0) {
+        this.removeNode(opener.node);
+        this.removeDelimiter(opener);
+      }
+      if (closer.count === 0) {
+        this.removeNode(closer.node);
+        const next = closer.next;
+        this.removeDelimiter(closer);
+        closer = next;
+      }
+    }
+
+    while (this.delimiters !== null && this.delimiters !== bottom) {
+      this.removeDelimiter(this.delimiters);
+    }
+  }
+
+  private pushBracket(node: InlineNode, index: number, image: boolean): void {
+    if (this.brackets) {
+      this.brackets.bracketAfter = true;
+    }
+    this.brackets = {
+      node,
+      index,
+      image,
+      active: true,
+      bracketAfter: false,
+      previous: this.brackets,
+      previousDelimiter: this.delimiters
+    };
+  }
+
+  private parseCloseBracket(): void {
+    const start = this.pos;
+    this.pos++;
+
+    const opener = this.brackets;
+    if (!opener) {
+      this.text(']');
+      return;
+    }
+    if (!opener.active) {
+      this.brackets = opener.previous;
+      this.text(']');
+      return;
+    }
+
+    const afterBracket = this.pos;
+    let href: string | null = null;
+    let title = '';
+    let matched = false;
+
+    // Inline link: [text](destination "title")
+    if (this.peek() === '(') {
+      this.pos++;
+      this.spnl();
+      href = this.parseLinkDestination();
+      if (href !== null) {
+        this.spnl();
+        if (RE_WHITESPACE.test(this.source.charAt(this.pos - 1))) {
+          title = this.parseLinkTitle() ?? '';
+        }
+        this.spnl();
+        if (this.peek() === ')') {
+          this.pos++;
+          matched = true;
+        }
+      }
+      if (!matched) {
+        this.pos = afterBracket;
+      }
+    }
+
+    // Reference link: [text][label], [label][] or [label]
+    if (!matched) {
+      const beforeLabel = this.pos;
+      const labelLength = this.parseLinkLabel();
+      let label = '';
+      if (labelLength > 2) {
+        label = this.source.slice(beforeLabel, beforeLabel + labelLength);
+      } else if (!opener.bracketAfter) {
+        label = this.source.slice(opener.index - 1, start + 1);
+      }
+      if (labelLength === 0) {
+        this.pos = afterBracket;
+      }
+      const reference = label ? this.references[normalizeLabel(label)] : undefined;
+      if (reference) {
+        href = reference.href;
+        title = reference.title;
+        matched = true;
+      }
+    }
+
+    if (!matched) {
+      this.brackets = opener.previous;
+      this.pos = afterBracket;
+      this.text(']');
+      return;
+    }
+
+    this.processEmphasis(opener.previousDelimiter);
+    const index = this.nodes.indexOf(opener.node);
+    const link: InlineNode = {
+      type: opener.image ? 'image' : 'link',
+      href: href || '',
+      title,
+      children: mergeText(this.nodes.splice(index + 1))
+    };
+    this.nodes.splice(index, 1, link);
+    this.brackets = opener.previous;
+
+    // Links cannot contain links, so earlier openers are text from now on
+    if (!opener.image) {
+      let bracket = this.brackets;
+      while (bracket) {
+        if (!bracket.image) bracket.active = false;
+        bracket = bracket.previous;
+      }
+    }
+  }
+
+  // Length of a [label] at the current position, or 0
+  private parseLinkLabel(): number {
+    const label = RE_LINK_LABEL.exec(this.source.slice(this.pos));
+    if (!label || label[0].length > 1001) return 0;
+    this.pos += label[0].length;
+    return label[0].length;
+  }
+
+  private parseLinkDestination(): string | null {
+    const braces = this.match(RE_LINK_DESTINATION_BRACES);
+    if (braces !== null) {
+      return normalizeURI(unescapeString(braces.slice(1, -1)));
+    }
+    if (this.peek() === '<') return null;
+
+    // Bare destinations may hold balanced parentheses
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < this.source.length) {
+      const char = this.source.charAt(this.pos);
+      if (char === '\\' && RE_ESCAPABLE.test(this.source.charAt(this.pos + 1))) {
+        this.pos += 2;
+      } else if (char === '(') {
+        depth++;
+        this.pos++;
+      } else if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+        this.pos++;
+      } else if (char <= ' ') {
+        break;
+      } else {
+        this.pos++;
+      }
+    }
+    if (depth !== 0 || (this.pos === start && this.peek() !== ')')) return null;
+    return normalizeURI(unescapeString(this.source.slice(start, this.pos)));
+  }
+
+  private parseLinkTitle(): string | null {
+    const title = this.match(RE_LINK_TITLE);
+    return title === null ? null : unescapeString(title.slice(1, -1));
+  }
+
+  private parseAutolink(): boolean {
+    const email = this.match(RE_EMAIL_AUTOLINK);
+    if (email) {
+      const address = email.slice(1, -1);
+      this.nodes.push({ type: 'link', href: normalizeURI(`mailto:${address}`), title: '', children: [{ type: 'text', value: address }] });
+      return true;
+    }
+    const link = this.match(RE_AUTOLINK);
+    if (link) {
+      const url = link.slice(1, -1);
+      this.nodes.push({ type: 'link', href: normalizeURI(url), title: '', children: [{ type: 'text', value: url }] });
+      return true;
+    }
+    return false;
+  }
+
+  private parseHTMLTag(): boolean {
+    const tag = this.match(HTML_TAG);
+    if (!tag) return false;
+    this.nodes.push({ type: 'html', value: tag });
+    return true;
+  }
+}
+
+function mergeText(nodes: InlineNode[]): InlineNode[] {
+  const result: InlineNode[] = [];
+  nodes.forEach(node => {
+    const previous = result[result.length - 1];
+    if (node.type === 'text' && previous?.type === 'text') {
+      previous.value += node.value!;
+    } else if (node.type !== 'text' || node.value) {
+      result.push(node);
+    }
+  });
+  return result;
+}
+
+// Where a bare link found in text really ends, per GitHub's rules
+function trimBareURL(url: string): string {
+  let end = url.length;
+  for (;;) {
+    const char = url.charAt(end - 1);
+    if (/[?!.,:*_~]/.test(char)) {
+      end--;
+    } else if (char === ')' && count(url.slice(0, end), ')') > count(url.slice(0, end), '(')) {
+      end--;
+    } else if (char === ';') {
+      // Something that looks like an entity reference is not part of the link
+      const entity = url.slice(0, end).match(/&[a-z0-9]+;$/i);
+      if (!entity) break;
+      end -= entity[0].length;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+function validDomain(url: string): boolean {
+  const domain = url.replace(/^(?:https?:\/\/)/i, '').split(/[/?#]/)[0];
+  const segments = domain.split('.');
+  return segments.length >= 2 && segments.every(segment => /^[\w-]+$/.test(segment)) &&
+    segments.slice(-2).every(segment => !segment.includes('_'));
+}
+
+// Links GitHub makes of www., http(s):// and e-mail addresses written out in text
+function linkBareURLs(nodes: InlineNode[]): InlineNode[] {
+  const result: InlineNode[] = [];
+  nodes.forEach(node => {
+    if (node.type === 'link' || node.type === 'image') {
+      result.push(node);
+      return;
+    }
+    if (node.children) {
+      node.children = linkBareURLs(node.children);
+    }
+    if (node.type !== 'text') {
+      result.push(node);
+      return;
+    }
+
+    const text = node.value!;
+    let last = 0;
+    RE_EXTENDED_AUTOLINK.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = RE_EXTENDED_AUTOLINK.exec(text)) !== null) {
+      const before = match.index === 0 ? '' : text.charAt(match.index - 1);
+      if (before && !/[\s*_~(]/.test(before)) continue;
+
+      const email = !/^(?:https?:\/\/|www\.)/i.test(match[0]);
+      const url = email ? match[0].replace(/[-_.]+$/, '') : trimBareURL(match[0]);
+      if (email ? !/\.[a-z0-9-]*[a-z0-9]$/i.test(url) : !validDomain(url)) continue;
+
+      if (match.index > last) {
+        result.push({ type: 'text', value: text.slice(last, match.index) });
+      }
+      const href = email ? `mailto:${url}` : /^www\./i.test(url) ? `http://${url}` : url;
+      result.push({ type: 'link', href: normalizeURI(href), title: '', children: [{ type: 'text', value: url }] });
+      last = match.index + url.length;
+      RE_EXTENDED_AUTOLINK.lastIndex = last;
+    }
+    if (last < text.length) {
+      result.push({ type: 'text', value: text.slice(last) });
+    }
+  });
+  return result;
+}
+
+function plainText(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text' || node.type === 'code') return node.value!;
+    if (node.type === 'softbreak' || node.type === 'hardbreak') return '\n';
+    return node.children ? plainText(node.children) : '';
+  }).join('');
+}
+
+function renderNodes(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHTML(node.value!);
+      case 'softbreak':
+        return '\n';
+      case 'hardbreak':
+        return '<br>';
+      case 'code':
+        return `<code>${escapeHTML(node.value!)}</code>`;
+      case 'html':
+        return node.value!;
+      case 'emph':
+        return `<em>${renderNodes(node.children!)}</em>`;
+      case 'strong':
+        return `<strong>${renderNodes(node.children!)}</strong>`;
+      case 'strike':
+        return `<s>${renderNodes(node.children!)}</s>`;
+      case 'link': {
+        const title = node.title ? ` title="${escapeAttribute(node.title)}"` : '';
+        return `<a href="${escapeAttribute(node.href!)}"${title}>${renderNodes(node.children!)}</a>`;
+      }
+      case 'image': {
+        const title = node.title ? ` title="${escapeAttribute(node.title)}"` : '';
+        return `<img src="${escapeAttribute(node.href!)}" alt="${escapeAttribute(plainText(node.children!))}"${title}>`;
+      }
+    }
+    return '';
+  }).join('');
+}
+
+export function renderInline(text: string, references: ReferenceMap): string {
+  return renderNodes(new InlineParser(references).parse(text));
+}
+
+/**
+ * Takes the link reference definitions off the start of a paragraph into
+ * `references`, returning the text left.
+ */
+export function extractReferences(text: string, references: ReferenceMap): string {
+  const parser = new InlineParser(references);
+  let rest = text;
+  while (rest.startsWith('[')) {
+    const length = parser.parseReference(rest);
+    if (length === 0) break;
+    rest = rest.slice(length);
+  }
+  return rest;
+}
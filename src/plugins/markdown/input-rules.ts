@@ -0,0 +1,255 @@
+import { Editor, InputRule, InputRuleMatch } from '../../types';
+
+// Blocks Markdown block syntax may be typed at the start of
+const CONVERTIBLE = /^(P|DIV|H[1-6])$/;
+const INLINE_BOUNDARY = /^(BR|P|H[1-6]|UL|OL|LI|BLOCKQUOTE|DIV|PRE|TABLE|FIGURE|HR)$/;
+
+interface BlockParts {
+  dom: HTMLElement;
+  // Where the block's text goes
+  contentDOM: HTMLElement;
+}
+
+function placeCaret(node: Node, offset: number): void {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.setStart(node, offset);
+  range.collapse(true);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+// A bare line of text in the content element becomes a paragraph first
+function wrapLine(root: HTMLElement, range: Range): HTMLElement {
+  let top: Node = range.startContainer;
+  while (top.parentNode && top.parentNode !== root) {
+    top = top.parentNode;
+  }
+  let first = top;
+  while (first.previousSibling && !isBoundary(first.previousSibling)) {
+    first = first.previousSibling;
+  }
+  let last = top;
+  while (last.nextSibling && !isBoundary(last.nextSibling)) {
+    last = last.nextSibling;
+  }
+
+  const paragraph = document.createElement('p');
+  root.insertBefore(paragraph, first);
+  let node: Node | null = first;
+  while (node) {
+    const next: Node | null = node === last ? null : node.nextSibling;
+    paragraph.appendChild(node);
+    node = next;
+  }
+  // The break ending the line is the paragraph's end now
+  if (paragraph.nextSibling && (paragraph.nextSibling as Element).tagName === 'BR') {
+    root.removeChild(paragraph.nextSibling);
+  }
+  return paragraph;
+}
+
+function isBoundary(node: Node): boolean {
+  return node.nodeType === Node.ELEMENT_NODE && INLINE_BOUNDARY.test((node as Element).tagName);
+}
+
+/**
+ * Removes the typed syntax and moves the rest of the block into the one
+ * `build` makes, with the caret at the start of its text.
+ */
+function replaceBlock(root: HTMLElement, { block, range }: InputRuleMatch, build: () => BlockParts): boolean {
+  const source = block === root ? null : block;
+  // Only blocks at the top level, not ones already in a list, quote or table
+  if (source && (!CONVERTIBLE.test(source.tagName) || source.parentElement !== root)) return false;
+
+  range.deleteContents();
+  const target = source || wrapLine(root, range);
+
+  const { dom, contentDOM } = build();
+  while (target.firstChild) {
+    contentDOM.appendChild(target.firstChild);
+  }
+  if (!contentDOM.textContent) {
+    contentDOM.innerHTML = '<br>';
+  }
+  target.replaceWith(dom);
+
+  const first = contentDOM.firstChild;
+  if (first && first.nodeType === Node.TEXT_NODE) {
+    placeCaret(first, 0);
+  } else {
+    placeCaret(contentDOM, 0);
+  }
+  return true;
+}
+
+function list(tag: 'ul' | 'ol', start?: number): BlockParts {
+  const dom = document.createElement(tag);
+  if (start !== undefined && start !== 1) {
+    dom.setAttribute('start', String(start));
+  }
+  const item = document.createElement('li');
+  dom.appendChild(item);
+  return { dom, contentDOM: item };
+}
+
+// Same markup as the checklist plugin's items
+function checklist(checked: boolean): BlockParts {
+  const dom = document.createElement('ul');
+  dom.className = 'xeditor-checklist';
+  const item = document.createElement('li');
+  item.className = 'xeditor-checklist-item';
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.className = 'xeditor-checklist-checkbox';
+  checkbox.setAttribute('contenteditable', 'false');
+  if (checked) {
+    checkbox.setAttribute('checked', '');
+  }
+  const text = document.createElement('span');
+  text.className = 'xeditor-checklist-text';
+  text.setAttribute('contenteditable', 'true');
+  item.append(checkbox, text);
+  dom.appendChild(item);
+  return { dom, contentDOM: text };
+}
+
+// Same markup as the code block plugin's blocks
+function codeBlock(language: string): BlockParts {
+  const dom = document.createElement('pre');
+  dom.className = 'xeditor-codeblock';
+  const code = document.createElement('code');
+  code.setAttribute('spellcheck', 'false');
+  if (language) {
+    dom.setAttribute('data-language', language);
+    code.className = `language-${language}`;
+  }
+  dom.appendChild(code);
+  return { dom, contentDOM: code };
+}
+
+function blockquote(): BlockParts {
+  const dom = document.createElement('blockquote');
+  const paragraph = document.createElement('p');
+  dom.appendChild(paragraph);
+  return { dom, contentDOM: paragraph };
+}
+
+// Takes `length` characters off one end of a fragment's text
+function trimFragment(fragment: DocumentFragment, length: number, fromStart: boolean): void {
+  const walker = document.createTreeWalker(fragment, NodeFilter.SHOW_TEXT);
+  const texts: Text[] = [];
+  let node: Node | null;
+  while ((node = walker.nextNode()) !== null) {
+    texts.push(node as Text);
+  }
+  if (!fromStart) texts.reverse();
+
+  let remaining = length;
+  for (const text of texts) {
+    if (remaining === 0) break;
+    const removed = Math.min(remaining, text.length);
+    text.data = fromStart ? text.data.slice(removed) : text.data.slice(0, text.length - removed);
+    remaining -= removed;
+  }
+}
+
+/**
+ * Wraps the text between the delimiters in `tag`. The caret goes into an
+ * empty text node after it, so what is typed next is not formatted.
+ */
+function wrapInline({ match, range }: InputRuleMatch, tag: string, delimiter: string): boolean {
+  if (range.startContainer.parentElement?.closest('code, a')) return false;
+
+  const fragment = range.extractContents();
+  trimFragment(fragment, delimiter.length, true);
+  trimFragment(fragment, delimiter.length, false);
+  const element = document.createElement(tag);
+  if (tag === 'code') {
+    element.textContent = match[1];
+  } else {
+    element.appendChild(fragment);
+  }
+  range.insertNode(element);
+
+  const after = document.createTextNode('');
+  element.after(after);
+  placeCaret(after, 0);
+  return true;
+}
+
+/**
+ * Markdown typed at the start of a paragraph turns it into that block, and
+ * emphasis or code turns into formatting as its closing delimiter is typed.
+ */
+export function createMarkdownInputRules(editor: Editor): InputRule[] {
+  const root = editor.contentElement;
+  return [
+    // Typed spaces may arrive as non-breaking ones at the end of a line
+    {
+      name: 'markdown:heading',
+      pattern: /^(#{1,6})[ \u00a0]$/,
+      handler: match => replaceBlock(root, match, () => {
+        const dom = document.createElement(`h${match.match[1].length}`);
+        return { dom, contentDOM: dom };
+      })
+    },
+    {
+      name: 'markdown:blockquote',
+      pattern: /^>[ \u00a0]$/,
+      handler: match => replaceBlock(root, match, blockquote)
+    },
+    {
+      name: 'markdown:bullet-list',
+      pattern: /^[-*+][ \u00a0]$/,
+      handler: match => replaceBlock(root, match, () => list('ul'))
+    },
+    {
+      name: 'markdown:ordered-list',
+      pattern: /^(\d{1,9})[.)][ \u00a0]$/,
+      handler: match => replaceBlock(root, match, () => list('ol', parseInt(match.match[1], 10)))
+    },
+    {
+      name: 'markdown:checklist',
+      pattern: /^\[([ xX]?)\][ \u00a0]$/,
+      handler: match => replaceBlock(root, match, () => checklist(match.match[1].toLowerCase() === 'x'))
+    },
+    {
+      // After a space or Enter, so a language can be typed first
+      name: 'markdown:code-block',
+      pattern: /^```([\w+#.-]*)\s$/,
+      handler: match => replaceBlock(root, match, () => codeBlock(match.match[1]))
+    },
+    {
+      name: 'markdown:bold',
+      pattern: /(?<![*\\])\*\*([^*\s](?:[^*]*[^*\s])?)\*\*$/,
+      handler: match => wrapInline(match, 'strong', '**')
+    },
+    {
+      name: 'markdown:bold-underscore',
+      pattern: /(?<![\w_\\])__([^_\s](?:[^_]*[^_\s])?)__$/,
+      handler: match => wrapInline(match, 'strong', '__')
+    },
+    {
+      name: 'markdown:italic',
+      pattern: /(?<![*\\])\*([^*\s](?:[^*]*[^*\s])?)\*$/,
+      handler: match => wrapInline(match, 'em', '*')
+    },
+    {
+      name: 'markdown:italic-underscore',
+      pattern: /(?<![\w_\\])_([^_\s](?:[^_]*[^_\s])?)_$/,
+      handler: match => wrapInline(match, 'em', '_')
+    },
+    {
+      name: 'markdown:strike',
+      pattern: /(?<![~\\])~~([^~\s](?:[^~]*[^~\s])?)~~$/,
+      handler: match => wrapInline(match, 's', '~~')
+    },
+    {
+      name: 'markdown:code',
+      pattern: /(?<![`\\])`([^`]+)`$/,
+      handler: match => wrapInline(match, 'code', '`')
+    }
+  ];
+}
@@ -0,0 +1,796 @@
+import { escapeHTML } from '../../utils/sanitize';
+import { CLOSE_TAG, OPEN_TAG, ReferenceMap, escapeAttribute, extractReferences, renderInline, unescapeString } from './inline';
+
+/**
+ * Block half of the Markdown parser, following the CommonMark algorithm:
+ * each line first continues the open containers (block quotes, list items)
+ * it matches, may then open new blocks, and whatever remains is added to
+ * the innermost open block. Inline content is parsed once the whole
+ * document is, when every link reference definition is known.
+ *
+ * GitHub's tables and task list items are supported on top. Output is the
+ * markup the editor itself produces, so task lists come out as checklists
+ * and fenced code keeps its language for the code block plugin.
+ */
+
+type BlockType =
+  | 'document' | 'blockquote' | 'list' | 'item' | 'paragraph' | 'heading'
+  | 'thematic_break' | 'code' | 'html' | 'table';
+
+interface ListData {
+  ordered: boolean;
+  // Bullet character or the delimiter after the number
+  marker: string;
+  start: number;
+  tight: boolean;
+  markerOffset: number;
+  padding: number;
+}
+
+interface Block {
+  type: BlockType;
+  parent: Block | null;
+  children: Block[];
+  open: boolean;
+  lines: string[];
+  startLine: number;
+  endLine: number;
+  level?: number;
+  fence?: { char: string; length: number; offset: number };
+  info?: string;
+  list?: ListData;
+  htmlType?: number;
+  aligns?: Array<'left' | 'center' | 'right' | null>;
+  cells?: string[][];
+}
+
+const CODE_INDENT = 4;
+
+const RE_HTML_BLOCK_OPEN = [
+  /./,
+  /^<(?:script|pre|textarea|style)(?:\s|>|$)/i,
+  /^<!--/,
+  /^<[?]/,
+  /^<![A-Za-z]/,
+  /^<!\[CDATA\[/,
+  /^<[/]?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[123456]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(?:\s|[/]?[>]|$)/i,
+  new RegExp(`^(?:${OPEN_TAG}|${CLOSE_TAG})\\s*$`, 'i')
+];
+const RE_HTML_BLOCK_CLOSE = [
+  /./,
+  /<\/(?:script|pre|textarea|style)>/i,
+  /-->/,
+  /\?>/,
+  />/,
+  /\]\]>/
+];
+const RE_THEMATIC_BREAK = /^(?:\*[ \t]*){3,}$|^(?:_[ \t]*){3,}$|^(?:-[ \t]*){3,}$/;
+const RE_MAYBE_SPECIAL = /^[#`~*+_=<>0-9|:-]/;
+const RE_NON_SPACE = /[^ \t\f\v\r\n]/;
+const RE_BULLET_MARKER = /^[*+-]/;
+const RE_ORDERED_MARKER = /^(\d{1,9})([.)])/;
+const RE_ATX_HEADING = /^#{1,6}(?:[ \t]+|$)/;
+const RE_CODE_FENCE = /^`{3,}(?!.*`)|^~{3,}/;
+const RE_CLOSING_CODE_FENCE = /^(?:`{3,}|~{3,})(?=[ \t]*$)/;
+const RE_SETEXT_HEADING = /^(?:=+|-+)[ \t]*$/;
+const RE_TABLE_DELIMITER_CELL = /^:?-+:?$/;
+const RE_TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+
+function isSpaceOrTab(char: string): boolean {
+  return char === ' ' || char === '\t';
+}
+
+function isBlank(text: string): boolean {
+  return !RE_NON_SPACE.test(text);
+}
+
+// Cells of a table row, split at pipes that are not escaped
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (char === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseDelimiterRow(line: string): Array<'left' | 'center' | 'right' | null> | null {
+  if (!line.includes('-') || !/^[\s|:-]+$/.test(line)) return null;
+  if (!line.includes('|') && !/^\s*:?-+:?\s*$/.test(line)) return null;
+
+  const cells = splitRow(line);
+  if (!cells.every(cell => RE_TABLE_DELIMITER_CELL.test(cell))) return null;
+  return cells.map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+  });
+}
+
+class BlockParser {
+  private doc!: Block;
+  private tip!: Block;
+  private oldTip!: Block;
+  private lastMatchedContainer!: Block;
+  private line = '';
+  private lineNumber = 0;
+  private offset = 0;
+  private column = 0;
+  private nextNonspace = 0;
+  private nextNonspaceColumn = 0;
+  private indent = 0;
+  private indented = false;
+  private blank = false;
+  private partiallyConsumedTab = false;
+  private allClosed = true;
+  references: ReferenceMap = {};
+
+  parse(markdown: string): Block {
+    this.doc = this.createBlock('document', 0);
+    this.tip = this.doc;
+    this.oldTip = this.doc;
+    this.lastMatchedContainer = this.doc;
+    this.references = {};
+    this.lineNumber = 0;
+
+    const lines = markdown.replace(/\0/g, '\ufffd').split(/\r\n|\n|\r/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    lines.forEach(line => this.incorporateLine(line));
+
+    while (this.tip) {
+      this.finalize(this.tip, this.lineNumber);
+    }
+    return this.doc;
+  }
+
+  private createBlock(type: BlockType, startLine: number): Block {
+    return { type, parent: null, children: [], open: true, lines: [], startLine, endLine: startLine };
+  }
+
+  private lastChild(block: Block): Block | null {
+    return block.children[block.children.length - 1] || null;
+  }
+
+  private findNextNonspace(): void {
+    let i = this.offset;
+    let column = this.column;
+    let char: string;
+    while ((char = this.line.charAt(i)) !== '') {
+      if (char === ' ') {
+        i++;
+        column++;
+      } else if (char === '\t') {
+        i++;
+        column += 4 - (column % 4);
+      } else {
+        break;
+      }
+    }
+    this.blank = char === '' || char === '\n' || char === '\r';
+    this.nextNonspace = i;
+    this.nextNonspaceColumn = column;
+    this.indent = this.nextNonspaceColumn - this.column;
+    this.indented = this.indent >= CODE_INDENT;
+  }
+
+  private advanceNextNonspace(): void {
+    this.offset = this.nextNonspace;
+    this.column = this.nextNonspaceColumn;
+    this.partiallyConsumedTab = false;
+  }
+
+  // Moves on by `count` characters, or by `count` columns of which tabs may give part
+  private advanceOffset(count: number, columns: boolean): void {
+    let char: string;
+    while (count > 0 && (char = this.line.charAt(this.offset)) !== '') {
+      if (char === '\t') {
+        const charsToTab = 4 - (this.column % 4);
+        if (columns) {
+          this.partiallyConsumedTab = charsToTab > count;
+          const advance = Math.min(charsToTab, count);
+          this.column += advance;
+          this.offset += this.partiallyConsumedTab ? 0 : 1;
+          count -= advance;
+        } else {
+          this.partiallyConsumedTab = false;
+          this.column += charsToTab;
+          this.offset += 1;
+          count -= 1;
+        }
+      } else {
+        this.partiallyConsumedTab = false;
+        this.offset += 1;
+        this.column += 1;
+        count -= 1;
+      }
+    }
+  }
+
+  private addLine(): void {
+    let text = '';
+    if (this.partiallyConsumedTab) {
+      // The rest of a tab the container did not use counts as spaces
+      this.offset += 1;
+      text = ' '.repeat(4 - (this.column % 4));
+    }
+    this.tip.lines.push(text + this.line.slice(this.offset));
+  }
+
+  private addChild(type: BlockType): Block {
+    while (!this.canContain(this.tip.type, type)) {
+      this.finalize(this.tip, this.lineNumber - 1);
+    }
+    const block = this.createBlock(type, this.lineNumber);
+    block.parent = this.tip;
+    this.tip.children.push(block);
+    this.tip = block;
+    return block;
+  }
+
+  private canContain(parent: BlockType, child: BlockType): boolean {
+    if (parent === 'document' || parent === 'blockquote' || parent === 'item') return child !== 'item';
+    if (parent === 'list') return child === 'item';
+    return false;
+  }
+
+  private acceptsLines(type: BlockType): boolean {
+    return type === 'paragraph' || type === 'code' || type === 'html' || type === 'table';
+  }
+
+  private closeUnmatchedBlocks(): void {
+    if (this.allClosed) return;
+    while (this.oldTip !== this.lastMatchedContainer) {
+      const parent = this.oldTip.parent!;
+      this.finalize(this.oldTip, this.lineNumber - 1);
+      this.oldTip = parent;
+    }
+    this.allClosed = true;
+  }
+
+  /**
+   * Whether an open block goes on with the current line: 0 if it does,
+   * 1 if it does not, 2 if the line ended it (a closing code fence).
+   */
+  private continueBlock(block: Block): 0 | 1 | 2 {
+    switch (block.type) {
+      case 'blockquote':
+        if (!this.indented && this.line.charAt(this.nextNonspace) === '>') {
+          this.advanceNextNonspace();
+          this.advanceOffset(1, false);
+          if (isSpaceOrTab(this.line.charAt(this.offset))) {
+            this.advanceOffset(1, true);
+          }
+          return 0;
+        }
+        return 1;
+      case 'item': {
+        const list = block.list!;
+        if (this.blank) {
+          if (block.children.length === 0) return 1;
+          this.advanceNextNonspace();
+          return 0;
+        }
+        if (this.indent >= list.markerOffset + list.padding) {
+          this.advanceOffset(list.markerOffset + list.padding, true);
+          return 0;
+        }
+        return 1;
+      }
+      case 'code':
+        if (block.fence) {
+          const fence = !this.indented && this.line.charAt(this.nextNonspace) === block.fence.char
+            ? this.line.slice(this.nextNonspace).match(RE_CLOSING_CODE_FENCE)
+            : null;
+          if (fence && fence[0].length >= block.fence.length) {
+            this.finalize(block, this.lineNumber);
+            return 2;
+          }
+          // Skip as much of the indentation as the opening fence had
+          let i = block.fence.offset;
+          while (i > 0 && isSpaceOrTab(this.line.charAt(this.offset))) {
+            this.advanceOffset(1, true);
+            i--;
+          }
+          return 0;
+        }
+        if (this.indent >= CODE_INDENT) {
+          this.advanceOffset(CODE_INDENT, true);
+          return 0;
+        }
+        if (this.blank) {
+          this.advanceNextNonspace();
+          return 0;
+        }
+        return 1;
+      case 'html':
+        return this.blank && (block.htmlType === 6 || block.htmlType === 7) ? 1 : 0;
+      case 'paragraph':
+      case 'table':
+        return this.blank ? 1 : 0;
+      case 'list':
+      case 'document':
+        return 0;
+      default:
+        return 1;
+    }
+  }
+
+  private incorporateLine(line: string): void {
+    let container = this.doc;
+    this.oldTip = this.tip;
+    this.offset = 0;
+    this.column = 0;
+    this.blank = false;
+    this.partiallyConsumedTab = false;
+    this.lineNumber++;
+    this.line = line;
+
+    let lastChild: Block | null;
+    while ((lastChild = this.lastChild(container)) && lastChild.open) {
+      container = lastChild;
+      this.findNextNonspace();
+      const result = this.continueBlock(container);
+      if (result === 1) {
+        container = container.parent!;
+        break;
+      }
+      if (result === 2) return;
+    }
+
+    this.allClosed = container === this.oldTip;
+    this.lastMatchedContainer = container;
+
+    let matchedLeaf = container.type !== 'paragraph' && container.type !== 'table' && this.acceptsLines(container.type);
+    while (!matchedLeaf) {
+      this.findNextNonspace();
+      if (!this.indented && !RE_MAYBE_SPECIAL.test(this.line.slice(this.nextNonspace))) {
+        this.advanceNextNonspace();
+        break;
+      }
+
+      const result = this.startBlock(container);
+      if (result === 0) {
+        this.advanceNextNonspace();
+        break;
+      }
+      container = this.tip;
+      if (result === 2) {
+        matchedLeaf = true;
+      }
+    }
+
+    if (!this.allClosed && !this.blank && this.tip.type === 'paragraph') {
+      // Lazy continuation of a paragraph
+      this.addLine();
+      return;
+    }
+
+    this.closeUnmatchedBlocks();
+
+    const type = container.type;
+    if (type === 'table') {
+      if (!this.blank && this.offset < this.line.length) {
+        this.addTableRow(container, this.line.slice(this.offset));
+      }
+    } else if (this.acceptsLines(type)) {
+      this.addLine();
+      if (type === 'html' && container.htmlType! >= 1 && container.htmlType! <= 5 &&
+        RE_HTML_BLOCK_CLOSE[container.htmlType!].test(this.line.slice(this.offset))) {
+        this.finalize(container, this.lineNumber);
+      }
+    } else if (this.offset < this.line.length && !this.blank) {
+      this.addChild('paragraph');
+      this.advanceNextNonspace();
+      this.addLine();
+    }
+  }
+
+  /**
+   * Tries to open a block at the current position: 0 if none starts there,
+   * 1 for a container, 2 for a leaf block that takes the rest of the line.
+   */
+  private startBlock(container: Block): 0 | 1 | 2 {
+    const rest = this.line.slice(this.nextNonspace);
+    const char = rest.charAt(0);
+
+    // Indented code, which cannot interrupt a paragraph
+    if (this.indented) {
+      if (this.tip.type !== 'paragraph' && this.tip.type !== 'table' && !this.blank) {
+        this.advanceOffset(CODE_INDENT, true);
+        this.closeUnmatchedBlocks();
+        this.addChild('code');
+        return 2;
+      }
+      return 0;
+    }
+
+    if (char === '>') {
+      this.advanceNextNonspace();
+      this.advanceOffset(1, false);
+      if (isSpaceOrTab(this.line.charAt(this.offset))) {
+        this.advanceOffset(1, true);
+      }
+      this.closeUnmatchedBlocks();
+      this.addChild('blockquote');
+      return 1;
+    }
+
+    const atx = rest.match(RE_ATX_HEADING);
+    if (atx) {
+      this.advanceNextNonspace();
+      this.advanceOffset(atx[0].length, false);
+      this.closeUnmatchedBlocks();
+      const heading = this.addChild('heading');
+      heading.level = atx[0].trim().length;
+      heading.lines = [
+        this.line.slice(this.offset).replace(/^[ \t]*#+[ \t]*$/, '').replace(/[ \t]+#+[ \t]*$/, '')
+      ];
+      this.advanceOffset(this.line.length - this.offset, false);
+      return 2;
+    }
+
+    const fence = rest.match(RE_CODE_FENCE);
+    if (fence) {
+      this.closeUnmatchedBlocks();
+      const code = this.addChild('code');
+      code.fence = { char: fence[0][0], length: fence[0].length, offset: this.indent };
+      code.info = unescapeString(rest.slice(fence[0].length).trim());
+      this.advanceNextNonspace();
+      this.advanceOffset(fence[0].length, false);
+      this.advanceOffset(this.line.length - this.offset, false);
+      return 2;
+    }
+
+    if (char === '<') {
+      for (let type = 1; type <= 7; type++) {
+        if (RE_HTML_BLOCK_OPEN[type].test(rest) && (type < 7 || (container.type !== 'paragraph' && !(!this.allClosed && !this.blank && this.tip.type === 'paragraph')))) {
+          this.closeUnmatchedBlocks();
+          // The line is added as text, without moving past its indentation
+          const html = this.addChild('html');
+          html.htmlType = type;
+          return 2;
+        }
+      }
+    }
+
+    if (container.type === 'paragraph' && RE_SETEXT_HEADING.test(rest)) {
+      this.closeUnmatchedBlocks();
+      const content = extractReferences(container.lines.join('\n'), this.references);
+      if (content.trim()) {
+        const heading = this.createBlock('heading', container.startLine);
+        heading.level = rest.charAt(0) === '=' ? 1 : 2;
+        heading.lines = [content];
+        this.replaceBlock(container, heading);
+        this.tip = heading;
+        this.advanceOffset(this.line.length - this.offset, false);
+        return 2;
+      }
+    }
+
+    if (container.type === 'paragraph' && this.startTable(container, rest)) {
+      return 2;
+    }
+
+    if (RE_THEMATIC_BREAK.test(rest)) {
+      this.closeUnmatchedBlocks();
+      this.addChild('thematic_break');
+      this.advanceOffset(this.line.length - this.offset, false);
+      return 2;
+    }
+
+    const list = this.parseListMarker(container);
+    if (list) {
+      this.closeUnmatchedBlocks();
+      const parent = this.tip;
+      if (parent.type !== 'list' || !this.sameList(parent.list!, list)) {
+        const newList = this.addChild('list');
+        newList.list = { ...list };
+      }
+      const item = this.addChild('item');
+      item.list = list;
+      return 1;
+    }
+
+    return 0;
+  }
+
+  private replaceBlock(old: Block, replacement: Block): void {
+    const parent = old.parent!;
+    replacement.parent = parent;
+    parent.children[parent.children.indexOf(old)] = replacement;
+  }
+
+  // A delimiter row under a paragraph line with as many cells makes that line a table header
+  private startTable(paragraph: Block, rest: string): boolean {
+    const aligns = parseDelimiterRow(rest);
+    if (!aligns || !this.allClosed) return false;
+    const header = splitRow(paragraph.lines[paragraph.lines.length - 1]);
+    if (header.length !== aligns.length) return false;
+
+    this.closeUnmatchedBlocks();
+    paragraph.lines.pop();
+    const table = this.createBlock('table', this.lineNumber - 1);
+    table.aligns = aligns;
+    table.cells = [header];
+    table.parent = paragraph.parent;
+    const siblings = paragraph.parent!.children;
+    if (paragraph.lines.length > 0) {
+      this.finalize(paragraph, this.lineNumber - 2);
+      siblings.push(table);
+    } else {
+      siblings[siblings.indexOf(paragraph)] = table;
+    }
+    this.tip = table;
+    this.advanceOffset(this.line.length - this.offset, false);
+    return true;
+  }
+
+  private addTableRow(table: Block, line: string): void {
+    const cells = splitRow(line).slice(0, table.aligns!.length);
+    while (cells.length < table.aligns!.length) {
+      cells.push('');
+    }
+    table.cells!.push(cells);
+  }
+
+  private sameList(a: ListData, b: ListData): boolean {
+    return a.ordered === b.ordered && a.marker === b.marker;
+  }
+
+  private parseListMarker(container: Block): ListData | null {
+    const rest = this.line.slice(this.nextNonspace);
+    const interruptsParagraph = container.type === 'paragraph';
+    let data: ListData;
+    let markerLength: number;
+
+    const bullet = rest.match(RE_BULLET_MARKER);
+    const ordered = rest.match(RE_ORDERED_MARKER);
+    if (bullet) {
+      data = { ordered: false, marker: bullet[0], start: 1, tight: true, markerOffset: this.indent, padding: 0 };
+      markerLength = 1;
+    } else if (ordered && (!interruptsParagraph || ordered[1] === '1')) {
+      data = { ordered: true, marker: ordered[2], start: parseInt(ordered[1], 10), tight: true, markerOffset: this.indent, padding: 0 };
+      markerLength = ordered[0].length;
+    } else {
+      return null;
+    }
+
+    const next = this.line.charAt(this.nextNonspace + markerLength);
+    if (next !== '' && next !== '\t' && next !== ' ') return null;
+    // An empty item cannot interrupt a paragraph
+    if (interruptsParagraph && isBlank(this.line.slice(this.nextNonspace + markerLength))) return null;
+
+    this.advanceNextNonspace();
+    this.advanceOffset(markerLength, true);
+    const spacesStartColumn = this.column;
+    const spacesStartOffset = this.offset;
+    do {
+      this.advanceOffset(1, true);
+    } while (this.column - spacesStartColumn < 5 && isSpaceOrTab(this.line.charAt(this.offset)));
+
+    const blankItem = this.line.charAt(this.offset) === '';
+    const spacesAfterMarker = this.column - spacesStartColumn;
+    if (spacesAfterMarker >= 5 || spacesAfterMarker < 1 || blankItem) {
+      // Content indented further is indented code inside the item
+      data.padding = markerLength + 1;
+      this.column = spacesStartColumn;
+      this.offset = spacesStartOffset;
+      if (isSpaceOrTab(this.line.charAt(this.offset))) {
+        this.advanceOffset(1, true);
+      }
+    } else {
+      data.padding = markerLength + spacesAfterMarker;
+    }
+    return data;
+  }
+
+  private finalize(block: Block, endLine: number): void {
+    const parent = block.parent;
+    block.open = false;
+    block.endLine = endLine;
+
+    switch (block.type) {
+      case 'paragraph': {
+        const content = extractReferences(block.lines.join('\n'), this.references);
+        if (isBlank(content)) {
+          parent!.children.splice(parent!.children.indexOf(block), 1);
+        } else {
+          block.lines = [content];
+        }
+        break;
+      }
+      case 'code':
+        if (block.fence) {
+          // The first line held the info string
+          block.lines = block.lines.slice(1);
+        } else {
+          while (block.lines.length > 0 && isBlank(block.lines[block.lines.length - 1])) {
+            block.lines.pop();
+          }
+        }
+        break;
+      case 'item':
+        if (block.children.length > 0) {
+          block.endLine = this.lastChild(block)!.endLine;
+        }
+        break;
+      case 'list':
+        block.list!.tight = this.isTight(block);
+        block.endLine = this.lastChild(block)!.endLine;
+        break;
+    }
+
+    this.tip = parent!;
+  }
+
+  // Loose lists have blank lines between their items or between blocks inside one
+  private isTight(list: Block): boolean {
+    const separated = (blocks: Block[]) => blocks.some((block, index) =>
+      index < blocks.length - 1 && block.endLine !== blocks[index + 1].startLine - 1);
+    return !separated(list.children) && !list.children.some(item => separated(item.children));
+  }
+}
+
+// A top-level block and the source lines it came from, counted from 1
+export interface MarkdownBlock {
+  html: string;
+  startLine: number;
+  endLine: number;
+}
+
+class HTMLRenderer {
+  private references: ReferenceMap;
+
+  constructor(references: ReferenceMap) {
+    this.references = references;
+  }
+
+  render(block: Block): string {
+    return block.children.map(child => this.renderBlock(child, false)).join('');
+  }
+
+  renderBlocks(block: Block): MarkdownBlock[] {
+    return block.children.map(child => ({
+      html: this.renderBlock(child, false),
+      startLine: child.startLine,
+      endLine: child.endLine
+    }));
+  }
+
+  private inline(text: string): string {
+    return renderInline(text, this.references);
+  }
+
+  private renderBlock(block: Block, tight: boolean): string {
+    switch (block.type) {
+      case 'paragraph':
+        return tight ? this.inline(block.lines[0]) : `<p>${this.inline(block.lines[0])}</p>`;
+      case 'heading':
+        return `<h${block.level}>${this.inline(block.lines[0])}</h${block.level}>`;
+      case 'thematic_break':
+        return '<hr>';
+      case 'code': {
+        const language = (block.info || '').split(/\s+/)[0];
+        const text = block.lines.map(line => `${line}\n`).join('');
+        return language
+          ? `<pre data-language="${escapeAttribute(language)}"><code class="language-${escapeAttribute(language)}">${escapeHTML(text)}</code></pre>`
+          : `<pre><code>${escapeHTML(text)}</code></pre>`;
+      }
+      case 'html':
+        // Raw HTML ends with its line break, which may be part of an open element
+        return block.lines.map(line => `${line}\n`).join('');
+      case 'blockquote':
+        return `<blockquote>${block.children.map(child => this.renderBlock(child, false)).join('')}</blockquote>`;
+      case 'list':
+        return this.renderList(block);
+      case 'item':
+        return `<li>${this.renderItem(block, tight)}</li>`;
+      case 'table':
+        return this.renderTable(block);
+    }
+    return '';
+  }
+
+  private renderItem(item: Block, tight: boolean): string {
+    return item.children.map(child => this.renderBlock(child, tight)).join('');
+  }
+
+  // Leading "[ ]" or "[x]" of an item's first paragraph
+  private taskState(item: Block): boolean | null {
+    const first = item.children[0];
+    if (!first || first.type !== 'paragraph') return null;
+    const marker = first.lines[0].match(RE_TASK_MARKER);
+    return marker ? marker[1] !== ' ' : null;
+  }
+
+  private renderList(list: Block): string {
+    const data = list.list!;
+    const states = list.children.map(item => this.taskState(item));
+
+    // A bullet list of nothing but tasks is a checklist, unless a task holds
+    // more than its text, which checklist items have no room for
+    if (
+      !data.ordered && states.every(state => state !== null) &&
+      list.children.every(item => item.children.length === 1)
+    ) {
+      const items = list.children.map((item, index) => {
+        const text = this.inline(item.children[0].lines[0].replace(RE_TASK_MARKER, ''));
+        const checked = states[index] ? ' checked' : '';
+        return '<li class="xeditor-checklist-item">' +
+          `<input type="checkbox" class="xeditor-checklist-checkbox"${checked}>` +
+          `<span class="xeditor-checklist-text">${text}</span>` +
+          '</li>';
+      });
+      return `<ul class="xeditor-checklist">${items.join('')}</ul>`;
+    }
+
+    const items = list.children.map((item, index) => {
+      if (states[index] === null) {
+        return this.renderBlock(item, data.tight);
+      }
+      // Tasks in a list with other items keep a checkbox of their own
+      const [first, ...rest] = item.children;
+      const checkbox = `<input type="checkbox" disabled${states[index] ? ' checked' : ''}> `;
+      const text = this.inline(first.lines[0].replace(RE_TASK_MARKER, ''));
+      return `<li>${data.tight ? '' : '<p>'}${checkbox}${text}${data.tight ? '' : '</p>'}` +
+        rest.map(child => this.renderBlock(child, data.tight)).join('') + '</li>';
+    });
+
+    if (data.ordered) {
+      const start = data.start !== 1 ? ` start="${data.start}"` : '';
+      return `<ol${start}>${items.join('')}</ol>`;
+    }
+    return `<ul>${items.join('')}</ul>`;
+  }
+
+  private renderTable(table: Block): string {
+    const [header, ...rows] = table.cells!;
+    const cell = (tag: string, text: string, index: number): string => {
+      const align = table.aligns![index];
+      const style = align ? ` style="text-align: ${align};"` : '';
+      const scope = tag === 'th' ? ' scope="col"' : '';
+      return `<${tag}${scope}${style}>${this.inline(text) || '<br>'}</${tag}>`;
+    };
+
+    // A header row left empty stands for a table without one
+    const head = header.every(text => !text.trim())
+      ? ''
+      : `<thead><tr>${header.map((text, index) => cell('th', text, index)).join('')}</tr></thead>`;
+    const body = rows.length > 0
+      ? `<tbody>${rows.map(row => `<tr>${row.map((text, index) => cell('td', text, index)).join('')}</tr>`).join('')}</tbody>`
+      : '';
+    return `<table class="xeditor-table">${head}${body}</table>`;
+  }
+}
+
+/**
+ * HTML for a CommonMark document with GitHub's extensions: tables, task
+ * lists, strikethrough and bare links. The result still needs sanitizing
+ * like any other content, since Markdown may hold raw HTML.
+ */
+export function markdownToHTML(markdown: string): string {
+  const parser = new BlockParser();
+  const doc = parser.parse(markdown);
+  return new HTMLRenderer(parser.references).render(doc);
+}
+
+// The same HTML split into top-level blocks, to line a preview up with its source
+export function markdownToBlocks(markdown: string): MarkdownBlock[] {
+  const parser = new BlockParser();
+  const doc = parser.parse(markdown);
+  return new HTMLRenderer(parser.references).renderBlocks(doc);
+}
@@ -0,0 +1,486 @@
+import { DocumentJSON, DocNode, DocMark, DocAttrs, MarkdownConfig } from '../../types';
+import { MODEL_VERSION, markSpecs, serializeHTML } from '../../core/model';
+
+export type MarkdownExportOptions = Required<NonNullable<MarkdownConfig['exportOptions']>>;
+
+const INLINE_TYPES = ['text', 'image', 'hard_break', 'html'];
+
+// Marks Markdown writes with delimiters; every other mark is kept as inline HTML
+const DELIMITERS: Record<string, string> = {
+  bold: '**',
+  italic: '*',
+  strike: '~~'
+};
+
+// Lines that would start a block of their own, and the character to escape in them
+const RE_BLOCK_START = /^(#{1,6}(?=[ \t]|$)|>|[-+](?=[ \t]|$)|=+[ \t]*$|-+[ \t]*$)/;
+const RE_ORDERED_START = /^(\d{1,9})([.)])(?=[ \t]|$)/;
+// The checkbox the parser puts before tasks in lists that are not checklists
+const RE_CHECKBOX = /^<input type="checkbox"[^>]*>$/;
+
+const RE_WORD = /[\p{L}\p{N}]/u;
+const RE_PUNCTUATION = /[\p{P}\p{S}]/u;
+
+function isSpace(char: string): boolean {
+  return !char || /\s/.test(char);
+}
+
+function isPunctuation(char: string): boolean {
+  return !!char && RE_PUNCTUATION.test(char);
+}
+
+function escapeText(text: string, table: boolean): string {
+  let result = text
+    .replace(/[\\`*[\]~]/g, '\\$&')
+    .replace(/<(?=[a-zA-Z/!?])/g, '\\<')
+    .replace(/&(?=#?\w+;)/g, '\\&')
+    // Underscores within a word never emphasize
+    .replace(/_/g, (_match, offset: number) =>
+      RE_WORD.test(text.charAt(offset - 1)) && RE_WORD.test(text.charAt(offset + 1)) ? '_' : '\\_');
+  if (table) {
+    result = result.replace(/\|/g, '\\|');
+  }
+  return result;
+}
+
+// Escapes what would start a block at the beginning of each line
+function escapeLines(text: string): string {
+  return text.split('\n').map(line => {
+    const trimmed = line.replace(/^[ \t]+/, '');
+    const ordered = trimmed.match(RE_ORDERED_START);
+    if (ordered) {
+      return `${ordered[1]}\\${trimmed.slice(ordered[1].length)}`;
+    }
+    return RE_BLOCK_START.test(trimmed) ? `\\${trimmed}` : trimmed;
+  }).join('\n');
+}
+
+function destination(href: string): string {
+  const escaped = href.replace(/&(?=#?\w+;)/g, '\\&');
+  if (!href || /[\s<>()\p{Cc}]/u.test(href)) {
+    return `<${escaped.replace(/[\\<>]/g, '\\$&')}>`;
+  }
+  return escaped.replace(/\\/g, '\\\\');
+}
+
+function title(value: string): string {
+  return value ? ` "${value.replace(/[\\"]/g, '\\$&').replace(/&(?=#?\w+;)/g, '\\&')}"` : '';
+}
+
+function attr(attrs: DocAttrs | undefined, name: string): string {
+  const value = attrs?.[name];
+  return typeof value === 'string' ? value : '';
+}
+
+// Attributes Markdown has no way to write, which keep a block as HTML
+function hasLayout(node: DocNode, allowed: string[] = []): boolean {
+  const ignored = ['level', 'start', 'language', 'checked', ...allowed];
+  return Object.keys(node.attrs || {}).some(name => !ignored.includes(name));
+}
+
+function sameMark(a: DocMark, b: DocMark): boolean {
+  return a.type === b.type && JSON.stringify(a.attrs || {}) === JSON.stringify(b.attrs || {});
+}
+
+function plainText(nodes: DocNode[]): string {
+  return nodes.map(node => node.type === 'text' ? node.text || '' : node.type === 'hard_break' ? '\n' : '').join('');
+}
+
+// Opening and closing tag of a mark's element
+function markTags(mark: DocMark): [string, string] {
+  const element = markSpecs[mark.type].toDOM(mark);
+  const html = element.outerHTML;
+  const close = `</${element.tagName.toLowerCase()}>`;
+  return [html.slice(0, html.length - close.length), close];
+}
+
+// The first character a node's Markdown starts with, near enough to check delimiters against
+function leadingChar(node: DocNode | undefined): string {
+  if (!node) return '';
+  const mark = node.marks?.[0];
+  if (mark) {
+    if (DELIMITERS[mark.type]) return DELIMITERS[mark.type][0];
+    return mark.type === 'code' ? '`' : mark.type === 'link' ? '[' : '<';
+  }
+  switch (node.type) {
+    case 'text':
+      return (node.text || '').charAt(0);
+    case 'hard_break':
+      return '\n';
+    case 'image':
+      return '!';
+  }
+  return '<';
+}
+
+/**
+ * A node as HTML, for what Markdown cannot express. HTML blocks end at a
+ * blank line, so line breaks that would leave one are written as references.
+ */
+function rawHTML(node: DocNode): string {
+  return serializeHTML({ type: 'doc', version: MODEL_VERSION, content: [node] })
+    .replace(/\n([ \t]*)(?=\n)/g, '&#10;$1');
+}
+
+function indent(text: string, first: string, rest: string): string {
+  return text.split('\n').map((line, index) => {
+    if (index === 0) return first + line;
+    return line ? rest + line : line;
+  }).join('\n');
+}
+
+class MarkdownSerializer {
+  private options: MarkdownExportOptions;
+  private references: string[] = [];
+
+  constructor(options: MarkdownExportOptions) {
+    this.options = options;
+  }
+
+  serialize(doc: DocumentJSON): string {
+    let markdown = this.blocks(doc.content, false);
+    if (this.references.length > 0) {
+      markdown += '\n\n' + this.references.join('\n');
+    }
+    return markdown;
+  }
+
+  // Inline nodes between blocks are read as a paragraph of their own
+  private groupInline(nodes: DocNode[]): DocNode[] {
+    const result: DocNode[] = [];
+    let paragraph: DocNode | null = null;
+    nodes.forEach(node => {
+      if (!INLINE_TYPES.includes(node.type)) {
+        result.push(node);
+        paragraph = null;
+      } else if (paragraph) {
+        paragraph.content!.push(node);
+      } else {
+        paragraph = { type: 'paragraph', content: [node] };
+        result.push(paragraph);
+      }
+    });
+    return result;
+  }
+
+  private blocks(nodes: DocNode[], tight: boolean): string {
+    const parts: string[] = [];
+    let previous: DocNode | null = null;
+    this.groupInline(nodes).forEach(node => {
+      const markdown = this.block(node, previous, tight);
+      if (markdown) {
+        parts.push(markdown);
+        previous = node;
+      }
+    });
+    return parts.join(tight ? '\n' : '\n\n');
+  }
+
+  private block(node: DocNode, previous: DocNode | null, tight: boolean): string {
+    const content = node.content || [];
+    const layout = hasLayout(node);
+
+    switch (node.type) {
+      case 'paragraph':
+        return layout ? rawHTML(node) : this.paragraph(content);
+      case 'heading':
+        return layout ? rawHTML(node) : this.heading(node);
+      case 'blockquote':
+        return layout ? rawHTML(node) : this.blocks(content, false).split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+      case 'division':
+        return layout ? rawHTML(node) : this.blocks(content, tight);
+      case 'code_block':
+        return layout ? rawHTML(node) : this.codeBlock(node, previous);
+      case 'bullet_list':
+      case 'ordered_list':
+      case 'task_list':
+        return layout ? rawHTML(node) : this.list(node, previous);
+      case 'table':
+        return this.table(node) ?? rawHTML(node);
+      case 'horizontal_rule':
+        return layout ? rawHTML(node) : '---';
+      case 'html':
+        return rawHTML(node);
+    }
+    return rawHTML(node);
+  }
+
+  private paragraph(content: DocNode[]): string {
+    const nodes = [...content];
+    // A break at the end of a paragraph is only there to give it height
+    while (nodes.length > 0 && nodes[nodes.length - 1].type === 'hard_break') {
+      nodes.pop();
+    }
+    return escapeLines(this.inline(nodes, '', '', false).trim());
+  }
+
+  private heading(node: DocNode): string {
+    const level = Math.min(6, Math.max(1, Number(node.attrs?.level) || 1));
+    const text = this.paragraph(node.content || []);
+    if (!text) return '';
+
+    if (this.options.headingStyle === 'setext' && level <= 2) {
+      const lastLine = text.slice(text.lastIndexOf('\n') + 1);
+      return `${text}\n${(level === 1 ? '=' : '-').repeat(Math.max(3, lastLine.length))}`;
+    }
+    // ATX headings are a single line
+    if (text.includes('\n')) return rawHTML(node);
+    // A heading's closing #s are not part of it
+    return `${'#'.repeat(level)} ${text.replace(/#$/, '\\#')}`;
+  }
+
+  private codeBlock(node: DocNode, previous: DocNode | null): string {
+    const text = plainText(node.content || []);
+    const language = attr(node.attrs, 'language');
+    const lines = text.replace(/\n$/, '').split('\n');
+
+    // Indented code has no language, cannot start or end with a blank line and would join a list before it
+    const indented = this.options.codeBlockStyle === 'indented' &&
+      !language && text.trim() !== '' && lines[0].trim() !== '' && lines[lines.length - 1].trim() !== '' &&
+      !(previous && /list$/.test(previous.type));
+    if (indented) {
+      return lines.map(line => line ? `    ${line}` : line).join('\n');
+    }
+
+    const char = language.includes('`') ? '~' : '`';
+    const longest = (text.match(char === '`' ? /`+/g : /~+/g) || []).reduce((max, run) => Math.max(max, run.length), 0);
+    const fence = char.repeat(Math.max(3, longest + 1));
+    const body = text ? `${text.replace(/\n$/, '')}\n` : '';
+    return `${fence}${language}\n${body}${fence}`;
+  }
+
+  private list(node: DocNode, previous: DocNode | null): string {
+    const items = node.content || [];
+    const ordered = node.type === 'ordered_list';
+    const start = typeof node.attrs?.start === 'number' ? node.attrs.start : 1;
+
+    // A list right after another of the same kind needs other markers not to continue it
+    const follows = previous && (ordered
+      ? previous.type === 'ordered_list'
+      : previous.type === 'bullet_list' || previous.type === 'task_list');
+    const bullet = follows
+      ? (this.options.bulletListMarker === '-' ? '*' : '-')
+      : this.options.bulletListMarker;
+    const delimiter = follows ? ')' : '.';
+
+    // Items holding paragraphs rather than bare text make a loose list
+    const loose = items.some(item => (item.content || []).some(child => child.type === 'paragraph'));
+
+    const parts = items.map((item, index) => {
+      const marker = ordered ? `${start + index}${delimiter}` : bullet;
+      let body: string;
+      if (item.type === 'task_item') {
+        const checkbox = item.attrs?.checked === true ? '[x]' : '[ ]';
+        const text = this.paragraph(item.content || []);
+        body = text ? `${checkbox} ${text}` : checkbox;
+      } else {
+        const task = this.splitCheckbox(item.content || []);
+        body = this.blocks(task ? task.content : item.content || [], !loose);
+        if (task) {
+          const checkbox = task.checked ? '[x]' : '[ ]';
+          body = body ? `${checkbox} ${body}` : checkbox;
+        }
+      }
+      return indent(body, body ? `${marker} ` : marker, ' '.repeat(marker.length + 1));
+    });
+    return parts.join(loose ? '\n\n' : '\n');
+  }
+
+  // Whether list item content starts with a task checkbox, and the content after it
+  private splitCheckbox(content: DocNode[]): { checked: boolean; content: DocNode[] } | null {
+    const [first, ...rest] = content;
+    if (first?.type === 'paragraph') {
+      const task = this.splitCheckbox(first.content || []);
+      return task && { checked: task.checked, content: [{ ...first, content: task.content }, ...rest] };
+    }
+
+    const html = first?.type === 'html' ? attr(first.attrs, 'html') : '';
+    if (!RE_CHECKBOX.test(html)) return null;
+    // The space after the checkbox belongs to the task marker
+    if (rest[0]?.type === 'text' && rest[0].text?.startsWith(' ')) {
+      rest[0] = { ...rest[0], text: rest[0].text.slice(1) };
+    }
+    return { checked: /\schecked\b/.test(html), content: rest };
+  }
+
+  /**
+   * A GitHub table, or null when the table holds what one cannot: merged
+   * or colored cells, a caption, block content, several header rows or a
+   * footer. A table without a header row gets an empty one.
+   */
+  private table(node: DocNode): string | null {
+    const className = attr(node.attrs, 'className');
+    if (hasLayout(node, ['className', 'widths']) || (className && className !== 'xeditor-table')) return null;
+
+    const rows = node.content || [];
+    if (rows.some(row => row.type !== 'table_row' || hasLayout(row, ['section']))) return null;
+    const head = rows.filter(row => row.attrs?.section === 'head');
+    if (head.length > 1 || (head.length === 1 && rows[0] !== head[0])) return null;
+    if (rows.some(row => row.attrs?.section === 'foot')) return null;
+
+    const cells = rows.map(row => row.content || []);
+    const columns = cells.reduce((count, row) => Math.max(count, row.length), 0);
+    if (columns === 0) return null;
+
+    const aligns: string[] = [];
+    const text: string[][] = [];
+    for (let r = 0; r < cells.length; r++) {
+      const values: string[] = [];
+      for (const cell of cells[r]) {
+        if (hasLayout(cell, ['header', 'scope', 'align'])) return null;
+        // Body rows are read back as plain cells
+        if (r > 0 || head.length === 0 ? cell.attrs?.header : !cell.attrs?.header) return null;
+        const index = values.length;
+        const align = attr(cell.attrs, 'align');
+        if (align && !['left', 'center', 'right'].includes(align)) return null;
+        if (r > 0 && aligns[index] !== undefined && aligns[index] !== align) return null;
+        aligns[index] = align;
+
+        let content = cell.content || [];
+        if (content.length === 1 && content[0].type === 'paragraph' && !content[0].attrs) {
+          content = content[0].content || [];
+        }
+        if (content.some(child => !INLINE_TYPES.includes(child.type))) return null;
+        while (content.length > 0 && content[content.length - 1].type === 'hard_break') {
+          content = content.slice(0, -1);
+        }
+        values.push(this.inline(content, '', '', true).trim());
+      }
+      text.push(values);
+    }
+
+    const pad = (row: string[]) => Array.from({ length: columns }, (_, index) => row[index] || '');
+    const line = (row: string[]) => `| ${pad(row).join(' | ')} |`.replace(/ {2}\|/g, ' |');
+    const delimiterRow = pad(aligns).map(align => {
+      if (align === 'center') return ':---:';
+      if (align === 'right') return '---:';
+      return align === 'left' ? ':---' : '---';
+    });
+
+    const header = head.length === 1 ? text[0] : [];
+    const body = head.length === 1 ? text.slice(1) : text;
+    return [line(header), `| ${delimiterRow.join(' | ')} |`, ...body.map(line)].join('\n');
+  }
+
+  /**
+   * Inline content, with siblings that share their outermost mark written
+   * inside one pair of delimiters. `before` and `after` are the characters
+   * around it, which decide whether a delimiter can open or close.
+   */
+  private inline(nodes: DocNode[], before: string, after: string, table: boolean): string {
+    let result = '';
+    let i = 0;
+    while (i < nodes.length) {
+      const mark = nodes[i].marks?.[0];
+      if (!mark) {
+        result += this.inlineNode(nodes[i], table);
+        i++;
+        continue;
+      }
+
+      let j = i + 1;
+      while (j < nodes.length && nodes[j].marks?.[0] && sameMark(nodes[j].marks![0], mark)) {
+        j++;
+      }
+      const inner = nodes.slice(i, j).map(node => ({ ...node, marks: node.marks!.slice(1) }));
+      const next = j < nodes.length ? leadingChar(nodes[j]) : after;
+      result += this.mark(mark, inner, result.slice(-1) || before, next, table);
+      i = j;
+    }
+    return result;
+  }
+
+  private mark(mark: DocMark, nodes: DocNode[], before: string, after: string, table: boolean): string {
+    if (mark.type === 'link') {
+      return this.link(mark, this.inline(nodes, '[', ']', table));
+    }
+    if (mark.type === 'code' && nodes.every(node => node.type === 'text' && !node.marks?.length)) {
+      return this.codeSpan(plainText(nodes), table);
+    }
+
+    if (!markSpecs[mark.type]) {
+      return this.inline(nodes, before, after, table);
+    }
+    const delimiter = DELIMITERS[mark.type];
+    const [open, close] = markTags(mark);
+    if (!delimiter) {
+      return `${open}${this.inline(nodes, '>', '<', table)}${close}`;
+    }
+
+    // Spaces go outside the delimiters, which must touch the text they wrap.
+    // Delimiters right inside others join their run, as in ***both***.
+    const content = this.inline(nodes, '', '', table);
+    const [, lead, body, trail] = content.match(/^([ \t]*)([\s\S]*?)([ \t]*)$/)!;
+    if (!body) return content;
+
+    const prev = lead ? lead.slice(-1) : before;
+    const next = trail ? trail.charAt(0) : after;
+    const first = body.charAt(0);
+    const last = body.slice(-1);
+    const opens = !isSpace(first) && (!isPunctuation(first) || isSpace(prev) || isPunctuation(prev)) && prev !== delimiter[0];
+    const closes = !isSpace(last) && (!isPunctuation(last) || isSpace(next) || isPunctuation(next)) && next !== delimiter[0];
+    return opens && closes
+      ? `${lead}${delimiter}${body}${delimiter}${trail}`
+      : `${lead}${open}${body}${close}${trail}`;
+  }
+
+  private codeSpan(text: string, table: boolean): string {
+    const code = text.replace(/\n/g, ' ');
+    if (!code) return '';
+    const longest = (code.match(/`+/g) || []).reduce((max, run) => Math.max(max, run.length), 0);
+    const fence = '`'.repeat(longest + 1);
+    // A space on both ends is stripped, so one is added when the code needs its own
+    const padded = /^`|`$/.test(code) || (/^ .* $/.test(code) && code.trim() !== '') ? ` ${code} ` : code;
+    return `${fence}${table ? padded.replace(/\|/g, '\\|') : padded}${fence}`;
+  }
+
+  private link(mark: DocMark, text: string): string {
+    const href = attr(mark.attrs, 'href');
+    const target = `${destination(href)}${title(attr(mark.attrs, 'title'))}`;
+    if (this.options.linkStyle !== 'reference') {
+      return `[${text}](${target})`;
+    }
+
+    let index = this.references.findIndex(reference => reference.endsWith(`]: ${target}`));
+    if (index === -1) {
+      index = this.references.length;
+      this.references.push(`[${index + 1}]: ${target}`);
+    }
+    return `[${text}][${index + 1}]`;
+  }
+
+  private inlineNode(node: DocNode, table: boolean): string {
+    switch (node.type) {
+      case 'text':
+        return escapeText(node.text || '', table);
+      case 'hard_break':
+        return table ? '<br>' : '\\\n';
+      case 'image': {
+        if (hasLayout(node, ['src', 'alt', 'title'])) return rawHTML({ ...node, marks: undefined });
+        const alt = escapeText(attr(node.attrs, 'alt'), table);
+        return `![${alt}](${destination(attr(node.attrs, 'src'))}${title(attr(node.attrs, 'title'))})`;
+      }
+      case 'html':
+        return attr(node.attrs, 'html');
+    }
+    return '';
+  }
+}
+
+/**
+ * Markdown for a document: CommonMark, with GitHub's tables, task lists and
+ * strikethrough. What Markdown has no syntax for, such as colors, merged
+ * table cells or aligned paragraphs, is written as HTML so it survives.
+ */
+export function resolveExportOptions(options: MarkdownConfig['exportOptions'] = {}): MarkdownExportOptions {
+  return {
+    headingStyle: options.headingStyle || 'atx',
+    bulletListMarker: options.bulletListMarker || '-',
+    codeBlockStyle: options.codeBlockStyle || 'fenced',
+    linkStyle: options.linkStyle || 'inline'
+  };
+}
+
+export function serializeMarkdown(doc: DocumentJSON, options: MarkdownExportOptions): string {
+  return new MarkdownSerializer(options).serialize(doc);
+}
@@ -0,0 +1,164 @@
+import { Editor } from '../../types';
+import { createElement } from '../../utils/dom';
+import { markdownToBlocks } from './parser';
+
+const RENDER_DELAY = 150;
+const DEFAULT_LINE_HEIGHT = 20;
+
+interface PreviewBlock {
+  element: HTMLElement;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Raw Markdown in a text pane beside a live preview of it. Each top-level
+ * block of the preview knows its source lines, so scrolling either pane
+ * brings the same part of the document into view in the other.
+ */
+export class MarkdownSplitView {
+  element: HTMLElement;
+  textarea: HTMLTextAreaElement;
+  private preview: HTMLElement;
+  private editor: Editor;
+  private blocks: PreviewBlock[] = [];
+  private renderTimer: ReturnType<typeof setTimeout> | null = null;
+  // The pane scrolled to follow the other one, whose next scroll event is ours
+  private following: HTMLElement | null = null;
+
+  constructor(editor: Editor, markdown: string) {
+    this.editor = editor;
+
+    this.element = createElement('div', {
+      className: 'xeditor-markdown-split'
+    });
+    this.textarea = createElement('textarea', {
+      className: 'xeditor-markdown-split__source',
+      spellcheck: 'false',
+      'aria-label': 'Markdown'
+    }) as HTMLTextAreaElement;
+    this.textarea.value = markdown;
+    this.preview = createElement('div', {
+      className: 'xeditor-markdown-split__preview',
+      'aria-live': 'polite'
+    });
+    this.element.appendChild(this.textarea);
+    this.element.appendChild(this.preview);
+
+    this.textarea.addEventListener('input', this.handleInput);
+    this.textarea.addEventListener('scroll', this.handleSourceScroll);
+    this.preview.addEventListener('scroll', this.handlePreviewScroll);
+
+    this.render();
+  }
+
+  get value(): string {
+    return this.textarea.value;
+  }
+
+  destroy(): void {
+    if (this.renderTimer) {
+      clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+    this.textarea.removeEventListener('input', this.handleInput);
+    this.textarea.removeEventListener('scroll', this.handleSourceScroll);
+    this.preview.removeEventListener('scroll', this.handlePreviewScroll);
+    this.element.remove();
+  }
+
+  private handleInput = (): void => {
+    if (this.renderTimer) {
+      clearTimeout(this.renderTimer);
+    }
+    this.renderTimer = setTimeout(() => {
+      this.renderTimer = null;
+      this.render();
+      this.handleSourceScroll();
+    }, RENDER_DELAY);
+  };
+
+  // The preview shows what switching back would put in the editor, so it is sanitized the same way
+  private render(): void {
+    this.preview.innerHTML = '';
+    this.blocks = markdownToBlocks(this.textarea.value).map(block => {
+      const element = createElement('div', {
+        className: 'xeditor-markdown-split__block'
+      });
+      element.innerHTML = this.editor.sanitize(block.html);
+      this.preview.appendChild(element);
+      return { element, startLine: block.startLine, endLine: block.endLine };
+    });
+  }
+
+  private handleSourceScroll = (): void => {
+    if (this.following === this.textarea) {
+      this.following = null;
+      return;
+    }
+
+    const line = this.textarea.scrollTop / this.lineHeight() + 1;
+    const index = this.findBlock(block => block.startLine <= line);
+    if (index < 0) {
+      this.follow(this.preview, 0);
+      return;
+    }
+
+    const span = this.span(index);
+    const fraction = Math.min(1, (line - span.startLine) / Math.max(1, span.endLine - span.startLine));
+    this.follow(this.preview, span.top + fraction * (span.bottom - span.top));
+  };
+
+  private handlePreviewScroll = (): void => {
+    if (this.following === this.preview) {
+      this.following = null;
+      return;
+    }
+
+    const top = this.preview.scrollTop;
+    const index = this.findBlock(block => block.element.offsetTop <= top);
+    if (index < 0) {
+      this.follow(this.textarea, 0);
+      return;
+    }
+
+    const span = this.span(index);
+    const fraction = Math.min(1, (top - span.top) / Math.max(1, span.bottom - span.top));
+    const line = span.startLine + fraction * (span.endLine - span.startLine);
+    this.follow(this.textarea, (line - 1) * this.lineHeight());
+  };
+
+  // Source lines and preview pixels from a block up to the next one, blank lines and margins included
+  private span(index: number): { startLine: number; endLine: number; top: number; bottom: number } {
+    const block = this.blocks[index];
+    const next = this.blocks[index + 1];
+    const top = block.element.offsetTop;
+    return {
+      startLine: block.startLine,
+      endLine: next ? next.startLine : block.endLine + 1,
+      top,
+      bottom: next ? next.element.offsetTop : top + block.element.offsetHeight
+    };
+  }
+
+  // Index of the last block that passes `test`, or -1
+  private findBlock(test: (block: PreviewBlock) => boolean): number {
+    for (let index = this.blocks.length - 1; index >= 0; index--) {
+      if (test(this.blocks[index])) return index;
+    }
+    return -1;
+  }
+
+  private follow(pane: HTMLElement, scrollTop: number): void {
+    const target = Math.round(scrollTop);
+    // Setting the position it already has fires no scroll event to skip
+    if (Math.abs(pane.scrollTop - target) < 1) return;
+    this.following = pane;
+    pane.scrollTop = target;
+  }
+
+  private lineHeight(): number {
+    const lineHeight = parseFloat(getComputedStyle(this.textarea).lineHeight);
+    return lineHeight > 0 ? lineHeight : DEFAULT_LINE_HEIGHT;
+  }
+}
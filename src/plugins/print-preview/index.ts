@@ -1,19 +1,8 @@
-import { Plugin, Editor, ToolbarItem } from '../../types';
+import { Plugin, Editor, ToolbarItem, PrintPreviewConfig } from '../../types';
 import { createElement } from '../../utils/dom';
+import { messages } from './messages';
 
-interface PrintPreviewConfig {
-  pageSize?: 'A4' | 'Letter' | 'Legal';
-  orientation?: 'portrait' | 'landscape';
-  margins?: {
-    top?: string;
-    right?: string;
-    bottom?: string;
-    left?: string;
-  };
-  showPageNumbers?: boolean;
-  showHeaders?: boolean;
-  headerText?: string;
-  footerText?: string;
+interface PrintPreviewOptions extends PrintPreviewConfig {
   showTableOfContents?: boolean;
   watermark?: {
     text?: string;
@@ -27,12 +16,12 @@ interface PrintPreviewConfig {
 export class PrintPreviewPlugin implements Plugin {
   name = 'print-preview';
   private editor!: Editor;
-  private config: PrintPreviewConfig;
+  private config: PrintPreviewOptions;
   private dialog?: HTMLElement;
 
   toolbar: ToolbarItem[] = [];
 
-  constructor(config: PrintPreviewConfig = {}) {
+  constructor(config: PrintPreviewOptions = {}) {
     this.config = {
       pageSize: config.pageSize || 'A4',
       orientation: config.orientation || 'portrait',
@@ -56,6 +45,7 @@ export class PrintPreviewPlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Override default print command
     this.editor.commands.register('print', {
@@ -378,7 +368,7 @@ export class PrintPreviewPlugin implements Plugin {
       className: 'xeditor-printpreview-wrapper'
     });
 
-    const content = this.editor.getContent();
+    const content = this.editor.getContent({ format: 'html' });
     
     // Add table of contents if enabled
     if (this.config.showTableOfContents) {
@@ -622,7 +612,7 @@ export class PrintPreviewPlugin implements Plugin {
   private print(): void {
     const printWindow = window.open('', '_blank');
     if (!printWindow) {
-      alert('Please allow pop-ups to print.');
+      alert(this.editor.t('print.popupBlocked'));
       return;
     }
 
@@ -642,11 +632,11 @@ export class PrintPreviewPlugin implements Plugin {
   private downloadPDF(): void {
     // This would require a PDF library like jsPDF
     // For now, we'll just show an alert
-    alert('PDF download requires additional libraries. Use the browser\'s "Print to PDF" feature instead.');
+    alert(this.editor.t('printPreview.pdfUnavailable'));
   }
 
   private generatePrintHTML(): string {
-    const content = this.editor.getContent();
+    const content = this.editor.getContent({ format: 'html' });
     
     return `
       <!DOCTYPE html>
@@ -0,0 +1,16 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'printPreview.pdfUnavailable': 'PDF download requires additional libraries. Use the browser\'s "Print to PDF" feature instead.'
+  },
+  de: {
+    'printPreview.pdfUnavailable': 'Für den PDF-Download werden zusätzliche Bibliotheken benötigt. Verwenden Sie stattdessen die Funktion „Als PDF drucken“ des Browsers.'
+  },
+  ja: {
+    'printPreview.pdfUnavailable': 'PDF のダウンロードには追加のライブラリが必要です。代わりにブラウザーの「PDF として印刷」機能を使用してください。'
+  },
+  ar: {
+    'printPreview.pdfUnavailable': 'يتطلب تنزيل PDF مكتبات إضافية. استخدم ميزة "الطباعة إلى PDF" في المتصفح بدلًا من ذلك.'
+  }
+};
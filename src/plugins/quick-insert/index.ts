@@ -49,6 +49,8 @@ export class QuickInsertPlugin implements Plugin {
     this.editor.contentElement.removeEventListener('keyup', this.handleKeyUp);
   }
 
+  // Plugin-backed items go through plugins.load() so lazy plugins are
+  // fetched on first use
   private getDefaultItems(): QuickInsertItem[] {
     return [
       {
@@ -111,10 +113,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['todo', 'task', 'checkbox', 'checklist'],
         category: 'Lists',
         action: () => {
-          const checklistPlugin = this.editor.plugins.get('checklist');
-          if (checklistPlugin && typeof (checklistPlugin as any).insertChecklist === 'function') {
-            (checklistPlugin as any).insertChecklist();
-          }
+          this.callPlugin('checklist', 'insertChecklist');
         }
       },
       {
@@ -132,10 +131,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['code', 'pre', 'snippet', 'programming'],
         category: 'Code',
         action: () => {
-          const codePlugin = this.editor.plugins.get('codeblock');
-          if (codePlugin && typeof (codePlugin as any).showCodeBlockDialog === 'function') {
-            (codePlugin as any).showCodeBlockDialog();
-          }
+          this.callPlugin('codeblock', 'showCodeBlockDialog');
         }
       },
       {
@@ -153,10 +149,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['img', 'picture', 'photo', 'media'],
         category: 'Media',
         action: () => {
-          const imagePlugin = this.editor.plugins.get('image');
-          if (imagePlugin && typeof (imagePlugin as any).showImageDialog === 'function') {
-            (imagePlugin as any).showImageDialog();
-          }
+          this.callPlugin('image', 'showImageDialog');
         }
       },
       {
@@ -165,10 +158,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['video', 'movie', 'media', 'mp4'],
         category: 'Media',
         action: () => {
-          const videoPlugin = this.editor.plugins.get('video');
-          if (videoPlugin && typeof (videoPlugin as any).showVideoDialog === 'function') {
-            (videoPlugin as any).showVideoDialog();
-          }
+          this.callPlugin('video', 'showVideoDialog');
         }
       },
       {
@@ -177,10 +167,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['table', 'grid', 'rows', 'columns'],
         category: 'Advanced',
         action: () => {
-          const tablePlugin = this.editor.plugins.get('table');
-          if (tablePlugin && typeof (tablePlugin as any).showTableDialog === 'function') {
-            (tablePlugin as any).showTableDialog();
-          }
+          this.callPlugin('table', 'showTableDialog');
         }
       },
       {
@@ -189,10 +176,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['link', 'url', 'href', 'anchor'],
         category: 'Basic',
         action: () => {
-          const linkPlugin = this.editor.plugins.get('link');
-          if (linkPlugin && typeof (linkPlugin as any).showLinkDialog === 'function') {
-            (linkPlugin as any).showLinkDialog();
-          }
+          this.callPlugin('link', 'showLinkDialog');
         }
       },
       {
@@ -201,10 +185,7 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['emoji', 'emoticon', 'smiley', 'face'],
         category: 'Insert',
         action: () => {
-          const emojiPlugin = this.editor.plugins.get('emoji');
-          if (emojiPlugin && typeof (emojiPlugin as any).showEmojiPicker === 'function') {
-            (emojiPlugin as any).showEmojiPicker();
-          }
+          this.callPlugin('emoji', 'showEmojiPicker');
         }
       },
       {
@@ -213,15 +194,22 @@ export class QuickInsertPlugin implements Plugin {
         keywords: ['special', 'symbol', 'character', 'omega'],
         category: 'Insert',
         action: () => {
-          const specialCharsPlugin = this.editor.plugins.get('special-chars');
-          if (specialCharsPlugin && typeof (specialCharsPlugin as any).showCharPicker === 'function') {
-            (specialCharsPlugin as any).showCharPicker();
-          }
+          this.callPlugin('special-chars', 'showCharPicker');
         }
       }
     ];
   }
 
+  // Runs a dialog method of another plugin, loading the plugin first if it is lazy
+  private callPlugin(name: string, method: string): void {
+    this.editor.plugins.load(name).then(plugin => {
+      const action = (plugin as unknown as Record<string, unknown> | undefined)?.[method];
+      if (typeof action === 'function') {
+        action.call(plugin);
+      }
+    });
+  }
+
   private setupEventListeners(): void {
     this.handleKeyDown = this.handleKeyDown.bind(this);
     this.handleKeyUp = this.handleKeyUp.bind(this);
@@ -4,6 +4,7 @@
  */
 
 import { Plugin } from '../../types';
+import { messages } from './messages';
 
 export interface SettingsConfig {
   // Image settings
@@ -70,6 +71,7 @@ export class SettingsPlugin implements Plugin {
 
   init(editor: any) {
     this.editor = editor;
+    editor.i18n.register(messages);
     this.loadSettings();
     this.setupSettingsPanel();
     this.applySettings();
@@ -476,7 +478,7 @@ export class SettingsPlugin implements Plugin {
             this.updateSettingsPanel();
             this.applySettings();
           } catch (error) {
-            alert('Invalid settings file');
+            alert(this.editor.t('settings.invalidFile'));
           }
         };
         reader.readAsText(file);
@@ -0,0 +1,16 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'settings.invalidFile': 'Invalid settings file'
+  },
+  de: {
+    'settings.invalidFile': 'Ungültige Einstellungsdatei'
+  },
+  ja: {
+    'settings.invalidFile': '設定ファイルが無効です'
+  },
+  ar: {
+    'settings.invalidFile': 'ملف الإعدادات غير صالح'
+  }
+};
@@ -0,0 +1,111 @@
+import { SourceToken, VOID_TAGS, tokenizeHTML } from './tokenizer';
+
+const INDENT = '  ';
+
+// Elements that start a line of their own; whitespace around them does not render
+const BLOCK_TAGS = [
+  'address', 'article', 'aside', 'blockquote', 'caption', 'colgroup', 'col', 'dd', 'details',
+  'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+];
+
+function isBlock(token: SourceToken): boolean {
+  return (token.type === 'open' || token.type === 'close') && BLOCK_TAGS.includes(token.name!);
+}
+
+// Index of the token closing the element `index` opens, or -1
+function findClose(tokens: SourceToken[], index: number): number {
+  const name = tokens[index].name;
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.name !== name) continue;
+    if (token.type === 'open') depth++;
+    if (token.type === 'close' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Puts every block on a line of its own, indented by how deeply it is
+ * nested. Blocks holding only inline content stay on one line, and the
+ * content of <pre> is left exactly as it is.
+ */
+export function formatHTML(html: string): string {
+  const tokens = tokenizeHTML(html);
+
+  // Whether each block holds other blocks and so spans several lines
+  const nested = new Set<number>();
+  const open: number[] = [];
+  tokens.forEach((token, index) => {
+    if (!isBlock(token) || VOID_TAGS.includes(token.name!)) return;
+    if (token.type === 'open') {
+      if (open.length > 0) nested.add(open[open.length - 1]);
+      open.push(index);
+    } else {
+      const at = open.map(i => tokens[i].name).lastIndexOf(token.name);
+      if (at >= 0) open.length = at;
+    }
+  });
+
+  const lines: string[] = [];
+  // Whether each open block was written across several lines
+  const stack: boolean[] = [];
+  let depth = 0;
+  let line = '';
+  let lineDepth = 0;
+
+  const flush = (): void => {
+    if (line.trim()) {
+      lines.push(INDENT.repeat(lineDepth) + line.trim());
+    }
+    line = '';
+    lineDepth = depth;
+  };
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const source = html.slice(token.start, token.end);
+
+    if (token.type === 'open' && token.name === 'pre') {
+      const close = findClose(tokens, index);
+      const end = close < 0 ? tokens.length - 1 : close;
+      flush();
+      lines.push(INDENT.repeat(depth) + html.slice(token.start, tokens[end].end));
+      index = end;
+      continue;
+    }
+
+    if (!isBlock(token)) {
+      line += source;
+      continue;
+    }
+
+    if (token.type === 'open') {
+      flush();
+      if (VOID_TAGS.includes(token.name!) || token.selfClosing) {
+        lines.push(INDENT.repeat(depth) + source);
+      } else if (nested.has(index)) {
+        lines.push(INDENT.repeat(depth) + source);
+        stack.push(true);
+        depth++;
+      } else {
+        line = source;
+        stack.push(false);
+      }
+      lineDepth = depth;
+    } else if (stack.pop()) {
+      flush();
+      depth = Math.max(0, depth - 1);
+      lines.push(INDENT.repeat(depth) + source);
+      lineDepth = depth;
+    } else {
+      line += source;
+      flush();
+    }
+  }
+  flush();
+
+  return lines.join('\n');
+}
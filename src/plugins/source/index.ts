@@ -1,17 +1,33 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement, addClass, removeClass } from '../../utils/dom';
+import { formatHTML } from './format';
+import { messages } from './messages';
+import { SourceEditor } from './source-editor';
+import { sourceOffsetFor, textOffsetAt } from './tokenizer';
+import { SourceProblem, validateHTML } from './validate';
+
+const VALIDATE_DELAY = 300;
+
+function isSpace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f';
+}
 
 export class SourcePlugin implements Plugin {
   name = 'source';
   private editor!: Editor;
   private isSourceMode: boolean = false;
-  private sourceTextarea: HTMLTextAreaElement | null = null;
-  private originalContent: string = '';
+  private sourceEditor: SourceEditor | null = null;
+  private problemsPanel: HTMLElement | null = null;
+  private problems: SourceProblem[] = [];
+  private validateTimer: ReturnType<typeof setTimeout> | null = null;
+  // The source as it was formatted on entering, to leave the content alone if it was not edited
+  private originalSource: string = '';
 
   toolbar: ToolbarItem[] = [];
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make toggleSource available
     (this as any).toggleSource = this.toggleSource.bind(this);
@@ -20,15 +36,18 @@ export class SourcePlugin implements Plugin {
     editor.commands.register('toggleSource', {
       execute: () => this.toggleSource()
     });
+    // Running a command refreshes the toolbar, which would enable the other buttons again
+    editor.on('commandExecuted', this.handleCommandExecuted);
     
     // Add styles
     this.addStyles();
   }
   
   destroy(): void {
+    this.editor.off('commandExecuted', this.handleCommandExecuted);
     // Exit source mode if active
     if (this.isSourceMode) {
-      this.exitSourceMode();
+      this.exitSourceMode(true);
     }
   }
   
@@ -39,59 +58,80 @@ export class SourcePlugin implements Plugin {
       this.enterSourceMode();
     }
   }
+
+  // Problems found in the source the last time it was checked
+  getProblems(): SourceProblem[] {
+    return this.problems;
+  }
   
   private enterSourceMode(): void {
     this.isSourceMode = true;
     
-    // Save current content
-    this.originalContent = this.editor.getContent();
-    
-    // Create source textarea
-    this.sourceTextarea = createElement('textarea', {
-      className: 'xeditor-source-textarea',
-      spellcheck: 'false'
-    }) as HTMLTextAreaElement;
+    // The caret goes to the same text in the source
+    const textOffset = this.getCaretTextOffset();
     
     // Format HTML for better readability
-    this.sourceTextarea.value = this.formatHTML(this.originalContent);
+    this.originalSource = formatHTML(this.editor.getContent({ format: 'html' }));
+    this.sourceEditor = new SourceEditor(this.originalSource, this.scheduleValidation);
     
     // Hide content element
     this.editor.contentElement.style.display = 'none';
     
-    // Insert textarea after content element
+    // Insert the source editor after content element
     this.editor.contentElement.parentNode?.insertBefore(
-      this.sourceTextarea,
+      this.sourceEditor.element,
       this.editor.contentElement.nextSibling
     );
     
     // Update toolbar
     this.updateToolbar(true);
     
-    // Focus textarea
-    this.sourceTextarea.focus();
+    // Focus the source at the caret
+    this.sourceEditor.focus();
+    this.sourceEditor.setSelection(sourceOffsetFor(this.originalSource, this.sourceEditor.tokens, textOffset));
+    this.validate();
     
     // Handle keyboard shortcuts
-    this.sourceTextarea.addEventListener('keydown', this.handleKeyDown);
+    this.sourceEditor.textarea.addEventListener('keydown', this.handleKeyDown);
     
     // Emit event
     this.editor.emit('sourceenter');
   }
   
-  private exitSourceMode(): void {
-    if (!this.sourceTextarea) return;
+  /**
+   * Puts the source back into the editor. Source with problems stays open
+   * with the problems listed, unless `force` applies it as it is and lets
+   * the sanitizer drop what it does not allow.
+   */
+  private exitSourceMode(force: boolean = false): boolean {
+    if (!this.sourceEditor) return false;
     
-    this.isSourceMode = false;
+    const html = this.sourceEditor.value;
+    this.validate();
+    if (!force && this.problems.length > 0) {
+      this.showProblems();
+      this.editor.emit('source:invalid', this.problems);
+      return false;
+    }
     
-    // Get the HTML from textarea
-    const newContent = this.sourceTextarea.value;
+    this.isSourceMode = false;
+    const textOffset = textOffsetAt(html, this.sourceEditor.tokens, this.sourceEditor.textarea.selectionStart);
     
     // Update editor content
-    this.editor.setContent(newContent);
+    if (html !== this.originalSource) {
+      this.editor.setContent(html);
+    }
     
-    // Remove textarea
-    this.sourceTextarea.removeEventListener('keydown', this.handleKeyDown);
-    this.sourceTextarea.remove();
-    this.sourceTextarea = null;
+    // Remove the source editor
+    if (this.validateTimer) {
+      clearTimeout(this.validateTimer);
+      this.validateTimer = null;
+    }
+    this.sourceEditor.textarea.removeEventListener('keydown', this.handleKeyDown);
+    this.sourceEditor.destroy();
+    this.sourceEditor = null;
+    this.hideProblems();
+    this.problems = [];
     
     // Show content element
     this.editor.contentElement.style.display = '';
@@ -101,9 +141,166 @@ export class SourcePlugin implements Plugin {
     
     // Focus editor
     this.editor.focus();
+    this.placeCaretAtTextOffset(textOffset);
     
     // Emit event
     this.editor.emit('sourceexit');
+    return true;
+  }
+
+  private scheduleValidation = (): void => {
+    if (this.validateTimer) {
+      clearTimeout(this.validateTimer);
+    }
+    this.validateTimer = setTimeout(() => {
+      this.validateTimer = null;
+      this.validate();
+    }, VALIDATE_DELAY);
+  };
+
+  // Checks the source against the sanitizer schema, unless sanitizing is turned off
+  private validate(): void {
+    if (!this.sourceEditor) return;
+    
+    const schema = this.editor.config.sanitize ? this.editor.getSanitizeSchema() : null;
+    this.problems = validateHTML(this.sourceEditor.value, this.sourceEditor.tokens, schema);
+    this.sourceEditor.setProblems(this.problems.map(problem => ({
+      start: problem.start,
+      end: problem.end,
+      line: problem.line,
+      message: this.describe(problem)
+    })));
+    
+    if (this.problemsPanel) {
+      if (this.problems.length > 0) {
+        this.showProblems();
+      } else {
+        this.hideProblems();
+      }
+    }
+  }
+
+  private describe(problem: SourceProblem): string {
+    return this.editor.t(`source.${problem.code}`, problem.params);
+  }
+
+  private showProblems(): void {
+    if (!this.sourceEditor) return;
+    
+    if (!this.problemsPanel) {
+      this.problemsPanel = createElement('div', {
+        className: 'xeditor-source-problems',
+        role: 'alert'
+      });
+      this.sourceEditor.element.after(this.problemsPanel);
+    }
+    this.problemsPanel.innerHTML = '';
+    
+    const title = createElement('div', {
+      className: 'xeditor-source-problems__title'
+    }, [this.editor.t('source.problems', { count: this.problems.length })]);
+    const hint = createElement('div', {
+      className: 'xeditor-source-problems__hint'
+    }, [this.editor.t('source.problemsHint')]);
+    
+    const list = createElement('ul', {
+      className: 'xeditor-source-problems__list'
+    });
+    this.problems.forEach(problem => {
+      const button = createElement('button', {
+        className: 'xeditor-source-problems__item',
+        type: 'button'
+      });
+      const location = createElement('span', {
+        className: 'xeditor-source-problems__location'
+      }, [this.editor.t('source.line', { line: problem.line, column: problem.column })]);
+      button.appendChild(location);
+      button.appendChild(document.createTextNode(this.describe(problem)));
+      button.addEventListener('click', () => this.sourceEditor?.reveal(problem.start, problem.end));
+      
+      const item = createElement('li');
+      item.appendChild(button);
+      list.appendChild(item);
+    });
+    
+    const buttons = createElement('div', {
+      className: 'xeditor-source-problems__buttons'
+    });
+    const keepButton = createElement('button', {
+      className: 'xeditor-source-problems__keep',
+      type: 'button'
+    }, [this.editor.t('source.keepEditing')]);
+    const applyButton = createElement('button', {
+      className: 'xeditor-source-problems__apply',
+      type: 'button'
+    }, [this.editor.t('source.applyAnyway')]);
+    keepButton.addEventListener('click', () => {
+      this.hideProblems();
+      const first = this.problems[0];
+      if (first) {
+        this.sourceEditor?.reveal(first.start, first.end);
+      }
+    });
+    applyButton.addEventListener('click', () => this.exitSourceMode(true));
+    buttons.appendChild(keepButton);
+    buttons.appendChild(applyButton);
+    
+    this.problemsPanel.appendChild(title);
+    this.problemsPanel.appendChild(hint);
+    this.problemsPanel.appendChild(list);
+    this.problemsPanel.appendChild(buttons);
+  }
+
+  private hideProblems(): void {
+    this.problemsPanel?.remove();
+    this.problemsPanel = null;
+  }
+
+  // Characters of text before the caret, not counting whitespace
+  private getCaretTextOffset(): number {
+    const selection = window.getSelection();
+    const root = this.editor.contentElement;
+    if (!selection || selection.rangeCount === 0 || !root.contains(selection.anchorNode)) return 0;
+    
+    const range = document.createRange();
+    range.setStart(root, 0);
+    range.setEnd(selection.getRangeAt(0).startContainer, selection.getRangeAt(0).startOffset);
+    let count = 0;
+    for (const char of range.toString()) {
+      if (!isSpace(char)) count++;
+    }
+    return count;
+  }
+
+  // Places the caret just after the `count`th character of text, or before the first one
+  private placeCaretAtTextOffset(count: number): void {
+    const walker = document.createTreeWalker(this.editor.contentElement, NodeFilter.SHOW_TEXT);
+    let remaining = count;
+    let node: Node | null;
+    while ((node = walker.nextNode()) !== null) {
+      const text = node.textContent || '';
+      for (let offset = 0; offset < text.length; offset++) {
+        if (isSpace(text.charAt(offset))) continue;
+        if (remaining === 0) {
+          this.placeCaret(node, offset);
+          return;
+        }
+        if (--remaining === 0) {
+          this.placeCaret(node, offset + 1);
+          return;
+        }
+      }
+    }
+  }
+
+  private placeCaret(node: Node, offset: number): void {
+    const selection = window.getSelection();
+    if (!selection) return;
+    const range = document.createRange();
+    range.setStart(node, offset);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
   }
   
   private updateToolbar(sourceMode: boolean): void {
@@ -116,8 +313,9 @@ export class SourcePlugin implements Plugin {
       const button = item as HTMLElement;
       
       // Check if this is the source button by checking title or aria-label
-      const isSourceButton = button.getAttribute('title') === 'HTML Source Code' || 
-                           button.getAttribute('aria-label') === 'HTML Source Code';
+      const label = this.editor.t('toolbar.sourceCode');
+      const isSourceButton = button.getAttribute('title') === label || 
+                           button.getAttribute('aria-label') === label;
       
       if (isSourceButton) {
         // Update active state but keep it enabled
@@ -142,22 +340,14 @@ export class SourcePlugin implements Plugin {
     });
   }
   
-  private handleKeyDown = (e: KeyboardEvent): void => {
-    // Tab key handling
-    if (e.key === 'Tab') {
-      e.preventDefault();
-      
-      const textarea = e.target as HTMLTextAreaElement;
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
-      
-      // Insert tab
-      textarea.value = textarea.value.substring(0, start) + '  ' + textarea.value.substring(end);
-      
-      // Move cursor
-      textarea.selectionStart = textarea.selectionEnd = start + 2;
+  private handleCommandExecuted = (): void => {
+    if (this.isSourceMode) {
+      this.updateToolbar(true);
     }
-    
+  };
+  
+  // Tab and Enter are handled by the source editor itself
+  private handleKeyDown = (e: KeyboardEvent): void => {
     // Ctrl/Cmd + Enter to exit source mode
     if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
       e.preventDefault();
@@ -165,65 +355,257 @@ export class SourcePlugin implements Plugin {
     }
   };
   
-  private formatHTML(html: string): string {
-    // Basic HTML formatting
-    let formatted = html;
-    
-    // Add newlines after block elements
-    formatted = formatted.replace(/(<\/(p|div|h[1-6]|ul|ol|li|blockquote|pre)>)/gi, '$1\n');
-    formatted = formatted.replace(/(<(p|div|h[1-6]|ul|ol|li|blockquote|pre)[^>]*>)/gi, '\n$1');
-    
-    // Add newlines around <br> tags
-    formatted = formatted.replace(/(<br\s*\/?>)/gi, '$1\n');
-    
-    // Remove extra newlines
-    formatted = formatted.replace(/\n\n+/g, '\n\n');
-    
-    // Trim
-    formatted = formatted.trim();
-    
-    return formatted;
-  }
-  
   private addStyles(): void {
     const style = createElement('style');
     style.textContent = `
       /* Source mode styles */
-      .xeditor-source-textarea {
-        width: 100%;
-        height: 400px;
-        padding: 16px;
-        border: none;
+      .xeditor-source-editor {
+        display: flex;
+        height: var(--content-height, 400px);
         background-color: #f6f8fa;
         color: #24292e;
         font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
         font-size: 14px;
-        line-height: 1.45;
-        resize: vertical;
-        outline: none;
-        overflow: auto;
+        line-height: 20px;
+      }
+      
+      .xeditor-source-editor__gutter {
+        flex: none;
+        min-width: 3em;
+        padding: 16px 8px 16px 0;
+        overflow: hidden;
+        background-color: #eef1f4;
+        color: #8c959f;
+        text-align: right;
+        user-select: none;
+        box-sizing: border-box;
+      }
+      
+      .xeditor-source-editor__line-number--problem {
+        color: #cf222e;
+        font-weight: bold;
+      }
+      
+      .xeditor-source-editor__body {
+        position: relative;
+        flex: 1;
+        min-width: 0;
+        overflow: hidden;
+      }
+      
+      /* The layers and the textarea must lay text out identically */
+      .xeditor-source-editor__layer,
+      .xeditor-source-editor__input {
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        margin: 0;
+        padding: 16px;
+        border: none;
+        background: transparent;
+        font: inherit;
+        line-height: inherit;
         white-space: pre;
         word-wrap: normal;
+        tab-size: 2;
+        overflow: hidden;
         box-sizing: border-box;
       }
       
-      .xeditor-source-textarea:focus {
+      .xeditor-source-editor__layer {
+        pointer-events: none;
+      }
+      
+      .xeditor-source-editor__marks {
+        color: transparent;
+      }
+      
+      .xeditor-source-editor__input {
+        overflow: auto;
+        color: transparent;
+        caret-color: #24292e;
+        resize: none;
+        outline: none;
+      }
+      
+      .xeditor-source-editor__input::selection {
+        background-color: rgba(9, 105, 218, 0.25);
+      }
+      
+      .xeditor-source-editor:focus-within {
         box-shadow: 0 0 0 3px var(--xeditor-focus-outline);
       }
       
-      /* Match content element height */
-      .xeditor-wrapper .xeditor-source-textarea {
-        height: var(--content-height, 400px);
+      .xeditor-source-editor__mark--match {
+        background-color: rgba(255, 212, 0, 0.4);
+        color: transparent;
+        border-radius: 2px;
+      }
+      
+      .xeditor-source-editor__mark--problem {
+        background-color: transparent;
+        color: transparent;
+        text-decoration: underline wavy #cf222e;
+        text-decoration-skip-ink: none;
+      }
+      
+      .xeditor-source-editor .token.tag,
+      .xeditor-source-editor .token.selector {
+        color: #22863a;
+      }
+      
+      .xeditor-source-editor .token.attr-name,
+      .xeditor-source-editor .token.property {
+        color: #6f42c1;
+      }
+      
+      .xeditor-source-editor .token.attr-value,
+      .xeditor-source-editor .token.string {
+        color: #032f62;
+      }
+      
+      .xeditor-source-editor .token.punctuation,
+      .xeditor-source-editor .token.operator {
+        color: #6a737d;
+      }
+      
+      .xeditor-source-editor .token.comment,
+      .xeditor-source-editor .token.prolog,
+      .xeditor-source-editor .token.doctype,
+      .xeditor-source-editor .token.cdata {
+        color: #6a737d;
+        font-style: italic;
+      }
+      
+      .xeditor-source-editor .token.entity,
+      .xeditor-source-editor .token.keyword,
+      .xeditor-source-editor .token.number {
+        color: #005cc5;
+      }
+      
+      /* Problems found when switching back */
+      .xeditor-source-problems {
+        max-height: 40%;
+        overflow: auto;
+        padding: 12px 16px;
+        border-top: 1px solid #f5c2c7;
+        background-color: #fff5f5;
+        color: #24292e;
+        font-size: 14px;
+      }
+      
+      .xeditor-source-problems__title {
+        font-weight: bold;
+        color: #cf222e;
+      }
+      
+      .xeditor-source-problems__hint {
+        margin: 4px 0 8px;
+        color: #57606a;
+      }
+      
+      .xeditor-source-problems__list {
+        margin: 0;
+        padding: 0;
+        list-style: none;
+      }
+      
+      .xeditor-source-problems__item {
+        display: block;
+        width: 100%;
+        padding: 4px 0;
+        border: none;
+        background: none;
+        color: inherit;
+        font: inherit;
+        text-align: start;
+        cursor: pointer;
+      }
+      
+      .xeditor-source-problems__item:hover {
+        text-decoration: underline;
+      }
+      
+      .xeditor-source-problems__location {
+        margin-inline-end: 8px;
+        color: #57606a;
+        font-family: 'Consolas', 'Monaco', 'Courier New', monospace;
+      }
+      
+      .xeditor-source-problems__buttons {
+        display: flex;
+        gap: 8px;
+        justify-content: flex-end;
+        margin-top: 8px;
+      }
+      
+      .xeditor-source-problems__buttons button {
+        padding: 6px 12px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+      
+      .xeditor-source-problems__keep {
+        background-color: var(--xeditor-primary);
+        color: white;
+      }
+      
+      .xeditor-source-problems__apply {
+        background-color: #e9ecef;
+        color: #333;
       }
       
       /* Dark theme */
-      [data-theme="dark"] .xeditor-source-textarea {
+      [data-theme="dark"] .xeditor-source-editor {
         background-color: #2d333b;
         color: #adbac7;
       }
       
+      [data-theme="dark"] .xeditor-source-editor__gutter {
+        background-color: #22272e;
+        color: #636e7b;
+      }
+      
+      [data-theme="dark"] .xeditor-source-editor__input {
+        caret-color: #adbac7;
+      }
+      
+      [data-theme="dark"] .xeditor-source-editor .token.tag,
+      [data-theme="dark"] .xeditor-source-editor .token.selector {
+        color: #8ddb8c;
+      }
+      
+      [data-theme="dark"] .xeditor-source-editor .token.attr-name,
+      [data-theme="dark"] .xeditor-source-editor .token.property {
+        color: #dcbdfb;
+      }
+      
+      [data-theme="dark"] .xeditor-source-editor .token.attr-value,
+      [data-theme="dark"] .xeditor-source-editor .token.string {
+        color: #96d0ff;
+      }
+      
+      [data-theme="dark"] .xeditor-source-editor .token.punctuation,
+      [data-theme="dark"] .xeditor-source-editor .token.comment {
+        color: #768390;
+      }
+      
+      [data-theme="dark"] .xeditor-source-problems {
+        background-color: #3a2a2e;
+        border-top-color: #6e3b41;
+        color: #adbac7;
+      }
+      
+      [data-theme="dark"] .xeditor-source-problems__hint,
+      [data-theme="dark"] .xeditor-source-problems__location {
+        color: #768390;
+      }
+      
       /* Fullscreen adjustments */
-      .xeditor-fullscreen .xeditor-source-textarea {
+      .xeditor-fullscreen .xeditor-source-editor {
         height: calc(100vh - 60px) !important;
         border-radius: 0;
       }
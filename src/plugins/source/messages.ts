@@ -0,0 +1,83 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'source.problems': { one: '{count} problem in the source', other: '{count} problems in the source' },
+    'source.problemsHint': 'Fix them before switching back, or apply the source and let the editor drop what it cannot keep.',
+    'source.line': 'Line {line}, column {column}',
+    'source.applyAnyway': 'Apply Anyway',
+    'source.keepEditing': 'Keep Editing',
+    'source.unterminatedTag': '<{tag}> is missing its closing ">"',
+    'source.unterminatedComment': 'Comment is never closed with "-->"',
+    'source.unclosedTag': '<{tag}> is never closed',
+    'source.unexpectedClose': '</{tag}> has no opening tag',
+    'source.voidClose': '<{tag}> cannot have a closing tag',
+    'source.selfClosing': '<{tag}/> does not close itself in HTML; add </{tag}>',
+    'source.duplicateAttribute': '"{attribute}" is set more than once on <{tag}>',
+    'source.disallowedTag': '<{tag}> is not allowed and would be removed',
+    'source.disallowedAttribute': '"{attribute}" is not allowed on <{tag}> and would be removed',
+    'source.unsafeUrl': 'The {attribute} of <{tag}> uses a URL scheme that is not allowed',
+    'source.iframeHost': 'Embedding {url} is not allowed'
+  },
+  de: {
+    'source.problems': { one: '{count} Problem im Quellcode', other: '{count} Probleme im Quellcode' },
+    'source.problemsHint': 'Beheben Sie sie vor dem Zurückwechseln, oder übernehmen Sie den Quellcode und lassen Sie den Editor entfernen, was er nicht behalten kann.',
+    'source.line': 'Zeile {line}, Spalte {column}',
+    'source.applyAnyway': 'Trotzdem übernehmen',
+    'source.keepEditing': 'Weiter bearbeiten',
+    'source.unterminatedTag': 'Bei <{tag}> fehlt das schließende ">"',
+    'source.unterminatedComment': 'Der Kommentar wird nie mit "-->" geschlossen',
+    'source.unclosedTag': '<{tag}> wird nie geschlossen',
+    'source.unexpectedClose': '</{tag}> hat kein öffnendes Tag',
+    'source.voidClose': '<{tag}> darf kein schließendes Tag haben',
+    'source.selfClosing': '<{tag}/> schließt sich in HTML nicht selbst; fügen Sie </{tag}> hinzu',
+    'source.duplicateAttribute': '"{attribute}" ist an <{tag}> mehrfach gesetzt',
+    'source.disallowedTag': '<{tag}> ist nicht erlaubt und würde entfernt',
+    'source.disallowedAttribute': '"{attribute}" ist an <{tag}> nicht erlaubt und würde entfernt',
+    'source.unsafeUrl': '{attribute} von <{tag}> verwendet ein nicht erlaubtes URL-Schema',
+    'source.iframeHost': 'Das Einbetten von {url} ist nicht erlaubt'
+  },
+  ja: {
+    'source.problems': { other: 'ソースに{count}件の問題があります' },
+    'source.problemsHint': '戻る前に修正するか、ソースを適用してエディタが保持できない部分を削除させてください。',
+    'source.line': '{line}行目、{column}列目',
+    'source.applyAnyway': 'このまま適用',
+    'source.keepEditing': '編集を続ける',
+    'source.unterminatedTag': '<{tag}> に閉じる ">" がありません',
+    'source.unterminatedComment': 'コメントが "-->" で閉じられていません',
+    'source.unclosedTag': '<{tag}> が閉じられていません',
+    'source.unexpectedClose': '</{tag}> に対応する開始タグがありません',
+    'source.voidClose': '<{tag}> に終了タグは使えません',
+    'source.selfClosing': 'HTMLでは <{tag}/> は閉じられません。</{tag}> を追加してください',
+    'source.duplicateAttribute': '<{tag}> に "{attribute}" が複数回指定されています',
+    'source.disallowedTag': '<{tag}> は許可されていないため削除されます',
+    'source.disallowedAttribute': '<{tag}> の "{attribute}" は許可されていないため削除されます',
+    'source.unsafeUrl': '<{tag}> の {attribute} に許可されていないURLスキームが使われています',
+    'source.iframeHost': '{url} の埋め込みは許可されていません'
+  },
+  ar: {
+    'source.problems': {
+      zero: 'لا توجد مشكلات في الشيفرة المصدرية',
+      one: 'مشكلة واحدة في الشيفرة المصدرية',
+      two: 'مشكلتان في الشيفرة المصدرية',
+      few: '{count} مشكلات في الشيفرة المصدرية',
+      many: '{count} مشكلة في الشيفرة المصدرية',
+      other: '{count} مشكلة في الشيفرة المصدرية'
+    },
+    'source.problemsHint': 'أصلحها قبل العودة، أو طبّق الشيفرة المصدرية ودع المحرر يحذف ما لا يمكنه الاحتفاظ به.',
+    'source.line': 'السطر {line}، العمود {column}',
+    'source.applyAnyway': 'تطبيق على أي حال',
+    'source.keepEditing': 'متابعة التحرير',
+    'source.unterminatedTag': 'ينقص <{tag}> علامة الإغلاق ">"',
+    'source.unterminatedComment': 'التعليق غير مغلق بـ "-->"',
+    'source.unclosedTag': 'لم يُغلق <{tag}>',
+    'source.unexpectedClose': 'لا يوجد وسم فتح لـ </{tag}>',
+    'source.voidClose': 'لا يمكن أن يكون لـ <{tag}> وسم إغلاق',
+    'source.selfClosing': 'لا يُغلق <{tag}/> نفسه في HTML؛ أضف </{tag}>',
+    'source.duplicateAttribute': 'تم تعيين "{attribute}" أكثر من مرة على <{tag}>',
+    'source.disallowedTag': '<{tag}> غير مسموح به وسيُحذف',
+    'source.disallowedAttribute': '"{attribute}" غير مسموح به على <{tag}> وسيُحذف',
+    'source.unsafeUrl': 'يستخدم {attribute} في <{tag}> مخطط URL غير مسموح به',
+    'source.iframeHost': 'تضمين {url} غير مسموح به'
+  }
+};
@@ -0,0 +1,275 @@
+import Prism from 'prismjs';
+import { createElement } from '../../utils/dom';
+import { escapeHTML } from '../../utils/sanitize';
+import { SourceToken, VOID_TAGS, tokenizeHTML } from './tokenizer';
+import { findMatchingTags } from './validate';
+
+const INDENT = '  ';
+const DEFAULT_LINE_HEIGHT = 20;
+
+// A stretch of the source to point out, with what is wrong with it
+export interface SourceMark {
+  start: number;
+  end: number;
+  line: number;
+  message: string;
+}
+
+/**
+ * A textarea laid over the highlighted source, so the text stays native to
+ * edit while it reads like code: Prism colors the markup, a gutter numbers
+ * the lines, and the tag at the caret is marked along with its pair.
+ */
+export class SourceEditor {
+  element: HTMLElement;
+  textarea: HTMLTextAreaElement;
+  tokens: SourceToken[] = [];
+  private gutter: HTMLElement;
+  private highlight: HTMLElement;
+  private marks: HTMLElement;
+  private problems: SourceMark[] = [];
+  private matching: SourceToken[] = [];
+  private lineCount = 0;
+  private onChange: () => void;
+
+  constructor(value: string, onChange: () => void) {
+    this.onChange = onChange;
+
+    this.element = createElement('div', {
+      className: 'xeditor-source-editor'
+    });
+    this.gutter = createElement('div', {
+      className: 'xeditor-source-editor__gutter',
+      'aria-hidden': 'true'
+    });
+    const body = createElement('div', {
+      className: 'xeditor-source-editor__body'
+    });
+    this.marks = createElement('pre', {
+      className: 'xeditor-source-editor__layer xeditor-source-editor__marks',
+      'aria-hidden': 'true'
+    });
+    this.highlight = createElement('pre', {
+      className: 'xeditor-source-editor__layer xeditor-source-editor__highlight',
+      'aria-hidden': 'true'
+    });
+    this.textarea = createElement('textarea', {
+      className: 'xeditor-source-textarea xeditor-source-editor__input',
+      spellcheck: 'false',
+      autocapitalize: 'off',
+      autocomplete: 'off',
+      wrap: 'off'
+    }) as HTMLTextAreaElement;
+    this.textarea.value = value;
+
+    body.appendChild(this.marks);
+    body.appendChild(this.highlight);
+    body.appendChild(this.textarea);
+    this.element.appendChild(this.gutter);
+    this.element.appendChild(body);
+
+    this.textarea.addEventListener('input', this.handleInput);
+    this.textarea.addEventListener('keydown', this.handleKeyDown);
+    this.textarea.addEventListener('scroll', this.syncScroll);
+    this.textarea.addEventListener('keyup', this.updateMatching);
+    this.textarea.addEventListener('mouseup', this.updateMatching);
+
+    this.refresh();
+  }
+
+  get value(): string {
+    return this.textarea.value;
+  }
+
+  focus(): void {
+    this.textarea.focus();
+  }
+
+  setSelection(start: number, end: number = start): void {
+    this.textarea.setSelectionRange(start, end);
+    this.updateMatching();
+  }
+
+  // Selects a stretch of source and scrolls it to the middle of the view
+  reveal(start: number, end: number): void {
+    this.focus();
+    this.setSelection(start, end);
+    const line = this.textarea.value.slice(0, start).split('\n').length;
+    this.textarea.scrollTop = Math.max(0, (line - 1) * this.lineHeight() - this.textarea.clientHeight / 2);
+    this.syncScroll();
+  }
+
+  setProblems(problems: SourceMark[]): void {
+    this.problems = problems;
+    this.lineCount = 0;
+    this.renderGutter();
+    this.renderMarks();
+  }
+
+  destroy(): void {
+    this.textarea.removeEventListener('input', this.handleInput);
+    this.textarea.removeEventListener('keydown', this.handleKeyDown);
+    this.textarea.removeEventListener('scroll', this.syncScroll);
+    this.textarea.removeEventListener('keyup', this.updateMatching);
+    this.textarea.removeEventListener('mouseup', this.updateMatching);
+    this.element.remove();
+  }
+
+  private refresh(): void {
+    const value = this.textarea.value;
+    this.tokens = tokenizeHTML(value);
+    // The trailing line break gives an empty last line its height
+    this.highlight.innerHTML = Prism.highlight(`${value}\n`, Prism.languages.markup, 'markup');
+    this.renderGutter();
+    // Offsets of the marks have moved along with the text
+    this.matching = this.findMatching();
+    this.renderMarks();
+  }
+
+  private handleInput = (e: Event): void => {
+    this.refresh();
+
+    const event = e as InputEvent;
+    if (event.inputType === 'insertText' && event.data === '>') {
+      this.closeTag();
+    } else if (event.inputType === 'insertText' && event.data === '/') {
+      this.completeCloseTag();
+    }
+    this.onChange();
+  };
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      this.insert(INDENT);
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      // New lines keep the indentation of the one they split
+      const value = this.textarea.value;
+      const lineStart = value.lastIndexOf('\n', this.textarea.selectionStart - 1) + 1;
+      const indent = value.slice(lineStart).match(/^[ \t]*/)![0];
+      e.preventDefault();
+      this.insert(`\n${indent}`);
+    }
+  };
+
+  // Typing the ">" of an opening tag adds its closing tag after the caret
+  private closeTag(): void {
+    const caret = this.textarea.selectionStart;
+    const tag = this.tokens.find(token => token.type === 'open' && token.end === caret);
+    if (!tag || tag.selfClosing || tag.unterminated || VOID_TAGS.includes(tag.name!)) return;
+
+    const closing = `</${tag.name}>`;
+    if (this.textarea.value.startsWith(closing, caret)) return;
+    this.insert(closing);
+    this.setSelection(caret);
+  }
+
+  // Typing "</" finishes the closing tag of the innermost open element
+  private completeCloseTag(): void {
+    const caret = this.textarea.selectionStart;
+    if (this.textarea.value.charAt(caret - 2) !== '<') return;
+
+    const open: string[] = [];
+    for (const token of this.tokens) {
+      if (token.start >= caret - 2) break;
+      if (token.type === 'open' && !token.selfClosing && !VOID_TAGS.includes(token.name!)) {
+        open.push(token.name!);
+      } else if (token.type === 'close') {
+        const at = open.lastIndexOf(token.name!);
+        if (at >= 0) open.length = at;
+      }
+    }
+    if (open.length > 0) {
+      this.insert(`${open[open.length - 1]}>`);
+    }
+  }
+
+  // Goes through the browser's editing when it can, so native undo covers it
+  private insert(text: string): void {
+    const inserted = typeof document.execCommand === 'function' && document.execCommand('insertText', false, text);
+    if (!inserted) {
+      this.textarea.setRangeText(text, this.textarea.selectionStart, this.textarea.selectionEnd, 'end');
+      this.refresh();
+      this.onChange();
+    }
+  }
+
+  private findMatching(): SourceToken[] {
+    const { selectionStart, selectionEnd } = this.textarea;
+    return selectionStart === selectionEnd ? findMatchingTags(this.tokens, selectionStart) : [];
+  }
+
+  private updateMatching = (): void => {
+    const matching = this.findMatching();
+    const changed = matching.length !== this.matching.length ||
+      matching.some((token, index) => token !== this.matching[index]);
+    this.matching = matching;
+    if (changed) {
+      this.renderMarks();
+    }
+  };
+
+  private renderGutter(): void {
+    const count = this.textarea.value.split('\n').length;
+    if (count === this.lineCount) return;
+    this.lineCount = count;
+
+    const messages = new Map<number, string[]>();
+    this.problems.forEach(problem => {
+      messages.set(problem.line, [...(messages.get(problem.line) || []), problem.message]);
+    });
+
+    this.gutter.innerHTML = '';
+    for (let line = 1; line <= count; line++) {
+      const number = createElement('div', {
+        className: 'xeditor-source-editor__line-number'
+      }, [String(line)]);
+      const problems = messages.get(line);
+      if (problems) {
+        number.classList.add('xeditor-source-editor__line-number--problem');
+        number.title = problems.join('\n');
+      }
+      this.gutter.appendChild(number);
+    }
+    this.syncScroll();
+  }
+
+  // Backgrounds for the matched tags and underlines for problems, behind the colored text
+  private renderMarks(): void {
+    const value = this.textarea.value;
+    const ranges = [
+      ...this.matching.map(token => ({ start: token.start, end: token.end, className: 'match' })),
+      ...this.problems.map(problem => ({ start: problem.start, end: problem.end, className: 'problem' }))
+    // A problem wins over a matched tag starting at the same place
+    ].sort((a, b) => a.start - b.start || (a.className === 'problem' ? -1 : 1));
+
+    let html = '';
+    let pos = 0;
+    for (const range of ranges) {
+      const start = Math.max(range.start, pos);
+      const end = Math.min(range.end, value.length);
+      if (end <= start) continue;
+      html += escapeHTML(value.slice(pos, start));
+      html += `<mark class="xeditor-source-editor__mark--${range.className}">${escapeHTML(value.slice(start, end))}</mark>`;
+      pos = end;
+    }
+    this.marks.innerHTML = `${html}${escapeHTML(value.slice(pos))}\n`;
+    this.syncScroll();
+  }
+
+  private syncScroll = (): void => {
+    const { scrollTop, scrollLeft } = this.textarea;
+    this.highlight.scrollTop = scrollTop;
+    this.highlight.scrollLeft = scrollLeft;
+    this.marks.scrollTop = scrollTop;
+    this.marks.scrollLeft = scrollLeft;
+    this.gutter.scrollTop = scrollTop;
+  };
+
+  private lineHeight(): number {
+    const lineHeight = parseFloat(getComputedStyle(this.textarea).lineHeight);
+    return lineHeight > 0 ? lineHeight : DEFAULT_LINE_HEIGHT;
+  }
+}
@@ -0,0 +1,245 @@
+export interface SourceAttribute {
+  name: string;
+  value: string | null;
+  start: number;
+  end: number;
+}
+
+/**
+ * A piece of HTML source with its offsets. Tag names are lower-cased;
+ * `unterminated` marks a tag or comment the source ends, or a new tag
+ * starts, before it is closed.
+ */
+export interface SourceToken {
+  type: 'text' | 'open' | 'close' | 'comment' | 'declaration';
+  start: number;
+  end: number;
+  name?: string;
+  attributes?: SourceAttribute[];
+  selfClosing?: boolean;
+  unterminated?: boolean;
+  // Text of a script, style or other element that holds no markup
+  raw?: boolean;
+}
+
+export const VOID_TAGS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'source', 'track', 'wbr'
+];
+
+// Elements whose content is text up to their closing tag
+const RAW_TEXT_TAGS = ['script', 'style', 'textarea', 'title'];
+
+const RE_TAG_NAME = /[a-zA-Z][^\s/>]*/y;
+const RE_ATTRIBUTE_NAME = /[^\s"'>/=]+/y;
+const RE_UNQUOTED_VALUE = /[^\s>]+/y;
+const RE_ENTITY = /&(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);/iy;
+
+function isSpace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === '\f';
+}
+
+function matchAt(pattern: RegExp, source: string, offset: number): string | null {
+  pattern.lastIndex = offset;
+  const match = pattern.exec(source);
+  return match ? match[0] : null;
+}
+
+class Tokenizer {
+  private source: string;
+  private pos = 0;
+  private tokens: SourceToken[] = [];
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  run(): SourceToken[] {
+    const source = this.source;
+    while (this.pos < source.length) {
+      const start = this.pos;
+      if (source.startsWith('<!--', start)) {
+        this.readComment();
+      } else if (source.startsWith('<!', start) || source.startsWith('<?', start)) {
+        this.readDeclaration();
+      } else if (source.startsWith('</', start) && matchAt(RE_TAG_NAME, source, start + 2)) {
+        this.readCloseTag();
+      } else if (source.charAt(start) === '<' && matchAt(RE_TAG_NAME, source, start + 1)) {
+        this.readOpenTag();
+      } else {
+        const next = source.indexOf('<', start + 1);
+        this.addText(start, next < 0 ? source.length : next);
+      }
+    }
+    return this.tokens;
+  }
+
+  private addText(start: number, end: number): void {
+    if (end <= start) return;
+    const last = this.tokens[this.tokens.length - 1];
+    if (last && last.type === 'text' && !last.raw) {
+      last.end = end;
+    } else {
+      this.tokens.push({ type: 'text', start, end });
+    }
+    this.pos = end;
+  }
+
+  private readComment(): void {
+    const start = this.pos;
+    const close = this.source.indexOf('-->', start + 4);
+    const end = close < 0 ? this.source.length : close + 3;
+    this.tokens.push({ type: 'comment', start, end, unterminated: close < 0 });
+    this.pos = end;
+  }
+
+  private readDeclaration(): void {
+    const start = this.pos;
+    const close = this.source.indexOf('>', start);
+    const end = close < 0 ? this.source.length : close + 1;
+    this.tokens.push({ type: 'declaration', start, end, unterminated: close < 0 });
+    this.pos = end;
+  }
+
+  private readCloseTag(): void {
+    const start = this.pos;
+    const name = matchAt(RE_TAG_NAME, this.source, start + 2)!;
+    const close = this.source.indexOf('>', start);
+    const next = this.source.indexOf('<', start + 1);
+    const unterminated = close < 0 || (next >= 0 && next < close);
+    const end = unterminated ? (next < 0 ? this.source.length : next) : close + 1;
+    this.tokens.push({ type: 'close', start, end, name: name.toLowerCase(), unterminated });
+    this.pos = end;
+  }
+
+  private readOpenTag(): void {
+    const source = this.source;
+    const start = this.pos;
+    const name = matchAt(RE_TAG_NAME, source, start + 1)!;
+    const token: SourceToken = { type: 'open', start, end: source.length, name: name.toLowerCase(), attributes: [] };
+    this.tokens.push(token);
+
+    let pos = start + 1 + name.length;
+    for (;;) {
+      while (isSpace(source.charAt(pos))) pos++;
+      const char = source.charAt(pos);
+      if (char === '>') {
+        token.end = pos + 1;
+        break;
+      }
+      if (source.startsWith('/>', pos)) {
+        token.selfClosing = true;
+        token.end = pos + 2;
+        break;
+      }
+      if (char === '' || char === '<') {
+        token.unterminated = true;
+        token.end = pos;
+        break;
+      }
+      if (char === '/') {
+        pos++;
+        continue;
+      }
+
+      const attributeName = matchAt(RE_ATTRIBUTE_NAME, source, pos) || char;
+      const attribute: SourceAttribute = { name: attributeName.toLowerCase(), value: null, start: pos, end: pos + attributeName.length };
+      token.attributes!.push(attribute);
+      pos = attribute.end;
+
+      let valueStart = pos;
+      while (isSpace(source.charAt(valueStart))) valueStart++;
+      if (source.charAt(valueStart) !== '=') continue;
+      valueStart++;
+      while (isSpace(source.charAt(valueStart))) valueStart++;
+
+      const quote = source.charAt(valueStart);
+      if (quote === '"' || quote === '\'') {
+        const close = source.indexOf(quote, valueStart + 1);
+        if (close < 0) {
+          attribute.value = source.slice(valueStart + 1);
+          attribute.end = source.length;
+          token.unterminated = true;
+          token.end = source.length;
+          break;
+        }
+        attribute.value = source.slice(valueStart + 1, close);
+        attribute.end = close + 1;
+      } else {
+        attribute.value = matchAt(RE_UNQUOTED_VALUE, source, valueStart) || '';
+        attribute.end = valueStart + attribute.value.length;
+      }
+      pos = attribute.end;
+    }
+    this.pos = token.end;
+
+    if (!token.unterminated && !token.selfClosing && RAW_TEXT_TAGS.includes(token.name!)) {
+      const lower = source.toLowerCase();
+      const close = lower.indexOf(`</${token.name}`, this.pos);
+      const end = close < 0 ? source.length : close;
+      if (end > this.pos) {
+        this.tokens.push({ type: 'text', start: this.pos, end, raw: true });
+        this.pos = end;
+      }
+    }
+  }
+}
+
+export function tokenizeHTML(source: string): SourceToken[] {
+  return new Tokenizer(source).run();
+}
+
+/**
+ * How many characters of text, not counting whitespace, come before
+ * `offset`. Whitespace is left out because formatting the source and
+ * rendering it lay it out differently; the characters themselves line up.
+ */
+export function textOffsetAt(source: string, tokens: SourceToken[], offset: number): number {
+  let count = 0;
+  for (const token of tokens) {
+    if (token.start >= offset) break;
+    if (token.type !== 'text' || token.raw) continue;
+    count += countText(source, token.start, Math.min(token.end, offset));
+  }
+  return count;
+}
+
+// Offset in the source just past the `count`th character of text, or before the first one
+export function sourceOffsetFor(source: string, tokens: SourceToken[], count: number): number {
+  let remaining = count;
+  let fallback = 0;
+  for (const token of tokens) {
+    if (token.type !== 'text' || token.raw) continue;
+    let pos = token.start;
+    while (pos < token.end) {
+      const length = characterLength(source, pos);
+      if (!isSpace(source.charAt(pos))) {
+        if (remaining === 0) return pos;
+        remaining--;
+        fallback = pos + length;
+        if (remaining === 0) return fallback;
+      }
+      pos += length;
+    }
+  }
+  return fallback;
+}
+
+function countText(source: string, start: number, end: number): number {
+  let count = 0;
+  let pos = start;
+  while (pos < end) {
+    if (!isSpace(source.charAt(pos))) count++;
+    pos += characterLength(source, pos);
+  }
+  return count;
+}
+
+// An entity stands for one character
+function characterLength(source: string, pos: number): number {
+  if (source.charAt(pos) === '&') {
+    const entity = matchAt(RE_ENTITY, source, pos);
+    if (entity) return entity.length;
+  }
+  return 1;
+}
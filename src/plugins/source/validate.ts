@@ -0,0 +1,216 @@
+import { MessageParams, SanitizeSchema } from '../../types';
+import { isAllowedIframeSource } from '../../utils/sanitize';
+import { SourceToken, VOID_TAGS } from './tokenizer';
+
+export type SourceProblemCode =
+  | 'unterminatedTag'
+  | 'unterminatedComment'
+  | 'unclosedTag'
+  | 'unexpectedClose'
+  | 'voidClose'
+  | 'selfClosing'
+  | 'duplicateAttribute'
+  | 'disallowedTag'
+  | 'disallowedAttribute'
+  | 'unsafeUrl'
+  | 'iframeHost';
+
+// Something in the source that would be dropped or repaired on the way back into the editor
+export interface SourceProblem {
+  code: SourceProblemCode;
+  params: MessageParams;
+  start: number;
+  end: number;
+  // Counted from 1
+  line: number;
+  column: number;
+}
+
+// Elements whose closing tag may be left out, and the tags that close them
+const IMPLIED_END: Record<string, string[]> = {
+  p: [
+    'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption',
+    'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav',
+    'ol', 'p', 'pre', 'section', 'table', 'ul'
+  ],
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr'],
+  td: ['td', 'th', 'tr'],
+  th: ['td', 'th', 'tr'],
+  thead: ['tbody', 'tfoot'],
+  tbody: ['tbody', 'tfoot'],
+  tfoot: [],
+  option: ['option'],
+  colgroup: []
+};
+
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'poster', 'cite', 'background', 'xlink:href'];
+// Schemes DOMPurify keeps by default; data: only on media elements
+const SAFE_SCHEMES = ['http', 'https', 'mailto', 'tel', 'callto', 'sms', 'cid', 'xmpp', 'ftp'];
+const DATA_URI_TAGS = ['img', 'video', 'audio', 'source', 'track'];
+
+function isSafeURL(tag: string, url: string): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme
+  const scheme = url.replace(/[\s\p{Cc}]/gu, '').match(/^([a-z][a-z\d+.-]*):/i);
+  if (!scheme) return true;
+  const name = scheme[1].toLowerCase();
+  return SAFE_SCHEMES.includes(name) || (name === 'data' && DATA_URI_TAGS.includes(tag));
+}
+
+class Validator {
+  private schema: Required<SanitizeSchema> | null;
+  private problems: SourceProblem[] = [];
+  private lineStarts: number[] = [0];
+
+  constructor(source: string, schema: Required<SanitizeSchema> | null) {
+    this.schema = schema;
+    for (let i = 0; i < source.length; i++) {
+      if (source.charAt(i) === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  run(tokens: SourceToken[]): SourceProblem[] {
+    const open: SourceToken[] = [];
+
+    for (const token of tokens) {
+      if (token.type === 'comment' && token.unterminated) {
+        this.report('unterminatedComment', {}, token);
+      }
+      if (token.type !== 'open' && token.type !== 'close') continue;
+
+      const tag = token.name!;
+      if (token.unterminated) {
+        this.report('unterminatedTag', { tag }, token);
+      }
+
+      if (token.type === 'open') {
+        this.checkAllowed(token);
+        this.closeImplied(open, tag);
+        if (VOID_TAGS.includes(tag)) continue;
+        if (token.selfClosing) {
+          this.report('selfClosing', { tag }, token);
+          continue;
+        }
+        open.push(token);
+        continue;
+      }
+
+      if (VOID_TAGS.includes(tag)) {
+        this.report('voidClose', { tag }, token);
+        continue;
+      }
+      const at = open.map(element => element.name).lastIndexOf(tag);
+      if (at < 0) {
+        this.report('unexpectedClose', { tag }, token);
+        continue;
+      }
+      // Whatever is still open inside is closed along with it
+      open.splice(at).slice(1).forEach(element => this.reportUnclosed(element));
+    }
+
+    open.forEach(element => this.reportUnclosed(element));
+    return this.problems.sort((a, b) => a.start - b.start);
+  }
+
+  // An opening tag ends elements whose closing tag is optional, as <li> ends an open <li>
+  private closeImplied(open: SourceToken[], tag: string): void {
+    let top = open[open.length - 1];
+    while (top && IMPLIED_END[top.name!] && IMPLIED_END[top.name!].includes(tag)) {
+      open.pop();
+      top = open[open.length - 1];
+    }
+  }
+
+  private reportUnclosed(element: SourceToken): void {
+    if (!IMPLIED_END[element.name!]) {
+      this.report('unclosedTag', { tag: element.name! }, element);
+    }
+  }
+
+  private checkAllowed(token: SourceToken): void {
+    if (!this.schema) return;
+    const tag = token.name!;
+    const start = token.start;
+    if (!this.schema.tags.includes(tag)) {
+      this.report('disallowedTag', { tag }, { start, end: start + 1 + tag.length });
+      return;
+    }
+
+    const global = this.schema.attributes['*'] || [];
+    const allowed = [...global, ...(this.schema.attributes[tag] || [])];
+    const seen = new Set<string>();
+    for (const attribute of token.attributes!) {
+      const name = attribute.name;
+      const value = attribute.value || '';
+      if (seen.has(name)) {
+        this.report('duplicateAttribute', { tag, attribute: name }, attribute);
+        continue;
+      }
+      seen.add(name);
+
+      const permitted = allowed.includes(name) || (name.startsWith('data-') && global.includes('data-*'));
+      if (!permitted || name.startsWith('on')) {
+        this.report('disallowedAttribute', { tag, attribute: name }, attribute);
+      } else if (URL_ATTRIBUTES.includes(name) && !isSafeURL(tag, value)) {
+        this.report('unsafeUrl', { tag, attribute: name }, attribute);
+      } else if (tag === 'iframe' && name === 'src' && !isAllowedIframeSource(value, this.schema.iframeHosts)) {
+        this.report('iframeHost', { tag, url: value }, attribute);
+      }
+    }
+  }
+
+  private report(code: SourceProblemCode, params: MessageParams, range: { start: number; end: number }): void {
+    let line = 0;
+    while (line + 1 < this.lineStarts.length && this.lineStarts[line + 1] <= range.start) {
+      line++;
+    }
+    this.problems.push({
+      code,
+      params,
+      start: range.start,
+      end: Math.max(range.end, range.start + 1),
+      line: line + 1,
+      column: range.start - this.lineStarts[line] + 1
+    });
+  }
+}
+
+/**
+ * Finds malformed markup in HTML source and, given the sanitizer schema,
+ * markup the sanitizer would remove. Without a schema only the structure
+ * is checked.
+ */
+export function validateHTML(
+  source: string,
+  tokens: SourceToken[],
+  schema: Required<SanitizeSchema> | null
+): SourceProblem[] {
+  return new Validator(source, schema).run(tokens);
+}
+
+/**
+ * The tag the caret is on and the one it pairs with, if any. The caret
+ * counts as on a tag from its "<" up to just after its ">".
+ */
+export function findMatchingTags(tokens: SourceToken[], offset: number): SourceToken[] {
+  const index = tokens.findIndex(token =>
+    (token.type === 'open' || token.type === 'close') && token.start <= offset && offset <= token.end);
+  if (index < 0) return [];
+
+  const token = tokens[index];
+  if (token.type === 'open' && (token.selfClosing || VOID_TAGS.includes(token.name!))) {
+    return [token];
+  }
+
+  const step = token.type === 'open' ? 1 : -1;
+  let depth = 0;
+  for (let i = index; i >= 0 && i < tokens.length; i += step) {
+    const other = tokens[i];
+    if (other.name !== token.name || other.selfClosing) continue;
+    depth += other.type === token.type ? 1 : other.type === 'open' || other.type === 'close' ? -1 : 0;
+    if (depth === 0) return [token, other];
+  }
+  return [token];
+}
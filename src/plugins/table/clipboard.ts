@@ -0,0 +1,115 @@
+import { escapeHTML } from '../../utils/sanitize';
+import { CellRect, buildGrid, cellRect } from './grid';
+
+// Text of a cell, with line breaks kept
+export function cellText(cell: HTMLElement): string {
+  const clone = cell.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  clone.querySelectorAll('p, div, li').forEach(block => {
+    if (block.nextSibling) block.after('\n');
+  });
+  return (clone.textContent || '').replace(/\n+$/, '');
+}
+
+/**
+ * Tab-separated values as spreadsheets copy them: values holding a tab,
+ * a line break or a quote are quoted, with quotes doubled.
+ */
+export function toTSV(rows: string[][]): string {
+  return rows
+    .map(row => row
+      .map(value => /[\t\n"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+      .join('\t'))
+    .join('\n');
+}
+
+export function parseTSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  const input = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === '\t') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n') {
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  row.push(value);
+  rows.push(row);
+
+  return rows;
+}
+
+export function textToCellHTML(text: string): string {
+  return text.split('\n').map(escapeHTML).join('<br>');
+}
+
+/**
+ * Inner HTML of every slot of a table, rows by columns. Slots a merged
+ * cell covers besides its first one are empty.
+ */
+export function readTable(table: HTMLTableElement): string[][] {
+  const grid = buildGrid(table);
+  return grid.map((row, r) => row.map((cell, c) => {
+    const covered = cellRect(grid, cell);
+    return covered.top === r && covered.left === c ? cell.innerHTML : '';
+  }));
+}
+
+/**
+ * The cells of a rectangle as a table of their own and as TSV, for the
+ * clipboard. Merged cells reaching out of the rectangle are cut to it.
+ */
+export function copyCells(grid: HTMLTableCellElement[][], rect: CellRect): { html: string; text: string } {
+  const table = document.createElement('table');
+  const rows: string[][] = [];
+
+  for (let r = rect.top; r <= rect.bottom; r++) {
+    const row = table.insertRow();
+    const values: string[] = [];
+    for (let c = rect.left; c <= rect.right; c++) {
+      const cell = grid[r]?.[c];
+      const covered = cell && cellRect(grid, cell);
+      // Only the first slot of a cell within the rectangle holds it
+      if (!cell || !covered || Math.max(covered.top, rect.top) !== r || Math.max(covered.left, rect.left) !== c) {
+        values.push('');
+        continue;
+      }
+
+      const copy = document.createElement(cell.tagName.toLowerCase()) as HTMLTableCellElement;
+      copy.innerHTML = cell.innerHTML;
+      const style = cell.getAttribute('style');
+      if (style) copy.setAttribute('style', style);
+      copy.rowSpan = Math.min(covered.bottom, rect.bottom) - r + 1;
+      copy.colSpan = Math.min(covered.right, rect.right) - c + 1;
+      if (copy.rowSpan === 1) copy.removeAttribute('rowspan');
+      if (copy.colSpan === 1) copy.removeAttribute('colspan');
+      row.appendChild(copy);
+      values.push(cellText(cell));
+    }
+    rows.push(values);
+  }
+
+  return { html: table.outerHTML, text: toTSV(rows) };
+}
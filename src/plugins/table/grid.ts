@@ -0,0 +1,102 @@
+/**
+ * The cell covering every slot of a table, indexed by row and column, so
+ * that a cell spanning several rows or columns appears in each of them.
+ * Rows are in `table.rows` order, which matches `rowIndex`.
+ */
+export function buildGrid(table: HTMLTableElement): HTMLTableCellElement[][] {
+  const grid: HTMLTableCellElement[][] = Array.from(table.rows).map(() => []);
+
+  Array.from(table.rows).forEach((row, r) => {
+    let c = 0;
+    Array.from(row.cells).forEach(cell => {
+      while (grid[r][c]) c++;
+      const rowSpan = Math.min(cell.rowSpan || 1, grid.length - r);
+      for (let dr = 0; dr < rowSpan; dr++) {
+        for (let dc = 0; dc < (cell.colSpan || 1); dc++) {
+          grid[r + dr][c + dc] = cell;
+        }
+      }
+      c += cell.colSpan || 1;
+    });
+  });
+
+  return grid;
+}
+
+export function columnCount(grid: HTMLTableCellElement[][]): number {
+  return grid.reduce((count, row) => Math.max(count, row.length), 0);
+}
+
+// First column a cell covers
+export function cellColumn(grid: HTMLTableCellElement[][], cell: HTMLTableCellElement): number {
+  const row = grid[(cell.parentElement as HTMLTableRowElement).rowIndex] || [];
+  return row.indexOf(cell);
+}
+
+export interface CellRect {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Slots a cell covers
+export function cellRect(grid: HTMLTableCellElement[][], cell: HTMLTableCellElement): CellRect {
+  const top = (cell.parentElement as HTMLTableRowElement).rowIndex;
+  const left = cellColumn(grid, cell);
+  return {
+    top,
+    left,
+    bottom: Math.min(top + (cell.rowSpan || 1), grid.length) - 1,
+    right: left + (cell.colSpan || 1) - 1
+  };
+}
+
+/**
+ * Smallest rectangle holding both cells that cuts through no merged cell,
+ * as selected by dragging from one cell to the other.
+ */
+export function selectionRect(
+  grid: HTMLTableCellElement[][],
+  anchor: HTMLTableCellElement,
+  head: HTMLTableCellElement
+): CellRect {
+  const a = cellRect(grid, anchor);
+  const b = cellRect(grid, head);
+  const rect: CellRect = {
+    top: Math.min(a.top, b.top),
+    left: Math.min(a.left, b.left),
+    bottom: Math.max(a.bottom, b.bottom),
+    right: Math.max(a.right, b.right)
+  };
+
+  let grown = true;
+  while (grown) {
+    grown = false;
+    cellsInRect(grid, rect).forEach(cell => {
+      const covered = cellRect(grid, cell);
+      if (covered.top < rect.top || covered.left < rect.left || covered.bottom > rect.bottom || covered.right > rect.right) {
+        rect.top = Math.min(rect.top, covered.top);
+        rect.left = Math.min(rect.left, covered.left);
+        rect.bottom = Math.max(rect.bottom, covered.bottom);
+        rect.right = Math.max(rect.right, covered.right);
+        grown = true;
+      }
+    });
+  }
+
+  return rect;
+}
+
+// Every cell with a slot in the rectangle, each once, in reading order
+export function cellsInRect(grid: HTMLTableCellElement[][], rect: CellRect): HTMLTableCellElement[] {
+  const cells = new Set<HTMLTableCellElement>();
+  for (let r = rect.top; r <= rect.bottom; r++) {
+    for (let c = rect.left; c <= rect.right; c++) {
+      if (grid[r]?.[c]) {
+        cells.add(grid[r][c]);
+      }
+    }
+  }
+  return Array.from(cells);
+}
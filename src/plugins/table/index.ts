@@ -1,5 +1,24 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement, addClass, removeClass } from '../../utils/dom';
+import { getDirection } from '../../utils/bidi';
+import { messages } from './messages';
+import { buildGrid, cellColumn, cellRect, cellsInRect, columnCount, selectionRect } from './grid';
+import { sortOrder } from './sort';
+import { copyCells, parseTSV, readTable, textToCellHTML } from './clipboard';
+
+// Distance from a column border, in pixels, at which it can be dragged
+const RESIZE_MARGIN = 4;
+
+// Commands applied to each cell of a multi-cell selection in turn
+const CELL_COMMANDS = [
+  'bold', 'italic', 'underline', 'strikethrough', 'foreColor', 'backColor', 'fontName', 'fontSize',
+  'justifyLeft', 'justifyCenter', 'justifyRight', 'justifyFull'
+];
+// Of those, the ones that turn a format on or off depending on the selection
+const TOGGLE_COMMANDS = ['bold', 'italic', 'underline', 'strikethrough'];
+
+// A cell as the index of its table in the content and its index in the table
+type CellPosition = [number, number];
 
 interface TableConfig {
   defaultRows?: number;
@@ -19,6 +38,18 @@ export class TablePlugin implements Plugin {
   private selectedTable: HTMLTableElement | null = null;
   private selectedCell: HTMLTableCellElement | null = null;
   private contextMenu: HTMLElement | null = null;
+  private resizeHandle: HTMLElement | null = null;
+  // Column border under the pointer, or being dragged
+  private resizeTarget: { table: HTMLTableElement; column: number } | null = null;
+  private resizing: { startX: number; widths: number[] } | null = null;
+  // Rectangle of cells from `anchor` to `head`, as selected by dragging or shift-click
+  private cellSelection: { table: HTMLTableElement; anchor: HTMLTableCellElement; head: HTMLTableCellElement } | null = null;
+  // Cell a drag started in, while the mouse button is down
+  private dragAnchor: HTMLTableCellElement | null = null;
+  // The click ending a cell selection must not select a single cell
+  private ignoreClick = false;
+  // Cells a command is applied to, found again by position as it re-renders them
+  private commandCells: { cells: CellPosition[]; anchor: CellPosition; head: CellPosition } | null = null;
 
   toolbar: ToolbarItem[] = [];
 
@@ -37,6 +68,7 @@ export class TablePlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make methods available
     (this as any).showTableDialog = this.showTableDialog.bind(this);
@@ -47,6 +79,15 @@ export class TablePlugin implements Plugin {
     // Add event listeners
     this.editor.contentElement.addEventListener('click', this.handleClick);
     this.editor.contentElement.addEventListener('contextmenu', this.handleContextMenu);
+    this.editor.contentElement.addEventListener('mousemove', this.handleMouseMove);
+    this.editor.contentElement.addEventListener('mouseleave', this.handleMouseLeave);
+    this.editor.contentElement.addEventListener('mousedown', this.handleMouseDown);
+    this.editor.contentElement.addEventListener('keydown', this.handleKeyDown);
+    this.editor.contentElement.addEventListener('copy', this.handleCopy);
+    this.editor.contentElement.addEventListener('cut', this.handleCopy);
+    this.editor.on('paste', this.handlePaste);
+    this.editor.on('command:before', this.handleCommandBefore);
+    this.editor.on('command:after', this.handleCommandAfter);
     
     // Add styles
     this.addStyles();
@@ -55,14 +96,28 @@ export class TablePlugin implements Plugin {
   destroy(): void {
     this.editor.contentElement.removeEventListener('click', this.handleClick);
     this.editor.contentElement.removeEventListener('contextmenu', this.handleContextMenu);
+    this.editor.contentElement.removeEventListener('mousemove', this.handleMouseMove);
+    this.editor.contentElement.removeEventListener('mouseleave', this.handleMouseLeave);
+    this.editor.contentElement.removeEventListener('mousedown', this.handleMouseDown);
+    this.editor.contentElement.removeEventListener('keydown', this.handleKeyDown);
+    this.editor.contentElement.removeEventListener('copy', this.handleCopy);
+    this.editor.contentElement.removeEventListener('cut', this.handleCopy);
+    this.editor.off('paste', this.handlePaste);
+    this.editor.off('command:before', this.handleCommandBefore);
+    this.editor.off('command:after', this.handleCommandAfter);
+    this.stopResize();
+    this.stopCellDrag();
+    this.resizeHandle?.remove();
+    this.resizeHandle = null;
     this.removeContextMenu();
   }
 
   private registerCommands(): void {
     this.editor.commands.register('insertTable', {
       execute: (value?: any) => {
-        if (Array.isArray(value) && value.length === 2) {
-          this.insertTable(value[0], value[1]);
+        // [rows, cols] or [rows, cols, { borders, header }]
+        if (Array.isArray(value) && value.length >= 2) {
+          this.insertTable(value[0], value[1], value[2]);
         } else {
           this.insertTable(this.config.defaultRows!, this.config.defaultCols!);
         }
@@ -112,6 +167,42 @@ export class TablePlugin implements Plugin {
     this.editor.commands.register('setCellBackground', {
       execute: (color: string) => this.setCellBackground(color)
     });
+
+    this.editor.commands.register('toggleHeaderRow', {
+      execute: () => this.toggleHeaderRow(),
+      queryState: () => !!this.selectedTable?.tHead
+    });
+
+    this.editor.commands.register('toggleHeaderColumn', {
+      execute: () => this.toggleHeaderColumn(),
+      queryState: () => !!this.selectedTable && this.hasHeaderColumn(this.selectedTable)
+    });
+
+    this.editor.commands.register('toggleFooterRow', {
+      execute: () => this.toggleFooterRow(),
+      queryState: () => !!this.selectedTable?.tFoot
+    });
+
+    this.editor.commands.register('toggleTableCaption', {
+      execute: () => this.toggleCaption(),
+      queryState: () => !!this.selectedTable?.caption
+    });
+
+    this.editor.commands.register('sortTableColumn', {
+      execute: (direction?: 'asc' | 'desc') => this.sortColumn(direction === 'desc' ? 'desc' : 'asc')
+    });
+
+    this.editor.commands.register('setColumnWidth', {
+      // [column, width in pixels] of the selected table
+      execute: (value: [number, number]) => {
+        if (!this.selectedTable || !Array.isArray(value)) return;
+        const widths = this.measureColumns(this.selectedTable);
+        if (value[0] < 0 || value[0] >= widths.length) return;
+        widths[value[0]] = Math.max(this.config.cellMinWidth!, value[1]);
+        this.setColumnWidths(this.selectedTable, widths);
+        this.editor.history.record();
+      }
+    });
   }
 
   private showTableDialog(): void {
@@ -121,14 +212,15 @@ export class TablePlugin implements Plugin {
 
   private createTableDialog(): HTMLElement {
     const overlay = createElement('div', {
-      className: 'xeditor-table-dialog-overlay'
+      className: 'xeditor-table-dialog-overlay',
+      dir: this.editor.getDirection()
     });
 
     const dialog = createElement('div', {
       className: 'xeditor-table-dialog'
     });
 
-    const title = createElement('h3', {}, ['Insert Table']);
+    const title = createElement('h3', {}, [this.editor.t('table.insertTitle')]);
 
     // Table preview
     const preview = createElement('div', {
@@ -170,10 +262,10 @@ export class TablePlugin implements Plugin {
 
         cell.addEventListener('click', () => {
           this.editor.selection.restore();
-          this.insertTable(row + 1, col + 1, {
+          this.editor.execCommand('insertTable', [row + 1, col + 1, {
             borders: borderCheckbox.checked,
             header: headerCheckbox.checked
-          });
+          }]);
           document.body.removeChild(overlay);
         });
 
@@ -202,7 +294,7 @@ export class TablePlugin implements Plugin {
 
     const borderLabel = createElement('label', {
       htmlFor: 'table-border'
-    }, ['Show borders']);
+    }, [this.editor.t('table.showBorders')]);
 
     const headerCheckbox = createElement('input', {
       type: 'checkbox',
@@ -211,7 +303,7 @@ export class TablePlugin implements Plugin {
 
     const headerLabel = createElement('label', {
       htmlFor: 'table-header'
-    }, ['First row as header']);
+    }, [this.editor.t('table.headerRow')]);
 
     styleOptions.appendChild(borderCheckbox);
     styleOptions.appendChild(borderLabel);
@@ -228,7 +320,7 @@ export class TablePlugin implements Plugin {
       min: '1',
       max: String(this.config.maxRows),
       value: String(this.config.defaultRows),
-      placeholder: 'Rows'
+      placeholder: this.editor.t('table.rows')
     }) as HTMLInputElement;
 
     const colInput = createElement('input', {
@@ -236,22 +328,22 @@ export class TablePlugin implements Plugin {
       min: '1',
       max: String(this.config.maxCols),
       value: String(this.config.defaultCols),
-      placeholder: 'Columns'
+      placeholder: this.editor.t('table.columns')
     }) as HTMLInputElement;
 
     const insertBtn = createElement('button', {
       className: 'xeditor-table-insert-btn'
-    }, ['Insert']);
+    }, [this.editor.t('common.insert')]);
 
     insertBtn.addEventListener('click', () => {
       const rows = parseInt(rowInput.value) || this.config.defaultRows!;
       const cols = parseInt(colInput.value) || this.config.defaultCols!;
       
       this.editor.selection.restore();
-      this.insertTable(rows, cols, {
+      this.editor.execCommand('insertTable', [rows, cols, {
         borders: borderCheckbox.checked,
         header: headerCheckbox.checked
-      });
+      }]);
       document.body.removeChild(overlay);
     });
 
@@ -389,6 +481,10 @@ export class TablePlugin implements Plugin {
   }
 
   private handleClick = (e: MouseEvent): void => {
+    if (this.ignoreClick) {
+      this.ignoreClick = false;
+      return;
+    }
     const target = e.target as HTMLElement;
     
     // Find if we clicked on a table element
@@ -417,44 +513,99 @@ export class TablePlugin implements Plugin {
     }
   };
 
+  // Highlighting selected cells is not an edit, so it never becomes an undo step
   private selectCell(cell: HTMLTableCellElement): void {
     this.deselectCell();
     this.selectedCell = cell;
-    addClass(cell, 'xeditor-table-cell-selected');
+    this.editor.history.ignore(() => addClass(cell, 'xeditor-table-cell-selected'));
   }
 
   private deselectCell(): void {
-    if (this.selectedCell) {
-      removeClass(this.selectedCell, 'xeditor-table-cell-selected');
-      this.selectedCell = null;
+    const cellSelection = this.cellSelection;
+    const selectedCell = this.selectedCell;
+    this.cellSelection = null;
+    this.selectedCell = null;
+
+    this.editor.history.ignore(() => {
+      cellSelection?.table.querySelectorAll('.xeditor-table-cell-selected').forEach(cell => {
+        removeClass(cell as HTMLElement, 'xeditor-table-cell-selected');
+      });
+      if (selectedCell) {
+        removeClass(selectedCell, 'xeditor-table-cell-selected');
+      }
+    });
+  }
+
+  // Selects the rectangle of cells between two cells of a table
+  private selectCells(anchor: HTMLTableCellElement, head: HTMLTableCellElement): void {
+    this.deselectCell();
+    const table = this.getTableFromCell(anchor);
+    this.cellSelection = { table, anchor, head };
+    this.selectedTable = table;
+    this.selectedCell = head;
+    this.editor.history.ignore(() => {
+      this.getSelectedCells().forEach(cell => addClass(cell, 'xeditor-table-cell-selected'));
+    });
+
+    // The cells stand in for the text selection, which waits in the last one
+    const selection = window.getSelection();
+    if (selection) {
+      const range = document.createRange();
+      range.selectNodeContents(head);
+      range.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+  }
+
+  // The rectangle selected, unless undo or a content change took its cells away
+  private getCellSelection(): HTMLTableCellElement[] {
+    if (!this.cellSelection) return [];
+
+    const { table, anchor, head } = this.cellSelection;
+    if (!anchor.isConnected || !head.isConnected || anchor.closest('table') !== table || head.closest('table') !== table) {
+      this.cellSelection = null;
+      return [];
     }
+    const grid = buildGrid(table);
+    return cellsInRect(grid, selectionRect(grid, anchor, head));
   }
 
   private showContextMenu(x: number, y: number): void {
     this.removeContextMenu();
     
+    const dir = this.selectedTable ? getDirection(this.selectedTable) : this.editor.getDirection();
     const menu = createElement('div', {
-      className: 'xeditor-table-context-menu'
+      className: 'xeditor-table-context-menu',
+      dir
     });
 
     const menuItems = [
-      { text: 'Add Row Above', action: () => this.addRow('above') },
-      { text: 'Add Row Below', action: () => this.addRow('below') },
-      { text: 'Add Column Left', action: () => this.addColumn('left') },
-      { text: 'Add Column Right', action: () => this.addColumn('right') },
+      { text: this.editor.t('table.addRowAbove'), action: () => this.editor.execCommand('addRowAbove') },
+      { text: this.editor.t('table.addRowBelow'), action: () => this.editor.execCommand('addRowBelow') },
+      { text: this.editor.t('table.addColumnLeft'), action: () => this.editor.execCommand('addColumnLeft') },
+      { text: this.editor.t('table.addColumnRight'), action: () => this.editor.execCommand('addColumnRight') },
+      { type: 'separator' },
+      { text: this.editor.t('table.deleteRow'), action: () => this.editor.execCommand('deleteRow') },
+      { text: this.editor.t('table.deleteColumn'), action: () => this.editor.execCommand('deleteColumn') },
+      { text: this.editor.t('table.deleteTable'), action: () => this.editor.execCommand('deleteTable') },
       { type: 'separator' },
-      { text: 'Delete Row', action: () => this.deleteRow() },
-      { text: 'Delete Column', action: () => this.deleteColumn() },
-      { text: 'Delete Table', action: () => this.deleteTable() },
+      { text: this.editor.t('table.mergeCells'), action: () => this.editor.execCommand('mergeCells') },
+      { text: this.editor.t('table.splitCell'), action: () => this.editor.execCommand('splitCell') },
       { type: 'separator' },
-      { text: 'Merge Cells', action: () => this.mergeCells() },
-      { text: 'Split Cell', action: () => this.splitCell() },
+      { text: this.editor.t('table.alignLeft'), action: () => this.editor.execCommand('alignTable', 'left') },
+      { text: this.editor.t('table.alignCenter'), action: () => this.editor.execCommand('alignTable', 'center') },
+      { text: this.editor.t('table.alignRight'), action: () => this.editor.execCommand('alignTable', 'right') },
       { type: 'separator' },
-      { text: 'Align Left', action: () => this.alignTable('left') },
-      { text: 'Align Center', action: () => this.alignTable('center') },
-      { text: 'Align Right', action: () => this.alignTable('right') },
+      { text: this.editor.t('table.toggleHeaderRow'), action: () => this.editor.execCommand('toggleHeaderRow') },
+      { text: this.editor.t('table.toggleHeaderColumn'), action: () => this.editor.execCommand('toggleHeaderColumn') },
+      { text: this.editor.t('table.toggleFooterRow'), action: () => this.editor.execCommand('toggleFooterRow') },
+      { text: this.editor.t('table.toggleCaption'), action: () => this.editor.execCommand('toggleTableCaption') },
       { type: 'separator' },
-      { text: 'Cell Background', action: () => this.showCellColorPicker() }
+      { text: this.editor.t('table.sortAscending'), action: () => this.editor.execCommand('sortTableColumn', 'asc') },
+      { text: this.editor.t('table.sortDescending'), action: () => this.editor.execCommand('sortTableColumn', 'desc') },
+      { type: 'separator' },
+      { text: this.editor.t('table.cellBackground'), action: () => this.showCellColorPicker() }
     ];
 
     menuItems.forEach(item => {
@@ -476,7 +627,12 @@ export class TablePlugin implements Plugin {
       }
     });
 
-    menu.style.left = `${x}px`;
+    // RTL menus open to the left of the pointer
+    if (dir === 'rtl') {
+      menu.style.right = `${window.innerWidth - x}px`;
+    } else {
+      menu.style.left = `${x}px`;
+    }
     menu.style.top = `${y}px`;
 
     document.body.appendChild(menu);
@@ -527,12 +683,16 @@ export class TablePlugin implements Plugin {
 
     const cellIndex = this.selectedCell.cellIndex;
     const rows = this.selectedTable.rows;
+    // Cells run from right to left in RTL tables
+    const before = (position === 'left') !== (getDirection(this.selectedTable) === 'rtl');
+    const column = cellColumn(buildGrid(this.selectedTable), this.selectedCell);
+    this.spliceColumnWidths(this.selectedTable, before ? column : column + (this.selectedCell.colSpan || 1), 0, 1);
 
     for (let i = 0; i < rows.length; i++) {
       const newCell = createElement('td');
       newCell.innerHTML = '<br>';
       
-      if (position === 'left') {
+      if (before) {
         rows[i].insertBefore(newCell, rows[i].cells[cellIndex]);
       } else {
         rows[i].insertBefore(newCell, rows[i].cells[cellIndex + 1] || null);
@@ -562,6 +722,7 @@ export class TablePlugin implements Plugin {
     
     // Don't delete if it's the last column
     if (rows[0].cells.length > 1) {
+      this.spliceColumnWidths(this.selectedTable, cellColumn(buildGrid(this.selectedTable), this.selectedCell), 1, 0);
       for (let i = 0; i < rows.length; i++) {
         rows[i].deleteCell(cellIndex);
       }
@@ -580,19 +741,16 @@ export class TablePlugin implements Plugin {
 
   private mergeCells(): void {
     const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-
-    const range = selection.getRangeAt(0);
-    const cells = this.getSelectedCells(range);
+    const cells = this.getSelectedCells();
     
     if (cells.length < 2) {
-      alert('Please select at least 2 cells to merge.');
+      alert(this.editor.t('table.mergeTooFew'));
       return;
     }
 
     // Check if cells form a rectangle
     if (!this.isValidCellSelection(cells)) {
-      alert('Selected cells must form a rectangle.');
+      alert(this.editor.t('table.mergeNotRectangle'));
       return;
     }
 
@@ -624,6 +782,7 @@ export class TablePlugin implements Plugin {
     keepCell.style.verticalAlign = 'top';
 
     // Remove other cells
+    this.deselectCell();
     cells.forEach(cell => {
       if (cell !== keepCell) {
         cell.remove();
@@ -631,17 +790,20 @@ export class TablePlugin implements Plugin {
     });
 
     // Select the merged cell
-    const newRange = document.createRange();
-    newRange.selectNodeContents(keepCell);
-    selection.removeAllRanges();
-    selection.addRange(newRange);
+    this.selectCell(keepCell);
+    if (selection) {
+      const newRange = document.createRange();
+      newRange.selectNodeContents(keepCell);
+      selection.removeAllRanges();
+      selection.addRange(newRange);
+    }
 
     this.editor.history.record();
   }
 
   private splitCell(): void {
     if (!this.selectedCell) {
-      alert('Please select a cell to split.');
+      alert(this.editor.t('table.splitNoCell'));
       return;
     }
 
@@ -649,7 +811,7 @@ export class TablePlugin implements Plugin {
     const colspan = this.selectedCell.colSpan || 1;
 
     if (rowspan === 1 && colspan === 1) {
-      alert('This cell is not merged and cannot be split.');
+      alert(this.editor.t('table.splitNotMerged'));
       return;
     }
 
@@ -691,8 +853,15 @@ export class TablePlugin implements Plugin {
     this.editor.history.record();
   }
 
-  private getSelectedCells(range: Range): HTMLTableCellElement[] {
+  // The selected rectangle of cells, or else the cells the text selection touches
+  private getSelectedCells(): HTMLTableCellElement[] {
     const cells: HTMLTableCellElement[] = [];
+    const selected = this.getCellSelection();
+    if (selected.length > 0) return selected;
+
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return cells;
+    const range = selection.getRangeAt(0);
     const container = range.commonAncestorContainer;
     
     const table = (container.nodeType === Node.TEXT_NODE ? 
@@ -790,17 +959,620 @@ export class TablePlugin implements Plugin {
   }
 
   private setCellBackground(color: string): void {
-    if (!this.selectedCell) return;
+    const selected = this.getCellSelection();
+    const cells = selected.length > 0 ? selected : this.selectedCell ? [this.selectedCell] : [];
+    if (cells.length === 0) return;
     
-    this.selectedCell.style.backgroundColor = color;
+    cells.forEach(cell => {
+      cell.style.backgroundColor = color;
+    });
+    this.editor.history.record();
+  }
+
+  private toggleHeaderRow(): void {
+    const table = this.selectedTable;
+    if (!table) return;
+
+    const thead = table.tHead;
+    if (thead) {
+      const body = table.tBodies[0] || table.createTBody();
+      const headerColumn = this.hasHeaderColumn(table);
+      Array.from(thead.rows).reverse().forEach(row => {
+        Array.from(row.cells).forEach((cell, index) => {
+          if (index === 0 && headerColumn) {
+            cell.setAttribute('scope', 'row');
+          } else {
+            this.changeCellType(cell, 'td');
+          }
+        });
+        body.insertBefore(row, body.firstChild);
+      });
+      thead.remove();
+    } else {
+      const row = table.tBodies[0]?.rows[0];
+      if (!row) return;
+      const head = table.createTHead();
+      Array.from(row.cells).forEach(cell => {
+        this.changeCellType(cell, 'th').setAttribute('scope', 'col');
+      });
+      head.appendChild(row);
+    }
+
+    this.editor.history.record();
+  }
+
+  // Whether the first cell of every body row is a header
+  private hasHeaderColumn(table: HTMLTableElement): boolean {
+    const rows = Array.from(table.tBodies).flatMap(body => Array.from(body.rows));
+    const grid = buildGrid(table);
+    return rows.length > 0 && rows.every(row => grid[row.rowIndex][0]?.tagName === 'TH');
+  }
+
+  private toggleHeaderColumn(): void {
+    const table = this.selectedTable;
+    if (!table) return;
+
+    const header = !this.hasHeaderColumn(table);
+    const grid = buildGrid(table);
+    Array.from(table.tBodies).forEach(body => {
+      Array.from(body.rows).forEach(row => {
+        const cell = grid[row.rowIndex][0];
+        // Covered by a cell from a row above
+        if (!cell || cell.parentElement !== row) return;
+        if (header) {
+          this.changeCellType(cell, 'th').setAttribute('scope', 'row');
+        } else {
+          this.changeCellType(cell, 'td');
+        }
+      });
+    });
+
+    this.editor.history.record();
+  }
+
+  private toggleFooterRow(): void {
+    const table = this.selectedTable;
+    if (!table) return;
+
+    const tfoot = table.tFoot;
+    if (tfoot) {
+      const body = table.tBodies[table.tBodies.length - 1] || table.createTBody();
+      Array.from(tfoot.rows).forEach(row => body.appendChild(row));
+      tfoot.remove();
+    } else {
+      const body = table.tBodies[table.tBodies.length - 1];
+      const foot = table.createTFoot();
+      // The last row becomes the footer, unless it is the only one
+      if (body && body.rows.length > 1) {
+        foot.appendChild(body.rows[body.rows.length - 1]);
+      } else {
+        const row = createElement('tr') as HTMLTableRowElement;
+        for (let i = 0; i < columnCount(buildGrid(table)); i++) {
+          const cell = createElement('td');
+          cell.innerHTML = '<br>';
+          row.appendChild(cell);
+        }
+        foot.appendChild(row);
+      }
+    }
+
+    this.editor.history.record();
+  }
+
+  private toggleCaption(): void {
+    const table = this.selectedTable;
+    if (!table) return;
+
+    if (table.caption) {
+      table.deleteCaption();
+    } else {
+      const caption = table.createCaption();
+      caption.innerHTML = '<br>';
+
+      const selection = window.getSelection();
+      if (selection) {
+        const range = document.createRange();
+        range.setStart(caption, 0);
+        range.collapse(true);
+        selection.removeAllRanges();
+        selection.addRange(range);
+      }
+    }
+
+    this.editor.history.record();
+  }
+
+  /**
+   * Sorts the body rows by the column of the selected cell. Rows joined by
+   * a cell spanning down move as one, ordered by their first row.
+   */
+  private sortColumn(direction: 'asc' | 'desc'): void {
+    if (!this.selectedCell || !this.selectedTable) return;
+
+    const table = this.selectedTable;
+    const section = this.selectedCell.parentElement?.parentElement;
+    const body = section?.tagName === 'TBODY' ? section as HTMLTableSectionElement : table.tBodies[0];
+    if (!body) return;
+
+    const grid = buildGrid(table);
+    const column = cellColumn(grid, this.selectedCell);
+    const groups: HTMLTableRowElement[][] = [];
+    let end = -1;
+    Array.from(body.rows).forEach((row, index) => {
+      if (index > end) {
+        groups.push([]);
+      }
+      groups[groups.length - 1].push(row);
+      Array.from(row.cells).forEach(cell => {
+        end = Math.max(end, index + (cell.rowSpan || 1) - 1);
+      });
+    });
+    if (groups.length < 2) return;
+
+    const values = groups.map(group => (grid[group[0].rowIndex][column]?.textContent || '').trim());
+    sortOrder(values, direction, this.editor.i18n.getLocale()).forEach(index => {
+      groups[index].forEach(row => body.appendChild(row));
+    });
+
     this.editor.history.record();
   }
 
+  // Replaces a cell with a <td> or <th> holding the same content and attributes
+  private changeCellType(cell: HTMLTableCellElement, tag: 'td' | 'th'): HTMLTableCellElement {
+    if (cell.tagName.toLowerCase() === tag) return cell;
+
+    const replacement = document.createElement(tag);
+    Array.from(cell.attributes).forEach(attr => {
+      if (attr.name !== 'scope') {
+        replacement.setAttribute(attr.name, attr.value);
+      }
+    });
+    while (cell.firstChild) {
+      replacement.appendChild(cell.firstChild);
+    }
+    cell.replaceWith(replacement);
+
+    if (this.selectedCell === cell) {
+      this.selectedCell = replacement;
+    }
+    return replacement;
+  }
+
+  private handleMouseMove = (e: MouseEvent): void => {
+    if (this.resizing) return;
+    if (this.dragAnchor) {
+      this.extendCellDrag(e);
+      return;
+    }
+
+    this.resizeTarget = this.findColumnBorder(e);
+    const cursor = this.resizeTarget ? 'col-resize' : '';
+    if (this.editor.contentElement.style.cursor !== cursor) {
+      this.editor.contentElement.style.cursor = cursor;
+    }
+    if (this.resizeTarget) {
+      this.showResizeHandle(e.clientX);
+    } else {
+      this.hideResizeHandle();
+    }
+  };
+
+  private handleMouseLeave = (): void => {
+    if (this.resizing) return;
+    this.resizeTarget = null;
+    this.editor.contentElement.style.cursor = '';
+    this.hideResizeHandle();
+  };
+
+  private handleMouseDown = (e: MouseEvent): void => {
+    if (e.button !== 0) return;
+    if (!this.resizeTarget) {
+      this.startCellDrag(e);
+      return;
+    }
+
+    // Dragging the border must not start a text selection
+    e.preventDefault();
+    this.resizing = {
+      startX: e.clientX,
+      widths: this.measureColumns(this.resizeTarget.table)
+    };
+    document.addEventListener('mousemove', this.handleResizeMove);
+    document.addEventListener('mouseup', this.handleResizeEnd);
+  };
+
+  private handleResizeMove = (e: MouseEvent): void => {
+    if (!this.resizing || !this.resizeTarget) return;
+
+    const { table, column } = this.resizeTarget;
+    const delta = (e.clientX - this.resizing.startX) * (getDirection(table) === 'rtl' ? -1 : 1);
+    const widths = [...this.resizing.widths];
+    widths[column] = Math.max(this.config.cellMinWidth!, Math.round(widths[column] + delta));
+    this.setColumnWidths(table, widths);
+    this.showResizeHandle(e.clientX);
+  };
+
+  private handleResizeEnd = (): void => {
+    const resized = !!this.resizing;
+    this.stopResize();
+    this.hideResizeHandle();
+    if (resized) {
+      this.editor.history.record();
+    }
+  };
+
+  private stopResize(): void {
+    this.resizing = null;
+    document.removeEventListener('mousemove', this.handleResizeMove);
+    document.removeEventListener('mouseup', this.handleResizeEnd);
+  }
+
+  private startCellDrag(e: MouseEvent): void {
+    // A drag ending outside the content left no click behind
+    this.ignoreClick = false;
+    const cell = this.findCell(e.target);
+    if (!cell) return;
+
+    // Shift-click selects from the cell selected before
+    const anchor = this.cellSelection?.anchor || this.selectedCell;
+    if (e.shiftKey && anchor && anchor !== cell && anchor.isConnected && anchor.closest('table') === cell.closest('table')) {
+      e.preventDefault();
+      this.selectCells(anchor, cell);
+      this.ignoreClick = true;
+      return;
+    }
+
+    this.dragAnchor = cell;
+    document.addEventListener('mouseup', this.handleCellDragEnd);
+  }
+
+  private extendCellDrag(e: MouseEvent): void {
+    const cell = this.findCell(e.target);
+    const anchor = this.dragAnchor!;
+    if (!cell || cell.closest('table') !== anchor.closest('table')) return;
+
+    if (cell !== anchor) {
+      if (this.cellSelection?.head !== cell) {
+        this.selectCells(anchor, cell);
+      }
+      this.ignoreClick = true;
+    } else if (this.cellSelection) {
+      // Back in the first cell: select text in it again
+      this.selectCell(anchor);
+      this.ignoreClick = false;
+    }
+  }
+
+  private handleCellDragEnd = (): void => {
+    this.stopCellDrag();
+  };
+
+  private stopCellDrag(): void {
+    this.dragAnchor = null;
+    document.removeEventListener('mouseup', this.handleCellDragEnd);
+  }
+
+  private findCell(target: EventTarget | null): HTMLTableCellElement | null {
+    const cell = (target as HTMLElement | null)?.closest?.('td, th') as HTMLTableCellElement | null;
+    const table = cell?.closest('table');
+    if (!cell || !table || !table.classList.contains('xeditor-table') || !this.editor.contentElement.contains(table)) {
+      return null;
+    }
+    return cell;
+  }
+
+  // Typing replaces nothing but the text of one cell, so it ends a cell selection
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    const cells = this.getCellSelection();
+    if (cells.length === 0) return;
+
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      cells.forEach(cell => {
+        cell.innerHTML = '<br>';
+      });
+      this.editor.history.record();
+    } else if (e.key === 'Escape') {
+      this.selectCell(this.cellSelection!.head);
+    } else if (!e.ctrlKey && !e.metaKey && !e.altKey && !['Shift', 'Control', 'Meta', 'Alt'].includes(e.key)) {
+      this.selectCell(this.cellSelection!.head);
+    }
+  };
+
+  private handleCopy = (e: ClipboardEvent): void => {
+    const cells = this.getCellSelection();
+    if (cells.length < 2 || !e.clipboardData) return;
+
+    const { table, anchor, head } = this.cellSelection!;
+    const grid = buildGrid(table);
+    const { html, text } = copyCells(grid, selectionRect(grid, anchor, head));
+    e.preventDefault();
+    e.clipboardData.setData('text/html', html);
+    e.clipboardData.setData('text/plain', text);
+
+    if (e.type === 'cut') {
+      this.editor.history.transact('cut', () => {
+        cells.forEach(cell => {
+          cell.innerHTML = '<br>';
+        });
+      });
+    }
+  };
+
+  /**
+   * Pastes copied cells, or rows and columns from a spreadsheet, into the
+   * table at the caret: cell by cell from the selected cell on, adding the
+   * rows and columns they need.
+   */
+  private handlePaste = (e: ClipboardEvent): void => {
+    if (e.defaultPrevented || !e.clipboardData) return;
+
+    const selected = this.getCellSelection();
+    const selection = window.getSelection();
+    const start = selected[0] || (selection && selection.rangeCount > 0 ? this.findCell(
+      selection.anchorNode?.nodeType === Node.TEXT_NODE ? selection.anchorNode.parentElement : selection.anchorNode
+    ) : null);
+    if (!start) return;
+
+    const values = this.readClipboard(e.clipboardData);
+    if (!values) return;
+
+    e.preventDefault();
+    this.editor.history.transact('paste', () => {
+      this.pasteCells(start, values, selected);
+    });
+  };
+
+  // Clipboard contents as rows of cell HTML, or null when they are no table
+  private readClipboard(data: DataTransfer): string[][] | null {
+    const html = data.getData('text/html');
+    const text = data.getData('text/plain');
+
+    if (/<table[\s>]/i.test(html)) {
+      const container = document.createElement('div');
+      container.innerHTML = this.editor.paste.process({ html, text });
+      const table = container.querySelector('table');
+      if (table) {
+        const values = readTable(table);
+        if (values.length > 0) return values;
+      }
+    }
+
+    if (!text.includes('\t')) return null;
+    return parseTSV(text).map(row => row.map(textToCellHTML));
+  }
+
+  private pasteCells(start: HTMLTableCellElement, values: string[][], selected: HTMLTableCellElement[]): void {
+    const table = this.getTableFromCell(start);
+    const grid = buildGrid(table);
+    const origin = cellRect(grid, start);
+    let rows = values;
+
+    // A single value fills every selected cell
+    if (values.length === 1 && values[0].length === 1 && selected.length > 1) {
+      const rect = selectionRect(grid, this.cellSelection!.anchor, this.cellSelection!.head);
+      rows = Array.from({ length: rect.bottom - rect.top + 1 }, () =>
+        Array.from({ length: rect.right - rect.left + 1 }, () => values[0][0]));
+    }
+    const width = Math.max(...rows.map(row => row.length));
+
+    // Columns are added at the end of every row, rows at the end of the section pasted into
+    const missingColumns = origin.left + width - columnCount(grid);
+    if (missingColumns > 0) {
+      Array.from(table.rows).forEach(row => {
+        for (let i = 0; i < missingColumns; i++) {
+          row.appendChild(this.createCellFor(row));
+        }
+      });
+      this.spliceColumnWidths(table, columnCount(grid), 0, missingColumns);
+    }
+
+    const section = start.parentElement!.parentElement as HTMLTableSectionElement;
+    const sectionStart = (section.rows[0] as HTMLTableRowElement).rowIndex;
+    const missingRows = origin.top - sectionStart + rows.length - section.rows.length;
+    const count = columnCount(buildGrid(table));
+    for (let i = 0; i < missingRows; i++) {
+      const row = createElement('tr') as HTMLTableRowElement;
+      section.appendChild(row);
+      for (let c = 0; c < count; c++) {
+        row.appendChild(this.createCellFor(row));
+      }
+    }
+
+    const filled = buildGrid(table);
+    rows.forEach((row, r) => {
+      row.forEach((value, c) => {
+        const cell = filled[origin.top + r]?.[origin.left + c];
+        if (!cell) return;
+        // Slots a merged cell covers take no value of their own
+        const covered = cellRect(filled, cell);
+        if (covered.top !== origin.top + r || covered.left !== origin.left + c) return;
+        cell.innerHTML = value || '<br>';
+      });
+    });
+
+    const last = filled[origin.top + rows.length - 1]?.[origin.left + width - 1];
+    if (last && last !== start) {
+      this.selectCells(start, last);
+    }
+  }
+
+  // New cells are headers in the header row and in a header column
+  private createCellFor(row: HTMLTableRowElement): HTMLTableCellElement {
+    const header = row.parentElement?.tagName === 'THEAD';
+    const cell = createElement(header ? 'th' : 'td') as HTMLTableCellElement;
+    if (header) cell.setAttribute('scope', 'col');
+    cell.innerHTML = '<br>';
+    return cell;
+  }
+
+  /**
+   * Applies formatting run with several cells selected to each of them:
+   * the command runs on the first cell, then once per other cell.
+   */
+  private handleCommandBefore = (command: unknown): void => {
+    this.commandCells = null;
+    if (!CELL_COMMANDS.includes(command as string)) return;
+    const cells = this.getCellSelection();
+    if (cells.length < 2) return;
+
+    const { anchor, head } = this.cellSelection!;
+    this.commandCells = {
+      cells: cells.map(cell => this.getCellPosition(cell)),
+      anchor: this.getCellPosition(anchor),
+      head: this.getCellPosition(head)
+    };
+    this.selectCellContents(cells[0]);
+  };
+
+  private handleCommandAfter = (command: unknown, value: unknown): void => {
+    const commandCells = this.commandCells;
+    this.commandCells = null;
+    if (!commandCells || !CELL_COMMANDS.includes(command as string)) return;
+
+    const name = command as string;
+    const toggle = TOGGLE_COMMANDS.includes(name);
+    const [first, ...rest] = commandCells.cells;
+    const firstCell = this.getCellAt(first);
+    if (!firstCell) return;
+    this.selectCellContents(firstCell);
+    // Toggles turn every cell on or off the way they turned the first one
+    const state = toggle && this.editor.commands.queryState(name);
+
+    rest.forEach(position => {
+      const cell = this.getCellAt(position);
+      if (!cell) return;
+      this.selectCellContents(cell);
+      if (toggle && this.editor.commands.queryState(name) === state) return;
+      this.editor.commands.execute(name, value);
+    });
+
+    const anchor = this.getCellAt(commandCells.anchor);
+    const head = this.getCellAt(commandCells.head);
+    if (anchor && head) {
+      this.selectCells(anchor, head);
+    }
+  };
+
+  private getCellPosition(cell: HTMLTableCellElement): CellPosition {
+    const table = this.getTableFromCell(cell);
+    const tables = Array.from(this.editor.contentElement.querySelectorAll('table'));
+    return [tables.indexOf(table), this.getOwnCells(table).indexOf(cell)];
+  }
+
+  private getCellAt([tableIndex, cellIndex]: CellPosition): HTMLTableCellElement | null {
+    const table = this.editor.contentElement.querySelectorAll('table')[tableIndex];
+    return table ? this.getOwnCells(table)[cellIndex] || null : null;
+  }
+
+  // Cells of the table itself, without those of tables nested in it
+  private getOwnCells(table: HTMLTableElement): HTMLTableCellElement[] {
+    return Array.from(table.querySelectorAll<HTMLTableCellElement>('td, th'))
+      .filter(cell => cell.closest('table') === table);
+  }
+
+  private selectCellContents(cell: HTMLTableCellElement, collapse = false): void {
+    const selection = window.getSelection();
+    if (!selection) return;
+
+    const range = document.createRange();
+    range.selectNodeContents(cell);
+    if (collapse) range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  // The column whose end border is within reach of the pointer
+  private findColumnBorder(e: MouseEvent): { table: HTMLTableElement; column: number } | null {
+    const cell = (e.target as HTMLElement).closest?.('td, th') as HTMLTableCellElement | null;
+    const table = cell?.closest('table');
+    if (!cell || !table || !table.classList.contains('xeditor-table')) return null;
+
+    const rect = cell.getBoundingClientRect();
+    const rtl = getDirection(table) === 'rtl';
+    const end = rtl ? rect.left : rect.right;
+    const start = rtl ? rect.right : rect.left;
+    const column = cellColumn(buildGrid(table), cell);
+
+    if (Math.abs(e.clientX - end) <= RESIZE_MARGIN) {
+      return { table, column: column + (cell.colSpan || 1) - 1 };
+    }
+    if (column > 0 && Math.abs(e.clientX - start) <= RESIZE_MARGIN) {
+      return { table, column: column - 1 };
+    }
+    return null;
+  }
+
+  // Current rendered width of every column
+  private measureColumns(table: HTMLTableElement): number[] {
+    const grid = buildGrid(table);
+    const count = columnCount(grid);
+    const fallback = table.getBoundingClientRect().width / Math.max(count, 1);
+
+    return Array.from({ length: count }, (_, column) => {
+      // Cells spanning several columns say nothing about one of them
+      const cell = grid.map(row => row[column]).find(candidate => candidate && (candidate.colSpan || 1) === 1);
+      const width = cell ? cell.getBoundingClientRect().width : fallback;
+      return Math.max(this.config.cellMinWidth!, Math.round(width || fallback));
+    });
+  }
+
+  // Keeps the widths of a resized table in step with columns added or removed
+  private spliceColumnWidths(table: HTMLTableElement, index: number, removed: number, added: number): void {
+    const colgroup = Array.from(table.children).find(child => child.tagName === 'COLGROUP');
+    if (!colgroup) return;
+
+    const widths = Array.from(colgroup.children).map(col =>
+      parseInt((col as HTMLElement).style.width, 10) || this.config.cellMinWidth!);
+    widths.splice(index, removed, ...Array(added).fill(this.config.cellMinWidth!));
+    this.setColumnWidths(table, widths);
+  }
+
+  // Column widths go in a <colgroup>, which the document model keeps
+  private setColumnWidths(table: HTMLTableElement, widths: number[]): void {
+    let colgroup = Array.from(table.children).find(child => child.tagName === 'COLGROUP');
+    if (!colgroup) {
+      colgroup = document.createElement('colgroup');
+      table.insertBefore(colgroup, table.caption ? table.caption.nextSibling : table.firstChild);
+    }
+    while (colgroup.children.length > widths.length) {
+      colgroup.lastElementChild!.remove();
+    }
+    while (colgroup.children.length < widths.length) {
+      colgroup.appendChild(document.createElement('col'));
+    }
+
+    widths.forEach((width, index) => {
+      (colgroup!.children[index] as HTMLElement).style.width = `${width}px`;
+    });
+    table.style.width = `${widths.reduce((sum, width) => sum + width, 0)}px`;
+  }
+
+  private showResizeHandle(x: number): void {
+    if (!this.resizeTarget) return;
+
+    if (!this.resizeHandle) {
+      this.resizeHandle = createElement('div', { className: 'xeditor-table-resize-handle' });
+      document.body.appendChild(this.resizeHandle);
+    }
+    const rect = this.resizeTarget.table.getBoundingClientRect();
+    this.resizeHandle.style.left = `${x - 1}px`;
+    this.resizeHandle.style.top = `${rect.top}px`;
+    this.resizeHandle.style.height = `${rect.height}px`;
+    this.resizeHandle.style.display = 'block';
+  }
+
+  private hideResizeHandle(): void {
+    if (this.resizeHandle) {
+      this.resizeHandle.style.display = 'none';
+    }
+  }
+
   private showCellColorPicker(): void {
     if (!this.selectedCell) return;
     
     const colorPicker = this.createColorPicker((color: string) => {
-      this.setCellBackground(color);
+      this.editor.execCommand('setCellBackground', color);
     });
     
     // Position near the cell
@@ -875,6 +1647,27 @@ export class TablePlugin implements Plugin {
         text-align: left;
       }
       
+      .xeditor-table tfoot td {
+        border-top-width: 2px;
+        font-weight: bold;
+      }
+      
+      .xeditor-table caption {
+        caption-side: top;
+        padding: 6px 0;
+        font-style: italic;
+        color: #666;
+      }
+      
+      .xeditor-table-resize-handle {
+        position: fixed;
+        display: none;
+        width: 2px;
+        background-color: var(--xeditor-primary);
+        pointer-events: none;
+        z-index: 1000;
+      }
+      
       .xeditor-table-no-border,
       .xeditor-table-no-border td,
       .xeditor-table-no-border th {
@@ -925,6 +1718,11 @@ export class TablePlugin implements Plugin {
         color: #666;
       }
       
+      [dir="rtl"] .xeditor-table-dialog-close {
+        right: auto;
+        left: 10px;
+      }
+      
       .xeditor-table-grid-container {
         margin-bottom: 20px;
       }
@@ -0,0 +1,124 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'table.insertTitle': 'Insert Table',
+    'table.showBorders': 'Show borders',
+    'table.headerRow': 'First row as header',
+    'table.rows': 'Rows',
+    'table.columns': 'Columns',
+    'table.addRowAbove': 'Add Row Above',
+    'table.addRowBelow': 'Add Row Below',
+    'table.addColumnLeft': 'Add Column Left',
+    'table.addColumnRight': 'Add Column Right',
+    'table.deleteRow': 'Delete Row',
+    'table.deleteColumn': 'Delete Column',
+    'table.deleteTable': 'Delete Table',
+    'table.mergeCells': 'Merge Cells',
+    'table.splitCell': 'Split Cell',
+    'table.alignLeft': 'Align Left',
+    'table.alignCenter': 'Align Center',
+    'table.alignRight': 'Align Right',
+    'table.cellBackground': 'Cell Background',
+    'table.toggleHeaderRow': 'Header Row',
+    'table.toggleHeaderColumn': 'Header Column',
+    'table.toggleFooterRow': 'Footer Row',
+    'table.toggleCaption': 'Caption',
+    'table.sortAscending': 'Sort Ascending',
+    'table.sortDescending': 'Sort Descending',
+    'table.mergeTooFew': 'Please select at least 2 cells to merge.',
+    'table.mergeNotRectangle': 'Selected cells must form a rectangle.',
+    'table.splitNoCell': 'Please select a cell to split.',
+    'table.splitNotMerged': 'This cell is not merged and cannot be split.'
+  },
+  de: {
+    'table.insertTitle': 'Tabelle einfügen',
+    'table.showBorders': 'Rahmen anzeigen',
+    'table.headerRow': 'Erste Zeile als Kopfzeile',
+    'table.rows': 'Zeilen',
+    'table.columns': 'Spalten',
+    'table.addRowAbove': 'Zeile oberhalb einfügen',
+    'table.addRowBelow': 'Zeile unterhalb einfügen',
+    'table.addColumnLeft': 'Spalte links einfügen',
+    'table.addColumnRight': 'Spalte rechts einfügen',
+    'table.deleteRow': 'Zeile löschen',
+    'table.deleteColumn': 'Spalte löschen',
+    'table.deleteTable': 'Tabelle löschen',
+    'table.mergeCells': 'Zellen verbinden',
+    'table.splitCell': 'Zelle teilen',
+    'table.alignLeft': 'Linksbündig',
+    'table.alignCenter': 'Zentriert',
+    'table.alignRight': 'Rechtsbündig',
+    'table.cellBackground': 'Zellenhintergrund',
+    'table.toggleHeaderRow': 'Kopfzeile',
+    'table.toggleHeaderColumn': 'Kopfspalte',
+    'table.toggleFooterRow': 'Fußzeile',
+    'table.toggleCaption': 'Beschriftung',
+    'table.sortAscending': 'Aufsteigend sortieren',
+    'table.sortDescending': 'Absteigend sortieren',
+    'table.mergeTooFew': 'Bitte wählen Sie mindestens 2 Zellen zum Verbinden aus.',
+    'table.mergeNotRectangle': 'Die ausgewählten Zellen müssen ein Rechteck bilden.',
+    'table.splitNoCell': 'Bitte wählen Sie eine Zelle zum Teilen aus.',
+    'table.splitNotMerged': 'Diese Zelle ist nicht verbunden und kann nicht geteilt werden.'
+  },
+  ja: {
+    'table.insertTitle': '表を挿入',
+    'table.showBorders': '罫線を表示',
+    'table.headerRow': '1行目を見出しにする',
+    'table.rows': '行',
+    'table.columns': '列',
+    'table.addRowAbove': '上に行を挿入',
+    'table.addRowBelow': '下に行を挿入',
+    'table.addColumnLeft': '左に列を挿入',
+    'table.addColumnRight': '右に列を挿入',
+    'table.deleteRow': '行を削除',
+    'table.deleteColumn': '列を削除',
+    'table.deleteTable': '表を削除',
+    'table.mergeCells': 'セルを結合',
+    'table.splitCell': 'セルを分割',
+    'table.alignLeft': '左揃え',
+    'table.alignCenter': '中央揃え',
+    'table.alignRight': '右揃え',
+    'table.cellBackground': 'セルの背景色',
+    'table.toggleHeaderRow': '見出し行',
+    'table.toggleHeaderColumn': '見出し列',
+    'table.toggleFooterRow': 'フッター行',
+    'table.toggleCaption': 'キャプション',
+    'table.sortAscending': '昇順で並べ替え',
+    'table.sortDescending': '降順で並べ替え',
+    'table.mergeTooFew': '結合するセルを2つ以上選択してください。',
+    'table.mergeNotRectangle': '選択したセルは長方形になっている必要があります。',
+    'table.splitNoCell': '分割するセルを選択してください。',
+    'table.splitNotMerged': 'このセルは結合されていないため分割できません。'
+  },
+  ar: {
+    'table.insertTitle': 'إدراج جدول',
+    'table.showBorders': 'إظهار الحدود',
+    'table.headerRow': 'الصف الأول كعنوان',
+    'table.rows': 'الصفوف',
+    'table.columns': 'الأعمدة',
+    'table.addRowAbove': 'إضافة صف أعلاه',
+    'table.addRowBelow': 'إضافة صف أدناه',
+    'table.addColumnLeft': 'إضافة عمود إلى اليسار',
+    'table.addColumnRight': 'إضافة عمود إلى اليمين',
+    'table.deleteRow': 'حذف الصف',
+    'table.deleteColumn': 'حذف العمود',
+    'table.deleteTable': 'حذف الجدول',
+    'table.mergeCells': 'دمج الخلايا',
+    'table.splitCell': 'تقسيم الخلية',
+    'table.alignLeft': 'محاذاة لليسار',
+    'table.alignCenter': 'توسيط',
+    'table.alignRight': 'محاذاة لليمين',
+    'table.cellBackground': 'خلفية الخلية',
+    'table.toggleHeaderRow': 'صف العناوين',
+    'table.toggleHeaderColumn': 'عمود العناوين',
+    'table.toggleFooterRow': 'صف التذييل',
+    'table.toggleCaption': 'التسمية التوضيحية',
+    'table.sortAscending': 'فرز تصاعدي',
+    'table.sortDescending': 'فرز تنازلي',
+    'table.mergeTooFew': 'يرجى تحديد خليتين على الأقل لدمجهما.',
+    'table.mergeNotRectangle': 'يجب أن تشكل الخلايا المحددة مستطيلًا.',
+    'table.splitNoCell': 'يرجى تحديد خلية لتقسيمها.',
+    'table.splitNotMerged': 'هذه الخلية غير مدموجة ولا يمكن تقسيمها.'
+  }
+};
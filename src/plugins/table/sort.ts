@@ -0,0 +1,94 @@
+type ColumnType = 'number' | 'date' | 'text';
+
+const MONTH_NAME = /\p{L}{3,}\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\.?\s+\p{L}{3,}\.?\s+\d{4}/u;
+const NUMERIC_DATE = /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/;
+
+// Group and decimal separators numbers are written with in a locale
+function separators(locale: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find(part => part.type === 'group')?.value || ',',
+    decimal: parts.find(part => part.type === 'decimal')?.value || '.'
+  };
+}
+
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A number written in the locale, allowing a currency sign or unit before
+ * or after it ("$1,200", "45 %", "3,5 kg").
+ */
+export function parseNumber(text: string, locale: string): number | null {
+  const { group, decimal } = separators(locale);
+  const match = text.trim().match(/^[^\d+\-.,]*([+-]?[\d\s.,'\u00a0\u202f]*\d)\D*$/);
+  if (!match) return null;
+
+  let number = match[1].replace(/[\s'\u00a0\u202f]/g, '');
+  // Group separators only between thousands, so "1.3.2024" is not a number
+  if (number.includes(group) && !new RegExp(`^[+-]?\\d{1,3}(${escape(group)}\\d{3})+(${escape(decimal)}\\d+)?$`).test(number)) {
+    return null;
+  }
+  number = number.split(group).join('').split(decimal).join('.');
+  if (!/^[+-]?\d*\.?\d+$/.test(number)) return null;
+  return parseFloat(number);
+}
+
+// Milliseconds since the epoch of a date such as "2024-03-01", "1.3.2024" or "March 1, 2024"
+export function parseDate(text: string): number | null {
+  const value = text.trim();
+
+  const iso = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) {
+    return Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+  // Day first, as most of Europe writes it
+  const dotted = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/);
+  if (dotted) {
+    const year = Number(dotted[3]) < 100 ? 2000 + Number(dotted[3]) : Number(dotted[3]);
+    return Date.UTC(year, Number(dotted[2]) - 1, Number(dotted[1]));
+  }
+
+  // Date.parse accepts almost anything, so only look at text shaped like a date
+  if (!NUMERIC_DATE.test(value) && !MONTH_NAME.test(value)) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+function detectType(values: string[], locale: string): ColumnType {
+  const filled = values.filter(value => value);
+  if (filled.length === 0) return 'text';
+  if (filled.every(value => parseNumber(value, locale) !== null)) return 'number';
+  if (filled.every(value => parseDate(value) !== null)) return 'date';
+  return 'text';
+}
+
+/**
+ * Order in which to put `values`, as indexes into it. The column is sorted
+ * as numbers or dates when every value reads as one, otherwise as text.
+ * Empty values go last either way, and equal values keep their order.
+ */
+export function sortOrder(values: string[], direction: 'asc' | 'desc', locale: string): number[] {
+  const type = detectType(values, locale);
+  const collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base' });
+  const keys = values.map(value => {
+    if (!value) return null;
+    if (type === 'number') return parseNumber(value, locale);
+    if (type === 'date') return parseDate(value);
+    return value;
+  });
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return values.map((_, index) => index).sort((a, b) => {
+    const x = keys[a];
+    const y = keys[b];
+    if (x === null || y === null) {
+      return x === y ? a - b : x === null ? 1 : -1;
+    }
+    const order = typeof x === 'number' && typeof y === 'number'
+      ? x - y
+      : collator.compare(String(x), String(y));
+    return order * sign || a - b;
+  });
+}
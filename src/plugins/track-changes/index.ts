@@ -1,5 +1,237 @@
-import { Plugin, Editor, Change, TrackChangesConfig } from '../../types';
-import { createElement } from '../../utils/dom';
+import {
+  Plugin,
+  Editor,
+  Change,
+  ChangeFormat,
+  ChangesSummary,
+  ChangeCounts,
+  TrackChangesConfig,
+  TrackChangesMode,
+  DocNode,
+  DocMark
+} from '../../types';
+import { createElement, scrollIntoView } from '../../utils/dom';
+import { AUTHOR_COLORS } from '../../utils/author-colors';
+import { getTextOffset, getTextPosition, splitTextRange } from '../../utils/text-anchor';
+import { markSpecs, nodeSpecs, parseHTML, parseMarks, serializeHTML } from '../../core/model';
+import { messages } from './messages';
+
+const FORMAT_CLASS = 'xeditor-format-change';
+// Marks that record changes or notes rather than formatting
+const NON_FORMAT_MARKS = ['insertion', 'deletion', 'annotation'];
+// data-* keys a format change adds to the blocks it covers
+const BLOCK_CHANGE_KEYS = ['change-id', 'change-type', 'author', 'timestamp', 'before'];
+
+// Formatting of one text node and the blocks around it
+interface TextRun {
+  start: number;
+  end: number;
+  block: string;
+  format: ChangeFormat;
+  key: string;
+}
+
+interface Snapshot {
+  text: string;
+  runs: TextRun[];
+  // Top-level nodes of the content, serialized
+  nodes: string[];
+}
+
+interface FormatSegment {
+  start: number;
+  end: number;
+  before: ChangeFormat;
+  after: ChangeFormat;
+}
+
+function formatKey(format: ChangeFormat): string {
+  return JSON.stringify(Object.keys(format).sort().map(name => [name, format[name]]));
+}
+
+function parseFormat(value: string | null): ChangeFormat {
+  try {
+    return value ? JSON.parse(value) : {};
+  } catch {
+    return {};
+  }
+}
+
+// A mark as a format entry: true, or the value of its main attribute
+function markValue(mark: DocMark): string | boolean {
+  const name = markSpecs[mark.type]?.attrs[0];
+  const value = name ? mark.attrs?.[name] : undefined;
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : true;
+}
+
+function formatMark(type: string, value: string | boolean): DocMark {
+  const name = markSpecs[type]?.attrs[0];
+  return value === true || !name ? { type } : { type, attrs: { [name]: value } };
+}
+
+function describeBlock(element: Element): string {
+  const attributes = Array.from(element.attributes)
+    .filter(attr => !attr.name.startsWith('data-'))
+    .map(attr => `${attr.name}="${attr.value}"`)
+    .sort();
+  return [element.tagName.toLowerCase(), ...attributes].join(' ');
+}
+
+function serializeNode(node: Node): string {
+  return node.nodeType === Node.ELEMENT_NODE ? (node as Element).outerHTML : node.textContent || '';
+}
+
+/**
+ * Where the formatting of two snapshots with the same text differs. Any
+ * difference in the blocks around the text makes it a structural change.
+ */
+function diffRuns(before: TextRun[], after: TextRun[]): { structure: boolean; segments: FormatSegment[] } {
+  const segments: FormatSegment[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length && j < after.length) {
+    const a = before[i];
+    const b = after[j];
+    if (a.block !== b.block) {
+      return { structure: true, segments: [] };
+    }
+
+    if (a.key !== b.key) {
+      const start = Math.max(a.start, b.start);
+      const end = Math.min(a.end, b.end);
+      const last = segments[segments.length - 1];
+      if (last && last.end === start && formatKey(last.before) === a.key && formatKey(last.after) === b.key) {
+        last.end = end;
+      } else {
+        segments.push({ start, end, before: a.format, after: b.format });
+      }
+    }
+
+    const aEnd = a.end;
+    const bEnd = b.end;
+    if (aEnd <= bEnd) i++;
+    if (bEnd <= aEnd) j++;
+  }
+
+  return { structure: false, segments };
+}
+
+function changeData(node: DocNode): { [key: string]: string } | null {
+  const data = node.attrs?.data;
+  return data && typeof data === 'object' && data['change-id'] ? data : null;
+}
+
+function isFormatMark(mark: DocMark): boolean {
+  const className = mark.attrs?.className;
+  return mark.type === 'annotation' && typeof className === 'string' && className.split(' ').includes(FORMAT_CLASS);
+}
+
+function markChangeId(mark: DocMark): string {
+  if (mark.type === 'annotation') {
+    const data = mark.attrs?.data;
+    return data && typeof data === 'object' ? data['change-id'] || '' : '';
+  }
+  return String(mark.attrs?.id || '');
+}
+
+// Nodes holding inline content, in document order
+function textblocks(nodes: DocNode[], result: DocNode[] = []): DocNode[] {
+  nodes.forEach(node => {
+    if (!node.content) return;
+    if (node.content.every(child => nodeSpecs[child.type]?.group === 'inline')) {
+      result.push(node);
+    } else {
+      textblocks(node.content, result);
+    }
+  });
+  return result;
+}
+
+/**
+ * The blocks a structural change replaced. While the text is still split
+ * into as many blocks, their current content is kept so edits made since
+ * are not lost.
+ */
+function restoreBlocks(before: string, current: DocNode[]): DocNode[] {
+  const restored = parseHTML(before).content;
+  const targets = textblocks(restored);
+  const sources = textblocks(current);
+  if (targets.length === sources.length) {
+    targets.forEach((target, index) => {
+      target.content = sources[index].content;
+    });
+  }
+  return restored;
+}
+
+/**
+ * Applies accept or reject for the given changes to a document's nodes:
+ * insertions and deletions are kept or dropped, reverted formatting gets its
+ * old marks back and reverted blocks get their old structure back.
+ */
+function resolveNodes(nodes: DocNode[], ids: Set<string>, accept: boolean): DocNode[] {
+  const result: DocNode[] = [];
+
+  for (let index = 0; index < nodes.length; index++) {
+    let node = nodes[index];
+    const data = changeData(node);
+
+    if (data && ids.has(data['change-id'])) {
+      if (!accept) {
+        let end = index + 1;
+        while (end < nodes.length && changeData(nodes[end])?.['change-id'] === data['change-id']) {
+          end++;
+        }
+        // The first block of the change carries what the whole run replaced
+        if (data.before !== undefined) {
+          result.push(...resolveNodes(restoreBlocks(data.before, nodes.slice(index, end)), ids, accept));
+        }
+        index = end - 1;
+        continue;
+      }
+
+      const rest = { ...data };
+      BLOCK_CHANGE_KEYS.forEach(key => delete rest[key]);
+      const attrs = { ...node.attrs };
+      if (Object.keys(rest).length > 0) {
+        attrs.data = rest;
+      } else {
+        delete attrs.data;
+      }
+      node = { ...node, attrs };
+    }
+
+    if (node.marks) {
+      const resolved = node.marks.filter(mark => ids.has(markChangeId(mark)));
+      if (resolved.some(mark => mark.type === (accept ? 'deletion' : 'insertion'))) {
+        continue;
+      }
+
+      let marks = node.marks.filter(mark => !resolved.includes(mark));
+      const format = resolved.find(isFormatMark);
+      if (format && !accept) {
+        const changeAttrs = format.attrs?.data as { [key: string]: string };
+        const before = parseFormat(changeAttrs.before);
+        const after = parseFormat(changeAttrs.after);
+        marks = marks.filter(mark => !(mark.type in before) && !(mark.type in after));
+        Object.entries(before).forEach(([type, value]) => marks.push(formatMark(type, value)));
+      }
+
+      node = { ...node, marks };
+      if (marks.length === 0) {
+        delete node.marks;
+      }
+    }
+
+    if (node.content) {
+      node = { ...node, content: resolveNodes(node.content, ids, accept) };
+    }
+    result.push(node);
+  }
+
+  return result;
+}
 
 class TrackChangesPluginImpl implements Plugin {
   name = 'trackChanges';
@@ -8,13 +240,19 @@ class TrackChangesPluginImpl implements Plugin {
   private changes: Map<string, Change> = new Map();
   isTracking: boolean = false;
   private changesList: HTMLElement | null = null;
-  private mutationObserver: MutationObserver | null = null;
   private authorColors: Map<string, string> = new Map();
   private colorIndex = 0;
-  private colors = [
-    '#3498db', '#e74c3c', '#2ecc71', '#f39c12', '#9b59b6',
-    '#1abc9c', '#34495e', '#e67e22', '#95a5a6', '#d35400'
-  ];
+  private colors = AUTHOR_COLORS;
+  private authorStyles: HTMLStyleElement | null = null;
+  private styledAuthors: string = '';
+  private snapshot: Snapshot | null = null;
+  // Set while pasted content, already marked as an insertion, goes in
+  private pasting: boolean = false;
+  // Changes made here that are announced once they are in the content
+  private pendingIds: Set<string> = new Set();
+  // The change last moved to with nextChange()/previousChange()
+  private activeChangeId: string | null = null;
+  private summaryDialog: HTMLElement | null = null;
 
   constructor(config?: Partial<TrackChangesConfig>) {
     this.config = {
@@ -24,6 +262,9 @@ class TrackChangesPluginImpl implements Plugin {
       showTimestamps: true,
       ...config
     };
+    if (!this.config.mode) {
+      this.config.mode = this.config.enabled ? 'suggesting' : 'editing';
+    }
 
     // Initialize author colors
     if (this.config.authorColors) {
@@ -35,22 +276,159 @@ class TrackChangesPluginImpl implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
 
     this.addToolbarItems();
     this.createChangesList();
     this.addStyles();
 
-    if (this.config.enabled) {
+    // Changes live in the content, so they are read back whenever it changes
+    editor.on('history:transaction', this.collectChanges);
+    editor.on('history:undo', this.collectChanges);
+    editor.on('history:redo', this.collectChanges);
+    this.collectChanges();
+
+    if (this.config.mode === 'suggesting') {
       this.startTracking();
     }
   }
 
   destroy(): void {
     this.stopTracking();
+    if (this.editor) {
+      this.editor.off('history:transaction', this.collectChanges);
+      this.editor.off('history:undo', this.collectChanges);
+      this.editor.off('history:redo', this.collectChanges);
+    }
     if (this.changesList) {
       this.changesList.remove();
     }
-    this.removeAllChangeMarks();
+    this.summaryDialog?.remove();
+    this.authorStyles?.remove();
+  }
+
+  /** Pending changes in document order. */
+  getChanges(): Change[] {
+    return Array.from(this.changes.values());
+  }
+
+  acceptChange(changeId: string): void {
+    if (!this.changes.has(changeId)) return;
+    this.resolveChanges([changeId], true);
+  }
+
+  rejectChange(changeId: string): void {
+    if (!this.changes.has(changeId)) return;
+    this.resolveChanges([changeId], false);
+  }
+
+  /** 'suggesting' records edits as changes; 'editing' applies them directly. */
+  getMode(): TrackChangesMode {
+    return this.isTracking ? 'suggesting' : 'editing';
+  }
+
+  setMode(mode: TrackChangesMode): void {
+    if (mode === this.getMode()) return;
+
+    if (mode === 'suggesting') {
+      this.startTracking();
+    } else {
+      this.stopTracking();
+    }
+    this.config.mode = mode;
+
+    this.updateModeSwitch();
+    this.config.onModeChange?.(mode);
+    this.editor?.emit('trackchanges:mode', mode);
+    this.editor?.toolbar?.updateState();
+  }
+
+  /**
+   * Selects the change after the selection, wrapping around at the end.
+   * Returns it, or null when there are no changes.
+   */
+  nextChange(): Change | null {
+    return this.moveToChange(1);
+  }
+
+  previousChange(): Change | null {
+    return this.moveToChange(-1);
+  }
+
+  /** Selects a change in the content and scrolls it into view. */
+  focusChange(changeId: string): void {
+    const change = this.changes.get(changeId);
+    const elements = this.getChangeElements(changeId);
+    if (!this.editor || !change || elements.length === 0) return;
+
+    const last = elements[elements.length - 1];
+    const range = document.createRange();
+    range.setStart(elements[0], 0);
+    range.setEnd(last, last.childNodes.length);
+
+    this.editor.focus();
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    scrollIntoView(elements[0]);
+
+    this.activeChangeId = changeId;
+    this.updateActiveEntry();
+    this.editor.emit('trackchanges:focus', change);
+  }
+
+  getChangesBy(author: string): Change[] {
+    return this.getChanges().filter(change => change.author === author);
+  }
+
+  acceptChangesBy(author: string): void {
+    this.resolveChanges(this.getChangesBy(author).map(change => change.id), true);
+  }
+
+  rejectChangesBy(author: string): void {
+    this.resolveChanges(this.getChangesBy(author).map(change => change.id), false);
+  }
+
+  /** Changes with any part inside the selection, or at the caret. */
+  getChangesInSelection(): Change[] {
+    const range = this.editor?.selection.range;
+    if (!range) return [];
+
+    return this.getChanges().filter(change =>
+      this.getChangeElements(change.id).some(element => range.intersectsNode(element))
+    );
+  }
+
+  acceptChangesInSelection(): void {
+    this.resolveChanges(this.getChangesInSelection().map(change => change.id), true);
+  }
+
+  rejectChangesInSelection(): void {
+    this.resolveChanges(this.getChangesInSelection().map(change => change.id), false);
+  }
+
+  /**
+   * Counts of the pending changes per author, with the content as it was
+   * before them and as it will be once they are all accepted.
+   */
+  getSummary(): ChangesSummary {
+    const counts = new Map<string, ChangeCounts>();
+    this.changes.forEach(change => {
+      if (!counts.has(change.author)) {
+        counts.set(change.author, { insert: 0, delete: 0, format: 0 });
+      }
+      counts.get(change.author)![change.type]++;
+    });
+
+    const ids = new Set(this.changes.keys());
+    const doc = this.editor ? this.editor.getJSON() : parseHTML('');
+
+    return {
+      total: this.changes.size,
+      authors: Array.from(counts, ([author, count]) => ({ author, ...count })),
+      original: serializeHTML({ ...doc, content: resolveNodes(doc.content, ids, false) }),
+      merged: serializeHTML({ ...doc, content: resolveNodes(doc.content, ids, true) })
+    };
   }
 
   private addToolbarItems(): void {
@@ -59,7 +437,7 @@ class TrackChangesPluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'track-changes',
       icon: this.getTrackChangesIcon(),
-      tooltip: 'Track Changes',
+      tooltip: this.editor.t('trackChanges.toggle'),
       active: () => this.isTracking,
       onClick: () => this.toggleTracking()
     });
@@ -67,7 +445,7 @@ class TrackChangesPluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'track-changes-list',
       icon: this.getChangesListIcon(),
-      tooltip: 'Show Changes',
+      tooltip: this.editor.t('trackChanges.showChanges'),
       active: () => this.changesList?.style.display === 'block',
       onClick: () => this.toggleChangesList()
     });
@@ -75,7 +453,7 @@ class TrackChangesPluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'accept-all-changes',
       icon: this.getAcceptAllIcon(),
-      tooltip: 'Accept All Changes',
+      tooltip: this.editor.t('trackChanges.acceptAllChanges'),
       enabled: () => this.changes.size > 0,
       onClick: () => this.acceptAllChanges()
     });
@@ -83,7 +461,7 @@ class TrackChangesPluginImpl implements Plugin {
     this.editor.toolbar.addItem({
       name: 'reject-all-changes',
       icon: this.getRejectAllIcon(),
-      tooltip: 'Reject All Changes',
+      tooltip: this.editor.t('trackChanges.rejectAllChanges'),
       enabled: () => this.changes.size > 0,
       onClick: () => this.rejectAllChanges()
     });
@@ -126,15 +504,45 @@ class TrackChangesPluginImpl implements Plugin {
       <button class="xeditor-changes-close" style="background: none; border: none; cursor: pointer; font-size: 20px;">&times;</button>
     `;
 
+    const modeSwitch = createElement('select', {
+      className: 'xeditor-changes-mode',
+      title: this.editor.t('trackChanges.mode')
+    }, [
+      createElement('option', { value: 'editing' }, [this.editor.t('trackChanges.editing')]),
+      createElement('option', { value: 'suggesting' }, [this.editor.t('trackChanges.suggesting')])
+    ]) as HTMLSelectElement;
+    modeSwitch.addEventListener('change', () => this.setMode(modeSwitch.value as TrackChangesMode));
+
+    const previousBtn = createElement('button', {
+      type: 'button',
+      title: this.editor.t('trackChanges.previous')
+    }, ['↑']);
+    previousBtn.addEventListener('click', () => this.previousChange());
+
+    const nextBtn = createElement('button', {
+      type: 'button',
+      title: this.editor.t('trackChanges.next')
+    }, ['↓']);
+    nextBtn.addEventListener('click', () => this.nextChange());
+
+    const summaryBtn = createElement('button', { type: 'button' }, [this.editor.t('trackChanges.compareMerge')]);
+    summaryBtn.addEventListener('click', () => this.showSummary());
+
+    const controls = createElement('div', {
+      className: 'xeditor-changes-controls'
+    }, [modeSwitch, previousBtn, nextBtn, summaryBtn]);
+
     const content = createElement('div', {
       className: 'xeditor-changes-content'
     });
     content.style.cssText = 'padding: 15px;';
 
     this.changesList.appendChild(header);
+    this.changesList.appendChild(controls);
     this.changesList.appendChild(content);
 
     this.editor.wrapper.appendChild(this.changesList);
+    this.updateModeSwitch();
 
     // Close button
     header.querySelector('.xeditor-changes-close')?.addEventListener('click', () => {
@@ -142,30 +550,25 @@ class TrackChangesPluginImpl implements Plugin {
     });
   }
 
+  private updateModeSwitch(): void {
+    const modeSwitch = this.changesList?.querySelector<HTMLSelectElement>('.xeditor-changes-mode');
+    if (modeSwitch) {
+      modeSwitch.value = this.getMode();
+    }
+  }
+
   private startTracking(): void {
     if (!this.editor || this.isTracking) return;
 
     this.isTracking = true;
 
-    // Create mutation observer to track changes
-    this.mutationObserver = new MutationObserver((mutations) => {
-      this.handleMutations(mutations);
-    });
-
-    this.mutationObserver.observe(this.editor.contentElement, {
-      childList: true,
-      characterData: true,
-      characterDataOldValue: true,
-      subtree: true,
-      attributes: true,
-      attributeOldValue: true
-    });
-
-    // Override paste handler
-    this.editor.contentElement.addEventListener('paste', this.handlePaste);
+    // Typing and deleting are turned into suggestions before the browser applies them
+    this.editor.contentElement.addEventListener('beforeinput', this.handleBeforeInput);
+    this.editor.on('paste', this.handlePaste);
 
-    // Track selection deletions
-    this.editor.contentElement.addEventListener('keydown', this.handleKeydown);
+    // Formatting and structure commands are compared before and after
+    this.editor.on('command:before', this.handleCommandBefore);
+    this.editor.on('command:after', this.handleCommandAfter);
 
     this.editor.emit('trackchanges:start');
   }
@@ -175,220 +578,574 @@ class TrackChangesPluginImpl implements Plugin {
 
     this.isTracking = false;
 
-    if (this.mutationObserver) {
-      this.mutationObserver.disconnect();
-      this.mutationObserver = null;
-    }
-
     if (this.editor) {
-      this.editor.contentElement.removeEventListener('paste', this.handlePaste);
-      this.editor.contentElement.removeEventListener('keydown', this.handleKeydown);
+      this.editor.contentElement.removeEventListener('beforeinput', this.handleBeforeInput);
+      this.editor.off('paste', this.handlePaste);
+      this.editor.off('command:before', this.handleCommandBefore);
+      this.editor.off('command:after', this.handleCommandAfter);
       this.editor.emit('trackchanges:stop');
     }
   }
 
-  private handleMutations(mutations: MutationRecord[]): void {
-    mutations.forEach(mutation => {
-      if (mutation.type === 'characterData') {
-        this.handleTextChange(mutation);
-      } else if (mutation.type === 'childList') {
-        this.handleNodeChange(mutation);
-      }
-    });
+  private getAuthor(): string {
+    return this.config.currentUser || 'Anonymous';
+  }
 
-    this.updateChangesList();
+  private isOwnChange(element: Element | null | undefined): element is Element {
+    return !!element && element.getAttribute('data-author') === this.getAuthor();
   }
 
-  private handleTextChange(mutation: MutationRecord): void {
-    if (!mutation.target.parentNode) return;
+  private setChangeAttributes(element: Element, id: string): void {
+    element.setAttribute('data-change-id', id);
+    element.setAttribute('data-author', this.getAuthor());
+    element.setAttribute('data-timestamp', new Date().toISOString());
+    this.pendingIds.add(id);
+  }
 
-    const oldValue = mutation.oldValue || '';
-    const newValue = mutation.target.textContent || '';
+  private createChangeMark(tag: 'ins' | 'del', id: string): HTMLElement {
+    const element = createElement(tag);
+    this.setChangeAttributes(element, id);
+    return element;
+  }
 
-    if (oldValue === newValue) return;
+  private handleBeforeInput = (e: InputEvent): void => {
+    if (!this.editor) return;
 
-    // Find what changed
-    const { deletedText, insertedText, position } = this.diffText(oldValue, newValue);
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return;
+    const range = this.getTargetRange(e) || selection.getRangeAt(0);
 
-    if (deletedText) {
-      this.createChange('delete', deletedText, mutation.target, position);
-    }
+    if (e.inputType === 'insertText' || e.inputType === 'insertReplacementText') {
+      const text = e.data ?? e.dataTransfer?.getData('text/plain') ?? '';
+      if (!text) return;
 
-    if (insertedText) {
-      this.createChange('insert', insertedText, mutation.target, position + deletedText.length);
+      e.preventDefault();
+      this.editor.history.transact('typing', () => {
+        if (!range.collapsed) {
+          this.markDeleted(range, false);
+        } else {
+          this.setCaret(range.startContainer, range.startOffset);
+        }
+        this.insertText(text);
+      });
+    } else if (e.inputType.startsWith('delete') && e.inputType !== 'deleteByDrag') {
+      const backward = e.inputType.includes('Backward');
+      const target = range.collapsed ? this.extendByCharacter(range, backward) : range;
+      // Joining blocks and removing non-text content is not tracked
+      if (!target || !target.toString()) return;
+
+      e.preventDefault();
+      this.editor.history.transact('typing', () => {
+        this.markDeleted(target, backward);
+      });
     }
+  };
+
+  private getTargetRange(e: InputEvent): Range | null {
+    const [target] = typeof e.getTargetRanges === 'function' ? e.getTargetRanges() : [];
+    if (!target) return null;
+
+    const range = document.createRange();
+    range.setStart(target.startContainer, target.startOffset);
+    range.setEnd(target.endContainer, target.endOffset);
+    return range;
   }
 
-  private handleNodeChange(mutation: MutationRecord): void {
-    // Handle removed nodes
-    mutation.removedNodes.forEach(node => {
-      if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.ELEMENT_NODE) {
-        const text = node.textContent || '';
-        if (text.trim()) {
-          this.createChange('delete', text, mutation.target, 0);
-        }
-      }
-    });
+  // The character next to a caret, within the same text node
+  private extendByCharacter(range: Range, backward: boolean): Range | null {
+    const node = range.startContainer;
+    if (node.nodeType !== Node.TEXT_NODE) return null;
 
-    // Handle added nodes
-    mutation.addedNodes.forEach(node => {
-      if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.ELEMENT_NODE) {
-        // Skip if it's a change mark we added
-        if (node instanceof HTMLElement && 
-            (node.classList.contains('xeditor-insert') || 
-             node.classList.contains('xeditor-delete'))) {
-          return;
-        }
+    const offset = range.startOffset;
+    const length = (node as Text).length;
+    if (backward ? offset === 0 : offset === length) return null;
+
+    const extended = document.createRange();
+    extended.setStart(node, backward ? offset - 1 : offset);
+    extended.setEnd(node, backward ? offset : offset + 1);
+    return extended;
+  }
 
-        const text = node.textContent || '';
-        if (text.trim()) {
-          this.createChange('insert', text, mutation.target, 0);
+  /**
+   * Marks the text of a range as deleted instead of removing it. Text the
+   * current author inserted is removed for real, and deletions next to an
+   * earlier one of the same author join it.
+   */
+  private markDeleted(range: Range, backward: boolean): void {
+    const content = this.editor!.contentElement;
+    const start = getTextOffset(content, range.startContainer, range.startOffset);
+    const end = getTextOffset(content, range.endContainer, range.endOffset);
+    const nodes = splitTextRange(content, start, end);
+    if (nodes.length === 0) return;
+
+    const previous = nodes[0].previousSibling;
+    const next = nodes[nodes.length - 1].nextSibling;
+    const adjacent = [previous, next].find(sibling =>
+      sibling instanceof HTMLElement && sibling.tagName === 'DEL' && this.isOwnChange(sibling)
+    ) as HTMLElement | undefined;
+    const id = adjacent?.getAttribute('data-change-id') || this.generateId();
+
+    let removed = 0;
+    nodes.forEach(node => {
+      const insertion = node.parentElement?.closest('ins[data-change-id]');
+      if (this.isOwnChange(insertion)) {
+        removed += node.length;
+        node.remove();
+        if (!insertion.textContent) {
+          insertion.remove();
         }
+        return;
+      }
+      if (node.parentElement?.closest('del')) return;
+
+      const before = node.previousSibling;
+      const after = node.nextSibling;
+      if (before instanceof HTMLElement && before.tagName === 'DEL' && before.getAttribute('data-change-id') === id) {
+        before.appendChild(node);
+      } else if (after instanceof HTMLElement && after.tagName === 'DEL' && after.getAttribute('data-change-id') === id) {
+        after.insertBefore(node, after.firstChild);
+      } else {
+        const deletion = this.createChangeMark('del', id);
+        node.parentNode!.insertBefore(deletion, node);
+        deletion.appendChild(node);
       }
     });
+
+    // Deleted text stays in place, so the caret moves past it
+    const position = getTextPosition(content, backward ? start : end - removed);
+    if (position) {
+      this.setCaret(position.node, position.offset);
+    }
+  }
+
+  // Inserts typed text as a suggestion, extending the author's insertion at the caret
+  private insertText(text: string): void {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    const container = range.startContainer;
+    const element = container.nodeType === Node.TEXT_NODE ? container.parentElement : container as Element;
+
+    const insertion = element?.closest('ins[data-change-id]');
+    if (container.nodeType === Node.TEXT_NODE && this.isOwnChange(insertion)) {
+      (container as Text).insertData(range.startOffset, text);
+      this.setCaret(container, range.startOffset + text.length);
+      return;
+    }
+
+    const deletion = element?.closest('del');
+    if (deletion) {
+      range.setStartAfter(deletion);
+      range.collapse(true);
+    }
+
+    const previous = range.startContainer.nodeType === Node.TEXT_NODE
+      ? (range.startOffset === 0 ? range.startContainer.previousSibling : null)
+      : range.startContainer.childNodes[range.startOffset - 1];
+    if (previous instanceof HTMLElement && previous.tagName === 'INS' && this.isOwnChange(previous)) {
+      const last = previous.lastChild;
+      const node = last && last.nodeType === Node.TEXT_NODE
+        ? last as Text
+        : previous.appendChild(document.createTextNode(''));
+      node.appendData(text);
+      this.setCaret(node, node.length);
+      return;
+    }
+
+    const node = document.createTextNode(text);
+    const mark = this.createChangeMark('ins', this.generateId());
+    mark.appendChild(node);
+    range.insertNode(mark);
+    this.setCaret(node, node.length);
+  }
+
+  private setCaret(node: Node, offset: number): void {
+    const selection = window.getSelection();
+    if (!selection) return;
+
+    const range = document.createRange();
+    range.setStart(node, offset);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
   }
 
   private handlePaste = (e: ClipboardEvent): void => {
-    if (!this.isTracking) return;
+    if (!this.editor || e.defaultPrevented) return;
+
+    const html = e.clipboardData?.getData('text/html') || '';
+    const text = e.clipboardData?.getData('text/plain') || '';
+    // Files are left to plugins such as image
+    if (!html && !text) return;
+
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return;
 
     e.preventDefault();
+    const pasted = this.markInserted(this.editor.paste.process({ html, text }));
 
-    const text = e.clipboardData?.getData('text/plain') || '';
-    if (text) {
-      const selection = window.getSelection();
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0);
-        
-        // Delete selected content first
-        if (!range.collapsed) {
-          const selectedText = range.toString();
-          this.createChange('delete', selectedText, range.commonAncestorContainer, range.startOffset);
-          range.deleteContents();
-        }
+    this.editor.history.transact('paste', () => {
+      const range = selection.getRangeAt(0);
+      if (!range.collapsed) {
+        this.markDeleted(range, false);
+      }
+      this.pasting = true;
+      try {
+        this.editor!.execCommand('insertHTML', pasted);
+      } finally {
+        this.pasting = false;
+      }
+    });
+  };
+
+  // Wraps every run of text in pasted HTML in an insertion of one change
+  private markInserted(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
 
-        // Insert new content
-        this.createChange('insert', text, range.startContainer, range.startOffset);
-        
-        // Actually insert the text
-        const textNode = document.createTextNode(text);
-        const mark = this.createChangeMark('insert');
-        mark.appendChild(textNode);
-        range.insertNode(mark);
-        
-        // Move cursor after inserted text
-        range.setStartAfter(mark);
-        range.collapse(true);
-        selection.removeAllRanges();
-        selection.addRange(range);
+    const id = this.generateId();
+    const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+    const nodes: Text[] = [];
+    while (walker.nextNode()) {
+      nodes.push(walker.currentNode as Text);
+    }
+    nodes.filter(node => node.data.trim()).forEach(node => {
+      const mark = this.createChangeMark('ins', id);
+      node.parentNode!.insertBefore(mark, node);
+      mark.appendChild(node);
+    });
+
+    return template.innerHTML;
+  }
+
+  private handleCommandBefore = (command: string): void => {
+    this.snapshot = this.isOwnCommand(command) || this.pasting ? null : this.takeSnapshot();
+  };
+
+  private handleCommandAfter = (command: string): void => {
+    const before = this.snapshot;
+    this.snapshot = null;
+    if (!before || this.isOwnCommand(command)) return;
+
+    const after = this.takeSnapshot();
+    if (before.text === after.text) {
+      const { structure, segments } = diffRuns(before.runs, after.runs);
+      if (!structure) {
+        this.trackFormat(segments);
+        return;
       }
     }
+    this.trackStructure(before.nodes);
   };
 
-  private handleKeydown = (e: KeyboardEvent): void => {
-    if (!this.isTracking) return;
+  private isOwnCommand(command: string): boolean {
+    return command in this.commands;
+  }
 
-    if (e.key === 'Delete' || e.key === 'Backspace') {
-      const selection = window.getSelection();
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0);
-        
-        if (!range.collapsed) {
-          e.preventDefault();
-          const selectedText = range.toString();
-          this.createChange('delete', selectedText, range.commonAncestorContainer, range.startOffset);
-          
-          // Wrap in delete mark instead of actually deleting
-          const mark = this.createChangeMark('delete');
-          try {
-            range.surroundContents(mark);
-          } catch {
-            // If surroundContents fails, use alternative method
-            const contents = range.extractContents();
-            mark.appendChild(contents);
-            range.insertNode(mark);
-          }
-          
-          range.collapse(true);
-          selection.removeAllRanges();
-          selection.addRange(range);
-        }
+  private takeSnapshot(): Snapshot {
+    const content = this.editor!.contentElement;
+    const runs: TextRun[] = [];
+    const walker = document.createTreeWalker(content, NodeFilter.SHOW_TEXT);
+    let text = '';
+
+    while (walker.nextNode()) {
+      const node = walker.currentNode as Text;
+      if (!node.length) continue;
+
+      const { block, format } = this.describeText(node);
+      runs.push({ start: text.length, end: text.length + node.length, block, format, key: formatKey(format) });
+      text += node.data;
+    }
+
+    return { text, runs, nodes: Array.from(content.childNodes).map(serializeNode) };
+  }
+
+  // The inline formatting of a text node and the chain of blocks it sits in
+  private describeText(node: Text): { block: string; format: ChangeFormat } {
+    const content = this.editor!.contentElement;
+    const format: ChangeFormat = {};
+    const blocks: string[] = [];
+
+    for (let element = node.parentElement; element && element !== content; element = element.parentElement) {
+      const marks = parseMarks(element);
+      if (!marks) {
+        blocks.unshift(describeBlock(element));
+        continue;
       }
+      marks
+        .filter(mark => !NON_FORMAT_MARKS.includes(mark.type) && !(mark.type in format))
+        .forEach(mark => {
+          format[mark.type] = markValue(mark);
+        });
     }
-  };
 
-  private diffText(oldText: string, newText: string): { deletedText: string; insertedText: string; position: number } {
-    // Simple diff algorithm - find first difference
-    let position = 0;
-    while (position < oldText.length && position < newText.length && oldText[position] === newText[position]) {
-      position++;
+    return { block: blocks.join(' > '), format };
+  }
+
+  /**
+   * Wraps text whose inline formatting changed in format marks recording the
+   * formatting before and after. Reformatting text that is exactly one
+   * pending format change of the author updates that change instead.
+   */
+  private trackFormat(segments: FormatSegment[]): void {
+    if (segments.length === 0) return;
+
+    const content = this.editor!.contentElement;
+    const selection = this.saveSelectionOffsets();
+    const id = this.generateId();
+
+    segments.forEach(segment => {
+      splitTextRange(content, segment.start, segment.end).forEach(node => {
+        const existing = node.parentElement?.closest(`.${FORMAT_CLASS}`);
+        if (this.isOwnChange(existing) && existing.textContent === node.data) {
+          const before = existing.getAttribute('data-before');
+          if (formatKey(parseFormat(before)) === formatKey(segment.after)) {
+            this.unwrap(existing);
+          } else {
+            existing.setAttribute('data-after', JSON.stringify(segment.after));
+          }
+          return;
+        }
+
+        const previous = node.previousSibling;
+        if (previous instanceof HTMLElement && previous.getAttribute('data-change-id') === id) {
+          previous.appendChild(node);
+          return;
+        }
+
+        const mark = createElement('span', { className: FORMAT_CLASS });
+        this.setChangeAttributes(mark, id);
+        mark.setAttribute('data-before', JSON.stringify(segment.before));
+        mark.setAttribute('data-after', JSON.stringify(segment.after));
+        node.parentNode!.insertBefore(mark, node);
+        mark.appendChild(node);
+      });
+    });
+
+    this.restoreSelectionOffsets(selection);
+  }
+
+  /**
+   * Marks the top-level blocks a structural command changed as one format
+   * change, keeping the markup they replaced on the first of them. Changing
+   * the blocks of a pending change of the author again updates that change.
+   */
+  private trackStructure(beforeNodes: string[]): void {
+    const content = this.editor!.contentElement;
+    const afterNodes = Array.from(content.childNodes);
+    const afterHTML = afterNodes.map(serializeNode);
+
+    let start = 0;
+    while (start < beforeNodes.length && start < afterHTML.length && beforeNodes[start] === afterHTML[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < beforeNodes.length - start && end < afterHTML.length - start &&
+      beforeNodes[beforeNodes.length - 1 - end] === afterHTML[afterHTML.length - 1 - end]
+    ) {
+      end++;
     }
 
-    // Find end of difference
-    let oldEnd = oldText.length;
-    let newEnd = newText.length;
-    while (oldEnd > position && newEnd > position && oldText[oldEnd - 1] === newText[newEnd - 1]) {
-      oldEnd--;
-      newEnd--;
+    const region = afterNodes.slice(start, afterNodes.length - end);
+    const blocks = region.filter((node): node is HTMLElement => node.nodeType === Node.ELEMENT_NODE);
+    // Removed blocks leave nothing to hold the change
+    if (blocks.length === 0) return;
+
+    let id = this.generateId();
+    let before = beforeNodes.slice(start, beforeNodes.length - end).join('');
+
+    const template = document.createElement('template');
+    template.innerHTML = before;
+    const previous = Array.from(template.content.children);
+    const previousId = previous[0]?.getAttribute('data-change-id');
+    if (
+      previousId &&
+      previous.every(element =>
+        element.getAttribute('data-change-id') === previousId &&
+        element.getAttribute('data-change-type') === 'format' &&
+        this.isOwnChange(element)
+      )
+    ) {
+      id = previousId;
+      before = previous[0].getAttribute('data-before') || '';
     }
 
-    const deletedText = oldText.substring(position, oldEnd);
-    const insertedText = newText.substring(position, newEnd);
+    blocks.forEach(block => BLOCK_CHANGE_KEYS.forEach(key => block.removeAttribute(`data-${key}`)));
+    // Changed back to how it was
+    if (region.map(serializeNode).join('') === before) return;
+
+    blocks.forEach((block, index) => {
+      this.setChangeAttributes(block, id);
+      block.setAttribute('data-change-type', 'format');
+      if (index === 0) {
+        block.setAttribute('data-before', before);
+      }
+    });
+  }
 
-    return { deletedText, insertedText, position };
+  private unwrap(element: Element): void {
+    const parent = element.parentNode;
+    if (!parent) return;
+    while (element.firstChild) {
+      parent.insertBefore(element.firstChild, element);
+    }
+    parent.removeChild(element);
   }
 
-  private createChange(type: 'insert' | 'delete', content: string, node: Node, offset: number): void {
-    const change: Change = {
-      id: this.generateId(),
-      type,
-      author: this.config.currentUser || 'Anonymous',
-      timestamp: new Date(),
-      content,
-      range: this.serializeRange(node, offset, content.length),
-      accepted: false,
-      rejected: false
+  private saveSelectionOffsets(): { start: number; end: number } | null {
+    const content = this.editor!.contentElement;
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+
+    const range = selection.getRangeAt(0);
+    if (!content.contains(range.startContainer) || !content.contains(range.endContainer)) return null;
+
+    return {
+      start: getTextOffset(content, range.startContainer, range.startOffset),
+      end: getTextOffset(content, range.endContainer, range.endOffset)
     };
+  }
+
+  private restoreSelectionOffsets(offsets: { start: number; end: number } | null): void {
+    if (!offsets) return;
+
+    const content = this.editor!.contentElement;
+    const start = getTextPosition(content, offsets.start);
+    const end = getTextPosition(content, offsets.end);
+    const selection = window.getSelection();
+    if (!start || !end || !selection) return;
+
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
 
-    this.changes.set(change.id, change);
+  private getChangeElements(changeId: string): HTMLElement[] {
+    if (!this.editor) return [];
+    return Array.from(this.editor.contentElement.querySelectorAll<HTMLElement>('[data-change-id]'))
+      .filter(element => element.getAttribute('data-change-id') === changeId);
+  }
 
-    if (this.config.onChangeAdd) {
-      this.config.onChangeAdd(change);
+  /**
+   * From the change last moved to, steps through the changes in document
+   * order. From anywhere else, finds the nearest change in the direction.
+   */
+  private moveToChange(direction: 1 | -1): Change | null {
+    const changes = this.getChanges();
+    if (changes.length === 0) return null;
+
+    const offsets = this.saveSelectionOffsets();
+    const active = changes.findIndex(change => change.id === this.activeChangeId);
+    let target: Change | undefined;
+
+    if (
+      active !== -1 && offsets &&
+      offsets.start === changes[active].range.startOffset &&
+      offsets.end === changes[active].range.endOffset
+    ) {
+      target = changes[(active + direction + changes.length) % changes.length];
+    } else if (direction === 1) {
+      const start = offsets ? offsets.start : -1;
+      const collapsed = !!offsets && offsets.start === offsets.end;
+      target = changes.find(change =>
+        change.range.startOffset > start || (collapsed && change.range.startOffset === start)
+      ) || changes[0];
+    } else {
+      const start = offsets ? offsets.start : Infinity;
+      target = changes.slice().reverse().find(change => change.range.startOffset < start) ||
+        changes[changes.length - 1];
     }
 
-    this.editor?.emit('trackchanges:add', change);
+    this.focusChange(target.id);
+    return target;
   }
 
-  private createChangeMark(type: 'insert' | 'delete', _content?: string): HTMLElement {
-    const mark = createElement('span', {
-      className: `xeditor-${type}`,
-      'data-change-id': this.generateId(),
-      'data-author': this.config.currentUser || 'Anonymous',
-      'data-timestamp': new Date().toISOString()
+  private updateActiveEntry(): void {
+    this.changesList?.querySelectorAll<HTMLElement>('.xeditor-change').forEach(entry => {
+      const active = entry.getAttribute('data-change') === this.activeChangeId;
+      entry.classList.toggle('xeditor-change--active', active);
+      if (active && this.changesList?.style.display === 'block') {
+        scrollIntoView(entry);
+      }
     });
+  }
 
-    const author = this.config.currentUser || 'Anonymous';
-    const color = this.getAuthorColor(author);
+  /**
+   * Rebuilds the list of pending changes from the change marks in the
+   * content. Elements sharing a change id form one change.
+   */
+  private collectChanges = (): void => {
+    if (!this.editor) return;
 
-    if (type === 'insert') {
-      mark.style.cssText = `
-        background-color: ${color}33;
-        border-bottom: 2px solid ${color};
-        padding: 0 2px;
-      `;
-    } else {
-      mark.style.cssText = `
-        text-decoration: line-through;
-        color: ${color};
-        background-color: ${color}1a;
-      `;
-    }
+    const content = this.editor.contentElement;
+    const changes = new Map<string, Change>();
+
+    content.querySelectorAll('[data-change-id]').forEach(element => {
+      const id = element.getAttribute('data-change-id')!;
+      const text = element.textContent || '';
+      const start = getTextOffset(content, element, 0);
+      const path = this.getNodePath(element);
+
+      const existing = changes.get(id);
+      if (existing) {
+        existing.content = (existing.content || '') + text;
+        existing.range.endOffset = start + text.length;
+        existing.range.endPath = path;
+        if (existing.after?.block && element.getAttribute('data-change-type') === 'format') {
+          existing.after.block += `, ${element.tagName.toLowerCase()}`;
+        }
+        return;
+      }
 
-    if (this.config.showAuthors || this.config.showTimestamps) {
-      mark.title = this.getChangeTooltip(type, author, new Date());
+      const timestamp = new Date(element.getAttribute('data-timestamp') || '');
+      const change: Change = {
+        id,
+        type: element.tagName === 'INS' ? 'insert' : element.tagName === 'DEL' ? 'delete' : 'format',
+        author: element.getAttribute('data-author') || 'Anonymous',
+        timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+        content: text,
+        range: { startOffset: start, endOffset: start + text.length, startPath: path, endPath: path },
+        accepted: false,
+        rejected: false
+      };
+
+      if (element.classList.contains(FORMAT_CLASS)) {
+        change.before = parseFormat(element.getAttribute('data-before'));
+        change.after = parseFormat(element.getAttribute('data-after'));
+      } else if (change.type === 'format') {
+        const template = document.createElement('template');
+        template.innerHTML = element.getAttribute('data-before') || '';
+        const tags = Array.from(template.content.children).map(child => child.tagName.toLowerCase());
+        change.before = tags.length > 0 ? { block: tags.join(', ') } : {};
+        change.after = { block: element.tagName.toLowerCase() };
+        change.oldContent = template.content.textContent || '';
+      }
+
+      changes.set(id, change);
+    });
+
+    this.changes = changes;
+    if (this.activeChangeId && !changes.has(this.activeChangeId)) {
+      this.activeChangeId = null;
     }
 
-    return mark;
-  }
+    this.pendingIds.forEach(id => {
+      const change = changes.get(id);
+      if (!change) return;
+      if (this.config.onChangeAdd) {
+        this.config.onChangeAdd(change);
+      }
+      this.editor?.emit('trackchanges:add', change);
+    });
+    this.pendingIds.clear();
+
+    this.updateAuthorStyles();
+    this.updateChangesList();
+  };
 
   private getAuthorColor(author: string): string {
     if (!this.authorColors.has(author)) {
@@ -399,34 +1156,34 @@ class TrackChangesPluginImpl implements Plugin {
     return this.authorColors.get(author)!;
   }
 
-  private getChangeTooltip(type: string, author: string, timestamp: Date): string {
-    const parts = [];
-    
-    if (this.config.showAuthors) {
-      parts.push(`${type === 'insert' ? 'Added' : 'Deleted'} by ${author}`);
-    }
-    
-    if (this.config.showTimestamps) {
-      parts.push(this.formatDate(timestamp));
+  // Change marks are colored per author through generated rules
+  private updateAuthorStyles(): void {
+    const authors = Array.from(new Set(Array.from(this.changes.values()).map(change => change.author))).sort();
+    const key = JSON.stringify(authors);
+    if (key === this.styledAuthors) return;
+    this.styledAuthors = key;
+
+    if (!this.authorStyles) {
+      this.authorStyles = createElement('style') as HTMLStyleElement;
+      document.head.appendChild(this.authorStyles);
     }
-    
-    return parts.join(' - ');
-  }
 
-  private serializeRange(node: Node, offset: number, length: number): Change['range'] {
-    const path = this.getNodePath(node);
-    return {
-      startOffset: offset,
-      endOffset: offset + length,
-      startPath: path,
-      endPath: path
-    };
+    this.authorStyles.textContent = authors.map(author => {
+      const color = this.getAuthorColor(author);
+      const selector = `[data-change-id][data-author="${author.replace(/["\\]/g, '\\$&')}"]`;
+      return `
+        .xeditor-content ins${selector} { background-color: ${color}33; border-bottom: 2px solid ${color}; }
+        .xeditor-content del${selector} { color: ${color}; background-color: ${color}1a; }
+        .xeditor-content .${FORMAT_CLASS}${selector} { border-bottom: 2px dotted ${color}; }
+        .xeditor-content [data-change-type="format"]${selector} { box-shadow: -3px 0 0 ${color}; }
+      `;
+    }).join('');
   }
 
   private getNodePath(node: Node): number[] {
     const path: number[] = [];
     let current = node;
-    
+
     while (current && current !== this.editor?.contentElement) {
       const parent = current.parentNode;
       if (parent) {
@@ -435,12 +1192,13 @@ class TrackChangesPluginImpl implements Plugin {
       }
       current = parent as Node;
     }
-    
+
     return path;
   }
 
   private updateChangesList(): void {
-    if (!this.changesList) return;
+    if (!this.changesList || !this.editor) return;
+    const editor = this.editor;
 
     const content = this.changesList.querySelector('.xeditor-changes-content');
     if (!content) return;
@@ -473,8 +1231,26 @@ class TrackChangesPluginImpl implements Plugin {
         font-weight: bold;
         margin-bottom: 10px;
         color: ${this.getAuthorColor(author)};
+        display: flex;
+        align-items: center;
+        gap: 6px;
       `;
-      authorHeader.textContent = author;
+
+      const acceptAuthorBtn = createElement('button', {
+        type: 'button',
+        title: editor.t('trackChanges.acceptAllBy', { author })
+      }, [editor.t('trackChanges.acceptAll')]);
+      acceptAuthorBtn.addEventListener('click', () => this.acceptChangesBy(author));
+
+      const rejectAuthorBtn = createElement('button', {
+        type: 'button',
+        title: editor.t('trackChanges.rejectAllBy', { author })
+      }, [editor.t('trackChanges.rejectAll')]);
+      rejectAuthorBtn.addEventListener('click', () => this.rejectChangesBy(author));
+
+      authorHeader.appendChild(createElement('span', { className: 'xeditor-changes-author-name' }, [author]));
+      authorHeader.appendChild(acceptAuthorBtn);
+      authorHeader.appendChild(rejectAuthorBtn);
 
       authorSection.appendChild(authorHeader);
 
@@ -485,13 +1261,21 @@ class TrackChangesPluginImpl implements Plugin {
 
       content.appendChild(authorSection);
     });
+
+    this.updateActiveEntry();
   }
 
   private createChangeElement(change: Change): HTMLElement {
     const container = createElement('div', {
-      className: 'xeditor-change'
+      className: 'xeditor-change',
+      'data-change': change.id
+    });
+    container.addEventListener('click', e => {
+      if (!(e.target as Element).closest('button')) {
+        this.focusChange(change.id);
+      }
     });
-    
+
     container.style.cssText = `
       background: white;
       border: 1px solid #ddd;
@@ -501,6 +1285,12 @@ class TrackChangesPluginImpl implements Plugin {
       font-size: 14px;
     `;
 
+    const labelColors = {
+      insert: 'background: #d4edda; color: #155724;',
+      delete: 'background: #f8d7da; color: #721c24;',
+      format: 'background: #fff3cd; color: #856404;'
+    };
+
     const typeLabel = createElement('span');
     typeLabel.style.cssText = `
       display: inline-block;
@@ -509,7 +1299,7 @@ class TrackChangesPluginImpl implements Plugin {
       font-size: 11px;
       font-weight: bold;
       margin-right: 10px;
-      ${change.type === 'insert' ? 'background: #d4edda; color: #155724;' : 'background: #f8d7da; color: #721c24;'}
+      ${labelColors[change.type]}
     `;
     typeLabel.textContent = change.type.toUpperCase();
 
@@ -561,6 +1351,12 @@ class TrackChangesPluginImpl implements Plugin {
     actions.appendChild(rejectBtn);
 
     container.appendChild(typeLabel);
+    if (change.type === 'format') {
+      const description = createElement('span', { className: 'xeditor-change-format' });
+      description.style.cssText = 'font-size: 12px; color: #666;';
+      description.textContent = `${this.describeFormat(change.before)} → ${this.describeFormat(change.after)}`;
+      container.appendChild(description);
+    }
     container.appendChild(content);
     container.appendChild(timestamp);
     container.appendChild(actions);
@@ -568,100 +1364,158 @@ class TrackChangesPluginImpl implements Plugin {
     return container;
   }
 
-  private acceptChange(changeId: string): void {
-    const change = this.changes.get(changeId);
-    if (!change || !this.editor) return;
-
-    // Find and process the change mark in the editor
-    const mark = this.editor.contentElement.querySelector(`[data-change-id="${changeId}"]`);
-    if (mark) {
-      if (change.type === 'insert') {
-        // Keep the text but remove the marking
-        const parent = mark.parentNode;
-        while (mark.firstChild) {
-          parent?.insertBefore(mark.firstChild, mark);
-        }
-        parent?.removeChild(mark);
-      } else if (change.type === 'delete') {
-        // Remove the deleted text
-        mark.remove();
-      }
-    }
-
-    change.accepted = true;
-    this.changes.delete(changeId);
-    this.updateChangesList();
-
-    if (this.config.onChangeAccept) {
-      this.config.onChangeAccept(changeId);
-    }
-
-    this.editor.emit('trackchanges:accept', changeId);
+  private describeFormat(format?: ChangeFormat): string {
+    const entries = Object.entries(format || {}).map(([name, value]) => value === true ? name : `${name}: ${value}`);
+    return entries.length > 0 ? entries.join(', ') : 'plain';
   }
 
-  private rejectChange(changeId: string): void {
-    const change = this.changes.get(changeId);
-    if (!change || !this.editor) return;
-
-    // Find and process the change mark in the editor
-    const mark = this.editor.contentElement.querySelector(`[data-change-id="${changeId}"]`);
-    if (mark) {
-      if (change.type === 'insert') {
-        // Remove the inserted text
-        mark.remove();
-      } else if (change.type === 'delete') {
-        // Restore the deleted text
-        const parent = mark.parentNode;
-        while (mark.firstChild) {
-          parent?.insertBefore(mark.firstChild, mark);
-        }
-        parent?.removeChild(mark);
-      }
-    }
+  /**
+   * Accepts or rejects changes on the document model and renders the result,
+   * so marks split by later edits are resolved together.
+   */
+  private resolveChanges(ids: string[], accept: boolean): void {
+    if (!this.editor || ids.length === 0) return;
 
-    change.rejected = true;
-    this.changes.delete(changeId);
-    this.updateChangesList();
+    const idSet = new Set(ids);
+    const doc = this.editor.getJSON();
+    doc.content = resolveNodes(doc.content, idSet, accept);
 
-    if (this.config.onChangeReject) {
-      this.config.onChangeReject(changeId);
-    }
+    this.editor.history.transact('trackChanges', () => {
+      this.editor!.setJSON(doc);
+    });
 
-    this.editor.emit('trackchanges:reject', changeId);
+    ids.forEach(id => {
+      if (accept) {
+        this.config.onChangeAccept?.(id);
+        this.editor?.emit('trackchanges:accept', id);
+      } else {
+        this.config.onChangeReject?.(id);
+        this.editor?.emit('trackchanges:reject', id);
+      }
+    });
   }
 
   private acceptAllChanges(): void {
-    if (!confirm('Accept all changes?')) return;
+    if (!this.editor || !confirm(this.editor.t('trackChanges.acceptAllConfirm'))) return;
 
-    const changeIds = Array.from(this.changes.keys());
-    changeIds.forEach(id => this.acceptChange(id));
+    this.resolveChanges(Array.from(this.changes.keys()), true);
   }
 
   private rejectAllChanges(): void {
-    if (!confirm('Reject all changes?')) return;
+    if (!this.editor || !confirm(this.editor.t('trackChanges.rejectAllConfirm'))) return;
 
-    const changeIds = Array.from(this.changes.keys());
-    changeIds.forEach(id => this.rejectChange(id));
+    this.resolveChanges(Array.from(this.changes.keys()), false);
   }
 
-  private toggleTracking(): void {
-    if (this.isTracking) {
-      this.stopTracking();
-    } else {
-      this.startTracking();
-    }
+  /**
+   * Shows what reviewing would produce: the changes counted per author and
+   * the content without and with them, to merge or discard all at once.
+   */
+  private showSummary(): void {
+    if (!this.editor) return;
+    const editor = this.editor;
+    this.summaryDialog?.remove();
 
-    if (this.editor && this.editor.toolbar) {
-      this.editor.toolbar.updateState();
+    const summary = this.getSummary();
+    const overlay = createElement('div', {
+      className: 'xeditor-changes-summary-overlay'
+    });
+    const dialog = createElement('div', {
+      className: 'xeditor-changes-summary-dialog'
+    });
+
+    const close = () => {
+      overlay.remove();
+      this.summaryDialog = null;
+      document.removeEventListener('keydown', handleEscape);
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+
+    const closeBtn = createElement('button', {
+      className: 'xeditor-changes-summary-close',
+      type: 'button'
+    }, ['×']);
+    closeBtn.addEventListener('click', close);
+
+    const table = createElement('table', { className: 'xeditor-changes-summary-table' });
+    table.appendChild(createElement('thead', {}, [
+      createElement('tr', {}, ['author', 'insertions', 'deletions', 'formatting'].map(column =>
+        createElement('th', {}, [editor.t(`trackChanges.${column}`)])
+      ))
+    ]));
+    const body = createElement('tbody');
+    summary.authors.forEach(({ author, insert, delete: deleted, format }) => {
+      const row = createElement('tr', {}, [
+        createElement('td', {}, [author]),
+        createElement('td', {}, [String(insert)]),
+        createElement('td', {}, [String(deleted)]),
+        createElement('td', {}, [String(format)])
+      ]);
+      row.firstElementChild!.setAttribute('style', `color: ${this.getAuthorColor(author)}`);
+      body.appendChild(row);
+    });
+    table.appendChild(body);
+
+    const original = createElement('div', { className: 'xeditor-changes-summary-preview' });
+    original.innerHTML = summary.original;
+    const merged = createElement('div', { className: 'xeditor-changes-summary-preview' });
+    merged.innerHTML = summary.merged;
+
+    const compare = createElement('div', { className: 'xeditor-changes-summary-compare' }, [
+      createElement('div', {}, [createElement('h4', {}, [editor.t('trackChanges.original')]), original]),
+      createElement('div', {}, [createElement('h4', {}, [editor.t('trackChanges.merged')]), merged])
+    ]);
+
+    const mergeBtn = createElement('button', { type: 'button', className: 'xeditor-changes-summary-merge' }, [
+      editor.t('trackChanges.mergeAll')
+    ]);
+    mergeBtn.addEventListener('click', () => {
+      close();
+      this.resolveChanges(Array.from(this.changes.keys()), true);
+    });
+    const discardBtn = createElement('button', { type: 'button' }, [editor.t('trackChanges.discardAll')]);
+    discardBtn.addEventListener('click', () => {
+      close();
+      this.resolveChanges(Array.from(this.changes.keys()), false);
+    });
+    const cancelBtn = createElement('button', { type: 'button' }, [editor.t('common.cancel')]);
+    cancelBtn.addEventListener('click', close);
+
+    if (summary.total === 0) {
+      mergeBtn.setAttribute('disabled', '');
+      discardBtn.setAttribute('disabled', '');
     }
+
+    dialog.appendChild(closeBtn);
+    dialog.appendChild(createElement('h3', {}, [editor.t('trackChanges.summaryTitle', { count: summary.total })]));
+    dialog.appendChild(table);
+    dialog.appendChild(compare);
+    dialog.appendChild(createElement('div', { className: 'xeditor-changes-summary-actions' }, [
+      cancelBtn, discardBtn, mergeBtn
+    ]));
+    overlay.appendChild(dialog);
+
+    overlay.addEventListener('click', e => {
+      if (e.target === overlay) close();
+    });
+    document.addEventListener('keydown', handleEscape);
+
+    this.summaryDialog = overlay;
+    document.body.appendChild(overlay);
+  }
+
+  private toggleTracking(): void {
+    this.setMode(this.isTracking ? 'editing' : 'suggesting');
   }
 
   private toggleChangesList(): void {
     if (!this.changesList) return;
-    
+
     const isVisible = this.changesList.style.display === 'block';
     this.changesList.style.display = isVisible ? 'none' : 'block';
-    
+
     if (!isVisible) {
       this.updateChangesList();
     }
@@ -671,19 +1525,6 @@ class TrackChangesPluginImpl implements Plugin {
     }
   }
 
-  private removeAllChangeMarks(): void {
-    if (!this.editor) return;
-
-    const marks = this.editor.contentElement.querySelectorAll('.xeditor-insert, .xeditor-delete');
-    marks.forEach(mark => {
-      const parent = mark.parentNode;
-      while (mark.firstChild) {
-        parent?.insertBefore(mark.firstChild, mark);
-      }
-      parent?.removeChild(mark);
-    });
-  }
-
   private formatDate(date: Date): string {
     return date.toLocaleString();
   }
@@ -695,31 +1536,18 @@ class TrackChangesPluginImpl implements Plugin {
   private addStyles(): void {
     const style = createElement('style');
     style.textContent = `
-      .xeditor-insert {
-        position: relative;
+      .xeditor-content ins[data-change-id] {
+        text-decoration: none;
       }
-      
-      .xeditor-insert:hover::after {
-        content: attr(title);
-        position: absolute;
-        bottom: 100%;
-        left: 0;
-        background: #333;
-        color: white;
-        padding: 4px 8px;
-        border-radius: 4px;
-        font-size: 12px;
-        white-space: nowrap;
-        z-index: 1000;
-        pointer-events: none;
-      }
-      
-      .xeditor-delete {
+
+      .xeditor-content [data-change-id] {
         position: relative;
       }
-      
-      .xeditor-delete:hover::after {
-        content: attr(title);
+      ${this.config.showAuthors ? `
+      .xeditor-content ins[data-change-id]:hover::after,
+      .xeditor-content del[data-change-id]:hover::after,
+      .xeditor-content .${FORMAT_CLASS}:hover::after {
+        content: attr(data-author);
         position: absolute;
         bottom: 100%;
         left: 0;
@@ -731,19 +1559,136 @@ class TrackChangesPluginImpl implements Plugin {
         white-space: nowrap;
         z-index: 1000;
         pointer-events: none;
-      }
-      
+        text-decoration: none;
+      }` : ''}
+
       .xeditor-changes-list {
         transition: transform 0.3s ease;
       }
-      
+
       .xeditor-change:hover {
         box-shadow: 0 2px 5px rgba(0,0,0,0.1);
       }
-      
+
       .xeditor-change button:hover {
         opacity: 0.9;
       }
+
+      .xeditor-change {
+        cursor: pointer;
+      }
+
+      .xeditor-change--active {
+        outline: 2px solid #007bff;
+      }
+
+      .xeditor-changes-controls {
+        display: flex;
+        gap: 6px;
+        padding: 10px 15px;
+        border-bottom: 1px solid #ddd;
+        background: #fff;
+      }
+
+      .xeditor-changes-mode {
+        flex: 1;
+      }
+
+      .xeditor-changes-author-name {
+        flex: 1;
+      }
+
+      .xeditor-changes-author button {
+        font-size: 11px;
+        font-weight: normal;
+        cursor: pointer;
+      }
+
+      .xeditor-changes-summary-overlay {
+        position: fixed;
+        top: 0;
+        left: 0;
+        right: 0;
+        bottom: 0;
+        background-color: rgba(0, 0, 0, 0.5);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 10000;
+      }
+
+      .xeditor-changes-summary-dialog {
+        position: relative;
+        background-color: white;
+        border-radius: 8px;
+        box-shadow: 0 4px 20px rgba(0, 0, 0, 0.3);
+        width: 800px;
+        max-width: 90vw;
+        max-height: 80vh;
+        overflow-y: auto;
+        padding: 20px;
+      }
+
+      .xeditor-changes-summary-dialog h3 {
+        margin: 0 0 15px 0;
+      }
+
+      .xeditor-changes-summary-close {
+        position: absolute;
+        top: 10px;
+        right: 10px;
+        background: none;
+        border: none;
+        font-size: 24px;
+        cursor: pointer;
+        color: #666;
+      }
+
+      .xeditor-changes-summary-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-bottom: 15px;
+      }
+
+      .xeditor-changes-summary-table th,
+      .xeditor-changes-summary-table td {
+        padding: 6px 8px;
+        border-bottom: 1px solid #eee;
+        text-align: left;
+      }
+
+      .xeditor-changes-summary-compare {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: 15px;
+      }
+
+      .xeditor-changes-summary-compare h4 {
+        margin: 0 0 8px 0;
+      }
+
+      .xeditor-changes-summary-preview {
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        padding: 10px;
+        max-height: 300px;
+        overflow-y: auto;
+      }
+
+      .xeditor-changes-summary-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 8px;
+        margin-top: 15px;
+      }
+
+      .xeditor-changes-summary-merge {
+        background: #28a745;
+        color: white;
+        border: none;
+        border-radius: 3px;
+        padding: 4px 12px;
+      }
     `;
     document.head.appendChild(style);
   }
@@ -795,12 +1740,39 @@ class TrackChangesPluginImpl implements Plugin {
     rejectAllChanges: {
       execute: () => this.rejectAllChanges(),
       canExecute: () => this.changes.size > 0
+    },
+    setTrackChangesMode: {
+      execute: (mode: TrackChangesMode) => this.setMode(mode),
+      queryState: () => this.isTracking
+    },
+    nextChange: {
+      execute: () => this.nextChange(),
+      canExecute: () => this.changes.size > 0
+    },
+    previousChange: {
+      execute: () => this.previousChange(),
+      canExecute: () => this.changes.size > 0
+    },
+    acceptChangesInSelection: {
+      execute: () => this.acceptChangesInSelection(),
+      canExecute: () => this.changes.size > 0
+    },
+    rejectChangesInSelection: {
+      execute: () => this.rejectChangesInSelection(),
+      canExecute: () => this.changes.size > 0
+    },
+    showChangesSummary: {
+      execute: () => this.showSummary()
     }
   };
 
   shortcuts = {
     'Ctrl+Shift+E': 'toggleTracking',
-    'Cmd+Shift+E': 'toggleTracking'
+    'Cmd+Shift+E': 'toggleTracking',
+    'Ctrl+Alt+ArrowDown': 'nextChange',
+    'Cmd+Alt+ArrowDown': 'nextChange',
+    'Ctrl+Alt+ArrowUp': 'previousChange',
+    'Cmd+Alt+ArrowUp': 'previousChange'
   };
 }
 
@@ -810,4 +1782,4 @@ export class TrackChangesPlugin extends TrackChangesPluginImpl {}
 // Export factory function
 export default function createTrackChangesPlugin(config?: Partial<TrackChangesConfig>): Plugin {
   return new TrackChangesPlugin(config);
-}
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'trackChanges.mode': 'Mode',
+    'trackChanges.editing': 'Editing',
+    'trackChanges.suggesting': 'Suggesting',
+    'trackChanges.previous': 'Previous Change',
+    'trackChanges.next': 'Next Change',
+    'trackChanges.compareMerge': 'Compare & Merge',
+    'trackChanges.acceptAll': 'Accept all',
+    'trackChanges.rejectAll': 'Reject all',
+    'trackChanges.acceptAllBy': 'Accept all changes by {author}',
+    'trackChanges.rejectAllBy': 'Reject all changes by {author}',
+    'trackChanges.acceptAllConfirm': 'Accept all changes?',
+    'trackChanges.rejectAllConfirm': 'Reject all changes?',
+    'trackChanges.summaryTitle': {
+      one: 'Compare and Merge ({count} change)',
+      other: 'Compare and Merge ({count} changes)'
+    },
+    'trackChanges.author': 'Author',
+    'trackChanges.insertions': 'Insertions',
+    'trackChanges.deletions': 'Deletions',
+    'trackChanges.formatting': 'Formatting',
+    'trackChanges.original': 'Original',
+    'trackChanges.merged': 'Merged',
+    'trackChanges.mergeAll': 'Merge All',
+    'trackChanges.discardAll': 'Discard All',
+    'trackChanges.toggle': 'Track Changes',
+    'trackChanges.showChanges': 'Show Changes',
+    'trackChanges.acceptAllChanges': 'Accept All Changes',
+    'trackChanges.rejectAllChanges': 'Reject All Changes'
+  },
+  de: {
+    'trackChanges.mode': 'Modus',
+    'trackChanges.editing': 'Bearbeiten',
+    'trackChanges.suggesting': 'Vorschlagen',
+    'trackChanges.previous': 'Vorherige Änderung',
+    'trackChanges.next': 'Nächste Änderung',
+    'trackChanges.compareMerge': 'Vergleichen und zusammenführen',
+    'trackChanges.acceptAll': 'Alle annehmen',
+    'trackChanges.rejectAll': 'Alle ablehnen',
+    'trackChanges.acceptAllBy': 'Alle Änderungen von {author} annehmen',
+    'trackChanges.rejectAllBy': 'Alle Änderungen von {author} ablehnen',
+    'trackChanges.acceptAllConfirm': 'Alle Änderungen annehmen?',
+    'trackChanges.rejectAllConfirm': 'Alle Änderungen ablehnen?',
+    'trackChanges.summaryTitle': {
+      one: 'Vergleichen und zusammenführen ({count} Änderung)',
+      other: 'Vergleichen und zusammenführen ({count} Änderungen)'
+    },
+    'trackChanges.author': 'Autor',
+    'trackChanges.insertions': 'Einfügungen',
+    'trackChanges.deletions': 'Löschungen',
+    'trackChanges.formatting': 'Formatierung',
+    'trackChanges.original': 'Original',
+    'trackChanges.merged': 'Zusammengeführt',
+    'trackChanges.mergeAll': 'Alle zusammenführen',
+    'trackChanges.discardAll': 'Alle verwerfen',
+    'trackChanges.toggle': 'Änderungen nachverfolgen',
+    'trackChanges.showChanges': 'Änderungen anzeigen',
+    'trackChanges.acceptAllChanges': 'Alle Änderungen annehmen',
+    'trackChanges.rejectAllChanges': 'Alle Änderungen ablehnen'
+  },
+  ja: {
+    'trackChanges.mode': 'モード',
+    'trackChanges.editing': '編集',
+    'trackChanges.suggesting': '提案',
+    'trackChanges.previous': '前の変更',
+    'trackChanges.next': '次の変更',
+    'trackChanges.compareMerge': '比較と統合',
+    'trackChanges.acceptAll': 'すべて承諾',
+    'trackChanges.rejectAll': 'すべて却下',
+    'trackChanges.acceptAllBy': '{author} の変更をすべて承諾',
+    'trackChanges.rejectAllBy': '{author} の変更をすべて却下',
+    'trackChanges.acceptAllConfirm': 'すべての変更を承諾しますか？',
+    'trackChanges.rejectAllConfirm': 'すべての変更を却下しますか？',
+    'trackChanges.summaryTitle': {
+      other: '比較と統合（{count} 件の変更）'
+    },
+    'trackChanges.author': '作成者',
+    'trackChanges.insertions': '挿入',
+    'trackChanges.deletions': '削除',
+    'trackChanges.formatting': '書式',
+    'trackChanges.original': '元の内容',
+    'trackChanges.merged': '統合後',
+    'trackChanges.mergeAll': 'すべて統合',
+    'trackChanges.discardAll': 'すべて破棄',
+    'trackChanges.toggle': '変更履歴の記録',
+    'trackChanges.showChanges': '変更を表示',
+    'trackChanges.acceptAllChanges': 'すべての変更を承諾',
+    'trackChanges.rejectAllChanges': 'すべての変更を拒否'
+  },
+  ar: {
+    'trackChanges.mode': 'الوضع',
+    'trackChanges.editing': 'تحرير',
+    'trackChanges.suggesting': 'اقتراح',
+    'trackChanges.previous': 'التغيير السابق',
+    'trackChanges.next': 'التغيير التالي',
+    'trackChanges.compareMerge': 'مقارنة ودمج',
+    'trackChanges.acceptAll': 'قبول الكل',
+    'trackChanges.rejectAll': 'رفض الكل',
+    'trackChanges.acceptAllBy': 'قبول كل تغييرات {author}',
+    'trackChanges.rejectAllBy': 'رفض كل تغييرات {author}',
+    'trackChanges.acceptAllConfirm': 'هل تريد قبول كل التغييرات؟',
+    'trackChanges.rejectAllConfirm': 'هل تريد رفض كل التغييرات؟',
+    'trackChanges.summaryTitle': {
+      zero: 'مقارنة ودمج (لا توجد تغييرات)',
+      one: 'مقارنة ودمج (تغيير واحد)',
+      two: 'مقارنة ودمج (تغييران)',
+      few: 'مقارنة ودمج ({count} تغييرات)',
+      many: 'مقارنة ودمج ({count} تغييرًا)',
+      other: 'مقارنة ودمج ({count} تغيير)'
+    },
+    'trackChanges.author': 'المؤلف',
+    'trackChanges.insertions': 'الإضافات',
+    'trackChanges.deletions': 'الحذوفات',
+    'trackChanges.formatting': 'التنسيق',
+    'trackChanges.original': 'الأصل',
+    'trackChanges.merged': 'بعد الدمج',
+    'trackChanges.mergeAll': 'دمج الكل',
+    'trackChanges.discardAll': 'تجاهل الكل',
+    'trackChanges.toggle': 'تتبع التغييرات',
+    'trackChanges.showChanges': 'إظهار التغييرات',
+    'trackChanges.acceptAllChanges': 'قبول كل التغييرات',
+    'trackChanges.rejectAllChanges': 'رفض كل التغييرات'
+  }
+};
@@ -0,0 +1,285 @@
+import { BlockDiff, DiffSegment, DocNode, DocumentJSON, VersionDiff } from '../../types';
+import { MODEL_VERSION, nodeSpecs, serializeHTML } from '../../core/model';
+
+// Words, runs of whitespace and single punctuation characters
+const TOKEN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+// Larger comparisons are treated as a full replacement to stay responsive
+const MAX_TABLE_SIZE = 4000000;
+// Share of words two blocks need in common to count as one block modified
+const MIN_SIMILARITY = 0.4;
+
+function blockHTML(node: DocNode): string {
+  return serializeHTML({ type: 'doc', version: MODEL_VERSION, content: [node] });
+}
+
+// Plain text of a node; nested blocks are separated by line breaks
+export function blockText(node: DocNode): string {
+  if (node.type === 'text') return node.text || '';
+  if (node.type === 'hard_break') return '\n';
+  if (!node.content) return '';
+
+  const inline = node.content.every(child => nodeSpecs[child.type]?.group === 'inline');
+  return node.content.map(blockText).join(inline ? '' : '\n');
+}
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN) || [];
+}
+
+/**
+ * Longest common subsequence of two lists, as pairs of matching indexes.
+ * Matching ends are trimmed first, since most edits touch a small part.
+ */
+function matchSequences<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> {
+  let start = 0;
+  while (start < a.length && start < b.length && equal(a[start], b[start])) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < a.length - start && end < b.length - start &&
+    equal(a[a.length - 1 - end], b[b.length - 1 - end])
+  ) {
+    end++;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) {
+    pairs.push([i, i]);
+  }
+
+  const n = a.length - start - end;
+  const m = b.length - start - end;
+  if (n > 0 && m > 0 && n * m <= MAX_TABLE_SIZE) {
+    // lengths[i][j]: LCS of a[start + i..] and b[start + j..]
+    const lengths = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = equal(a[start + i], b[start + j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (equal(a[start + i], b[start + j])) {
+        pairs.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  for (let i = end; i > 0; i--) {
+    pairs.push([a.length - i, b.length - i]);
+  }
+  return pairs;
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Groups each run of changes into one deletion followed by one insertion.
+ * Whitespace alone between two changes joins them, so replacing a phrase
+ * reads as one edit rather than alternating words.
+ */
+function cleanupSegments(segments: DiffSegment[]): DiffSegment[] {
+  const result: DiffSegment[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flush = () => {
+    pushSegment(result, 'delete', deleted);
+    pushSegment(result, 'insert', inserted);
+    deleted = '';
+    inserted = '';
+  };
+
+  segments.forEach((segment, index) => {
+    if (segment.type === 'delete') {
+      deleted += segment.text;
+    } else if (segment.type === 'insert') {
+      inserted += segment.text;
+    } else if (
+      !segment.text.trim() && (deleted || inserted) &&
+      index < segments.length - 1 && segments[index + 1].type !== 'equal'
+    ) {
+      deleted += segment.text;
+      inserted += segment.text;
+    } else {
+      flush();
+      pushSegment(result, 'equal', segment.text);
+    }
+  });
+  flush();
+
+  return result;
+}
+
+/** Word-level differences between two texts. */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const pairs = matchSequences(a, b, (x, y) => x === y);
+  const segments: DiffSegment[] = [];
+
+  let i = 0;
+  let j = 0;
+  pairs.concat([[a.length, b.length]]).forEach(([nextI, nextJ]) => {
+    pushSegment(segments, 'delete', a.slice(i, nextI).join(''));
+    pushSegment(segments, 'insert', b.slice(j, nextJ).join(''));
+    if (nextI < a.length) {
+      pushSegment(segments, 'equal', a[nextI]);
+    }
+    i = nextI + 1;
+    j = nextJ + 1;
+  });
+
+  return cleanupSegments(segments);
+}
+
+// Dice coefficient of the words of two texts
+function similarity(before: string, after: string): number {
+  const a = tokenize(before).filter(token => token.trim());
+  const b = tokenize(after).filter(token => token.trim());
+  if (a.length === 0 && b.length === 0) return 1;
+
+  const counts = new Map<string, number>();
+  a.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  let common = 0;
+  b.forEach(token => {
+    const count = counts.get(token) || 0;
+    if (count > 0) {
+      common++;
+      counts.set(token, count - 1);
+    }
+  });
+  return (2 * common) / (a.length + b.length);
+}
+
+interface Block {
+  html: string;
+  text: string;
+  type: string;
+}
+
+function toBlock(node: DocNode): Block {
+  return { html: blockHTML(node), text: blockText(node), type: node.type };
+}
+
+/**
+ * Compares two documents block by block and the words of blocks that were
+ * edited. Blocks are compared on their normalized markup, so attribute
+ * order, stray spans and whitespace in the HTML do not count as changes.
+ */
+export function diffDocuments(before: DocumentJSON, after: DocumentJSON): VersionDiff {
+  const oldBlocks = before.content.map(toBlock);
+  const newBlocks = after.content.map(toBlock);
+  const pairs = matchSequences(oldBlocks, newBlocks, (x, y) => x.html === y.html);
+  const blocks: BlockDiff[] = [];
+
+  const added = (index: number) => {
+    blocks.push({
+      type: 'added',
+      newIndex: index,
+      newHTML: newBlocks[index].html,
+      segments: [{ type: 'insert', text: newBlocks[index].text }]
+    });
+  };
+
+  // Blocks between two matches are paired up when they look alike
+  const compareGap = (oldStart: number, oldEnd: number, newStart: number, newEnd: number) => {
+    let j = newStart;
+    for (let i = oldStart; i < oldEnd; i++) {
+      const old = oldBlocks[i];
+      let match = -1;
+      for (let k = j; k < newEnd; k++) {
+        if (newBlocks[k].type === old.type && similarity(old.text, newBlocks[k].text) >= MIN_SIMILARITY) {
+          match = k;
+          break;
+        }
+      }
+
+      if (match === -1) {
+        blocks.push({
+          type: 'removed',
+          oldIndex: i,
+          newIndex: j,
+          oldHTML: old.html,
+          segments: [{ type: 'delete', text: old.text }]
+        });
+        continue;
+      }
+
+      for (; j < match; j++) {
+        added(j);
+      }
+      blocks.push({
+        type: 'modified',
+        oldIndex: i,
+        newIndex: match,
+        oldHTML: old.html,
+        newHTML: newBlocks[match].html,
+        segments: diffWords(old.text, newBlocks[match].text)
+      });
+      j = match + 1;
+    }
+    for (; j < newEnd; j++) {
+      added(j);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  pairs.concat([[oldBlocks.length, newBlocks.length]]).forEach(([nextI, nextJ]) => {
+    compareGap(i, nextI, j, nextJ);
+    if (nextI < oldBlocks.length) {
+      blocks.push({
+        type: 'equal',
+        oldIndex: nextI,
+        newIndex: nextJ,
+        oldHTML: oldBlocks[nextI].html,
+        newHTML: newBlocks[nextJ].html,
+        segments: [{ type: 'equal', text: oldBlocks[nextI].text }]
+      });
+    }
+    i = nextI + 1;
+    j = nextJ + 1;
+  });
+
+  return {
+    added: blocks.filter(block => block.type === 'added').map(block => newBlocks[block.newIndex!].text),
+    removed: blocks.filter(block => block.type === 'removed').map(block => oldBlocks[block.oldIndex!].text),
+    modified: blocks.filter(block => block.type === 'modified').map(block =>
+      `${oldBlocks[block.oldIndex!].text} → ${newBlocks[block.newIndex!].text}`
+    ),
+    blocks
+  };
+}
+
+/**
+ * Keeps every block of both documents in order. Blocks edited on both
+ * sides take the wording of `other`, since it is the one being merged in.
+ */
+export function mergeDocuments(base: DocumentJSON, other: DocumentJSON): DocumentJSON {
+  const content = diffDocuments(base, other).blocks.map(block =>
+    block.type === 'added' || block.type === 'modified'
+      ? other.content[block.newIndex!]
+      : base.content[block.oldIndex!]
+  );
+  return { ...base, content };
+}
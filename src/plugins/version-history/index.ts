@@ -1,74 +1,37 @@
-import { Plugin, Editor, VersionHistoryConfig, VersionHistoryStorage, Version, VersionDiff } from '../../types';
-
-// Default localStorage implementation
-class LocalStorageVersionHistory implements VersionHistoryStorage {
-  private storageKey = 'xeditor-versions';
-
-  async save(version: Version): Promise<void> {
-    try {
-      const versions = await this.loadAll();
-      versions.push(version);
-      localStorage.setItem(this.storageKey, JSON.stringify(versions));
-    } catch (error) {
-      throw new Error(`Failed to save version: ${error}`);
-    }
-  }
-
-  async load(id: string): Promise<Version | null> {
-    try {
-      const versions = await this.loadAll();
-      const version = versions.find(v => v.id === id);
-      return version || null;
-    } catch (error) {
-      console.error('Failed to load version:', error);
-      return null;
-    }
-  }
-
-  async loadAll(): Promise<Version[]> {
-    try {
-      const data = localStorage.getItem(this.storageKey);
-      if (!data) return [];
-      
-      const versions = JSON.parse(data);
-      // Convert timestamp strings back to Date objects
-      return versions.map((v: any) => ({
-        ...v,
-        timestamp: new Date(v.timestamp)
-      }));
-    } catch (error) {
-      console.error('Failed to load versions:', error);
-      return [];
-    }
-  }
-
-  async delete(id: string): Promise<void> {
-    try {
-      const versions = await this.loadAll();
-      const filtered = versions.filter(v => v.id !== id);
-      localStorage.setItem(this.storageKey, JSON.stringify(filtered));
-    } catch (error) {
-      throw new Error(`Failed to delete version: ${error}`);
-    }
-  }
-
-  async deleteAll(): Promise<void> {
-    try {
-      localStorage.removeItem(this.storageKey);
-    } catch (error) {
-      throw new Error(`Failed to delete all versions: ${error}`);
-    }
-  }
-}
+import {
+  Plugin,
+  Editor,
+  VersionHistoryConfig,
+  VersionHistoryStorage,
+  Version,
+  VersionDiff,
+  BlockDiff,
+  DiffSegment
+} from '../../types';
+import { parseHTML } from '../../core/model';
+import { diffDocuments } from './diff';
+import { createVersionHistoryStorage } from './storage';
+import { isQuotaError } from '../../utils/indexeddb';
+import { messages } from './messages';
+
+const DIFF_COLORS: Record<BlockDiff['type'], string> = {
+  equal: '#ddd',
+  added: '#4CAF50',
+  removed: '#f44336',
+  modified: '#FF9800'
+};
 
 class VersionHistoryPluginImpl implements Plugin {
   name = 'version-history';
   private editor: Editor | null = null;
   private config: VersionHistoryConfig;
-  private storage: VersionHistoryStorage;
+  private storage!: VersionHistoryStorage;
   private panel: HTMLElement | null = null;
   private isPanelOpen = false;
   private autoSaveInterval: number | null = null;
+  private hasChanges = false;
+  private diffDialog: HTMLElement | null = null;
+  private diffView: 'inline' | 'side-by-side' = 'side-by-side';
 
   constructor(config?: Partial<VersionHistoryConfig>) {
     this.config = {
@@ -78,26 +41,31 @@ class VersionHistoryPluginImpl implements Plugin {
       autoSaveInterval: 300000, // 5 minutes
       ...config
     };
-    
-    this.storage = this.config.storageBackend || new LocalStorageVersionHistory();
   }
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
+
+    const containerId = typeof editor.config.container === 'string'
+      ? editor.config.container
+      : editor.container.id || 'default';
+    this.storage = this.config.storageBackend ||
+      createVersionHistoryStorage(`xeditor-versions-${this.config.documentId || containerId}`);
 
     // Add toolbar button
     if (editor.toolbar) {
       editor.toolbar.addItem({
         name: 'version-history',
         icon: this.getHistoryIcon(),
-        tooltip: 'Version History',
+        tooltip: editor.t('versionHistory.title'),
         onClick: () => this.togglePanel()
       });
     }
 
-    // Track content changes
-    editor.on('change', () => {
-      // Content tracking handled by getContent() when needed
+    // Track content changes through the editor's change stream
+    editor.on('history:transaction', () => {
+      this.hasChanges = true;
     });
 
     // Start auto-save versions if enabled
@@ -114,6 +82,61 @@ class VersionHistoryPluginImpl implements Plugin {
     if (this.panel) {
       this.panel.remove();
     }
+    this.diffDialog?.remove();
+  }
+
+  /**
+   * Brings back one block of a comparison with the current content: a
+   * removed or modified block is restored from the version and an added
+   * block is removed. `blockIndex` points into the `blocks` of that diff.
+   */
+  async restoreBlock(id: string, blockIndex: number): Promise<void> {
+    if (!this.editor) return;
+
+    const version = await this.storage.load(id);
+    if (!version) {
+      alert(this.editor.t('versionHistory.notFound'));
+      return;
+    }
+
+    this.applyBlock(version, blockIndex);
+  }
+
+  /**
+   * Shows how other content, such as another copy of the document, differs
+   * from the editor, with the same per-block restore as for versions.
+   */
+  compareWith(content: string, description: string): void {
+    if (!this.editor) return;
+
+    const version: Version = {
+      id: `compare-${this.generateId()}`,
+      content,
+      timestamp: new Date(),
+      size: new TextEncoder().encode(content).length,
+      description
+    };
+    this.showDiffDialog(version, this.computeDiff(content, this.editor.getContent({ format: 'html' })));
+  }
+
+  private applyBlock(version: Version, blockIndex: number): void {
+    if (!this.editor) return;
+
+    const oldDoc = parseHTML(version.content);
+    const doc = this.editor.getJSON();
+    const block = diffDocuments(oldDoc, doc).blocks[blockIndex];
+    if (!block || block.type === 'equal') return;
+
+    if (block.type === 'added') {
+      doc.content.splice(block.newIndex!, 1);
+    } else {
+      doc.content.splice(block.newIndex!, block.type === 'modified' ? 1 : 0, oldDoc.content[block.oldIndex!]);
+    }
+
+    this.editor.history.transact('versionHistory', () => {
+      this.editor!.setJSON(doc);
+    });
+    this.editor.emit('version:block-restored', { version, block });
   }
 
   private createPanel(): void {
@@ -375,8 +398,10 @@ class VersionHistoryPluginImpl implements Plugin {
   }
 
   private showSaveVersionDialog(): void {
-    const description = prompt('Enter a description for this version (optional):');
-    const tags = prompt('Enter tags (comma-separated, optional):');
+    if (!this.editor) return;
+
+    const description = prompt(this.editor.t('versionHistory.descriptionPrompt'));
+    const tags = prompt(this.editor.t('versionHistory.tagsPrompt'));
     
     this.saveVersion(description || undefined, tags ? tags.split(',').map(t => t.trim()) : undefined);
   }
@@ -384,7 +409,7 @@ class VersionHistoryPluginImpl implements Plugin {
   private async saveVersion(description?: string, tags?: string[]): Promise<void> {
     if (!this.editor) return;
 
-    const content = this.editor.getContent();
+    const content = this.editor.getContent({ format: 'html' });
     const version: Version = {
       id: this.generateId(),
       content,
@@ -395,14 +420,44 @@ class VersionHistoryPluginImpl implements Plugin {
     };
 
     try {
-      await this.storage.save(version);
+      await this.saveWithinQuota(version);
+      this.hasChanges = false;
       await this.refreshVersionList();
       
       this.editor.emit('version:saved', version);
-      alert('Version saved successfully!');
+      alert(this.editor.t('versionHistory.saved'));
     } catch (error) {
       console.error('Failed to save version:', error);
-      alert('Failed to save version. Please try again.');
+      alert(this.editor.t('versionHistory.saveFailed'));
+    }
+  }
+
+  /**
+   * Saves a version, making room by dropping the oldest versions when the
+   * storage is full, auto-saved ones first.
+   */
+  private async saveWithinQuota(version: Version): Promise<void> {
+    const removed: Version[] = [];
+
+    for (;;) {
+      try {
+        await this.storage.save(version);
+        break;
+      } catch (error) {
+        if (!isQuotaError(error)) throw error;
+
+        const versions = await this.storage.loadAll();
+        versions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        const oldest = versions.find(v => v.tags?.includes('auto')) || versions[0];
+        if (!oldest) throw error;
+
+        await this.storage.delete(oldest.id);
+        removed.push(oldest);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.editor?.emit('version:quota-exceeded', { version, removed });
     }
   }
 
@@ -411,46 +466,50 @@ class VersionHistoryPluginImpl implements Plugin {
 
     const version = await this.storage.load(id);
     if (!version) {
-      alert('Version not found!');
+      alert(this.editor.t('versionHistory.notFound'));
       return;
     }
 
-    const confirm = window.confirm('Are you sure you want to restore this version? Current changes will be lost.');
+    const confirm = window.confirm(this.editor.t('versionHistory.restoreConfirm'));
     if (!confirm) return;
 
     this.editor.setContent(version.content);
     this.editor.emit('version:restored', version);
     
     this.togglePanel();
-    alert('Version restored successfully!');
+    alert(this.editor.t('versionHistory.restored'));
   }
 
   private async deleteVersion(id: string): Promise<void> {
-    const confirm = window.confirm('Are you sure you want to delete this version?');
+    if (!this.editor) return;
+
+    const confirm = window.confirm(this.editor.t('versionHistory.deleteConfirm'));
     if (!confirm) return;
 
     try {
       await this.storage.delete(id);
       await this.refreshVersionList();
-      this.editor?.emit('version:deleted', { id });
+      this.editor.emit('version:deleted', { id });
     } catch (error) {
       console.error('Failed to delete version:', error);
-      alert('Failed to delete version. Please try again.');
+      alert(this.editor.t('versionHistory.deleteFailed'));
     }
   }
 
   private async clearAllVersions(): Promise<void> {
-    const confirm = window.confirm('Are you sure you want to delete all versions? This cannot be undone.');
+    if (!this.editor) return;
+
+    const confirm = window.confirm(this.editor.t('versionHistory.clearConfirm'));
     if (!confirm) return;
 
     try {
       await this.storage.deleteAll();
       await this.refreshVersionList();
-      this.editor?.emit('version:cleared');
-      alert('All versions cleared successfully!');
+      this.editor.emit('version:cleared');
+      alert(this.editor.t('versionHistory.cleared'));
     } catch (error) {
       console.error('Failed to clear versions:', error);
-      alert('Failed to clear versions. Please try again.');
+      alert(this.editor.t('versionHistory.clearFailed'));
     }
   }
 
@@ -459,42 +518,26 @@ class VersionHistoryPluginImpl implements Plugin {
 
     const version = await this.storage.load(id);
     if (!version) {
-      alert('Version not found!');
+      alert(this.editor.t('versionHistory.notFound'));
       return;
     }
 
-    const currentContent = this.editor.getContent();
-    const diff = this.computeDiff(version.content, currentContent);
-    
+    const diff = this.computeDiff(version.content, this.editor.getContent({ format: 'html' }));
+
     this.showDiffDialog(version, diff);
   }
 
   private computeDiff(oldContent: string, newContent: string): VersionDiff {
-    // Simple line-based diff
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-    
-    const added: string[] = [];
-    const removed: string[] = [];
-    const modified: string[] = [];
-
-    const maxLength = Math.max(oldLines.length, newLines.length);
-    
-    for (let i = 0; i < maxLength; i++) {
-      if (i >= oldLines.length) {
-        added.push(`Line ${i + 1}: ${newLines[i]}`);
-      } else if (i >= newLines.length) {
-        removed.push(`Line ${i + 1}: ${oldLines[i]}`);
-      } else if (oldLines[i] !== newLines[i]) {
-        modified.push(`Line ${i + 1}: ${oldLines[i]} → ${newLines[i]}`);
-      }
-    }
-
-    return { added, removed, modified };
+    return diffDocuments(parseHTML(oldContent), parseHTML(newContent));
   }
 
   private showDiffDialog(version: Version, diff: VersionDiff): void {
+    if (!this.editor) return;
+    const editor = this.editor;
+    this.diffDialog?.remove();
+
     const dialog = document.createElement('div');
+    dialog.className = 'xeditor-version-diff';
     dialog.style.cssText = `
       position: fixed;
       top: 50%;
@@ -504,47 +547,195 @@ class VersionHistoryPluginImpl implements Plugin {
       border: 1px solid #ddd;
       border-radius: 5px;
       padding: 20px;
-      max-width: 600px;
+      width: 900px;
+      max-width: 90vw;
       max-height: 80vh;
       overflow-y: auto;
       z-index: 2000;
       box-shadow: 0 2px 10px rgba(0,0,0,0.1);
     `;
 
-    dialog.innerHTML = `
-      <h3 style="margin-top: 0;">Compare with ${version.description || 'Version ' + version.id.substring(0, 8)}</h3>
-      <div style="margin-bottom: 15px;">
-        <h4 style="color: #4CAF50;">Added (${diff.added.length})</h4>
-        <pre style="background: #e8f5e9; padding: 10px; border-radius: 3px; overflow-x: auto;">
-${diff.added.join('\n') || 'None'}</pre>
-      </div>
-      <div style="margin-bottom: 15px;">
-        <h4 style="color: #f44336;">Removed (${diff.removed.length})</h4>
-        <pre style="background: #ffebee; padding: 10px; border-radius: 3px; overflow-x: auto;">
-${diff.removed.join('\n') || 'None'}</pre>
-      </div>
-      <div style="margin-bottom: 15px;">
-        <h4 style="color: #FF9800;">Modified (${diff.modified.length})</h4>
-        <pre style="background: #fff3e0; padding: 10px; border-radius: 3px; overflow-x: auto;">
-${diff.modified.join('\n') || 'None'}</pre>
-      </div>
-      <button style="
-        padding: 8px 16px;
+    const title = document.createElement('h3');
+    title.style.cssText = 'margin-top: 0;';
+    title.textContent = editor.t('versionHistory.compareWith', {
+      name: version.description || editor.t('versionHistory.versionName', { id: version.id.substring(0, 8) })
+    });
+
+    const summary = document.createElement('div');
+    summary.style.cssText = 'margin-bottom: 15px; font-size: 13px; color: #666;';
+    (['added', 'removed', 'modified'] as const).forEach((type, index) => {
+      if (index > 0) summary.appendChild(document.createTextNode(' · '));
+      const count = document.createElement('span');
+      count.textContent = editor.t(`versionHistory.${type}`, { count: diff[type].length });
+      count.style.color = DIFF_COLORS[type];
+      summary.appendChild(count);
+    });
+
+    const views = document.createElement('div');
+    views.style.cssText = 'display: flex; gap: 5px; margin-bottom: 15px;';
+    (['side-by-side', 'inline'] as const).forEach(view => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = editor.t(view === 'inline' ? 'versionHistory.inline' : 'versionHistory.sideBySide');
+      button.style.cssText = `
+        padding: 4px 10px;
+        border: 1px solid #2196F3;
+        border-radius: 3px;
+        cursor: pointer;
+        font-size: 12px;
+        background: ${view === this.diffView ? '#2196F3' : 'white'};
+        color: ${view === this.diffView ? 'white' : '#2196F3'};
+      `;
+      button.addEventListener('click', () => {
+        this.diffView = view;
+        this.showDiffDialog(version, diff);
+      });
+      views.appendChild(button);
+    });
+
+    const body = document.createElement('div');
+    body.className = 'xeditor-version-diff-blocks';
+    this.renderDiffBlocks(body, version, diff);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.type = 'button';
+    closeBtn.textContent = editor.t('common.close');
+    closeBtn.style.cssText = `
+      margin-top: 15px;
+      padding: 8px 16px;
+      background: #2196F3;
+      color: white;
+      border: none;
+      border-radius: 3px;
+      cursor: pointer;
+    `;
+    closeBtn.addEventListener('click', () => {
+      dialog.remove();
+      this.diffDialog = null;
+    });
+
+    dialog.appendChild(title);
+    dialog.appendChild(summary);
+    dialog.appendChild(views);
+    dialog.appendChild(body);
+    dialog.appendChild(closeBtn);
+
+    this.diffDialog = dialog;
+    document.body.appendChild(dialog);
+  }
+
+  private renderDiffBlocks(container: HTMLElement, version: Version, diff: VersionDiff): void {
+    if (!this.editor) return;
+    const editor = this.editor;
+
+    if (!diff.blocks.some(block => block.type !== 'equal')) {
+      const empty = document.createElement('p');
+      empty.textContent = editor.t('versionHistory.noDifferences');
+      empty.style.cssText = 'text-align: center; color: #666;';
+      container.appendChild(empty);
+      return;
+    }
+
+    let unchanged = 0;
+    const flushUnchanged = () => {
+      if (unchanged === 0) return;
+      const note = document.createElement('div');
+      note.style.cssText = 'padding: 4px 10px; color: #999; font-size: 12px;';
+      note.textContent = editor.t('versionHistory.unchangedBlocks', { count: unchanged });
+      container.appendChild(note);
+      unchanged = 0;
+    };
+
+    diff.blocks.forEach((block, index) => {
+      if (block.type === 'equal') {
+        unchanged++;
+        return;
+      }
+      flushUnchanged();
+
+      const row = document.createElement('div');
+      row.className = `xeditor-version-diff-block xeditor-version-diff-block--${block.type}`;
+      row.style.cssText = `
+        display: flex;
+        gap: 10px;
+        align-items: flex-start;
+        padding: 8px 10px;
+        margin-bottom: 6px;
+        border-left: 3px solid ${DIFF_COLORS[block.type]};
+        background: #fafafa;
+      `;
+
+      const columns = document.createElement('div');
+      columns.style.cssText = this.diffView === 'inline'
+        ? 'flex: 1;'
+        : 'flex: 1; display: grid; grid-template-columns: 1fr 1fr; gap: 10px;';
+      if (this.diffView === 'inline') {
+        columns.appendChild(this.renderSegments(block.segments));
+      } else {
+        columns.appendChild(this.renderSegments(block.type === 'added' ? [] : block.segments.filter(s => s.type !== 'insert')));
+        columns.appendChild(this.renderSegments(block.type === 'removed' ? [] : block.segments.filter(s => s.type !== 'delete')));
+      }
+      if (block.type === 'modified' && block.segments.every(segment => segment.type === 'equal')) {
+        const note = document.createElement('div');
+        note.style.cssText = 'font-size: 11px; color: #999; grid-column: 1 / -1;';
+        note.textContent = editor.t('versionHistory.formattingChanged');
+        columns.appendChild(note);
+      }
+
+      const restoreBtn = document.createElement('button');
+      restoreBtn.type = 'button';
+      restoreBtn.textContent = editor.t(block.type === 'added' ? 'versionHistory.removeBlock' : 'versionHistory.restoreBlock');
+      restoreBtn.title = editor.t(block.type === 'added'
+        ? 'versionHistory.removeBlockTitle'
+        : 'versionHistory.restoreBlockTitle');
+      restoreBtn.style.cssText = `
+        padding: 4px 8px;
         background: #2196F3;
         color: white;
         border: none;
         border-radius: 3px;
+        font-size: 12px;
         cursor: pointer;
-      " onclick="this.parentElement.remove()">Close</button>
-    `;
+      `;
+      restoreBtn.addEventListener('click', () => {
+        this.applyBlock(version, index);
+        // Positions of the other blocks have moved
+        this.showDiffDialog(version, this.computeDiff(version.content, editor.getContent({ format: 'html' })));
+      });
 
-    document.body.appendChild(dialog);
+      row.appendChild(columns);
+      row.appendChild(restoreBtn);
+      container.appendChild(row);
+    });
+    flushUnchanged();
+  }
+
+  private renderSegments(segments: DiffSegment[]): HTMLElement {
+    const element = document.createElement('div');
+    element.style.cssText = 'white-space: pre-wrap; word-break: break-word; min-height: 1em;';
+
+    segments.forEach(segment => {
+      if (segment.type === 'equal') {
+        element.appendChild(document.createTextNode(segment.text));
+        return;
+      }
+      const span = document.createElement(segment.type === 'insert' ? 'ins' : 'del');
+      span.style.cssText = segment.type === 'insert'
+        ? 'background: #e8f5e9; color: #1b5e20; text-decoration: none;'
+        : 'background: #ffebee; color: #b71c1c;';
+      span.textContent = segment.text;
+      element.appendChild(span);
+    });
+
+    return element;
   }
 
   private startAutoSaveVersions(): void {
     if (this.autoSaveInterval) return;
 
     this.autoSaveInterval = window.setInterval(() => {
+      // Nothing was edited since the last version
+      if (!this.hasChanges) return;
       this.saveVersion('Auto-saved version', ['auto']);
     }, this.config.autoSaveInterval!);
   }
@@ -0,0 +1,120 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'versionHistory.notFound': 'Version not found!',
+    'versionHistory.descriptionPrompt': 'Enter a description for this version (optional):',
+    'versionHistory.tagsPrompt': 'Enter tags (comma-separated, optional):',
+    'versionHistory.saved': 'Version saved successfully!',
+    'versionHistory.saveFailed': 'Failed to save version. Please try again.',
+    'versionHistory.restoreConfirm': 'Are you sure you want to restore this version? Current changes will be lost.',
+    'versionHistory.restored': 'Version restored successfully!',
+    'versionHistory.deleteConfirm': 'Are you sure you want to delete this version?',
+    'versionHistory.deleteFailed': 'Failed to delete version. Please try again.',
+    'versionHistory.clearConfirm': 'Are you sure you want to delete all versions? This cannot be undone.',
+    'versionHistory.cleared': 'All versions cleared successfully!',
+    'versionHistory.clearFailed': 'Failed to clear versions. Please try again.',
+    'versionHistory.compareWith': 'Compare with {name}',
+    'versionHistory.versionName': 'Version {id}',
+    'versionHistory.added': { one: '{count} added', other: '{count} added' },
+    'versionHistory.removed': { one: '{count} removed', other: '{count} removed' },
+    'versionHistory.modified': { one: '{count} modified', other: '{count} modified' },
+    'versionHistory.inline': 'Inline',
+    'versionHistory.sideBySide': 'Side by side',
+    'versionHistory.noDifferences': 'No differences',
+    'versionHistory.unchangedBlocks': { one: '{count} unchanged block', other: '{count} unchanged blocks' },
+    'versionHistory.formattingChanged': 'Formatting changed',
+    'versionHistory.removeBlock': 'Remove',
+    'versionHistory.restoreBlock': 'Restore',
+    'versionHistory.removeBlockTitle': 'Remove this block, which the version does not have',
+    'versionHistory.restoreBlockTitle': 'Put back this block as it was in the version',
+    'versionHistory.title': 'Version History'
+  },
+  de: {
+    'versionHistory.notFound': 'Version nicht gefunden!',
+    'versionHistory.descriptionPrompt': 'Beschreibung für diese Version eingeben (optional):',
+    'versionHistory.tagsPrompt': 'Schlagwörter eingeben (durch Kommas getrennt, optional):',
+    'versionHistory.saved': 'Version erfolgreich gespeichert!',
+    'versionHistory.saveFailed': 'Version konnte nicht gespeichert werden. Bitte erneut versuchen.',
+    'versionHistory.restoreConfirm': 'Diese Version wirklich wiederherstellen? Aktuelle Änderungen gehen verloren.',
+    'versionHistory.restored': 'Version erfolgreich wiederhergestellt!',
+    'versionHistory.deleteConfirm': 'Diese Version wirklich löschen?',
+    'versionHistory.deleteFailed': 'Version konnte nicht gelöscht werden. Bitte erneut versuchen.',
+    'versionHistory.clearConfirm': 'Wirklich alle Versionen löschen? Dies kann nicht rückgängig gemacht werden.',
+    'versionHistory.cleared': 'Alle Versionen wurden gelöscht!',
+    'versionHistory.clearFailed': 'Versionen konnten nicht gelöscht werden. Bitte erneut versuchen.',
+    'versionHistory.compareWith': 'Vergleichen mit {name}',
+    'versionHistory.versionName': 'Version {id}',
+    'versionHistory.added': { other: '{count} hinzugefügt' },
+    'versionHistory.removed': { other: '{count} entfernt' },
+    'versionHistory.modified': { other: '{count} geändert' },
+    'versionHistory.inline': 'Inline',
+    'versionHistory.sideBySide': 'Nebeneinander',
+    'versionHistory.noDifferences': 'Keine Unterschiede',
+    'versionHistory.unchangedBlocks': { one: '{count} unveränderter Block', other: '{count} unveränderte Blöcke' },
+    'versionHistory.formattingChanged': 'Formatierung geändert',
+    'versionHistory.removeBlock': 'Entfernen',
+    'versionHistory.restoreBlock': 'Wiederherstellen',
+    'versionHistory.removeBlockTitle': 'Diesen Block entfernen, den die Version nicht enthält',
+    'versionHistory.restoreBlockTitle': 'Diesen Block so wiederherstellen, wie er in der Version war',
+    'versionHistory.title': 'Versionsverlauf'
+  },
+  ja: {
+    'versionHistory.notFound': 'バージョンが見つかりません。',
+    'versionHistory.descriptionPrompt': 'このバージョンの説明を入力してください（任意）:',
+    'versionHistory.tagsPrompt': 'タグを入力してください（カンマ区切り、任意）:',
+    'versionHistory.saved': 'バージョンを保存しました。',
+    'versionHistory.saveFailed': 'バージョンを保存できませんでした。もう一度お試しください。',
+    'versionHistory.restoreConfirm': 'このバージョンを復元しますか？現在の変更は失われます。',
+    'versionHistory.restored': 'バージョンを復元しました。',
+    'versionHistory.deleteConfirm': 'このバージョンを削除しますか？',
+    'versionHistory.deleteFailed': 'バージョンを削除できませんでした。もう一度お試しください。',
+    'versionHistory.clearConfirm': 'すべてのバージョンを削除しますか？この操作は元に戻せません。',
+    'versionHistory.cleared': 'すべてのバージョンを削除しました。',
+    'versionHistory.clearFailed': 'バージョンを削除できませんでした。もう一度お試しください。',
+    'versionHistory.compareWith': '{name} と比較',
+    'versionHistory.versionName': 'バージョン {id}',
+    'versionHistory.added': { other: '追加 {count}' },
+    'versionHistory.removed': { other: '削除 {count}' },
+    'versionHistory.modified': { other: '変更 {count}' },
+    'versionHistory.inline': 'インライン',
+    'versionHistory.sideBySide': '左右に並べる',
+    'versionHistory.noDifferences': '違いはありません',
+    'versionHistory.unchangedBlocks': { other: '変更のないブロック {count} 個' },
+    'versionHistory.formattingChanged': '書式が変更されました',
+    'versionHistory.removeBlock': '削除',
+    'versionHistory.restoreBlock': '復元',
+    'versionHistory.removeBlockTitle': 'このバージョンにないこのブロックを削除します',
+    'versionHistory.restoreBlockTitle': 'このブロックをバージョンの内容に戻します',
+    'versionHistory.title': 'バージョン履歴'
+  },
+  ar: {
+    'versionHistory.notFound': 'لم يتم العثور على الإصدار!',
+    'versionHistory.descriptionPrompt': 'أدخل وصفًا لهذا الإصدار (اختياري):',
+    'versionHistory.tagsPrompt': 'أدخل الوسوم (مفصولة بفواصل، اختياري):',
+    'versionHistory.saved': 'تم حفظ الإصدار بنجاح!',
+    'versionHistory.saveFailed': 'تعذر حفظ الإصدار. يرجى المحاولة مرة أخرى.',
+    'versionHistory.restoreConfirm': 'هل تريد بالتأكيد استعادة هذا الإصدار؟ ستفقد التغييرات الحالية.',
+    'versionHistory.restored': 'تمت استعادة الإصدار بنجاح!',
+    'versionHistory.deleteConfirm': 'هل تريد بالتأكيد حذف هذا الإصدار؟',
+    'versionHistory.deleteFailed': 'تعذر حذف الإصدار. يرجى المحاولة مرة أخرى.',
+    'versionHistory.clearConfirm': 'هل تريد بالتأكيد حذف جميع الإصدارات؟ لا يمكن التراجع عن ذلك.',
+    'versionHistory.cleared': 'تم حذف جميع الإصدارات بنجاح!',
+    'versionHistory.clearFailed': 'تعذر حذف الإصدارات. يرجى المحاولة مرة أخرى.',
+    'versionHistory.compareWith': 'مقارنة مع {name}',
+    'versionHistory.versionName': 'الإصدار {id}',
+    'versionHistory.added': { other: 'أضيف {count}' },
+    'versionHistory.removed': { other: 'حذف {count}' },
+    'versionHistory.modified': { other: 'عدّل {count}' },
+    'versionHistory.inline': 'ضمن النص',
+    'versionHistory.sideBySide': 'جنبًا إلى جنب',
+    'versionHistory.noDifferences': 'لا توجد اختلافات',
+    'versionHistory.unchangedBlocks': { zero: 'لا توجد كتل دون تغيير', one: 'كتلة واحدة دون تغيير', two: 'كتلتان دون تغيير', few: '{count} كتل دون تغيير', many: '{count} كتلة دون تغيير', other: '{count} كتلة دون تغيير' },
+    'versionHistory.formattingChanged': 'تغيّر التنسيق',
+    'versionHistory.removeBlock': 'إزالة',
+    'versionHistory.restoreBlock': 'استعادة',
+    'versionHistory.removeBlockTitle': 'إزالة هذه الكتلة غير الموجودة في الإصدار',
+    'versionHistory.restoreBlockTitle': 'إعادة هذه الكتلة كما كانت في الإصدار',
+    'versionHistory.title': 'سجل الإصدارات'
+  }
+};
@@ -0,0 +1,175 @@
+import { Version, VersionHistoryStorage } from '../../types';
+import { errorHandler } from '../../utils/error-handler';
+import { VERSIONS_STORE, isIndexedDBAvailable, isQuotaError, runTransaction } from '../../utils/indexeddb';
+
+// Where versions of every document were kept before they were stored per document
+const LEGACY_STORAGE_KEY = 'xeditor-versions';
+
+// A version as JSON.stringify leaves it
+type SerializedVersion = Omit<Version, 'timestamp'> & { timestamp: string };
+
+function reviveVersions(data: string | null): Version[] {
+  if (!data) return [];
+  // Convert timestamp strings back to Date objects
+  return (JSON.parse(data) as SerializedVersion[]).map(v => ({
+    ...v,
+    timestamp: new Date(v.timestamp)
+  }));
+}
+
+// Versions of one document as a JSON array under a localStorage key
+export class LocalStorageVersionHistory implements VersionHistoryStorage {
+  private storageKey: string;
+
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+  }
+
+  async save(version: Version): Promise<void> {
+    try {
+      const versions = await this.loadAll();
+      versions.push(version);
+      localStorage.setItem(this.storageKey, JSON.stringify(versions));
+    } catch (error) {
+      if (isQuotaError(error)) throw error;
+      throw new Error(`Failed to save version: ${error}`);
+    }
+  }
+
+  async load(id: string): Promise<Version | null> {
+    try {
+      const versions = await this.loadAll();
+      const version = versions.find(v => v.id === id);
+      return version || null;
+    } catch (error) {
+      errorHandler.handle(error as Error, 'Failed to load version');
+      return null;
+    }
+  }
+
+  async loadAll(): Promise<Version[]> {
+    try {
+      let data = localStorage.getItem(this.storageKey);
+      if (data === null) {
+        // The first document to look claims the versions of earlier releases
+        data = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (data !== null) {
+          localStorage.setItem(this.storageKey, data);
+          localStorage.removeItem(LEGACY_STORAGE_KEY);
+        }
+      }
+      return reviveVersions(data);
+    } catch (error) {
+      errorHandler.handle(error as Error, 'Failed to load versions');
+      return [];
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      const versions = await this.loadAll();
+      const filtered = versions.filter(v => v.id !== id);
+      localStorage.setItem(this.storageKey, JSON.stringify(filtered));
+    } catch (error) {
+      throw new Error(`Failed to delete version: ${error}`);
+    }
+  }
+
+  async deleteAll(): Promise<void> {
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch (error) {
+      throw new Error(`Failed to delete all versions: ${error}`);
+    }
+  }
+}
+
+interface StoredVersion extends Version {
+  document: string;
+}
+
+/**
+ * Versions of one document in IndexedDB, one record per version. Versions
+ * an earlier release kept in localStorage are moved over on first use.
+ */
+export class IndexedDBVersionHistoryStorage implements VersionHistoryStorage {
+  private documentKey: string;
+  private migration: Promise<void> | null = null;
+
+  constructor(documentKey: string) {
+    this.documentKey = documentKey;
+  }
+
+  async save(version: Version): Promise<void> {
+    await this.migrate();
+    const record: StoredVersion = { ...version, document: this.documentKey };
+    await runTransaction(VERSIONS_STORE, 'readwrite', store => store.put(record));
+  }
+
+  async load(id: string): Promise<Version | null> {
+    await this.migrate();
+    const record = await runTransaction<StoredVersion | undefined>(VERSIONS_STORE, 'readonly', store => store.get(id));
+    return record && record.document === this.documentKey ? this.toVersion(record) : null;
+  }
+
+  async loadAll(): Promise<Version[]> {
+    await this.migrate();
+    const records = await runTransaction<StoredVersion[]>(VERSIONS_STORE, 'readonly', store =>
+      store.index('document').getAll(this.documentKey)
+    );
+    return records.map(record => this.toVersion(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.migrate();
+    await runTransaction(VERSIONS_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  async deleteAll(): Promise<void> {
+    await this.migrate();
+    await runTransaction(VERSIONS_STORE, 'readwrite', store => {
+      const request = store.index('document').openCursor(IDBKeyRange.only(this.documentKey));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    });
+  }
+
+  private toVersion(record: StoredVersion): Version {
+    const version: Partial<StoredVersion> = { ...record };
+    delete version.document;
+    return version as Version;
+  }
+
+  private migrate(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.moveLegacyVersions().catch(error => {
+        // They stay in localStorage until the next page load
+        errorHandler.handle(error as Error, 'Failed to move versions from localStorage');
+      });
+    }
+    return this.migration;
+  }
+
+  private async moveLegacyVersions(): Promise<void> {
+    const legacy = new LocalStorageVersionHistory(this.documentKey);
+    const versions = await legacy.loadAll();
+    if (versions.length === 0) return;
+
+    await runTransaction(VERSIONS_STORE, 'readwrite', store => {
+      versions.forEach(version => store.put({ ...version, document: this.documentKey }));
+    });
+    await legacy.deleteAll();
+  }
+}
+
+// IndexedDB where the browser has it
+export function createVersionHistoryStorage(documentKey: string): VersionHistoryStorage {
+  return isIndexedDBAvailable()
+    ? new IndexedDBVersionHistoryStorage(documentKey)
+    : new LocalStorageVersionHistory(documentKey);
+}
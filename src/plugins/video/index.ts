@@ -1,5 +1,7 @@
 import { Plugin, Editor, ToolbarItem } from '../../types';
 import { createElement, addClass } from '../../utils/dom';
+import { isAllowedIframeSource } from '../../utils/sanitize';
+import { messages } from './messages';
 
 interface VideoConfig {
   allowedProviders?: string[];
@@ -26,6 +28,7 @@ export class VideoPlugin implements Plugin {
 
   init(editor: Editor): void {
     this.editor = editor;
+    editor.i18n.register(messages);
     
     // Make methods available
     (this as any).showVideoDialog = this.showVideoDialog.bind(this);
@@ -303,7 +306,7 @@ export class VideoPlugin implements Plugin {
   private insertVideoFromUrl(url: string, options: any): void {
     const embedInfo = this.parseVideoUrl(url);
     if (!embedInfo) {
-      alert('Invalid video URL');
+      alert(this.editor.t('video.invalidUrl'));
       return;
     }
 
@@ -343,23 +346,9 @@ export class VideoPlugin implements Plugin {
     
     const iframe = tempDiv.querySelector('iframe');
     if (iframe) {
-      // Ensure it's from allowed providers
+      // Same host allowlist the sanitizer applies to the content
       const src = iframe.getAttribute('src') || '';
-      let allowed = false;
-      
-      const allowedDomains = [
-        'youtube.com', 'youtube-nocookie.com', 'youtu.be',
-        'vimeo.com', 'player.vimeo.com',
-        'dailymotion.com',
-        'facebook.com'
-      ];
-      
-      for (const domain of allowedDomains) {
-        if (src.includes(domain)) {
-          allowed = true;
-          break;
-        }
-      }
+      const allowed = isAllowedIframeSource(src, this.editor.getSanitizeSchema().iframeHosts);
       
       if (allowed) {
         // Add responsive wrapper if needed
@@ -373,10 +362,10 @@ export class VideoPlugin implements Plugin {
           this.insertVideo(iframe.outerHTML);
         }
       } else {
-        alert('Video source not allowed');
+        alert(this.editor.t('video.sourceNotAllowed'));
       }
     } else {
-      alert('Invalid embed code');
+      alert(this.editor.t('video.invalidEmbed'));
     }
   }
 
@@ -0,0 +1,24 @@
+import { LocaleBundles } from '../../types';
+
+export const messages: LocaleBundles = {
+  en: {
+    'video.invalidUrl': 'Invalid video URL',
+    'video.sourceNotAllowed': 'Video source not allowed',
+    'video.invalidEmbed': 'Invalid embed code'
+  },
+  de: {
+    'video.invalidUrl': 'Ungültige Video-URL',
+    'video.sourceNotAllowed': 'Diese Videoquelle ist nicht erlaubt',
+    'video.invalidEmbed': 'Ungültiger Einbettungscode'
+  },
+  ja: {
+    'video.invalidUrl': '動画のURLが無効です',
+    'video.sourceNotAllowed': 'この動画ソースは許可されていません',
+    'video.invalidEmbed': '埋め込みコードが無効です'
+  },
+  ar: {
+    'video.invalidUrl': 'عنوان URL للفيديو غير صالح',
+    'video.sourceNotAllowed': 'مصدر الفيديو غير مسموح به',
+    'video.invalidEmbed': 'رمز التضمين غير صالح'
+  }
+};
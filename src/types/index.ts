@@ -5,14 +5,26 @@ export interface EditorConfig {
   placeholder?: string;
   theme?: 'light' | 'dark' | string;
   language?: string;
+  // Extra locales or overrides for built-in messages, keyed by locale
+  locales?: LocaleBundles;
+  // Base text direction; defaults to the direction of `language`
+  dir?: TextDirection;
   toolbar?: ToolbarConfig | false;
-  plugins?: string[];
+  // Built-in or registered plugin names, plugin objects or factories.
+  // 'defaults' expands to the default built-in set; omit to load the defaults
+  plugins?: PluginEntry[];
+  excludePlugins?: string[];
+  paste?: PasteConfig;
   shortcuts?: ShortcutMap;
+  // Format of getContent() and the change events: 'markdown' for sites that store Markdown (default 'html')
+  outputFormat?: ContentFormat;
   onChange?: (content: string) => void;
   onReady?: () => void;
   onFocus?: () => void;
   onBlur?: () => void;
   sanitize?: boolean;
+  // Markup allowed on top of what the core and the enabled plugins produce
+  sanitizeSchema?: SanitizeSchema;
   autoSave?: AutoSaveConfig;
   versionHistory?: VersionHistoryConfig;
   image?: {
@@ -20,7 +32,11 @@ export interface EditorConfig {
     maxSize?: number;
     quality?: number;
     resizeBeforeUpload?: boolean;
-    upload?: (file: File) => Promise<string>;
+    allowedTypes?: string[];
+    // Resolves to the uploaded image URL; report progress as 0-100
+    upload?: (file: File, onProgress?: (percent: number) => void) => Promise<string>;
+    // Embed images as data URIs when there is no upload callback or it fails (default true)
+    dataUriFallback?: boolean;
   };
   inlineToolbar?: false | {
     items?: string[];
@@ -57,22 +73,47 @@ export interface EditorConfig {
     enabledElements?: string[];
     defaultStyles?: boolean;
   };
-  printPreview?: {
-    pageSize?: 'A4' | 'Letter' | 'Legal';
-    orientation?: 'portrait' | 'landscape';
-    margins?: {
-      top?: string;
-      right?: string;
-      bottom?: string;
-      left?: string;
-    };
-    showPageNumbers?: boolean;
-    showHeaders?: boolean;
-    headerText?: string;
-    footerText?: string;
-  };
+  printPreview?: PrintPreviewConfig;
   comments?: CommentsConfig;
   trackChanges?: TrackChangesConfig;
+  collaboration?: CollaborationConfig;
+  markdown?: MarkdownConfig;
+}
+
+// Page layout shared by the print preview and the DOCX export
+export interface PrintPreviewConfig {
+  pageSize?: 'A4' | 'Letter' | 'Legal';
+  orientation?: 'portrait' | 'landscape';
+  // CSS lengths, e.g. '2cm' or '1in'
+  margins?: {
+    top?: string;
+    right?: string;
+    bottom?: string;
+    left?: string;
+  };
+  showPageNumbers?: boolean;
+  showHeaders?: boolean;
+  headerText?: string;
+  footerText?: string;
+}
+
+export type ContentFormat = 'html' | 'markdown';
+
+export interface ContentOptions {
+  // Defaults to `outputFormat` for getContent() and to 'html' for setContent()
+  format?: ContentFormat;
+}
+
+export interface MarkdownConfig {
+  // Convert Markdown syntax as it is typed, e.g. "## " into a heading (default true)
+  inputRules?: boolean;
+  exportOptions?: {
+    headingStyle?: 'atx' | 'setext';
+    bulletListMarker?: '-' | '*' | '+';
+    codeBlockStyle?: 'fenced' | 'indented';
+    // 'reference' lists link destinations at the end of the document
+    linkStyle?: 'inline' | 'reference';
+  };
 }
 
 export interface ToolbarConfig {
@@ -92,6 +133,8 @@ export interface ToolbarItem {
   active?: () => boolean;
   enabled?: () => boolean;
   onClick?: () => void;
+  // Plugin that implements the item; a lazy plugin is loaded on first click
+  plugin?: string;
 }
 
 export interface ToolbarGroup {
@@ -118,8 +161,42 @@ export interface Plugin {
   commands?: CommandMap;
   toolbar?: ToolbarItem[];
   shortcuts?: ShortcutMap;
+  // Names of plugins that must be loaded before this one
+  dependencies?: string[];
+  // Markup the plugin puts into the content, allowed through the sanitizer
+  schema?: SanitizeSchema;
+}
+
+// Async factories let the implementation be fetched with a dynamic import()
+export type PluginFactory = (editor: Editor) => Plugin | Promise<Plugin>;
+
+export type PluginEntry = string | Plugin | PluginFactory;
+
+export interface PluginDefinition {
+  name: string;
+  create: PluginFactory;
+  dependencies?: string[];
+  // Whether the plugin is part of the 'defaults' set (default: true)
+  isDefault?: (config: EditorConfig) => boolean;
+  // Defer create() until the plugin is first used
+  lazy?: boolean;
+  // Commands that load a lazy plugin when executed
+  commands?: string[];
+  // Load a lazy plugin as soon as the content contains a matching element
+  selector?: string;
+  // Markup the plugin produces, known before a lazy plugin has loaded
+  schema?: SanitizeSchema;
+}
+
+export interface LazyPluginOptions {
+  dependencies?: string[];
+  commands?: string[];
+  selector?: string;
+  schema?: SanitizeSchema;
 }
 
+export type PluginLoadState = 'registered' | 'pending' | 'loading' | 'failed' | 'unknown';
+
 export interface CommandMap {
   [name: string]: Command;
 }
@@ -136,6 +213,7 @@ export interface Selection {
   container: Node | null;
   save(): void;
   restore(): void;
+  hasChanged(): boolean;
   clear(): void;
 }
 
@@ -150,10 +228,19 @@ export interface Editor {
   plugins: PluginManager;
   history: HistoryManager;
   events: EventEmitter;
+  i18n: I18n;
+  paste: PastePipeline;
+  inputRules: InputRules;
   
-  getContent(): string;
-  setContent(content: string): void;
+  getContent(options?: ContentOptions): string;
+  setContent(content: string, options?: ContentOptions): void;
+  getJSON(): DocumentJSON;
+  setJSON(json: DocumentJSON): void;
   insertContent(content: string): void;
+  // Removes marks of `type` when `mark` is null
+  setMark(type: string, mark: DocMark | null): void;
+  sanitize(html: string): string;
+  getSanitizeSchema(): Required<SanitizeSchema>;
   focus(): void;
   blur(): void;
   destroy(): void;
@@ -161,6 +248,11 @@ export interface Editor {
   execCommand(command: string, value?: any): void;
   queryCommandState(command: string): boolean;
   
+  t(key: string, params?: MessageParams): string;
+  setLanguage(language: string): void;
+  getDirection(): TextDirection;
+  setDirection(dir: TextDirection): void;
+  
   on(event: string, handler: Function): void;
   off(event: string, handler: Function): void;
   emit(event: string, ...args: any[]): void;
@@ -187,9 +279,15 @@ export interface CommandManager {
 
 export interface PluginManager {
   register(plugin: Plugin): void;
+  registerLazy(name: string, load: () => Promise<Plugin>, options?: LazyPluginOptions): void;
+  registerAsync(pending: Promise<Plugin>): Promise<Plugin | undefined>;
+  load(name: string): Promise<Plugin | undefined>;
+  getLoadState(name: string): PluginLoadState;
   unregister(name: string): void;
   get(name: string): Plugin | undefined;
   getAll(): Plugin[];
+  // Schemas of registered and not yet loaded lazy plugins
+  getSchemas(): SanitizeSchema[];
 }
 
 export interface HistoryManager {
@@ -197,10 +295,41 @@ export interface HistoryManager {
   redo(): void;
   canUndo(): boolean;
   canRedo(): boolean;
-  record(): void;
+  record(origin?: string): void;
+  transact(origin: string, fn: () => void): void;
+  // Runs fn without recording its changes
+  ignore(fn: () => void): void;
   clear(): void;
 }
 
+export type HistoryStep =
+  | { type: 'text'; target: CharacterData; oldValue: string; newValue: string }
+  | { type: 'attribute'; target: Element; name: string; oldValue: string | null; newValue: string | null }
+  | {
+      type: 'childList';
+      target: Node;
+      added: Node[];
+      removed: Node[];
+      previousSibling: Node | null;
+      nextSibling: Node | null;
+    };
+
+export interface SelectionOffsets {
+  start: number;
+  end: number;
+}
+
+export interface HistoryTransaction {
+  id: number;
+  // 'typing', 'paste', 'drop', 'format', 'setContent', 'plugin', 'command:<name>'...
+  origin: string;
+  inputType?: string;
+  steps: HistoryStep[];
+  selectionBefore: SelectionOffsets | null;
+  selectionAfter: SelectionOffsets | null;
+  timestamp: number;
+}
+
 export interface EventEmitter {
   on(event: string, handler: Function): void;
   off(event: string, handler: Function): void;
@@ -212,7 +341,15 @@ export interface EventEmitter {
 export interface AutoSaveConfig {
   enabled: boolean;
   interval?: number; // milliseconds, default 30000 (30 seconds)
+  // Defaults to IndexedDB, or localStorage where it is unavailable
   storageBackend?: AutoSaveStorage;
+  // Separates the saved content of editors on one page; defaults to the container id
+  documentId?: string;
+  // Saves to a server as well; storageBackend then holds saves waiting to be sent
+  remoteStorage?: RemoteAutoSaveStorage;
+  retryDelay?: number; // milliseconds before the first retry, doubled up to maxRetryDelay
+  maxRetryDelay?: number;
+  onConflict?: (conflict: AutoSaveConflict) => void;
   showStatus?: boolean;
   showLastSaveTime?: boolean;
 }
@@ -223,17 +360,72 @@ export interface AutoSaveStorage {
   delete(key: string): Promise<void>;
 }
 
+/**
+ * Server storage that keeps a revision (such as an ETag) per document. A
+ * save based on an outdated revision is refused with the server's copy
+ * instead of overwriting it.
+ */
+export interface RemoteAutoSaveStorage {
+  load(key: string): Promise<RemoteDocument | null>;
+  // `baseRevision` is null for a document the server does not have yet
+  save(key: string, content: string, baseRevision: string | null): Promise<RemoteSaveResult>;
+}
+
+export interface HttpAutoSaveStorageOptions {
+  // URL of the document saved under a key
+  url: (key: string) => string;
+  headers?: Record<string, string>;
+}
+
+export interface RemoteDocument {
+  content: string;
+  revision: string;
+}
+
+// Failing to reach the server is signalled by rejecting instead
+export type RemoteSaveResult =
+  | { status: 'saved'; revision: string }
+  | { status: 'conflict'; remote: RemoteDocument };
+
+export interface AutoSaveConflict {
+  key: string;
+  local: string;
+  remote: RemoteDocument;
+  baseRevision: string | null;
+}
+
+export interface AutoSaveDraftMetadata {
+  // One per editor session, so crashed tabs do not overwrite each other
+  id: string;
+  timestamp: number;
+  version: string;
+  wordCount: number;
+  checksum: string;
+}
+
+export interface AutoSaveDraft extends AutoSaveDraftMetadata {
+  content: string;
+  // The content no longer matches its checksum
+  corrupted: boolean;
+}
+
 export interface AutoSaveStatus {
-  state: 'idle' | 'saving' | 'saved' | 'error';
+  state: 'idle' | 'saving' | 'saved' | 'error' | 'offline' | 'conflict';
   lastSaveTime?: Date;
   error?: Error;
+  // When an offline save is tried again
+  nextRetry?: Date;
+  conflict?: AutoSaveConflict;
 }
 
 // Version History Plugin Types
 export interface VersionHistoryConfig {
   enabled: boolean;
   maxVersions?: number; // default 50
+  // Defaults to IndexedDB, or localStorage where it is unavailable
   storageBackend?: VersionHistoryStorage;
+  // Separates the versions of editors on one page; defaults to the container id
+  documentId?: string;
   autoSaveVersions?: boolean;
   autoSaveInterval?: number; // milliseconds
 }
@@ -256,23 +448,60 @@ export interface Version {
 }
 
 export interface VersionDiff {
+  // Text of the added, removed and modified blocks
   added: string[];
   removed: string[];
   modified: string[];
+  blocks: BlockDiff[];
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * One top-level block of a comparison. Indexes point into the old and new
+ * document; a removed block's newIndex is where it would go back.
+ */
+export interface BlockDiff {
+  type: 'equal' | 'added' | 'removed' | 'modified';
+  oldIndex?: number;
+  newIndex?: number;
+  oldHTML?: string;
+  newHTML?: string;
+  // Word-level changes for modified blocks, the whole text otherwise
+  segments: DiffSegment[];
+}
+
+/**
+ * Locates a piece of text by quoting it, like a W3C text quote selector, with
+ * its character offsets in the content text as a hint. Survives edits that
+ * would invalidate DOM paths.
+ */
+export interface TextAnchor {
+  exact: string;
+  prefix: string;
+  suffix: string;
+  start: number;
+  end: number;
 }
 
 // Comments Plugin Types
+export interface CommentUser {
+  id: string;
+  name: string;
+  avatar?: string;
+}
+
 export interface Comment {
   id: string;
+  // Mentions are embedded as @[Name](userId)
   text: string;
+  // Ids of the users mentioned in `text`
+  mentions?: string[];
   author: string;
   timestamp: Date;
-  range: {
-    startOffset: number;
-    endOffset: number;
-    startPath: number[];
-    endPath: number[];
-  };
   resolved: boolean;
   replies?: Comment[];
   parentId?: string;
@@ -282,18 +511,31 @@ export interface Comment {
 export interface CommentThread {
   id: string;
   comments: Comment[];
-  range: {
-    startOffset: number;
-    endOffset: number;
-    startPath: number[];
-    endPath: number[];
-  };
+  anchor: TextAnchor;
   resolved: boolean;
+  assignee?: CommentUser;
+  // The commented text no longer exists in the document
+  orphaned?: boolean;
+}
+
+export interface CommentsFilter {
+  status?: 'all' | 'open' | 'resolved';
+  // A user id, or null for unassigned threads; omit for any assignee
+  assignee?: string | null;
+}
+
+export interface CommentsStorage {
+  save(key: string, threads: CommentThread[]): Promise<void>;
+  load(key: string): Promise<CommentThread[] | null>;
+  delete(key: string): Promise<void>;
 }
 
 export interface CommentsConfig {
   enabled?: boolean;
   currentUser?: string;
+  storageBackend?: CommentsStorage;
+  // Storage key for this document's threads; defaults to one per container
+  documentId?: string;
   sidePanel?: boolean;
   allowReplies?: boolean;
   allowEdit?: boolean;
@@ -301,9 +543,19 @@ export interface CommentsConfig {
   onCommentAdd?: (comment: Comment) => void;
   onCommentUpdate?: (comment: Comment) => void;
   onCommentDelete?: (commentId: string) => void;
+  // Users offered by @mention autocomplete and thread assignment
+  userDirectory?: (query: string) => CommentUser[] | Promise<CommentUser[]>;
+  // Called with the ids of users newly mentioned in a comment, to notify them
+  onMention?: (userIds: string[], comment: Comment, thread: CommentThread) => void;
+  onAssign?: (thread: CommentThread) => void;
 }
 
 // Track Changes Plugin Types
+
+// Formatting on one side of a format change: { bold: true, link: 'https://…' } for
+// inline marks, { block: 'h2' } for block and structure changes
+export type ChangeFormat = Record<string, string | boolean>;
+
 export interface Change {
   id: string;
   type: 'insert' | 'delete' | 'format';
@@ -311,6 +563,8 @@ export interface Change {
   timestamp: Date;
   content?: string;
   oldContent?: string;
+  before?: ChangeFormat;
+  after?: ChangeFormat;
   range: {
     startOffset: number;
     endOffset: number;
@@ -321,8 +575,12 @@ export interface Change {
   rejected?: boolean;
 }
 
+export type TrackChangesMode = 'editing' | 'suggesting';
+
 export interface TrackChangesConfig {
+  // Starts in suggesting mode; kept as an alias of `mode: 'suggesting'`
   enabled?: boolean;
+  mode?: TrackChangesMode;
   currentUser?: string;
   authorColors?: { [author: string]: string };
   showAuthors?: boolean;
@@ -330,4 +588,192 @@ export interface TrackChangesConfig {
   onChangeAdd?: (change: Change) => void;
   onChangeAccept?: (changeId: string) => void;
   onChangeReject?: (changeId: string) => void;
-}
\ No newline at end of file
+  onModeChange?: (mode: TrackChangesMode) => void;
+}
+
+export interface ChangeCounts {
+  insert: number;
+  delete: number;
+  format: number;
+}
+
+export interface ChangesSummary {
+  total: number;
+  authors: Array<{ author: string } & ChangeCounts>;
+  // The content with every change rejected, and with every change accepted
+  original: string;
+  merged: string;
+}
+
+// Document Model Types
+export type DocAttrValue = string | number | boolean | null | { [key: string]: string };
+
+export interface DocAttrs {
+  [name: string]: DocAttrValue;
+}
+
+export interface DocMark {
+  type: string;
+  attrs?: DocAttrs;
+}
+
+export interface DocNode {
+  type: string;
+  attrs?: DocAttrs;
+  content?: DocNode[];
+  text?: string;
+  marks?: DocMark[];
+}
+
+export interface DocumentJSON {
+  type: 'doc';
+  version: number;
+  content: DocNode[];
+}
+
+export interface DocValidationError {
+  path: number[];
+  message: string;
+}
+
+// Collaboration Plugin Types
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface CollaborationMessage {
+  type: 'hello' | 'state' | 'ops' | 'presence' | 'leave';
+  clientId: string;
+  user?: CollaborationUser;
+  payload?: unknown;
+}
+
+export interface CollaborationTransport {
+  send(message: CollaborationMessage): void;
+  // Returns a function that removes the handler
+  onMessage(handler: (message: CollaborationMessage) => void): () => void;
+  close?(): void;
+}
+
+export interface CollaborationConfig {
+  enabled?: boolean;
+  transport: CollaborationTransport;
+  user: CollaborationUser;
+  authorColors?: { [author: string]: string };
+  showRemoteCursors?: boolean;
+  onPeersChange?: (peers: CollaborationUser[]) => void;
+}
+
+// Internationalization
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// Plural messages are picked with Intl.PluralRules from the `count` param
+export type PluralMessage = { [category in PluralCategory]?: string } & { other: string };
+
+export type Message = string | PluralMessage;
+
+export interface Messages {
+  [key: string]: Message;
+}
+
+export interface LocaleBundles {
+  [locale: string]: Messages;
+}
+
+export interface MessageParams {
+  [name: string]: string | number;
+}
+
+export interface I18n {
+  t(key: string, params?: MessageParams): string;
+  register(bundles: LocaleBundles): void;
+  setLocale(locale: string): void;
+  getLocale(): string;
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Direction of a single block; 'auto' follows its first strong character
+export type BlockDirection = TextDirection | 'auto';
+
+/**
+ * Markup allowed through the sanitizer. Schemas from the core, the enabled
+ * plugins and `EditorConfig.sanitizeSchema` are merged into one allowlist.
+ */
+export interface SanitizeSchema {
+  tags?: string[];
+  // Attribute names per tag; '*' applies to every tag
+  attributes?: Record<string, string[]>;
+  // Hosts iframes may load from, subdomains included
+  iframeHosts?: string[];
+}
+
+// Something the sanitizer removed; `attribute` is set when only that was dropped
+export interface SanitizeRemoval {
+  tag: string;
+  attribute?: string;
+  value?: string;
+}
+
+// Where pasted HTML came from; 'plain' when only text was available
+export type PasteSource = 'word' | 'google-docs' | 'web' | 'plain';
+
+export interface PasteConfig {
+  // Always paste as plain text
+  plainText?: boolean;
+  // Inline styles kept after pasted formatting is mapped to editor markup
+  keepStyles?: string[];
+}
+
+export interface PasteContext {
+  source: PasteSource;
+  html: string;
+  text: string;
+  plainText: boolean;
+}
+
+export interface PasteTransformer {
+  name: string;
+  // Sources the transformer runs for; all sources when omitted
+  sources?: PasteSource[];
+  // Lower runs first. Built-in cleaners use 10-90, plugins default to 100
+  priority?: number;
+  transform(root: HTMLElement, context: PasteContext): void;
+}
+
+// Text an input rule matched in the block the caret is in
+export interface InputRuleMatch {
+  match: RegExpExecArray;
+  // Innermost text block around the caret, or the content element for a bare line
+  block: HTMLElement;
+  // Covers the matched text in the document
+  range: Range;
+}
+
+export interface InputRule {
+  name: string;
+  // Tested against the block's text up to the caret after each typed character
+  // (and after Enter, as a trailing "\n"); a match must end at the caret
+  pattern: RegExp;
+  // Rewrites the matched text; returning false lets the input through unchanged
+  handler(match: InputRuleMatch): boolean | void;
+}
+
+export interface InputRules {
+  register(rule: InputRule): void;
+  unregister(name: string): void;
+  // Reverts the last conversion, keeping the text as typed, if nothing happened since
+  undoInputRule(): boolean;
+}
+
+export interface PastePipeline {
+  register(transformer: PasteTransformer): void;
+  unregister(name: string): void;
+  // Turns clipboard contents into HTML ready to insert
+  process(data: { html?: string; text?: string }, plainText?: boolean): string;
+  insert(data: { html?: string; text?: string }, plainText?: boolean): void;
+  // Reads the system clipboard (asks for permission) and inserts its contents
+  pasteFromClipboard(plainText: boolean): Promise<void>;
+}
@@ -0,0 +1,3 @@
+// Prism language components register themselves on the Prism global and have
+// no type declarations of their own
+declare module 'prismjs/components/*';
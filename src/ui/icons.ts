@@ -74,6 +74,16 @@ export const icons = {
     <path d="M5.5 8l-3-3v6l3-3z"/>
   </svg>`,
   
+  directionLTR: `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M5.5 .5H12v1h-1V10h-1V1.5H8V10H7V6a2.75 2.75 0 0 1-1.5-5.5z"/>
+    <path d="M2 13h9v-2l3 2.5-3 2.5v-2H2z"/>
+  </svg>`,
+  
+  directionRTL: `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M7.5 .5H14v1h-1V10h-1V1.5h-2V10H9V6a2.75 2.75 0 0 1-1.5-5.5z"/>
+    <path d="M14 13H5v-2l-3 2.5 3 2.5v-2h9z"/>
+  </svg>`,
+  
   alignLeft: `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
     <path fill-rule="evenodd" d="M2 12.5a.5.5 0 0 1 .5-.5h7a.5.5 0 0 1 0 1h-7a.5.5 0 0 1-.5-.5zm0-3a.5.5 0 0 1 .5-.5h11a.5.5 0 0 1 0 1h-11a.5.5 0 0 1-.5-.5zm0-3a.5.5 0 0 1 .5-.5h7a.5.5 0 0 1 0 1h-7a.5.5 0 0 1-.5-.5zm0-3a.5.5 0 0 1 .5-.5h11a.5.5 0 0 1 0 1h-11a.5.5 0 0 1-.5-.5z"/>
   </svg>`,
@@ -127,6 +137,11 @@ export const icons = {
     <path d="M5 1a2 2 0 0 0-2 2v2H2a2 2 0 0 0-2 2v3a2 2 0 0 0 2 2h1v1a2 2 0 0 0 2 2h6a2 2 0 0 0 2-2v-1h1a2 2 0 0 0 2-2V7a2 2 0 0 0-2-2h-1V3a2 2 0 0 0-2-2H5zM4 3a1 1 0 0 1 1-1h6a1 1 0 0 1 1 1v2H4V3zm1 5a2 2 0 0 0-2 2v1H2a1 1 0 0 1-1-1V7a1 1 0 0 1 1-1h12a1 1 0 0 1 1 1v3a1 1 0 0 1-1 1h-1v-1a2 2 0 0 0-2-2H5zm7 2v3a1 1 0 0 1-1 1H5a1 1 0 0 1-1-1v-3a1 1 0 0 1 1-1h6a1 1 0 0 1 1 1z"/>
   </svg>`,
   
+  exportDocx: `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M14 4.5V14a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V2a2 2 0 0 1 2-2h5.5L14 4.5zm-3 0A1.5 1.5 0 0 1 9.5 3V1H4a1 1 0 0 0-1 1v12a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1V4.5h-2z"/>
+    <path d="M4.5 7.5h1.1l.65 3 .75-3h.9l.75 3 .65-3h1.1l-1.2 4.5h-1l-.75-2.8-.75 2.8h-1l-1.2-4.5z"/>
+  </svg>`,
+  
   sourceCode: `<svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
     <path d="M10.478 1.647a.5.5 0 1 0-.956-.294l-4 13a.5.5 0 0 0 .956.294l4-13zM4.854 4.146a.5.5 0 0 1 0 .708L1.707 8l3.147 3.146a.5.5 0 0 1-.708.708l-3.5-3.5a.5.5 0 0 1 0-.708l3.5-3.5a.5.5 0 0 1 .708 0zm6.292 0a.5.5 0 0 0 0 .708L14.293 8l-3.147 3.146a.5.5 0 0 0 .708.708l3.5-3.5a.5.5 0 0 0 0-.708l-3.5-3.5a.5.5 0 0 0-.708 0z"/>
   </svg>`,
@@ -0,0 +1,183 @@
+import { AutoSaveDraft, DiffSegment, Editor } from '../types';
+import { createElement, addClass, toggleClass } from '../utils/dom';
+import { parseHTML } from '../core/model';
+import { diffDocuments } from '../plugins/version-history/diff';
+
+export interface RecoveryPanelActions {
+  restore: (draft: AutoSaveDraft) => void;
+  merge: (draft: AutoSaveDraft) => void;
+  discard: (draft: AutoSaveDraft) => void;
+}
+
+/**
+ * Offers auto-saved drafts back above the content instead of interrupting
+ * with a dialog. Each draft can be previewed or compared with the content
+ * the editor has now, then restored over it, merged into it or discarded.
+ */
+export class RecoveryPanel {
+  element: HTMLElement;
+  private editor: Editor;
+  private drafts: AutoSaveDraft[];
+  private actions: RecoveryPanelActions;
+  private selected = 0;
+  private view: 'changes' | 'preview' = 'changes';
+
+  constructor(editor: Editor, drafts: AutoSaveDraft[], actions: RecoveryPanelActions) {
+    this.editor = editor;
+    this.drafts = drafts;
+    this.actions = actions;
+    this.element = createElement('div', { className: 'xeditor-recovery' });
+    this.element.setAttribute('role', 'region');
+    this.element.setAttribute('aria-label', editor.t('recovery.title'));
+    this.render();
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+
+  private render(): void {
+    this.element.innerHTML = '';
+    const draft = this.drafts[this.selected];
+
+    const header = createElement('div', { className: 'xeditor-recovery__header' }, [
+      createElement('strong', {}, [this.editor.t('recovery.title')])
+    ]);
+    const closeBtn = this.createButton(this.editor.t('common.close'), () => this.destroy());
+    addClass(closeBtn, 'xeditor-recovery__close');
+    header.appendChild(closeBtn);
+    this.element.appendChild(header);
+
+    if (this.drafts.length > 1) {
+      const list = createElement('div', { className: 'xeditor-recovery__drafts' });
+      list.setAttribute('role', 'tablist');
+      this.drafts.forEach((entry, index) => {
+        const item = this.createButton(this.describe(entry), () => {
+          this.selected = index;
+          this.render();
+        });
+        item.setAttribute('role', 'tab');
+        item.setAttribute('aria-selected', String(index === this.selected));
+        toggleClass(item, 'xeditor-recovery__draft--active', index === this.selected);
+        if (entry.corrupted) {
+          item.appendChild(createElement('span', { className: 'xeditor-recovery__badge' }, [
+            this.editor.t('recovery.damaged')
+          ]));
+        }
+        list.appendChild(item);
+      });
+      this.element.appendChild(list);
+    } else {
+      this.element.appendChild(createElement('div', { className: 'xeditor-recovery__meta' }, [
+        this.describe(draft)
+      ]));
+    }
+
+    if (draft.corrupted) {
+      const warning = createElement('div', { className: 'xeditor-recovery__warning' }, [
+        this.editor.t('recovery.corrupted')
+      ]);
+      warning.setAttribute('role', 'alert');
+      this.element.appendChild(warning);
+    }
+
+    const views = createElement('div', { className: 'xeditor-recovery__views' });
+    (['changes', 'preview'] as const).forEach(view => {
+      const button = this.createButton(this.editor.t(`recovery.${view}`), () => {
+        this.view = view;
+        this.render();
+      });
+      button.setAttribute('aria-pressed', String(view === this.view));
+      toggleClass(button, 'xeditor-recovery__view--active', view === this.view);
+      views.appendChild(button);
+    });
+    this.element.appendChild(views);
+
+    const body = createElement('div', { className: 'xeditor-recovery__body' });
+    if (this.view === 'preview') {
+      body.innerHTML = this.editor.sanitize(draft.content);
+    } else {
+      this.renderChanges(body, draft);
+    }
+    this.element.appendChild(body);
+
+    const actions = createElement('div', { className: 'xeditor-recovery__actions' });
+    (['restore', 'merge', 'discard'] as const).forEach(action => {
+      const button = this.createButton(this.editor.t(`recovery.${action}`), () => {
+        this.actions[action](draft);
+        this.removeDraft(draft);
+      });
+      button.title = this.editor.t(`recovery.${action}Title`);
+      addClass(button, `xeditor-recovery__${action}`);
+      actions.appendChild(button);
+    });
+    this.element.appendChild(actions);
+  }
+
+  // Compared with what restoring the draft would replace
+  private renderChanges(container: HTMLElement, draft: AutoSaveDraft): void {
+    const diff = diffDocuments(
+      parseHTML(this.editor.getContent({ format: 'html' })),
+      parseHTML(this.editor.sanitize(draft.content))
+    );
+    const changed = diff.blocks.filter(block => block.type !== 'equal');
+
+    if (changed.length === 0) {
+      container.appendChild(createElement('p', { className: 'xeditor-recovery__empty' }, [
+        this.editor.t('recovery.noChanges')
+      ]));
+      return;
+    }
+
+    container.appendChild(createElement('p', { className: 'xeditor-recovery__summary' }, [
+      this.editor.t('recovery.summary', {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        modified: diff.modified.length
+      })
+    ]));
+    changed.forEach(block => {
+      const row = this.renderSegments(block.segments);
+      addClass(row, 'xeditor-recovery__block', `xeditor-recovery__block--${block.type}`);
+      container.appendChild(row);
+    });
+  }
+
+  private renderSegments(segments: DiffSegment[]): HTMLElement {
+    const element = createElement('div');
+
+    segments.forEach(segment => {
+      if (segment.type === 'equal') {
+        element.appendChild(document.createTextNode(segment.text));
+      } else {
+        element.appendChild(createElement(segment.type === 'insert' ? 'ins' : 'del', {}, [segment.text]));
+      }
+    });
+
+    return element;
+  }
+
+  private describe(draft: AutoSaveDraft): string {
+    return this.editor.t('recovery.draft', {
+      date: new Date(draft.timestamp).toLocaleString(this.editor.i18n.getLocale()),
+      words: this.editor.t('recovery.words', { count: draft.wordCount })
+    });
+  }
+
+  private removeDraft(draft: AutoSaveDraft): void {
+    this.drafts = this.drafts.filter(entry => entry !== draft);
+    if (this.drafts.length === 0) {
+      this.destroy();
+      return;
+    }
+    this.selected = Math.min(this.selected, this.drafts.length - 1);
+    this.render();
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = createElement('button', { className: 'xeditor-recovery__button' }, [label]) as HTMLButtonElement;
+    button.type = 'button';
+    button.addEventListener('click', onClick);
+    return button;
+  }
+}
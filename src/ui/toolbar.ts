@@ -1,7 +1,10 @@
-import { Toolbar, ToolbarConfig, ToolbarItem, Editor, DropdownItem } from '../types';
+import { Toolbar, ToolbarConfig, ToolbarItem, Editor, DropdownItem, Plugin } from '../types';
 import { createElement, addClass, removeClass, hasClass, toggleClass } from '../utils/dom';
 import { icons } from './icons';
 
+// Items whose icons point along the text direction and are mirrored in RTL
+const DIRECTIONAL_ITEMS = ['indent', 'outdent', 'orderedList', 'unorderedList'];
+
 export class ToolbarImpl implements Toolbar {
   element: HTMLElement;
   items: Map<string, ToolbarItem> = new Map();
@@ -15,6 +18,8 @@ export class ToolbarImpl implements Toolbar {
     this.config = this.normalizeConfig(config);
     this.element = this.createElement();
     this.render();
+    this.setupPluginLoadingListener();
+    this.editor.on('language:change', () => this.updateLabels());
   }
 
   private normalizeConfig(config?: ToolbarConfig): ToolbarConfig {
@@ -29,7 +34,7 @@ export class ToolbarImpl implements Toolbar {
       'emoji', 'specialChars', 'formElements', '|',
       'findReplace', 'undo', 'redo', '|',
       'comments', 'track-changes', '|',
-      'markdown', 'statistics', 'sourceCode', 'fullscreen', 'print'
+      'markdown', 'statistics', 'sourceCode', 'markdownMode', 'fullscreen', 'print', 'exportDocx'
     ];
 
     return {
@@ -44,7 +49,7 @@ export class ToolbarImpl implements Toolbar {
     const toolbar = createElement('div', {
       className: 'xeditor-toolbar',
       role: 'toolbar',
-      'aria-label': 'Editor toolbar'
+      'aria-label': this.editor.t('toolbar.label')
     });
 
     if (this.config.position === 'floating') {
@@ -103,6 +108,13 @@ export class ToolbarImpl implements Toolbar {
     // Listen for autosave events to update status
     this.setupAutoSaveStatusListener();
 
+    // Reflect lazy plugins that started loading before the toolbar existed
+    this.items.forEach(item => {
+      if (item.plugin && this.editor.plugins.getLoadState(item.plugin) === 'loading') {
+        this.setPluginLoading(item.plugin, true);
+      }
+    });
+
     this.updateState();
   }
 
@@ -151,6 +163,41 @@ export class ToolbarImpl implements Toolbar {
     });
   }
 
+  // Re-translates tooltips and dropdown labels of the built-in items
+  private updateLabels(): void {
+    this.element.setAttribute('aria-label', this.editor.t('toolbar.label'));
+
+    this.items.forEach((item, name) => {
+      const element = this.itemElements.get(name);
+      const translated = this.getDefaultItem(name);
+      if (!element || !translated) return;
+
+      const button = item.dropdown
+        ? element.querySelector('.xeditor-toolbar__dropdown-trigger')
+        : element;
+      if (button && translated.tooltip) {
+        button.setAttribute('title', translated.tooltip);
+        button.setAttribute('aria-label', translated.tooltip);
+      }
+
+      const text = button?.querySelector('.xeditor-toolbar__text');
+      if (text && translated.text && translated.text !== item.text) {
+        text.textContent = translated.text;
+      }
+
+      if (item.dropdown && translated.dropdown) {
+        const labels = element.querySelectorAll('.xeditor-toolbar__dropdown-item .xeditor-toolbar__text');
+        translated.dropdown.forEach((dropdownItem, index) => {
+          if (labels[index]) {
+            labels[index].textContent = dropdownItem.text;
+          }
+        });
+      }
+
+      this.items.set(name, { ...item, tooltip: translated.tooltip, text: translated.text });
+    });
+  }
+
   show(): void {
     removeClass(this.element, 'xeditor-toolbar--hidden');
   }
@@ -171,6 +218,10 @@ export class ToolbarImpl implements Toolbar {
       'aria-label': item.tooltip || item.name
     });
 
+    if (DIRECTIONAL_ITEMS.includes(item.name)) {
+      addClass(button, 'xeditor-toolbar__item--directional');
+    }
+
     if (item.icon) {
       const icon = createElement('span', {
         className: 'xeditor-toolbar__icon',
@@ -193,11 +244,13 @@ export class ToolbarImpl implements Toolbar {
     
     button.addEventListener('click', (e) => {
       e.preventDefault();
-      if (item.onClick) {
-        item.onClick();
-      } else if (item.command) {
-        this.editor.execCommand(item.command);
-      }
+      this.whenPluginReady(item, () => {
+        if (item.onClick) {
+          item.onClick();
+        } else if (item.command) {
+          this.editor.execCommand(item.command);
+        }
+      });
     });
 
     return button;
@@ -308,16 +361,64 @@ export class ToolbarImpl implements Toolbar {
     });
     
     menuItem.addEventListener('click', () => {
-      if (item.onClick) {
-        item.onClick();
-      } else if (parent.command) {
-        this.editor.execCommand(parent.command, item.value);
-      }
+      this.whenPluginReady(parent, () => {
+        if (item.onClick) {
+          item.onClick();
+        } else if (parent.command) {
+          this.editor.execCommand(parent.command, item.value);
+        }
+      });
     });
 
     return menuItem;
   }
 
+  // Runs the action right away, or once the item's lazy plugin has loaded
+  private whenPluginReady(item: ToolbarItem, action: () => void): void {
+    if (!item.plugin) {
+      action();
+      return;
+    }
+
+    const state = this.editor.plugins.getLoadState(item.plugin);
+    if (state === 'pending' || state === 'loading') {
+      this.editor.plugins.load(item.plugin).then(plugin => {
+        if (plugin) action();
+      });
+    } else {
+      action();
+    }
+  }
+
+  private setupPluginLoadingListener(): void {
+    this.editor.on('plugin:loading', (name: string) => {
+      this.setPluginLoading(name, true);
+    });
+
+    this.editor.on('plugin:ready', (plugin: Plugin) => {
+      this.setPluginLoading(plugin.name, false);
+    });
+
+    this.editor.on('plugin:error', (name: string) => {
+      this.setPluginLoading(name, false);
+    });
+  }
+
+  private setPluginLoading(pluginName: string, loading: boolean): void {
+    this.items.forEach((item, name) => {
+      if (item.plugin !== pluginName) return;
+      const element = this.itemElements.get(name);
+      if (!element) return;
+
+      toggleClass(element, 'xeditor-toolbar__item--loading', loading);
+      if (loading) {
+        element.setAttribute('aria-busy', 'true');
+      } else {
+        element.removeAttribute('aria-busy');
+      }
+    });
+  }
+
   private createSeparator(): HTMLElement {
     return createElement('div', {
       className: 'xeditor-toolbar__separator',
@@ -333,71 +434,72 @@ export class ToolbarImpl implements Toolbar {
       bold: {
         name: 'bold',
         icon: icons.bold,
-        tooltip: 'Bold (Ctrl+B)',
+        tooltip: this.editor.t('toolbar.bold'),
         command: 'bold'
       },
       italic: {
         name: 'italic',
         icon: icons.italic,
-        tooltip: 'Italic (Ctrl+I)',
+        tooltip: this.editor.t('toolbar.italic'),
         command: 'italic'
       },
       underline: {
         name: 'underline',
         icon: icons.underline,
-        tooltip: 'Underline (Ctrl+U)',
+        tooltip: this.editor.t('toolbar.underline'),
         command: 'underline'
       },
       strikethrough: {
         name: 'strikethrough',
         icon: icons.strikethrough,
-        tooltip: 'Strikethrough',
+        tooltip: this.editor.t('toolbar.strikethrough'),
         command: 'strikethrough'
       },
       heading: {
         name: 'heading',
         text: 'H',
-        tooltip: 'Heading',
+        tooltip: this.editor.t('toolbar.heading'),
         dropdown: [
-          { text: 'Heading 1', value: 'h1' },
-          { text: 'Heading 2', value: 'h2' },
-          { text: 'Heading 3', value: 'h3' },
-          { text: 'Heading 4', value: 'h4' },
-          { text: 'Heading 5', value: 'h5' },
-          { text: 'Heading 6', value: 'h6' }
+          { text: this.editor.t('toolbar.headingLevel', { level: 1 }), value: 'h1' },
+          { text: this.editor.t('toolbar.headingLevel', { level: 2 }), value: 'h2' },
+          { text: this.editor.t('toolbar.headingLevel', { level: 3 }), value: 'h3' },
+          { text: this.editor.t('toolbar.headingLevel', { level: 4 }), value: 'h4' },
+          { text: this.editor.t('toolbar.headingLevel', { level: 5 }), value: 'h5' },
+          { text: this.editor.t('toolbar.headingLevel', { level: 6 }), value: 'h6' }
         ],
         command: 'formatBlock'
       },
       paragraph: {
         name: 'paragraph',
         icon: icons.paragraph,
-        tooltip: 'Paragraph',
+        tooltip: this.editor.t('toolbar.paragraph'),
         command: 'formatBlock',
         onClick: () => this.editor.execCommand('formatBlock', 'p')
       },
       orderedList: {
         name: 'orderedList',
         icon: icons.orderedList,
-        tooltip: 'Ordered List',
+        tooltip: this.editor.t('toolbar.orderedList'),
         command: 'insertOrderedList'
       },
       unorderedList: {
         name: 'unorderedList',
         icon: icons.unorderedList,
-        tooltip: 'Unordered List',
+        tooltip: this.editor.t('toolbar.unorderedList'),
         command: 'insertUnorderedList'
       },
       link: {
         name: 'link',
+        plugin: 'link',
         icon: icons.link,
-        tooltip: 'Insert Link',
+        tooltip: this.editor.t('toolbar.link'),
         onClick: () => {
           const linkPlugin = this.editor.plugins.get('link');
           if (linkPlugin && typeof (linkPlugin as any).showLinkDialog === 'function') {
             (linkPlugin as any).showLinkDialog();
           } else {
             // Fallback to prompt
-            const url = prompt('Enter URL:');
+            const url = prompt(this.editor.t('toolbar.linkPrompt'));
             if (url) {
               this.editor.execCommand('createLink', url);
             }
@@ -406,8 +508,9 @@ export class ToolbarImpl implements Toolbar {
       },
       image: {
         name: 'image',
+        plugin: 'image',
         icon: icons.image,
-        tooltip: 'Insert Image',
+        tooltip: this.editor.t('toolbar.image'),
         onClick: () => {
           // This will be handled by the image plugin
           const imagePlugin = this.editor.plugins.get('image');
@@ -418,8 +521,9 @@ export class ToolbarImpl implements Toolbar {
       },
       code: {
         name: 'code',
+        plugin: 'codeblock',
         icon: icons.code,
-        tooltip: 'Code Block',
+        tooltip: this.editor.t('toolbar.code'),
         onClick: () => {
           const codeBlockPlugin = this.editor.plugins.get('codeblock');
           if (codeBlockPlugin && typeof (codeBlockPlugin as any).showCodeBlockDialog === 'function') {
@@ -430,28 +534,29 @@ export class ToolbarImpl implements Toolbar {
       blockquote: {
         name: 'blockquote',
         icon: icons.blockquote,
-        tooltip: 'Blockquote',
+        tooltip: this.editor.t('toolbar.blockquote'),
         command: 'formatBlock',
         onClick: () => this.editor.execCommand('formatBlock', 'blockquote')
       },
       fontFamily: {
         name: 'fontFamily',
-        text: 'Font',
-        tooltip: 'Font Family',
+        text: this.editor.t('toolbar.fontFamilyText'),
+        tooltip: this.editor.t('toolbar.fontFamily'),
         dropdown: fontPlugin ? (fontPlugin as any).getFontDropdownItems() : [],
         command: 'fontName'
       },
       fontSize: {
         name: 'fontSize',
         text: '16px',
-        tooltip: 'Font Size',
+        tooltip: this.editor.t('toolbar.fontSize'),
         dropdown: fontPlugin ? (fontPlugin as any).getSizeDropdownItems() : [],
         command: 'fontSize'
       },
       textColor: {
         name: 'textColor',
+        plugin: 'color',
         text: 'A',
-        tooltip: 'Text Color',
+        tooltip: this.editor.t('toolbar.textColor'),
         onClick: () => {
           const colorPlugin = this.editor.plugins.get('color');
           if (colorPlugin && typeof (colorPlugin as any).showTextColorPicker === 'function') {
@@ -461,8 +566,9 @@ export class ToolbarImpl implements Toolbar {
       },
       backgroundColor: {
         name: 'backgroundColor',
+        plugin: 'color',
         text: 'A',
-        tooltip: 'Background Color',
+        tooltip: this.editor.t('toolbar.backgroundColor'),
         onClick: () => {
           const colorPlugin = this.editor.plugins.get('color');
           if (colorPlugin && typeof (colorPlugin as any).showBackgroundColorPicker === 'function') {
@@ -473,61 +579,74 @@ export class ToolbarImpl implements Toolbar {
       undo: {
         name: 'undo',
         icon: icons.undo,
-        tooltip: 'Undo (Ctrl+Z)',
+        tooltip: this.editor.t('toolbar.undo'),
         command: 'undo'
       },
       redo: {
         name: 'redo',
         icon: icons.redo,
-        tooltip: 'Redo (Ctrl+Y)',
+        tooltip: this.editor.t('toolbar.redo'),
         command: 'redo'
       },
       alignLeft: {
         name: 'alignLeft',
         icon: icons.alignLeft,
-        tooltip: 'Align Left',
+        tooltip: this.editor.t('toolbar.alignLeft'),
         command: 'justifyLeft'
       },
       alignCenter: {
         name: 'alignCenter',
         icon: icons.alignCenter,
-        tooltip: 'Align Center',
+        tooltip: this.editor.t('toolbar.alignCenter'),
         command: 'justifyCenter'
       },
       alignRight: {
         name: 'alignRight',
         icon: icons.alignRight,
-        tooltip: 'Align Right',
+        tooltip: this.editor.t('toolbar.alignRight'),
         command: 'justifyRight'
       },
       alignJustify: {
         name: 'alignJustify',
         icon: icons.alignJustify,
-        tooltip: 'Justify',
+        tooltip: this.editor.t('toolbar.alignJustify'),
         command: 'justifyFull'
       },
       indent: {
         name: 'indent',
         icon: icons.indent,
-        tooltip: 'Indent',
+        tooltip: this.editor.t('toolbar.indent'),
         command: 'indent'
       },
       outdent: {
         name: 'outdent',
         icon: icons.outdent,
-        tooltip: 'Outdent',
+        tooltip: this.editor.t('toolbar.outdent'),
         command: 'outdent'
       },
+      directionLTR: {
+        name: 'directionLTR',
+        icon: icons.directionLTR,
+        tooltip: this.editor.t('toolbar.directionLTR'),
+        command: 'directionLTR'
+      },
+      directionRTL: {
+        name: 'directionRTL',
+        icon: icons.directionRTL,
+        tooltip: this.editor.t('toolbar.directionRTL'),
+        command: 'directionRTL'
+      },
       horizontalRule: {
         name: 'horizontalRule',
         icon: icons.horizontalRule,
-        tooltip: 'Insert Horizontal Line',
+        tooltip: this.editor.t('toolbar.horizontalRule'),
         command: 'insertHorizontalRule'
       },
       fullscreen: {
         name: 'fullscreen',
+        plugin: 'fullscreen',
         icon: icons.fullscreen,
-        tooltip: 'Fullscreen',
+        tooltip: this.editor.t('toolbar.fullscreen'),
         onClick: () => {
           // Will be handled by fullscreen plugin
           const fullscreenPlugin = this.editor.plugins.get('fullscreen');
@@ -539,13 +658,21 @@ export class ToolbarImpl implements Toolbar {
       print: {
         name: 'print',
         icon: icons.print,
-        tooltip: 'Print',
+        tooltip: this.editor.t('toolbar.print'),
         command: 'print'
       },
+      exportDocx: {
+        name: 'exportDocx',
+        plugin: 'docx',
+        icon: icons.exportDocx,
+        tooltip: this.editor.t('toolbar.exportDocx'),
+        command: 'exportDocx'
+      },
       sourceCode: {
         name: 'sourceCode',
+        plugin: 'source',
         icon: icons.sourceCode,
-        tooltip: 'HTML Source Code',
+        tooltip: this.editor.t('toolbar.sourceCode'),
         onClick: () => {
           const sourcePlugin = this.editor.plugins.get('source');
           if (sourcePlugin && typeof (sourcePlugin as any).toggleSource === 'function') {
@@ -555,8 +682,9 @@ export class ToolbarImpl implements Toolbar {
       },
       table: {
         name: 'table',
+        plugin: 'table',
         icon: icons.table,
-        tooltip: 'Insert Table',
+        tooltip: this.editor.t('toolbar.table'),
         onClick: () => {
           const tablePlugin = this.editor.plugins.get('table');
           if (tablePlugin && typeof (tablePlugin as any).showTableDialog === 'function') {
@@ -566,8 +694,9 @@ export class ToolbarImpl implements Toolbar {
       },
       findReplace: {
         name: 'findReplace',
+        plugin: 'findreplace',
         icon: icons.search,
-        tooltip: 'Find & Replace (Ctrl+F)',
+        tooltip: this.editor.t('toolbar.findReplace'),
         onClick: () => {
           const findReplacePlugin = this.editor.plugins.get('findreplace');
           if (findReplacePlugin && typeof (findReplacePlugin as any).showFindReplaceDialog === 'function') {
@@ -577,8 +706,9 @@ export class ToolbarImpl implements Toolbar {
       },
       video: {
         name: 'video',
+        plugin: 'video',
         icon: icons.video,
-        tooltip: 'Insert Video',
+        tooltip: this.editor.t('toolbar.video'),
         onClick: () => {
           const videoPlugin = this.editor.plugins.get('video');
           if (videoPlugin && typeof (videoPlugin as any).showVideoDialog === 'function') {
@@ -588,14 +718,16 @@ export class ToolbarImpl implements Toolbar {
       },
       checklist: {
         name: 'checklist',
+        plugin: 'checklist',
         icon: icons.checklist,
-        tooltip: 'Checklist',
+        tooltip: this.editor.t('toolbar.checklist'),
         command: 'insertChecklist'
       },
       statistics: {
         name: 'statistics',
+        plugin: 'statistics',
         icon: icons.statistics,
-        tooltip: 'Document Statistics',
+        tooltip: this.editor.t('toolbar.statistics'),
         onClick: () => {
           const statisticsPlugin = this.editor.plugins.get('statistics');
           if (statisticsPlugin && typeof (statisticsPlugin as any).showStatistics === 'function') {
@@ -605,11 +737,12 @@ export class ToolbarImpl implements Toolbar {
       },
       markdown: {
         name: 'markdown',
+        plugin: 'markdown',
         text: 'MD',
-        tooltip: 'Markdown Import/Export',
+        tooltip: this.editor.t('toolbar.markdown'),
         dropdown: [
           {
-            text: 'Export as Markdown',
+            text: this.editor.t('toolbar.markdownExport'),
             onClick: () => {
               const markdownPlugin = this.editor.plugins.get('markdown');
               if (markdownPlugin && typeof (markdownPlugin as any).showExportDialog === 'function') {
@@ -618,7 +751,7 @@ export class ToolbarImpl implements Toolbar {
             }
           },
           {
-            text: 'Import from Markdown',
+            text: this.editor.t('toolbar.markdownImport'),
             onClick: () => {
               const markdownPlugin = this.editor.plugins.get('markdown');
               if (markdownPlugin && typeof (markdownPlugin as any).showImportDialog === 'function') {
@@ -628,10 +761,19 @@ export class ToolbarImpl implements Toolbar {
           }
         ]
       },
+      markdownMode: {
+        name: 'markdownMode',
+        plugin: 'markdown',
+        icon: icons.markdown,
+        tooltip: this.editor.t('toolbar.markdownMode'),
+        // Not through execCommand: switching views is no edit to undo
+        onClick: () => this.editor.commands.execute('toggleMarkdownMode')
+      },
       emoji: {
         name: 'emoji',
+        plugin: 'emoji',
         icon: '😀',
-        tooltip: 'Insert Emoji',
+        tooltip: this.editor.t('toolbar.emoji'),
         onClick: () => {
           const emojiPlugin = this.editor.plugins.get('emoji');
           if (emojiPlugin && typeof (emojiPlugin as any).showEmojiPicker === 'function') {
@@ -641,8 +783,9 @@ export class ToolbarImpl implements Toolbar {
       },
       specialChars: {
         name: 'specialChars',
+        plugin: 'special-chars',
         icon: 'Ω',
-        tooltip: 'Insert Special Character',
+        tooltip: this.editor.t('toolbar.specialChars'),
         onClick: () => {
           const specialCharsPlugin = this.editor.plugins.get('special-chars');
           if (specialCharsPlugin && typeof (specialCharsPlugin as any).showCharPicker === 'function') {
@@ -652,8 +795,9 @@ export class ToolbarImpl implements Toolbar {
       },
       fileManager: {
         name: 'fileManager',
+        plugin: 'file-manager',
         icon: '📁',
-        tooltip: 'File Manager',
+        tooltip: this.editor.t('toolbar.fileManager'),
         onClick: () => {
           const fileManagerPlugin = this.editor.plugins.get('file-manager');
           if (fileManagerPlugin && typeof (fileManagerPlugin as any).showFileManager === 'function') {
@@ -663,8 +807,9 @@ export class ToolbarImpl implements Toolbar {
       },
       formElements: {
         name: 'formElements',
+        plugin: 'form-elements',
         icon: '📝',
-        tooltip: 'Insert Form Element',
+        tooltip: this.editor.t('toolbar.formElements'),
         onClick: () => {
           const formElementsPlugin = this.editor.plugins.get('form-elements');
           if (formElementsPlugin && typeof (formElementsPlugin as any).showFormElementsDialog === 'function') {
@@ -674,8 +819,9 @@ export class ToolbarImpl implements Toolbar {
       },
       settings: {
         name: 'settings',
+        plugin: 'settings',
         icon: '⚙️',
-        tooltip: 'Settings',
+        tooltip: this.editor.t('toolbar.settings'),
         onClick: () => {
           const settingsPlugin = this.editor.plugins.get('settings');
           if (settingsPlugin && typeof (settingsPlugin as any).showSettingsDialog === 'function') {
@@ -0,0 +1,21 @@
+export const AUTHOR_COLORS = [
+  '#3498db', '#e74c3c', '#2ecc71', '#f39c12', '#9b59b6',
+  '#1abc9c', '#34495e', '#e67e22', '#95a5a6', '#d35400'
+];
+
+/**
+ * Pick a stable color for an author: an explicit mapping wins, otherwise the
+ * name is hashed onto the shared palette so every client agrees on it.
+ */
+export function getAuthorColor(author: string, overrides?: { [author: string]: string }): string {
+  if (overrides && overrides[author]) {
+    return overrides[author];
+  }
+
+  let hash = 0;
+  for (let i = 0; i < author.length; i++) {
+    hash = ((hash << 5) - hash) + author.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return AUTHOR_COLORS[Math.abs(hash) % AUTHOR_COLORS.length];
+}
@@ -0,0 +1,125 @@
+import {
+  AutoSaveStorage,
+  HttpAutoSaveStorageOptions,
+  RemoteAutoSaveStorage,
+  RemoteDocument,
+  RemoteSaveResult
+} from '../types';
+import { errorHandler } from './error-handler';
+import { AUTOSAVE_STORE, isIndexedDBAvailable, isQuotaError, runTransaction } from './indexeddb';
+
+export class LocalStorageAutoSaveStorage implements AutoSaveStorage {
+  async save(key: string, content: string): Promise<void> {
+    try {
+      localStorage.setItem(key, content);
+    } catch (error) {
+      // Kept as is so callers can tell a full storage apart
+      if (isQuotaError(error)) throw error;
+      throw new Error(`Failed to save to localStorage: ${error}`);
+    }
+  }
+
+  async load(key: string): Promise<string | null> {
+    try {
+      return localStorage.getItem(key);
+    } catch (error) {
+      errorHandler.handle(error as Error, 'Failed to load from localStorage');
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      throw new Error(`Failed to delete from localStorage: ${error}`);
+    }
+  }
+}
+
+/**
+ * Keeps auto-saved content in IndexedDB, which has room for documents with
+ * embedded images. Content an earlier release left in localStorage under
+ * the same key is moved over the first time it is loaded.
+ */
+export class IndexedDBAutoSaveStorage implements AutoSaveStorage {
+  async save(key: string, content: string): Promise<void> {
+    await runTransaction(AUTOSAVE_STORE, 'readwrite', store => store.put(content, key));
+  }
+
+  async load(key: string): Promise<string | null> {
+    const content = await runTransaction<string | undefined>(AUTOSAVE_STORE, 'readonly', store => store.get(key));
+    if (typeof content === 'string') return content;
+
+    return this.migrate(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await runTransaction(AUTOSAVE_STORE, 'readwrite', store => store.delete(key));
+  }
+
+  private async migrate(key: string): Promise<string | null> {
+    let legacy: string | null = null;
+    try {
+      legacy = localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+    if (legacy === null) return null;
+
+    await this.save(key, legacy);
+    localStorage.removeItem(key);
+    return legacy;
+  }
+}
+
+/**
+ * Remote storage over plain HTTP: GET and PUT on one URL per document with
+ * the ETag as revision. Saves are conditional, so a 412 answer means
+ * someone else saved first.
+ */
+export class HttpAutoSaveStorage implements RemoteAutoSaveStorage {
+  private options: HttpAutoSaveStorageOptions;
+
+  constructor(options: HttpAutoSaveStorageOptions) {
+    this.options = options;
+  }
+
+  async load(key: string): Promise<RemoteDocument | null> {
+    const response = await fetch(this.options.url(key), { headers: this.options.headers });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load ${key}: ${response.status} ${response.statusText}`);
+    }
+    return { content: await response.text(), revision: response.headers.get('ETag') || '' };
+  }
+
+  async save(key: string, content: string, baseRevision: string | null): Promise<RemoteSaveResult> {
+    const response = await fetch(this.options.url(key), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        // Without a revision the document must not exist yet
+        ...(baseRevision ? { 'If-Match': baseRevision } : { 'If-None-Match': '*' }),
+        ...this.options.headers
+      },
+      body: content
+    });
+
+    if (response.status === 412) {
+      const remote = await this.load(key);
+      // Deleted in the meantime
+      if (!remote) return this.save(key, content, null);
+      return { status: 'conflict', remote };
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to save ${key}: ${response.status} ${response.statusText}`);
+    }
+    return { status: 'saved', revision: response.headers.get('ETag') || '' };
+  }
+}
+
+// IndexedDB where the browser has it
+export function createAutoSaveStorage(): AutoSaveStorage {
+  return isIndexedDBAvailable() ? new IndexedDBAutoSaveStorage() : new LocalStorageAutoSaveStorage();
+}
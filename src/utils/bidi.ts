@@ -0,0 +1,47 @@
+import { TextDirection } from '../types';
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'ps', 'yi', 'ku', 'dv', 'sd', 'ug'];
+
+// Hebrew, Arabic, Syriac, Thaana, NKo and the Arabic/Hebrew presentation forms
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[A-Za-z\u00C0-\u02B8\u0370-\u058F\u0904-\u1FFF\u2C00-\uFB1C]/;
+
+export function isRTLLanguage(language: string): boolean {
+  return RTL_LANGUAGES.includes(language.toLowerCase().split('-')[0]);
+}
+
+/**
+ * Direction of the first strong character in the text, as used by
+ * `dir="auto"`. Returns null when the text has no strong characters.
+ */
+export function detectDirection(text: string): TextDirection | null {
+  for (const char of text) {
+    if (RTL_CHAR.test(char)) return 'rtl';
+    if (LTR_CHAR.test(char)) return 'ltr';
+  }
+  return null;
+}
+
+/**
+ * Resolved direction of an element: the nearest `dir` attribute wins, with
+ * `auto` resolved from the element's own text, then the computed style.
+ */
+export function getDirection(element: Element): TextDirection {
+  const owner = element.closest('[dir]');
+  const dir = owner?.getAttribute('dir');
+
+  if (dir === 'rtl' || dir === 'ltr') {
+    return dir;
+  }
+  if (dir === 'auto' && owner) {
+    const detected = detectDirection(owner.textContent || '');
+    if (detected) return detected;
+  }
+
+  return window.getComputedStyle(element).direction === 'rtl' ? 'rtl' : 'ltr';
+}
+
+// Physical side where indentation of a block starts
+export function getStartSide(element: Element): 'left' | 'right' {
+  return getDirection(element) === 'rtl' ? 'right' : 'left';
+}
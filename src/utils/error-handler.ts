@@ -23,20 +23,23 @@ export class ErrorHandler {
     };
 
     console.error('xEditor Error:', editorError);
-    
-    // Notify error listeners
-    this.errorListeners.forEach(listener => {
-      try {
-        listener(editorError);
-      } catch (e) {
-        console.error('Error in error listener:', e);
-      }
-    });
+    this.notifyListeners(editorError);
 
     // Show user-friendly notification
     this.showNotification(editorError.message);
   }
 
+  /**
+   * Reports a mistake in how the editor is set up, such as an unknown plugin.
+   * Listeners are notified, but the user sees no notification.
+   */
+  warn(message: string): void {
+    const editorError: EditorError = { message, code: 'CONFIG_ERROR' };
+
+    console.warn('xEditor Warning:', editorError);
+    this.notifyListeners(editorError);
+  }
+
   addErrorListener(listener: (error: EditorError) => void): void {
     this.errorListeners.push(listener);
   }
@@ -48,6 +51,16 @@ export class ErrorHandler {
     }
   }
 
+  private notifyListeners(editorError: EditorError): void {
+    this.errorListeners.forEach(listener => {
+      try {
+        listener(editorError);
+      } catch (e) {
+        console.error('Error in error listener:', e);
+      }
+    });
+  }
+
   private getUserFriendlyMessage(error: Error | EditorError): string {
     if ('code' in error) {
       switch (error.code) {
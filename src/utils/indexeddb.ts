@@ -0,0 +1,87 @@
+// Everything xEditor keeps in IndexedDB lives in one database, a store per feature
+const DB_NAME = 'xeditor';
+const DB_VERSION = 1;
+
+export const AUTOSAVE_STORE = 'autosave';
+// Versions are keyed by id and indexed by the document they belong to
+export const VERSIONS_STORE = 'versions';
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    // Some browsers throw when storage is disabled
+    return false;
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+          db.createObjectStore(AUTOSAVE_STORE);
+        }
+        if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+          db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' }).createIndex('document', 'document');
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab upgrade the database; the next call reopens it
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+}
+
+/**
+ * Runs `fn` in a transaction on one store and resolves with the result of
+ * the request it returns once the transaction has committed.
+ */
+export async function runTransaction<T = undefined>(
+  storeName: string,
+  mode: 'readonly' | 'readwrite',
+  fn: (store: IDBObjectStore) => IDBRequest | void
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = fn(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+// Whether a storage error means the origin ran out of space
+export function isQuotaError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { name, code } = error as { name?: string; code?: number };
+  return (
+    name === 'QuotaExceededError' ||
+    // Firefox
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  );
+}
@@ -217,9 +217,13 @@ export function chunkContent(content: string, chunkSize: number = 50000): string
  * Optimize large content handling
  */
 export function optimizeContent(content: string): string {
-  // Remove excessive whitespace
-  content = content.replace(/\s+/g, ' ');
-  
+  // Remove excessive whitespace, except in <pre>. A line break is kept so the
+  // model can tell whitespace laying out blocks from spaces between words.
+  content = content
+    .split(/(<pre[\s>][\s\S]*?<\/pre>)/i)
+    .map((part, index) => index % 2 === 1 ? part : part.replace(/\s+/g, space => space.includes('\n') ? '\n' : ' '))
+    .join('');
+
   // Remove empty attributes
   content = content.replace(/\s+(?:class|style|id)=""/g, '');
   
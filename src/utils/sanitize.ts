@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { SanitizeRemoval, SanitizeSchema } from '../types';
 
 const DEFAULT_ALLOWED_TAGS = [
   'p', 'br', 'span', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
@@ -10,7 +11,7 @@ const DEFAULT_ALLOWED_TAGS = [
 ];
 
 const DEFAULT_ALLOWED_ATTRIBUTES = {
-  '*': ['class', 'id', 'style', 'data-*'],
+  '*': ['class', 'id', 'style', 'dir', 'data-*'],
   'a': ['href', 'target', 'rel', 'title'],
   'img': ['src', 'alt', 'title', 'width', 'height'],
   'video': ['src', 'controls', 'width', 'height', 'poster'],
@@ -20,34 +21,121 @@ const DEFAULT_ALLOWED_ATTRIBUTES = {
   'th': ['colspan', 'rowspan']
 };
 
+export const DEFAULT_IFRAME_HOSTS = [
+  'youtube.com', 'youtube-nocookie.com', 'player.vimeo.com', 'dailymotion.com', 'facebook.com'
+];
+
+// Markup the core commands and the document model produce without any plugins
+export const CORE_SCHEMA: SanitizeSchema = {
+  tags: [
+    'p', 'br', 'span', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'hr',
+    'strong', 'em', 'u', 's', 'sub', 'sup', 'mark', 'a'
+  ],
+  attributes: {
+    '*': ['class', 'id', 'style', 'dir', 'data-*'],
+    'a': ['href', 'target', 'rel', 'title']
+  }
+};
+
 export interface SanitizeOptions {
   allowedTags?: string[];
   allowedAttributes?: Record<string, string[]>;
   allowedSchemes?: string[];
   allowDataUri?: boolean;
+  // Hosts iframes may load from (default: DEFAULT_IFRAME_HOSTS)
+  iframeHosts?: string[];
 }
 
-export function sanitizeHTML(
+export interface SanitizeResult {
+  html: string;
+  removed: SanitizeRemoval[];
+}
+
+/**
+ * Union of several schemas. Tag and attribute names are lower-cased and
+ * de-duplicated so the result can be listed as-is in an audit.
+ */
+export function mergeSchemas(...schemas: (SanitizeSchema | undefined)[]): Required<SanitizeSchema> {
+  const tags = new Set<string>();
+  const attributes: Record<string, Set<string>> = {};
+  const iframeHosts = new Set<string>();
+
+  schemas.forEach(schema => {
+    if (!schema) return;
+    (schema.tags || []).forEach(tag => tags.add(tag.toLowerCase()));
+    Object.entries(schema.attributes || {}).forEach(([tag, names]) => {
+      const key = tag.toLowerCase();
+      attributes[key] = attributes[key] || new Set();
+      names.forEach(name => attributes[key].add(name.toLowerCase()));
+    });
+    (schema.iframeHosts || []).forEach(host => iframeHosts.add(host.toLowerCase()));
+  });
+
+  return {
+    tags: Array.from(tags),
+    attributes: Object.fromEntries(
+      Object.entries(attributes).map(([tag, names]) => [tag, Array.from(names)])
+    ),
+    iframeHosts: Array.from(iframeHosts)
+  };
+}
+
+export function isAllowedIframeSource(src: string, hosts: string[]): boolean {
+  try {
+    const url = new URL(src, window.location.href);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+    const hostname = url.hostname.toLowerCase();
+    return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+}
+
+function describeRemoval(entry: DOMPurify.RemovedElement | DOMPurify.RemovedAttribute): SanitizeRemoval | null {
+  if ('attribute' in entry) {
+    if (!entry.attribute || !entry.from) return null;
+    return {
+      tag: entry.from.nodeName.toLowerCase(),
+      attribute: entry.attribute.name,
+      value: entry.attribute.value
+    };
+  }
+
+  // Text and comment nodes are not markup anyone needs to audit, and the
+  // <body> wrapper DOMPurify parses into is not part of the input
+  const element = entry.element;
+  if (element.nodeType !== Node.ELEMENT_NODE || element.nodeName === 'BODY') return null;
+  return { tag: element.nodeName.toLowerCase() };
+}
+
+/**
+ * Sanitizes HTML and reports every element and attribute that was removed,
+ * including iframes whose source is not on the host allowlist.
+ */
+export function sanitizeHTMLWithReport(
   html: string,
   options: SanitizeOptions = {}
-): string {
+): SanitizeResult {
+  const allowedAttributes: Record<string, string[]> = options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES;
+  const globalAttributes = allowedAttributes['*'] || [];
+
   const config: DOMPurify.Config & { ALLOWED_ATTR: string[] } = {
     ALLOWED_TAGS: options.allowedTags || DEFAULT_ALLOWED_TAGS,
-    ALLOWED_ATTR: [],
-    ALLOW_DATA_ATTR: true,
+    // DOMPurify only knows a flat list; the hook below applies it per tag
+    ALLOWED_ATTR: Array.from(new Set(Object.values(allowedAttributes).flat())),
+    ALLOW_DATA_ATTR: globalAttributes.includes('data-*'),
     ALLOW_UNKNOWN_PROTOCOLS: false
   };
 
-  const allowedAttributes = options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES;
-  Object.entries(allowedAttributes).forEach(([tag, attrs]) => {
-    attrs.forEach(attr => {
-      if (tag === '*') {
-        config.ALLOWED_ATTR.push(attr);
-      } else {
-        config.ALLOWED_ATTR.push(`${tag}:${attr}`);
-      }
-    });
-  });
+  const checkAttribute = (node: Element, data: DOMPurify.UponSanitizeAttributeHookEvent): void => {
+    const name = data.attrName;
+    if (name.startsWith('data-') || globalAttributes.includes(name)) return;
+    if (!(allowedAttributes[node.nodeName.toLowerCase()] || []).includes(name)) {
+      data.keepAttr = false;
+    }
+  };
 
   if (options.allowedSchemes) {
     config.ALLOWED_URI_REGEXP = new RegExp(
@@ -60,7 +148,38 @@ export function sanitizeHTML(
     config.ADD_DATA_URI_TAGS = ['img', 'video', 'audio'];
   }
 
-  return DOMPurify.sanitize(html, config) as unknown as string;
+  let body: HTMLElement;
+  DOMPurify.addHook('uponSanitizeAttribute', checkAttribute);
+  try {
+    body = DOMPurify.sanitize(html, { ...config, RETURN_DOM: true }) as HTMLElement;
+  } finally {
+    DOMPurify.removeHook('uponSanitizeAttribute', checkAttribute);
+  }
+
+  // A removed element is reported once rather than with each of its attributes
+  const removedElements = new Set(DOMPurify.removed.flatMap(entry => 'element' in entry ? [entry.element] : []));
+  const removed = DOMPurify.removed
+    .filter(entry => !('attribute' in entry) || !removedElements.has(entry.from))
+    .map(describeRemoval)
+    .filter((entry): entry is SanitizeRemoval => entry !== null);
+
+  const iframeHosts = options.iframeHosts || DEFAULT_IFRAME_HOSTS;
+  body.querySelectorAll('iframe').forEach(iframe => {
+    const src = iframe.getAttribute('src') || '';
+    if (!isAllowedIframeSource(src, iframeHosts)) {
+      iframe.remove();
+      removed.push({ tag: 'iframe', attribute: 'src', value: src });
+    }
+  });
+
+  return { html: body.innerHTML, removed };
+}
+
+export function sanitizeHTML(
+  html: string,
+  options: SanitizeOptions = {}
+): string {
+  return sanitizeHTMLWithReport(html, options).html;
 }
 
 export function escapeHTML(text: string): string {
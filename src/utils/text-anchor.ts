@@ -0,0 +1,230 @@
+import { TextAnchor } from '../types';
+
+// Characters of context stored on each side of the quote
+const CONTEXT_LENGTH = 32;
+// Longer quotes are located by their ends so matching stays cheap
+const MAX_FUZZY_PATTERN = 64;
+// Share of a quote that may have changed for a fuzzy match to count
+const MAX_ERROR_RATIO = 0.25;
+
+interface TextSegment {
+  node: Text;
+  start: number;
+}
+
+interface TextIndex {
+  text: string;
+  segments: TextSegment[];
+}
+
+interface Match {
+  start: number;
+  end: number;
+  errors: number;
+}
+
+function indexText(root: Node): TextIndex {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const segments: TextSegment[] = [];
+  let text = '';
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    segments.push({ node, start: text.length });
+    text += node.data;
+  }
+  return { text, segments };
+}
+
+export function getTextContent(root: Node): string {
+  return indexText(root).text;
+}
+
+// Character offset of a DOM position within the text of `root`
+export function getTextOffset(root: Node, container: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(container, offset);
+  return range.toString().length;
+}
+
+// DOM position of a character offset within the text of `root`
+export function getTextPosition(root: Node, offset: number): { node: Text; offset: number } | null {
+  const { segments } = indexText(root);
+  for (const { node, start } of segments) {
+    if (offset <= start + node.length) {
+      return { node, offset: Math.max(0, offset - start) };
+    }
+  }
+  return null;
+}
+
+export function createAnchor(root: Node, start: number, end: number): TextAnchor {
+  const text = getTextContent(root);
+  return {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+    start,
+    end
+  };
+}
+
+export function createAnchorFromRange(root: Node, range: Range): TextAnchor {
+  return createAnchor(
+    root,
+    getTextOffset(root, range.startContainer, range.startOffset),
+    getTextOffset(root, range.endContainer, range.endOffset)
+  );
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (
+    length < a.length && length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Approximate substring search (Sellers' algorithm): every place where
+ * `pattern` occurs in `text` with at most `maxErrors` edits.
+ */
+function fuzzySearch(text: string, pattern: string, maxErrors: number): Match[] {
+  const m = pattern.length;
+  const matches: Match[] = [];
+  let distances = Array.from({ length: m + 1 }, (_, i) => i);
+  let starts = new Array<number>(m + 1).fill(0);
+
+  for (let j = 1; j <= text.length; j++) {
+    const nextDistances = [0];
+    const nextStarts = [j];
+
+    for (let i = 1; i <= m; i++) {
+      const substitution = distances[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const deletion = distances[i] + 1;
+      const insertion = nextDistances[i - 1] + 1;
+
+      if (substitution <= deletion && substitution <= insertion) {
+        nextDistances.push(substitution);
+        nextStarts.push(starts[i - 1]);
+      } else if (deletion <= insertion) {
+        nextDistances.push(deletion);
+        nextStarts.push(starts[i]);
+      } else {
+        nextDistances.push(insertion);
+        nextStarts.push(nextStarts[i - 1]);
+      }
+    }
+
+    distances = nextDistances;
+    starts = nextStarts;
+    if (distances[m] <= maxErrors) {
+      matches.push({ start: starts[m], end: j, errors: distances[m] });
+    }
+  }
+  return matches;
+}
+
+function closest(matches: Match[], expected: number, offset: (match: Match) => number): Match | null {
+  let best: Match | null = null;
+  matches.forEach(match => {
+    if (
+      !best ||
+      match.errors < best.errors ||
+      (match.errors === best.errors && Math.abs(offset(match) - expected) < Math.abs(offset(best) - expected))
+    ) {
+      best = match;
+    }
+  });
+  return best;
+}
+
+function findFuzzy(text: string, anchor: TextAnchor): Match | null {
+  const { exact } = anchor;
+  const maxErrors = (pattern: string) => Math.floor(pattern.length * MAX_ERROR_RATIO);
+
+  if (exact.length <= MAX_FUZZY_PATTERN) {
+    return closest(fuzzySearch(text, exact, maxErrors(exact)), anchor.start, match => match.start);
+  }
+
+  const head = exact.slice(0, MAX_FUZZY_PATTERN);
+  const tail = exact.slice(-MAX_FUZZY_PATTERN);
+  const first = closest(fuzzySearch(text, head, maxErrors(head)), anchor.start, match => match.start);
+  if (!first) return null;
+
+  const last = closest(
+    fuzzySearch(text, tail, maxErrors(tail)).filter(match => match.start >= first.end),
+    first.start + exact.length,
+    match => match.end
+  );
+  if (!last) return null;
+
+  return { start: first.start, end: last.end, errors: first.errors + last.errors };
+}
+
+/**
+ * Where an anchor's quote is in `text` now. Exact occurrences are ranked by
+ * how well their surroundings match the stored context and how close they
+ * are to the old position; without one the quote is matched approximately.
+ * Returns null when the text is gone.
+ */
+export function findAnchor(text: string, anchor: TextAnchor): { start: number; end: number } | null {
+  if (!anchor.exact) return null;
+
+  let best: { start: number; score: number } | null = null;
+  for (let index = text.indexOf(anchor.exact); index !== -1; index = text.indexOf(anchor.exact, index + 1)) {
+    const end = index + anchor.exact.length;
+    const context =
+      commonSuffixLength(anchor.prefix, text.slice(Math.max(0, index - anchor.prefix.length), index)) +
+      commonPrefixLength(anchor.suffix, text.slice(end, end + anchor.suffix.length));
+    // Context decides; distance only breaks ties
+    const score = context - Math.abs(index - anchor.start) / (text.length + 1);
+
+    if (!best || score > best.score) {
+      best = { start: index, score };
+    }
+  }
+
+  if (best) {
+    return { start: best.start, end: best.start + anchor.exact.length };
+  }
+
+  const match = findFuzzy(text, anchor);
+  return match ? { start: match.start, end: match.end } : null;
+}
+
+/**
+ * Text nodes covering [start, end) of the text of `root`, split at the
+ * boundaries so each one lies entirely inside the span.
+ */
+export function splitTextRange(root: Node, start: number, end: number): Text[] {
+  const nodes: Text[] = [];
+
+  indexText(root).segments.forEach(({ node, start: nodeStart }) => {
+    const nodeEnd = nodeStart + node.length;
+    if (nodeEnd <= start || nodeStart >= end) return;
+
+    let target = node;
+    if (start > nodeStart) {
+      target = target.splitText(start - nodeStart);
+    }
+    if (end < nodeEnd) {
+      target.splitText(end - Math.max(start, nodeStart));
+    }
+    nodes.push(target);
+  });
+
+  return nodes;
+}
@@ -0,0 +1,129 @@
+import { xEditor } from '../../src/core/editor';
+import { DraftStore, generateChecksum } from '../../src/core/drafts';
+import { errorHandler } from '../../src/utils/error-handler';
+import { AutoSaveStorage } from '../../src/types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createStorage(): { storage: AutoSaveStorage; entries: Map<string, string> } {
+  const entries = new Map<string, string>();
+  const storage: AutoSaveStorage = {
+    save: async (key, content) => { entries.set(key, content); },
+    load: async key => entries.get(key) ?? null,
+    delete: async key => { entries.delete(key); }
+  };
+  return { storage, entries };
+}
+
+describe('DraftStore', () => {
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('keeps one draft per session, newest first', async () => {
+    const { storage } = createStorage();
+    const drafts = new DraftStore(storage, 'doc');
+
+    await drafts.save('a', '<p>one two</p>');
+    now.mockReturnValue(2000);
+    await drafts.save('b', '<p>three</p>');
+    now.mockReturnValue(3000);
+    await drafts.save('a', '<p>one two four</p>');
+
+    const loaded = await drafts.loadAll();
+    expect(loaded.map(draft => [draft.id, draft.wordCount])).toEqual([['a', 3], ['b', 1]]);
+    expect(loaded.every(draft => !draft.corrupted)).toBe(true);
+  });
+
+  it('keeps the five newest drafts and drops those older than a day', async () => {
+    const { storage, entries } = createStorage();
+    const drafts = new DraftStore(storage, 'doc');
+    for (let i = 0; i < 6; i++) {
+      now.mockReturnValue(1000 + i);
+      await drafts.save(`d${i}`, `<p>${i}</p>`);
+    }
+    expect(entries.has('doc-draft-d0')).toBe(false);
+    expect((await drafts.loadAll()).map(draft => draft.id)).toEqual(['d5', 'd4', 'd3', 'd2', 'd1']);
+
+    now.mockReturnValue(1003 + 24 * 60 * 60 * 1000);
+    expect((await drafts.loadAll()).map(draft => draft.id)).toEqual(['d5', 'd4', 'd3']);
+  });
+
+  it('flags drafts that do not match their checksum', async () => {
+    const { storage, entries } = createStorage();
+    const drafts = new DraftStore(storage, 'doc');
+    await drafts.save('a', '<p>a</p>');
+    entries.set('doc-draft-a', '<p>a</');
+
+    expect((await drafts.loadAll())[0]).toMatchObject({ id: 'a', content: '<p>a</', corrupted: true });
+  });
+
+  it('takes over a draft saved by an earlier release', async () => {
+    const { storage, entries } = createStorage();
+    entries.set('old', '<p>old draft</p>');
+    entries.set('old-meta', JSON.stringify({ timestamp: 900, checksum: generateChecksum('<p>old draft</p>') }));
+    const drafts = new DraftStore(storage, 'doc', ['old']);
+
+    const [draft] = await drafts.loadAll();
+    expect(draft).toMatchObject({ content: '<p>old draft</p>', timestamp: 900, wordCount: 2, corrupted: false });
+    expect(entries.has('old')).toBe(false);
+    expect(entries.has('old-meta')).toBe(false);
+  });
+});
+
+describe('draft recovery', () => {
+  let editor: xEditor;
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('offers saved drafts and restores the chosen one', async () => {
+    const { storage, entries } = createStorage();
+    await new DraftStore(storage, 'xeditor-drafts-doc').save('earlier', '<p>draft</p>');
+    const recovered = jest.fn();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({
+      container,
+      plugins: [],
+      toolbar: false,
+      autoSave: { enabled: true, storageBackend: storage, documentId: 'doc' }
+    });
+    editor.on('autosave:recovered', recovered);
+    await flush();
+
+    const restore = editor.wrapper.querySelector<HTMLButtonElement>('.xeditor-recovery__restore');
+    expect(restore).not.toBeNull();
+    restore!.click();
+    await flush();
+
+    expect(editor.getContent()).toBe('<p>draft</p>');
+    expect(recovered).toHaveBeenCalledWith(expect.objectContaining({ content: '<p>draft</p>' }));
+    expect(entries.has('xeditor-drafts-doc-draft-earlier')).toBe(false);
+  });
+
+  it('reports drafts it cannot read', async () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    const { storage } = createStorage();
+    storage.load = () => Promise.reject(new Error('blocked'));
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({
+      container,
+      plugins: [],
+      toolbar: false,
+      autoSave: { enabled: true, storageBackend: storage, documentId: 'doc' }
+    });
+    await flush();
+
+    expect(handle).toHaveBeenCalledWith(expect.any(Error), 'Failed to check auto-saved drafts');
+    handle.mockRestore();
+  });
+});
@@ -0,0 +1,154 @@
+import { xEditor } from '../../src/core/editor';
+import { ColorPlugin } from '../../src/plugins/color';
+import { FontPlugin } from '../../src/plugins/font';
+import { LinkPlugin } from '../../src/plugins/link';
+
+function createEditor(content: string, plugins: xEditor['config']['plugins'] = []): xEditor {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const editor = new xEditor({ container, plugins, toolbar: false });
+  editor.setContent(content);
+  return editor;
+}
+
+// Selects from the `start`th to the `end`th character of the text in an element
+function selectText(element: Node, start: number, end: number = start): void {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let offset = 0;
+  let text: Text | null;
+  while ((text = walker.nextNode() as Text | null)) {
+    const length = text.data.length;
+    if (start >= offset && start <= offset + length) {
+      range.setStart(text, start - offset);
+      start = -1;
+    }
+    if (end >= offset && end <= offset + length) {
+      range.setEnd(text, end - offset);
+      break;
+    }
+    offset += length;
+  }
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+describe('core commands', () => {
+  let editor: xEditor;
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('formats the selection through the model and keeps it selected', () => {
+    editor = createEditor('<p>hello world</p>');
+    selectText(editor.contentElement, 0, 5);
+
+    editor.execCommand('bold');
+    expect(editor.getContent()).toBe('<p><strong>hello</strong> world</p>');
+    expect(window.getSelection()!.toString()).toBe('hello');
+    expect(editor.queryCommandState('bold')).toBe(true);
+
+    editor.execCommand('bold');
+    expect(editor.getContent()).toBe('<p>hello world</p>');
+  });
+
+  it('only re-renders the blocks a command changes', () => {
+    editor = createEditor('<p>one</p><p>two</p>');
+    const first = editor.contentElement.firstChild;
+    selectText(editor.contentElement.lastChild!, 0, 3);
+
+    editor.execCommand('formatBlock', 'h2');
+    expect(editor.getContent()).toBe('<p>one</p><h2>two</h2>');
+    expect(editor.contentElement.firstChild).toBe(first);
+  });
+
+  it('undoes a command in one step', () => {
+    editor = createEditor('<p>a</p><p>b</p>');
+    selectText(editor.contentElement, 0, 2);
+
+    editor.execCommand('insertUnorderedList');
+    expect(editor.getContent()).toBe('<ul><li>a</li><li>b</li></ul>');
+
+    editor.execCommand('undo');
+    expect(editor.getContent()).toBe('<p>a</p><p>b</p>');
+  });
+
+  it('aligns, indents and sets the direction of the blocks in the selection', () => {
+    editor = createEditor('<p>a</p>');
+    selectText(editor.contentElement, 1);
+
+    editor.execCommand('justifyCenter');
+    editor.execCommand('indent');
+    editor.execCommand('directionRTL');
+    expect(editor.getContent()).toBe('<p style="text-align: center; margin-right: 40px;" dir="rtl">a</p>');
+    expect(editor.queryCommandState('justifyCenter')).toBe(true);
+    expect(editor.queryCommandState('directionRTL')).toBe(true);
+  });
+
+  it('replaces the selection with inserted HTML and puts the caret after it', () => {
+    editor = createEditor('<p>abcd</p>');
+    selectText(editor.contentElement, 1, 3);
+
+    editor.insertContent('<em>x</em>');
+    expect(editor.getContent()).toBe('<p>a<em>x</em>d</p>');
+    const selection = window.getSelection()!;
+    expect(selection.isCollapsed).toBe(true);
+    selection.getRangeAt(0).setStart(editor.contentElement, 0);
+    expect(selection.toString()).toBe('ax');
+  });
+
+  it('gives text typed after a formatting command at the caret its marks', () => {
+    editor = createEditor('<p>ab</p>');
+    selectText(editor.contentElement, 1);
+    editor.execCommand('italic');
+    expect(editor.queryCommandState('italic')).toBe(true);
+
+    // What the browser does for a keystroke
+    const text = editor.contentElement.querySelector('p')!.firstChild as Text;
+    text.insertData(1, 'x');
+    selectText(editor.contentElement, 2);
+    editor.contentElement.dispatchEvent(new InputEvent('input', { inputType: 'insertText', data: 'x' }));
+
+    expect(editor.getContent()).toBe('<p>a<em>x</em>b</p>');
+  });
+
+  it('inserts a link with its URL as text at a collapsed caret', () => {
+    editor = createEditor('<p>see </p>');
+    selectText(editor.contentElement, 4);
+
+    editor.execCommand('createLink', 'https://example.com');
+    expect(editor.getContent()).toBe('<p>see <a href="https://example.com">https://example.com</a></p>');
+  });
+
+  it('replaces the selection with text that takes the marks around it', () => {
+    editor = createEditor('<p><strong>abcd</strong></p>');
+    selectText(editor.contentElement, 1, 3);
+
+    editor.execCommand('insertText', 'x');
+    expect(editor.getContent()).toBe('<p><strong>axd</strong></p>');
+  });
+
+  it('sets valued marks through the model and removes them again', () => {
+    editor = createEditor('<p>hello world</p>', [new ColorPlugin(), new FontPlugin()]);
+    selectText(editor.contentElement, 0, 5);
+
+    editor.execCommand('foreColor', '#ff0000');
+    editor.execCommand('fontName', 'Georgia, serif');
+    expect(editor.getContent()).toBe('<p><span style="color: rgb(255, 0, 0);"><span style="font-family: Georgia, serif;">hello</span></span> world</p>');
+
+    editor.execCommand('foreColor', 'inherit');
+    editor.execCommand('fontName', 'inherit');
+    expect(editor.getContent()).toBe('<p>hello world</p>');
+    expect(window.getSelection()!.toString()).toBe('hello');
+  });
+
+  it('removes the whole link around a collapsed caret', () => {
+    editor = createEditor('<p>see <a href="https://example.com">example</a> here</p>', [new LinkPlugin()]);
+    selectText(editor.contentElement, 6);
+
+    editor.execCommand('unlink');
+    expect(editor.getContent()).toBe('<p>see example here</p>');
+  });
+});
@@ -0,0 +1,107 @@
+import { HistoryManagerImpl } from '../../src/core/history-manager';
+import { EventEmitterImpl } from '../../src/utils/events';
+import { xEditor } from '../../src/core/editor';
+import { TablePlugin } from '../../src/plugins/table';
+
+// Mutation observers report in a microtask
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('HistoryManagerImpl', () => {
+  let root: HTMLElement;
+  let history: HistoryManagerImpl;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    root.innerHTML = '<p>one</p>';
+    document.body.appendChild(root);
+    history = new HistoryManagerImpl(root, new EventEmitterImpl());
+  });
+
+  afterEach(() => {
+    history.destroy();
+    root.remove();
+  });
+
+  it('undoes and redoes a transaction as one step', () => {
+    history.transact('command:test', () => {
+      root.querySelector('p')!.textContent = 'two';
+      root.appendChild(document.createElement('hr'));
+    });
+    expect(history.getHistory().map(transaction => transaction.origin)).toEqual(['command:test']);
+
+    history.undo();
+    expect(root.innerHTML).toBe('<p>one</p>');
+    history.redo();
+    expect(root.innerHTML).toBe('<p>two</p><hr>');
+  });
+
+  it('records changes made outside a transaction as a plugin step', async () => {
+    root.querySelector('p')!.setAttribute('title', 'x');
+    await flush();
+    expect(history.getHistory().map(transaction => transaction.origin)).toEqual(['plugin']);
+  });
+
+  it('does not record ignored changes or drop the redo stack for them', async () => {
+    history.transact('edit', () => {
+      root.querySelector('p')!.textContent = 'two';
+    });
+    history.undo();
+
+    history.ignore(() => {
+      root.querySelector('p')!.classList.add('highlight');
+    });
+    await flush();
+
+    expect(history.canRedo()).toBe(true);
+    expect(history.getHistory()).toHaveLength(0);
+  });
+
+  it('ignores attributes of the content element itself', async () => {
+    history.transact('edit', () => {
+      root.querySelector('p')!.textContent = 'two';
+    });
+    history.undo();
+
+    root.classList.add('xeditor-content--drop-target');
+    await flush();
+
+    expect(history.canRedo()).toBe(true);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('groups consecutive typing into one step', () => {
+    const text = root.querySelector('p')!.firstChild as Text;
+    ['a', 'b'].forEach(data => {
+      root.dispatchEvent(new InputEvent('beforeinput', { inputType: 'insertText', data }));
+      text.appendData(data);
+      root.dispatchEvent(new InputEvent('input', { inputType: 'insertText', data }));
+    });
+
+    expect(history.getHistory()).toHaveLength(1);
+    history.undo();
+    expect(root.innerHTML).toBe('<p>one</p>');
+  });
+});
+
+describe('table cell selection', () => {
+  it('is not recorded in the undo history', async () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const editor = new xEditor({ container, plugins: [new TablePlugin()], toolbar: false, sanitize: false });
+    editor.setContent('<table class="xeditor-table"><tbody><tr><td>a</td><td>b</td></tr></tbody></table>');
+    const cells = editor.contentElement.querySelectorAll('td');
+
+    editor.history.transact('edit', () => {
+      cells[0].textContent = 'c';
+    });
+    editor.history.undo();
+
+    cells[1].dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    cells[0].dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    expect(cells[0].classList.contains('xeditor-table-cell-selected')).toBe(true);
+    await flush();
+
+    expect(editor.history.canRedo()).toBe(true);
+    editor.destroy();
+  });
+});
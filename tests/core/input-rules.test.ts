@@ -0,0 +1,59 @@
+import { xEditor } from '../../src/core/editor';
+import { errorHandler } from '../../src/utils/error-handler';
+
+describe('input rules', () => {
+  let editor: xEditor;
+
+  function typeAtEnd(data: string): void {
+    const text = editor.contentElement.querySelector('p')!.lastChild as Text;
+    text.appendData(data);
+    const range = document.createRange();
+    range.setStart(text, text.length);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    editor.contentElement.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data }));
+  }
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({ container, toolbar: false, plugins: [] });
+    editor.setContent('<p>x</p>');
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('runs the rules plugins register against the text before the caret', () => {
+    editor.inputRules.register({
+      name: 'arrow',
+      pattern: /->$/,
+      handler: ({ range }) => {
+        range.deleteContents();
+        range.insertNode(document.createTextNode('→'));
+      }
+    });
+
+    typeAtEnd('-');
+    typeAtEnd('>');
+    expect(editor.getContent()).toBe('<p>x→</p>');
+
+    editor.inputRules.unregister('arrow');
+    typeAtEnd('->');
+    expect(editor.getContent()).toBe('<p>x→-&gt;</p>');
+  });
+
+  it('tries the next rule when one declines or throws, and reports the failure', () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    const order: string[] = [];
+    editor.inputRules.register({ name: 'declines', pattern: /!$/, handler: () => { order.push('declines'); return false; } });
+    editor.inputRules.register({ name: 'throws', pattern: /!$/, handler: () => { throw new Error('broken'); } });
+    editor.inputRules.register({ name: 'applies', pattern: /!$/, handler: () => { order.push('applies'); } });
+
+    typeAtEnd('!');
+    expect(order).toEqual(['declines', 'applies']);
+    expect(handle).toHaveBeenCalledWith(expect.any(Error), 'Input rule "throws" failed');
+    handle.mockRestore();
+  });
+});
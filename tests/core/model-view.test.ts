@@ -0,0 +1,41 @@
+import { ModelView } from '../../src/core/model-view';
+
+function select(node: Node, start: number, end: number = start): void {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+describe('model view', () => {
+  let root: HTMLElement;
+  let view: ModelView;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    root.innerHTML = '<p>one</p><p>two</p>';
+    document.body.appendChild(root);
+    view = new ModelView(root);
+  });
+
+  afterEach(() => {
+    view.destroy();
+    root.remove();
+  });
+
+  it('reuses the selection it resolved until the selection or the content changes', () => {
+    select(root.lastChild!.firstChild!, 1, 2);
+    const range = view.getSelection();
+    expect(range).toEqual({ from: { block: 1, offset: 1 }, to: { block: 1, offset: 2 } });
+    expect(view.getSelection()).toBe(range);
+
+    select(root.lastChild!.firstChild!, 2);
+    expect(view.getSelection()).toEqual({ from: { block: 1, offset: 2 }, to: { block: 1, offset: 2 } });
+
+    root.firstChild!.remove();
+    expect(view.getSelection()).toEqual({ from: { block: 0, offset: 2 }, to: { block: 0, offset: 2 } });
+    expect(view.getDocument().content).toHaveLength(1);
+  });
+});
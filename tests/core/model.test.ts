@@ -0,0 +1,123 @@
+import { parseHTML, serializeHTML, validateDocument } from '../../src/core/model';
+import { xEditor } from '../../src/core/editor';
+
+const roundTrip = (html: string) => serializeHTML(parseHTML(html));
+
+describe('document model', () => {
+  describe('HTML round trip', () => {
+    it.each([
+      ['paragraphs and headings', '<h2>Title</h2><p>Body</p>'],
+      ['nested marks', '<p><strong>bold <em>both</em></strong> plain</p>'],
+      ['links', '<p><a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a></p>'],
+      ['ordered lists', '<ol start="3"><li>three</li><li>four</li></ol>'],
+      ['tracked changes', '<p><ins data-change-id="c1" data-author="ann" data-timestamp="1">new</ins></p>'],
+      ['code blocks', '<pre data-language="js"><code class="language-js" spellcheck="false">a\n\tb</code></pre>']
+    ])('keeps %s', (_name, html) => {
+      expect(roundTrip(html)).toBe(html);
+    });
+
+    it('keeps class, id and rel on links', () => {
+      const html = '<p><a href="/x" class="more" id="l1" rel="nofollow">x</a></p>';
+      expect(roundTrip(html)).toBe(html);
+    });
+
+    it('keeps title and lang on blocks and spans', () => {
+      const html = '<p title="note" lang="fr">Bonjour <span title="greeting" lang="de">Hallo</span></p>';
+      expect(roundTrip(html)).toBe(html);
+    });
+
+    it('keeps data attributes on marks and classes on inline code', () => {
+      const html = '<p><em data-source="quote">a</em> <strong data-weight="2">b</strong> <code class="lang-sh">c</code></p>';
+      expect(roundTrip(html)).toBe(html);
+    });
+
+    it('keeps image attributes it does not interpret', () => {
+      const html = '<p><img src="a.png" alt="A" loading="lazy" srcset="a.png 1x, a@2x.png 2x"></p>';
+      expect(roundTrip(html)).toBe(html);
+    });
+
+    it('keeps contenteditable on embed wrappers', () => {
+      const html = '<div class="xeditor-video-wrapper" contenteditable="false"><iframe src="https://www.youtube.com/embed/x"></iframe></div>';
+      expect(roundTrip(html)).toBe(html);
+    });
+
+    it('keeps whitespace between inline elements', () => {
+      expect(roundTrip('<strong>one</strong>\n<em>two</em>')).toBe('<strong>one</strong>\n<em>two</em>');
+      expect(roundTrip('<p><strong>one</strong>\n<em>two</em></p>')).toBe('<p><strong>one</strong>\n<em>two</em></p>');
+    });
+
+    it('drops whitespace that only lays out blocks', () => {
+      expect(roundTrip('<p>a</p>\n  <p>b</p>\n')).toBe('<p>a</p><p>b</p>');
+      expect(roundTrip('<ul>\n  <li>a</li>\n</ul>')).toBe('<ul><li>a</li></ul>');
+      expect(roundTrip('<blockquote>\n<p>q</p>\n</blockquote>')).toBe('<blockquote><p>q</p></blockquote>');
+    });
+  });
+
+  describe('parsing', () => {
+    it('stores unknown attributes verbatim and marks in a fixed order', () => {
+      const doc = parseHTML('<p lang="en"><em><strong>x</strong></em></p>');
+      expect(doc.content).toEqual([{
+        type: 'paragraph',
+        attrs: { attributes: { lang: 'en' } },
+        content: [{ type: 'text', text: 'x', marks: [{ type: 'bold' }, { type: 'italic' }] }]
+      }]);
+    });
+
+    it('turns inline styles into marks', () => {
+      const doc = parseHTML('<p><span style="color: red; font-weight: bold">x</span></p>');
+      expect(doc.content[0].content![0].marks).toEqual([
+        { type: 'bold' },
+        { type: 'color', attrs: { color: 'red' } }
+      ]);
+    });
+
+    it('keeps markup outside the schema as html nodes', () => {
+      const doc = parseHTML('<p><abbr title="HyperText">HTML</abbr></p>');
+      expect(doc.content[0].content).toEqual([{ type: 'html', attrs: { html: '<abbr title="HyperText">HTML</abbr>' } }]);
+    });
+  });
+
+  describe('validation', () => {
+    it('accepts parsed documents', () => {
+      const doc = parseHTML('<h1 lang="en">a</h1><table><tbody><tr><td colspan="2">b</td></tr></tbody></table><p><a href="#" rel="x">c</a></p>');
+      expect(validateDocument(doc)).toEqual([]);
+    });
+
+    it('reports unknown nodes, misplaced nodes and bad attributes', () => {
+      const errors = validateDocument({
+        type: 'doc',
+        version: 1,
+        content: [
+          { type: 'widget' },
+          { type: 'list_item' },
+          { type: 'paragraph', attrs: { attributes: { 'bad name': 'x' } } }
+        ]
+      });
+      expect(errors.map(error => error.path)).toEqual([[0], [1], [2]]);
+    });
+  });
+});
+
+describe('xEditor content', () => {
+  let editor: xEditor;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="editor"></div>';
+    editor = new xEditor({ container: '#editor', plugins: [], toolbar: false, sanitize: false });
+  });
+
+  afterEach(() => editor.destroy());
+
+  it('reads markup changed in the DOM without losing attributes', () => {
+    editor.contentElement.innerHTML = '<p lang="ko">a</p>\n<p><strong>one</strong>\n<em>two</em></p>';
+    expect(editor.getContent()).toBe('<p lang="ko">a</p><p><strong>one</strong>\n<em>two</em></p>');
+  });
+
+  it('round-trips JSON through setJSON', () => {
+    editor.setContent('<p><a href="/x" class="more" rel="nofollow">x</a></p>');
+    const json = editor.getJSON();
+    editor.setContent('');
+    editor.setJSON(json);
+    expect(editor.getJSON()).toEqual(json);
+  });
+});
@@ -0,0 +1,80 @@
+import { xEditor } from '../../src/core/editor';
+import { detectSource, textToHTML } from '../../src/core/paste-cleaners';
+import { errorHandler } from '../../src/utils/error-handler';
+
+const WORD_LIST = `
+<html xmlns:o="urn:schemas-microsoft-com:office:office"><body>
+<p class="MsoListParagraph" style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">1.</span>One</p>
+<p class="MsoListParagraph" style="mso-list:l0 level2 lfo1"><span style="mso-list:Ignore">o</span>Nested</p>
+<p class="MsoListParagraph" style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">2.</span>Two<o:p></o:p></p>
+</body></html>`;
+
+describe('paste cleaners', () => {
+  it('turns plain text into escaped paragraphs and line breaks', () => {
+    expect(textToHTML('a < b')).toBe('a &lt; b');
+    expect(textToHTML('one\r\ntwo\n\n<three>')).toBe('<p>one<br>two</p><p>&lt;three&gt;</p>');
+  });
+
+  it('detects where clipboard HTML comes from', () => {
+    expect(detectSource(WORD_LIST)).toBe('word');
+    expect(detectSource('<b id="docs-internal-guid-1">x</b>')).toBe('google-docs');
+    expect(detectSource('<p>x</p>')).toBe('web');
+  });
+});
+
+describe('paste pipeline', () => {
+  let editor: xEditor;
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({ container, plugins: [], toolbar: false });
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('rebuilds Word list paragraphs as nested lists', () => {
+    expect(editor.paste.process({ html: WORD_LIST })).toBe(
+      '<ol><li>One<ul><li>Nested</li></ul></li><li>Two</li></ol>'
+    );
+  });
+
+  it('unwraps the Google Docs wrapper and maps styles to elements', () => {
+    const html = '<b style="font-weight:normal;" id="docs-internal-guid-1">' +
+      '<span style="font-weight:700;color:#000000;">bold</span> <span style="font-style:italic;color:#ff0000;">red</span></b>';
+    expect(editor.paste.process({ html })).toBe(
+      '<strong>bold</strong> <span style="color: rgb(255, 0, 0);"><em>red</em></span>'
+    );
+  });
+
+  it('drops scripts, comments and foreign classes', () => {
+    const html = '<p class="lead" id="x">a<!-- note --><script>alert(1)</script></p>';
+    expect(editor.paste.process({ html })).toBe('<p>a</p>');
+  });
+
+  it('pastes plain text when asked to', () => {
+    expect(editor.paste.process({ html: '<p><b>a</b></p>', text: 'a' }, true)).toBe('a');
+  });
+
+  it('runs registered transformers by priority and skips ones that throw', () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    const calls: string[] = [];
+    editor.paste.register({ name: 'late', priority: 200, transform: () => { calls.push('late'); } });
+    editor.paste.register({ name: 'broken', priority: 1, transform: () => { throw new Error('broken'); } });
+    editor.paste.register({
+      name: 'early',
+      priority: 2,
+      transform: root => {
+        calls.push('early');
+        root.querySelectorAll('p').forEach(p => { p.textContent = 'seen'; });
+      }
+    });
+
+    expect(editor.paste.process({ html: '<p>a</p>' })).toBe('<p>seen</p>');
+    expect(handle).toHaveBeenCalledWith(expect.any(Error), 'Paste transformer "broken" failed');
+    expect(calls).toEqual(['early', 'late']);
+    handle.mockRestore();
+  });
+});
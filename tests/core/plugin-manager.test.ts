@@ -0,0 +1,85 @@
+import { xEditor } from '../../src/core/editor';
+import { errorHandler } from '../../src/utils/error-handler';
+import { Plugin } from '../../src/types';
+
+function createEditor(): xEditor {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  return new xEditor({ container, plugins: [], toolbar: false });
+}
+
+describe('lazy plugins', () => {
+  let editor: xEditor;
+  let handle: jest.SpyInstance;
+
+  beforeEach(() => {
+    editor = createEditor();
+    handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    editor.destroy();
+    handle.mockRestore();
+  });
+
+  it('loads the plugin on first use of one of its commands and then runs it', async () => {
+    const execute = jest.fn();
+    const plugin: Plugin = { name: 'stamp', init: () => undefined, commands: { stamp: { execute } } };
+    const load = jest.fn(() => Promise.resolve(plugin));
+    editor.plugins.registerLazy('stamp', load, { commands: ['stamp'] });
+    expect(editor.plugins.getLoadState('stamp')).toBe('pending');
+
+    editor.execCommand('stamp', 'value');
+    expect(editor.plugins.getLoadState('stamp')).toBe('loading');
+    await editor.plugins.load('stamp');
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith('value');
+    expect(editor.plugins.getLoadState('stamp')).toBe('registered');
+  });
+
+  it('loads the plugin once the content contains its selector', async () => {
+    const load = jest.fn(() => Promise.resolve<Plugin>({ name: 'math', init: () => undefined }));
+    editor.plugins.registerLazy('math', load, { selector: 'hr' });
+    expect(load).not.toHaveBeenCalled();
+
+    editor.setContent('<p>a</p><hr>');
+    await editor.plugins.load('math');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks the plugin as failed when it cannot be fetched', async () => {
+    const failed = jest.fn();
+    editor.on('plugin:error', failed);
+    editor.plugins.registerLazy('broken', () => Promise.reject(new Error('network')));
+
+    expect(await editor.plugins.load('broken')).toBeUndefined();
+    expect(editor.plugins.getLoadState('broken')).toBe('failed');
+    expect(failed).toHaveBeenCalledWith('broken');
+  });
+
+  it('tries again to load a plugin that failed to load', async () => {
+    const load = jest.fn()
+      .mockReturnValueOnce(Promise.reject(new Error('network')))
+      .mockReturnValueOnce(Promise.resolve<Plugin>({ name: 'flaky', init: () => undefined }));
+    editor.plugins.registerLazy('flaky', load);
+
+    expect(await editor.plugins.load('flaky')).toBeUndefined();
+    expect(await editor.plugins.load('flaky')).toMatchObject({ name: 'flaky' });
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(editor.plugins.getLoadState('flaky')).toBe('registered');
+  });
+
+  it('warns about a plugin registered twice without notifying the user', () => {
+    const warn = jest.spyOn(errorHandler, 'warn').mockImplementation(() => undefined);
+    editor.plugins.register({ name: 'once', init: () => undefined });
+    editor.plugins.register({ name: 'once', init: () => undefined });
+    editor.plugins.registerLazy('twice', () => Promise.resolve({ name: 'twice', init: () => undefined }));
+    editor.plugins.registerLazy('twice', () => Promise.resolve({ name: 'twice', init: () => undefined }));
+
+    expect(warn).toHaveBeenCalledWith('Plugin "once" is already registered. Skipping...');
+    expect(warn).toHaveBeenCalledWith('Plugin "twice" is already registered. Skipping...');
+    expect(handle).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
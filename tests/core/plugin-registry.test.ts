@@ -0,0 +1,85 @@
+import { PluginRegistry } from '../../src/core/plugin-registry';
+import { errorHandler } from '../../src/utils/error-handler';
+import { Editor, EditorConfig, Plugin } from '../../src/types';
+
+function createPlugin(name: string, dependencies?: string[]): Plugin {
+  return { name, dependencies, init: () => undefined };
+}
+
+function createEditor(config: Partial<EditorConfig>): Editor {
+  return { config } as unknown as Editor;
+}
+
+describe('PluginRegistry', () => {
+  let registry: PluginRegistry;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    registry = new PluginRegistry();
+    warn = jest.spyOn(errorHandler, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('creates the default plugins unless excluded', () => {
+    registry.define({ name: 'a', create: () => createPlugin('a') });
+    registry.define({ name: 'b', create: () => createPlugin('b') });
+    registry.define({ name: 'c', create: () => createPlugin('c'), isDefault: () => false });
+
+    const { plugins } = registry.resolve(createEditor({ excludePlugins: ['b'] }));
+    expect(plugins.map(plugin => plugin.name)).toEqual(['a']);
+  });
+
+  it('pulls in missing dependencies and orders plugins after them', () => {
+    registry.define({ name: 'table', create: () => createPlugin('table'), isDefault: () => false });
+    registry.define({ name: 'cells', create: () => createPlugin('cells'), dependencies: ['table'] });
+
+    const { plugins } = registry.resolve(createEditor({ plugins: ['cells'] }));
+    expect(plugins.map(plugin => plugin.name)).toEqual(['table', 'cells']);
+    expect(plugins[1].dependencies).toEqual(['table']);
+  });
+
+  it('defers lazy plugins and the plugins depending on them', () => {
+    registry.define({ name: 'prism', create: () => createPlugin('prism'), lazy: true, commands: ['highlight'] });
+
+    const { plugins, deferred } = registry.resolve(createEditor({
+      plugins: ['prism', createPlugin('code', ['prism']), createPlugin('bold')]
+    }));
+    expect(plugins.map(plugin => plugin.name)).toEqual(['bold']);
+    expect(deferred.map(entry => [entry.name, entry.immediate])).toEqual([['prism', false], ['code', true]]);
+    expect(deferred[0].options.commands).toEqual(['highlight']);
+  });
+
+  it('gives plugin instances the schema of their definition', () => {
+    const schema = { tags: ['ins', 'del'] };
+    registry.define({ name: 'changes', create: () => createPlugin('changes'), schema });
+
+    const { plugins } = registry.resolve(createEditor({ plugins: [createPlugin('changes')] }));
+    expect(plugins[0].schema).toBe(schema);
+  });
+
+  it('skips unknown plugins and plugins missing a dependency, and reports them', () => {
+    const { plugins } = registry.resolve(createEditor({ plugins: ['nope', createPlugin('a', ['b'])] }));
+    expect(plugins).toHaveLength(0);
+    expect(warn).toHaveBeenCalledWith('Unknown plugin "nope". Skipping...');
+    expect(warn).toHaveBeenCalledWith('Plugin "a" requires "b", which is not available. Skipping...');
+  });
+
+  it('skips plugins listed twice and reports them', () => {
+    registry.define({ name: 'a', create: () => createPlugin('a') });
+
+    const { plugins } = registry.resolve(createEditor({ plugins: ['a', createPlugin('a')] }));
+    expect(plugins).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith('Plugin "a" is listed more than once. Skipping...');
+  });
+
+  it('skips plugins with circular dependencies and reports them', () => {
+    const { plugins } = registry.resolve(createEditor({
+      plugins: [createPlugin('a', ['b']), createPlugin('b', ['a']), createPlugin('c')]
+    }));
+    expect(plugins.map(plugin => plugin.name)).toEqual(['c']);
+    expect(warn).toHaveBeenCalledWith('Circular plugin dependency: a -> b -> a');
+  });
+});
@@ -0,0 +1,164 @@
+import { parseHTML, serializeHTML } from '../../src/core/model';
+import {
+  ModelRange,
+  changeIndent,
+  deleteRange,
+  insertText,
+  isInList,
+  rangeHasMark,
+  replaceRange,
+  setAlign,
+  setBlockType,
+  setDirection,
+  setMark,
+  textBlocks,
+  toggleList
+} from '../../src/core/transforms';
+
+const range = (fromBlock: number, fromOffset: number, toBlock = fromBlock, toOffset = fromOffset): ModelRange => ({
+  from: { block: fromBlock, offset: fromOffset },
+  to: { block: toBlock, offset: toOffset }
+});
+
+describe('model transforms', () => {
+  describe('textBlocks', () => {
+    it('lists inline containers and inline runs in document order', () => {
+      const doc = parseHTML('<p>a</p><ul><li>b<ul><li>c</li></ul></li></ul><table><tbody><tr><td>d</td><td></td></tr></tbody></table>');
+      expect(textBlocks(doc).map(block => block.parent.type)).toEqual(
+        ['paragraph', 'list_item', 'list_item', 'table_cell', 'table_cell']
+      );
+    });
+  });
+
+  describe('marks', () => {
+    it('adds a mark to part of a text node', () => {
+      const doc = parseHTML('<p>hello world</p>');
+      setMark(doc, range(0, 0, 0, 5), 'bold', { type: 'bold' });
+      expect(serializeHTML(doc)).toBe('<p><strong>hello</strong> world</p>');
+    });
+
+    it('removes a mark across blocks and merges the text again', () => {
+      const doc = parseHTML('<p><strong>one</strong></p><p><strong>two</strong></p>');
+      expect(rangeHasMark(doc, range(0, 0, 1, 3), 'bold')).toBe(true);
+      setMark(doc, range(0, 1, 1, 3), 'bold', null);
+      expect(serializeHTML(doc)).toBe('<p><strong>o</strong>ne</p><p>two</p>');
+    });
+
+    it('only reports a mark the whole range has', () => {
+      const doc = parseHTML('<p><em>a</em>b</p>');
+      expect(rangeHasMark(doc, range(0, 0, 0, 2), 'italic')).toBe(false);
+      expect(rangeHasMark(doc, range(0, 0, 0, 1), 'italic')).toBe(true);
+    });
+  });
+
+  describe('blocks', () => {
+    it('turns paragraphs into headings and keeps their attributes', () => {
+      const doc = parseHTML('<p class="lead">a</p><p>b</p>');
+      setBlockType(doc, range(0, 0, 1, 0), 'heading', { level: 2 });
+      expect(serializeHTML(doc)).toBe('<h2 class="lead">a</h2><h2>b</h2>');
+    });
+
+    it('turns line breaks into newlines in code blocks and back', () => {
+      const doc = parseHTML('<p>a<br>b</p>');
+      setBlockType(doc, range(0, 0), 'code_block');
+      expect(doc.content[0]).toEqual({ type: 'code_block', content: [{ type: 'text', text: 'a\nb' }] });
+      setBlockType(doc, range(0, 0), 'paragraph');
+      expect(serializeHTML(doc)).toBe('<p>a<br>b</p>');
+    });
+
+    it('wraps loose inline content', () => {
+      const doc = parseHTML('text');
+      setBlockType(doc, range(0, 0), 'blockquote');
+      expect(serializeHTML(doc)).toBe('<blockquote>text</blockquote>');
+    });
+
+    it('aligns, indents and sets the direction of blocks', () => {
+      const doc = parseHTML('<p>a</p><p>b</p>');
+      setAlign(doc, range(0, 0, 1, 0), 'center');
+      changeIndent(doc, range(1, 0), 40);
+      setDirection(doc, range(0, 0), 'rtl');
+      expect(serializeHTML(doc)).toBe(
+        '<p style="text-align: center;" dir="rtl">a</p><p style="text-align: center; margin-left: 40px;">b</p>'
+      );
+      changeIndent(doc, range(1, 0), -80);
+      setDirection(doc, range(0, 0), 'rtl', true);
+      expect(serializeHTML(doc)).toBe('<p style="text-align: center;">a</p><p style="text-align: center;">b</p>');
+    });
+  });
+
+  describe('lists', () => {
+    it('wraps paragraphs in a list and joins the list before them', () => {
+      const doc = parseHTML('<ul><li>a</li></ul><p>b</p><p>c</p>');
+      toggleList(doc, range(1, 0, 2, 0), 'bullet_list');
+      expect(serializeHTML(doc)).toBe('<ul><li>a</li><li>b</li><li>c</li></ul>');
+      expect(isInList(doc, range(0, 0, 2, 0), 'bullet_list')).toBe(true);
+    });
+
+    it('lifts items out of a list, splitting it', () => {
+      const doc = parseHTML('<ol><li>a</li><li>b</li><li>c</li></ol>');
+      toggleList(doc, range(1, 0), 'ordered_list');
+      expect(serializeHTML(doc)).toBe('<ol><li>a</li></ol><p>b</p><ol start="3"><li>c</li></ol>');
+    });
+
+    it('changes the type of a list the selection is in', () => {
+      const doc = parseHTML('<ol><li>a</li></ol>');
+      toggleList(doc, range(0, 0), 'bullet_list');
+      expect(serializeHTML(doc)).toBe('<ul><li>a</li></ul>');
+    });
+  });
+
+  describe('replacing content', () => {
+    it('deletes across blocks and joins them', () => {
+      const doc = parseHTML('<p>hello</p><p>big</p><h2>world</h2>');
+      const position = deleteRange(doc, range(0, 2, 2, 3));
+      expect(serializeHTML(doc)).toBe('<p>held</p>');
+      expect(position).toEqual({ block: 0, offset: 2 });
+    });
+
+    it('deletes out of a list item into a paragraph', () => {
+      const doc = parseHTML('<ul><li>one</li><li>two</li></ul><p>three</p>');
+      deleteRange(doc, range(1, 1, 2, 2));
+      expect(serializeHTML(doc)).toBe('<ul><li>one</li><li>tree</li></ul>');
+    });
+
+    it('stops a deletion at the edge of a table cell', () => {
+      const doc = parseHTML('<table><tbody><tr><td>ab</td><td>cd</td></tr></tbody></table>');
+      deleteRange(doc, range(0, 1, 1, 1));
+      expect(serializeHTML(doc)).toBe('<table><tbody><tr><td>a</td><td>cd</td></tr></tbody></table>');
+    });
+
+    it('inserts inline content at the caret', () => {
+      const doc = parseHTML('<p>ac</p>');
+      const position = replaceRange(doc, range(0, 1), parseHTML('<em>b</em>').content);
+      expect(serializeHTML(doc)).toBe('<p>a<em>b</em>c</p>');
+      expect(position).toEqual({ block: 0, offset: 2 });
+    });
+
+    it('splits a paragraph around inserted blocks', () => {
+      const doc = parseHTML('<p>abcd</p>');
+      const position = replaceRange(doc, range(0, 1, 0, 3), parseHTML('<p>x</p><h2>y</h2><p>z</p>').content);
+      expect(serializeHTML(doc)).toBe('<p>ax</p><h2>y</h2><p>zd</p>');
+      expect(position).toEqual({ block: 2, offset: 1 });
+    });
+
+    it('adds an empty paragraph after a block inserted at the end', () => {
+      const doc = parseHTML('<p>a</p>');
+      const position = replaceRange(doc, range(0, 1), [{ type: 'horizontal_rule' }]);
+      expect(serializeHTML(doc)).toBe('<p>a</p><hr><p><br></p>');
+      expect(position).toEqual({ block: 1, offset: 0 });
+    });
+
+    it('flattens blocks pasted into a code block', () => {
+      const doc = parseHTML('<pre><code>ab</code></pre>');
+      replaceRange(doc, range(0, 1), parseHTML('<p>x</p><p>y</p>').content);
+      expect(doc.content[0].content).toEqual([{ type: 'text', text: 'ax\nyb' }]);
+    });
+
+    it('inserts text with the marks of the text it joins', () => {
+      const doc = parseHTML('<p><strong>ab</strong></p>');
+      expect(insertText(doc, range(0, 2).from, 'c')).toEqual({ block: 0, offset: 3 });
+      insertText(doc, range(0, 0).from, 'x', [{ type: 'italic' }]);
+      expect(serializeHTML(doc)).toBe('<p><em>x</em><strong>abc</strong></p>');
+    });
+  });
+});
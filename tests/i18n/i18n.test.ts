@@ -0,0 +1,50 @@
+import { I18nImpl } from '../../src/i18n';
+import { xEditor } from '../../src/core/editor';
+
+describe('I18nImpl', () => {
+  it('falls back from a regional locale to its language and then to English', () => {
+    const i18n = new I18nImpl('de-AT');
+    i18n.register({ en: { 'demo.only': 'English only' }, de: { 'demo.both': 'Deutsch' } });
+
+    expect(i18n.t('demo.both')).toBe('Deutsch');
+    expect(i18n.t('demo.only')).toBe('English only');
+  });
+
+  it('formats parameters and plural forms for the locale', () => {
+    const i18n = new I18nImpl('en');
+    expect(i18n.t('toolbar.headingLevel', { level: 2 })).toBe('Heading 2');
+    expect(i18n.t('recovery.words', { count: 1 })).toBe('1 word');
+    expect(i18n.t('recovery.words', { count: 1200 })).toBe('1,200 words');
+  });
+
+  it('prefers configured messages over registered ones', () => {
+    const i18n = new I18nImpl('en', { en: { 'common.cancel': 'Never mind' } });
+    i18n.register({ en: { 'common.cancel': 'Abort' } });
+    expect(i18n.t('common.cancel')).toBe('Never mind');
+  });
+
+  it('returns and reports keys that no locale has', () => {
+    const onMissing = jest.fn();
+    const i18n = new I18nImpl('ja', undefined, onMissing);
+    expect(i18n.t('demo.unknown')).toBe('demo.unknown');
+    expect(onMissing).toHaveBeenCalledWith('demo.unknown', 'ja');
+  });
+});
+
+describe('editor language', () => {
+  it('switches the UI language at runtime and emits missing keys as an event', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const editor = new xEditor({ container, plugins: [], toolbar: false });
+    const missing = jest.fn();
+    editor.on('i18n:missing', missing);
+
+    editor.setLanguage('ar');
+    expect(editor.wrapper.getAttribute('lang')).toBe('ar');
+    expect(editor.wrapper.getAttribute('dir')).toBe('rtl');
+
+    editor.t('demo.unknown');
+    expect(missing).toHaveBeenCalledWith({ key: 'demo.unknown', locale: 'ar' });
+    editor.destroy();
+  });
+});
@@ -0,0 +1,125 @@
+import { xEditor } from '../../src/core/editor';
+import { AutoSavePlugin } from '../../src/plugins/autosave';
+import { AutoSaveStorage, RemoteAutoSaveStorage, RemoteSaveResult } from '../../src/types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createStorage(): AutoSaveStorage {
+  const drafts = new Map<string, string>();
+  return {
+    save: async (key, content) => { drafts.set(key, content); },
+    load: async key => drafts.get(key) ?? null,
+    delete: async key => { drafts.delete(key); }
+  };
+}
+
+describe('remote autosave', () => {
+  let editor: xEditor;
+  let plugin: AutoSavePlugin;
+  let save: jest.Mock<Promise<RemoteSaveResult>, [string, string, string | null]>;
+
+  function status(): string {
+    return editor.wrapper.querySelector('.xeditor-autosave-status')?.textContent || '';
+  }
+
+  async function edit(content: string): Promise<void> {
+    editor.setContent(content);
+    editor.emit('change', content);
+    editor.emit('blur');
+    await flush();
+  }
+
+  beforeEach(async () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    save = jest.fn();
+    const remote: RemoteAutoSaveStorage = {
+      load: async () => ({ content: '<p>a</p>', revision: 'r1' }),
+      save
+    };
+    plugin = new AutoSavePlugin({ remoteStorage: remote, storageBackend: createStorage(), interval: 60000 });
+    editor = new xEditor({ container, toolbar: false, plugins: [plugin] });
+    await flush();
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('saves against the loaded revision and holds further saves on a conflict', async () => {
+    const conflict = jest.fn();
+    editor.on('autosave:conflict', conflict);
+    save.mockResolvedValueOnce({ status: 'conflict', remote: { content: '<p>theirs</p>', revision: 'r2' } });
+
+    await edit('<p>mine</p>');
+    expect(save).toHaveBeenCalledWith(expect.any(String), '<p>mine</p>', 'r1');
+    expect(conflict).toHaveBeenCalled();
+    expect(status()).toContain('Someone else saved this document.');
+
+    await edit('<p>more</p>');
+    expect(save).toHaveBeenCalledTimes(1);
+
+    await plugin.resolveConflict('theirs');
+    expect(editor.getContent()).toBe('<p>theirs</p>');
+    expect(plugin.getConflict()).toBeNull();
+  });
+
+  it('saves again edits made while a save was running', async () => {
+    let finish: (result: RemoteSaveResult) => void = () => undefined;
+    save.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+    save.mockResolvedValue({ status: 'saved', revision: 'r3' });
+
+    await edit('<p>one</p>');
+    editor.setContent('<p>two</p>');
+    editor.emit('change', '<p>two</p>');
+    finish({ status: 'saved', revision: 'r2' });
+    await flush();
+
+    editor.emit('blur');
+    await flush();
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(save).toHaveBeenLastCalledWith(expect.any(String), '<p>two</p>', 'r2');
+  });
+
+  it('keeps the content locally and shows the retry in the editor language', async () => {
+    editor.setLanguage('de');
+    save.mockRejectedValueOnce(new Error('offline'));
+
+    await edit('<p>mine</p>');
+    expect(status()).toBe('Offline – lokal gespeichert, neuer Versuch in 2 Sekunden');
+  });
+});
+
+describe('local autosave', () => {
+  let editor: xEditor;
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('offers saved content back in the recovery panel instead of asking', async () => {
+    const confirmSpy = jest.spyOn(window, 'confirm');
+    const storage = createStorage();
+    await storage.save('xeditor-autosave-doc', '<p>saved</p>');
+    await storage.save('xeditor-autosave-doc-saved', String(new Date(2024, 0, 2, 3, 4).getTime()));
+    const restored = jest.fn();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({
+      container,
+      toolbar: false,
+      plugins: [new AutoSavePlugin({ storageBackend: storage, documentId: 'doc', interval: 60000 })]
+    });
+    editor.on('autosave:restore', restored);
+    await flush();
+
+    expect(confirmSpy).not.toHaveBeenCalled();
+    const panel = editor.wrapper.querySelector('.xeditor-recovery')!;
+    expect(panel.textContent).toContain(new Date(2024, 0, 2, 3, 4).toLocaleString('en'));
+
+    panel.querySelector<HTMLButtonElement>('.xeditor-recovery__restore')!.click();
+    expect(editor.getContent()).toBe('<p>saved</p>');
+    expect(restored).toHaveBeenCalledWith({ content: '<p>saved</p>' });
+    confirmSpy.mockRestore();
+  });
+});
@@ -0,0 +1,149 @@
+import { xEditor } from '../../src/core/editor';
+import createCollaborationPlugin, { InMemoryHub, WebSocketTransport } from '../../src/plugins/collaboration';
+import { errorHandler } from '../../src/utils/error-handler';
+
+// Lets the hub deliver everything sent so far, and the replies to it
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+function createPeer(hub: InMemoryHub, name: string): xEditor {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  return new xEditor({
+    container,
+    toolbar: false,
+    plugins: [createCollaborationPlugin({ transport: hub.createTransport(), user: { id: name, name } })]
+  });
+}
+
+describe('collaboration', () => {
+  let editors: xEditor[] = [];
+
+  afterEach(() => {
+    editors.forEach(editor => editor.destroy());
+    editors = [];
+  });
+
+  it('does not duplicate a document every peer loads', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann'), createPeer(hub, 'bob')];
+    await settle();
+
+    editors.forEach(editor => editor.setContent('<p>Hello</p><p>World</p>'));
+    await settle();
+
+    editors.forEach(editor => {
+      expect(editor.getContent()).toBe('<p>Hello</p><p>World</p>');
+    });
+  });
+
+  it('sends edits made after loading to the other peers', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann'), createPeer(hub, 'bob')];
+    await settle();
+    editors.forEach(editor => editor.setContent('<p>Hello</p><p>World</p>'));
+    await settle();
+
+    const [ann, bob] = editors;
+    ann.contentElement.querySelector('p')!.textContent = 'Hi';
+    await settle();
+
+    expect(bob.getContent()).toBe('<p>Hi</p><p>World</p>');
+  });
+
+  it('sanitizes blocks received from other peers', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann'), createPeer(hub, 'bob')];
+    await settle();
+
+    const [ann, bob] = editors;
+    // Markup that bypassed the sender's own sanitizer
+    ann.contentElement.innerHTML = '<p onclick="alert(1)">text<script>alert(2)</script></p>';
+    await settle();
+
+    expect(bob.contentElement.innerHTML).toBe('<p>text</p>');
+  });
+
+  it('keeps every node a received block parses into', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann'), createPeer(hub, 'bob')];
+    await settle();
+
+    const [ann, bob] = editors;
+    ann.contentElement.innerHTML = '<section><p>a</p><p>b</p></section>';
+    await settle();
+
+    expect(bob.contentElement.innerHTML).toBe('<p>a</p><p>b</p>');
+    bob.contentElement.querySelectorAll('p')[1].textContent = 'c';
+    await settle();
+    expect(ann.contentElement.innerHTML).toBe('<p>a</p><p>c</p>');
+  });
+
+  it('merges concurrent edits to the same paragraph character by character', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann'), createPeer(hub, 'bob')];
+    await settle();
+    editors.forEach(editor => editor.setContent('<p>hello</p>'));
+    await settle();
+
+    const [ann, bob] = editors;
+    ann.contentElement.querySelector('p')!.textContent = 'hello from A';
+    bob.contentElement.querySelector('p')!.textContent = 'B says hello';
+    await settle();
+
+    editors.forEach(editor => {
+      expect(editor.getContent()).toBe('<p>B says hello from A</p>');
+    });
+  });
+
+  it('brings a peer that joins later up to date, edits included', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann')];
+    await settle();
+    const [ann] = editors;
+    ann.setContent('<p>one</p>');
+    await settle();
+    ann.contentElement.querySelector('p')!.textContent = 'one two';
+    await settle();
+
+    editors.push(createPeer(hub, 'bob'));
+    await settle();
+    expect(editors[1].getContent()).toBe('<p>one two</p>');
+  });
+
+  it('ignores messages whose payload is not what their type says', async () => {
+    const hub = new InMemoryHub();
+    editors = [createPeer(hub, 'ann')];
+    await settle();
+    editors[0].setContent('<p>kept</p>');
+    const intruder = hub.createTransport();
+    intruder.send({ type: 'ops', clientId: 'x', payload: [{ type: 'insert', id: 'a' }] });
+    intruder.send({ type: 'state', clientId: 'x', payload: 'nonsense' });
+    intruder.send({ type: 'presence', clientId: 'x', user: { id: 'x', name: 'x' }, payload: { anchor: 1 } });
+    await settle();
+
+    expect(editors[0].getContent()).toBe('<p>kept</p>');
+  });
+
+  it('reports only messages it cannot parse as invalid, not errors of the handlers', () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    const listeners: Record<string, (event: { data: string }) => void> = {};
+    const socket = {
+      readyState: 1,
+      addEventListener: (type: string, listener: (event: { data: string }) => void) => { listeners[type] = listener; },
+      send: jest.fn(),
+      close: jest.fn()
+    };
+    const transport = new WebSocketTransport(socket as unknown as WebSocket);
+    transport.onMessage(() => { throw new Error('handler'); });
+
+    listeners.message({ data: '{' });
+    expect(handle).toHaveBeenCalledWith(expect.any(SyntaxError), 'Received an invalid collaboration message');
+    expect(() => listeners.message({ data: '{"type":"hello","clientId":"x"}' })).toThrow('handler');
+    expect(handle).toHaveBeenCalledTimes(1);
+    handle.mockRestore();
+  });
+});
@@ -0,0 +1,177 @@
+import { xEditor } from '../../src/core/editor';
+import { CommentsPlugin } from '../../src/plugins/comments';
+import { formatMention, getMentionedIds, renderCommentText } from '../../src/plugins/comments/mentions';
+import { errorHandler } from '../../src/utils/error-handler';
+import { CommentThread, CommentsStorage } from '../../src/types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function createThread(id: string, exact: string, prefix: string, suffix: string, start: number): CommentThread {
+  return {
+    id,
+    anchor: { exact, prefix, suffix, start, end: start + exact.length },
+    resolved: false,
+    comments: [{ id: `${id}-1`, text: 'Check this', author: 'ann', timestamp: new Date(0), resolved: false }]
+  };
+}
+
+function createEditor(
+  storage: CommentsStorage,
+  content: string,
+  language?: string
+): { editor: xEditor; plugin: CommentsPlugin } {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const plugin = new CommentsPlugin({ storageBackend: storage, userDirectory: () => [] });
+  const editor = new xEditor({ container, toolbar: false, plugins: [plugin], language });
+  editor.setContent(content);
+  return { editor, plugin };
+}
+
+describe('comment threads', () => {
+  let editor: xEditor;
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('re-anchors stored threads to the text they quote and marks lost ones orphaned', async () => {
+    const storage: CommentsStorage = {
+      save: jest.fn(() => Promise.resolve()),
+      load: () => Promise.resolve([
+        createThread('moved', 'brown fox', 'The quick ', ' jumps', 10),
+        createThread('gone', 'lazy dog', 'over the ', '', 30)
+      ]),
+      delete: () => Promise.resolve()
+    };
+    const created = createEditor(storage, '<p>Today the quick brown fox jumps over a cat</p>');
+    editor = created.editor;
+    await flush();
+
+    const highlights = editor.contentElement.querySelectorAll('[data-thread-id="moved"]');
+    expect(Array.from(highlights).map(highlight => highlight.textContent).join('')).toBe('brown fox');
+
+    const threads = created.plugin.getThreads();
+    expect(threads.find(thread => thread.id === 'moved')).toMatchObject({ orphaned: false, anchor: { start: 16 } });
+    expect(threads.find(thread => thread.id === 'gone')!.orphaned).toBe(true);
+  });
+
+  it('keeps the highlight of a new comment out of the undo history', async () => {
+    const storage: CommentsStorage = {
+      save: () => Promise.resolve(),
+      load: () => Promise.resolve([]),
+      delete: () => Promise.resolve()
+    };
+    const created = createEditor(storage, '<p>The quick brown fox</p>');
+    editor = created.editor;
+    await flush();
+    editor.history.transact('paste', () => {
+      editor.contentElement.appendChild(document.createElement('p')).textContent = 'jumps';
+    });
+
+    const text = editor.contentElement.querySelector('p')!.firstChild!;
+    const range = document.createRange();
+    range.setStart(text, 4);
+    range.setEnd(text, 9);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    // jsdom does not lay out ranges
+    range.getBoundingClientRect = () => ({ top: 0, bottom: 0, left: 0, right: 0 }) as DOMRect;
+
+    editor.commands.execute('addComment');
+    const dialog = document.querySelector('.xeditor-comment-dialog')!;
+    dialog.querySelector('textarea')!.value = 'Too vague';
+    dialog.querySelectorAll('button')[1].click();
+    editor.history.undo();
+    await flush();
+
+    expect(editor.contentElement.textContent).toBe('The quick brown fox');
+    expect(editor.contentElement.querySelector('[data-thread-id]')!.textContent).toBe('quick');
+    expect(created.plugin.getThreads()[0].orphaned).toBeFalsy();
+  });
+
+  it('reports storage that cannot be read', async () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    const storage: CommentsStorage = {
+      save: () => Promise.resolve(),
+      load: () => Promise.reject(new Error('corrupt')),
+      delete: () => Promise.resolve()
+    };
+    editor = createEditor(storage, '<p>a</p>').editor;
+    await flush();
+
+    expect(handle).toHaveBeenCalledWith(expect.any(Error), 'Failed to load comments');
+    handle.mockRestore();
+  });
+});
+
+describe('mentions', () => {
+  it('stores mentions as tokens and renders them as chips', () => {
+    const text = `Ask ${formatMention({ id: 'bob', name: 'Bob Lee' })} and @[Ann](ann), then @[Bob Lee](bob)`;
+    expect(getMentionedIds(text)).toEqual(['bob', 'ann']);
+
+    const container = document.createElement('div');
+    renderCommentText(text, container);
+    expect(container.innerHTML).toBe(
+      'Ask <span class="xeditor-mention" data-user-id="bob">@Bob Lee</span> and ' +
+      '<span class="xeditor-mention" data-user-id="ann">@Ann</span>, then ' +
+      '<span class="xeditor-mention" data-user-id="bob">@Bob Lee</span>'
+    );
+  });
+});
+
+describe('thread assignment', () => {
+  let editor: xEditor;
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('filters threads by assignee and labels them in the editor language', async () => {
+    const storage: CommentsStorage = {
+      save: () => Promise.resolve(),
+      load: () => Promise.resolve([createThread('a', 'one', '', ' two', 0), createThread('b', 'two', 'one ', '', 4)]),
+      delete: () => Promise.resolve()
+    };
+    const created = createEditor(storage, '<p>one two</p>', 'de');
+    editor = created.editor;
+    await flush();
+
+    created.plugin.assignThread('a', { id: 'bob', name: 'Bob' });
+    const panel = editor.wrapper.querySelector('.xeditor-comments-panel')!;
+    const options = Array.from(panel.querySelectorAll('.xeditor-comments-filter-assignee option'));
+    expect(options.map(option => option.textContent)).toEqual(['Alle', 'Nicht zugewiesen', 'Bob']);
+
+    created.plugin.setFilter({ assignee: 'bob' });
+    const meta = panel.querySelectorAll('.xeditor-comment-assignee');
+    expect(Array.from(meta).map(element => element.textContent)).toEqual(['Zugewiesen an Bob']);
+
+    created.plugin.setFilter({ assignee: null });
+    expect(panel.querySelector('.xeditor-comment-assignee')!.textContent).toBe('Nicht zugewiesen');
+  });
+
+  it('labels the comment dialog in the editor language', async () => {
+    const storage: CommentsStorage = {
+      save: () => Promise.resolve(),
+      load: () => Promise.resolve([]),
+      delete: () => Promise.resolve()
+    };
+    editor = createEditor(storage, '<p>one two</p>', 'de').editor;
+    await flush();
+
+    const range = document.createRange();
+    range.setStart(editor.contentElement.querySelector('p')!.firstChild!, 0);
+    range.setEnd(editor.contentElement.querySelector('p')!.firstChild!, 3);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    // jsdom does not lay out ranges
+    range.getBoundingClientRect = () => ({ top: 0, bottom: 0, left: 0, right: 0 }) as DOMRect;
+
+    editor.commands.execute('addComment');
+    const dialog = document.querySelector('.xeditor-comment-dialog')!;
+    expect(dialog.querySelector('textarea')!.placeholder).toBe('Kommentar hinzufügen...');
+    expect(Array.from(dialog.querySelectorAll('button')).map(button => button.textContent))
+      .toEqual(['Abbrechen', 'Kommentar hinzufügen']);
+    dialog.remove();
+  });
+});
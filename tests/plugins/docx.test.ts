@@ -0,0 +1,151 @@
+import { TextDecoder, TextEncoder } from 'util';
+Object.assign(global, { TextDecoder, TextEncoder });
+
+import { xEditor } from '../../src/core/editor';
+import { DocxPlugin } from '../../src/plugins/docx';
+import { loadImages } from '../../src/plugins/docx/images';
+import { buildDocx } from '../../src/plugins/docx/package';
+import { resolvePage, toTwips } from '../../src/plugins/docx/page';
+import { toHexColor } from '../../src/plugins/docx/writer';
+import { PrintPreviewConfig } from '../../src/types';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+// Files of an uncompressed ZIP archive, by name
+function unzip(zip: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const files = new Map<string, Uint8Array>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength + extraLength;
+    files.set(name, zip.subarray(start, start + size));
+    offset = start + size;
+  }
+  return files;
+}
+
+function text(files: Map<string, Uint8Array>, name: string): string {
+  return new TextDecoder().decode(files.get(name));
+}
+
+describe('DOCX page settings', () => {
+  it('reads CSS lengths as twips', () => {
+    expect(toTwips('1in', 0)).toBe(1440);
+    expect(toTwips('2.54cm', 0)).toBe(1440);
+    expect(toTwips(10, 0)).toBe(150);
+    expect(toTwips('wide', 7)).toBe(7);
+  });
+
+  it('takes size, orientation, margins, header and footer from the print preview settings', () => {
+    const config: PrintPreviewConfig = {
+      pageSize: 'Letter',
+      orientation: 'landscape',
+      margins: { left: '1in' },
+      headerText: 'Draft',
+      footerText: 'Internal',
+      showPageNumbers: false
+    };
+    expect(resolvePage(config)).toEqual({
+      width: 15840,
+      height: 12240,
+      landscape: true,
+      margins: { top: 1134, right: 1134, bottom: 1134, left: 1440 },
+      header: 'Draft',
+      footer: 'Internal',
+      pageNumbers: false
+    });
+  });
+
+  it('reads CSS colors as hex', () => {
+    expect(toHexColor('#f80')).toBe('FF8800');
+    expect(toHexColor('rgb(255, 0, 16)')).toBe('FF0010');
+    expect(toHexColor('rgba(0, 0, 0, 0)')).toBeNull();
+  });
+});
+
+describe('DOCX export', () => {
+  let editor: xEditor;
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({
+      container,
+      toolbar: false,
+      plugins: ['table', 'checklist', 'imagecaption', new DocxPlugin()],
+      printPreview: { pageSize: 'Letter', headerText: 'Report' }
+    });
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  async function exportFiles(html: string): Promise<Map<string, Uint8Array>> {
+    editor.setContent(html);
+    const doc = editor.getJSON();
+    const images = await loadImages([PIXEL]);
+    return unzip(buildDocx(doc, {
+      page: resolvePage(editor.config.printPreview),
+      images,
+      pageNumber: editor.t('docx.pageNumber')
+    }));
+  }
+
+  it('packages the document parts Word needs', async () => {
+    const files = await exportFiles('<p>a</p>');
+    expect(Array.from(files.keys())).toEqual([
+      '[Content_Types].xml', '_rels/.rels', 'word/_rels/document.xml.rels',
+      'word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'word/header1.xml', 'word/footer1.xml'
+    ]);
+    expect(text(files, 'word/header1.xml')).toContain('Report');
+    expect(text(files, 'word/document.xml')).toContain('<w:pgSz w:w="12240" w:h="15840"/>');
+  });
+
+  it('exports the content as a Word file', async () => {
+    editor.setContent('<p>a</p>');
+    const blob = await (editor.plugins.get('docx') as DocxPlugin).exportDocx();
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(blob.size).toBeGreaterThan(0);
+  });
+
+  it('writes headings, lists, checklists, links and text formatting', async () => {
+    const files = await exportFiles(
+      '<h2>Title</h2><ol><li>one</li></ol>' +
+      '<ul class="xeditor-checklist"><li class="xeditor-checklist-item"><input type="checkbox" checked>done</li></ul>' +
+      '<p><a href="https://example.com/">link</a> <span style="color: #ff0000; font-family: Georgia">red</span> <strong>bold</strong></p>'
+    );
+    const xml = text(files, 'word/document.xml');
+    expect(xml).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(xml).toMatch(/<w:numPr><w:ilvl w:val="0"\/><w:numId w:val="1"\/><\/w:numPr>.*one/);
+    expect(xml).toMatch(/☒.*done/);
+    expect(xml).toMatch(/<w:hyperlink r:id="(rId\d+)" w:history="1">.*link/);
+    expect(text(files, 'word/_rels/document.xml.rels')).toContain('Target="https://example.com/" TargetMode="External"');
+    expect(xml).toMatch(/<w:rFonts w:ascii="Georgia"[^>]*\/>.*<w:color w:val="FF0000"\/>.*red/);
+    expect(xml).toMatch(/<w:b\/>.*bold/);
+  });
+
+  it('writes merged table cells as spans and vertical merges', async () => {
+    const files = await exportFiles(
+      '<table class="xeditor-table"><tbody><tr><td colspan="2">wide</td><td rowspan="2">tall</td></tr>' +
+      '<tr><td>a</td><td>b</td></tr></tbody></table>'
+    );
+    const xml = text(files, 'word/document.xml');
+    expect(xml.match(/<w:gridCol /g)).toHaveLength(3);
+    expect(xml).toMatch(/<w:gridSpan w:val="2"\/><\/w:tcPr>.*wide/);
+    expect(xml).toMatch(/<w:vMerge w:val="restart"\/>.*tall/);
+    expect(xml).toContain('<w:vMerge/>');
+  });
+
+  it('embeds images with their captions', async () => {
+    const files = await exportFiles(`<figure><img src="${PIXEL}" alt="dot"><figcaption>A dot</figcaption></figure>`);
+    const xml = text(files, 'word/document.xml');
+    expect(new TextDecoder().decode(files.get('word/media/image1.png')!.subarray(1, 4))).toBe('PNG');
+    expect(xml).toMatch(/<a:blip r:embed="rId\d+"\/>/);
+    expect(xml).toMatch(/<w:pStyle w:val="Caption"\/>.*A dot/);
+  });
+});
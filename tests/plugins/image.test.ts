@@ -0,0 +1,94 @@
+import { xEditor } from '../../src/core/editor';
+import { ImagePlugin } from '../../src/plugins/image';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// What the editor receives for a pasted screenshot
+function pasteFile(editor: xEditor, file: File): void {
+  editor.events.emit('paste', {
+    clipboardData: { getData: () => '', items: [], files: [file] },
+    preventDefault: () => undefined
+  });
+}
+
+describe('image uploads', () => {
+  let editor: xEditor;
+  let finishUpload: (url: string) => void;
+  let failUpload: (error: Error) => void;
+
+  beforeAll(() => {
+    URL.createObjectURL = jest.fn(() => 'blob:preview');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const upload = () => new Promise<string>((resolve, reject) => {
+      finishUpload = resolve;
+      failUpload = reject;
+    });
+    editor = new xEditor({
+      container,
+      toolbar: false,
+      plugins: [new ImagePlugin({ autoResize: false, upload })]
+    });
+    editor.setContent('<p>a</p>');
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('keeps the upload placeholder out of the content and change events', async () => {
+    const changes: string[] = [];
+    editor.on('change', content => changes.push(content as string));
+
+    pasteFile(editor, new File(['x'], 'shot.png', { type: 'image/png' }));
+    expect(editor.contentElement.querySelector('.xeditor-image-upload')).not.toBeNull();
+    expect(editor.getContent()).toBe('<p>a</p>');
+    expect(editor.getJSON().content).toHaveLength(1);
+
+    await flush();
+    finishUpload('https://example.com/shot.png');
+    await flush();
+
+    expect(editor.contentElement.querySelector('.xeditor-image-upload')).toBeNull();
+    expect(editor.getContent()).toContain('<img src="https://example.com/shot.png"');
+    expect(changes.join('')).not.toContain('blob:');
+  });
+
+  it('lets undo bring back the text an image was pasted over', async () => {
+    editor.setContent('<p>hello world</p>');
+    const text = editor.contentElement.querySelector('p')!.firstChild!;
+    const range = document.createRange();
+    range.setStart(text, 6);
+    range.setEnd(text, 11);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    pasteFile(editor, new File(['x'], 'shot.png', { type: 'image/png' }));
+    expect(editor.getContent()).toBe('<p>hello </p>');
+    editor.history.undo();
+    expect(editor.getContent()).toBe('<p>hello world</p>');
+
+    await flush();
+    finishUpload('https://example.com/shot.png');
+    await flush();
+  });
+
+  it('falls back to a data URI when the upload fails and reports it', async () => {
+    const fallback = jest.fn();
+    editor.on('image:upload-fallback', fallback);
+    const file = new File(['x'], 'shot.png', { type: 'image/png' });
+
+    pasteFile(editor, file);
+    await flush();
+    failUpload(new Error('offline'));
+    await flush();
+    await flush();
+
+    expect(fallback).toHaveBeenCalledWith({ file, error: new Error('offline') });
+    expect(editor.getContent()).toContain('src="data:image/png;base64,');
+  });
+});
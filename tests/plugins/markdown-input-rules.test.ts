@@ -0,0 +1,133 @@
+import { xEditor } from '../../src/core/editor';
+import { MarkdownPlugin } from '../../src/plugins/markdown';
+
+describe('Markdown input rules', () => {
+  let editor: xEditor;
+
+  function placeCaretAtEnd(node: Node): void {
+    const range = document.createRange();
+    range.selectNodeContents(node);
+    range.collapse(false);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+  }
+
+  // Types into the text node at the caret, one character at a time, as the browser would
+  function type(text: string): void {
+    for (const data of text) {
+      const { startContainer, startOffset } = window.getSelection()!.getRangeAt(0);
+      const node = startContainer as Text;
+      const element = editor.contentElement;
+      element.dispatchEvent(new InputEvent('beforeinput', { bubbles: true, inputType: 'insertText', data }));
+      node.insertData(startOffset, data);
+      const range = document.createRange();
+      range.setStart(node, startOffset + 1);
+      window.getSelection()!.removeAllRanges();
+      window.getSelection()!.addRange(range);
+      element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data }));
+    }
+  }
+
+  function key(name: string): boolean {
+    const event = new KeyboardEvent('keydown', { key: name, bubbles: true, cancelable: true });
+    return editor.contentElement.dispatchEvent(event);
+  }
+
+  function start(html: string): void {
+    editor.setContent(html);
+    const walker = document.createTreeWalker(editor.contentElement, NodeFilter.SHOW_TEXT);
+    let last: Node | null = null;
+    let node: Node | null;
+    while ((node = walker.nextNode()) !== null) last = node;
+    placeCaretAtEnd(last!);
+  }
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({ container, toolbar: false, plugins: [new MarkdownPlugin()] });
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it.each([
+    ['##', '<h2><br></h2>'],
+    ['>', '<blockquote><p><br></p></blockquote>'],
+    ['-', '<ul><li><br></li></ul>'],
+    ['3.', '<ol start="3"><li><br></li></ol>']
+  ])('turns "%s " at the start of a paragraph into a block', (syntax, html) => {
+    start(`<p>${syntax}</p>`);
+    type(' ');
+    expect(editor.contentElement.innerHTML).toBe(html);
+  });
+
+  it('moves text already in the paragraph into the new block', () => {
+    start('<p>#</p>');
+    const text = editor.contentElement.querySelector('p')!.firstChild as Text;
+    text.data = '#Title';
+    const range = document.createRange();
+    range.setStart(text, 1);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    type(' ');
+    expect(editor.contentElement.innerHTML).toBe('<h1>Title</h1>');
+  });
+
+  it('starts a checklist', () => {
+    start('<p>[x]</p>');
+    type(' ');
+    const checkbox = editor.contentElement.querySelector<HTMLInputElement>('ul.xeditor-checklist input[type="checkbox"]');
+    expect(checkbox?.hasAttribute('checked')).toBe(true);
+  });
+
+  it('starts a code block with the language typed after the fence on Enter', () => {
+    start('<p>```ts</p>');
+    expect(key('Enter')).toBe(false);
+    expect(editor.contentElement.innerHTML).toBe(
+      '<pre class="xeditor-codeblock" data-language="ts"><code spellcheck="false" class="language-ts"><br></code></pre>'
+    );
+  });
+
+  it('formats emphasis and code as the closing delimiter is typed', () => {
+    start('<p>a **bold</p>');
+    type('*');
+    expect(editor.contentElement.innerHTML).toBe('<p>a **bold*</p>');
+    type('*');
+    type(' _it_ `x*`');
+    expect(editor.contentElement.innerHTML).toBe('<p>a <strong>bold</strong> <em>it</em> <code>x*</code></p>');
+  });
+
+  it('leaves text in code and escaped delimiters alone', () => {
+    start('<p>\\*a</p>');
+    type('*');
+    expect(editor.contentElement.innerHTML).toBe('<p>\\*a*</p>');
+    start('<pre><code>##</code></pre>');
+    type(' ');
+    expect(editor.contentElement.innerHTML).toBe('<pre><code spellcheck="false">## </code></pre>');
+  });
+
+  it('brings back the typed text on Backspace right after a conversion', () => {
+    const applied = jest.fn();
+    editor.on('inputrule', applied);
+    start('<p>##</p>');
+    type(' ');
+    expect(applied).toHaveBeenCalledWith(expect.objectContaining({ name: 'markdown:heading' }));
+
+    expect(key('Backspace')).toBe(false);
+    expect(editor.contentElement.innerHTML).toBe('<p>## </p>');
+    // Only once: the next Backspace deletes text as usual
+    expect(key('Backspace')).toBe(true);
+  });
+
+  it('can be turned off', () => {
+    editor.destroy();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({ container, toolbar: false, plugins: [new MarkdownPlugin({ inputRules: false })] });
+    start('<p>##</p>');
+    type(' ');
+    expect(editor.contentElement.innerHTML).toBe('<p>## </p>');
+  });
+});
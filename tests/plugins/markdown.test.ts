@@ -0,0 +1,129 @@
+import { xEditor } from '../../src/core/editor';
+import { parseHTML } from '../../src/core/model';
+import { markdownToHTML } from '../../src/plugins/markdown/parser';
+import { resolveExportOptions, serializeMarkdown } from '../../src/plugins/markdown/serializer';
+
+interface SpecExample {
+  markdown: string;
+  html: string;
+  section: string;
+  number: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const spec: { tests: SpecExample[] } = require('commonmark-spec');
+
+// GitHub's autolink extension links bare URLs and addresses on purpose
+const GFM_DEVIATIONS = [608, 611, 612];
+
+const BLOCK_TAG = '</?(?:blockquote|div|h[1-6]|hr|li|ol|p|pre|table|tbody|td|th|thead|tr|ul)\\b[^>]*>';
+
+/**
+ * Compares HTML the way the spec runner does: as the browser reads it, so
+ * `<br />` and `<br>` or differently escaped quotes are the same, and
+ * without the line breaks the spec puts between blocks. Code blocks are
+ * compared without the language attribute the editor adds for highlighting.
+ */
+function normalizeHTML(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html
+    .replace(/<pre data-language="[^"]*">/g, '<pre>')
+    .replace(new RegExp(`\\n*(${BLOCK_TAG})\\n*`, 'g'), '$1')
+    .replace(/<br \/>\n/g, '<br />');
+  return template.innerHTML;
+}
+
+function toMarkdown(markdown: string): string {
+  return serializeMarkdown(parseHTML(markdownToHTML(markdown)), resolveExportOptions());
+}
+
+describe('CommonMark spec', () => {
+  const examples = spec.tests
+    .filter(example => !GFM_DEVIATIONS.includes(example.number))
+    .map(example => ({
+      ...example,
+      // The spec shows tabs as arrows
+      markdown: example.markdown.replace(/→/g, '\t'),
+      html: example.html.replace(/→/g, '\t')
+    }));
+
+  it.each(examples)('example $number ($section)', ({ markdown, html }) => {
+    expect(normalizeHTML(markdownToHTML(markdown))).toBe(normalizeHTML(html));
+  });
+});
+
+describe('GitHub extensions', () => {
+  it('links bare URLs and email addresses', () => {
+    expect(markdownToHTML('see https://example.com')).toBe(
+      '<p>see <a href="https://example.com">https://example.com</a></p>'
+    );
+    expect(markdownToHTML('foo@bar.example.com')).toBe(
+      '<p><a href="mailto:foo@bar.example.com">foo@bar.example.com</a></p>'
+    );
+  });
+
+  it('round-trips tables with their alignment', () => {
+    const markdown = '| Name | Count |\n| :--- | ---: |\n| a \\| b | 1 |\n| `c` | 22 |';
+    expect(toMarkdown(markdown)).toBe(markdown);
+  });
+
+  it('round-trips task lists', () => {
+    expect(markdownToHTML('- [x] done\n- [ ] todo')).toContain('<ul class="xeditor-checklist">');
+    expect(toMarkdown('- [x] done\n- [ ] todo')).toBe('- [x] done\n- [ ] todo');
+  });
+
+  it('round-trips tasks that hold more than a checklist item can', () => {
+    const markdown = '- [x] done\n- [ ] todo\n  - [ ] nested\n\n1. [ ] ordered\n2. plain';
+    expect(toMarkdown(markdown)).toBe(markdown);
+  });
+
+  it('round-trips fenced code with its language and inner fences', () => {
+    const markdown = '````md\n```js\nlet a = 1;\n```\n````\n\n```\nplain <b>\n```';
+    expect(toMarkdown(markdown)).toBe(markdown);
+  });
+});
+
+describe('Markdown editing mode', () => {
+  let editor: xEditor;
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({
+      container,
+      toolbar: { items: ['markdownMode'] },
+      plugins: ['markdown']
+    });
+    editor.setContent('<h2>Title</h2><p>Some <strong>bold</strong> text</p>');
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  function toggle(): void {
+    (editor.wrapper.querySelector('[title="Markdown Editing Mode"]') as HTMLButtonElement).click();
+  }
+
+  it('edits the content as Markdown from the toolbar', () => {
+    toggle();
+    const source = editor.wrapper.querySelector('.xeditor-markdown-split__source') as HTMLTextAreaElement;
+    expect(source.value).toBe('## Title\n\nSome **bold** text');
+    expect(editor.contentElement.style.display).toBe('none');
+
+    source.value = '## Title\n\n- [x] done';
+    toggle();
+    expect(editor.wrapper.querySelector('.xeditor-markdown-split')).toBeNull();
+    expect(editor.getContent({ format: 'markdown' })).toBe('## Title\n\n- [x] done');
+  });
+
+  it('leaves the content alone when the Markdown is not changed', () => {
+    const changes: string[] = [];
+    editor.on('change', content => changes.push(content as string));
+
+    toggle();
+    toggle();
+    expect(changes).toEqual([]);
+    expect(editor.getContent()).toBe('<h2>Title</h2><p>Some <strong>bold</strong> text</p>');
+  });
+});
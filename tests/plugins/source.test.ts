@@ -0,0 +1,143 @@
+import { xEditor } from '../../src/core/editor';
+import { SourcePlugin } from '../../src/plugins/source';
+import { formatHTML } from '../../src/plugins/source/format';
+import { sourceOffsetFor, textOffsetAt, tokenizeHTML } from '../../src/plugins/source/tokenizer';
+import { findMatchingTags, validateHTML } from '../../src/plugins/source/validate';
+
+const SCHEMA = {
+  tags: ['p', 'a', 'strong', 'ul', 'li', 'img', 'br', 'iframe'],
+  attributes: { '*': ['class'], a: ['href'], img: ['src'], iframe: ['src'] },
+  iframeHosts: ['www.youtube.com']
+};
+
+function problems(source: string, schema: typeof SCHEMA | null = null): string[] {
+  return validateHTML(source, tokenizeHTML(source), schema).map(problem =>
+    `${problem.code}@${problem.line}:${problem.column}`);
+}
+
+describe('source validation', () => {
+  it('accepts closing tags HTML lets you leave out', () => {
+    expect(problems('<ul><li>a<li>b</ul><p>one<p>two')).toEqual([]);
+  });
+
+  it('reports malformed markup where it is', () => {
+    expect(problems('<p><strong>a</p>\n</em><br></br><p/>')).toEqual([
+      'unclosedTag@1:4', 'unexpectedClose@2:1', 'voidClose@2:10', 'selfClosing@2:15'
+    ]);
+    expect(problems('<p class="a" class="b">x</p><!-- open')).toEqual([
+      'unterminatedComment@1:29'
+    ]);
+    expect(problems('<p>x</p', SCHEMA)).toEqual(['unterminatedTag@1:5']);
+  });
+
+  it('reports markup the sanitizer schema would remove', () => {
+    const source = '<p class="a" class="b" onclick="x()">a</p><span>b</span>' +
+      '<a href="javascript:alert(1)">c</a><img src="data:image/png;base64,AA">' +
+      '<iframe src="https://evil.example/"></iframe>';
+    expect(validateHTML(source, tokenizeHTML(source), SCHEMA).map(problem => [problem.code, problem.params])).toEqual([
+      ['duplicateAttribute', { tag: 'p', attribute: 'class' }],
+      ['disallowedAttribute', { tag: 'p', attribute: 'onclick' }],
+      ['disallowedTag', { tag: 'span' }],
+      ['unsafeUrl', { tag: 'a', attribute: 'href' }],
+      ['iframeHost', { tag: 'iframe', url: 'https://evil.example/' }]
+    ]);
+  });
+
+  it('finds the tag pairing with the one at the caret', () => {
+    const source = '<p><p>a</p></p>';
+    const tokens = tokenizeHTML(source);
+    expect(findMatchingTags(tokens, 0).map(token => token.start)).toEqual([0, 11]);
+    expect(findMatchingTags(tokens, 9).map(token => token.start)).toEqual([7, 3]);
+    // Just after a ">" is still on the tag
+    expect(findMatchingTags(tokens, 6).map(token => token.start)).toEqual([3, 7]);
+    expect(findMatchingTags(tokenizeHTML('<br>a'), 5)).toEqual([]);
+  });
+});
+
+describe('source formatting', () => {
+  it('puts blocks on lines of their own and leaves inline content and <pre> alone', () => {
+    expect(formatHTML('<ul><li><p>a <b>b</b></p></li></ul><pre>  x\n y</pre>')).toBe(
+      '<ul>\n  <li>\n    <p>a <b>b</b></p>\n  </li>\n</ul>\n<pre>  x\n y</pre>'
+    );
+  });
+
+  it('maps text positions between source and content, ignoring whitespace', () => {
+    const source = '<p>ab &amp; c</p>\n<p>d</p>';
+    const tokens = tokenizeHTML(source);
+    expect(textOffsetAt(source, tokens, source.indexOf('c'))).toBe(3);
+    expect(sourceOffsetFor(source, tokens, 3)).toBe(source.indexOf(' c'));
+    expect(sourceOffsetFor(source, tokens, 5)).toBe(source.indexOf('d') + 1);
+  });
+});
+
+describe('SourcePlugin', () => {
+  let editor: xEditor;
+  let source: SourcePlugin;
+
+  function textarea(): HTMLTextAreaElement {
+    return editor.wrapper.querySelector('textarea')!;
+  }
+
+  function edit(value: string): void {
+    textarea().value = value;
+    textarea().dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText' }));
+  }
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    source = new SourcePlugin();
+    editor = new xEditor({ container, toolbar: false, plugins: [source] });
+    editor.setContent('<p>one</p><p>two</p>');
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('shows the formatted source and applies edits on the way back', () => {
+    editor.commands.execute('toggleSource');
+    expect(textarea().value).toBe('<p>one</p>\n<p>two</p>');
+    expect(editor.contentElement.style.display).toBe('none');
+
+    edit('<p>one</p>\n<p>three</p>');
+    editor.commands.execute('toggleSource');
+    expect(editor.wrapper.querySelector('textarea')).toBeNull();
+    expect(editor.getContent()).toBe('<p>one</p><p>three</p>');
+  });
+
+  it('keeps the whitespace of preformatted text', () => {
+    editor.commands.execute('toggleSource');
+    edit('<p>one</p>\n<pre>  indented\n    more</pre>');
+    editor.commands.execute('toggleSource');
+    expect(editor.contentElement.querySelector('pre')!.textContent).toBe('  indented\n    more');
+  });
+
+  it('keeps invalid source open with its problems listed until applied anyway', () => {
+    const invalid = jest.fn();
+    editor.on('source:invalid', invalid);
+    editor.commands.execute('toggleSource');
+    edit('<p>one<em>x</p>');
+
+    editor.commands.execute('toggleSource');
+    expect(textarea()).not.toBeNull();
+    expect(invalid).toHaveBeenCalledWith([expect.objectContaining({ code: 'unclosedTag' })]);
+    expect(source.getProblems()).toHaveLength(1);
+    const panel = editor.wrapper.querySelector('.xeditor-source-problems')!;
+    expect(panel.textContent).toContain('<em>');
+
+    panel.querySelector<HTMLButtonElement>('.xeditor-source-problems__apply')!.click();
+    expect(editor.wrapper.querySelector('textarea')).toBeNull();
+    expect(editor.getContent()).toBe('<p>one<em>x</em></p>');
+  });
+
+  it('closes a tag as its ">" is typed', () => {
+    editor.commands.execute('toggleSource');
+    const field = textarea();
+    field.value = '<p>';
+    field.setSelectionRange(3, 3);
+    field.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: '>' }));
+    expect(field.value).toBe('<p></p>');
+    expect(field.selectionStart).toBe(3);
+  });
+});
@@ -0,0 +1,191 @@
+import { xEditor } from '../../src/core/editor';
+import { TablePlugin } from '../../src/plugins/table';
+import { buildGrid, selectionRect } from '../../src/plugins/table/grid';
+import { copyCells, parseTSV, toTSV } from '../../src/plugins/table/clipboard';
+import { parseDate, parseNumber, sortOrder } from '../../src/plugins/table/sort';
+
+function createTable(html: string): HTMLTableElement {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container.querySelector('table')!;
+}
+
+describe('table grid', () => {
+  const table = createTable(
+    '<table><tr><td rowspan="2">a</td><td>b</td><td>c</td></tr><tr><td colspan="2">d</td></tr><tr><td>e</td><td>f</td><td>g</td></tr></table>'
+  );
+  const grid = buildGrid(table);
+
+  it('puts merged cells in every slot they cover', () => {
+    expect(grid.map(row => row.map(cell => cell.textContent).join(''))).toEqual(['abc', 'add', 'efg']);
+  });
+
+  it('grows a selection until it cuts through no merged cell', () => {
+    const [b, g] = [grid[0][1], grid[2][2]];
+    expect(selectionRect(grid, grid[0][2], grid[1][2])).toEqual({ top: 0, left: 1, bottom: 1, right: 2 });
+    expect(selectionRect(grid, b, g)).toEqual({ top: 0, left: 1, bottom: 2, right: 2 });
+  });
+
+  it('copies a rectangle as a table and as TSV, cutting merged cells to it', () => {
+    const { html, text } = copyCells(grid, { top: 0, left: 0, bottom: 1, right: 1 });
+    expect(text).toBe('a\tb\n\td');
+    expect(html).toBe('<table><tbody><tr><td rowspan="2">a</td><td>b</td></tr><tr><td>d</td></tr></tbody></table>');
+  });
+});
+
+describe('TSV', () => {
+  it('quotes values holding tabs, line breaks or quotes, and reads them back', () => {
+    const rows = [['a', 'two\nlines'], ['say "hi"', 'tab\there']];
+    const text = toTSV(rows);
+    expect(text).toBe('a\t"two\nlines"\n"say ""hi"""\t"tab\there"');
+    expect(parseTSV(`${text}\r\n`)).toEqual(rows);
+  });
+});
+
+describe('column sort', () => {
+  it('reads numbers as the locale writes them', () => {
+    expect(parseNumber('$1,200.50', 'en')).toBe(1200.5);
+    expect(parseNumber('3,5 kg', 'de')).toBe(3.5);
+    expect(parseNumber('1.3.2024', 'de')).toBeNull();
+    expect(parseNumber('abc', 'en')).toBeNull();
+  });
+
+  it('reads ISO, day-first and written-out dates', () => {
+    expect(parseDate('2024-03-01')).toBe(Date.UTC(2024, 2, 1));
+    expect(parseDate('1.3.24')).toBe(Date.UTC(2024, 2, 1));
+    expect(parseDate('March 1, 2024')).toBe(new Date('March 1, 2024').getTime());
+    expect(parseDate('soon')).toBeNull();
+  });
+
+  it('sorts numbers, dates and text, with empty values last', () => {
+    expect(sortOrder(['10', '9', '', '100'], 'asc', 'en')).toEqual([1, 0, 3, 2]);
+    expect(sortOrder(['2024-01-02', '2023-12-31', '2024-01-01'], 'desc', 'en')).toEqual([0, 2, 1]);
+    expect(sortOrder(['b', 'A', '', 'a'], 'asc', 'en')).toEqual([1, 3, 0, 2]);
+  });
+});
+
+describe('TablePlugin', () => {
+  let editor: xEditor;
+
+  function cell(row: number, column: number): HTMLTableCellElement {
+    const table = editor.contentElement.querySelector('table')!;
+    return buildGrid(table)[row][column];
+  }
+
+  function mouse(type: string, target: HTMLElement, init: MouseEventInit = {}): void {
+    target.dispatchEvent(new MouseEvent(type, { bubbles: true, button: 0, ...init }));
+  }
+
+  function paste(data: Record<string, string>): void {
+    editor.events.emit('paste', {
+      clipboardData: { getData: (type: string) => data[type] || '' },
+      defaultPrevented: false,
+      preventDefault() {
+        this.defaultPrevented = true;
+      }
+    });
+  }
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    editor = new xEditor({ container, toolbar: false, plugins: [new TablePlugin()] });
+    editor.setContent(
+      '<table class="xeditor-table"><tbody><tr><td>Name</td><td>Born</td></tr>' +
+      '<tr><td>Grace</td><td>1906</td></tr><tr><td>Ada</td><td>1815</td></tr><tr><td>Alan</td><td>1912</td></tr></tbody></table>'
+    );
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('turns the first row into a header row and back', () => {
+    mouse('click', cell(1, 0));
+    editor.commands.execute('toggleHeaderRow');
+    const table = editor.contentElement.querySelector('table')!;
+    expect(table.tHead?.innerHTML).toBe('<tr><th scope="col">Name</th><th scope="col">Born</th></tr>');
+    expect(editor.commands.queryState('toggleHeaderRow')).toBe(true);
+
+    editor.commands.execute('toggleHeaderRow');
+    expect(table.tHead).toBeNull();
+    expect(table.tBodies[0].rows[0].innerHTML).toBe('<td>Name</td><td>Born</td>');
+  });
+
+  it('sorts the body rows by the selected column, keeping the header in place', () => {
+    mouse('click', cell(0, 0));
+    editor.commands.execute('toggleHeaderRow');
+    mouse('click', cell(2, 1));
+    editor.commands.execute('sortTableColumn', 'desc');
+
+    const names = Array.from(editor.contentElement.querySelectorAll('tr')).map(row => row.cells[0].textContent);
+    expect(names).toEqual(['Name', 'Alan', 'Grace', 'Ada']);
+  });
+
+  it('adds a caption and a footer row', () => {
+    mouse('click', cell(0, 0));
+    editor.commands.execute('toggleTableCaption');
+    editor.commands.execute('toggleFooterRow');
+    const table = editor.contentElement.querySelector('table')!;
+    expect(table.caption).not.toBeNull();
+    expect(table.tFoot?.textContent).toBe('Alan1912');
+
+    editor.commands.execute('toggleFooterRow');
+    expect(table.tFoot).toBeNull();
+    expect(table.tBodies[0].rows).toHaveLength(4);
+  });
+
+  it('keeps column widths at least the configured minimum', () => {
+    mouse('click', cell(0, 0));
+    editor.commands.execute('setColumnWidth', [1, 40]);
+    const widths = Array.from(editor.contentElement.querySelectorAll('col')).map(col => col.style.width);
+    expect(widths).toEqual(['100px', '100px']);
+  });
+
+  it('selects a rectangle of cells by shift-click and colors all of them', () => {
+    mouse('mousedown', cell(1, 0));
+    mouse('click', cell(1, 0));
+    mouse('mousedown', cell(2, 1), { shiftKey: true });
+    mouse('click', cell(2, 1));
+
+    const selected = editor.contentElement.querySelectorAll('.xeditor-table-cell-selected');
+    expect(Array.from(selected).map(node => node.textContent)).toEqual(['Grace', '1906', 'Ada', '1815']);
+
+    editor.commands.execute('setCellBackground', 'yellow');
+    expect(cell(1, 0).style.backgroundColor).toBe('yellow');
+    expect(cell(2, 1).style.backgroundColor).toBe('yellow');
+    expect(cell(0, 0).style.backgroundColor).toBe('');
+  });
+
+  it('copies selected cells as TSV and HTML', () => {
+    mouse('mousedown', cell(2, 0));
+    mouse('mousemove', cell(3, 1));
+    const data: Record<string, string> = {};
+    const copy = new Event('copy', { bubbles: true, cancelable: true });
+    Object.assign(copy, { clipboardData: { setData: (type: string, value: string) => { data[type] = value; } } });
+    editor.contentElement.dispatchEvent(copy);
+
+    expect(copy.defaultPrevented).toBe(true);
+    expect(data['text/plain']).toBe('Ada\t1815\nAlan\t1912');
+    expect(data['text/html']).toContain('<td>Alan</td><td>1912</td>');
+  });
+
+  it('pastes spreadsheet rows from the selected cell on, adding rows and columns', () => {
+    const range = document.createRange();
+    range.selectNodeContents(cell(3, 1));
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    paste({ 'text/plain': '1912\tLondon\n1903\tBudapest' });
+
+    const rows = Array.from(editor.contentElement.querySelectorAll('tr')).map(row =>
+      Array.from(row.cells).map(node => node.textContent));
+    expect(rows).toEqual([
+      ['Name', 'Born', ''],
+      ['Grace', '1906', ''],
+      ['Ada', '1815', ''],
+      ['Alan', '1912', 'London'],
+      ['', '1903', 'Budapest']
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { xEditor } from '../../src/core/editor';
+import { TrackChangesPlugin } from '../../src/plugins/track-changes';
+
+function createEditor(language?: string): { editor: xEditor; plugin: TrackChangesPlugin } {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const plugin = new TrackChangesPlugin({ mode: 'suggesting', currentUser: 'ann' });
+  const editor = new xEditor({ container, toolbar: false, plugins: [plugin], language });
+  return { editor, plugin };
+}
+
+// What the browser does before it inserts typed text
+function type(editor: xEditor, node: Node, offset: number, data: string): void {
+  const range = document.createRange();
+  range.setStart(node, offset);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+  editor.contentElement.dispatchEvent(new InputEvent('beforeinput', { inputType: 'insertText', data, cancelable: true }));
+}
+
+function select(node: Node, start: number, end: number): void {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+describe('track changes', () => {
+  let editor: xEditor;
+  let plugin: TrackChangesPlugin;
+  let confirmSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    confirmSpy = jest.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    editor.destroy();
+    confirmSpy.mockRestore();
+  });
+
+  it('records typing in suggesting mode as an insertion by the current user', () => {
+    ({ editor, plugin } = createEditor());
+    editor.setContent('<p>ab</p>');
+    type(editor, editor.contentElement.querySelector('p')!.firstChild!, 1, 'x');
+
+    const changes = plugin.getChanges();
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ type: 'insert', author: 'ann' });
+    expect(editor.contentElement.querySelector('ins')!.textContent).toBe('x');
+  });
+
+  it('records formatting as a change that rejecting undoes', () => {
+    ({ editor, plugin } = createEditor());
+    editor.setContent('<p>hello world</p>');
+    select(editor.contentElement.querySelector('p')!.firstChild!, 0, 5);
+    editor.execCommand('bold');
+
+    const [change] = plugin.getChanges();
+    expect(change).toMatchObject({ type: 'format', author: 'ann' });
+    expect(editor.contentElement.querySelector('strong')!.textContent).toBe('hello');
+
+    plugin.rejectChange(change.id);
+    expect(plugin.getChanges()).toHaveLength(0);
+    expect(editor.contentElement.querySelector('strong')).toBeNull();
+    expect(editor.contentElement.querySelector('p')!.textContent).toBe('hello world');
+  });
+
+  it('records block changes as one change on the changed blocks', () => {
+    ({ editor, plugin } = createEditor());
+    editor.setContent('<p>one</p><p>two</p>');
+    select(editor.contentElement.lastChild!.firstChild!, 0, 3);
+    editor.execCommand('formatBlock', 'h2');
+
+    const [change] = plugin.getChanges();
+    expect(change).toMatchObject({ type: 'format', author: 'ann' });
+    expect(editor.contentElement.querySelector('h2')!.getAttribute('data-change-type')).toBe('format');
+
+    plugin.rejectChange(change.id);
+    expect(editor.contentElement.querySelector('h2')).toBeNull();
+    expect(editor.contentElement.querySelectorAll('p')).toHaveLength(2);
+  });
+
+  it('accepts the changes of one author and keeps the others pending', () => {
+    ({ editor, plugin } = createEditor());
+    editor.setContent(
+      '<p>a<ins data-change-id="c1" data-author="bob">b</ins><del data-change-id="c2" data-author="bob">c</del>d</p>'
+    );
+    type(editor, editor.contentElement.querySelector('p')!.lastChild!, 1, 'e');
+
+    expect(plugin.getSummary().authors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ author: 'bob', insert: 1, delete: 1 }),
+      expect.objectContaining({ author: 'ann', insert: 1 })
+    ]));
+
+    plugin.acceptChangesBy('bob');
+    expect(plugin.getChanges().map(change => change.author)).toEqual(['ann']);
+    expect(editor.contentElement.querySelector('p')!.textContent).toBe('abde');
+  });
+
+  it('records pasting over a selection as a deletion and an insertion undone together', () => {
+    ({ editor, plugin } = createEditor());
+    editor.setContent('<p>hello world</p>');
+    select(editor.contentElement.querySelector('p')!.firstChild!, 6, 11);
+    editor.events.emit('paste', {
+      defaultPrevented: false,
+      clipboardData: { getData: (type: string) => type === 'text/plain' ? 'there' : '' },
+      preventDefault: () => undefined
+    });
+
+    expect(plugin.getChanges().map(change => change.type).sort()).toEqual(['delete', 'insert']);
+    expect(editor.contentElement.querySelector('del')!.textContent).toBe('world');
+    expect(editor.contentElement.querySelector('ins')!.textContent).toBe('there');
+
+    editor.history.undo();
+    expect(editor.getContent()).toBe('<p>hello world</p>');
+  });
+
+  it('asks before accepting all changes, in the editor language', () => {
+    ({ editor, plugin } = createEditor('de'));
+    editor.setContent('<p>ab</p>');
+    type(editor, editor.contentElement.querySelector('p')!.firstChild!, 2, 'c');
+
+    editor.execCommand('acceptAllChanges');
+    expect(confirmSpy).toHaveBeenCalledWith('Alle Änderungen annehmen?');
+    expect(plugin.getChanges()).toHaveLength(0);
+    expect(editor.contentElement.querySelector('p')!.textContent).toBe('abc');
+    expect(editor.contentElement.querySelector('ins')).toBeNull();
+  });
+
+  it('labels the review controls in the editor language', () => {
+    ({ editor, plugin } = createEditor('de'));
+    const options = editor.wrapper.querySelectorAll('.xeditor-changes-mode option');
+    expect(Array.from(options).map(option => option.textContent)).toEqual(['Bearbeiten', 'Vorschlagen']);
+  });
+});
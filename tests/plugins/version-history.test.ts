@@ -0,0 +1,90 @@
+import { xEditor } from '../../src/core/editor';
+import { VersionHistoryPlugin } from '../../src/plugins/version-history';
+import { LocalStorageVersionHistory } from '../../src/plugins/version-history/storage';
+import { errorHandler } from '../../src/utils/error-handler';
+import { Version, VersionHistoryStorage } from '../../src/types';
+import { TextEncoder } from 'util';
+
+// jsdom does not provide it
+Object.assign(global, { TextEncoder });
+
+function createStorage(): VersionHistoryStorage {
+  const versions = new Map<string, Version>();
+  return {
+    save: async version => { versions.set(version.id, version); },
+    load: async id => versions.get(id) || null,
+    loadAll: async () => Array.from(versions.values()),
+    delete: async id => { versions.delete(id); },
+    deleteAll: async () => { versions.clear(); }
+  };
+}
+
+describe('version comparison', () => {
+  let editor: xEditor;
+  let plugin: VersionHistoryPlugin;
+
+  function dialog(): HTMLElement {
+    return document.querySelector('.xeditor-version-diff') as HTMLElement;
+  }
+
+  beforeEach(() => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    plugin = new VersionHistoryPlugin({ autoSaveVersions: false, storageBackend: createStorage() });
+    editor = new xEditor({ container, toolbar: false, plugins: [plugin] });
+    editor.setContent('<p>one</p><p>two</p><p>three</p>');
+  });
+
+  afterEach(() => {
+    editor.destroy();
+  });
+
+  it('summarises the changed blocks and restores one of them', () => {
+    plugin.compareWith('<p>one</p><p>two</p><p>three</p><p>four</p>', 'Draft');
+
+    expect(dialog().querySelector('h3')?.textContent).toBe('Compare with Draft');
+    expect(dialog().textContent).toContain('0 added · 1 removed · 0 modified');
+    expect(dialog().textContent).toContain('3 unchanged blocks');
+
+    const removed = dialog().querySelector('.xeditor-version-diff-block--removed button') as HTMLButtonElement;
+    removed.click();
+    expect(editor.getContent()).toBe('<p>one</p><p>two</p><p>three</p><p>four</p>');
+  });
+
+  it('labels the dialog in the editor language', () => {
+    editor.setLanguage('de');
+    plugin.compareWith('<p>one</p><p>two</p>', '');
+
+    expect(dialog().querySelector('h3')?.textContent).toMatch(/^Vergleichen mit Version compare-/);
+    expect(dialog().textContent).toContain('2 unveränderte Blöcke');
+    expect(dialog().querySelector('.xeditor-version-diff-block--added button')?.textContent).toBe('Entfernen');
+    expect(Array.from(dialog().querySelectorAll('button')).pop()?.textContent).toBe('Schließen');
+  });
+});
+
+describe('LocalStorageVersionHistory', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('claims versions stored by earlier releases and revives their dates', async () => {
+    localStorage.setItem('xeditor-versions', JSON.stringify([
+      { id: 'a', content: '<p>a</p>', timestamp: '2026-01-02T03:04:05.000Z', size: 8 }
+    ]));
+    const storage = new LocalStorageVersionHistory('xeditor-versions-doc');
+
+    const versions = await storage.loadAll();
+    expect(versions[0].timestamp).toEqual(new Date('2026-01-02T03:04:05.000Z'));
+    expect(localStorage.getItem('xeditor-versions')).toBeNull();
+    expect(await new LocalStorageVersionHistory('xeditor-versions-other').loadAll()).toEqual([]);
+  });
+
+  it('reports unreadable versions and treats them as none', async () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    localStorage.setItem('xeditor-versions-doc', '{');
+
+    expect(await new LocalStorageVersionHistory('xeditor-versions-doc').load('a')).toBeNull();
+    expect(handle).toHaveBeenCalledWith(expect.any(SyntaxError), 'Failed to load versions');
+    handle.mockRestore();
+  });
+});
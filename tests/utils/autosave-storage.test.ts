@@ -0,0 +1,33 @@
+import { LocalStorageAutoSaveStorage, createAutoSaveStorage } from '../../src/utils/autosave-storage';
+import { errorHandler } from '../../src/utils/error-handler';
+
+describe('LocalStorageAutoSaveStorage', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it('is used where the browser has no IndexedDB', () => {
+    expect(createAutoSaveStorage()).toBeInstanceOf(LocalStorageAutoSaveStorage);
+  });
+
+  it('saves, loads and deletes drafts by key', async () => {
+    const storage = new LocalStorageAutoSaveStorage();
+    await storage.save('draft', '<p>a</p>');
+    expect(await storage.load('draft')).toBe('<p>a</p>');
+    expect(await storage.load('other')).toBeNull();
+
+    await storage.delete('draft');
+    expect(await storage.load('draft')).toBeNull();
+  });
+
+  it('reports drafts it cannot read', async () => {
+    const handle = jest.spyOn(errorHandler, 'handle').mockImplementation(() => undefined);
+    jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new Error('denied');
+    });
+
+    expect(await new LocalStorageAutoSaveStorage().load('draft')).toBeNull();
+    expect(handle).toHaveBeenCalledWith(new Error('denied'), 'Failed to load from localStorage');
+  });
+});
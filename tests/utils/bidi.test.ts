@@ -0,0 +1,45 @@
+import { xEditor } from '../../src/core/editor';
+import { detectDirection, getDirection, getStartSide, isRTLLanguage } from '../../src/utils/bidi';
+
+describe('bidi helpers', () => {
+  it('knows the right-to-left languages, with or without a region', () => {
+    expect(isRTLLanguage('ar')).toBe(true);
+    expect(isRTLLanguage('he-IL')).toBe(true);
+    expect(isRTLLanguage('FA')).toBe(true);
+    expect(isRTLLanguage('en-US')).toBe(false);
+  });
+
+  it('takes the direction of the first strong character', () => {
+    expect(detectDirection('123 שלום world')).toBe('rtl');
+    expect(detectDirection('(1) hello مرحبا')).toBe('ltr');
+    expect(detectDirection('123 !?')).toBeNull();
+  });
+
+  it('resolves the nearest dir attribute, auto included', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<div dir="rtl"><p id="a">x</p><p id="b" dir="auto">مرحبا hello</p><p id="c" dir="ltr">y</p></div>';
+    document.body.appendChild(root);
+
+    expect(getDirection(root.querySelector('#a')!)).toBe('rtl');
+    expect(getDirection(root.querySelector('#b')!)).toBe('rtl');
+    expect(getStartSide(root.querySelector('#c')!)).toBe('left');
+    expect(getStartSide(root.querySelector('#a')!)).toBe('right');
+    root.remove();
+  });
+});
+
+describe('editor direction', () => {
+  it('follows the language unless set explicitly', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const editor = new xEditor({ container, plugins: [], toolbar: false, language: 'he' });
+    const changed = jest.fn();
+    editor.on('direction:change', changed);
+
+    expect(editor.wrapper.getAttribute('dir')).toBe('rtl');
+    editor.setDirection('ltr');
+    expect(editor.wrapper.getAttribute('dir')).toBe('ltr');
+    expect(changed).toHaveBeenCalledWith('ltr');
+    editor.destroy();
+  });
+});
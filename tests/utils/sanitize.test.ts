@@ -0,0 +1,75 @@
+import { xEditor } from '../../src/core/editor';
+import { mergeSchemas, sanitizeHTMLWithReport } from '../../src/utils/sanitize';
+
+describe('sanitizeHTMLWithReport', () => {
+  it('keeps attributes only on the tags that allow them and reports the rest', () => {
+    const { html, removed } = sanitizeHTMLWithReport(
+      '<p title="x" data-id="1"><a href="/a" title="y" onclick="go()">a</a><script>alert(1)</script></p>',
+      { allowedTags: ['p', 'a'], allowedAttributes: { '*': ['data-*'], a: ['href', 'title'] } }
+    );
+
+    expect(html).toBe('<p data-id="1"><a href="/a" title="y">a</a></p>');
+    expect(removed).toEqual(expect.arrayContaining([
+      { tag: 'p', attribute: 'title', value: 'x' },
+      { tag: 'a', attribute: 'onclick', value: 'go()' },
+      { tag: 'script' }
+    ]));
+  });
+
+  it('drops iframes from hosts that are not allowed', () => {
+    const { html, removed } = sanitizeHTMLWithReport(
+      '<iframe src="https://www.youtube.com/embed/1"></iframe><iframe src="https://evil.example/x"></iframe>',
+      { allowedTags: ['iframe'], allowedAttributes: { iframe: ['src'] }, iframeHosts: ['youtube.com'] }
+    );
+
+    expect(html).toBe('<iframe src="https://www.youtube.com/embed/1"></iframe>');
+    expect(removed).toEqual([{ tag: 'iframe', attribute: 'src', value: 'https://evil.example/x' }]);
+  });
+
+  it('merges schemas case-insensitively without duplicates', () => {
+    expect(mergeSchemas(
+      { tags: ['P', 'a'], attributes: { A: ['HREF'] } },
+      undefined,
+      { tags: ['a'], attributes: { a: ['href', 'title'] }, iframeHosts: ['Vimeo.com'] }
+    )).toEqual({ tags: ['p', 'a'], attributes: { a: ['href', 'title'] }, iframeHosts: ['vimeo.com'] });
+  });
+});
+
+describe('editor sanitize schema', () => {
+  function createEditor(plugins: string[]): xEditor {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    return new xEditor({ container, plugins, toolbar: false });
+  }
+
+  it('allows what the enabled plugins produce and nothing more', () => {
+    const removed = jest.fn();
+    const plain = createEditor([]);
+    plain.on('sanitize:removed', removed);
+    plain.setContent('<p>a</p><img src="https://example.com/a.png" alt="a">');
+    expect(plain.getContent()).toBe('<p>a</p>');
+    expect(removed).toHaveBeenCalledWith([{ tag: 'img' }]);
+    plain.destroy();
+
+    const withImages = createEditor(['image']);
+    withImages.setContent('<p>a</p><img src="https://example.com/a.png" alt="a">');
+    expect(withImages.getContent()).toContain('<img src="https://example.com/a.png" alt="a">');
+    withImages.destroy();
+  });
+
+  it('adds the configured schema to the plugin schemas', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const editor = new xEditor({
+      container,
+      plugins: [],
+      toolbar: false,
+      sanitizeSchema: { tags: ['abbr'], attributes: { abbr: ['title'] } }
+    });
+
+    expect(editor.getSanitizeSchema().attributes.abbr).toEqual(['title']);
+    editor.setContent('<p><abbr title="HyperText Markup Language">HTML</abbr></p>');
+    expect(editor.getContent()).toBe('<p><abbr title="HyperText Markup Language">HTML</abbr></p>');
+    editor.destroy();
+  });
+});
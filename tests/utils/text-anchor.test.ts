@@ -0,0 +1,38 @@
+import { createAnchor, findAnchor, getTextContent, splitTextRange } from '../../src/utils/text-anchor';
+
+function createRoot(html: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+}
+
+describe('text anchors', () => {
+  it('quotes the anchored text with context on both sides', () => {
+    const root = createRoot('<p>The <b>quick</b> brown fox</p>');
+    const anchor = createAnchor(root, 4, 9);
+    expect(anchor).toMatchObject({ exact: 'quick', prefix: 'The ', suffix: ' brown fox', start: 4, end: 9 });
+  });
+
+  it('follows its text when content is inserted before it', () => {
+    const anchor = createAnchor(createRoot('<p>one fox</p>'), 4, 7);
+    expect(findAnchor('well, one fox', anchor)).toEqual({ start: 10, end: 13 });
+  });
+
+  it('picks the occurrence whose context matches', () => {
+    const anchor = createAnchor(createRoot('<p>red fox, blue fox</p>'), 14, 17);
+    expect(findAnchor('a red fox, a blue fox', anchor)).toEqual({ start: 18, end: 21 });
+  });
+
+  it('matches a quote that was slightly edited and gives up on removed text', () => {
+    const anchor = createAnchor(createRoot('<p>see the comment anchoring here</p>'), 8, 25);
+    expect(findAnchor('see the coment anchoring here', anchor)).toEqual({ start: 8, end: 24 });
+    expect(findAnchor('something else entirely', anchor)).toBeNull();
+  });
+
+  it('splits text nodes at the edges of a range', () => {
+    const root = createRoot('<p>ab<i>cd</i>ef</p>');
+    const nodes = splitTextRange(root, 1, 5);
+    expect(nodes.map(node => node.data)).toEqual(['b', 'cd', 'e']);
+    expect(getTextContent(root)).toBe('abcdef');
+  });
+});
@@ -14,6 +14,8 @@ module.exports = (env, argv) => {
     output: {
       path: path.resolve(__dirname, 'dist'),
       filename: isProduction ? '[name].min.js' : '[name].js',
+      // Lazy plugins and Prism grammars are emitted as separate chunks
+      chunkFilename: isProduction ? 'chunks/[name].[contenthash:8].min.js' : 'chunks/[name].js',
       library: {
         name: 'xEditor',
         type: 'umd',
@@ -62,7 +64,8 @@ module.exports = (env, argv) => {
     plugins: [
       new CleanWebpackPlugin(),
       new MiniCssExtractPlugin({
-        filename: isProduction ? '[name].min.css' : '[name].css'
+        filename: isProduction ? '[name].min.css' : '[name].css',
+        chunkFilename: isProduction ? 'chunks/[name].[contenthash:8].min.css' : 'chunks/[name].css'
       }),
       ...(isProduction ? [] : [
         new HtmlWebpackPlugin({